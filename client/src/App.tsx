@@ -10,6 +10,9 @@ import LoansPage from "@/pages/loans";
 import BanksPage from "@/pages/banks";
 import BankDetailPage from "@/pages/bank-detail";
 import BankAnalyticsPage from "@/pages/bank-analytics";
+import BankReconciliationPage from "@/pages/bank-reconciliation";
+import GeneralLedgerPage from "@/pages/general-ledger";
+import ApprovalsPage from "@/pages/approvals";
 import BankContactCreatePage from "@/pages/bank-contact-create";
 import FacilityCreatePage from "@/pages/facility-create";
 import FacilityCreateGeneralPage from "@/pages/facility-create-general";
@@ -52,6 +55,9 @@ import AdminSecurityPage from "@/pages/admin-portal/security";
 import AdminAlertsPage from "@/pages/admin-portal/alerts";
 import AdminSettingsPage from "@/pages/admin-portal/settings";
 import AdminTemplatesPage from "@/pages/admin-portal/templates";
+import AdminReferenceRatesPage from "@/pages/admin-portal/reference-rates";
+import AdminSharePricesPage from "@/pages/admin-portal/share-prices";
+import AdminDocumentRetentionPage from "@/pages/admin-portal/document-retention";
 import UserSettingsPage from "@/pages/user-settings";
 import FeaturesTipsPage from "@/pages/features-tips";
 import HelpDeskPage from "@/pages/help-desk";
@@ -117,6 +123,9 @@ function App() {
         <Route path="/admin-portal/alerts" component={AdminAlertsPage} />
         <Route path="/admin-portal/settings" component={AdminSettingsPage} />
         <Route path="/admin-portal/templates" component={AdminTemplatesPage} />
+        <Route path="/admin-portal/reference-rates" component={AdminReferenceRatesPage} />
+        <Route path="/admin-portal/share-prices" component={AdminSharePricesPage} />
+        <Route path="/admin-portal/document-retention" component={AdminDocumentRetentionPage} />
         <Route path="/admin-portal/*" component={AdminDashboardPage} />
       </Switch>
     );
@@ -163,6 +172,7 @@ function App() {
           <Route path="/loans/:id/payment/create" component={PaymentCreatePage} />
           <Route path="/banks" component={BanksPage} />
           <Route path="/banks/:bankId/analytics" component={BankAnalyticsPage} />
+          <Route path="/banks/:bankId/reconciliation" component={BankReconciliationPage} />
           <Route path="/banks/:id" component={BankDetailPage} />
           <Route path="/banks/:bankId/contacts/new" component={BankContactCreatePage} />
           <Route path="/banks/:bankId/facility/create" component={FacilityCreatePage} />
@@ -174,9 +184,11 @@ function App() {
           <Route path="/guarantees" component={GuaranteesPage} />
           <Route path="/guarantees/create" component={GuaranteeCreatePage} />
           <Route path="/guarantees/:id" component={GuaranteeDetailPage} />
+          <Route path="/approvals" component={ApprovalsPage} />
           <Route path="/history" component={HistoryPage} />
           <Route path="/analytics" component={AnalyticsPage} />
           <Route path="/reports" component={ReportsPage} />
+          <Route path="/reports/general-ledger" component={GeneralLedgerPage} />
           <Route path="/ai-chat" component={AIChatPage} />
           <Route path="/more" component={MorePage} />
           <Route path="/settings" component={UserSettingsPage} />
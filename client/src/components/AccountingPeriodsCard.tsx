@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Lock, LockOpen } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AccountingPeriod } from "@shared/schema";
+
+// Most recent month that has fully ended
+const lastFinishedMonth = () => {
+  const today = new Date();
+  const previous = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+  return `${previous.getFullYear()}-${String(previous.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const formatPeriod = (period: string) => {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+};
+
+export function AccountingPeriodsCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isOwner = !!(user as any)?.isOwner;
+  const { can } = usePermissions();
+  const [period, setPeriod] = useState(lastFinishedMonth());
+  const [reopening, setReopening] = useState<AccountingPeriod | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: periods = [] } = useQuery<AccountingPeriod[]>({ queryKey: ["/api/accounting-periods"] });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/accounting-periods"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/snapshots"] });
+  };
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/accounting-periods/close", { period });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Period closed", description: `${formatPeriod(period)} is locked and its month-end snapshot is official` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to close period", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async () => {
+      if (!reopening) return;
+      await apiRequest("POST", `/api/accounting-periods/${reopening.period}/reopen`, { reason });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Period reopened", description: reopening ? formatPeriod(reopening.period) : undefined });
+      setReopening(null);
+      setReason("");
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to reopen period", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="w-5 h-5" />
+          Period Close
+        </CardTitle>
+        <CardDescription>
+          Closing a month freezes its month-end portfolio snapshot and rejects loan edits, payments, settlements
+          and settlement reversals dated in it. Only the organization owner can reopen a closed month.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-3 md:flex-row md:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="close-period">Month</Label>
+            <Input
+              id="close-period"
+              type="month"
+              value={period}
+              max={lastFinishedMonth()}
+              onChange={(e) => setPeriod(e.target.value)}
+              className="w-48"
+              data-testid="input-close-period"
+            />
+          </div>
+          {can('reports') && (
+            <Button onClick={() => closeMutation.mutate()} disabled={!period || closeMutation.isPending} data-testid="button-close-period">
+              <Lock className="w-4 h-4 mr-2" />
+              {closeMutation.isPending ? "Closing..." : "Close Period"}
+            </Button>
+          )}
+        </div>
+
+        {periods.length > 0 && (
+          <div className="space-y-2">
+            {periods.map(p => (
+              <div key={p.id} className="flex items-center justify-between rounded-md border p-3" data-testid={`row-period-${p.period}`}>
+                <div className="text-sm">
+                  <div className="font-medium">{formatPeriod(p.period)}</div>
+                  <div className="text-muted-foreground">
+                    {p.status === "closed"
+                      ? `Closed ${new Date(p.closedAt).toLocaleString()}`
+                      : `Reopened ${p.reopenedAt ? new Date(p.reopenedAt).toLocaleString() : ""}${p.reopenReason ? ` - ${p.reopenReason}` : ""}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={p.status === "closed" ? "default" : "outline"} className="capitalize">{p.status}</Badge>
+                  {p.status === "closed" && isOwner && (
+                    <Button variant="ghost" size="sm" onClick={() => setReopening(p)} data-testid={`button-reopen-${p.period}`}>
+                      <LockOpen className="w-4 h-4 mr-1" />
+                      Reopen
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!reopening} onOpenChange={(open) => { if (!open) { setReopening(null); setReason(""); } }}>
+        <DialogContent data-testid="dialog-reopen-period">
+          <DialogHeader>
+            <DialogTitle>Reopen {reopening ? formatPeriod(reopening.period) : ""}</DialogTitle>
+            <DialogDescription>
+              Changes dated in this month will be accepted again and its snapshot stops being the official figure
+              until the month is closed again. The reason is recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reopen-reason">Reason</Label>
+            <Textarea
+              id="reopen-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Bank charge for the month was missed"
+              data-testid="input-reopen-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setReopening(null); setReason(""); }}>Cancel</Button>
+            <Button onClick={() => reopenMutation.mutate()} disabled={!reason.trim() || reopenMutation.isPending} data-testid="button-confirm-reopen">
+              Reopen Period
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,377 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FileText, Plus, Sparkles, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  creditLineTypeZodEnum,
+  facilityTypeZodEnum,
+  type Attachment,
+  type CreditLineType,
+  type FacilityAgreementImportRequest,
+  type FacilityType,
+} from "@shared/schema";
+import type { ExtractedField, FacilityAgreementDraft } from "@shared/types";
+
+const label = (value: string) => value.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+interface ReviewedCreditLine {
+  name: string;
+  creditLineType: CreditLineType;
+  creditLimit: string;
+  interestRate: string;
+  hint: ExtractedField<unknown>;
+}
+
+interface ReviewedTerm {
+  text: string;
+  include: boolean;
+  hint: ExtractedField<string>;
+}
+
+// Confidence of an extracted value and the passage it was read from
+function ExtractionHint({ field }: { field: ExtractedField<unknown> }) {
+  if (field.value === null) {
+    return <p className="text-xs text-muted-foreground">Not found in the agreement</p>;
+  }
+  const percent = Math.round(field.confidence * 100);
+  return (
+    <div className="space-y-1">
+      <Badge variant={percent >= 70 ? "secondary" : "destructive"} className="text-xs">
+        {percent}% confidence{field.citationFound ? "" : " - source not found"}
+      </Badge>
+      {field.citation && (
+        <p className="text-xs italic text-muted-foreground border-l-2 pl-2">“{field.citation}”</p>
+      )}
+    </div>
+  );
+}
+
+interface AgreementImportDialogProps {
+  bankId: string;
+  bankName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AgreementImportDialog({ bankId, bankName, open, onOpenChange }: AgreementImportDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<FacilityAgreementDraft | null>(null);
+  const [facilityType, setFacilityType] = useState<FacilityType>("revolving");
+  const [creditLimit, setCreditLimit] = useState("");
+  const [costOfFunding, setCostOfFunding] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [creditLines, setCreditLines] = useState<ReviewedCreditLine[]>([]);
+  const [covenants, setCovenants] = useState<ReviewedTerm[]>([]);
+  const [fees, setFees] = useState<ReviewedTerm[]>([]);
+
+  const { data: attachments = [] } = useQuery<Attachment[]>({
+    queryKey: ["/api/attachments", "bank", bankId],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/attachments?ownerType=bank&ownerId=${encodeURIComponent(bankId)}`);
+      return response.json();
+    },
+    enabled: open,
+  });
+  const agreements = attachments.filter(a => a.category === "facility_agreement");
+
+  const review = (result: FacilityAgreementDraft) => {
+    setDraft(result);
+    setFacilityType(result.facilityType.value ?? "revolving");
+    setCreditLimit(result.creditLimit.value ?? "");
+    setCostOfFunding(result.margin.value ?? "");
+    setStartDate(result.startDate.value ?? "");
+    setExpiryDate(result.expiryDate.value ?? "");
+    setCreditLines(result.creditLines.map(line => ({
+      name: line.name.value ?? "",
+      creditLineType: line.creditLineType.value ?? "other",
+      creditLimit: line.creditLimit.value ?? "",
+      interestRate: line.interestRate.value ?? "",
+      hint: line.creditLimit,
+    })));
+    setCovenants(result.covenants.map(c => ({ text: c.value!, include: true, hint: c })));
+    setFees(result.fees.map(f => ({ text: f.value!, include: true, hint: f })));
+  };
+
+  const extractMutation = useMutation({
+    mutationFn: async (attachmentId: string) => {
+      const response = await apiRequest("POST", `/api/facility-agreements/${attachmentId}/extract`);
+      return response.json() as Promise<FacilityAgreementDraft>;
+    },
+    onSuccess: review,
+    onError: (error: any) => {
+      toast({ title: "Could not read the agreement", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("entityType", "bank");
+      formData.append("entityId", bankId);
+      formData.append("category", "facility_agreement");
+      const response = await fetch("/api/documents/upload", { method: "POST", body: formData, credentials: "include" });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.message || body.error || "Upload failed");
+      }
+      return body.document as Attachment;
+    },
+    onSuccess: (attachment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/attachments", "bank", bankId] });
+      extractMutation.mutate(attachment.id);
+    },
+    onError: (error: any) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const body: FacilityAgreementImportRequest = {
+        bankId,
+        facility: {
+          facilityType,
+          creditLimit,
+          costOfFunding,
+          startDate,
+          expiryDate: expiryDate || null,
+        },
+        creditLines: creditLines.map(line => ({
+          name: line.name,
+          creditLineType: line.creditLineType,
+          creditLimit: line.creditLimit,
+          interestRate: line.interestRate || undefined,
+        })),
+        covenants: covenants.filter(c => c.include).map(c => c.text),
+        fees: fees.filter(f => f.include).map(f => f.text),
+      };
+      const response = await apiRequest("POST", `/api/facility-agreements/${draft!.attachmentId}/import`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/facilities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-lines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
+      toast({ title: "Facility created from the agreement" });
+      close();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to create facility", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const close = () => {
+    setDraft(null);
+    onOpenChange(false);
+  };
+
+  const updateLine = (index: number, changes: Partial<ReviewedCreditLine>) => {
+    setCreditLines(lines => lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const reading = uploadMutation.isPending || extractMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Sparkles className="h-5 w-5" />
+            <span>Import Facility from Agreement</span>
+          </DialogTitle>
+          <DialogDescription>
+            The agreement is read into a draft facility. Check every value against the quoted passage - nothing is saved
+            until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!draft ? (
+          <div className="space-y-4">
+            {agreements.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No facility agreements uploaded for {bankName} yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {agreements.map(agreement => (
+                  <div key={agreement.id} className="flex items-center justify-between rounded-lg border p-3">
+                    <span className="flex items-center space-x-2 text-sm">
+                      <FileText className="h-4 w-4" />
+                      <span>{agreement.fileName}</span>
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => extractMutation.mutate(agreement.id)}
+                      disabled={reading}
+                      data-testid={`button-extract-agreement-${agreement.id}`}
+                    >
+                      Read Agreement
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".pdf,.docx,.xlsx,.xls,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) uploadMutation.mutate(file);
+                e.target.value = "";
+              }}
+              data-testid="input-agreement-file"
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={reading} data-testid="button-upload-agreement">
+              <Upload className="h-4 w-4 mr-2" />
+              {reading ? "Reading agreement..." : "Upload Agreement"}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {draft.warnings.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-amber-700 dark:text-amber-400">
+                {draft.warnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            )}
+            {draft.bankName.value && draft.bankId !== bankId && (
+              <p className="text-sm text-amber-700 dark:text-amber-400">
+                The agreement names {draft.bankName.value}; the facility will be created under {bankName}.
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Facility Type</Label>
+                <Select value={facilityType} onValueChange={(value) => setFacilityType(value as FacilityType)}>
+                  <SelectTrigger data-testid="select-import-facility-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {facilityTypeZodEnum.options.map(type => (
+                      <SelectItem key={type} value={type}>{label(type)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ExtractionHint field={draft.facilityType} />
+              </div>
+              <div className="space-y-2">
+                <Label>Credit Limit (SAR)</Label>
+                <Input value={creditLimit} onChange={(e) => setCreditLimit(e.target.value)} data-testid="input-import-credit-limit" />
+                <ExtractionHint field={draft.creditLimit} />
+              </div>
+              <div className="space-y-2">
+                <Label>Margin over SIBOR (%)</Label>
+                <Input value={costOfFunding} onChange={(e) => setCostOfFunding(e.target.value)} data-testid="input-import-margin" />
+                <ExtractionHint field={draft.margin} />
+              </div>
+              <div className="space-y-2">
+                <Label>Tenor</Label>
+                <p className="text-sm">{draft.tenorMonths.value ? `${draft.tenorMonths.value} months` : "-"}</p>
+                <ExtractionHint field={draft.tenorMonths} />
+              </div>
+              <div className="space-y-2">
+                <Label>Start Date</Label>
+                <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} data-testid="input-import-start-date" />
+                <ExtractionHint field={draft.startDate} />
+              </div>
+              <div className="space-y-2">
+                <Label>Expiry Date</Label>
+                <Input type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} data-testid="input-import-expiry-date" />
+                <ExtractionHint field={draft.expiryDate} />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Credit Lines (sub-limits)</Label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setCreditLines(lines => [...lines, {
+                    name: "",
+                    creditLineType: "other",
+                    creditLimit: "",
+                    interestRate: "",
+                    hint: { value: null, confidence: 0, citation: null, citationFound: false },
+                  }])}
+                  data-testid="button-import-add-credit-line"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {creditLines.length === 0 && <p className="text-sm text-muted-foreground">No sub-limits</p>}
+              {creditLines.map((line, index) => (
+                <div key={index} className="rounded-lg border p-3 space-y-2">
+                  <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_1.5fr_1fr_auto] gap-2">
+                    <Input value={line.name} onChange={(e) => updateLine(index, { name: e.target.value })} placeholder="Name" />
+                    <Select value={line.creditLineType} onValueChange={(value) => updateLine(index, { creditLineType: value as CreditLineType })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {creditLineTypeZodEnum.options.map(type => (
+                          <SelectItem key={type} value={type}>{label(type)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input value={line.creditLimit} onChange={(e) => updateLine(index, { creditLimit: e.target.value })} placeholder="Limit (SAR)" />
+                    <Input value={line.interestRate} onChange={(e) => updateLine(index, { interestRate: e.target.value })} placeholder="Margin %" />
+                    <Button variant="ghost" size="sm" onClick={() => setCreditLines(lines => lines.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {line.hint.value !== null && <ExtractionHint field={line.hint} />}
+                </div>
+              ))}
+            </div>
+
+            {([["Covenants", covenants, setCovenants], ["Fees", fees, setFees]] as const).map(([title, terms, setTerms]) => (
+              <div key={title} className="space-y-2">
+                <Label>{title}</Label>
+                {terms.length === 0 && <p className="text-sm text-muted-foreground">None found</p>}
+                {terms.map((term, index) => (
+                  <div key={index} className="flex items-start space-x-2">
+                    <Checkbox
+                      checked={term.include}
+                      onCheckedChange={(checked) => setTerms(current => current.map((t, i) => i === index ? { ...t, include: checked === true } : t))}
+                    />
+                    <div className="space-y-1">
+                      <p className="text-sm">{term.text}</p>
+                      <ExtractionHint field={term.hint} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          {draft && (
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={importMutation.isPending || !creditLimit || !costOfFunding || !startDate}
+              data-testid="button-confirm-agreement-import"
+            >
+              {importMutation.isPending ? "Creating..." : "Create Facility"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -20,7 +20,8 @@ import {
   Boxes,
   Lightbulb,
   HelpCircle,
-  TrendingUp
+  TrendingUp,
+  ClipboardCheck
 } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 import {
@@ -94,6 +95,11 @@ const navigation = [
         url: "/collateral",
         icon: Shield,
       },
+      {
+        title: "Approvals",
+        url: "/approvals",
+        icon: ClipboardCheck,
+      },
     ],
   },
   {
@@ -0,0 +1,120 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { bankRequestSchema, type Bank, type BankRequest } from "@shared/schema";
+
+interface BankFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bank?: Bank; // Edit this bank instead of adding a new one
+  onSaved?: (bank: Bank) => void;
+}
+
+export function BankFormDialog({ open, onOpenChange, bank, onSaved }: BankFormDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<BankRequest>({
+    resolver: zodResolver(bankRequestSchema),
+    defaultValues: { name: "", code: "", targetLtv: "70.00" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: bank?.name ?? "",
+        code: bank?.code ?? "",
+        targetLtv: bank?.targetLtv ?? "70.00",
+      });
+    }
+  }, [open, bank, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BankRequest) => {
+      const response = bank
+        ? await apiRequest("PUT", `/api/banks/${bank.id}`, data)
+        : await apiRequest("POST", "/api/banks", data);
+      return (await response.json()) as Bank;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/banks"] });
+      toast({ title: bank ? "Bank updated" : "Bank added", description: saved.name });
+      onOpenChange(false);
+      onSaved?.(saved);
+    },
+    onError: (error: any) => {
+      toast({ title: bank ? "Failed to update bank" : "Failed to add bank", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-bank-form">
+        <DialogHeader>
+          <DialogTitle>{bank ? `Edit ${bank.name}` : "Add Bank"}</DialogTitle>
+          <DialogDescription>
+            {bank
+              ? "Changes apply to this organization's bank only."
+              : "Add a foreign or non-listed lender. The bank is only visible to your organization."}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. Emirates NBD" data-testid="input-bank-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Code</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. ENBD" className="uppercase" maxLength={10} data-testid="input-bank-code" />
+                  </FormControl>
+                  <FormDescription>Must be unique among your banks and the listed Saudi banks</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="targetLtv"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Target LTV (%)</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ""} type="number" step="0.01" min="0" max="100" data-testid="input-bank-target-ltv" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-bank">
+                {saveMutation.isPending ? "Saving..." : bank ? "Save Changes" : "Add Bank"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Bank } from "@shared/schema";
+import type { BankMergeResult } from "@shared/types";
+
+interface BankMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bank: Bank; // The duplicate that is merged away
+  onMerged?: (result: BankMergeResult) => void;
+}
+
+export function BankMergeDialog({ open, onOpenChange, bank, onMerged }: BankMergeDialogProps) {
+  const { toast } = useToast();
+  const [targetBankId, setTargetBankId] = useState("");
+
+  const { data: banks = [] } = useQuery<Bank[]>({ queryKey: ["/api/banks"], enabled: open });
+  const targets = banks.filter(b => b.id !== bank.id);
+
+  const close = () => {
+    setTargetBankId("");
+    onOpenChange(false);
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/banks/${bank.id}/merge`, { targetBankId });
+      return (await response.json()) as BankMergeResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/banks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/facilities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
+      toast({
+        title: "Banks merged",
+        description: `Moved ${result.facilities} facilities, ${result.contacts} contacts, ${result.attachments} attachments and ${result.transactions} transactions`,
+      });
+      close();
+      onMerged?.(result);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to merge banks", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent data-testid="dialog-bank-merge">
+        <DialogHeader>
+          <DialogTitle>Merge {bank.name}</DialogTitle>
+          <DialogDescription>
+            Facilities, contacts, attachments, transactions, statements and account mappings of {bank.name} move to
+            the bank you pick, and {bank.name} is archived. This cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label>Merge into</Label>
+          <Select value={targetBankId} onValueChange={setTargetBankId}>
+            <SelectTrigger data-testid="select-merge-target">
+              <SelectValue placeholder="Select bank..." />
+            </SelectTrigger>
+            <SelectContent>
+              {targets.map(target => (
+                <SelectItem key={target.id} value={target.id}>
+                  {target.name} ({target.code})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={() => mergeMutation.mutate()}
+            disabled={!targetBankId || mergeMutation.isPending}
+            data-testid="button-confirm-merge"
+          >
+            {mergeMutation.isPending ? "Merging..." : "Merge Banks"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
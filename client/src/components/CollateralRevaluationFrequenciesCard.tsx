@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Save } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CollateralRevaluationFrequency, CollateralType } from "@shared/schema";
+
+const COLLATERAL_TYPES: { value: CollateralType; label: string }[] = [
+  { value: "real_estate", label: "Real Estate" },
+  { value: "liquid_stocks", label: "Liquid Stocks" },
+  { value: "other", label: "Other" },
+];
+
+interface RevaluationFrequenciesResponse {
+  defaults: Record<CollateralType, number>;
+  frequencies: CollateralRevaluationFrequency[];
+}
+
+export function CollateralRevaluationFrequenciesCard() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [months, setMonths] = useState<Record<string, string>>({});
+
+  const { data } = useQuery<RevaluationFrequenciesResponse>({ queryKey: ["/api/collateral/revaluation-frequencies"] });
+
+  useEffect(() => {
+    setMonths(Object.fromEntries((data?.frequencies ?? []).map(f => [f.collateralType, String(f.frequencyMonths)])));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = Object.fromEntries(COLLATERAL_TYPES.map(({ value }) => [value, months[value] ? parseInt(months[value], 10) : null]));
+      await apiRequest("PUT", "/api/collateral/revaluation-frequencies", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collateral/revaluation-frequencies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/collateral/revaluations-due"] });
+      toast({ title: "Revaluation frequencies saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save revaluation frequencies", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Revaluation Frequency</CardTitle>
+        <CardDescription>
+          Months after which a valuation is stale and a revaluation alert fires. Leave empty to use the default shown.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          {COLLATERAL_TYPES.map(({ value, label }) => (
+            <div key={value} className="space-y-2">
+              <Label>{label}</Label>
+              <Input
+                type="number"
+                step="1"
+                min="1"
+                max="120"
+                value={months[value] ?? ""}
+                onChange={(e) => setMonths(m => ({ ...m, [value]: e.target.value }))}
+                disabled={!can('organization')}
+                placeholder={data ? `${data.defaults[value]}` : ""}
+                data-testid={`input-revaluation-months-${value}`}
+              />
+            </div>
+          ))}
+        </div>
+        {can('organization') && (
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-revaluation-frequencies">
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save Frequencies"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
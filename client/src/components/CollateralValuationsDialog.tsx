@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ModernDatePicker } from "@/components/ui/date-picker";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import type { Attachment, CollateralValuation } from "@shared/schema";
+
+interface CollateralValuationsDialogProps {
+  collateral: { id: string; name: string } | null; // Closed when null
+  onOpenChange: (open: boolean) => void;
+}
+
+const NO_REPORT = "none";
+const today = () => new Date().toLocaleDateString("en-CA");
+
+export function CollateralValuationsDialog({ collateral, onOpenChange }: CollateralValuationsDialogProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [value, setValue] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState(today());
+  const [source, setSource] = useState("");
+  const [valuerName, setValuerName] = useState("");
+  const [reportAttachmentId, setReportAttachmentId] = useState(NO_REPORT);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (collateral) {
+      setValue("");
+      setEffectiveDate(today());
+      setSource("");
+      setValuerName("");
+      setReportAttachmentId(NO_REPORT);
+      setNotes("");
+    }
+  }, [collateral]);
+
+  const { data: valuations = [], isLoading } = useQuery<CollateralValuation[]>({
+    queryKey: ["/api/collateral", collateral?.id, "valuations"],
+    enabled: !!collateral,
+  });
+
+  // Valuation reports are uploaded under the collateral's documents
+  const { data: attachments = [] } = useQuery<Attachment[]>({
+    queryKey: ["/api/attachments", "collateral", collateral?.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/attachments?ownerType=collateral&ownerId=${collateral!.id}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch documents");
+      return response.json();
+    },
+    enabled: !!collateral,
+  });
+  const reportName = (id: string | null) => attachments.find(a => a.id === id)?.fileName;
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const optional = (text: string) => text.trim() || undefined;
+      await apiRequest("POST", `/api/collateral/${collateral!.id}/valuations`, {
+        value,
+        effectiveDate,
+        source,
+        valuerName: optional(valuerName),
+        reportAttachmentId: reportAttachmentId === NO_REPORT ? undefined : reportAttachmentId,
+        notes: optional(notes),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collateral"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/collateral", collateral!.id, "valuations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/collateral/ltv-timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/collateral/revaluations-due"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
+      toast({ title: "Valuation recorded" });
+      setValue("");
+      setSource("");
+      setValuerName("");
+      setReportAttachmentId(NO_REPORT);
+      setNotes("");
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to record valuation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSubmit = !!value && parseFloat(value) > 0 && !!effectiveDate && !!source.trim();
+
+  return (
+    <Dialog open={!!collateral} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto" data-testid="dialog-collateral-valuations">
+        <DialogHeader>
+          <DialogTitle>Valuations - {collateral?.name}</DialogTitle>
+          <DialogDescription>
+            Every valuation is kept. The one with the latest effective date is the collateral's current value.
+          </DialogDescription>
+        </DialogHeader>
+
+        {can('collateral') && (
+          <div className="space-y-4 rounded-lg border border-border p-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Value (SAR)</Label>
+                <Input type="number" step="0.01" min="0" value={value} onChange={(e) => setValue(e.target.value)} data-testid="input-valuation-value" />
+              </div>
+              <div className="space-y-2">
+                <Label>Effective date</Label>
+                <ModernDatePicker value={effectiveDate} onChange={setEffectiveDate} placeholder="Date" dataTestId="input-valuation-date" />
+              </div>
+              <div className="space-y-2">
+                <Label>Source</Label>
+                <Input value={source} onChange={(e) => setSource(e.target.value)} maxLength={100} placeholder="e.g. Independent valuer, Bank valuation" data-testid="input-valuation-source" />
+              </div>
+              <div className="space-y-2">
+                <Label>Valuer (optional)</Label>
+                <Input value={valuerName} onChange={(e) => setValuerName(e.target.value)} maxLength={200} data-testid="input-valuation-valuer" />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label>Valuation report (optional)</Label>
+                <Select value={reportAttachmentId} onValueChange={setReportAttachmentId}>
+                  <SelectTrigger data-testid="select-valuation-report">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_REPORT}>No report</SelectItem>
+                    {attachments.map(attachment => (
+                      <SelectItem key={attachment.id} value={attachment.id}>{attachment.fileName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Upload the report under the collateral's documents to link it here.</p>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label>Notes (optional)</Label>
+                <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={2000} data-testid="input-valuation-notes" />
+              </div>
+            </div>
+            <Button onClick={() => addMutation.mutate()} disabled={!canSubmit || addMutation.isPending} data-testid="button-add-valuation">
+              {addMutation.isPending ? "Saving..." : "Record Valuation"}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading valuations...</p>
+        ) : valuations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No valuations recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left text-muted-foreground">
+                  <th className="py-2 pr-4">Effective</th>
+                  <th className="py-2 pr-4 text-right">Value</th>
+                  <th className="py-2 pr-4">Source</th>
+                  <th className="py-2 pr-4">Valuer</th>
+                  <th className="py-2">Report</th>
+                </tr>
+              </thead>
+              <tbody>
+                {valuations.map(valuation => (
+                  <tr key={valuation.id} className="border-b border-border last:border-0" data-testid={`row-valuation-${valuation.id}`}>
+                    <td className="py-2 pr-4">{formatDate(valuation.effectiveDate)}</td>
+                    <td className="py-2 pr-4 text-right font-medium">{formatCurrency(parseFloat(valuation.value))}</td>
+                    <td className="py-2 pr-4">{valuation.source || "-"}</td>
+                    <td className="py-2 pr-4">{valuation.valuerName || "-"}</td>
+                    <td className="py-2">
+                      {valuation.reportAttachmentId ? (
+                        <a
+                          href={`/api/attachments/${valuation.reportAttachmentId}/download`}
+                          className="text-primary underline"
+                          data-testid={`link-valuation-report-${valuation.id}`}
+                        >
+                          {reportName(valuation.reportAttachmentId) || "Download"}
+                        </a>
+                      ) : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
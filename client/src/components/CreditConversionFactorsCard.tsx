@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Save } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CreditConversionFactor, GuaranteeType } from "@shared/schema";
+
+const GUARANTEE_TYPES: { value: GuaranteeType; label: string }[] = [
+  { value: "bid_bond", label: "Bid Bond" },
+  { value: "performance_bond", label: "Performance Bond" },
+  { value: "advance_payment_guarantee", label: "Advance Payment Guarantee" },
+  { value: "retention_money_guarantee", label: "Retention Money Guarantee" },
+  { value: "general_bank_guarantee", label: "General Bank Guarantee" },
+  { value: "other", label: "Other" },
+];
+
+interface ConversionFactorsResponse {
+  defaults: Record<GuaranteeType, number>;
+  factors: CreditConversionFactor[];
+}
+
+export function CreditConversionFactorsCard() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [factors, setFactors] = useState<Record<string, string>>({});
+
+  const { data } = useQuery<ConversionFactorsResponse>({ queryKey: ["/api/guarantees/conversion-factors"] });
+
+  useEffect(() => {
+    setFactors(Object.fromEntries((data?.factors ?? []).map(f => [f.guaranteeType, f.factor])));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = Object.fromEntries(GUARANTEE_TYPES.map(({ value }) => [value, factors[value] ? factors[value] : null]));
+      await apiRequest("PUT", "/api/guarantees/conversion-factors", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guarantees/conversion-factors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
+      toast({ title: "Credit conversion factors saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save credit conversion factors", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Credit Conversion Factors</CardTitle>
+        <CardDescription>
+          Share of a guarantee in force that counts as exposure, in percent. Leave empty to use the default shown.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          {GUARANTEE_TYPES.map(({ value, label }) => (
+            <div key={value} className="space-y-2">
+              <Label>{label}</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                value={factors[value] ?? ""}
+                onChange={(e) => setFactors(f => ({ ...f, [value]: e.target.value }))}
+                disabled={!can('organization')}
+                placeholder={data ? `${data.defaults[value]}` : ""}
+                data-testid={`input-ccf-${value}`}
+              />
+            </div>
+          ))}
+        </div>
+        {can('organization') && (
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-ccf">
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save Factors"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,55 @@
 import { useState, useRef, useEffect } from 'react';
-import { Bot, X, Send, Loader2, Sparkles } from 'lucide-react';
+import { Bot, X, Send, Loader2, Sparkles, CheckCircle2, XCircle, ShieldAlert } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
 import { apiRequest, invalidateLoans, invalidateFacilities, invalidateBanks, invalidateReminders, invalidateCollateral } from '@/lib/queryClient';
 import { useIsMobile } from '@/hooks/use-mobile';
+import type { AgentToolExecution } from '@shared/types';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
+  trace?: AgentToolExecution[];
+}
+
+const TRACE_STATUS = {
+  succeeded: { icon: CheckCircle2, className: 'text-green-600 dark:text-green-400', label: 'Done' },
+  failed: { icon: XCircle, className: 'text-red-600 dark:text-red-400', label: 'Failed' },
+  denied: { icon: ShieldAlert, className: 'text-amber-600 dark:text-amber-400', label: 'Not permitted' },
+};
+
+// "settleLoan" -> "Settle loan"
+const functionLabel = (name: string) => {
+  const words = name.replace(/([A-Z])/g, ' $1').toLowerCase().trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+function AgentTrace({ trace }: { trace: AgentToolExecution[] }) {
+  const rounds = new Set(trace.map(execution => execution.round)).size;
+  return (
+    <div className="mt-2 border-t border-gray-200 dark:border-gray-700 pt-2 space-y-1" data-testid="agent-trace">
+      <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
+        {trace.length} {trace.length === 1 ? 'action' : 'actions'}{rounds > 1 ? ` in ${rounds} steps` : ''}
+      </p>
+      {trace.map(execution => {
+        const status = TRACE_STATUS[execution.status];
+        const Icon = status.icon;
+        const error = execution.status !== 'succeeded' ? execution.result?.error : undefined;
+        return (
+          <div key={execution.toolCallId} className="flex items-start gap-1.5 text-xs" data-testid={`trace-${execution.toolCallId}`}>
+            <Icon className={cn('w-3.5 h-3.5 mt-0.5 flex-shrink-0', status.className)} />
+            <div className="min-w-0">
+              <span className="font-medium">{functionLabel(execution.name)}</span>
+              <span className="text-gray-500 dark:text-gray-400"> · {status.label}</span>
+              {error && <p className="text-gray-500 dark:text-gray-400 break-words">{error}</p>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
 }
 
 export function FloatingAgentChat() {
@@ -46,7 +86,7 @@ export function FloatingAgentChat() {
     setIsLoading(true);
 
     try {
-      const apiMessages = messages.concat(userMessage);
+      const apiMessages = messages.concat(userMessage).map(({ role, content }) => ({ role, content }));
       
       const response = await apiRequest('POST', '/api/agent/chat', { 
         messages: apiMessages 
@@ -56,14 +96,15 @@ export function FloatingAgentChat() {
 
       const assistantMessage: Message = {
         role: 'assistant',
-        content: data.message
+        content: data.message,
+        trace: data.trace
       };
 
       setMessages(prev => [...prev, assistantMessage]);
 
       // Invalidate cache when AI performs mutations
       if (data.metadata) {
-        if (data.metadata.loanCreated || data.metadata.loanUpdated || data.metadata.loanSettled) {
+        if (data.metadata.loanCreated || data.metadata.loanUpdated || data.metadata.loanSettled || data.metadata.loanRevolved) {
           invalidateLoans();
         }
         if (data.metadata.facilityCreated || data.metadata.facilityUpdated) {
@@ -258,6 +299,7 @@ export function FloatingAgentChat() {
                       )}
                     >
                       <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                      {message.trace && message.trace.length > 0 && <AgentTrace trace={message.trace} />}
                     </div>
                     {message.role === 'user' && (
                       <div className="w-8 h-8 rounded-full bg-gradient-to-br from-gray-200 to-gray-300 dark:from-gray-700 dark:to-gray-600 flex items-center justify-center flex-shrink-0">
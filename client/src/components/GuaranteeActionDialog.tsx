@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ModernDatePicker } from "@/components/ui/date-picker";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/formatters";
+import type { GuaranteeAction } from "@shared/schema";
+
+// Expiry is applied by the guarantee scheduler, not from the dialog
+export type GuaranteeDialogAction = Exclude<GuaranteeAction, "expire">;
+
+interface GuaranteeActionDialogProps {
+  action: GuaranteeDialogAction | null; // Closed when null
+  onOpenChange: (open: boolean) => void;
+  guarantee: {
+    id: string;
+    guaranteeAmount: string;
+    calledAmount?: string | null;
+    expiryDate: string;
+  };
+}
+
+const ACTION_COPY: Record<GuaranteeDialogAction, { title: string; description: string; submit: string; done: string }> = {
+  renew: {
+    title: "Renew Guarantee",
+    description: "Extend the expiry date, optionally at a new amount or commission rate.",
+    submit: "Renew",
+    done: "Guarantee renewed",
+  },
+  amend: {
+    title: "Amend Guarantee",
+    description: "Change the terms of the guarantee. Leave a field empty to keep it as it is.",
+    submit: "Amend",
+    done: "Guarantee amended",
+  },
+  call: {
+    title: "Record Call",
+    description: "The beneficiary called the guarantee. Leave the amount empty for a full call.",
+    submit: "Record Call",
+    done: "Call recorded",
+  },
+  release: {
+    title: "Release Guarantee",
+    description: "The guarantee was returned or cancelled, and its remaining amount no longer counts against the facility.",
+    submit: "Release",
+    done: "Guarantee released",
+  },
+};
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+export function GuaranteeActionDialog({ action, onOpenChange, guarantee }: GuaranteeActionDialogProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState(today());
+  const [expiryDate, setExpiryDate] = useState("");
+  const [amount, setAmount] = useState("");
+  const [beneficiaryName, setBeneficiaryName] = useState("");
+  const [feeRate, setFeeRate] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (action) {
+      setDate(today());
+      setExpiryDate("");
+      setAmount("");
+      setBeneficiaryName("");
+      setFeeRate("");
+      setReason("");
+    }
+  }, [action]);
+
+  const remaining = parseFloat(guarantee.guaranteeAmount) - parseFloat(guarantee.calledAmount || "0");
+  const copy = action ? ACTION_COPY[action] : null;
+
+  const actionMutation = useMutation({
+    mutationFn: async () => {
+      const optional = (value: string) => value.trim() || undefined;
+      const body = {
+        renew: { date, expiryDate, guaranteeAmount: optional(amount), feeRate: optional(feeRate), reason: optional(reason) },
+        amend: {
+          date,
+          guaranteeAmount: optional(amount),
+          expiryDate: optional(expiryDate),
+          beneficiaryName: optional(beneficiaryName),
+          feeRate: optional(feeRate),
+          reason,
+        },
+        call: { date, amount: optional(amount), reason: optional(reason) },
+        release: { date, reason },
+      }[action!];
+      await apiRequest("POST", `/api/guarantees/${guarantee.id}/${action}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guarantees"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/guarantees", guarantee.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/guarantees", guarantee.id, "history"] });
+      toast({ title: copy?.done });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: `Failed to ${action} guarantee`, description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reasonRequired = action === "amend" || action === "release";
+  const canSubmit = !!date && (action !== "renew" || !!expiryDate) && (!reasonRequired || !!reason.trim());
+
+  return (
+    <Dialog open={!!action} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-guarantee-action">
+        <DialogHeader>
+          <DialogTitle>{copy?.title}</DialogTitle>
+          <DialogDescription>{copy?.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{action === "renew" ? "Renewal date" : action === "call" ? "Call date" : "Effective date"}</Label>
+            <ModernDatePicker value={date} onChange={setDate} placeholder="Date" dataTestId="input-guarantee-action-date" />
+          </div>
+
+          {(action === "renew" || action === "amend") && (
+            <div className="space-y-2">
+              <Label>{action === "renew" ? "New expiry date" : "Expiry date"}</Label>
+              <ModernDatePicker value={expiryDate} onChange={setExpiryDate} placeholder={guarantee.expiryDate} dataTestId="input-guarantee-action-expiry" />
+            </div>
+          )}
+
+          {action !== "release" && (
+            <div className="space-y-2">
+              <Label>{action === "call" ? "Amount called" : "Guarantee amount"}</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder={action === "call" ? `${formatCurrency(remaining)} remaining` : guarantee.guaranteeAmount}
+                data-testid="input-guarantee-action-amount"
+              />
+            </div>
+          )}
+
+          {action === "amend" && (
+            <div className="space-y-2">
+              <Label>Beneficiary</Label>
+              <Input value={beneficiaryName} onChange={(e) => setBeneficiaryName(e.target.value)} data-testid="input-guarantee-action-beneficiary" />
+            </div>
+          )}
+
+          {(action === "renew" || action === "amend") && (
+            <div className="space-y-2">
+              <Label>Commission rate (%)</Label>
+              <Input type="number" step="0.01" min="0" value={feeRate} onChange={(e) => setFeeRate(e.target.value)} data-testid="input-guarantee-action-fee-rate" />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{reasonRequired ? "Reason" : "Reason (optional)"}</Label>
+            <Textarea value={reason} onChange={(e) => setReason(e.target.value)} maxLength={1000} data-testid="input-guarantee-action-reason" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            variant={action === "call" || action === "release" ? "destructive" : "default"}
+            onClick={() => actionMutation.mutate()}
+            disabled={!canSubmit || actionMutation.isPending}
+            data-testid="button-confirm-guarantee-action"
+          >
+            {actionMutation.isPending ? "Saving..." : copy?.submit}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
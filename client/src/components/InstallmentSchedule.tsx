@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { LoanInstallment } from "@shared/schema";
+
+interface InstallmentScheduleProps {
+  loanId: string;
+  loanStatus: string | null;
+  className?: string;
+}
+
+interface CustomRow {
+  dueDate: string;
+  principalAmount: string;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  equal_principal: "Equal principal",
+  annuity: "Annuity (level payments)",
+  custom: "Custom",
+};
+
+const FREQUENCIES = [
+  { months: 1, label: "Monthly" },
+  { months: 3, label: "Quarterly" },
+  { months: 6, label: "Semi-annual" },
+  { months: 12, label: "Annual" },
+];
+
+const formatAmount = (value: string | number) =>
+  Number(value).toLocaleString('en-SA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function InstallmentSchedule({ loanId, loanStatus, className }: InstallmentScheduleProps) {
+  const { toast } = useToast();
+  const [method, setMethod] = useState<string>("equal_principal");
+  const [frequencyMonths, setFrequencyMonths] = useState("3");
+  const [customRows, setCustomRows] = useState<CustomRow[]>([{ dueDate: "", principalAmount: "" }]);
+
+  const { data: installments = [], isLoading } = useQuery<LoanInstallment[]>({
+    queryKey: ["/api/loans", loanId, "installments"],
+    enabled: !!loanId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/loans", loanId, "installments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/loans/${loanId}/installments`, {
+        method,
+        frequencyMonths: parseInt(frequencyMonths),
+        installments: method === "custom" ? customRows.filter(row => row.dueDate && row.principalAmount) : undefined,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Installment schedule generated" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate installment schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/loans/${loanId}/installments`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Loan reverted to bullet repayment" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove installment schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateCustomRow = (index: number, field: keyof CustomRow, value: string) => {
+    setCustomRows(rows => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const getStatusBadge = (installment: LoanInstallment) => {
+    const today = new Date().toISOString().split('T')[0];
+    if (installment.status === 'paid') {
+      return <Badge className="bg-emerald-100 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400">Paid</Badge>;
+    }
+    if (installment.dueDate < today) {
+      return <Badge className="bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400">Overdue</Badge>;
+    }
+    if (installment.status === 'partial') {
+      return <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400">Partial</Badge>;
+    }
+    return <Badge variant="outline">Pending</Badge>;
+  };
+
+  const canEdit = loanStatus === 'active' && installments.every(installment => installment.status === 'pending');
+
+  return (
+    <Card className={className} data-testid="card-installment-schedule">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          <span>Repayment Schedule</span>
+        </CardTitle>
+        <CardDescription>
+          {installments.length > 0
+            ? `${METHOD_LABELS[installments[0].method] || installments[0].method} - ${installments.length} installment(s)`
+            : "Bullet repayment on the due date"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : installments.length > 0 ? (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">#</th>
+                    <th className="py-2 pr-4 font-medium">Due Date</th>
+                    <th className="py-2 pr-4 font-medium text-right">Principal</th>
+                    <th className="py-2 pr-4 font-medium text-right">Interest</th>
+                    <th className="py-2 pr-4 font-medium text-right">Total</th>
+                    <th className="py-2 pr-4 font-medium text-right">Paid</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {installments.map((installment) => (
+                    <tr key={installment.id} className="border-b last:border-0" data-testid={`row-installment-${installment.installmentNumber}`}>
+                      <td className="py-2 pr-4">{installment.installmentNumber}</td>
+                      <td className="py-2 pr-4">{new Date(installment.dueDate).toLocaleDateString()}</td>
+                      <td className="py-2 pr-4 text-right">{formatAmount(installment.principalAmount)}</td>
+                      <td className="py-2 pr-4 text-right">{formatAmount(installment.interestAmount)}</td>
+                      <td className="py-2 pr-4 text-right font-semibold">{formatAmount(installment.totalAmount)}</td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatAmount(parseFloat(installment.paidPrincipal) + parseFloat(installment.paidInterest))}
+                      </td>
+                      <td className="py-2">{getStatusBadge(installment)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {canEdit && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => removeMutation.mutate()}
+                disabled={removeMutation.isPending}
+                data-testid="button-remove-installments"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Revert to Bullet Repayment
+              </Button>
+            )}
+          </>
+        ) : canEdit ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Plan Type</Label>
+                <Select value={method} onValueChange={setMethod}>
+                  <SelectTrigger data-testid="select-installment-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {method !== "custom" && (
+                <div className="space-y-2">
+                  <Label>Frequency</Label>
+                  <Select value={frequencyMonths} onValueChange={setFrequencyMonths}>
+                    <SelectTrigger data-testid="select-installment-frequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FREQUENCIES.map(frequency => (
+                        <SelectItem key={frequency.months} value={frequency.months.toString()}>{frequency.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {method === "custom" && (
+              <div className="space-y-2">
+                <Label>Installments (principal must add up to the loan amount)</Label>
+                {customRows.map((row, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="date"
+                      value={row.dueDate}
+                      onChange={(e) => updateCustomRow(index, "dueDate", e.target.value)}
+                      data-testid={`input-custom-due-date-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      placeholder="Principal (SAR)"
+                      value={row.principalAmount}
+                      onChange={(e) => updateCustomRow(index, "principalAmount", e.target.value)}
+                      data-testid={`input-custom-principal-${index}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCustomRows(rows => rows.filter((_, i) => i !== index))}
+                      disabled={customRows.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCustomRows(rows => [...rows, { dueDate: "", principalAmount: "" }])}
+                  data-testid="button-add-custom-installment"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Installment
+                </Button>
+              </div>
+            )}
+
+            <Button
+              onClick={() => generateMutation.mutate()}
+              disabled={generateMutation.isPending}
+              data-testid="button-generate-installments"
+            >
+              {generateMutation.isPending ? "Generating..." : "Generate Schedule"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No installment plan for this loan.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
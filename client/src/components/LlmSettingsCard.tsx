@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Save } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { LlmProviderName, LlmSettings } from "@shared/schema";
+import type { LlmUsageSummary } from "@shared/types";
+
+const PROVIDER_LABELS: Record<LlmProviderName, string> = {
+  openai: "OpenAI-compatible",
+  deepseek: "DeepSeek",
+  mock: "Mock (development)",
+};
+
+const FEATURE_LABELS: Record<string, string> = {
+  agent: "AI Agent",
+  portfolio_chat: "Portfolio Assistant",
+  insights: "AI Insights",
+  help_desk: "Help Desk",
+  agreement_extraction: "Agreement Import",
+};
+
+interface LlmSettingsResponse {
+  settings: LlmSettings | null;
+  defaults: { provider: LlmProviderName; model: string };
+  providers: Array<{ name: LlmProviderName; defaultModel: string; configured: boolean }>;
+}
+
+interface LlmUsageResponse {
+  since: string;
+  monthlyTokenLimit: number | null;
+  totalTokens: number;
+  summary: LlmUsageSummary[];
+}
+
+const DEFAULT_PROVIDER = "default";
+
+export function LlmSettingsCard() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [provider, setProvider] = useState<string>(DEFAULT_PROVIDER);
+  const [model, setModel] = useState("");
+  const [limit, setLimit] = useState("");
+
+  const { data } = useQuery<LlmSettingsResponse>({ queryKey: ["/api/ai/llm-settings"] });
+  const { data: usage } = useQuery<LlmUsageResponse>({ queryKey: ["/api/ai/llm-usage"] });
+
+  useEffect(() => {
+    setProvider(data?.settings?.provider ?? DEFAULT_PROVIDER);
+    setModel(data?.settings?.model ?? "");
+    setLimit(data?.settings?.monthlyTokenLimit ? String(data.settings.monthlyTokenLimit) : "");
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", "/api/ai/llm-settings", {
+        provider: provider === DEFAULT_PROVIDER ? data?.defaults.provider : provider,
+        model: model.trim() || null,
+        monthlyTokenLimit: limit ? Number(limit) : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/llm-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/llm-usage"] });
+      toast({ title: "AI model settings saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save AI model settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const selected = data?.providers.find(p => p.name === (provider === DEFAULT_PROVIDER ? data?.defaults.provider : provider));
+  const used = usage?.totalTokens ?? 0;
+  const monthlyLimit = usage?.monthlyTokenLimit ?? null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Model & Usage</CardTitle>
+        <CardDescription>
+          Language model used by the AI Agent, Portfolio Assistant, insights, help desk and agreement import for your organization.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={provider} onValueChange={setProvider} disabled={!can('organization')}>
+              <SelectTrigger data-testid="select-llm-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PROVIDER}>
+                  Server default{data ? ` (${PROVIDER_LABELS[data.defaults.provider]})` : ""}
+                </SelectItem>
+                {data?.providers.map(p => (
+                  <SelectItem key={p.name} value={p.name} disabled={!p.configured}>
+                    {PROVIDER_LABELS[p.name]}{p.configured ? "" : " - not configured"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Model</Label>
+            <Input
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              disabled={!can('organization')}
+              placeholder={provider === DEFAULT_PROVIDER ? data?.defaults.model : selected?.defaultModel}
+              data-testid="input-llm-model"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Monthly Token Limit</Label>
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              disabled={!can('organization')}
+              placeholder="Unlimited"
+              data-testid="input-llm-token-limit"
+            />
+          </div>
+        </div>
+        {can('organization') && (
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !data} data-testid="button-save-llm-settings">
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save Model Settings"}
+          </Button>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">Tokens used this month</span>
+            <span data-testid="text-llm-tokens-used">
+              {used.toLocaleString()}{monthlyLimit ? ` of ${monthlyLimit.toLocaleString()}` : ""}
+            </span>
+          </div>
+          {monthlyLimit && <Progress value={Math.min(100, (used / monthlyLimit) * 100)} />}
+          {usage && usage.summary.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Feature</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {usage.summary.map(row => (
+                  <TableRow key={`${row.feature}-${row.provider}-${row.model}`}>
+                    <TableCell>{FEATURE_LABELS[row.feature] ?? row.feature}</TableCell>
+                    <TableCell className="text-muted-foreground">{row.model}</TableCell>
+                    <TableCell className="text-right">{row.calls}</TableCell>
+                    <TableCell className="text-right">{row.failedCalls}</TableCell>
+                    <TableCell className="text-right">{row.totalTokens.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No AI usage this month.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,8 +11,9 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { pendingApprovalOf, PENDING_APPROVAL_TOAST } from "@/lib/approvals";
 import { insertLoanSchema, Facility, Bank, Loan, CreditLine } from "@shared/schema";
-import { SiborRate } from "@shared/types";
+import { useSiborFixing } from "@/hooks/useSiborFixing";
 import { z } from "zod";
 import { AlertCircle, Calendar } from "lucide-react";
 import { formatFacilityType } from "@/lib/formatters";
@@ -51,9 +52,7 @@ export default function LoanForm({ onSuccess, onCancel }: LoanFormProps) {
     queryKey: ["/api/facilities"],
   });
 
-  const { data: siborRate } = useQuery<SiborRate>({
-    queryKey: ["/api/sibor-rate"],
-  });
+  const { data: siborRate } = useSiborFixing();
 
   const { data: creditLines } = useQuery<Array<CreditLine & { facility: Facility & { bank: Bank } }>>({ 
     queryKey: ["/api/credit-lines"],
@@ -122,9 +121,14 @@ export default function LoanForm({ onSuccess, onCancel }: LoanFormProps) {
         userId: "abdulrahman-user-main", // Add the authenticated user ID
       };
 
-      await apiRequest("POST", "/api/loans", loanData);
+      return pendingApprovalOf(await apiRequest("POST", "/api/loans", loanData));
     },
-    onSuccess: () => {
+    onSuccess: (pending) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+        onSuccess();
+        return;
+      }
       // Invalidate relevant queries to refresh data
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/facilities"] });
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { MarginCallResolveRequest } from "@shared/schema";
+import type { MarginCallDetail } from "@shared/types";
+
+const RESOLUTIONS: { value: MarginCallResolveRequest["resolution"]; label: string }[] = [
+  { value: "top_up", label: "Collateral topped up" },
+  { value: "paydown", label: "Outstanding paid down" },
+  { value: "reassignment", label: "Collateral re-assigned" },
+  { value: "waived", label: "Waived by the bank" },
+];
+
+const RESOLUTION_LABELS: Record<string, string> = {
+  top_up: "Topped up",
+  paydown: "Paid down",
+  reassignment: "Re-assigned",
+  ltv_restored: "LTV restored",
+  waived: "Waived",
+};
+
+const formatSar = (amount: string | number) =>
+  `SAR ${Number(amount).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface MarginCallsCardProps {
+  bankId: string;
+}
+
+export function MarginCallsCard({ bankId }: MarginCallsCardProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [resolving, setResolving] = useState<MarginCallDetail | null>(null);
+  const [resolution, setResolution] = useState<MarginCallResolveRequest["resolution"]>("top_up");
+  const [notes, setNotes] = useState("");
+
+  const { data: calls = [], isLoading } = useQuery<MarginCallDetail[]>({
+    queryKey: ["/api/margin-calls", { bankId }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/margin-calls?bankId=${encodeURIComponent(bankId)}`);
+      return response.json();
+    },
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/margin-calls/check");
+      return response.json() as Promise<{ opened: unknown[]; cured: unknown[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/margin-calls"] });
+      toast({
+        title: "LTV checked",
+        description: `${result.opened.length} margin call(s) opened, ${result.cured.length} cured`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to check LTV", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      const body: MarginCallResolveRequest = { resolution, notes: notes.trim() || undefined };
+      await apiRequest("POST", `/api/margin-calls/${resolving!.id}/resolve`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/margin-calls"] });
+      setResolving(null);
+      toast({ title: "Margin call closed" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Margin call is still open", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openResolve = (call: MarginCallDetail) => {
+    setResolving(call);
+    setResolution("top_up");
+    setNotes("");
+  };
+
+  const openCalls = calls.filter(c => c.status === "open");
+  const closedCalls = calls.filter(c => c.status !== "open").slice(0, 5);
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/50 dark:bg-gray-800/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400" />
+            <span>Margin Calls</span>
+            {openCalls.length > 0 && <Badge variant="destructive">{openCalls.length} open</Badge>}
+          </div>
+          {can("collateral") && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => checkMutation.mutate()}
+              disabled={checkMutation.isPending}
+              data-testid="button-check-margin-calls"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${checkMutation.isPending ? "animate-spin" : ""}`} />
+              Check Now
+            </Button>
+          )}
+        </CardTitle>
+        <CardDescription>
+          A call opens when the LTV of the bank or one of its facilities rises above target, and closes once the LTV is
+          back within target. LTV is checked daily.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading margin calls...</p>
+        ) : calls.length === 0 ? (
+          <p className="text-muted-foreground" data-testid="text-no-margin-calls">No margin calls for this bank</p>
+        ) : (
+          <>
+            {openCalls.map(call => (
+              <div key={call.id} className="rounded-lg border border-red-200 dark:border-red-900 p-4 space-y-3" data-testid={`margin-call-${call.id}`}>
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold capitalize">{call.facilityName ?? `${call.bankName} (all facilities)`}</p>
+                    <p className="text-sm text-muted-foreground">
+                      LTV {parseFloat(call.currentLtv).toFixed(2)}% against a {parseFloat(call.targetLtv).toFixed(2)}% target
+                      {" "}(opened at {parseFloat(call.openingLtv).toFixed(2)}% on {new Date(call.openedDate).toLocaleDateString("en-SA")})
+                    </p>
+                  </div>
+                  <Badge variant={call.daysToDeadline < 0 ? "destructive" : "secondary"}>
+                    {call.daysToDeadline < 0
+                      ? `Overdue by ${-call.daysToDeadline} day(s)`
+                      : call.daysToDeadline === 0
+                        ? "Due today"
+                        : `Cure by ${new Date(call.cureDeadline).toLocaleDateString("en-SA")}`}
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Outstanding</p>
+                    <p className="font-mono">{formatSar(call.outstanding)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Pledged Value</p>
+                    <p className="font-mono">{formatSar(call.pledgedValue)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Shortfall</p>
+                    <p className="font-mono text-red-600 dark:text-red-400">{formatSar(call.currentShortfall)}</p>
+                  </div>
+                </div>
+                <div>
+                  <p className="text-sm font-medium mb-1">Ways to cure</p>
+                  <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-0.5">
+                    {call.cures.map((cure, index) => (
+                      <li key={`${cure.type}-${cure.collateralId ?? index}`}>{cure.description}</li>
+                    ))}
+                  </ul>
+                </div>
+                {can("collateral") && (
+                  <Button size="sm" onClick={() => openResolve(call)} data-testid={`button-resolve-margin-call-${call.id}`}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Record Cure
+                  </Button>
+                )}
+              </div>
+            ))}
+            {closedCalls.map(call => (
+              <div key={call.id} className="flex items-center justify-between text-sm border-b last:border-0 py-2">
+                <span className="capitalize">
+                  {call.facilityName ?? call.bankName} - opened {new Date(call.openedDate).toLocaleDateString("en-SA")}
+                  {" "}at {parseFloat(call.openingLtv).toFixed(2)}%
+                </span>
+                <Badge variant="outline">{RESOLUTION_LABELS[call.resolution ?? ""] ?? call.status}</Badge>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Margin Call Cure</DialogTitle>
+            <DialogDescription>
+              Record the pledge, repayment or re-assignment first - the call only closes once the LTV is back within
+              target. A waiver closes it as it stands.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Resolution</Label>
+              <Select value={resolution} onValueChange={(value) => setResolution(value as MarginCallResolveRequest["resolution"])}>
+                <SelectTrigger data-testid="select-margin-call-resolution">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RESOLUTIONS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Notes{resolution === "waived" ? " (required)" : ""}</Label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder={resolution === "waived" ? "Who at the bank agreed to the waiver" : "Optional"}
+                data-testid="input-margin-call-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)}>Cancel</Button>
+            <Button
+              onClick={() => resolveMutation.mutate()}
+              disabled={resolveMutation.isPending || (resolution === "waived" && !notes.trim())}
+              data-testid="button-confirm-margin-call-resolution"
+            >
+              {resolveMutation.isPending ? "Saving..." : "Close Call"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
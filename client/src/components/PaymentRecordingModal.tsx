@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -12,6 +12,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -22,7 +23,10 @@ import {
 import { ModernDatePicker } from "@/components/ui/date-picker";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { DollarSign } from "lucide-react";
+import { pendingApprovalOf, PENDING_APPROVAL_TOAST } from "@/lib/approvals";
+import { DollarSign, CalendarClock } from "lucide-react";
+import type { LoanInstallment } from "@shared/schema";
+import type { PaymentAllocation } from "@shared/types";
 
 interface PaymentRecordingModalProps {
   isOpen: boolean;
@@ -31,34 +35,72 @@ interface PaymentRecordingModalProps {
   loanAmount?: number;
 }
 
+interface AllocationPreview {
+  due: {
+    fees: number;
+    overdueInterest: number;
+    currentInterest: number;
+    principalDue: number;
+    principalOutstanding: number;
+  };
+  allocation: PaymentAllocation | null;
+  error?: string;
+}
+
+const formatSar = (value: number) =>
+  value.toLocaleString('en-SA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
 export function PaymentRecordingModal({ isOpen, onClose, loanId, loanAmount = 0 }: PaymentRecordingModalProps) {
   const { toast } = useToast();
   const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
   const [amount, setAmount] = useState("");
-  const [principalAmount, setPrincipalAmount] = useState("");
-  const [interestAmount, setInterestAmount] = useState("");
+  const [prepayment, setPrepayment] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<string>("bank_transfer");
   const [referenceNumber, setReferenceNumber] = useState("");
   const [notes, setNotes] = useState("");
 
-  // Auto-calculate interest when total amount and principal are set
-  useEffect(() => {
-    const total = parseFloat(amount) || 0;
-    const principal = parseFloat(principalAmount) || 0;
-    if (total > 0 && principal > 0 && total >= principal) {
-      const interest = total - principal;
-      setInterestAmount(interest.toFixed(2));
-    }
-  }, [amount, principalAmount]);
+  // Installment plan, if any - payments are allocated to the oldest unpaid installments first
+  const { data: installments = [] } = useQuery<LoanInstallment[]>({
+    queryKey: ["/api/loans", loanId, "installments"],
+    enabled: isOpen && !!loanId,
+  });
+  const nextInstallment = installments.find(installment => installment.status !== 'paid');
+
+  const fillFromInstallment = (installment: LoanInstallment) => {
+    const principalDue = Math.max(0, parseFloat(installment.principalAmount) - parseFloat(installment.paidPrincipal));
+    const interestDue = Math.max(0, parseFloat(installment.interestAmount) - parseFloat(installment.paidInterest));
+    setAmount((principalDue + interestDue).toFixed(2));
+  };
+
+  // The split between fees, interest and principal is decided by the server-side waterfall
+  const { data: preview } = useQuery<AllocationPreview>({
+    queryKey: ["/api/loans", loanId, "payment-allocation", amount, paymentDate, prepayment],
+    queryFn: async () => {
+      const params = new URLSearchParams({ amount: amount || "0", date: paymentDate, prepayment: String(prepayment) });
+      const response = await fetch(`/api/loans/${loanId}/payment-allocation?${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('Failed to preview payment allocation');
+      }
+      return response.json();
+    },
+    enabled: isOpen && !!loanId && !!paymentDate,
+  });
 
   const recordPaymentMutation = useMutation({
     mutationFn: async (paymentData: any) => {
-      await apiRequest("POST", "/api/payments", paymentData);
+      return pendingApprovalOf(await apiRequest("POST", "/api/payments", paymentData));
     },
-    onSuccess: () => {
+    onSuccess: (pending) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+        handleClose();
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/payments", "loan", loanId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payments/loan", loanId] });
       queryClient.invalidateQueries({ queryKey: ["/api/loans", loanId] });
       queryClient.invalidateQueries({ queryKey: ["/api/loans", loanId, "balance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/loans", loanId, "installments"] });
       toast({
         title: "Success",
         description: "Payment recorded successfully",
@@ -75,10 +117,10 @@ export function PaymentRecordingModal({ isOpen, onClose, loanId, loanAmount = 0
   });
 
   const handleSubmit = () => {
-    if (!amount || !principalAmount || !interestAmount) {
+    if (!amount || parseFloat(amount) <= 0) {
       toast({
         title: "Validation Error",
-        description: "Please fill in all required fields",
+        description: "Please enter the payment amount",
         variant: "destructive",
       });
       return;
@@ -88,9 +130,8 @@ export function PaymentRecordingModal({ isOpen, onClose, loanId, loanAmount = 0
       loanId,
       paymentDate,
       amount: amount,
-      principalAmount: principalAmount,
-      interestAmount: interestAmount,
       paymentMethod,
+      prepayment,
       referenceNumber: referenceNumber || undefined,
       notes: notes || undefined,
     });
@@ -100,14 +141,15 @@ export function PaymentRecordingModal({ isOpen, onClose, loanId, loanAmount = 0
     // Reset form
     setPaymentDate(new Date().toISOString().split('T')[0]);
     setAmount("");
-    setPrincipalAmount("");
-    setInterestAmount("");
+    setPrepayment(false);
     setPaymentMethod("bank_transfer");
     setReferenceNumber("");
     setNotes("");
     onClose();
   };
 
+  const allocation = preview?.allocation;
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
@@ -122,6 +164,26 @@ export function PaymentRecordingModal({ isOpen, onClose, loanId, loanAmount = 0
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {/* Next installment due */}
+          {nextInstallment && (
+            <div className="flex items-center justify-between rounded-lg border p-3 bg-muted/50" data-testid="next-installment">
+              <div className="flex items-center gap-2 text-sm">
+                <CalendarClock className="h-4 w-4 text-primary" />
+                <span>
+                  Installment #{nextInstallment.installmentNumber} due {new Date(nextInstallment.dueDate).toLocaleDateString()}
+                </span>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fillFromInstallment(nextInstallment)}
+                data-testid="button-fill-installment"
+              >
+                Pay Installment
+              </Button>
+            </div>
+          )}
+
           {/* Payment Date */}
           <div className="space-y-2">
             <Label htmlFor="payment-date">Payment Date *</Label>
@@ -147,36 +209,37 @@ export function PaymentRecordingModal({ isOpen, onClose, loanId, loanAmount = 0
             />
           </div>
 
-          {/* Principal Amount */}
-          <div className="space-y-2">
-            <Label htmlFor="principal-amount">Principal Amount (SAR) *</Label>
-            <Input
-              id="principal-amount"
-              type="number"
-              step="0.01"
-              value={principalAmount}
-              onChange={(e) => setPrincipalAmount(e.target.value)}
-              placeholder="Amount applied to principal"
-              data-testid="input-principal-amount"
+          {/* Prepayment flag */}
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="prepayment"
+              checked={prepayment}
+              onCheckedChange={(checked) => setPrepayment(checked === true)}
+              data-testid="checkbox-prepayment"
             />
+            <Label htmlFor="prepayment" className="text-sm font-normal">
+              Prepayment - apply any excess to principal not yet due
+            </Label>
           </div>
 
-          {/* Interest Amount */}
-          <div className="space-y-2">
-            <Label htmlFor="interest-amount">Interest Amount (SAR) *</Label>
-            <Input
-              id="interest-amount"
-              type="number"
-              step="0.01"
-              value={interestAmount}
-              onChange={(e) => setInterestAmount(e.target.value)}
-              placeholder="Amount applied to interest"
-              data-testid="input-interest-amount"
-            />
-            <p className="text-xs text-muted-foreground">
-              Auto-calculated as: Total - Principal
-            </p>
-          </div>
+          {/* Waterfall allocation preview */}
+          {preview && parseFloat(amount) > 0 && (
+            <div className="rounded-lg border p-3 space-y-1 text-sm" data-testid="payment-allocation-preview">
+              {allocation ? (
+                <>
+                  <div className="flex justify-between"><span className="text-muted-foreground">Fees</span><span>{formatSar(allocation.fees)}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">Overdue interest</span><span>{formatSar(allocation.overdueInterest)}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">Current interest</span><span>{formatSar(allocation.currentInterest)}</span></div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Principal{allocation.prepayment > 0 ? ` (incl. ${formatSar(allocation.prepayment)} prepaid)` : ''}</span>
+                    <span>{formatSar(allocation.principal)}</span>
+                  </div>
+                </>
+              ) : (
+                <p className="text-destructive" data-testid="text-allocation-error">{preview.error}</p>
+              )}
+            </div>
+          )}
 
           {/* Payment Method */}
           <div className="space-y-2">
@@ -187,10 +250,10 @@ export function PaymentRecordingModal({ isOpen, onClose, loanId, loanAmount = 0
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                <SelectItem value="wire_transfer">Wire Transfer</SelectItem>
                 <SelectItem value="check">Check</SelectItem>
                 <SelectItem value="cash">Cash</SelectItem>
-                <SelectItem value="wire">Wire Transfer</SelectItem>
-                <SelectItem value="ach">ACH</SelectItem>
+                <SelectItem value="direct_debit">Direct Debit</SelectItem>
                 <SelectItem value="other">Other</SelectItem>
               </SelectContent>
             </Select>
@@ -234,7 +297,7 @@ export function PaymentRecordingModal({ isOpen, onClose, loanId, loanAmount = 0
           </Button>
           <Button
             onClick={handleSubmit}
-            disabled={recordPaymentMutation.isPending}
+            disabled={recordPaymentMutation.isPending || (!!preview && parseFloat(amount) > 0 && !allocation)}
             data-testid="button-record-payment"
           >
             {recordPaymentMutation.isPending ? "Recording..." : "Record Payment"}
@@ -187,6 +187,7 @@ export default function ReminderModal({ loanId, isOpen, onClose, loanData }: Rem
       case "due_date": return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300";
       case "payment": return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300";
       case "review": return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300";
+      case "rate_reset": return "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300";
       default: return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300";
     }
   };
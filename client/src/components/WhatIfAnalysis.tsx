@@ -16,18 +16,25 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Calculator, TrendingDown, TrendingUp, Loader2, Calendar, Percent, Coins } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { useSiborFixing } from "@/hooks/useSiborFixing";
 
 interface WhatIfAnalysisProps {
   loanId: string;
   loanAmount: number;
   currentRate: number;
   durationDays: number;
+  siborTermMonths?: number | null;
+  margin?: number;
 }
 
-export function WhatIfAnalysis({ loanId, loanAmount, currentRate, durationDays }: WhatIfAnalysisProps) {
+export function WhatIfAnalysis({ loanId, loanAmount, currentRate, durationDays, siborTermMonths, margin = 0 }: WhatIfAnalysisProps) {
   const [open, setOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("refinance");
   
+  // Market rate for repricing: latest fixing for the loan's SIBOR term plus its margin
+  const { data: siborFixing } = useSiborFixing(siborTermMonths);
+  const marketRate = siborFixing ? Math.round((siborFixing.rate + margin) * 100) / 100 : undefined;
+  
   // Refinance inputs
   const [newRate, setNewRate] = useState(currentRate.toString());
   
@@ -169,6 +176,23 @@ export function WhatIfAnalysis({ loanId, loanAmount, currentRate, durationDays }
                   <p className="text-xs text-muted-foreground">
                     Current rate: {currentRate}%
                   </p>
+                  {siborFixing && marketRate !== undefined && (
+                    <div className="flex items-center justify-between text-xs text-muted-foreground" data-testid="text-market-rate">
+                      <span>
+                        {siborFixing.tenor} SIBOR fixing {siborFixing.rate}% ({siborFixing.fixingDate}) + margin = {marketRate}%
+                      </span>
+                      <Button
+                        type="button"
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs"
+                        onClick={() => setNewRate(marketRate.toString())}
+                        data-testid="button-use-market-rate"
+                      >
+                        Use market rate
+                      </Button>
+                    </div>
+                  )}
                 </div>
                 <Button 
                   onClick={handleRunScenario}
@@ -11,7 +11,10 @@ import {
   Search,
   Bell,
   BarChart3,
-  FileText
+  FileText,
+  TrendingUp,
+  LineChart,
+  Archive
 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
@@ -108,6 +111,21 @@ const adminNavigation = [
         url: "/admin-portal/templates",
         icon: FileText,
       },
+      {
+        title: "Reference Rates",
+        url: "/admin-portal/reference-rates",
+        icon: TrendingUp,
+      },
+      {
+        title: "Share Prices",
+        url: "/admin-portal/share-prices",
+        icon: LineChart,
+      },
+      {
+        title: "Document Retention",
+        url: "/admin-portal/document-retention",
+        icon: Archive,
+      },
     ],
   },
 ];
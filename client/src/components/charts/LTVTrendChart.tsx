@@ -1,36 +1,40 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ChartContainer } from "@/components/ui/chart";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, ReferenceLine } from "recharts";
-import { Shield, AlertTriangle, TrendingUp, Target, Loader2 } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from "recharts";
+import { Shield, AlertTriangle, TrendingUp, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import { PortfolioSummary, LoanWithDetails } from "@shared/types";
-import { SAUDI_CHART_COLORS, CHART_STYLING } from "@/lib/chart-colors";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CollateralLtvTimeline, LtvTimelinePoint } from "@shared/types";
+import { SAUDI_CHART_COLORS } from "@/lib/chart-colors";
 
 interface LTVTrendChartProps {
-  timeframe?: 'week' | 'month' | 'quarter' | 'year';
+  timeline?: CollateralLtvTimeline;
   showRiskBands?: boolean;
-  portfolioSummary?: PortfolioSummary;
-  loans?: LoanWithDetails[];
   isLoading?: boolean;
 }
 
-export default function LTVTrendChart({ 
-  timeframe = 'month', 
+const PORTFOLIO = "portfolio";
+
+export default function LTVTrendChart({
+  timeline,
   showRiskBands = true,
-  portfolioSummary,
-  loans = [],
   isLoading = false
 }: LTVTrendChartProps) {
+  const [scope, setScope] = useState(PORTFOLIO);
+
+  const header = (
+    <CardTitle className="flex items-center space-x-2">
+      <Shield className="h-5 w-5" style={{ color: SAUDI_CHART_COLORS.saudiGreen }} />
+      <span>LTV Over Time</span>
+    </CardTitle>
+  );
+
   // Handle loading state
   if (isLoading) {
     return (
       <Card className="border-0 shadow-lg bg-white/50 dark:bg-gray-800/50 backdrop-blur-sm">
-        <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <Shield className="h-5 w-5" style={{ color: SAUDI_CHART_COLORS.saudiGreen }} />
-            <span>LTV Risk Analysis</span>
-          </CardTitle>
-        </CardHeader>
+        <CardHeader>{header}</CardHeader>
         <CardContent>
           <div className="h-[250px] sm:h-[300px] lg:h-[350px] bg-gradient-to-br from-green-50 to-yellow-50 dark:from-gray-800 dark:to-gray-900 rounded-lg flex items-center justify-center animate-pulse">
             <div className="text-center">
@@ -42,122 +46,28 @@ export default function LTVTrendChart({
       </Card>
     );
   }
-  // Generate LTV trend data based on real portfolio data
-  const generateLTVData = () => {
-    // If no real data available, return empty array
-    if (!portfolioSummary || !loans || loans.length === 0) {
-      return [];
-    }
-    const now = new Date();
-    const data = [];
-    let periods = 30;
-    let periodLength = 1; // days
-    let formatOptions: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short' };
 
-    switch (timeframe) {
-      case 'week':
-        periods = 7;
-        periodLength = 1;
-        formatOptions = { weekday: 'short' };
-        break;
-      case 'month':
-        periods = 30;
-        periodLength = 1;
-        formatOptions = { day: 'numeric', month: 'short' };
-        break;
-      case 'quarter':
-        periods = 12;
-        periodLength = 7;
-        formatOptions = { day: 'numeric', month: 'short' };
-        break;
-      case 'year':
-        periods = 12;
-        periodLength = 30;
-        formatOptions = { month: 'short', year: 'numeric' };
-        break;
-    }
-
-    // Use real portfolio LTV as current state
-    const currentLTV = portfolioSummary.portfolioLtv || 0;
-    
-    // Calculate LTV metrics from actual loans
-    const loanLTVs = loans.map(loan => {
-      const amount = parseFloat(loan.amount) || 0;
-      // For simulation, assume collateral value is 1.3x loan amount (typical conservative LTV)
-      const estimatedCollateralValue = amount * 1.3;
-      return (amount / estimatedCollateralValue) * 100;
-    });
-    
-    const actualMaxLTV = loanLTVs.length > 0 ? Math.max(...loanLTVs) : currentLTV;
-    const actualMinLTV = loanLTVs.length > 0 ? Math.min(...loanLTVs) : currentLTV;
-    
-    let avgLTV = currentLTV;
-    let maxLTV = actualMaxLTV;
-    let minLTV = actualMinLTV;
-
-    for (let i = periods - 1; i >= 0; i--) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - (i * periodLength));
-      
-      // Create historical trend leading to current state
-      const progressRatio = (periods - i) / periods;
-      avgLTV = currentLTV * (0.85 + (progressRatio * 0.15)); // 85% to 100% of current
-      
-      // Add some realistic variance
-      const variance = (Math.random() - 0.5) * 10; // ±5% variance
-      avgLTV = Math.max(20, Math.min(95, avgLTV + variance));
-      maxLTV = Math.max(avgLTV + 5, Math.min(95, actualMaxLTV * (0.9 + (progressRatio * 0.1))));
-      minLTV = Math.max(15, Math.min(avgLTV - 5, actualMinLTV * (0.95 + (progressRatio * 0.05))));
-      
-      // Calculate risk metrics based on real loan data
-      const highRiskCount = loans.filter(loan => {
-        const loanAmount = parseFloat(loan.amount) || 0;
-        const estimatedLTV = (loanAmount / (loanAmount * 1.3)) * 100;
-        return estimatedLTV > 75;
-      }).length;
-      
-      const mediumRiskCount = loans.filter(loan => {
-        const loanAmount = parseFloat(loan.amount) || 0;
-        const estimatedLTV = (loanAmount / (loanAmount * 1.3)) * 100;
-        return estimatedLTV > 60 && estimatedLTV <= 75;
-      }).length;
-      
-      const lowRiskCount = loans.length - highRiskCount - mediumRiskCount;
-      const totalLoans = loans.length;
-      
-      // Calculate weighted LTV based on actual portfolio
-      const weightedLTV = currentLTV * (0.95 + (progressRatio * 0.05));
-      
-      data.push({
-        period: date.toLocaleDateString('en-US', formatOptions),
-        fullDate: date.toLocaleDateString(),
-        avgLTV: Math.round(avgLTV * 100) / 100,
-        maxLTV: Math.round(maxLTV * 100) / 100,
-        minLTV: Math.round(minLTV * 100) / 100,
-        weightedLTV: Math.round(weightedLTV * 100) / 100,
-        highRiskCount,
-        mediumRiskCount,
-        lowRiskCount,
-        totalLoans,
-        riskScore: Math.round((avgLTV / 100) * 100), // Simplified risk score
-      });
-    }
-
-    return data;
+  // Points of the selected portfolio, bank or facility series
+  const selectedPoints = (): LtvTimelinePoint[] => {
+    if (!timeline) return [];
+    if (scope === PORTFOLIO) return timeline.portfolio;
+    const [kind, id] = scope.split(":");
+    const series = (kind === "bank" ? timeline.banks : timeline.facilities).find(s => s.id === id);
+    return series?.points ?? [];
   };
 
-  const ltvData = generateLTVData();
-  
+  const ltvData = selectedPoints().map(point => ({
+    ...point,
+    period: new Date(point.date).toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
+    fullDate: new Date(point.date).toLocaleDateString(),
+  }));
+  const hasLtv = ltvData.some(point => point.ltv !== null);
+
   // Handle empty data state
-  if (ltvData.length === 0) {
+  if (!timeline || (scope === PORTFOLIO && !hasLtv)) {
     return (
       <Card className="border-0 shadow-lg bg-white/50 dark:bg-gray-800/50 backdrop-blur-sm">
-        <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <Shield className="h-5 w-5" style={{ color: SAUDI_CHART_COLORS.saudiGreen }} />
-            <span>LTV Risk Analysis</span>
-          </CardTitle>
-        </CardHeader>
+        <CardHeader>{header}</CardHeader>
         <CardContent>
           <div className="h-[250px] sm:h-[300px] lg:h-[350px] bg-gradient-to-br from-green-50 to-yellow-50 dark:from-gray-800 dark:to-gray-900 rounded-lg flex items-center justify-center">
             <div className="text-center">
@@ -170,34 +80,24 @@ export default function LTVTrendChart({
       </Card>
     );
   }
-  
-  const latestData = ltvData[ltvData.length - 1];
-  const previousData = ltvData[ltvData.length - 2];
-  
-  // Calculate trends
-  const ltvTrend = latestData && previousData 
-    ? latestData.avgLTV - previousData.avgLTV
-    : 0;
-  
-  const riskLevel = (portfolioSummary?.portfolioLtv || 0) > 75 ? 'high' : 
-                   (portfolioSummary?.portfolioLtv || 0) > 60 ? 'medium' : 'low';
+
+  const withLtv = ltvData.filter(point => point.ltv !== null);
+  const latest = withLtv[withLtv.length - 1];
+  const first = withLtv[0];
+  const ltvChange = latest && first ? (latest.ltv ?? 0) - (first.ltv ?? 0) : 0;
+  const maxLtv = withLtv.length > 0 ? Math.max(...withLtv.map(point => point.ltv ?? 0)) : 0;
+  const revaluations = ltvData.reduce((sum, point) => sum + point.revaluations, 0);
+  const currentLtv = latest?.ltv ?? 0;
+
+  const riskLevel = currentLtv > 75 ? 'high' : currentLtv > 60 ? 'medium' : 'low';
 
   const chartConfig = {
-    avgLTV: {
-      label: "Average LTV (%)",
-    },
-    maxLTV: {
-      label: "Maximum LTV (%)",
-    },
-    minLTV: {
-      label: "Minimum LTV (%)",
-    },
-    riskScore: {
-      label: "Risk Score",
+    ltv: {
+      label: "LTV (%)",
     },
   };
 
-  const CustomTooltip = ({ active, payload, label }: any) => {
+  const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
       return (
@@ -207,25 +107,19 @@ export default function LTVTrendChart({
           </p>
           <div className="space-y-1">
             <p style={{ color: SAUDI_CHART_COLORS.saudiGreen }} className="text-sm">
-              Average LTV: {data.avgLTV.toFixed(1)}%
+              LTV: {data.ltv === null ? 'No collateral' : `${data.ltv.toFixed(1)}%`}
             </p>
-            <p style={{ color: SAUDI_CHART_COLORS.status.error }} className="text-sm">
-              Maximum LTV: {data.maxLTV.toFixed(1)}%
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Outstanding: {(data.outstanding / 1000000).toFixed(2)}M SAR
             </p>
-            <p className="text-green-600 dark:text-green-400 text-sm">
-              Minimum LTV: {data.minLTV.toFixed(1)}%
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Collateral: {(data.collateralValue / 1000000).toFixed(2)}M SAR
             </p>
-            <div className="pt-2 border-t border-gray-200 dark:border-gray-600">
-              <p className="text-xs text-gray-600 dark:text-gray-400">
-                High Risk: {data.highRiskCount} loans
+            {data.revaluations > 0 && (
+              <p className="text-xs font-medium" style={{ color: SAUDI_CHART_COLORS.saudiGold }}>
+                {data.revaluations} revaluation(s) took effect
               </p>
-              <p className="text-xs text-gray-600 dark:text-gray-400">
-                Medium Risk: {data.mediumRiskCount} loans
-              </p>
-              <p className="text-xs text-gray-600 dark:text-gray-400">
-                Low Risk: {data.lowRiskCount} loans
-              </p>
-            </div>
+            )}
           </div>
         </div>
       );
@@ -233,158 +127,118 @@ export default function LTVTrendChart({
     return null;
   };
 
+  // Points where a valuation took effect are drawn larger so its effect on LTV stands out
+  const RevaluationDot = ({ cx, cy, payload }: any) => {
+    if (cx === undefined || cy === undefined || payload.ltv === null) return <g />;
+    const revalued = payload.revaluations > 0;
+    return (
+      <circle
+        cx={cx}
+        cy={cy}
+        r={revalued ? 6 : 3}
+        fill={revalued ? SAUDI_CHART_COLORS.saudiGold : SAUDI_CHART_COLORS.saudiGreen}
+        stroke="#fff"
+        strokeWidth={revalued ? 2 : 1}
+      />
+    );
+  };
+
   return (
     <Card className="border-0 shadow-lg bg-white/50 dark:bg-gray-800/50 backdrop-blur-sm">
       <CardHeader>
-        <div className="flex items-center justify-between">
-          <CardTitle className="flex items-center space-x-2">
-            <Shield className="h-5 w-5" style={{ color: SAUDI_CHART_COLORS.saudiGreen }} />
-            <span>LTV Risk Analysis</span>
-          </CardTitle>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          {header}
           <div className="flex items-center space-x-2">
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="w-[220px]" data-testid="select-ltv-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PORTFOLIO}>Portfolio</SelectItem>
+                {timeline.banks.map(series => (
+                  <SelectItem key={`bank:${series.id}`} value={`bank:${series.id}`}>{series.name}</SelectItem>
+                ))}
+                {timeline.facilities.map(series => (
+                  <SelectItem key={`facility:${series.id}`} value={`facility:${series.id}`}>{series.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Badge variant={riskLevel === 'high' ? "destructive" : riskLevel === 'medium' ? "secondary" : "default"}>
               {riskLevel === 'high' && <AlertTriangle className="mr-1 h-3 w-3" />}
               {riskLevel === 'medium' && <TrendingUp className="mr-1 h-3 w-3" />}
               {riskLevel === 'low' && <Shield className="mr-1 h-3 w-3" />}
               {riskLevel.charAt(0).toUpperCase() + riskLevel.slice(1)} Risk
             </Badge>
-            <Badge variant={ltvTrend >= 0 ? "secondary" : "default"}>
-              {ltvTrend >= 0 ? '+' : ''}{ltvTrend.toFixed(1)}%
-            </Badge>
           </div>
         </div>
-        
-        {/* Risk Summary */}
+
+        {/* Summary */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
           <div className="text-center">
-            <p className="text-2xl font-bold" style={{ color: SAUDI_CHART_COLORS.saudiGreen }} data-testid="text-ltv-avg">
-              {(portfolioSummary?.portfolioLtv || 0).toFixed(1)}%
+            <p className="text-2xl font-bold" style={{ color: SAUDI_CHART_COLORS.saudiGreen }} data-testid="text-ltv-current">
+              {latest ? `${currentLtv.toFixed(1)}%` : '-'}
             </p>
-            <p className="text-sm text-gray-600 dark:text-gray-400">Average LTV</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Current LTV</p>
           </div>
           <div className="text-center">
-            <p className="text-2xl font-bold" style={{ color: SAUDI_CHART_COLORS.status.error }} data-testid="text-ltv-max">
-              {latestData?.maxLTV.toFixed(1)}%
+            <p className="text-2xl font-bold text-gray-900 dark:text-gray-100" data-testid="text-ltv-change">
+              {ltvChange >= 0 ? '+' : ''}{ltvChange.toFixed(1)}%
             </p>
-            <p className="text-sm text-gray-600 dark:text-gray-400">Maximum LTV</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Change Over Period</p>
           </div>
           <div className="text-center">
-            <p className="text-2xl font-bold text-amber-600 dark:text-amber-400" data-testid="text-ltv-high-risk">
-              {latestData?.highRiskCount || 0}
+            <p className="text-2xl font-bold" style={{ color: SAUDI_CHART_COLORS.status.error }} data-testid="text-ltv-max">
+              {maxLtv.toFixed(1)}%
             </p>
-            <p className="text-sm text-gray-600 dark:text-gray-400">High Risk Loans</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Highest LTV</p>
           </div>
           <div className="text-center">
-            <p className="text-2xl font-bold text-green-600 dark:text-green-400" data-testid="text-ltv-total-loans">
-              {portfolioSummary?.activeLoansCount || 0}
+            <p className="text-2xl font-bold" style={{ color: SAUDI_CHART_COLORS.saudiGold }} data-testid="text-ltv-revaluations">
+              {revaluations}
             </p>
-            <p className="text-sm text-gray-600 dark:text-gray-400">Total Loans</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Revaluations</p>
           </div>
         </div>
       </CardHeader>
       <CardContent>
-        <ChartContainer config={chartConfig}>
-          <AreaChart data={ltvData}>
-            <defs>
-              <linearGradient id="colorAvgLTV" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#3B82F6" stopOpacity={0.3}/>
-                <stop offset="95%" stopColor="#3B82F6" stopOpacity={0.1}/>
-              </linearGradient>
-              <linearGradient id="colorMaxLTV" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#DC2626" stopOpacity={0.2}/>
-                <stop offset="95%" stopColor="#DC2626" stopOpacity={0.05}/>
-              </linearGradient>
-            </defs>
-            <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
-            <XAxis 
-              dataKey="period" 
-              className="text-gray-600 dark:text-gray-400"
-              fontSize={12}
-            />
-            <YAxis 
-              domain={[0, 100]}
-              className="text-gray-600 dark:text-gray-400"
-              fontSize={12}
-            />
-            <Tooltip content={<CustomTooltip />} />
-            
-            {/* Risk Bands */}
-            {showRiskBands && (
-              <>
-                <ReferenceLine y={80} stroke={SAUDI_CHART_COLORS.status.error} strokeDasharray="5 5" label={{ value: "High Risk (80%)", position: "right" }} />
-                <ReferenceLine y={60} stroke={SAUDI_CHART_COLORS.status.warning} strokeDasharray="5 5" label={{ value: "Medium Risk (60%)", position: "right" }} />
-              </>
-            )}
-            
-            {/* Max LTV Area */}
-            <Area
-              type="monotone"
-              dataKey="maxLTV"
-              stackId="1"
-              stroke={SAUDI_CHART_COLORS.status.error}
-              fill="url(#colorMaxLTV)"
-              strokeWidth={1}
-              fillOpacity={0.3}
-            />
-            
-            {/* Min LTV Area */}
-            <Area
-              type="monotone"
-              dataKey="minLTV"
-              stackId="2"
-              stroke={SAUDI_CHART_COLORS.status.success}
-              fill={SAUDI_CHART_COLORS.status.success}
-              fillOpacity={0.1}
-              strokeWidth={1}
-            />
-            
-            {/* Average LTV Line */}
-            <Line
-              type="monotone"
-              dataKey="avgLTV"
-              stroke={SAUDI_CHART_COLORS.saudiGreen}
-              strokeWidth={3}
-              dot={{ fill: '#3B82F6', strokeWidth: 2, r: 4 }}
-            />
-          </AreaChart>
-        </ChartContainer>
-        
-        {/* Risk Distribution */}
-        <div className="mt-6 grid grid-cols-3 gap-4">
-          <div className="text-center p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
-            <div className="flex items-center justify-center space-x-2">
-              <AlertTriangle className="h-4 w-4" style={{ color: SAUDI_CHART_COLORS.status.error }} />
-              <span className="font-semibold" style={{ color: SAUDI_CHART_COLORS.status.error }}>High Risk</span>
-            </div>
-            <p className="text-2xl font-bold mt-2" style={{ color: SAUDI_CHART_COLORS.status.error }}>
-              {latestData?.highRiskCount}
-            </p>
-            <p className="text-xs" style={{ color: SAUDI_CHART_COLORS.status.error }}>LTV {'>'}= 80%</p>
-          </div>
-          
-          <div className="text-center p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
-            <div className="flex items-center justify-center space-x-2">
-              <TrendingUp className="h-4 w-4 text-amber-600 dark:text-amber-400" />
-              <span className="font-semibold text-amber-800 dark:text-amber-300">Medium Risk</span>
-            </div>
-            <p className="text-2xl font-bold text-amber-600 dark:text-amber-400 mt-2">
-              {latestData?.mediumRiskCount}
-            </p>
-            <p className="text-xs text-amber-700 dark:text-amber-300">LTV 60-80%</p>
-          </div>
-          
-          <div className="text-center p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
-            <div className="flex items-center justify-center space-x-2">
-              <Shield className="h-4 w-4 text-green-600 dark:text-green-400" />
-              <span className="font-semibold text-green-800 dark:text-green-300">Low Risk</span>
-            </div>
-            <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-2">
-              {latestData?.lowRiskCount}
-            </p>
-            <p className="text-xs text-green-700 dark:text-green-300">LTV {'<'} 60%</p>
-          </div>
-        </div>
+        {hasLtv ? (
+          <ChartContainer config={chartConfig}>
+            <LineChart data={ltvData}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+              <XAxis
+                dataKey="period"
+                className="text-gray-600 dark:text-gray-400"
+                fontSize={12}
+              />
+              <YAxis
+                domain={[0, (dataMax: number) => Math.max(100, Math.ceil(dataMax / 10) * 10)]}
+                className="text-gray-600 dark:text-gray-400"
+                fontSize={12}
+              />
+              <Tooltip content={<CustomTooltip />} />
+
+              {/* Risk Bands */}
+              {showRiskBands && (
+                <>
+                  <ReferenceLine y={80} stroke={SAUDI_CHART_COLORS.status.error} strokeDasharray="5 5" label={{ value: "High Risk (80%)", position: "right" }} />
+                  <ReferenceLine y={60} stroke={SAUDI_CHART_COLORS.status.warning} strokeDasharray="5 5" label={{ value: "Medium Risk (60%)", position: "right" }} />
+                </>
+              )}
+
+              <Line
+                type="stepAfter"
+                dataKey="ltv"
+                stroke={SAUDI_CHART_COLORS.saudiGreen}
+                strokeWidth={3}
+                connectNulls={false}
+                dot={<RevaluationDot />}
+              />
+            </LineChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-12">No collateral is pledged to this selection</p>
+        )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -8,6 +8,7 @@ interface OutstandingVsLimitsChartProps {
       bankId: string;
       bankName: string;
       outstanding: number;
+      utilized: number;
       creditLimit: number;
       utilization: number;
     }>;
@@ -32,7 +33,7 @@ export default function OutstandingVsLimitsChart({ portfolioSummary }: Outstandi
       ? exposure.bankName.substring(0, 12) + '...' 
       : exposure.bankName,
     fullName: exposure.bankName,
-    outstanding: exposure.outstanding / 1000000,
+    outstanding: exposure.utilized / 1000000, // Loans and guarantees against the limit
     creditLimit: exposure.creditLimit / 1000000,
     utilization: exposure.utilization,
   }));
@@ -59,7 +60,7 @@ export default function OutstandingVsLimitsChart({ portfolioSummary }: Outstandi
         <div className="bg-white dark:bg-gray-800 p-3 border border-border rounded-lg shadow-lg">
           <p className="font-semibold text-foreground">{data.fullName}</p>
           <p className="text-sm" style={{ color: SAUDI_CHART_COLORS.saudiGreen }}>
-            Outstanding: {data.outstanding.toFixed(1)}M SAR
+            Utilized: {data.outstanding.toFixed(1)}M SAR
           </p>
           <p className="text-sm text-muted-foreground">
             Credit Limit: {data.creditLimit.toFixed(1)}M SAR
@@ -0,0 +1,13 @@
+import { useAuth } from "@/hooks/useAuth";
+import { hasPermission, type PermissionAccess, type PermissionArea } from "@shared/permissions";
+import type { MemberRole } from "@shared/schema";
+
+// Role of the signed-in member, for hiding actions their role does not allow
+export function usePermissions() {
+  const { user } = useAuth();
+  const role = (user as any)?.role as MemberRole | undefined;
+
+  const can = (area: PermissionArea, access: PermissionAccess = 'write') => hasPermission(role, area, access);
+
+  return { role, can };
+}
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import type { SiborRate } from '@shared/types';
+
+/**
+ * Latest published SIBOR / SAIBOR fixing for a loan's SIBOR term (in months).
+ * Resolves to null when no fixing has been loaded for that tenor yet.
+ */
+export function useSiborFixing(termMonths?: number | null) {
+  const months = termMonths && termMonths > 0 ? termMonths : 3;
+
+  return useQuery<SiborRate | null>({
+    queryKey: ['/api/sibor-rate', months],
+    queryFn: async () => {
+      const response = await fetch(`/api/sibor-rate?termMonths=${months}`, {
+        credentials: 'include',
+      });
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch SIBOR fixing: ${response.status}`);
+      }
+      return response.json();
+    },
+  });
+}
@@ -0,0 +1,14 @@
+import type { PendingApprovalResponse } from "@shared/types";
+import { queryClient } from "@/lib/queryClient";
+
+// Drawdowns, settlements, reversals, revolves and payments from the organization's threshold up come back with 202
+export async function pendingApprovalOf(response: Response): Promise<PendingApprovalResponse | null> {
+  if (response.status !== 202) return null;
+  queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+  return response.json();
+}
+
+export const PENDING_APPROVAL_TOAST = {
+  title: "Sent for approval",
+  description: "A second team member has to approve this in Approvals before it takes effect",
+};
@@ -13,6 +13,7 @@ import {
   TrendingUp,
   FileText,
   Clock,
+  ClipboardCheck,
 } from "lucide-react";
 import { MobileHeader } from "@/components/mobile/MobileHeader";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -69,6 +70,12 @@ export default function MorePage() {
           icon: Users,
           path: "/settings?tab=team",
         },
+        {
+          id: "approvals",
+          label: "Approvals",
+          icon: ClipboardCheck,
+          path: "/approvals",
+        },
       ],
     },
     {
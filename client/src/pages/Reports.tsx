@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Calendar, Download, FileText, FileSpreadsheet, TrendingUp } from "lucide-react";
+import { BookOpen, Calendar, Download, FileText, FileSpreadsheet, TrendingUp } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -120,10 +120,16 @@ export default function Reports() {
               Generate professional facility reports and export portfolio data
             </p>
           </div>
-          <Badge variant="secondary" className="bg-saudi/10 text-saudi">
-            <TrendingUp className="w-4 h-4 mr-1" />
-            Professional Export
-          </Badge>
+          <div className="flex items-center gap-3">
+            <Button variant="outline" onClick={() => setLocation("/reports/general-ledger")} data-testid="button-general-ledger">
+              <BookOpen className="w-4 h-4 mr-2" />
+              GL Journal Export
+            </Button>
+            <Badge variant="secondary" className="bg-saudi/10 text-saudi">
+              <TrendingUp className="w-4 h-4 mr-1" />
+              Professional Export
+            </Badge>
+          </div>
         </div>
 
         <div className="grid gap-6 md:grid-cols-2">
@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Archive, RotateCcw, Save, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import AdminLayout from "@/components/admin/AdminLayout";
+import type {
+  AttachmentRetentionPolicy,
+  AttachmentRetentionPoliciesRequest,
+  AttachmentRetentionTrigger,
+} from "@shared/schema";
+
+type Rule = { retentionYears: number; trigger: AttachmentRetentionTrigger };
+
+interface RetentionPoliciesResponse {
+  defaults: Record<string, Rule>;
+  policies: AttachmentRetentionPolicy[];
+}
+
+const TRIGGER_LABELS: Record<AttachmentRetentionTrigger, string> = {
+  upload: "After upload",
+  owner_end: "After facility expiry / loan settlement",
+};
+
+const categoryLabel = (category: string) =>
+  category.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+export default function AdminDocumentRetentionPage() {
+  const { toast } = useToast();
+  // Unsaved edits per category; null resets the category to its default
+  const [edits, setEdits] = useState<Record<string, Rule | null>>({});
+
+  // Get admin token for authenticated requests
+  const adminToken = localStorage.getItem('admin_token');
+
+  // Custom admin API request function with authentication
+  const adminApiRequest = async (method: string, url: string, data?: any) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${adminToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: data ? JSON.stringify(data) : undefined,
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body.message || `Failed to ${method.toLowerCase()} retention policies`);
+    }
+
+    return body;
+  };
+
+  // Fetch policies with admin authentication
+  const { data, isLoading } = useQuery<RetentionPoliciesResponse>({
+    queryKey: ["/api/admin/attachment-retention-policies"],
+    queryFn: async () => {
+      const response = await fetch("/api/admin/attachment-retention-policies", {
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch retention policies');
+      }
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    setEdits({});
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (policies: AttachmentRetentionPoliciesRequest) => {
+      return await adminApiRequest("PUT", "/api/admin/attachment-retention-policies", policies);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/attachment-retention-policies"] });
+      toast({
+        title: "Success",
+        description: "Retention policies saved",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save retention policies",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async () => {
+      return await adminApiRequest("POST", "/api/admin/attachment-retention/purge");
+    },
+    onSuccess: (result: { purged: unknown[]; retained: number; failed: string[] }) => {
+      toast({
+        title: "Purge complete",
+        description: `${result.purged.length} version(s) purged, ${result.retained} still retained` +
+          (result.failed.length > 0 ? `, ${result.failed.length} failed` : ""),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to purge attachments",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saved = new Map((data?.policies ?? []).map(policy => [policy.category, policy]));
+  const categories = Object.keys(data?.defaults ?? {});
+
+  const ruleOf = (category: string): { rule: Rule; custom: boolean } => {
+    const edit = edits[category];
+    if (edit !== undefined) {
+      return edit === null ? { rule: data!.defaults[category], custom: false } : { rule: edit, custom: true };
+    }
+    const policy = saved.get(category as AttachmentRetentionPolicy["category"]);
+    return policy
+      ? { rule: { retentionYears: policy.retentionYears, trigger: policy.trigger as AttachmentRetentionTrigger }, custom: true }
+      : { rule: data!.defaults[category], custom: false };
+  };
+
+  const editRule = (category: string, changes: Partial<Rule>) => {
+    setEdits(current => ({ ...current, [category]: { ...ruleOf(category).rule, ...changes } }));
+  };
+
+  const handlePurge = () => {
+    if (confirm("Purge every deleted or superseded version whose retention has run out? This cannot be undone.")) {
+      purgeMutation.mutate();
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Document Retention</h1>
+            <p className="text-muted-foreground">How long deleted and superseded attachments are kept before they are purged</p>
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={handlePurge}
+              disabled={purgeMutation.isPending}
+              data-testid="button-run-purge"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              {purgeMutation.isPending ? "Purging..." : "Run Purge Now"}
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(edits as AttachmentRetentionPoliciesRequest)}
+              disabled={saveMutation.isPending || Object.keys(edits).length === 0}
+              data-testid="button-save-retention"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saveMutation.isPending ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Archive className="h-5 w-5" />
+              <span>Retention Policies</span>
+            </CardTitle>
+            <CardDescription>
+              Current versions are never purged. Attachments on legal hold are kept until the hold is released, whatever
+              their policy. The purge runs once a day and records an audit entry for every version it removes.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading || !data ? (
+              <p className="text-muted-foreground">Loading policies...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="w-32">Years</TableHead>
+                    <TableHead>Counted From</TableHead>
+                    <TableHead>Updated By</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {categories.map(category => {
+                    const { rule, custom } = ruleOf(category);
+                    const policy = saved.get(category as AttachmentRetentionPolicy["category"]);
+                    return (
+                      <TableRow key={category} data-testid={`row-retention-${category}`}>
+                        <TableCell>
+                          <span className="mr-2">{categoryLabel(category)}</span>
+                          {!custom && <Badge variant="outline">Default</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={50}
+                            value={rule.retentionYears}
+                            onChange={(e) => editRule(category, { retentionYears: parseInt(e.target.value, 10) || 1 })}
+                            data-testid={`input-retention-years-${category}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={rule.trigger}
+                            onValueChange={(value) => editRule(category, { trigger: value as AttachmentRetentionTrigger })}
+                          >
+                            <SelectTrigger data-testid={`select-retention-trigger-${category}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(TRIGGER_LABELS) as AttachmentRetentionTrigger[]).map(trigger => (
+                                <SelectItem key={trigger} value={trigger}>{TRIGGER_LABELS[trigger]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{policy?.updatedBy || "-"}</TableCell>
+                        <TableCell className="text-right">
+                          {custom && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Reset to default"
+                              onClick={() => setEdits(current => ({ ...current, [category]: null }))}
+                              data-testid={`button-reset-retention-${category}`}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
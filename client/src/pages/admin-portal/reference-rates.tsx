@@ -0,0 +1,340 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Trash2, Upload, TrendingUp } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import AdminLayout from "@/components/admin/AdminLayout";
+import type { ReferenceRate } from "@shared/schema";
+
+const TENORS = ["1M", "3M", "6M", "12M"] as const;
+
+const fixingSchema = z.object({
+  tenor: z.enum(TENORS),
+  fixingDate: z.string().min(1, "Fixing date is required"),
+  rate: z.string()
+    .min(1, "Rate is required")
+    .refine((val) => !isNaN(Number(val)) && Number(val) >= 0, "Must be a valid rate"),
+});
+
+type FixingFormData = z.infer<typeof fixingSchema>;
+
+const SOURCE_LABELS: Record<string, string> = {
+  csv_upload: "CSV Upload",
+  manual: "Manual",
+  file_drop: "File Drop",
+};
+
+export default function AdminReferenceRatesPage() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [tenorFilter, setTenorFilter] = useState<string>("all");
+
+  // Get admin token for authenticated requests
+  const adminToken = localStorage.getItem('admin_token');
+
+  // Custom admin API request function with authentication
+  const adminApiRequest = async (method: string, url: string, data?: any) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${adminToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: data ? JSON.stringify(data) : undefined,
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body.message || `Failed to ${method.toLowerCase()} reference rates`);
+    }
+
+    return body;
+  };
+
+  // Fetch fixings with admin authentication
+  const { data: rates = [], isLoading } = useQuery<ReferenceRate[]>({
+    queryKey: ["/api/admin/reference-rates", tenorFilter],
+    queryFn: async () => {
+      const query = tenorFilter === "all" ? "" : `?tenor=${tenorFilter}`;
+      const response = await fetch(`/api/admin/reference-rates${query}`, {
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch reference rates');
+      }
+      return response.json();
+    },
+  });
+
+  const reportImport = (result: { imported: ReferenceRate[]; errors: string[] }) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/reference-rates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sibor-rate"] });
+    toast({
+      title: "Success",
+      description: `${result.imported.length} fixing(s) saved` +
+        (result.errors.length > 0 ? `, ${result.errors.length} row(s) skipped` : ""),
+    });
+  };
+
+  // Manual entry mutation
+  const createFixingMutation = useMutation({
+    mutationFn: async (fixing: FixingFormData) => {
+      return await adminApiRequest("POST", "/api/admin/reference-rates", { fixings: [fixing] });
+    },
+    onSuccess: (result) => {
+      reportImport(result);
+      form.reset({ ...form.getValues(), rate: "" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save fixing",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // CSV upload mutation
+  const importCsvMutation = useMutation({
+    mutationFn: async (csv: string) => {
+      return await adminApiRequest("POST", "/api/admin/reference-rates/import", { csv });
+    },
+    onSuccess: reportImport,
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import CSV",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Delete fixing mutation
+  const deleteFixingMutation = useMutation({
+    mutationFn: async (rateId: string) => {
+      return await adminApiRequest("DELETE", `/api/admin/reference-rates/${rateId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reference-rates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sibor-rate"] });
+      toast({
+        title: "Success",
+        description: "Fixing deleted successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete fixing",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const form = useForm<FixingFormData>({
+    resolver: zodResolver(fixingSchema),
+    defaultValues: {
+      tenor: "3M",
+      fixingDate: new Date().toISOString().split('T')[0],
+      rate: "",
+    },
+  });
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    importCsvMutation.mutate(await file.text());
+    event.target.value = "";
+  };
+
+  const handleDelete = (rateId: string) => {
+    if (confirm("Are you sure you want to delete this fixing?")) {
+      deleteFixingMutation.mutate(rateId);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Reference Rates</h1>
+            <p className="text-muted-foreground">SIBOR / SAIBOR fixings used for loan pricing and defaults</p>
+          </div>
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleFileSelected}
+              data-testid="input-rates-csv"
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importCsvMutation.isPending}
+              data-testid="button-upload-rates-csv"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importCsvMutation.isPending ? "Importing..." : "Upload CSV"}
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Plus className="h-5 w-5" />
+              <span>Add Fixing</span>
+            </CardTitle>
+            <CardDescription>
+              Re-entering a tenor and date replaces the existing fixing. CSV files may use
+              tenor,fixing_date,rate rows or date,1M,3M,6M,12M columns.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => createFixingMutation.mutate(data))} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <FormField
+                  control={form.control}
+                  name="tenor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tenor</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-rate-tenor">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {TENORS.map(tenor => (
+                            <SelectItem key={tenor} value={tenor}>{tenor}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="fixingDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fixing Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-rate-fixing-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="rate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rate (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.0001" placeholder="e.g., 5.6234" {...field} data-testid="input-rate-value" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" disabled={createFixingMutation.isPending} data-testid="button-save-fixing">
+                  {createFixingMutation.isPending ? "Saving..." : "Save Fixing"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <TrendingUp className="h-5 w-5" />
+                <span>Fixing History</span>
+              </CardTitle>
+              <CardDescription>Most recent fixings first</CardDescription>
+            </div>
+            <Select value={tenorFilter} onValueChange={setTenorFilter}>
+              <SelectTrigger className="w-32" data-testid="select-rate-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All tenors</SelectItem>
+                {TENORS.map(tenor => (
+                  <SelectItem key={tenor} value={tenor}>{tenor}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading fixings...</p>
+            ) : rates.length === 0 ? (
+              <p className="text-muted-foreground" data-testid="text-no-rates">
+                No fixings yet. Add one above, upload a CSV, or drop a file into the reference rate drop directory.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fixing Date</TableHead>
+                    <TableHead>Tenor</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Entered By</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rates.map(rate => (
+                    <TableRow key={rate.id} data-testid={`row-rate-${rate.id}`}>
+                      <TableCell>{new Date(rate.fixingDate).toLocaleDateString('en-SA')}</TableCell>
+                      <TableCell><Badge variant="outline">{rate.tenor}</Badge></TableCell>
+                      <TableCell className="text-right font-mono">{parseFloat(rate.rate).toFixed(4)}%</TableCell>
+                      <TableCell>{SOURCE_LABELS[rate.source] || rate.source}</TableCell>
+                      <TableCell className="text-muted-foreground">{rate.createdBy || "-"}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(rate.id)}
+                          data-testid={`button-delete-rate-${rate.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
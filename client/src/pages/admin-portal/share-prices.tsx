@@ -0,0 +1,226 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Trash2, Upload, LineChart, Search } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import AdminLayout from "@/components/admin/AdminLayout";
+import type { SharePrice } from "@shared/schema";
+
+const SOURCE_LABELS: Record<string, string> = {
+  csv_upload: "CSV Upload",
+  json_upload: "JSON Upload",
+  file_drop: "File Drop",
+};
+
+export default function AdminSharePricesPage() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [tickerFilter, setTickerFilter] = useState("");
+
+  // Get admin token for authenticated requests
+  const adminToken = localStorage.getItem('admin_token');
+
+  // Custom admin API request function with authentication
+  const adminApiRequest = async (method: string, url: string, data?: any) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${adminToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: data ? JSON.stringify(data) : undefined,
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body.message || `Failed to ${method.toLowerCase()} share prices`);
+    }
+
+    return body;
+  };
+
+  // Fetch prices with admin authentication
+  const ticker = tickerFilter.trim();
+  const { data: prices = [], isLoading } = useQuery<SharePrice[]>({
+    queryKey: ["/api/admin/share-prices", ticker],
+    queryFn: async () => {
+      const query = ticker ? `?ticker=${encodeURIComponent(ticker)}` : "";
+      const response = await fetch(`/api/admin/share-prices${query}`, {
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch share prices');
+      }
+      return response.json();
+    },
+  });
+
+  // CSV / JSON upload mutation
+  const importMutation = useMutation({
+    mutationFn: async (file: { content: string; format: "csv" | "json" }) => {
+      return await adminApiRequest("POST", "/api/admin/share-prices/import", file);
+    },
+    onSuccess: (result: { imported: SharePrice[]; errors: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/share-prices"] });
+      toast({
+        title: "Success",
+        description: `${result.imported.length} price(s) saved` +
+          (result.errors.length > 0 ? `, ${result.errors.length} row(s) skipped` : ""),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import prices",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Delete price mutation
+  const deletePriceMutation = useMutation({
+    mutationFn: async (priceId: string) => {
+      return await adminApiRequest("DELETE", `/api/admin/share-prices/${priceId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/share-prices"] });
+      toast({
+        title: "Success",
+        description: "Price deleted successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete price",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    importMutation.mutate({
+      content: await file.text(),
+      format: file.name.toLowerCase().endsWith(".json") ? "json" : "csv",
+    });
+    event.target.value = "";
+  };
+
+  const handleDelete = (priceId: string) => {
+    if (confirm("Are you sure you want to delete this price?")) {
+      deletePriceMutation.mutate(priceId);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Share Prices</h1>
+            <p className="text-muted-foreground">Tadawul closing prices used to mark share collateral to market</p>
+          </div>
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={handleFileSelected}
+              data-testid="input-prices-file"
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importMutation.isPending}
+              data-testid="button-upload-prices"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importMutation.isPending ? "Importing..." : "Upload CSV / JSON"}
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <LineChart className="h-5 w-5" />
+                <span>Closing Prices</span>
+              </CardTitle>
+              <CardDescription>
+                Re-importing a ticker and date replaces the existing close. CSV files may use ticker,date,close rows
+                or date,2222,1120,... columns; JSON files an array of {"{ ticker, date, close }"}. Share collateral is
+                revalued at the latest close once a day.
+              </CardDescription>
+            </div>
+            <div className="relative w-40">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={tickerFilter}
+                onChange={(e) => setTickerFilter(e.target.value)}
+                placeholder="Ticker"
+                className="pl-8"
+                data-testid="input-price-filter"
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading prices...</p>
+            ) : prices.length === 0 ? (
+              <p className="text-muted-foreground" data-testid="text-no-prices">
+                No prices yet. Upload a file, or drop one into the share price drop directory.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Ticker</TableHead>
+                    <TableHead className="text-right">Close (SAR)</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Entered By</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {prices.map(price => (
+                    <TableRow key={price.id} data-testid={`row-price-${price.id}`}>
+                      <TableCell>{new Date(price.priceDate).toLocaleDateString('en-SA')}</TableCell>
+                      <TableCell><Badge variant="outline">{price.ticker}</Badge></TableCell>
+                      <TableCell className="text-right font-mono">{parseFloat(price.closePrice).toFixed(2)}</TableCell>
+                      <TableCell>{SOURCE_LABELS[price.source] || price.source}</TableCell>
+                      <TableCell className="text-muted-foreground">{price.createdBy || "-"}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(price.id)}
+                          data-testid={`button-delete-price-${price.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
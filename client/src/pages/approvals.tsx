@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Check, ClipboardCheck, Save, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import type { ApprovalAction, ApprovalThreshold } from "@shared/schema";
+import type { ApprovalInboxItem } from "@shared/types";
+
+const ACTIONS: { value: ApprovalAction; label: string }[] = [
+  { value: "loan_drawdown", label: "Loan drawdown" },
+  { value: "loan_settlement", label: "Loan settlement" },
+  { value: "settlement_reversal", label: "Settlement reversal" },
+  { value: "payment", label: "Payment" },
+];
+
+// Revolves are held by the settlement or drawdown threshold and have none of their own
+const REQUEST_LABELS: Record<string, string> = { revolve: "Loan revolve" };
+
+const actionLabel = (value: string) => ACTIONS.find(a => a.value === value)?.label || REQUEST_LABELS[value] || value;
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+type Decision = { request: ApprovalInboxItem; approve: boolean };
+
+export default function ApprovalsPage() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [comment, setComment] = useState("");
+  const [thresholds, setThresholds] = useState<Record<string, string>>({});
+
+  const { data: requests = [], isLoading } = useQuery<ApprovalInboxItem[]>({ queryKey: ["/api/approvals"] });
+  const { data: savedThresholds = [] } = useQuery<ApprovalThreshold[]>({ queryKey: ["/api/approvals/thresholds"] });
+
+  useEffect(() => {
+    setThresholds(Object.fromEntries(savedThresholds.map(t => [t.action, t.minAmount])));
+  }, [savedThresholds]);
+
+  const pending = requests.filter(r => r.status === "pending");
+  const decided = requests.filter(r => r.status !== "pending");
+
+  const closeDecision = () => {
+    setDecision(null);
+    setComment("");
+  };
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ request, approve }: Decision) => {
+      await apiRequest("POST", `/api/approvals/${request.id}/${approve ? "approve" : "reject"}`, { comment: comment || undefined });
+    },
+    onSuccess: (_, { request, approve }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
+      if (request.loanId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/loans", request.loanId] });
+      }
+      toast({ title: approve ? "Request approved" : "Request rejected", description: request.summary });
+      closeDecision();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to record decision", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveThresholdsMutation = useMutation({
+    mutationFn: async () => {
+      const body = Object.fromEntries(ACTIONS.map(({ value }) => [value, thresholds[value] ? thresholds[value] : null]));
+      await apiRequest("PUT", "/api/approvals/thresholds", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals/thresholds"] });
+      toast({ title: "Approval thresholds saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save approval thresholds", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const renderTable = (rows: ApprovalInboxItem[], showDecision: boolean) => (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-2 pr-4 font-medium">Requested</th>
+            <th className="py-2 pr-4 font-medium">Action</th>
+            <th className="py-2 pr-4 font-medium">Details</th>
+            <th className="py-2 pr-4 font-medium text-right">Amount</th>
+            <th className="py-2 pr-4 font-medium">Maker</th>
+            {showDecision && <th className="py-2 pr-4 font-medium">Checker</th>}
+            <th className="py-2 pr-4 font-medium">Status</th>
+            <th className="py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(request => (
+            <tr key={request.id} className="border-b last:border-0 align-top" data-testid={`row-approval-${request.id}`}>
+              <td className="py-2 pr-4 whitespace-nowrap">{request.createdAt ? formatDate(request.createdAt) : "-"}</td>
+              <td className="py-2 pr-4">{actionLabel(request.action)}</td>
+              <td className="py-2 pr-4">
+                <div>{request.summary}</div>
+                {request.makerComment && <div className="text-muted-foreground">"{request.makerComment}"</div>}
+              </td>
+              <td className="py-2 pr-4 text-right whitespace-nowrap">{formatCurrency(parseFloat(request.amount))}</td>
+              <td className="py-2 pr-4">{request.makerName || "-"}</td>
+              {showDecision && (
+                <td className="py-2 pr-4">
+                  <div>{request.checkerName || "-"}</div>
+                  {request.checkerComment && <div className="text-muted-foreground">"{request.checkerComment}"</div>}
+                </td>
+              )}
+              <td className="py-2 pr-4">
+                <Badge variant={STATUS_VARIANTS[request.status] || "secondary"} className="capitalize">{request.status}</Badge>
+              </td>
+              <td className="py-2 text-right whitespace-nowrap">
+                {request.canDecide && (
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" onClick={() => setDecision({ request, approve: true })} data-testid={`button-approve-${request.id}`}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setDecision({ request, approve: false })} data-testid={`button-reject-${request.id}`}>
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
+      <div className="flex-1 space-y-6 p-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Approvals</h1>
+          <p className="text-muted-foreground">
+            Drawdowns, settlements, reversals and payments from your thresholds up wait here for a second member
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5" />
+              Requests
+            </CardTitle>
+            <CardDescription>You cannot approve or reject requests you made yourself</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="pending">
+              <TabsList>
+                <TabsTrigger value="pending" data-testid="tab-approvals-pending">Pending ({pending.length})</TabsTrigger>
+                <TabsTrigger value="history" data-testid="tab-approvals-history">History</TabsTrigger>
+              </TabsList>
+              <TabsContent value="pending" className="pt-4">
+                {isLoading ? (
+                  <p className="text-sm text-muted-foreground">Loading...</p>
+                ) : pending.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing is waiting for approval.</p>
+                ) : renderTable(pending, false)}
+              </TabsContent>
+              <TabsContent value="history" className="pt-4">
+                {decided.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No decided requests yet.</p>
+                ) : renderTable(decided, true)}
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Approval Thresholds</CardTitle>
+            <CardDescription>
+              Amounts in SAR from which an action needs approval. Leave empty to let the action take effect immediately.
+              A revolve needs approval when the loan amount reaches the settlement threshold or the new cycle reaches the drawdown threshold.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-4">
+              {ACTIONS.map(({ value, label }) => (
+                <div key={value} className="space-y-2">
+                  <Label>{label}</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={thresholds[value] ?? ""}
+                    onChange={(e) => setThresholds(t => ({ ...t, [value]: e.target.value }))}
+                    disabled={!can('organization')}
+                    placeholder="No approval"
+                    data-testid={`input-threshold-${value}`}
+                  />
+                </div>
+              ))}
+            </div>
+            {can('organization') && (
+              <Button onClick={() => saveThresholdsMutation.mutate()} disabled={saveThresholdsMutation.isPending} data-testid="button-save-thresholds">
+                <Save className="w-4 h-4 mr-2" />
+                {saveThresholdsMutation.isPending ? "Saving..." : "Save Thresholds"}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!decision} onOpenChange={(open) => !open && closeDecision()}>
+        <DialogContent data-testid="dialog-approval-decision">
+          <DialogHeader>
+            <DialogTitle>{decision?.approve ? "Approve" : "Reject"} {decision ? actionLabel(decision.request.action).toLowerCase() : ""}</DialogTitle>
+            <DialogDescription>
+              {decision?.request.summary} - {decision ? formatCurrency(parseFloat(decision.request.amount)) : ""}
+              {decision?.approve && ". The action is carried out as soon as you approve it."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>{decision?.approve ? "Comment (optional)" : "Reason"}</Label>
+            <Textarea value={comment} onChange={(e) => setComment(e.target.value)} maxLength={1000} data-testid="input-approval-comment" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDecision}>Cancel</Button>
+            <Button
+              variant={decision?.approve ? "default" : "destructive"}
+              onClick={() => decision && decideMutation.mutate(decision)}
+              disabled={decideMutation.isPending || (!decision?.approve && !comment.trim())}
+              data-testid="button-confirm-decision"
+            >
+              {decideMutation.isPending ? "Saving..." : decision?.approve ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 import { useParams, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useSiborFixing } from "@/hooks/useSiborFixing";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { pendingApprovalOf, PENDING_APPROVAL_TOAST } from "@/lib/approvals";
 import { insertFacilitySchema, Bank, paymentRequestSchema, settlementRequestSchema, revolveRequestSchema, type PaymentRequest, type SettlementRequest, type RevolveRequest } from "@shared/schema";
 import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -49,7 +52,11 @@ import {
   RotateCcw,
   CheckSquare,
   History,
-  ChevronDown
+  ChevronDown,
+  FileCheck,
+  Archive,
+  GitMerge,
+  Sparkles
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -59,11 +66,15 @@ import {
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
 import { Link } from "wouter";
-import { PortfolioSummary } from "@shared/types";
+import { PortfolioSummary, type BankReconciliationStatus } from "@shared/types";
 import BankContactsSection from "@/components/BankContactsSection";
 import DocumentUpload from "@/components/DocumentUpload";
 import DocumentList from "@/components/DocumentList";
 import { formatFacilityType } from "@/lib/formatters";
+import { BankFormDialog } from "@/components/BankFormDialog";
+import { BankMergeDialog } from "@/components/BankMergeDialog";
+import { MarginCallsCard } from "@/components/MarginCallsCard";
+import { AgreementImportDialog } from "@/components/AgreementImportDialog";
 
 type BankPerformance = {
   relationshipDuration: {
@@ -90,6 +101,7 @@ export default function BankDetail() {
   const { id: bankId } = useParams();
   const [location, setLocation] = useLocation();
   const { isAuthenticated, user } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const facilitiesRef = useRef<HTMLDivElement>(null);
   
@@ -100,6 +112,10 @@ export default function BankDetail() {
   const [revolveDialogOpen, setRevolveDialogOpen] = useState(false);
   const [ledgerDialogOpen, setLedgerDialogOpen] = useState(false);
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+
+  // Organization-owned (custom) bank management
+  const [bankFormOpen, setBankFormOpen] = useState(false);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
   
   // Pagination state for loans list
   const [visibleLoansCount, setVisibleLoansCount] = useState(5);
@@ -109,6 +125,7 @@ export default function BankDetail() {
   
   // Expandable facilities state
   const [expandedFacilities, setExpandedFacilities] = useState<Set<string>>(new Set());
+  const [agreementImportOpen, setAgreementImportOpen] = useState(false);
 
   const { data: bank, isLoading: bankLoading, error: bankError } = useQuery<Bank>({
     queryKey: ["/api/banks", bankId],
@@ -121,6 +138,11 @@ export default function BankDetail() {
     enabled: isAuthenticated,
   });
 
+  const { data: reconciliationStatus } = useQuery<BankReconciliationStatus>({
+    queryKey: ["/api/banks", bankId, "reconciliation", "status"],
+    enabled: isAuthenticated && !!bankId,
+  });
+
   const { data: portfolioSummary, isLoading: portfolioLoading } = useQuery({
     queryKey: ["/api/dashboard/portfolio"],
     enabled: isAuthenticated,
@@ -240,6 +262,38 @@ export default function BankDetail() {
     },
   });
 
+  // Open the edit dialog when arriving from the mobile "Edit Bank" action
+  useEffect(() => {
+    const params = new URLSearchParams(location.split('?')[1] || window.location.search);
+    if (params.get('edit') === 'true' && bank?.organizationId) {
+      setBankFormOpen(true);
+    }
+  }, [location, bank?.organizationId]);
+
+  const archiveBankMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/banks/${bankId}/archive`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/banks"] });
+      toast({ title: "Bank archived" });
+      setLocation("/banks");
+    },
+    onError: (error) => {
+      toast({ 
+        title: "Failed to archive bank", 
+        description: error.message,
+        variant: "destructive" 
+      });
+    },
+  });
+
+  const handleArchiveBank = () => {
+    if (window.confirm("Archive this bank? It will no longer be offered when adding facilities.")) {
+      archiveBankMutation.mutate();
+    }
+  };
+
   const handleDeleteFacility = (facilityId: string) => {
     if (window.confirm("Are you sure you want to delete this facility? This action cannot be undone.")) {
       deleteFacilityMutation.mutate(facilityId);
@@ -249,9 +303,14 @@ export default function BankDetail() {
   // Loan action mutations
   const makePaymentMutation = useMutation({
     mutationFn: async ({ loanId, data }: { loanId: string; data: PaymentRequest }) => {
-      return apiRequest('POST', `/api/loans/${loanId}/repayments`, data);
+      return pendingApprovalOf(await apiRequest('POST', `/api/loans/${loanId}/repayments`, data));
     },
-    onSuccess: () => {
+    onSuccess: (pending) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+        setPaymentDialogOpen(false);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
       toast({ title: "Payment processed successfully" });
@@ -264,9 +323,14 @@ export default function BankDetail() {
 
   const settleLoanMutation = useMutation({
     mutationFn: async ({ loanId, data }: { loanId: string; data: SettlementRequest }) => {
-      return apiRequest('POST', `/api/loans/${loanId}/settle`, data);
+      return pendingApprovalOf(await apiRequest('POST', `/api/loans/${loanId}/settle`, data));
     },
-    onSuccess: () => {
+    onSuccess: (pending) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+        setSettleDialogOpen(false);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
       toast({ title: "Loan settled successfully" });
@@ -279,15 +343,17 @@ export default function BankDetail() {
 
   const revolveLoanMutation = useMutation({
     mutationFn: async ({ loanId, data }: { loanId: string; data: RevolveRequest }) => {
-      return apiRequest('POST', `/api/loans/${loanId}/revolve`, data);
+      return pendingApprovalOf(await apiRequest('POST', `/api/loans/${loanId}/revolve`, data));
     },
-    onSuccess: (newLoan: any) => {
+    onSuccess: (pending) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+        setRevolveDialogOpen(false);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
       queryClient.invalidateQueries({ queryKey: ["/api/facilities"] });
-      if (newLoan?.facilityId) {
-        queryClient.invalidateQueries({ queryKey: ["/api/facilities", newLoan.facilityId, "revolving-usage"] });
-      }
       toast({ title: "Loan revolved successfully" });
       setRevolveDialogOpen(false);
     },
@@ -393,11 +459,40 @@ export default function BankDetail() {
               </div>
               <div>
                 <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{bank!.name}</h1>
-                <p className="text-gray-600 dark:text-gray-300">Code: {bank!.code}</p>
+                <p className="text-gray-600 dark:text-gray-300">
+                  Code: {bank!.code}{bank!.organizationId ? " · Custom bank" : ""}
+                </p>
               </div>
             </div>
           </div>
           <div className="flex items-center space-x-3">
+            {bank!.organizationId && can('facilities') && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" data-testid="button-manage-bank">
+                    <Settings className="mr-2 h-4 w-4" />
+                    Manage
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setBankFormOpen(true)} data-testid="button-edit-bank">
+                    <Edit className="mr-2 h-4 w-4" />
+                    Edit Bank
+                  </DropdownMenuItem>
+                  {(user as any)?.isOwner && (
+                    <DropdownMenuItem onClick={() => setMergeDialogOpen(true)} data-testid="button-merge-bank">
+                      <GitMerge className="mr-2 h-4 w-4" />
+                      Merge Into...
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={handleArchiveBank} className="text-red-600" data-testid="button-archive-bank">
+                    <Archive className="mr-2 h-4 w-4" />
+                    Archive Bank
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             <Badge className={connectionStatus === 'connected' 
               ? "bg-emerald-100 text-emerald-800 lg:hover:bg-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400"
               : "bg-gray-100 text-gray-800 lg:hover:bg-gray-200 dark:bg-gray-900/20 dark:text-gray-400"
@@ -539,15 +634,28 @@ export default function BankDetail() {
                     <CreditCard className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
                     <span>Credit Facilities</span>
                   </div>
-                  <Button 
-                    size="sm" 
-                    data-testid="button-add-facility"
-                    onClick={() => setLocation(`/banks/${bankId}/facility/create`)}
-                    className="bg-gradient-to-r from-green-600 to-emerald-600 lg:hover:from-green-700 lg:hover:to-emerald-700 text-white shadow-lg"
-                  >
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Facility
-                  </Button>
+                  {can('facilities') && (
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        data-testid="button-import-facility-agreement"
+                        onClick={() => setAgreementImportOpen(true)}
+                      >
+                        <Sparkles className="mr-2 h-4 w-4" />
+                        Import from Agreement
+                      </Button>
+                      <Button 
+                        size="sm" 
+                        data-testid="button-add-facility"
+                        onClick={() => setLocation(`/banks/${bankId}/facility/create`)}
+                        className="bg-gradient-to-r from-green-600 to-emerald-600 lg:hover:from-green-700 lg:hover:to-emerald-700 text-white shadow-lg"
+                      >
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Facility
+                      </Button>
+                    </div>
+                  )}
                 </CardTitle>
                 <p className="text-sm text-gray-600 dark:text-gray-400">Your active facilities with this bank</p>
               </CardHeader>
@@ -705,33 +813,37 @@ export default function BankDetail() {
 
                             {/* Actions */}
                             <div className="flex justify-end space-x-2 pt-3 border-t border-gray-200 dark:border-gray-700">
-                              <Button 
-                                variant="outline" 
-                                size="sm"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setLocation(`/banks/${bankId}/facility/${facility.id}/edit`);
-                                }}
-                                className="min-h-[44px] w-24 touch-manipulation"
-                                data-testid={`button-edit-facility-${facility.id}`}
-                              >
-                                <Edit className="mr-1 h-4 w-4" />
-                                Edit
-                              </Button>
-                              <Button 
-                                variant="destructive" 
-                                size="sm"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  handleDeleteFacility(facility.id);
-                                }}
-                                disabled={deleteFacilityMutation.isPending}
-                                className="min-h-[44px] w-24 touch-manipulation"
-                                data-testid={`button-delete-facility-${facility.id}`}
-                              >
-                                <Trash2 className="mr-1 h-4 w-4" />
-                                Delete
-                              </Button>
+                              {can('facilities') && (
+                                <Button 
+                                  variant="outline" 
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setLocation(`/banks/${bankId}/facility/${facility.id}/edit`);
+                                  }}
+                                  className="min-h-[44px] w-24 touch-manipulation"
+                                  data-testid={`button-edit-facility-${facility.id}`}
+                                >
+                                  <Edit className="mr-1 h-4 w-4" />
+                                  Edit
+                                </Button>
+                              )}
+                              {can('facilities') && (
+                                <Button 
+                                  variant="destructive" 
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDeleteFacility(facility.id);
+                                  }}
+                                  disabled={deleteFacilityMutation.isPending}
+                                  className="min-h-[44px] w-24 touch-manipulation"
+                                  data-testid={`button-delete-facility-${facility.id}`}
+                                >
+                                  <Trash2 className="mr-1 h-4 w-4" />
+                                  Delete
+                                </Button>
+                              )}
                             </div>
                           </div>
                         )}
@@ -754,16 +866,18 @@ export default function BankDetail() {
                     </CardTitle>
                     <p className="text-sm text-gray-600 dark:text-gray-400">Current loan drawdowns from this bank</p>
                   </div>
-                  <Link href={`/loans/create?bankId=${bankId}`}>
-                    <Button 
-                      size="sm"
-                      className="bg-gradient-to-r from-green-600 to-emerald-600 lg:hover:from-green-700 lg:hover:to-emerald-700 text-white shadow-lg"
-                      data-testid="button-add-loan-header"
-                    >
-                      <Plus className="h-4 w-4 mr-2" />
-                      Add Loan
-                    </Button>
-                  </Link>
+                  {can('loans') && (
+                    <Link href={`/loans/create?bankId=${bankId}`}>
+                      <Button 
+                        size="sm"
+                        className="bg-gradient-to-r from-green-600 to-emerald-600 lg:hover:from-green-700 lg:hover:to-emerald-700 text-white shadow-lg"
+                        data-testid="button-add-loan-header"
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Loan
+                      </Button>
+                    </Link>
+                  )}
                 </div>
               </CardHeader>
               <CardContent>
@@ -825,37 +939,47 @@ export default function BankDetail() {
                                   </Button>
                                 </DropdownMenuTrigger>
                                 <DropdownMenuContent align="end" className="w-48">
-                                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setLocation(`/loans/${loan.id}/edit`); }} data-testid={`button-edit-loan-${loan.id}`}>
-                                    <Edit className="mr-2 h-4 w-4" />
-                                    Edit Details
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setSelectedLoan(loan); setPaymentDialogOpen(true); }} data-testid={`button-repay-loan-${loan.id}`}>
-                                    <Receipt className="mr-2 h-4 w-4" />
-                                    Make Payment
-                                  </DropdownMenuItem>
+                                  {can('loans') && (
+                                    <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setLocation(`/loans/${loan.id}/edit`); }} data-testid={`button-edit-loan-${loan.id}`}>
+                                      <Edit className="mr-2 h-4 w-4" />
+                                      Edit Details
+                                    </DropdownMenuItem>
+                                  )}
+                                  {can('payments') && (
+                                    <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setSelectedLoan(loan); setPaymentDialogOpen(true); }} data-testid={`button-repay-loan-${loan.id}`}>
+                                      <Receipt className="mr-2 h-4 w-4" />
+                                      Make Payment
+                                    </DropdownMenuItem>
+                                  )}
                                   <DropdownMenuSeparator />
-                                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setSelectedLoan(loan); setSettleDialogOpen(true); }} data-testid={`button-settle-loan-${loan.id}`}>
-                                    <CheckSquare className="mr-2 h-4 w-4" />
-                                    Settle Loan
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setLocation(`/loans/${loan.id}/revolve`); }} data-testid={`button-revolve-loan-${loan.id}`}>
-                                    <RotateCcw className="mr-2 h-4 w-4" />
-                                    Revolve Loan
-                                  </DropdownMenuItem>
+                                  {can('loans') && (
+                                    <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setSelectedLoan(loan); setSettleDialogOpen(true); }} data-testid={`button-settle-loan-${loan.id}`}>
+                                      <CheckSquare className="mr-2 h-4 w-4" />
+                                      Settle Loan
+                                    </DropdownMenuItem>
+                                  )}
+                                  {can('loans') && (
+                                    <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setLocation(`/loans/${loan.id}/revolve`); }} data-testid={`button-revolve-loan-${loan.id}`}>
+                                      <RotateCcw className="mr-2 h-4 w-4" />
+                                      Revolve Loan
+                                    </DropdownMenuItem>
+                                  )}
                                   <DropdownMenuSeparator />
                                   <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setSelectedLoan(loan); setLedgerDialogOpen(true); }} data-testid={`button-ledger-loan-${loan.id}`}>
                                     <History className="mr-2 h-4 w-4" />
                                     View Ledger
                                   </DropdownMenuItem>
                                   <DropdownMenuSeparator />
-                                  <DropdownMenuItem 
-                                    onClick={(e) => { e.stopPropagation(); setSelectedLoan(loan); setCancelDialogOpen(true); }} 
-                                    className="text-red-600 dark:text-red-400 focus:text-red-600 dark:focus:text-red-400"
-                                    data-testid={`button-cancel-loan-${loan.id}`}
-                                  >
-                                    <Trash2 className="mr-2 h-4 w-4" />
-                                    Cancel Loan
-                                  </DropdownMenuItem>
+                                  {can('loans') && (
+                                    <DropdownMenuItem 
+                                      onClick={(e) => { e.stopPropagation(); setSelectedLoan(loan); setCancelDialogOpen(true); }} 
+                                      className="text-red-600 dark:text-red-400 focus:text-red-600 dark:focus:text-red-400"
+                                      data-testid={`button-cancel-loan-${loan.id}`}
+                                    >
+                                      <Trash2 className="mr-2 h-4 w-4" />
+                                      Cancel Loan
+                                    </DropdownMenuItem>
+                                  )}
                                 </DropdownMenuContent>
                               </DropdownMenu>
                             </div>
@@ -885,6 +1009,16 @@ export default function BankDetail() {
               </CardContent>
             </Card>
 
+            {/* Margin Calls */}
+            <MarginCallsCard bankId={bankId!} />
+
+            <AgreementImportDialog
+              bankId={bankId!}
+              bankName={bank?.name ?? "this bank"}
+              open={agreementImportOpen}
+              onOpenChange={setAgreementImportOpen}
+            />
+
             {/* Collateral Assignments */}
             <Card className="border-0 shadow-lg bg-white/50 dark:bg-gray-800/50 backdrop-blur-sm">
               <CardHeader>
@@ -1111,6 +1245,45 @@ export default function BankDetail() {
               </CardContent>
             </Card>
 
+            {/* Statement Reconciliation */}
+            <Card className="border-0 shadow-lg bg-white/50 dark:bg-gray-800/50 backdrop-blur-sm" data-testid="card-reconciliation-status">
+              <CardHeader>
+                <CardTitle className="text-xl font-semibold flex items-center space-x-2">
+                  <FileCheck className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+                  <span>Reconciliation</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600 dark:text-gray-400">Status</span>
+                  {reconciliationStatus?.status === 'reconciled' ? (
+                    <Badge className="bg-emerald-100 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400">Reconciled</Badge>
+                  ) : reconciliationStatus?.status === 'unreconciled' ? (
+                    <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400">
+                      {reconciliationStatus.unmatched} unmatched
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">No statements</Badge>
+                  )}
+                </div>
+                {reconciliationStatus?.lastStatementDate && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600 dark:text-gray-400">Statements to</span>
+                    <span className="text-sm font-medium">{new Date(reconciliationStatus.lastStatementDate).toLocaleDateString()}</span>
+                  </div>
+                )}
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => setLocation(`/banks/${bankId}/reconciliation`)}
+                  data-testid="button-open-reconciliation"
+                >
+                  <FileCheck className="mr-2 h-4 w-4" />
+                  Import & Reconcile Statements
+                </Button>
+              </CardContent>
+            </Card>
+
             {/* Performance Metrics */}
             <Card className="border-0 shadow-lg bg-white/50 dark:bg-gray-800/50 backdrop-blur-sm">
               <CardHeader>
@@ -1199,6 +1372,22 @@ export default function BankDetail() {
         </div>
       </div>
 
+      {bank!.organizationId && (
+        <>
+          <BankFormDialog
+            open={bankFormOpen}
+            onOpenChange={setBankFormOpen}
+            bank={bank!}
+          />
+          <BankMergeDialog
+            open={mergeDialogOpen}
+            onOpenChange={setMergeDialogOpen}
+            bank={bank!}
+            onMerged={(result) => setLocation(`/banks/${result.targetBankId}`)}
+          />
+        </>
+      )}
+
       {/* Make Payment Dialog */}
       <PaymentDialog 
         open={paymentDialogOpen}
@@ -1272,6 +1461,7 @@ function PaymentDialog({ open, onOpenChange, loan, onSubmit, isPending }: any) {
       date: new Date().toISOString().split('T')[0],
       reference: "",
       memo: "",
+      prepayment: false,
     },
   });
 
@@ -1343,6 +1533,24 @@ function PaymentDialog({ open, onOpenChange, loan, onSubmit, isPending }: any) {
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="prepayment"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                      data-testid="checkbox-payment-prepayment"
+                    />
+                  </FormControl>
+                  <FormLabel className="text-sm font-normal">
+                    Prepayment - apply any excess to principal not yet due
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-payment-cancel">
                 Cancel
@@ -1441,11 +1649,13 @@ function SettleDialog({ open, onOpenChange, loan, onSubmit, isPending }: any) {
 
 // Revolve Loan Dialog Component
 function RevolveDialog({ open, onOpenChange, loan, onSubmit, isPending }: any) {
-  const { data: siborRate } = useQuery({
-    queryKey: ["/api/sibor-rate"],
-  });
+  const { data: siborRate } = useSiborFixing(loan?.siborTermMonths);
 
-  const [newSiborRate, setNewSiborRate] = useState((siborRate as any)?.rate?.toString() || "5.75");
+  // Empty: the server prices the new cycle at the fixing published for the revolve date
+  const [newSiborRate, setNewSiborRate] = useState("");
+  useEffect(() => {
+    if (siborRate) setNewSiborRate(current => current || siborRate.rate.toString());
+  }, [siborRate]);
 
   const form = useForm({
     resolver: zodResolver(revolveRequestSchema),
@@ -1544,7 +1754,7 @@ function RevolveDialog({ open, onOpenChange, loan, onSubmit, isPending }: any) {
         )}
         
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <form onSubmit={form.handleSubmit((data) => onSubmit({ ...data, siborRate: newSiborRate || undefined }))} className="space-y-4">
             <FormField
               control={form.control}
               name="newTerm"
@@ -1581,7 +1791,9 @@ function RevolveDialog({ open, onOpenChange, loan, onSubmit, isPending }: any) {
                 />
               </FormControl>
               <p className="text-xs text-gray-500">
-                Current market SIBOR: <span className="font-semibold">{(siborRate as any)?.rate || 0}%</span> - Adjust as needed for the new loan cycle
+                {siborRate
+                  ? <>Current market SIBOR: <span className="font-semibold">{siborRate.rate}%</span> - Adjust as needed for the new loan cycle</>
+                  : "No SIBOR fixing loaded - leave empty to use the fixing published for the revolve date"}
               </p>
             </FormItem>
             
@@ -0,0 +1,536 @@
+import { useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ArrowLeft, FileCheck, Link2, Plus, RotateCcw, Upload, Wand2, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { pendingApprovalOf, PENDING_APPROVAL_TOAST } from "@/lib/approvals";
+import type { Bank, BankStatement, BankStatementLine, StatementCsvLayout } from "@shared/schema";
+import type { BankReconciliationStatus, ReconciliationCandidate, StatementImportResult } from "@shared/types";
+
+interface ReconciliationWorkspace {
+  bank: Bank;
+  status: BankReconciliationStatus;
+  statements: BankStatement[];
+  lines: BankStatementLine[];
+  suggestions: Record<string, ReconciliationCandidate[]>;
+  candidates: ReconciliationCandidate[];
+}
+
+const DATE_FORMATS: StatementCsvLayout['dateFormat'][] = ['DD/MM/YYYY', 'YYYY-MM-DD', 'MM/DD/YYYY', 'DD-MM-YYYY', 'DD.MM.YYYY'];
+
+const formatAmount = (value: string | number) =>
+  Number(value).toLocaleString('en-SA', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const emptyLayout = {
+  delimiter: ",",
+  dateColumn: "",
+  dateFormat: "DD/MM/YYYY" as StatementCsvLayout['dateFormat'],
+  amountColumn: "",
+  debitColumn: "",
+  creditColumn: "",
+  referenceColumn: "",
+  descriptionColumn: "",
+};
+
+export default function BankReconciliationPage() {
+  const { bankId } = useParams<{ bankId: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [statusFilter, setStatusFilter] = useState("unmatched");
+  const [format, setFormat] = useState<"mt940" | "csv">("mt940");
+  const [file, setFile] = useState<File | null>(null);
+  const [layoutOpen, setLayoutOpen] = useState(false);
+  const [layout, setLayout] = useState(emptyLayout);
+  const [bookingLine, setBookingLine] = useState<BankStatementLine | null>(null);
+  const [bookingType, setBookingType] = useState<"repayment" | "fee">("repayment");
+  const [bookingTarget, setBookingTarget] = useState("");
+  const [bookingPrepayment, setBookingPrepayment] = useState(false);
+
+  const { data: workspace, isLoading } = useQuery<ReconciliationWorkspace>({
+    queryKey: ["/api/banks", bankId, "reconciliation", statusFilter],
+    queryFn: async () => {
+      const params = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const response = await fetch(`/api/banks/${bankId}/reconciliation${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to load reconciliation workspace');
+      return response.json();
+    },
+    enabled: !!bankId,
+  });
+
+  const { data: loans = [] } = useQuery<any[]>({ queryKey: ["/api/loans"] });
+  const { data: facilities = [] } = useQuery<any[]>({ queryKey: ["/api/facilities"] });
+  const bankLoans = loans.filter(loan => loan.facility?.bankId === bankId);
+  const bankFacilities = facilities.filter(facility => facility.bankId === bankId);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/banks", bankId, "reconciliation"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error("Choose a statement file first");
+      const response = await apiRequest("POST", `/api/banks/${bankId}/statements`, {
+        format,
+        content: await file.text(),
+        fileName: file.name,
+      });
+      return response.json() as Promise<StatementImportResult>;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      setFile(null);
+      toast({
+        title: "Statement imported",
+        description: `${result.lineCount} line(s), ${result.autoMatched} matched automatically, ${result.unmatched} to review`,
+      });
+    },
+    onError: onError("Failed to import statement"),
+  });
+
+  const autoMatchMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/banks/${bankId}/reconciliation/auto-match`);
+      return response.json() as Promise<{ matched: number }>;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({ title: "Auto-match complete", description: `${result.matched} line(s) matched` });
+    },
+    onError: onError("Auto-match failed"),
+  });
+
+  const layoutMutation = useMutation({
+    mutationFn: async (clear: boolean) => {
+      const payload = Object.fromEntries(Object.entries(layout).filter(([, value]) => value !== ""));
+      await apiRequest("PUT", `/api/banks/${bankId}/statement-layout`, { layout: clear ? null : payload });
+    },
+    onSuccess: () => {
+      invalidate();
+      setLayoutOpen(false);
+      toast({ title: "Statement layout saved" });
+    },
+    onError: onError("Failed to save statement layout"),
+  });
+
+  const lineMutation = useMutation({
+    mutationFn: async ({ lineId, action, body }: { lineId: string; action: string; body?: unknown }) => {
+      return pendingApprovalOf(await apiRequest("POST", `/api/statement-lines/${lineId}/${action}`, body ?? {}));
+    },
+    onSuccess: (pending) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+      }
+      invalidate();
+      setBookingLine(null);
+    },
+    onError: onError("Failed to update statement line"),
+  });
+
+  const openLayout = () => {
+    const saved = (workspace?.bank.statementCsvLayout ?? {}) as Partial<StatementCsvLayout>;
+    setLayout({ ...emptyLayout, ...Object.fromEntries(Object.entries(saved).filter(([, value]) => typeof value === "string")) });
+    setLayoutOpen(true);
+  };
+
+  const openBooking = (line: BankStatementLine) => {
+    setBookingLine(line);
+    setBookingType("repayment");
+    setBookingTarget("");
+    setBookingPrepayment(false);
+  };
+
+  const submitBooking = () => {
+    if (!bookingLine) return;
+    lineMutation.mutate({
+      lineId: bookingLine.id,
+      action: "create-transaction",
+      body: bookingType === "repayment"
+        ? { type: "repayment", loanId: bookingTarget, prepayment: bookingPrepayment }
+        : { type: "fee", facilityId: bookingTarget },
+    });
+  };
+
+  const compatibleCandidates = (line: BankStatementLine) =>
+    (workspace?.candidates ?? []).filter(candidate =>
+      (line.direction === "credit" ? candidate.type === "draw" : candidate.type !== "draw") &&
+      Math.abs(candidate.amount - parseFloat(line.amount)) < 0.005
+    );
+
+  const getStatusBadge = (line: BankStatementLine) => {
+    if (line.status === "matched") {
+      return <Badge className="bg-emerald-100 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400">Matched{line.matchMethod ? ` (${line.matchMethod})` : ""}</Badge>;
+    }
+    if (line.status === "ignored") {
+      return <Badge variant="outline">Ignored</Badge>;
+    }
+    return <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400">Unmatched</Badge>;
+  };
+
+  const status = workspace?.status;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => setLocation(`/banks/${bankId}`)} data-testid="button-back-to-bank">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Bank
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold" data-testid="text-page-title">Statement Reconciliation</h1>
+            <p className="text-muted-foreground">{workspace?.bank.name || "Bank"}</p>
+          </div>
+        </div>
+
+        {/* Status */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">Status</p>
+              <p className="text-xl font-semibold capitalize" data-testid="text-reconciliation-status">
+                {status ? status.status.replace("_", " ") : "-"}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">Matched</p>
+              <p className="text-xl font-semibold">{status?.matched ?? 0}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">Unmatched</p>
+              <p className="text-xl font-semibold">{status?.unmatched ?? 0}</p>
+              {!!status?.unmatchedAmount && (
+                <p className="text-xs text-muted-foreground">{formatAmount(status.unmatchedAmount)} SAR</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">Statements</p>
+              <p className="text-xl font-semibold">{status?.statementCount ?? 0}</p>
+              {status?.lastStatementDate && (
+                <p className="text-xs text-muted-foreground">to {new Date(status.lastStatementDate).toLocaleDateString()}</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Import */}
+        {can('payments') && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Upload className="h-5 w-5 text-primary" />
+                Import Statement
+              </CardTitle>
+              <CardDescription>
+                MT940 files, or CSV exports read with this bank's column layout (or detected from the header row)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as "mt940" | "csv")}>
+                  <SelectTrigger className="w-40" data-testid="select-statement-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mt940">MT940</SelectItem>
+                    <SelectItem value="csv">CSV</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="statement-file">File</Label>
+                <Input
+                  id="statement-file"
+                  type="file"
+                  accept=".sta,.mt940,.txt,.csv"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  data-testid="input-statement-file"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={() => importMutation.mutate()} disabled={!file || importMutation.isPending} data-testid="button-import-statement">
+                  {importMutation.isPending ? "Importing..." : "Import"}
+                </Button>
+                {format === "csv" && (
+                  <Button variant="outline" onClick={openLayout} data-testid="button-csv-layout">
+                    CSV Layout
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Workspace */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <FileCheck className="h-5 w-5 text-primary" />
+              Statement Lines
+            </CardTitle>
+            {can('payments') && (
+              <Button variant="outline" size="sm" onClick={() => autoMatchMutation.mutate()} disabled={autoMatchMutation.isPending} data-testid="button-auto-match">
+                <Wand2 className="mr-2 h-4 w-4" />
+                Auto-match
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Tabs value={statusFilter} onValueChange={setStatusFilter}>
+              <TabsList>
+                <TabsTrigger value="unmatched" data-testid="tab-unmatched">Unmatched</TabsTrigger>
+                <TabsTrigger value="matched" data-testid="tab-matched">Matched</TabsTrigger>
+                <TabsTrigger value="ignored" data-testid="tab-ignored">Ignored</TabsTrigger>
+                <TabsTrigger value="all" data-testid="tab-all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : !workspace || workspace.lines.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">No statement lines to show.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-4 font-medium">Value Date</th>
+                      <th className="py-2 pr-4 font-medium">Reference</th>
+                      <th className="py-2 pr-4 font-medium">Description</th>
+                      <th className="py-2 pr-4 font-medium text-right">Debit</th>
+                      <th className="py-2 pr-4 font-medium text-right">Credit</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 font-medium">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {workspace.lines.map((line) => {
+                      const suggestions = workspace.suggestions[line.id] ?? [];
+                      const others = compatibleCandidates(line).filter(candidate =>
+                        !suggestions.some(suggestion => suggestion.transactionId === candidate.transactionId)
+                      );
+                      return (
+                        <tr key={line.id} className="border-b last:border-0 align-top" data-testid={`row-statement-line-${line.id}`}>
+                          <td className="py-2 pr-4 whitespace-nowrap">{new Date(line.valueDate).toLocaleDateString()}</td>
+                          <td className="py-2 pr-4">{line.reference || line.bankReference || "-"}</td>
+                          <td className="py-2 pr-4 max-w-xs truncate" title={line.description ?? undefined}>{line.description || "-"}</td>
+                          <td className="py-2 pr-4 text-right">{line.direction === "debit" ? formatAmount(line.amount) : ""}</td>
+                          <td className="py-2 pr-4 text-right">{line.direction === "credit" ? formatAmount(line.amount) : ""}</td>
+                          <td className="py-2 pr-4">{getStatusBadge(line)}</td>
+                          <td className="py-2 space-y-2 min-w-[16rem]">
+                            {!can('payments') ? null : line.status === "unmatched" ? (
+                              <>
+                                {suggestions.map(candidate => (
+                                  <Button
+                                    key={candidate.transactionId}
+                                    variant="outline"
+                                    size="sm"
+                                    className="w-full justify-start"
+                                    onClick={() => lineMutation.mutate({ lineId: line.id, action: "match", body: { transactionId: candidate.transactionId } })}
+                                    data-testid={`button-link-${candidate.transactionId}`}
+                                  >
+                                    <Link2 className="mr-2 h-4 w-4" />
+                                    {candidate.type} {new Date(candidate.date).toLocaleDateString()}
+                                    {candidate.loanReference ? ` · ${candidate.loanReference}` : ""}
+                                  </Button>
+                                ))}
+                                {others.length > 0 && (
+                                  <Select onValueChange={(transactionId) => lineMutation.mutate({ lineId: line.id, action: "match", body: { transactionId } })}>
+                                    <SelectTrigger className="h-8" data-testid={`select-link-${line.id}`}>
+                                      <SelectValue placeholder="Link other entry..." />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {others.map(candidate => (
+                                        <SelectItem key={candidate.transactionId} value={candidate.transactionId}>
+                                          {candidate.type} {candidate.date}{candidate.loanReference ? ` · ${candidate.loanReference}` : ""}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                )}
+                                <div className="flex gap-2">
+                                  {line.direction === "debit" && (
+                                    <Button size="sm" variant="outline" onClick={() => openBooking(line)} data-testid={`button-book-${line.id}`}>
+                                      <Plus className="mr-1 h-4 w-4" />
+                                      Book
+                                    </Button>
+                                  )}
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => lineMutation.mutate({ lineId: line.id, action: "ignore" })}
+                                    data-testid={`button-ignore-${line.id}`}
+                                  >
+                                    <XCircle className="mr-1 h-4 w-4" />
+                                    Ignore
+                                  </Button>
+                                </div>
+                              </>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => lineMutation.mutate({ lineId: line.id, action: "reopen" })}
+                                data-testid={`button-reopen-${line.id}`}
+                              >
+                                <RotateCcw className="mr-1 h-4 w-4" />
+                                Reopen
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Book line as a new ledger entry */}
+      <Dialog open={!!bookingLine} onOpenChange={(open) => !open && setBookingLine(null)}>
+        <DialogContent className="max-w-md" data-testid="dialog-book-line">
+          <DialogHeader>
+            <DialogTitle>Book Statement Line</DialogTitle>
+            <DialogDescription>
+              {bookingLine && `${formatAmount(bookingLine.amount)} SAR debited on ${new Date(bookingLine.valueDate).toLocaleDateString()}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Book as</Label>
+              <Select value={bookingType} onValueChange={(value) => { setBookingType(value as "repayment" | "fee"); setBookingTarget(""); }}>
+                <SelectTrigger data-testid="select-booking-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="repayment">Loan repayment</SelectItem>
+                  <SelectItem value="fee">Facility fee</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{bookingType === "repayment" ? "Loan" : "Facility"}</Label>
+              <Select value={bookingTarget} onValueChange={setBookingTarget}>
+                <SelectTrigger data-testid="select-booking-target">
+                  <SelectValue placeholder={bookingType === "repayment" ? "Select loan" : "Select facility"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {bookingType === "repayment"
+                    ? bankLoans.map(loan => (
+                        <SelectItem key={loan.id} value={loan.id}>{loan.referenceNumber}</SelectItem>
+                      ))
+                    : bankFacilities.map(facility => (
+                        <SelectItem key={facility.id} value={facility.id}>
+                          {facility.facilityType.replace(/_/g, ' ')} · {formatAmount(facility.creditLimit)} SAR
+                        </SelectItem>
+                      ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {bookingType === "repayment" && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="booking-prepayment"
+                  checked={bookingPrepayment}
+                  onCheckedChange={(checked) => setBookingPrepayment(checked === true)}
+                />
+                <Label htmlFor="booking-prepayment" className="text-sm font-normal">
+                  Prepayment - apply any excess to principal not yet due
+                </Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBookingLine(null)}>Cancel</Button>
+            <Button onClick={submitBooking} disabled={!bookingTarget || lineMutation.isPending} data-testid="button-confirm-booking">
+              {lineMutation.isPending ? "Booking..." : "Book"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* CSV layout */}
+      <Dialog open={layoutOpen} onOpenChange={setLayoutOpen}>
+        <DialogContent className="max-w-lg" data-testid="dialog-csv-layout">
+          <DialogHeader>
+            <DialogTitle>CSV Statement Layout</DialogTitle>
+            <DialogDescription>
+              Header names of the columns in {workspace?.bank.name || "this bank"}'s CSV export ({workspace?.bank.code}).
+              Use either a signed amount column or separate debit and credit columns.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            {([
+              ["dateColumn", "Date column *"],
+              ["amountColumn", "Amount column"],
+              ["debitColumn", "Debit column"],
+              ["creditColumn", "Credit column"],
+              ["referenceColumn", "Reference column"],
+              ["descriptionColumn", "Description column"],
+              ["delimiter", "Delimiter"],
+            ] as const).map(([key, label]) => (
+              <div key={key} className="space-y-1">
+                <Label>{label}</Label>
+                <Input
+                  value={layout[key]}
+                  onChange={(e) => setLayout(current => ({ ...current, [key]: e.target.value }))}
+                  data-testid={`input-layout-${key}`}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label>Date format</Label>
+              <Select value={layout.dateFormat} onValueChange={(value) => setLayout(current => ({ ...current, dateFormat: value as StatementCsvLayout['dateFormat'] }))}>
+                <SelectTrigger data-testid="select-layout-date-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_FORMATS.map(dateFormat => (
+                    <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => layoutMutation.mutate(true)} disabled={layoutMutation.isPending}>
+              Use Header Detection
+            </Button>
+            <Button onClick={() => layoutMutation.mutate(false)} disabled={!layout.dateColumn || layoutMutation.isPending} data-testid="button-save-layout">
+              Save Layout
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -34,6 +35,7 @@ import { MobileHeader, FloatingActionButton, ActionSheet } from "@/components/mo
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { formatFacilityType } from "@/lib/formatters";
 import { PageContainer, PageHeader, Section } from "@/components/PageContainer";
+import { BankFormDialog } from "@/components/BankFormDialog";
 
 interface BankLoginCredentials {
   bankId: string;
@@ -44,6 +46,7 @@ interface BankLoginCredentials {
 
 export default function Banks() {
   const { isLoading, isAuthenticated } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
@@ -55,6 +58,7 @@ export default function Banks() {
   const [expandedBanks, setExpandedBanks] = useState<Set<string>>(new Set());
   const [actionSheetOpen, setActionSheetOpen] = useState(false);
   const [selectedBankForAction, setSelectedBankForAction] = useState<any>(null);
+  const [addBankOpen, setAddBankOpen] = useState(false);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -340,10 +344,12 @@ export default function Banks() {
         </Section>
 
         {/* Floating Action Button for Add Facility */}
-        <FloatingActionButton
-          onClick={() => setLocation("/facility/create-general")}
-          label="Add Facility"
-        />
+        {can('facilities') && (
+          <FloatingActionButton
+            onClick={() => setLocation("/facility/create-general")}
+            label="Add Facility"
+          />
+        )}
 
         {/* Action Sheet for Bank Actions */}
         <ActionSheet
@@ -391,7 +397,7 @@ export default function Banks() {
                 }
               },
             },
-          ]}
+          ].filter(action => can('facilities') || !["add-facility", "edit-bank"].includes(action.id))}
         />
       </PageContainer>
     );
@@ -433,14 +439,27 @@ export default function Banks() {
                 </Select>
               </div>
             )}
-            <Button 
-              onClick={() => setLocation("/facility/create-general")}
-              className="h-12 bg-gradient-to-r from-green-600 to-emerald-600 lg:hover:from-green-700 lg:hover:to-emerald-700 text-white shadow-lg w-full sm:w-auto"
-              data-testid="button-add-facility"
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Add Facility
-            </Button>
+            {can('facilities') && (
+              <Button
+                variant="outline"
+                onClick={() => setAddBankOpen(true)}
+                className="h-12 w-full sm:w-auto"
+                data-testid="button-add-bank"
+              >
+                <Building className="mr-2 h-4 w-4" />
+                Add Bank
+              </Button>
+            )}
+            {can('facilities') && (
+              <Button 
+                onClick={() => setLocation("/facility/create-general")}
+                className="h-12 bg-gradient-to-r from-green-600 to-emerald-600 lg:hover:from-green-700 lg:hover:to-emerald-700 text-white shadow-lg w-full sm:w-auto"
+                data-testid="button-add-facility"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Facility
+              </Button>
+            )}
           </div>
         }
       />
@@ -637,6 +656,12 @@ export default function Banks() {
           </Card>
         </div>
       </Section>
+
+      <BankFormDialog
+        open={addBankOpen}
+        onOpenChange={setAddBankOpen}
+        onSaved={(bank) => setLocation(`/banks/${bank.id}`)}
+      />
     </PageContainer>
   );
 }
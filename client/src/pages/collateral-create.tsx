@@ -49,6 +49,15 @@ const collateralFormSchema = z.object({
   currentValue: z.string().min(1, "Current value is required").refine((val) => !isNaN(Number(val)) && Number(val) > 0, "Value must be greater than 0"),
   valuationDate: z.string().min(1, "Valuation date is required"),
   valuationSource: z.string().optional(),
+  ticker: z.string().optional(),
+  shareCount: z.string().optional().refine(
+    (val) => !val || (Number.isInteger(Number(val)) && Number(val) > 0),
+    "Share count must be a whole number greater than 0"
+  ),
+  haircutPercent: z.string().optional().refine(
+    (val) => !val || (!isNaN(Number(val)) && Number(val) >= 0 && Number(val) < 100),
+    "Haircut must be at least 0% and below 100%"
+  ),
   notes: z.string().optional(),
   isActive: z.boolean().default(true),
   assignmentType: z.enum(["facility", "bank"]).default("facility"),
@@ -71,6 +80,13 @@ const collateralFormSchema = z.object({
     message: "Please select a facility or bank",
     path: ["facilityId"],
   }
+).refine(
+  // Listed shares are marked to market from the ticker's closing price, which needs the share count
+  (data) => data.type !== "liquid_stocks" || !data.ticker?.trim() || !!data.shareCount,
+  {
+    message: "Enter the number of shares pledged",
+    path: ["shareCount"],
+  }
 );
 
 type CollateralFormData = z.infer<typeof collateralFormSchema>;
@@ -97,6 +113,9 @@ export default function CollateralCreatePage() {
       currentValue: "",
       valuationDate: new Date().toISOString().split('T')[0],
       valuationSource: "",
+      ticker: "",
+      shareCount: "",
+      haircutPercent: "",
       notes: "",
       isActive: true,
       assignmentType: "facility",
@@ -122,6 +141,12 @@ export default function CollateralCreatePage() {
         pledgeType: data.pledgeType,
         desiredLtv: data.desiredLtv ? parseFloat(data.desiredLtv) : null,
       };
+
+      if (data.type === "liquid_stocks") {
+        payload.ticker = data.ticker?.trim().toUpperCase() || null;
+        payload.shareCount = data.shareCount ? parseInt(data.shareCount, 10) : null;
+        payload.haircutPercent = data.haircutPercent || null;
+      }
       
       // Add either facilityId or bankId based on assignment type
       if (data.assignmentType === "facility") {
@@ -478,6 +503,56 @@ export default function CollateralCreatePage() {
                       )}
                     />
 
+                    {/* Listed shares: ticker, share count and haircut */}
+                    {selectedType === "liquid_stocks" && (
+                      <div className="space-y-2">
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="ticker"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Tadawul Ticker</FormLabel>
+                                <FormControl>
+                                  <Input {...field} placeholder="e.g., 2222" maxLength={20} data-testid="input-ticker" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="shareCount"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Shares Pledged</FormLabel>
+                                <FormControl>
+                                  <Input {...field} type="number" step="1" min="1" placeholder="e.g., 100000" data-testid="input-share-count" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="haircutPercent"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Haircut (%)</FormLabel>
+                                <FormControl>
+                                  <Input {...field} type="number" step="0.01" min="0" max="99.99" placeholder="e.g., 30" data-testid="input-haircut" />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          With a ticker, the value follows the imported closing prices every day; the haircut is deducted to give the pledged value.
+                        </p>
+                      </div>
+                    )}
+
                     {/* Current Value and Valuation Date */}
                     <div className="grid grid-cols-2 gap-4">
                       <FormField
@@ -19,6 +19,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import DocumentUpload from "@/components/DocumentUpload";
 import DocumentList from "@/components/DocumentList";
 import { ModernDatePicker } from "@/components/ui/date-picker";
+import type { Collateral } from "@shared/schema";
 
 // Collateral types with descriptions and examples
 const collateralTypes = [
@@ -49,6 +50,15 @@ const collateralFormSchema = z.object({
   currentValue: z.string().min(1, "Current value is required").refine((val) => !isNaN(Number(val)) && Number(val) > 0, "Value must be greater than 0"),
   valuationDate: z.string().min(1, "Valuation date is required"),
   valuationSource: z.string().optional(),
+  ticker: z.string().optional(),
+  shareCount: z.string().optional().refine(
+    (val) => !val || (Number.isInteger(Number(val)) && Number(val) > 0),
+    "Share count must be a whole number greater than 0"
+  ),
+  haircutPercent: z.string().optional().refine(
+    (val) => !val || (!isNaN(Number(val)) && Number(val) >= 0 && Number(val) < 100),
+    "Haircut must be at least 0% and below 100%"
+  ),
   notes: z.string().optional(),
   isActive: z.boolean().default(true),
   assignmentType: z.enum(["facility", "bank"]).default("facility"),
@@ -74,6 +84,14 @@ const collateralFormSchema = z.object({
       path: ["bankId"],
     });
   }
+  // Listed shares are marked to market from the ticker's closing price, which needs the share count
+  if (data.type === "liquid_stocks" && data.ticker?.trim() && !data.shareCount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Enter the number of shares pledged",
+      path: ["shareCount"],
+    });
+  }
 });
 
 type CollateralFormData = z.infer<typeof collateralFormSchema>;
@@ -107,6 +125,9 @@ export default function CollateralEditPage() {
       currentValue: "",
       valuationDate: new Date().toISOString().split('T')[0],
       valuationSource: "",
+      ticker: "",
+      shareCount: "",
+      haircutPercent: "",
       notes: "",
       isActive: true,
       assignmentType: "facility",
@@ -120,6 +141,7 @@ export default function CollateralEditPage() {
   // Update form when collateral data loads
   useEffect(() => {
     if (collateral) {
+      const shares = collateral as Pick<Collateral, "ticker" | "shareCount" | "haircutPercent">;
       form.reset({
         type: collateral.type,
         name: collateral.name,
@@ -127,6 +149,9 @@ export default function CollateralEditPage() {
         currentValue: collateral.currentValue.toString(),
         valuationDate: collateral.valuationDate,
         valuationSource: collateral.valuationSource || "",
+        ticker: shares.ticker || "",
+        shareCount: shares.shareCount?.toString() || "",
+        haircutPercent: shares.haircutPercent || "",
         notes: collateral.notes || "",
         isActive: collateral.isActive,
         assignmentType: collateral.facilityId ? "facility" : "bank",
@@ -152,6 +177,11 @@ export default function CollateralEditPage() {
         pledgeType: data.pledgeType,
         desiredLtv: data.desiredLtv ? parseFloat(data.desiredLtv) : null,
       };
+
+      const isShares = data.type === "liquid_stocks";
+      payload.ticker = isShares ? data.ticker?.trim().toUpperCase() || null : null;
+      payload.shareCount = isShares && data.shareCount ? parseInt(data.shareCount, 10) : null;
+      payload.haircutPercent = isShares && data.haircutPercent ? data.haircutPercent : null;
       
       // Add either facilityId or bankId based on assignment type
       if (data.assignmentType === "facility") {
@@ -291,6 +321,56 @@ export default function CollateralEditPage() {
                     </div>
                   )}
 
+                  {/* Listed shares: ticker, share count and haircut */}
+                  {selectedType?.value === "liquid_stocks" && (
+                    <div className="space-y-2">
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="ticker"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Tadawul Ticker</FormLabel>
+                              <FormControl>
+                                <Input {...field} placeholder="e.g., 2222" maxLength={20} data-testid="input-ticker" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="shareCount"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Shares Pledged</FormLabel>
+                              <FormControl>
+                                <Input {...field} type="number" step="1" min="1" placeholder="e.g., 100000" data-testid="input-share-count" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="haircutPercent"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Haircut (%)</FormLabel>
+                              <FormControl>
+                                <Input {...field} type="number" step="0.01" min="0" max="99.99" placeholder="e.g., 30" data-testid="input-haircut" />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        With a ticker, the value follows the imported closing prices every day; the haircut is deducted to give the pledged value.
+                      </p>
+                    </div>
+                  )}
+
                   <Separator />
 
                   {/* Assignment Section */}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
@@ -7,18 +8,24 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { University, Plus, ArrowLeft, Building, TrendingUp, Shield, Edit, Trash2, FileText } from "lucide-react";
+import { University, Plus, ArrowLeft, Building, TrendingUp, Shield, Edit, Trash2, FileText, History, AlertTriangle, RefreshCw } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import DocumentList from "@/components/DocumentList";
+import LTVTrendChart from "@/components/charts/LTVTrendChart";
+import { CollateralValuationsDialog } from "@/components/CollateralValuationsDialog";
+import { CollateralRevaluationFrequenciesCard } from "@/components/CollateralRevaluationFrequenciesCard";
+import type { CollateralLtvTimeline, StaleCollateralValuation } from "@shared/types";
 import backgroundImage from "@assets/loan_management_background_excel_green_1759302449019.png";
 
 export default function CollateralPage() {
   const { isLoading, isAuthenticated } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
   const [selectedCollateralForDocs, setSelectedCollateralForDocs] = useState<{id: string; name: string} | null>(null);
+  const [selectedCollateralForValuations, setSelectedCollateralForValuations] = useState<{id: string; name: string} | null>(null);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -60,6 +67,42 @@ export default function CollateralPage() {
     enabled: isAuthenticated,
   });
 
+  const { data: ltvTimeline, isLoading: ltvTimelineLoading } = useQuery<CollateralLtvTimeline>({
+    queryKey: ["/api/collateral/ltv-timeline"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: revaluationsDue = [] } = useQuery<StaleCollateralValuation[]>({
+    queryKey: ["/api/collateral/revaluations-due"],
+    enabled: isAuthenticated,
+  });
+  const revaluationDueOf = (collateralId: string) => revaluationsDue.find(r => r.collateralId === collateralId);
+
+  // Revalues listed shares at the latest imported closing prices
+  const markToMarketMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/collateral/mark-to-market');
+      return response.json() as Promise<{ revalued: unknown[]; missingPrices: string[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collateral"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/collateral/ltv-timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/collateral/revaluations-due"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
+      toast({
+        title: `${result.revalued.length} share holding(s) revalued`,
+        description: result.missingPrices.length > 0 ? `No closing price imported for ${result.missingPrices.join(', ')}` : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to mark collateral to market",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
   const deleteCollateralMutation = useMutation({
     mutationFn: async (collateralId: string) => {
       return apiRequest('DELETE', `/api/collateral/${collateralId}`);
@@ -190,14 +233,29 @@ export default function CollateralPage() {
               <h1 className="text-xl font-bold text-foreground">Collateral Management</h1>
             </div>
             
-            <Button 
-              onClick={() => setLocation("/collateral/create")}
-              className="bg-gradient-to-r from-purple-600 to-pink-600 lg:hover:from-purple-700 lg:hover:to-pink-700 text-white shadow-lg"
-              data-testid="button-add-collateral"
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Add Collateral
-            </Button>
+            {can('collateral') && (
+              <div className="flex items-center space-x-2">
+                {collateral?.some((col: any) => col.ticker) && (
+                  <Button
+                    variant="outline"
+                    onClick={() => markToMarketMutation.mutate()}
+                    disabled={markToMarketMutation.isPending}
+                    data-testid="button-mark-to-market"
+                  >
+                    <RefreshCw className={`mr-2 h-4 w-4 ${markToMarketMutation.isPending ? 'animate-spin' : ''}`} />
+                    Mark to Market
+                  </Button>
+                )}
+                <Button 
+                  onClick={() => setLocation("/collateral/create")}
+                  className="bg-gradient-to-r from-purple-600 to-pink-600 lg:hover:from-purple-700 lg:hover:to-pink-700 text-white shadow-lg"
+                  data-testid="button-add-collateral"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Collateral
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </header>
@@ -261,6 +319,10 @@ export default function CollateralPage() {
           </Card>
         </div>
 
+        <div className="mb-6">
+          <LTVTrendChart timeline={ltvTimeline} isLoading={ltvTimelineLoading} />
+        </div>
+
         {/* Collateral Assets */}
         <Card>
           <CardHeader>
@@ -278,14 +340,16 @@ export default function CollateralPage() {
               <div className="text-center py-12">
                 <Shield className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-muted-foreground mb-4">No collateral assets found</p>
-                <Button 
-                  onClick={() => setLocation("/collateral/create")}
-                  className="bg-gradient-to-r from-purple-600 to-pink-600 lg:hover:from-purple-700 lg:hover:to-pink-700 text-white shadow-lg"
-                  data-testid="button-add-first-collateral"
-                >
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Your First Asset
-                </Button>
+                {can('collateral') && (
+                  <Button 
+                    onClick={() => setLocation("/collateral/create")}
+                    className="bg-gradient-to-r from-purple-600 to-pink-600 lg:hover:from-purple-700 lg:hover:to-pink-700 text-white shadow-lg"
+                    data-testid="button-add-first-collateral"
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Your First Asset
+                  </Button>
+                )}
               </div>
             ) : (
               <div className="grid gap-6">
@@ -340,6 +404,12 @@ export default function CollateralPage() {
                           <div>
                             <p className="text-sm text-muted-foreground">Valuation Date</p>
                             <p className="font-medium">{new Date(asset.valuationDate).toLocaleDateString()}</p>
+                            {revaluationDueOf(asset.id) && (
+                              <Badge variant="destructive" className="mt-1" data-testid={`badge-revaluation-due-${asset.id}`}>
+                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                Revaluation due since {new Date(revaluationDueOf(asset.id)!.nextRevaluationDate).toLocaleDateString()}
+                              </Badge>
+                            )}
                           </div>
                           <div>
                             <p className="text-sm text-muted-foreground">Valuation Source</p>
@@ -347,6 +417,25 @@ export default function CollateralPage() {
                           </div>
                         </div>
 
+                        {asset.ticker && (
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4" data-testid={`shares-${asset.id}`}>
+                            <div>
+                              <p className="text-sm text-muted-foreground">Holding</p>
+                              <p className="font-medium">{asset.shareCount ? asset.shareCount.toLocaleString() : '-'} shares of {asset.ticker}</p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-muted-foreground">Haircut</p>
+                              <p className="font-medium">{asset.haircutPercent ? `${parseFloat(asset.haircutPercent)}%` : 'None'}</p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-muted-foreground">Pledged Value</p>
+                              <p className="font-medium">
+                                {(parseFloat(asset.currentValue) * (1 - parseFloat(asset.haircutPercent ?? '0') / 100)).toLocaleString(undefined, { maximumFractionDigits: 2 })} SAR
+                              </p>
+                            </div>
+                          </div>
+                        )}
+
                         {(() => {
                           const assignmentInfo = getAssignmentInfo(asset.id);
                           if (!assignmentInfo) return null;
@@ -382,25 +471,29 @@ export default function CollateralPage() {
 
                         <div className="flex items-center justify-between">
                           <div className="flex space-x-2">
-                            <Button 
-                              variant="outline" 
-                              size="sm"
-                              onClick={() => handleEdit(asset)}
-                              data-testid={`button-edit-collateral-${asset.id}`}
-                            >
-                              <Edit className="mr-2 h-4 w-4" />
-                              Edit
-                            </Button>
-                            <Button 
-                              variant="outline" 
-                              size="sm"
-                              onClick={() => handleDeleteCollateral(asset.id)}
-                              disabled={deleteCollateralMutation.isPending}
-                              data-testid={`button-delete-collateral-${asset.id}`}
-                            >
-                              <Trash2 className="mr-2 h-4 w-4" />
-                              {deleteCollateralMutation.isPending ? "Deleting..." : "Delete"}
-                            </Button>
+                            {can('collateral') && (
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => handleEdit(asset)}
+                                data-testid={`button-edit-collateral-${asset.id}`}
+                              >
+                                <Edit className="mr-2 h-4 w-4" />
+                                Edit
+                              </Button>
+                            )}
+                            {can('collateral') && (
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                onClick={() => handleDeleteCollateral(asset.id)}
+                                disabled={deleteCollateralMutation.isPending}
+                                data-testid={`button-delete-collateral-${asset.id}`}
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                {deleteCollateralMutation.isPending ? "Deleting..." : "Delete"}
+                              </Button>
+                            )}
                             <Button 
                               variant="outline" 
                               size="sm" 
@@ -410,6 +503,15 @@ export default function CollateralPage() {
                               <FileText className="mr-2 h-4 w-4" />
                               Documents
                             </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              onClick={() => setSelectedCollateralForValuations({ id: asset.id, name: asset.name })}
+                              data-testid={`button-collateral-valuations-${asset.id}`}
+                            >
+                              <History className="mr-2 h-4 w-4" />
+                              Valuations
+                            </Button>
                           </div>
                           <Badge 
                             variant={asset.isActive ? "default" : "secondary"}
@@ -426,8 +528,17 @@ export default function CollateralPage() {
             )}
           </CardContent>
         </Card>
+
+        <div className="mt-6">
+          <CollateralRevaluationFrequenciesCard />
+        </div>
       </div>
 
+      <CollateralValuationsDialog
+        collateral={selectedCollateralForValuations}
+        onOpenChange={(open) => !open && setSelectedCollateralForValuations(null)}
+      />
+
       {/* Documents Dialog */}
       <Dialog open={!!selectedCollateralForDocs} onOpenChange={(open) => !open && setSelectedCollateralForDocs(null)}>
         <DialogContent className="max-w-5xl max-h-[80vh] overflow-y-auto">
@@ -246,9 +246,11 @@ export default function Dashboard() {
                     <div className="flex-1">
                       <p className="text-sm text-white/80 mb-1">Total Outstanding</p>
                       <p className="text-3xl font-bold text-white" data-testid="text-total-outstanding">
-                        {portfolioSummary ? `${(portfolioSummary.totalOutstanding / 1000000).toFixed(1)}M` : '0.0M'}
+                        {portfolioSummary ? `${(portfolioSummary.totalUtilized / 1000000).toFixed(1)}M` : '0.0M'}
+                      </p>
+                      <p className="text-xs text-white/70 mt-1" data-testid="text-net-exposure">
+                        SAR · loans and guarantees, {portfolioSummary ? `${(portfolioSummary.totalNetExposure / 1000000).toFixed(1)}M` : '0.0M'} net exposure
                       </p>
-                      <p className="text-xs text-white/70 mt-1">SAR</p>
                       <div className="flex items-center gap-1 mt-2 text-white/90">
                         <ArrowUp className="h-3 w-3" />
                         <span className="text-xs">+2.4% from last month</span>
@@ -274,7 +276,7 @@ export default function Dashboard() {
                       </p>
                       <p className="text-xs text-white/70 mt-1">SAR</p>
                       <p className="text-xs text-white/90 mt-2">
-                        {portfolioSummary ? `${((portfolioSummary.totalOutstanding / portfolioSummary.totalCreditLimit) * 100).toFixed(0)}% utilization` : '0% utilization'}
+                        {portfolioSummary ? `${((portfolioSummary.totalUtilized / portfolioSummary.totalCreditLimit) * 100).toFixed(0)}% utilization` : '0% utilization'}
                       </p>
                     </div>
                     <div className="h-12 w-12 rounded-full bg-white/20 flex items-center justify-center">
@@ -468,15 +470,15 @@ export default function Dashboard() {
                           </div>
                           <div className="grid grid-cols-2 gap-2 text-sm">
                             <div>
-                              <p className="text-xs text-muted-foreground">Outstanding</p>
+                              <p className="text-xs text-muted-foreground">Utilized</p>
                               <p className="font-semibold" data-testid={`text-bank-outstanding-${exposure.bankId}`}>
-                                {(exposure.outstanding / 1000000).toFixed(1)}M SAR
+                                {(exposure.utilized / 1000000).toFixed(1)}M SAR
                               </p>
                             </div>
                             <div>
                               <p className="text-xs text-muted-foreground">Available</p>
                               <p className="font-semibold text-emerald-600" data-testid={`text-bank-available-${exposure.bankId}`}>
-                                {((exposure.creditLimit - exposure.outstanding) / 1000000).toFixed(1)}M SAR
+                                {((exposure.creditLimit - exposure.utilized) / 1000000).toFixed(1)}M SAR
                               </p>
                             </div>
                           </div>
@@ -662,12 +664,17 @@ export default function Dashboard() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 lg:gap-6 mb-6 sm:mb-8">
           <StatisticCard
             title="Total Outstanding"
-            value={portfolioSummary ? `${(portfolioSummary.totalOutstanding / 1000000).toFixed(1)}M` : '0.0M'}
+            value={portfolioSummary ? `${(portfolioSummary.totalUtilized / 1000000).toFixed(1)}M` : '0.0M'}
             suffix="SAR"
             metaInfo={
-              <div className="flex items-center space-x-1">
-                <ArrowUp className="h-3 w-3" />
-                <span>+2.4% from last month</span>
+              <div className="space-y-1">
+                <div className="flex items-center space-x-1">
+                  <ArrowUp className="h-3 w-3" />
+                  <span>+2.4% from last month</span>
+                </div>
+                <div data-testid="text-net-exposure">
+                  Loans and guarantees, {portfolioSummary ? `${(portfolioSummary.totalNetExposure / 1000000).toFixed(1)}M` : '0.0M'} net exposure
+                </div>
               </div>
             }
             icon={BarChart3}
@@ -678,7 +685,7 @@ export default function Dashboard() {
             title="Available Credit"
             value={portfolioSummary ? `${(portfolioSummary.availableCredit / 1000000).toFixed(1)}M` : '0.0M'}
             suffix="SAR"
-            metaInfo={portfolioSummary ? `${((portfolioSummary.totalOutstanding / portfolioSummary.totalCreditLimit) * 100).toFixed(0)}% utilization` : '0% utilization'}
+            metaInfo={portfolioSummary ? `${((portfolioSummary.totalUtilized / portfolioSummary.totalCreditLimit) * 100).toFixed(0)}% utilization` : '0% utilization'}
             icon={Wallet}
             testId="text-available-credit"
           />
@@ -937,7 +944,7 @@ export default function Dashboard() {
                 <thead>
                   <tr className="border-b border-gray-200 dark:border-gray-700">
                     <th className="text-left py-4 px-6 font-semibold text-foreground">Bank Name</th>
-                    <th className="text-right py-4 px-6 font-semibold text-foreground">Outstanding</th>
+                    <th className="text-right py-4 px-6 font-semibold text-foreground">Utilized</th>
                     <th className="text-right py-4 px-6 font-semibold text-foreground">Credit Limit</th>
                     <th className="text-right py-4 px-6 font-semibold text-foreground">Available</th>
                     <th className="text-right py-4 px-6 font-semibold text-foreground">Utilization</th>
@@ -954,7 +961,7 @@ export default function Dashboard() {
                         onKeyDown={(e) => handleBankRowKeyDown(e, exposure.bankId, exposure.bankName)}
                         tabIndex={0}
                         role="button"
-                        aria-label={`View details for ${exposure.bankName}. Outstanding: ${(exposure.outstanding / 1000000).toFixed(1)}M SAR. Utilization: ${exposure.utilization.toFixed(0)}%`}
+                        aria-label={`View details for ${exposure.bankName}. Utilized: ${(exposure.utilized / 1000000).toFixed(1)}M SAR. Utilization: ${exposure.utilization.toFixed(0)}%`}
                         title={`Click to view ${exposure.bankName} details`}
                       >
                       <td className="py-4 px-6">
@@ -970,7 +977,7 @@ export default function Dashboard() {
                       <td className="py-4 px-6 text-right">
                         <div>
                           <p className="font-bold text-gray-900 dark:text-gray-100" data-testid={`text-bank-outstanding-${exposure.bankId}`}>
-                            {(exposure.outstanding / 1000000).toFixed(1)}M
+                            {(exposure.utilized / 1000000).toFixed(1)}M
                           </p>
                           <p className="text-sm text-gray-500 dark:text-gray-400">SAR</p>
                         </div>
@@ -986,7 +993,7 @@ export default function Dashboard() {
                       <td className="py-4 px-6 text-right">
                         <div>
                           <p className="font-medium text-emerald-600 dark:text-emerald-400" data-testid={`text-bank-available-${exposure.bankId}`}>
-                            {((exposure.creditLimit - exposure.outstanding) / 1000000).toFixed(1)}M
+                            {((exposure.creditLimit - exposure.utilized) / 1000000).toFixed(1)}M
                           </p>
                           <p className="text-sm text-gray-500 dark:text-gray-400">Available</p>
                         </div>
@@ -31,6 +31,16 @@ const facilityTypes = [
   { value: "non_cash_guarantee", label: "Non-Cash Guarantee", description: "Issue bank guarantees without underlying loans" },
 ];
 
+// Repayment allocation orders offered for a facility; "default" stores null and uses the server default
+const paymentWaterfalls = [
+  { value: "default", label: "Fees → Overdue Interest → Current Interest → Principal", order: null },
+  { value: "interest_first", label: "Overdue Interest → Current Interest → Fees → Principal", order: ["overdue_interest", "current_interest", "fees", "principal"] },
+  { value: "principal_last_fees", label: "Overdue Interest → Current Interest → Principal → Fees", order: ["overdue_interest", "current_interest", "principal", "fees"] },
+];
+
+const waterfallPreset = (order: unknown) =>
+  paymentWaterfalls.find((preset) => JSON.stringify(preset.order) === JSON.stringify(order ?? null))?.value ?? "default";
+
 const facilityFormSchema = z.object({
   facilityType: z.enum(["revolving", "term", "bullet", "bridge", "working_capital", "non_cash_guarantee"]),
   creditLimit: z.string().min(1, "Credit limit is required"),
@@ -39,6 +49,7 @@ const facilityFormSchema = z.object({
   expiryDate: z.string().min(1, "Expiry date is required"),
   terms: z.string().optional(),
   isActive: z.boolean().default(true),
+  paymentWaterfall: z.string().default("default"),
 }).superRefine((data, ctx) => {
   // Allow 0 cost of funding for non-cash guarantee facilities
   if (data.facilityType !== "non_cash_guarantee" && parseFloat(data.costOfFunding) <= 0) {
@@ -79,6 +90,7 @@ export default function FacilityEditPage() {
       expiryDate: "",
       terms: "",
       isActive: true,
+      paymentWaterfall: "default",
     },
   });
 
@@ -93,13 +105,18 @@ export default function FacilityEditPage() {
         expiryDate: (facility as any).expiryDate || "",
         terms: (facility as any).terms || "",
         isActive: (facility as any).isActive !== false,
+        paymentWaterfall: waterfallPreset((facility as any).paymentWaterfall),
       });
     }
   }, [facility, form]);
 
   const updateFacilityMutation = useMutation({
     mutationFn: async (data: FacilityFormData) => {
-      return apiRequest('PUT', `/api/facilities/${facilityId}`, data);
+      const { paymentWaterfall, ...rest } = data;
+      return apiRequest('PUT', `/api/facilities/${facilityId}`, {
+        ...rest,
+        paymentWaterfall: paymentWaterfalls.find((preset) => preset.value === paymentWaterfall)?.order ?? null,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/facilities"] });
@@ -339,6 +356,35 @@ export default function FacilityEditPage() {
                       )}
                     />
 
+                    {/* Payment Waterfall */}
+                    <FormField
+                      control={form.control}
+                      name="paymentWaterfall"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Payment Allocation Order</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-payment-waterfall" className="h-12">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {paymentWaterfalls.map((preset) => (
+                                <SelectItem key={preset.value} value={preset.value}>
+                                  {preset.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-sm text-muted-foreground">
+                            Order in which repayments on this facility's loans are applied
+                          </p>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     {/* Terms */}
                     <FormField
                       control={form.control}
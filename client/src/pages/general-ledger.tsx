@@ -0,0 +1,451 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, ArrowLeft, BookOpen, Download, Eye, Plus, Trash2, Undo2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ModernDatePicker } from "@/components/ui/date-picker";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AccountingPeriodsCard } from "@/components/AccountingPeriodsCard";
+import type { Bank, GlAccountMapping, GlEntryType, GlExport } from "@shared/schema";
+import type { GlJournalBatch } from "@shared/types";
+
+const ENTRY_TYPES: { value: GlEntryType; label: string }[] = [
+  { value: "draw", label: "Drawdown" },
+  { value: "interest_accrual", label: "Interest accrual" },
+  { value: "fee", label: "Fee charged" },
+  { value: "repayment_principal", label: "Repayment - principal" },
+  { value: "repayment_interest", label: "Repayment - interest" },
+  { value: "repayment_fees", label: "Repayment - fees" },
+  { value: "write_off", label: "Write-off" },
+];
+
+const FACILITY_TYPES = ["revolving", "term", "bullet", "bridge", "working_capital", "non_cash_guarantee"];
+
+const ANY = "any";
+
+const entryTypeLabel = (value: string) => ENTRY_TYPES.find(t => t.value === value)?.label || value;
+
+const formatAmount = (value: string | number) =>
+  Number(value).toLocaleString("en-SA", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const emptyMapping = {
+  entryType: "draw" as GlEntryType,
+  bankId: ANY,
+  facilityType: ANY,
+  debitAccount: "",
+  creditAccount: "",
+  description: "",
+};
+
+export default function GeneralLedgerPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const today = new Date();
+  const [from, setFrom] = useState(new Date(today.getFullYear(), today.getMonth() - 1, 1).toLocaleDateString("en-CA"));
+  const [to, setTo] = useState(new Date(today.getFullYear(), today.getMonth(), 0).toLocaleDateString("en-CA"));
+  const [format, setFormat] = useState<"csv" | "json">("csv");
+  const [markExported, setMarkExported] = useState(false);
+  const [includeExported, setIncludeExported] = useState(false);
+  const [preview, setPreview] = useState<GlJournalBatch | null>(null);
+  const [mapping, setMapping] = useState(emptyMapping);
+
+  const { data: mappings = [] } = useQuery<GlAccountMapping[]>({ queryKey: ["/api/gl/account-mappings"] });
+  const { data: exports = [] } = useQuery<GlExport[]>({ queryKey: ["/api/gl/exports"] });
+  const { data: banks = [] } = useQuery<Bank[]>({ queryKey: ["/api/banks"] });
+
+  const bankName = (bankId: string | null) => bankId ? banks.find(b => b.id === bankId)?.name || "Unknown bank" : "Any bank";
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMappingMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/gl/account-mappings", {
+        entryType: mapping.entryType,
+        bankId: mapping.bankId === ANY ? null : mapping.bankId,
+        facilityType: mapping.facilityType === ANY ? null : mapping.facilityType,
+        debitAccount: mapping.debitAccount,
+        creditAccount: mapping.creditAccount,
+        description: mapping.description || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/account-mappings"] });
+      setMapping(emptyMapping);
+      setPreview(null);
+      toast({ title: "Account mapping saved" });
+    },
+    onError: onError("Failed to save account mapping"),
+  });
+
+  const deleteMappingMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/gl/account-mappings/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/account-mappings"] });
+      setPreview(null);
+    },
+    onError: onError("Failed to delete account mapping"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ from, to, includeExported: String(includeExported) });
+      const response = await apiRequest("GET", `/api/gl/journals?${params}`);
+      return response.json() as Promise<GlJournalBatch>;
+    },
+    onSuccess: setPreview,
+    onError: onError("Failed to generate journals"),
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/gl/exports", { from, to, format, markExported, includeExported });
+      const match = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/);
+      const filename = match ? match[1] : `journals-${from}-to-${to}.${format}`;
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/exports"] });
+      setPreview(null);
+      toast({
+        title: "Journals exported",
+        description: markExported ? "The period has been marked as exported" : "Download started",
+      });
+    },
+    onError: onError("Failed to export journals"),
+  });
+
+  const undoExportMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/gl/exports/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gl/exports"] });
+      setPreview(null);
+      toast({ title: "Export undone", description: "Its transactions will be included in the next export" });
+    },
+    onError: onError("Failed to undo export"),
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
+      <div className="flex-1 space-y-6 p-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => setLocation("/reports")} data-testid="button-back-to-reports">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Reports
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">General Ledger Export</h1>
+            <p className="text-muted-foreground">
+              Double-entry journals for drawdowns, repayments, interest and fees, ready for your ERP
+            </p>
+          </div>
+        </div>
+
+        {/* Export */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="w-5 h-5" />
+              Export Journals
+            </CardTitle>
+            <CardDescription>
+              Mark an export as posted to leave its transactions out of later exports
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <ModernDatePicker value={from} onChange={setFrom} placeholder="Start date" dataTestId="input-gl-from" />
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <ModernDatePicker value={to} onChange={setTo} placeholder="End date" dataTestId="input-gl-to" />
+              </div>
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as "csv" | "json")}>
+                  <SelectTrigger data-testid="select-gl-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="csv">CSV (one row per journal line)</SelectItem>
+                    <SelectItem value="json">Journal JSON</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-3 md:flex-row md:items-center md:gap-6">
+              {can('reports') && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="gl-mark-exported"
+                    checked={markExported}
+                    onCheckedChange={(checked) => { setMarkExported(checked === true); if (checked) setIncludeExported(false); }}
+                    data-testid="checkbox-gl-mark-exported"
+                  />
+                  <Label htmlFor="gl-mark-exported" className="text-sm font-normal">Mark as exported</Label>
+                </div>
+              )}
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="gl-include-exported"
+                  checked={includeExported}
+                  disabled={markExported}
+                  onCheckedChange={(checked) => setIncludeExported(checked === true)}
+                  data-testid="checkbox-gl-include-exported"
+                />
+                <Label htmlFor="gl-include-exported" className="text-sm font-normal">Include already exported transactions</Label>
+              </div>
+            </div>
+
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={!from || !to || previewMutation.isPending} data-testid="button-gl-preview">
+                <Eye className="w-4 h-4 mr-2" />
+                Preview
+              </Button>
+              <Button onClick={() => exportMutation.mutate()} disabled={!from || !to || exportMutation.isPending} data-testid="button-gl-export">
+                <Download className="w-4 h-4 mr-2" />
+                {exportMutation.isPending ? "Exporting..." : "Export"}
+              </Button>
+            </div>
+
+            {preview && (
+              <div className="space-y-3 pt-3 border-t">
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <span><span className="text-muted-foreground">Journals:</span> {preview.journals.length}</span>
+                  <span><span className="text-muted-foreground">Total debit:</span> {formatAmount(preview.totalDebit)} SAR</span>
+                  <span><span className="text-muted-foreground">Total credit:</span> {formatAmount(preview.totalCredit)} SAR</span>
+                </div>
+                {preview.unmapped.length > 0 && (
+                  <div className="rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-900/20 p-3 text-sm">
+                    <div className="flex items-center gap-2 font-medium text-amber-800 dark:text-amber-400">
+                      <AlertTriangle className="h-4 w-4" />
+                      {preview.unmapped.length} posting(s) have no account mapping and are left out
+                    </div>
+                    <ul className="mt-2 space-y-0.5 text-amber-800 dark:text-amber-400">
+                      {Array.from(new Set(preview.unmapped.map(u => `${entryTypeLabel(u.entryType)} · ${u.bankName}${u.facilityType ? ` · ${u.facilityType}` : ""}`))).map(item => (
+                        <li key={item}>• {item}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {preview.journals.length > 0 && (
+                  <div className="overflow-x-auto max-h-96">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="py-2 pr-4 font-medium">Journal</th>
+                          <th className="py-2 pr-4 font-medium">Date</th>
+                          <th className="py-2 pr-4 font-medium">Account</th>
+                          <th className="py-2 pr-4 font-medium text-right">Debit</th>
+                          <th className="py-2 pr-4 font-medium text-right">Credit</th>
+                          <th className="py-2 font-medium">Description</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.journals.flatMap(journal => journal.lines.map(line => (
+                          <tr key={`${journal.journalId}-${line.lineNumber}`} className="border-b last:border-0">
+                            <td className="py-1 pr-4 font-mono text-xs">{line.lineNumber === 1 ? journal.journalId : ""}</td>
+                            <td className="py-1 pr-4">{line.lineNumber === 1 ? journal.date : ""}</td>
+                            <td className="py-1 pr-4 font-mono">{line.account}</td>
+                            <td className="py-1 pr-4 text-right">{line.debit ? formatAmount(line.debit) : ""}</td>
+                            <td className="py-1 pr-4 text-right">{line.credit ? formatAmount(line.credit) : ""}</td>
+                            <td className="py-1">{line.description}{journal.loanReference ? ` · ${journal.loanReference}` : ""}</td>
+                          </tr>
+                        )))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Chart of accounts mapping */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Account Mapping</CardTitle>
+            <CardDescription>
+              Debit and credit accounts per posting type. Leave bank or facility type as "Any" for a default;
+              the most specific mapping is used.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 md:grid-cols-7 md:items-end">
+              <div className="space-y-1 md:col-span-2">
+                <Label>Posting type</Label>
+                <Select value={mapping.entryType} onValueChange={(value) => setMapping(m => ({ ...m, entryType: value as GlEntryType }))}>
+                  <SelectTrigger data-testid="select-mapping-entry-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ENTRY_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Bank</Label>
+                <Select value={mapping.bankId} onValueChange={(value) => setMapping(m => ({ ...m, bankId: value }))}>
+                  <SelectTrigger data-testid="select-mapping-bank">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any bank</SelectItem>
+                    {banks.map(bank => (
+                      <SelectItem key={bank.id} value={bank.id}>{bank.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Facility type</Label>
+                <Select value={mapping.facilityType} onValueChange={(value) => setMapping(m => ({ ...m, facilityType: value }))}>
+                  <SelectTrigger data-testid="select-mapping-facility-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any type</SelectItem>
+                    {FACILITY_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type.replace(/_/g, " ")}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Debit account</Label>
+                <Input value={mapping.debitAccount} onChange={(e) => setMapping(m => ({ ...m, debitAccount: e.target.value }))} data-testid="input-mapping-debit" />
+              </div>
+              <div className="space-y-1">
+                <Label>Credit account</Label>
+                <Input value={mapping.creditAccount} onChange={(e) => setMapping(m => ({ ...m, creditAccount: e.target.value }))} data-testid="input-mapping-credit" />
+              </div>
+              {can('reports') && (
+                <Button
+                  onClick={() => saveMappingMutation.mutate()}
+                  disabled={!mapping.debitAccount || !mapping.creditAccount || saveMappingMutation.isPending}
+                  data-testid="button-save-mapping"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Save
+                </Button>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label>Line description (optional)</Label>
+              <Input
+                value={mapping.description}
+                onChange={(e) => setMapping(m => ({ ...m, description: e.target.value }))}
+                placeholder="e.g. Murabaha drawdown"
+                data-testid="input-mapping-description"
+              />
+            </div>
+
+            {mappings.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No account mappings yet - journals cannot be exported until each posting type is mapped.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-4 font-medium">Posting type</th>
+                      <th className="py-2 pr-4 font-medium">Bank</th>
+                      <th className="py-2 pr-4 font-medium">Facility type</th>
+                      <th className="py-2 pr-4 font-medium">Debit</th>
+                      <th className="py-2 pr-4 font-medium">Credit</th>
+                      <th className="py-2 pr-4 font-medium">Description</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {mappings.map(m => (
+                      <tr key={m.id} className="border-b last:border-0" data-testid={`row-mapping-${m.id}`}>
+                        <td className="py-2 pr-4">{entryTypeLabel(m.entryType)}</td>
+                        <td className="py-2 pr-4">{bankName(m.bankId)}</td>
+                        <td className="py-2 pr-4">{m.facilityType ? m.facilityType.replace(/_/g, " ") : "Any type"}</td>
+                        <td className="py-2 pr-4 font-mono">{m.debitAccount}</td>
+                        <td className="py-2 pr-4 font-mono">{m.creditAccount}</td>
+                        <td className="py-2 pr-4">{m.description || "-"}</td>
+                        <td className="py-2 text-right">
+                          {can('reports') && (
+                            <Button variant="ghost" size="sm" onClick={() => deleteMappingMutation.mutate(m.id)} data-testid={`button-delete-mapping-${m.id}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <AccountingPeriodsCard />
+
+        {/* Export history */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Exported Periods</CardTitle>
+            <CardDescription>Undo an export if the ERP rejected the file, so it can be exported again</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {exports.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No periods have been marked as exported.</p>
+            ) : (
+              <div className="space-y-2">
+                {exports.map(e => (
+                  <div key={e.id} className="flex items-center justify-between rounded-md border p-3" data-testid={`row-gl-export-${e.id}`}>
+                    <div className="text-sm">
+                      <div className="font-medium">{e.periodStart} to {e.periodEnd}</div>
+                      <div className="text-muted-foreground">
+                        {e.journalCount} journal(s) · {formatAmount(e.totalDebit)} SAR · exported {e.createdAt ? new Date(e.createdAt).toLocaleString() : ""}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="uppercase">{e.format}</Badge>
+                      {can('reports') && (
+                        <Button variant="ghost" size="sm" onClick={() => undoExportMutation.mutate(e.id)} data-testid={`button-undo-export-${e.id}`}>
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Undo
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -49,6 +49,7 @@ const guaranteeFormSchema = z.object({
   issueDate: z.string().min(1, "Issue date is required"),
   expiryDate: z.string().min(1, "Expiry date is required"),
   feeRate: z.string().optional(),
+  commissionBasis: z.enum(["quarterly_advance", "pro_rata"]).default("quarterly_advance"),
   purpose: z.string().optional(),
   terms: z.string().optional(),
   status: z.enum(["active", "expired", "renewed", "called"]).default("active"),
@@ -77,6 +78,7 @@ export default function GuaranteeCreatePage() {
     resolver: zodResolver(guaranteeFormSchema),
     defaultValues: {
       status: "active",
+      commissionBasis: "quarterly_advance",
     },
   });
 
@@ -385,6 +387,28 @@ export default function GuaranteeCreatePage() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="commissionBasis"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Commission Charged</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-commission-basis">
+                            <SelectValue placeholder="Select commission basis" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="quarterly_advance">Quarterly in advance</SelectItem>
+                          <SelectItem value="pro_rata">Pro-rata, at the end of each quarter</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </CardContent>
             </Card>
 
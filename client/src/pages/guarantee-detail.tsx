@@ -8,6 +8,8 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { GuaranteeActionDialog, type GuaranteeDialogAction } from "@/components/GuaranteeActionDialog";
 import { 
   ArrowLeft, 
   Building2, 
@@ -18,9 +20,33 @@ import {
   Edit,
   XCircle,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  RefreshCw,
+  AlertTriangle,
+  History,
+  DollarSign
 } from "lucide-react";
 import { formatCurrency, formatDate } from "@/lib/formatters";
+import type { GuaranteeCommission, GuaranteeVersion } from "@shared/schema";
+
+const ACTION_LABELS: Record<string, string> = {
+  renew: "Renewed",
+  amend: "Amended",
+  call: "Called",
+  release: "Released",
+  expire: "Expired",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  guaranteeAmount: "Amount",
+  calledAmount: "Called",
+  expiryDate: "Expiry",
+  status: "Status",
+  beneficiaryName: "Beneficiary",
+  beneficiaryDetails: "Beneficiary details",
+  feeRate: "Commission rate",
+  terms: "Terms",
+};
 
 interface GuaranteeWithDetails {
   id: string;
@@ -32,6 +58,8 @@ interface GuaranteeWithDetails {
   issueDate: string;
   expiryDate: string;
   status: string;
+  calledAmount: string | null;
+  renewalCount: number | null;
   beneficiary: string;
   purpose: string | null;
   commissionRate: string | null;
@@ -59,40 +87,39 @@ export default function GuaranteeDetailPage() {
   const guaranteeId = params?.id;
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: guarantee, isLoading, isError } = useQuery<GuaranteeWithDetails>({
     queryKey: ["/api/guarantees", guaranteeId],
     enabled: !!guaranteeId,
   });
 
-  const cancelGuaranteeMutation = useMutation({
-    mutationFn: async (guaranteeId: string) => {
-      await apiRequest("PUT", `/api/guarantees/${guaranteeId}`, { status: "cancelled" });
+  const [lifecycleAction, setLifecycleAction] = useState<GuaranteeDialogAction | null>(null);
+
+  const { data: history = [] } = useQuery<GuaranteeVersion[]>({
+    queryKey: ["/api/guarantees", guaranteeId, "history"],
+    enabled: !!guaranteeId,
+  });
+
+  const { data: commissions = [] } = useQuery<GuaranteeCommission[]>({
+    queryKey: ["/api/guarantees", guaranteeId, "commissions"],
+    enabled: !!guaranteeId,
+  });
+
+  const payCommissionMutation = useMutation({
+    mutationFn: async (commissionId: string) => {
+      const date = new Date().toLocaleDateString("en-CA");
+      await apiRequest("POST", `/api/guarantees/${guaranteeId}/commissions/${commissionId}/pay`, { date });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/guarantees"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/guarantees", guaranteeId] });
-      toast({
-        title: "Success",
-        description: "Guarantee cancelled successfully",
-      });
-      setLocation("/guarantees");
+      queryClient.invalidateQueries({ queryKey: ["/api/guarantees", guaranteeId, "commissions"] });
+      toast({ title: "Commission marked as paid" });
     },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to cancel guarantee",
-        variant: "destructive",
-      });
+    onError: (error: any) => {
+      toast({ title: "Failed to mark commission as paid", description: error.message, variant: "destructive" });
     },
   });
 
-  const handleCancelGuarantee = () => {
-    if (confirm("Are you sure you want to cancel this guarantee? This action cannot be undone.")) {
-      cancelGuaranteeMutation.mutate(guaranteeId!);
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-green-50 via-white to-emerald-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800 flex items-center justify-center">
@@ -122,12 +149,14 @@ export default function GuaranteeDetailPage() {
     );
   }
 
-  const isActive = guarantee.status === "active";
+  const isActive = guarantee.status === "active" || guarantee.status === "renewed";
   const isExpired = new Date(guarantee.expiryDate) < new Date();
   const daysToExpiry = Math.ceil((new Date(guarantee.expiryDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
 
   const statusConfig = {
     active: { color: "bg-emerald-500", label: "Active" },
+    renewed: { color: "bg-emerald-500", label: "Renewed" },
+    called: { color: "bg-orange-500", label: "Called" },
     expired: { color: "bg-red-500", label: "Expired" },
     cancelled: { color: "bg-gray-500", label: "Cancelled" },
     released: { color: "bg-blue-500", label: "Released" },
@@ -166,7 +195,7 @@ export default function GuaranteeDetailPage() {
               <Badge className={`${statusInfo.color} text-white`} data-testid="badge-status">
                 {statusInfo.label}
               </Badge>
-              {isActive && !isExpired && (
+              {isActive && !isExpired && can('guarantees') && (
                 <div className="flex space-x-2">
                   <Button 
                     variant="outline" 
@@ -180,13 +209,12 @@ export default function GuaranteeDetailPage() {
                   <Button 
                     variant="outline"
                     size="sm"
-                    onClick={handleCancelGuarantee}
-                    disabled={cancelGuaranteeMutation.isPending}
+                    onClick={() => setLifecycleAction("release")}
                     className="text-red-600 border-red-600 hover:bg-red-50 dark:hover:bg-red-950"
                     data-testid="button-cancel-guarantee"
                   >
                     <XCircle className="mr-2 h-4 w-4" />
-                    {cancelGuaranteeMutation.isPending ? 'Cancelling...' : 'Cancel'}
+                    Release
                   </Button>
                 </div>
               )}
@@ -331,6 +359,100 @@ export default function GuaranteeDetailPage() {
                 </Tabs>
               </CardContent>
             </Card>
+
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Timeline
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ol className="relative border-l border-border ml-2 space-y-6">
+                  {[...history].reverse().map(version => (
+                    <li key={version.id} className="ml-4" data-testid={`timeline-version-${version.version}`}>
+                      <div className="absolute w-3 h-3 bg-emerald-500 rounded-full -left-1.5 mt-1.5 border border-background"></div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{ACTION_LABELS[version.action] || version.action}</span>
+                        <Badge variant="outline">v{version.version}</Badge>
+                        <span className="text-sm text-muted-foreground">{formatDate(version.effectiveDate)}</span>
+                      </div>
+                      {version.amount && version.action !== "amend" && version.action !== "renew" && (
+                        <p className="text-sm">{formatCurrency(parseFloat(version.amount))}</p>
+                      )}
+                      <ul className="text-sm text-muted-foreground">
+                        {Object.entries((version.changes || {}) as Record<string, { from: unknown; to: unknown }>).map(([field, change]) => (
+                          <li key={field}>
+                            {FIELD_LABELS[field] || field}: {String(change.from ?? "-")} → {String(change.to ?? "-")}
+                          </li>
+                        ))}
+                      </ul>
+                      {version.reason && <p className="text-sm italic text-muted-foreground">"{version.reason}"</p>}
+                    </li>
+                  ))}
+                  <li className="ml-4" data-testid="timeline-issued">
+                    <div className="absolute w-3 h-3 bg-gray-400 rounded-full -left-1.5 mt-1.5 border border-background"></div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">Issued</span>
+                      <span className="text-sm text-muted-foreground">{formatDate(guarantee.issueDate)}</span>
+                    </div>
+                  </li>
+                </ol>
+              </CardContent>
+            </Card>
+
+            {commissions.length > 0 && (
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <DollarSign className="h-5 w-5" />
+                    Commission
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="py-2 pr-4 font-medium">Period</th>
+                          <th className="py-2 pr-4 font-medium">Due</th>
+                          <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                          <th className="py-2 pr-4 font-medium">Status</th>
+                          <th className="py-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {commissions.map(commission => (
+                          <tr key={commission.id} className="border-b last:border-0" data-testid={`row-commission-${commission.id}`}>
+                            <td className="py-2 pr-4 whitespace-nowrap">{formatDate(commission.periodStart)} - {formatDate(commission.periodEnd)}</td>
+                            <td className="py-2 pr-4 whitespace-nowrap">{formatDate(commission.dueDate)}</td>
+                            <td className="py-2 pr-4 text-right whitespace-nowrap">{formatCurrency(parseFloat(commission.amount))}</td>
+                            <td className="py-2 pr-4">
+                              <Badge variant={commission.status === "paid" ? "default" : "secondary"} className="capitalize">
+                                {commission.status === "paid" && commission.paidDate ? `Paid ${formatDate(commission.paidDate)}` : commission.status}
+                              </Badge>
+                            </td>
+                            <td className="py-2 text-right">
+                              {commission.status === "unpaid" && can('guarantees') && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => payCommissionMutation.mutate(commission.id)}
+                                  disabled={payCommissionMutation.isPending}
+                                  data-testid={`button-pay-commission-${commission.id}`}
+                                >
+                                  Mark Paid
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Sidebar */}
@@ -379,7 +501,24 @@ export default function GuaranteeDetailPage() {
             </Card>
 
             {/* Quick Actions */}
-            {isActive && !isExpired && (
+            {guarantee.status === "expired" && can('guarantees') && (
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle>Quick Actions</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Button
+                    onClick={() => setLifecycleAction("renew")}
+                    className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+                    data-testid="button-quick-renew-expired"
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Renew
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+            {isActive && !isExpired && can('guarantees') && (
               <Card className="shadow-lg">
                 <CardHeader>
                   <CardTitle>Quick Actions</CardTitle>
@@ -393,15 +532,41 @@ export default function GuaranteeDetailPage() {
                     <Edit className="mr-2 h-4 w-4" />
                     Edit Guarantee
                   </Button>
+                  <Button
+                    onClick={() => setLifecycleAction("renew")}
+                    variant="outline"
+                    className="w-full"
+                    data-testid="button-quick-renew"
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Renew
+                  </Button>
+                  <Button
+                    onClick={() => setLifecycleAction("amend")}
+                    variant="outline"
+                    className="w-full"
+                    data-testid="button-quick-amend"
+                  >
+                    <FileText className="mr-2 h-4 w-4" />
+                    Amend
+                  </Button>
+                  <Button
+                    onClick={() => setLifecycleAction("call")}
+                    variant="outline"
+                    className="w-full text-orange-600 border-orange-600 hover:bg-orange-50 dark:hover:bg-orange-950"
+                    data-testid="button-quick-call"
+                  >
+                    <AlertTriangle className="mr-2 h-4 w-4" />
+                    Record Call
+                  </Button>
                   <Button 
-                    onClick={handleCancelGuarantee}
-                    disabled={cancelGuaranteeMutation.isPending}
+                    onClick={() => setLifecycleAction("release")}
                     variant="outline"
                     className="w-full text-red-600 border-red-600 hover:bg-red-50 dark:hover:bg-red-950"
                     data-testid="button-quick-cancel"
                   >
                     <XCircle className="mr-2 h-4 w-4" />
-                    {cancelGuaranteeMutation.isPending ? 'Cancelling...' : 'Cancel Guarantee'}
+                    Release / Cancel
                   </Button>
                 </CardContent>
               </Card>
@@ -442,6 +607,12 @@ export default function GuaranteeDetailPage() {
           </div>
         </div>
       </div>
+
+      <GuaranteeActionDialog
+        action={lifecycleAction}
+        onOpenChange={(open) => !open && setLifecycleAction(null)}
+        guarantee={guarantee}
+      />
     </div>
   );
 }
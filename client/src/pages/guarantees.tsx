@@ -28,6 +28,8 @@ import {
 import { Link } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { CreditConversionFactorsCard } from "@/components/CreditConversionFactorsCard";
 
 type GuaranteeWithFacility = Guarantee & { 
   facility: Facility & { bank: Bank } 
@@ -38,6 +40,7 @@ export default function GuaranteesPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: guarantees, isLoading } = useQuery<GuaranteeWithFacility[]>({
     queryKey: ["/api/guarantees"],
@@ -163,12 +166,14 @@ export default function GuaranteesPage() {
             <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Bank Guarantees</h1>
             <p className="text-gray-600 dark:text-gray-400">Manage your bank guarantee portfolio</p>
           </div>
-          <Link href="/guarantees/create">
-            <Button className="bg-green-600 lg:hover:bg-green-700 text-white" data-testid="button-create-guarantee">
-              <Plus className="h-4 w-4 mr-2" />
-              Issue New Guarantee
-            </Button>
-          </Link>
+          {can('guarantees') && (
+            <Link href="/guarantees/create">
+              <Button className="bg-green-600 lg:hover:bg-green-700 text-white" data-testid="button-create-guarantee">
+                <Plus className="h-4 w-4 mr-2" />
+                Issue New Guarantee
+              </Button>
+            </Link>
+          )}
         </div>
 
         {/* Stats Cards */}
@@ -278,7 +283,7 @@ export default function GuaranteesPage() {
                   : "Try adjusting your search or filter criteria"
                 }
               </p>
-              {guarantees?.length === 0 && (
+              {guarantees?.length === 0 && can('guarantees') && (
                 <Link href="/guarantees/create">
                   <Button className="bg-green-600 lg:hover:bg-green-700 text-white" data-testid="button-create-first-guarantee">
                     <Plus className="h-4 w-4 mr-2" />
@@ -356,16 +361,18 @@ export default function GuaranteesPage() {
                           View Details
                         </Button>
                       </Link>
-                      <Button 
-                        variant="destructive" 
-                        size="sm"
-                        onClick={() => handleDeleteGuarantee(guarantee.id)}
-                        disabled={deleteGuaranteeMutation.isPending}
-                        data-testid={`button-delete-${guarantee.id}`}
-                      >
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Delete
-                      </Button>
+                      {can('guarantees') && (
+                        <Button 
+                          variant="destructive" 
+                          size="sm"
+                          onClick={() => handleDeleteGuarantee(guarantee.id)}
+                          disabled={deleteGuaranteeMutation.isPending}
+                          data-testid={`button-delete-${guarantee.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -373,6 +380,10 @@ export default function GuaranteesPage() {
             ))}
           </div>
         )}
+
+        <div className="mt-6">
+          <CreditConversionFactorsCard />
+        </div>
       </div>
     </div>
   );
@@ -468,6 +468,7 @@ export default function HistoryPage() {
       fee: 'Fee',
       interest: 'Interest',
       limit_change: 'Limit Change',
+      write_off: 'Write-off',
       other: 'Other'
     };
     return typeMap[type as keyof typeof typeMap] || type;
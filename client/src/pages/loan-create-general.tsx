@@ -5,8 +5,9 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { pendingApprovalOf, PENDING_APPROVAL_TOAST } from "@/lib/approvals";
 import { insertLoanSchema, Facility, Bank, Loan, CreditLine } from "@shared/schema";
-import { SiborRate } from "@shared/types";
+import { useSiborFixing } from "@/hooks/useSiborFixing";
 import { z } from "zod";
 import { useEffect, useMemo, useState } from "react";
 import React from "react";
@@ -73,10 +74,7 @@ export default function GeneralLoanCreatePage() {
   });
 
   // Get current SIBOR rate
-  const { data: siborData } = useQuery<SiborRate>({
-    queryKey: ["/api/sibor-rate"],
-    enabled: isAuthenticated,
-  });
+  const { data: siborData } = useSiborFixing();
 
   // Get credit lines for facility selection
   const { data: creditLines } = useQuery<Array<CreditLine & { facility: Facility & { bank: Bank } }>>({
@@ -201,9 +199,14 @@ export default function GeneralLoanCreatePage() {
                         data.siborTerm === "12M" ? 12 : 3,
       };
       
-      return apiRequest('POST', '/api/loans', loanData);
+      return pendingApprovalOf(await apiRequest('POST', '/api/loans', loanData));
     },
-    onSuccess: () => {
+    onSuccess: (pending) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+        setLocation("/approvals");
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/loans", "active"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
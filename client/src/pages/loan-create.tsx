@@ -1,10 +1,11 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import React from "react";
 import { useParams, useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useSiborFixing } from "@/hooks/useSiborFixing";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -15,6 +16,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { pendingApprovalOf, PENDING_APPROVAL_TOAST } from "@/lib/approvals";
 import { insertLoanSchema, Facility, Bank, Loan, CreditLine } from "@shared/schema";
 import { z } from "zod";
 import { 
@@ -113,6 +115,17 @@ export default function LoanCreatePage() {
     },
   });
 
+  // Default the SIBOR rate to the latest fixing for the selected term
+  const customSiborMonths = parseInt(form.watch("customSiborMonths") || "");
+  const selectedSiborMonths = customSiborMonths > 0 ? customSiborMonths : parseInt(form.watch("siborTerm") || "3");
+  const { data: siborFixing } = useSiborFixing(selectedSiborMonths);
+
+  useEffect(() => {
+    if (siborFixing) {
+      form.setValue("siborRate", siborFixing.rate.toString());
+    }
+  }, [siborFixing, form]);
+
   // Watch facility selection for non-cash guarantee routing
   const selectedFacilityId = form.watch("facilityId");
   const selectedFacility = bankFacilities.find(f => f.id === selectedFacilityId);
@@ -153,16 +166,21 @@ export default function LoanCreatePage() {
       };
       
       // Use apiRequest helper for consistency
-      return apiRequest('POST', '/api/loans', loanData);
+      return pendingApprovalOf(await apiRequest('POST', '/api/loans', loanData));
     },
-    onSuccess: (newLoan: any) => {
+    onSuccess: (pending, data) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+        setLocation("/approvals");
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/loans", "settled"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
       
       // Invalidate revolving usage cache for the facility
-      if (newLoan?.facilityId) {
-        queryClient.invalidateQueries({ queryKey: ["/api/facilities", newLoan.facilityId, "revolving-usage"] });
+      if (data.facilityId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/facilities", data.facilityId, "revolving-usage"] });
       }
       
       toast({
@@ -510,12 +528,12 @@ export default function LoanCreatePage() {
                             </p>
                             <div className="flex flex-wrap gap-2">
                               {[
-                                { days: 30, label: "30 Days", siborTerm: "1M", siborRate: "5.25" },
-                                { days: 60, label: "60 Days", siborTerm: "2M", siborRate: "5.35" }, 
-                                { days: 90, label: "90 Days", siborTerm: "3M", siborRate: "5.45" },
-                                { days: 180, label: "180 Days", siborTerm: "6M", siborRate: "5.65" },
-                                { days: 360, label: "360 Days", siborTerm: "12M", siborRate: "5.85" }
-                              ].map(({ days, label, siborTerm, siborRate }) => {
+                                { days: 30, label: "30 Days", siborTerm: "1M" },
+                                { days: 60, label: "60 Days", siborTerm: "2M" }, 
+                                { days: 90, label: "90 Days", siborTerm: "3M" },
+                                { days: 180, label: "180 Days", siborTerm: "6M" },
+                                { days: 360, label: "360 Days", siborTerm: "12M" }
+                              ].map(({ days, label, siborTerm }) => {
                                 const startDate = new Date(form.watch("startDate"));
                                 const dueDate = new Date(startDate);
                                 dueDate.setDate(startDate.getDate() + days);
@@ -538,7 +556,6 @@ export default function LoanCreatePage() {
                                     onClick={() => {
                                       form.setValue("dueDate", dueDateString);
                                       form.setValue("siborTerm", siborTerm);
-                                      form.setValue("siborRate", siborRate);
                                       form.setValue("customSiborMonths", "");
                                     }}
                                     data-testid={`button-${days}-days`}
@@ -589,16 +606,6 @@ export default function LoanCreatePage() {
                                             const dueDateString = dueDate.toISOString().split('T')[0];
                                             form.setValue("dueDate", dueDateString);
                                             form.setValue("siborTerm", `${months}M`);
-                                            
-                                            // Estimate SIBOR rate based on term length
-                                            let estimatedRate = "5.75";
-                                            if (months <= 1) estimatedRate = "5.25";
-                                            else if (months <= 3) estimatedRate = "5.45";
-                                            else if (months <= 6) estimatedRate = "5.65";
-                                            else if (months <= 12) estimatedRate = "5.85";
-                                            else estimatedRate = "6.05";
-                                            
-                                            form.setValue("siborRate", estimatedRate);
                                           }
                                         }}
                                       />
@@ -620,7 +627,7 @@ export default function LoanCreatePage() {
                               <div className="text-sm text-blue-700 dark:text-blue-300 flex flex-col justify-center">
                                 {form.watch("customSiborMonths") && form.watch("siborRate") && (
                                   <>
-                                    <p className="font-medium">Estimated SIBOR:</p>
+                                    <p className="font-medium">SIBOR Fixing{siborFixing ? ` (${siborFixing.tenor})` : ""}:</p>
                                     <p className="text-blue-800 dark:text-blue-200">
                                       {form.watch("siborRate")}%
                                     </p>
@@ -655,6 +662,11 @@ export default function LoanCreatePage() {
                                 data-testid="input-sibor-rate"
                               />
                             </FormControl>
+                            {siborFixing && (
+                              <FormDescription data-testid="text-sibor-fixing">
+                                {siborFixing.tenor} fixing of {siborFixing.fixingDate}
+                              </FormDescription>
+                            )}
                             <FormMessage />
                           </FormItem>
                         )}
@@ -2,7 +2,7 @@ import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
 import { ArrowLeft, Calendar, Building2, FileText, Clock, CheckCircle, AlertTriangle, TrendingUp, Edit, Trash2, Bell, Wallet, Undo2, RefreshCw, Receipt } from "lucide-react";
-import { LoanWithDetails } from "@shared/types";
+import { LoanWithDetails, RateResetScheduleEntry } from "@shared/types";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -31,7 +31,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { pendingApprovalOf, PENDING_APPROVAL_TOAST } from "@/lib/approvals";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import DocumentUpload from "@/components/DocumentUpload";
 import DocumentList from "@/components/DocumentList";
@@ -40,12 +42,14 @@ import { RevolvingPeriodTracker } from "@/components/RevolvingPeriodTracker";
 import { WhatIfAnalysis } from "@/components/WhatIfAnalysis";
 import { ModernDatePicker } from "@/components/ui/date-picker";
 import { PaymentRecordingModal } from "@/components/PaymentRecordingModal";
+import { InstallmentSchedule } from "@/components/InstallmentSchedule";
 
 export default function LoanDetailPage() {
   const { id: loanId } = useParams<{ id: string }>();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { isAuthenticated } = useAuth();
+  const { can } = usePermissions();
   const [activeTab, setActiveTab] = useState("transactions");
   const [reminderModalOpen, setReminderModalOpen] = useState(false);
   const [settleConfirmOpen, setSettleConfirmOpen] = useState(false);
@@ -98,6 +102,15 @@ export default function LoanDetailPage() {
     refetchOnWindowFocus: false,
   });
 
+  // Fetch the SIBOR reset schedule (fixed rate periods plus projected resets)
+  const { data: rateSchedule = [] } = useQuery<RateResetScheduleEntry[]>({
+    queryKey: ["/api/loans", loanId, "rate-schedule"],
+    enabled: !!loanId && isAuthenticated,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 15 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
   // Fetch facility info for revolving period tracking
   const { data: facility } = useQuery({
     queryKey: ["/api/facilities", loan?.facilityId],
@@ -136,9 +149,13 @@ export default function LoanDetailPage() {
   // Settlement mutation
   const settleLoanMutation = useMutation({
     mutationFn: async ({ loanId, settledAmount, settledDate }: { loanId: string; settledAmount: number; settledDate: string }) => {
-      await apiRequest("POST", `/api/loans/${loanId}/settle`, { date: settledDate, amount: settledAmount.toString() });
+      return pendingApprovalOf(await apiRequest("POST", `/api/loans/${loanId}/settle`, { date: settledDate, amount: settledAmount.toString() }));
     },
-    onSuccess: () => {
+    onSuccess: (pending) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/loans", "settled"] });
       queryClient.invalidateQueries({ queryKey: ["/api/loans", loanId] });
@@ -188,9 +205,15 @@ export default function LoanDetailPage() {
   // Reverse Settlement Mutation
   const reverseSettlementMutation = useMutation({
     mutationFn: async ({ loanId, reason }: { loanId: string; reason: string }) => {
-      await apiRequest("POST", `/api/loans/${loanId}/reverse-settlement`, { reason });
+      return pendingApprovalOf(await apiRequest("POST", `/api/loans/${loanId}/reverse-settlement`, { reason }));
     },
-    onSuccess: () => {
+    onSuccess: (pending) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+        setReverseSettlementOpen(false);
+        setReversalReason("");
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/loans", "settled"] });
       queryClient.invalidateQueries({ queryKey: ["/api/loans", loanId] });
@@ -366,7 +389,11 @@ export default function LoanDetailPage() {
                     loanAmount={Number(loan.amount?.toString() ?? 0)}
                     currentRate={Number(loan.bankRate?.toString() ?? 0)}
                     durationDays={Math.ceil((new Date(loan.dueDate).getTime() - new Date(loan.startDate).getTime()) / (1000 * 60 * 60 * 24))}
+                    siborTermMonths={loan.siborTermMonths}
+                    margin={Number(loan.margin?.toString() ?? 0)}
                   />
+                  {can('loans') && (
+                  <>
                   <Button 
                     variant="outline" 
                     size="sm"
@@ -396,6 +423,8 @@ export default function LoanDetailPage() {
                     <CheckCircle className="mr-2 h-4 w-4" />
                     {settleLoanMutation.isPending ? 'Settling...' : 'Settle Loan'}
                   </Button>
+                  </>
+                  )}
                 </div>
               )}
             </div>
@@ -486,6 +515,59 @@ export default function LoanDetailPage() {
               </CardContent>
             </Card>
 
+            {/* Rate Reset Schedule - only floating loans reset more than once */}
+            {rateSchedule.length > 1 && (
+              <Card className="shadow-lg">
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center space-x-2 text-base">
+                    <TrendingUp className="h-5 w-5 text-primary" />
+                    <span>Rate Reset Schedule</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="py-2 pr-4 font-medium">Period</th>
+                          <th className="py-2 pr-4 font-medium">Fixing</th>
+                          <th className="py-2 pr-4 font-medium text-right">SIBOR</th>
+                          <th className="py-2 pr-4 font-medium text-right">Margin</th>
+                          <th className="py-2 font-medium text-right">All-in Rate</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rateSchedule.map((entry) => (
+                          <tr key={entry.periodStart} className="border-b last:border-0" data-testid={`row-rate-period-${entry.periodStart}`}>
+                            <td className="py-2 pr-4">
+                              {new Date(entry.periodStart).toLocaleDateString()} - {new Date(entry.periodEnd).toLocaleDateString()}
+                            </td>
+                            <td className="py-2 pr-4">
+                              {entry.status === 'projected' ? (
+                                <Badge variant="outline">Upcoming</Badge>
+                              ) : entry.source === 'initial' ? (
+                                <span className="text-muted-foreground">At booking</span>
+                              ) : entry.source === 'carried_forward' ? (
+                                <Badge variant="secondary">Carried forward</Badge>
+                              ) : (
+                                <span>{entry.tenor} on {new Date(entry.fixingDate!).toLocaleDateString()}</span>
+                              )}
+                            </td>
+                            <td className="py-2 pr-4 text-right">{entry.siborRate !== null ? `${entry.siborRate.toFixed(2)}%` : '-'}</td>
+                            <td className="py-2 pr-4 text-right">{entry.margin.toFixed(2)}%</td>
+                            <td className="py-2 text-right font-semibold">{entry.bankRate !== null ? `${entry.bankRate.toFixed(2)}%` : '-'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Installment plan - loans without one are repaid as a bullet */}
+            <InstallmentSchedule loanId={loan.id} loanStatus={loan.status} className="shadow-lg" />
+
             {/* Detailed Information Tabs */}
             <Card className="shadow-lg">
               <CardContent className="p-0">
@@ -581,7 +663,7 @@ export default function LoanDetailPage() {
                     <div className="space-y-4">
                       <div className="flex items-center justify-between">
                         <h3 className="text-base font-semibold">Payment History</h3>
-                        {loan.status === 'active' && (
+                        {loan.status === 'active' && can('payments') && (
                           <Button 
                             size="sm"
                             onClick={() => setPaymentModalOpen(true)}
@@ -641,7 +723,7 @@ export default function LoanDetailPage() {
                         <div className="text-center py-8">
                           <Receipt className="h-12 w-12 text-gray-300 mx-auto mb-4" />
                           <p className="text-gray-600 mb-3">No payments recorded yet</p>
-                          {loan.status === 'active' && (
+                          {loan.status === 'active' && can('payments') && (
                             <Button 
                               size="sm"
                               onClick={() => setPaymentModalOpen(true)}
@@ -730,6 +812,11 @@ export default function LoanDetailPage() {
               <CardContent className="space-y-2.5">
                 {loan.status === 'active' ? (
                   <>
+                    {!can('loans') && !can('payments') && (
+                      <p className="text-sm text-muted-foreground text-center py-2">Your role can view this loan but not change it</p>
+                    )}
+                    {can('loans') && (
+                    <>
                     <Button 
                       onClick={handleSettleLoan}
                       disabled={settleLoanMutation.isPending}
@@ -746,6 +833,9 @@ export default function LoanDetailPage() {
                       <RefreshCw className="mr-2 h-4 w-4" />
                       Revolve Loan
                     </Button>
+                    </>
+                    )}
+                    {can('payments') && (
                     <Button 
                       variant="outline" 
                       className="w-full"
@@ -753,6 +843,9 @@ export default function LoanDetailPage() {
                     >
                       Process Payment
                     </Button>
+                    )}
+                    {can('loans') && (
+                    <>
                     <Button 
                       variant="outline" 
                       className="w-full"
@@ -779,6 +872,8 @@ export default function LoanDetailPage() {
                       <Trash2 className="mr-2 h-4 w-4" />
                       Cancel Loan
                     </Button>
+                    </>
+                    )}
                   </>
                 ) : loan.status === 'settled' ? (
                   <>
@@ -787,6 +882,8 @@ export default function LoanDetailPage() {
                       <p className="font-medium text-emerald-600">Loan Settled</p>
                       <p className="text-sm text-muted-foreground">This loan has been successfully settled</p>
                     </div>
+                    {can('loans') && (
+                    <>
                     <Separator />
                     <Button 
                       variant="outline" 
@@ -798,6 +895,8 @@ export default function LoanDetailPage() {
                       <Undo2 className="mr-2 h-4 w-4" />
                       {reverseSettlementMutation.isPending ? 'Reversing...' : 'Undo Settlement'}
                     </Button>
+                    </>
+                    )}
                   </>
                 ) : (
                   <>
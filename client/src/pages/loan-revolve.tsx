@@ -15,13 +15,15 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
+import { useSiborFixing } from "@/hooks/useSiborFixing";
 import { apiRequest, queryClient, invalidateLoans } from "@/lib/queryClient";
+import { pendingApprovalOf, PENDING_APPROVAL_TOAST } from "@/lib/approvals";
 import { ModernDatePicker } from "@/components/ui/date-picker";
 
 const revolveFormSchema = z.object({
   startDate: z.string().min(1, "Start date is required"),
   dueDate: z.string().min(1, "Due date is required"),
-  siborRate: z.string().min(1, "SIBOR rate is required"),
+  siborRate: z.string().optional(), // Empty: priced at the fixing published for the revolve date
   memo: z.string().optional(),
 });
 
@@ -50,10 +52,8 @@ export default function LoanRevolvePage() {
     gcTime: 0,
   });
 
-  // Fetch current SIBOR rate
-  const { data: siborRate } = useQuery({
-    queryKey: ["/api/sibor-rate"],
-  });
+  // Latest SIBOR fixing for the loan's term - the default fix for the new cycle
+  const { data: siborRate } = useSiborFixing((loan as any)?.siborTermMonths);
 
   const form = useForm<RevolveFormData>({
     resolver: zodResolver(revolveFormSchema),
@@ -69,12 +69,10 @@ export default function LoanRevolvePage() {
   useEffect(() => {
     if (loan) {
       const loanData = loan as any;
-      const currentSibor = (siborRate as any)?.rate?.toString() || loanData.siborRate || "5.75";
-      
       form.reset({
         startDate: new Date().toISOString().split('T')[0], // Default to today
         dueDate: loanData.dueDate || "",
-        siborRate: currentSibor,
+        siborRate: siborRate?.rate?.toString() ?? "",
         memo: "",
       });
     }
@@ -82,27 +80,27 @@ export default function LoanRevolvePage() {
 
   const revolveLoanMutation = useMutation({
     mutationFn: async (data: RevolveFormData) => {
-      const loanData = loan as any;
-      const margin = parseFloat(loanData.margin || "0");
-      const newSiborRate = parseFloat(data.siborRate);
-      const bankRate = (newSiborRate + margin).toFixed(2);
-      
-      return apiRequest('PUT', `/api/loans/${loanId}/revolve`, {
+      const response = await apiRequest('POST', `/api/loans/${loanId}/revolve`, {
         startDate: data.startDate,
         dueDate: data.dueDate,
-        siborRate: data.siborRate,
-        bankRate,
+        siborRate: data.siborRate || undefined,
         memo: data.memo || `Loan revolved - New period: ${data.startDate} to ${data.dueDate}`,
       });
+      return (await pendingApprovalOf(response)) ?? response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: any) => {
+      if (result?.pendingApproval) {
+        toast(PENDING_APPROVAL_TOAST);
+        setLocation(`/loans/${loanId}`);
+        return;
+      }
       invalidateLoans();
       queryClient.invalidateQueries({ queryKey: ["/api/loans", loanId] });
       toast({ 
         title: "Loan revolved successfully",
-        description: "The loan has been rolled over to the new period."
+        description: "The loan has been rolled over into a new cycle."
       });
-      setLocation(`/loans/${loanId}`);
+      setLocation(`/loans/${result?.newLoan?.id ?? loanId}`);
     },
     onError: (error) => {
       toast({ 
@@ -264,7 +262,7 @@ export default function LoanRevolvePage() {
                           name="siborRate"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>New SIBOR Rate (%) *</FormLabel>
+                              <FormLabel>New SIBOR Rate (%)</FormLabel>
                               <FormControl>
                                 <Input 
                                   type="number"
@@ -279,7 +277,9 @@ export default function LoanRevolvePage() {
                                 />
                               </FormControl>
                               <FormDescription>
-                                Current market SIBOR: {(siborRate as any)?.rate || "5.75"}%
+                                {siborRate
+                                  ? `Current market SIBOR: ${siborRate.rate}%`
+                                  : "No SIBOR fixing loaded - leave empty to use the fixing published for the revolve date"}
                               </FormDescription>
                               <FormMessage />
                             </FormItem>
@@ -1,5 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -57,6 +58,7 @@ import {
 import { Link, useLocation } from "wouter";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
+import { pendingApprovalOf, PENDING_APPROVAL_TOAST } from "@/lib/approvals";
 import backgroundImage from "@assets/loan_management_background_excel_green_1759302449019.png";
 import { MobileHeader, FloatingActionButton, ActionSheet } from "@/components/mobile";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -68,6 +70,7 @@ type StatusFilter = 'all' | 'critical' | 'warning' | 'normal' | 'settled';
 
 export default function Loans() {
   const { isLoading, isAuthenticated } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
@@ -152,13 +155,17 @@ export default function Loans() {
 
   const settleLoanMutation = useMutation({
     mutationFn: async ({ loanId, settledAmount }: { loanId: string; settledAmount: number }) => {
-      await apiRequest("POST", `/api/loans/${loanId}/settle`, { 
+      return pendingApprovalOf(await apiRequest("POST", `/api/loans/${loanId}/settle`, { 
         date: new Date().toISOString().split('T')[0],
         amount: settledAmount.toString(),
         memo: "Loan settlement via Settle Loan button"
-      });
+      }));
     },
-    onSuccess: () => {
+    onSuccess: (pending) => {
+      if (pending) {
+        toast(PENDING_APPROVAL_TOAST);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/loans", "settled"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
@@ -228,9 +235,14 @@ export default function Loans() {
 
   const reverseSettlementMutation = useMutation({
     mutationFn: async (loanId: string) => {
-      return apiRequest('POST', `/api/loans/${loanId}/reverse-settlement`, { reason: '' });
+      return pendingApprovalOf(await apiRequest('POST', `/api/loans/${loanId}/reverse-settlement`, { reason: '' }));
     },
-    onSuccess: () => {
+    onSuccess: (pending) => {
+      if (pending) {
+        setLoanToUndo(null);
+        toast(PENDING_APPROVAL_TOAST);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/loans", "settled"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
@@ -617,7 +629,10 @@ export default function Loans() {
       variant: 'destructive' as const,
       disabled: deleteLoanMutation.isPending,
     },
-  ];
+  ].filter(action => {
+    if (action.id === 'make-payment') return can('payments');
+    return ['edit', 'settle', 'delete'].includes(action.id) ? can('loans') : true;
+  });
 
   const MobileLoanCard = ({ loan }: { loan: any }) => {
     const urgency = getLoanUrgency(loan.dueDate);
@@ -772,6 +787,7 @@ export default function Loans() {
                 {loan.settledDate ? new Date(loan.settledDate).toLocaleDateString() : 'Recently'}
               </span>
             </div>
+            {can('loans') && (
             <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
               <Button
                 variant="outline"
@@ -787,6 +803,7 @@ export default function Loans() {
                 Undo Settlement
               </Button>
             </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -1008,11 +1025,13 @@ export default function Loans() {
             </Tabs>
           </Section>
 
-          <FloatingActionButton 
-            onClick={() => setLocation("/loans/create")}
-            label="Create Loan"
-            data-testid="fab-create-loan"
-          />
+          {can('loans') && (
+            <FloatingActionButton 
+              onClick={() => setLocation("/loans/create")}
+              label="Create Loan"
+              data-testid="fab-create-loan"
+            />
+          )}
 
           <ActionSheet
             open={isActionSheetOpen}
@@ -1057,14 +1076,16 @@ export default function Loans() {
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
-                <Button 
-                  onClick={() => setLocation("/loans/create")}
-                  className="h-10 bg-gradient-to-r from-blue-600 to-blue-700 lg:hover:from-blue-700 lg:hover:to-blue-800 text-white shadow-lg"
-                  data-testid="button-add-loan"
-                >
-                  <Plus className="mr-2 h-4 w-4" />
-                  New Loan
-                </Button>
+                {can('loans') && (
+                  <Button 
+                    onClick={() => setLocation("/loans/create")}
+                    className="h-10 bg-gradient-to-r from-blue-600 to-blue-700 lg:hover:from-blue-700 lg:hover:to-blue-800 text-white shadow-lg"
+                    data-testid="button-add-loan"
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    New Loan
+                  </Button>
+                )}
               </div>
             }
           />
@@ -1212,7 +1233,7 @@ export default function Loans() {
                       {(activeLoans as any[])?.length === 0 ? "No active loans found" : "No loans match your current filters"}
                     </p>
                     {(activeLoans as any[])?.length === 0 ? (
-                      <Button 
+                      can('loans') && <Button 
                         onClick={() => setLocation("/loans/create")}
                         className="h-10 bg-gradient-to-r from-blue-600 to-blue-700 lg:hover:from-blue-700 lg:hover:to-blue-800 text-white"
                         data-testid="button-add-first-loan"
@@ -1310,25 +1331,31 @@ export default function Loans() {
                                     <FileText className="mr-2 h-4 w-4" />
                                     Documents
                                   </DropdownMenuItem>
-                                  <DropdownMenuItem onClick={() => setLocation(`/loans/${loan.id}/edit`)}>
-                                    <Edit className="mr-2 h-4 w-4" />
-                                    Edit Details
-                                  </DropdownMenuItem>
+                                  {can('loans') && (
+                                    <DropdownMenuItem onClick={() => setLocation(`/loans/${loan.id}/edit`)}>
+                                      <Edit className="mr-2 h-4 w-4" />
+                                      Edit Details
+                                    </DropdownMenuItem>
+                                  )}
                                   <DropdownMenuSeparator />
-                                  <DropdownMenuItem onClick={() => setLocation(`/loans/${loan.id}/payment/create`)}>
-                                    Process Payment
-                                  </DropdownMenuItem>
+                                  {can('payments') && (
+                                    <DropdownMenuItem onClick={() => setLocation(`/loans/${loan.id}/payment/create`)}>
+                                      Process Payment
+                                    </DropdownMenuItem>
+                                  )}
                                   <DropdownMenuItem onClick={() => setLocation(`/history?loanId=${loan.id}`)}>
                                     <Clock className="mr-2 h-4 w-4" />
                                     View History
                                   </DropdownMenuItem>
-                                  <DropdownMenuItem 
-                                    onClick={() => handleSettleLoan(loan.id, loan.amount)}
-                                    disabled={settleLoanMutation.isPending}
-                                  >
-                                    <CheckCircle className="mr-2 h-4 w-4" />
-                                    Settle Loan
-                                  </DropdownMenuItem>
+                                  {can('loans') && (
+                                    <DropdownMenuItem 
+                                      onClick={() => handleSettleLoan(loan.id, loan.amount)}
+                                      disabled={settleLoanMutation.isPending}
+                                    >
+                                      <CheckCircle className="mr-2 h-4 w-4" />
+                                      Settle Loan
+                                    </DropdownMenuItem>
+                                  )}
                                 </DropdownMenuContent>
                               </DropdownMenu>
                             </div>
@@ -1411,16 +1438,18 @@ export default function Loans() {
                                 <FileText className="mr-2 h-4 w-4" />
                                 Documents
                               </Button>
-                              <Button 
-                                variant="outline" 
-                                size="sm" 
-                                onClick={() => setLocation(`/loans/${loan.id}/payment/create`)}
-                                data-testid={`button-payment-${loan.id}`}
-                                className="h-10 flex-1 sm:flex-initial"
-                              >
-                                <Banknote className="mr-2 h-4 w-4" />
-                                Payment
-                              </Button>
+                              {can('payments') && (
+                                <Button 
+                                  variant="outline" 
+                                  size="sm" 
+                                  onClick={() => setLocation(`/loans/${loan.id}/payment/create`)}
+                                  data-testid={`button-payment-${loan.id}`}
+                                  className="h-10 flex-1 sm:flex-initial"
+                                >
+                                  <Banknote className="mr-2 h-4 w-4" />
+                                  Payment
+                                </Button>
+                              )}
                               <Button 
                                 variant="outline" 
                                 size="sm" 
@@ -1432,6 +1461,7 @@ export default function Loans() {
                                 History
                               </Button>
                             </div>
+                            {can('loans') && (
                             <div className="flex gap-2">
                               <Button 
                                 className={`${
@@ -1459,6 +1489,7 @@ export default function Loans() {
                                 {deleteLoanMutation.isPending ? 'Deleting...' : 'Delete Loan'}
                               </Button>
                             </div>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
@@ -1556,6 +1587,7 @@ export default function Loans() {
                           </div>
                         </div>
 
+                        {can('loans') && (
                         <div className="pt-3 border-t border-gray-200 dark:border-gray-700">
                           <Button
                             variant="outline"
@@ -1571,6 +1603,7 @@ export default function Loans() {
                             Undo Settlement
                           </Button>
                         </div>
+                        )}
                       </CardContent>
                     </Card>
                   ))}
@@ -1651,6 +1684,7 @@ export default function Loans() {
                           </div>
                         </div>
 
+                        {can('loans') && (
                         <div className="pt-3 border-t border-gray-200 dark:border-gray-700">
                           <div className="flex items-center justify-between">
                             <p className="text-sm text-gray-600 dark:text-gray-400">
@@ -1670,6 +1704,7 @@ export default function Loans() {
                             </Button>
                           </div>
                         </div>
+                        )}
                       </CardContent>
                     </Card>
                   ))}
@@ -16,7 +16,9 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { ModernDatePicker } from "@/components/ui/date-picker";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { pendingApprovalOf, PENDING_APPROVAL_TOAST } from "@/lib/approvals";
 import { Loan, Bank, Facility } from "@shared/schema";
+import type { PaymentAllocation } from "@shared/types";
 import { z } from "zod";
 import { 
   ArrowLeft, 
@@ -38,12 +40,7 @@ const paymentFormSchema = z.object({
   paymentDate: z.string().min(1, "Payment date is required"),
   reference: z.string().optional(),
   memo: z.string().optional(),
-  allocationType: z.enum(["standard", "custom"]).default("standard"),
-  customAllocation: z.object({
-    interestAmount: z.string().default("0"),
-    principalAmount: z.string().default("0"),
-    feesAmount: z.string().default("0")
-  }).optional()
+  allocationType: z.enum(["standard", "prepayment"]).default("standard"),
 });
 
 type PaymentFormData = z.infer<typeof paymentFormSchema>;
@@ -55,6 +52,11 @@ interface LoanBalance {
   total: number;
 }
 
+interface AllocationPreview {
+  allocation: PaymentAllocation | null;
+  error?: string;
+}
+
 export default function PaymentCreatePage() {
   const { loanId } = useParams<{ loanId?: string }>();
   const [, setLocation] = useLocation();
@@ -71,17 +73,13 @@ export default function PaymentCreatePage() {
       reference: "",
       memo: "",
       allocationType: "standard",
-      customAllocation: {
-        interestAmount: "0",
-        principalAmount: "0",
-        feesAmount: "0"
-      }
     },
   });
 
   const allocationType = form.watch("allocationType");
   const paymentAmount = parseFloat(form.watch("amount") || "0");
-  const customAllocation = form.watch("customAllocation");
+  const paymentDate = form.watch("paymentDate");
+  const prepayment = allocationType === "prepayment";
 
   // Fetch active loans
   const { data: activeLoans, isLoading: loansLoading } = useQuery({
@@ -101,32 +99,35 @@ export default function PaymentCreatePage() {
     enabled: !!form.watch("loanId"),
   });
 
+  // The split is decided by the facility's payment waterfall on the server
+  const { data: allocationPreview } = useQuery<AllocationPreview>({
+    queryKey: ["/api/loans", form.watch("loanId"), "payment-allocation", paymentAmount, paymentDate, prepayment],
+    queryFn: async () => {
+      const params = new URLSearchParams({ amount: String(paymentAmount), date: paymentDate, prepayment: String(prepayment) });
+      const response = await fetch(`/api/loans/${form.watch("loanId")}/payment-allocation?${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to preview payment allocation');
+      return response.json();
+    },
+    enabled: !!form.watch("loanId") && paymentAmount > 0 && !!paymentDate,
+  });
+
   const createPaymentMutation = useMutation({
     mutationFn: async (data: PaymentFormData) => {
-      const payload = {
-        loanId: data.loanId,
-        amount: parseFloat(data.amount),
+      const response = await apiRequest('POST', `/api/loans/${data.loanId}/repayments`, {
+        amount: data.amount,
         date: data.paymentDate,
-        reference: data.reference || null,
-        memo: data.memo || null,
-        allocation: data.allocationType === "custom" && data.customAllocation ? {
-          interest: parseFloat(data.customAllocation.interestAmount),
-          principal: parseFloat(data.customAllocation.principalAmount),
-          fees: parseFloat(data.customAllocation.feesAmount)
-        } : null // null means use standard allocation
-      };
-      
-      const response = await fetch(`/api/loans/${data.loanId}/repayments`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
+        reference: data.reference || undefined,
+        memo: data.memo || undefined,
+        prepayment: data.allocationType === "prepayment",
       });
-      if (!response.ok) throw new Error('Failed to process payment');
-      return response.json();
+      return (await pendingApprovalOf(response)) ?? response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      if (result?.pendingApproval) {
+        toast(PENDING_APPROVAL_TOAST);
+        setLocation("/approvals");
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/loans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/portfolio"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
@@ -139,7 +140,7 @@ export default function PaymentCreatePage() {
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.response?.data?.message || "Failed to process payment",
+        description: error.message || "Failed to process payment",
         variant: "destructive",
       });
     },
@@ -149,42 +150,8 @@ export default function PaymentCreatePage() {
     createPaymentMutation.mutate(data);
   };
 
-  // Calculate standard allocation preview
-  const calculateStandardAllocation = (amount: number, balance: LoanBalance) => {
-    if (!balance || amount <= 0) return { interest: 0, principal: 0, fees: 0 };
-    
-    let remaining = amount;
-    const allocation = { fees: 0, interest: 0, principal: 0 };
-    
-    // Pay fees first
-    allocation.fees = Math.min(remaining, balance.fees);
-    remaining -= allocation.fees;
-    
-    // Pay interest second
-    allocation.interest = Math.min(remaining, balance.interest);
-    remaining -= allocation.interest;
-    
-    // Pay principal last
-    allocation.principal = Math.min(remaining, balance.principal);
-    
-    return allocation;
-  };
-
-  // Validate custom allocation
-  const validateCustomAllocation = () => {
-    if (allocationType !== "custom" || !customAllocation) return true;
-    
-    const totalCustom = 
-      parseFloat(customAllocation.interestAmount) +
-      parseFloat(customAllocation.principalAmount) +
-      parseFloat(customAllocation.feesAmount);
-    
-    return Math.abs(totalCustom - paymentAmount) < 0.01; // Allow small rounding differences
-  };
-
-  const standardAllocation = balanceData && (balanceData as any).principal !== undefined ? 
-    calculateStandardAllocation(paymentAmount, balanceData as LoanBalance) : null;
-  const customAllocationValid = validateCustomAllocation();
+  const allocation = allocationPreview?.allocation ?? null;
+  const allocationError = allocationPreview?.error;
 
   return (
     <div className="min-h-screen bg-background">
@@ -363,19 +330,19 @@ export default function PaymentCreatePage() {
                                     Standard Allocation (Recommended)
                                   </Label>
                                   <p className="text-sm text-gray-600 dark:text-gray-400">
-                                    Follows Saudi banking regulations: Fees → Interest → Principal
+                                    Applied in the facility's waterfall order - by default Fees → Overdue Interest → Current Interest → Principal due
                                   </p>
                                 </div>
                               </div>
                               
                               <div className="flex items-start space-x-3 p-4 border rounded-lg">
-                                <RadioGroupItem value="custom" id="custom" className="mt-1" />
+                                <RadioGroupItem value="prepayment" id="prepayment" className="mt-1" />
                                 <div className="space-y-1">
-                                  <Label htmlFor="custom" className="font-medium">
-                                    Custom Allocation
+                                  <Label htmlFor="prepayment" className="font-medium">
+                                    Prepayment
                                   </Label>
                                   <p className="text-sm text-gray-600 dark:text-gray-400">
-                                    Specify exact amounts for each component per agreement
+                                    Standard allocation, with any excess repaying principal that is not yet due
                                   </p>
                                 </div>
                               </div>
@@ -386,84 +353,10 @@ export default function PaymentCreatePage() {
                       )}
                     />
 
-                    {/* Custom Allocation Fields */}
-                    {allocationType === "custom" && (
-                      <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg space-y-4">
-                        <h4 className="font-medium text-blue-800 dark:text-blue-200 flex items-center space-x-2">
-                          <Calculator className="h-4 w-4" />
-                          <span>Custom Payment Allocation</span>
-                        </h4>
-                        
-                        <div className="grid grid-cols-3 gap-4">
-                          <FormField
-                            control={form.control}
-                            name="customAllocation.feesAmount"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Fees (SAR)</FormLabel>
-                                <FormControl>
-                                  <Input 
-                                    type="number" 
-                                    step="0.01"
-                                    placeholder="0.00" 
-                                    {...field} 
-                                    data-testid="input-fees"
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-
-                          <FormField
-                            control={form.control}
-                            name="customAllocation.interestAmount"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Interest (SAR)</FormLabel>
-                                <FormControl>
-                                  <Input 
-                                    type="number" 
-                                    step="0.01"
-                                    placeholder="0.00" 
-                                    {...field} 
-                                    data-testid="input-interest"
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-
-                          <FormField
-                            control={form.control}
-                            name="customAllocation.principalAmount"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Principal (SAR)</FormLabel>
-                                <FormControl>
-                                  <Input 
-                                    type="number" 
-                                    step="0.01"
-                                    placeholder="0.00" 
-                                    {...field} 
-                                    data-testid="input-principal"
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                        </div>
-
-                        {!customAllocationValid && paymentAmount > 0 && (
-                          <div className="flex items-center space-x-2 text-red-600">
-                            <AlertCircle className="h-4 w-4" />
-                            <span className="text-sm">
-                              Custom allocation total must equal payment amount ({paymentAmount.toFixed(2)} SAR)
-                            </span>
-                          </div>
-                        )}
+                    {allocationError && paymentAmount > 0 && (
+                      <div className="flex items-center space-x-2 text-red-600" data-testid="text-allocation-error">
+                        <AlertCircle className="h-4 w-4" />
+                        <span className="text-sm">{allocationError}</span>
                       </div>
                     )}
 
@@ -476,7 +369,7 @@ export default function PaymentCreatePage() {
                       </Link>
                       <Button 
                         type="submit" 
-                        disabled={createPaymentMutation.isPending || !customAllocationValid}
+                        disabled={createPaymentMutation.isPending || !!allocationError}
                         className="bg-gradient-to-r from-emerald-600 to-blue-600 lg:hover:from-emerald-700 lg:hover:to-blue-700 text-white shadow-lg"
                         data-testid="button-process-payment"
                       >
@@ -534,23 +427,23 @@ export default function PaymentCreatePage() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {allocationType === "standard" && standardAllocation && (
+                  {allocation && (
                     <div className="space-y-3">
                       <Badge className="w-full justify-center bg-green-100 text-green-800">
-                        Standard Allocation
+                        {allocation.prepayment > 0 ? "Includes Prepayment" : "Standard Allocation"}
                       </Badge>
                       <div className="space-y-2">
                         <div className="flex justify-between">
                           <span className="text-sm text-gray-600 dark:text-gray-400">To Fees:</span>
-                          <span className="font-medium">{standardAllocation.fees.toLocaleString()} SAR</span>
+                          <span className="font-medium">{allocation.fees.toLocaleString()} SAR</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-sm text-gray-600 dark:text-gray-400">To Interest:</span>
-                          <span className="font-medium">{standardAllocation.interest.toLocaleString()} SAR</span>
+                          <span className="font-medium">{allocation.interest.toLocaleString()} SAR</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-sm text-gray-600 dark:text-gray-400">To Principal:</span>
-                          <span className="font-medium">{standardAllocation.principal.toLocaleString()} SAR</span>
+                          <span className="font-medium">{allocation.principal.toLocaleString()} SAR</span>
                         </div>
                       </div>
                       
@@ -560,42 +453,20 @@ export default function PaymentCreatePage() {
                         <h5 className="font-medium text-sm">Remaining After Payment:</h5>
                         <div className="flex justify-between">
                           <span className="text-sm text-gray-600 dark:text-gray-400">Principal:</span>
-                          <span className="font-medium">{((balanceData as any).principal - standardAllocation.principal).toLocaleString()} SAR</span>
+                          <span className="font-medium">{((balanceData as any).principal - allocation.principal).toLocaleString()} SAR</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-sm text-gray-600 dark:text-gray-400">Interest:</span>
-                          <span className="font-medium">{((balanceData as any).interest - standardAllocation.interest).toLocaleString()} SAR</span>
+                          <span className="font-medium">{((balanceData as any).interest - allocation.interest).toLocaleString()} SAR</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-sm text-gray-600 dark:text-gray-400">Fees:</span>
-                          <span className="font-medium">{((balanceData as any).fees - standardAllocation.fees).toLocaleString()} SAR</span>
+                          <span className="font-medium">{((balanceData as any).fees - allocation.fees).toLocaleString()} SAR</span>
                         </div>
                         <Separator />
                         <div className="flex justify-between font-semibold">
                           <span>New Total:</span>
-                          <span className="text-emerald-600">{((balanceData as any).total - paymentAmount).toLocaleString()} SAR</span>
-                        </div>
-                      </div>
-                    </div>
-                  )}
-
-                  {allocationType === "custom" && customAllocation && (
-                    <div className="space-y-3">
-                      <Badge className="w-full justify-center bg-blue-100 text-blue-800">
-                        Custom Allocation
-                      </Badge>
-                      <div className="space-y-2">
-                        <div className="flex justify-between">
-                          <span className="text-sm text-gray-600 dark:text-gray-400">To Fees:</span>
-                          <span className="font-medium">{parseFloat(customAllocation.feesAmount || "0").toLocaleString()} SAR</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-sm text-gray-600 dark:text-gray-400">To Interest:</span>
-                          <span className="font-medium">{parseFloat(customAllocation.interestAmount || "0").toLocaleString()} SAR</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-sm text-gray-600 dark:text-gray-400">To Principal:</span>
-                          <span className="font-medium">{parseFloat(customAllocation.principalAmount || "0").toLocaleString()} SAR</span>
+                          <span className="text-emerald-600">{((balanceData as any).total - allocation.total).toLocaleString()} SAR</span>
                         </div>
                       </div>
                     </div>
@@ -62,9 +62,13 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
+import { MEMBER_ROLE_LABELS } from "@shared/permissions";
+import type { MemberRole } from "@shared/schema";
 import { useSoundEffects } from "@/hooks/useSoundEffects";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { PageContainer, PageHeader, Section } from "@/components/PageContainer";
+import { LlmSettingsCard } from "@/components/LlmSettingsCard";
 
 // Profile schema
 const profileSchema = z.object({
@@ -262,6 +266,7 @@ export default function UserSettingsPage() {
   const { toast } = useToast();
   const { playSuccess, playError, playClick } = useSoundEffects();
   const [activeTab, setActiveTab] = useState("profile");
+  const { can } = usePermissions();
 
   // Fetch user data
   const { data: user } = useQuery({
@@ -553,10 +558,12 @@ export default function UserSettingsPage() {
               <Shield className="h-4 w-4" />
               <span className="hidden sm:inline">Security</span>
             </TabsTrigger>
-            <TabsTrigger value="team" className="flex items-center gap-2 h-12" data-testid="tab-team">
-              <Building2 className="h-4 w-4" />
-              <span className="hidden sm:inline">Team</span>
-            </TabsTrigger>
+            {can('organization', 'read') && (
+              <TabsTrigger value="team" className="flex items-center gap-2 h-12" data-testid="tab-team">
+                <Building2 className="h-4 w-4" />
+                <span className="hidden sm:inline">Team</span>
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Profile Tab */}
@@ -1460,6 +1467,8 @@ export default function UserSettingsPage() {
                 </Form>
               </CardContent>
             </Card>
+
+            <LlmSettingsCard />
             </Section>
           </TabsContent>
 
@@ -1570,11 +1579,13 @@ export default function UserSettingsPage() {
           </TabsContent>
 
           {/* Team Management Tab */}
-          <TabsContent value="team">
-            <Section className="space-y-6">
-              <TeamManagementSection />
-            </Section>
-          </TabsContent>
+          {can('organization', 'read') && (
+            <TabsContent value="team">
+              <Section className="space-y-6">
+                <TeamManagementSection />
+              </Section>
+            </TabsContent>
+          )}
         </Tabs>
       </Section>
     </PageContainer>
@@ -1644,6 +1655,27 @@ function TeamManagementSection() {
     },
   });
 
+  // Change member role mutation
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: MemberRole }) => {
+      return await apiRequest('PUT', `/api/organization/members/${userId}/role`, { role });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Role updated",
+        description: "The team member's role has been changed",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/organization/members'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update role",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Cancel invitation mutation
   const cancelInvitationMutation = useMutation({
     mutationFn: async (invitationId: string) => {
@@ -1748,8 +1780,23 @@ function TeamManagementSection() {
                     </div>
                   </div>
                   <div className="flex items-center gap-3">
-                    {member.isOwner && (
-                      <Badge variant="secondary">Owner</Badge>
+                    {isOwner && !member.isOwner ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role: role as MemberRole })}
+                        disabled={updateRoleMutation.isPending}
+                      >
+                        <SelectTrigger className="w-44" data-testid={`select-member-role-${member.userId}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(['treasury_manager', 'analyst', 'auditor'] as const).map(role => (
+                            <SelectItem key={role} value={role}>{MEMBER_ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{MEMBER_ROLE_LABELS[member.role as MemberRole] ?? "Member"}</Badge>
                     )}
                     {isOwner && !member.isOwner && (
                       <Button
@@ -1,9 +1,35 @@
 import { IStorage } from './storage';
-import type { Loan, Facility, Collateral, Bank } from '@shared/schema';
+import type { Loan, Facility, Collateral, Bank, MemberRole } from '@shared/schema';
+import type { AgentToolExecution } from '@shared/types';
+import { hasPermission, type PermissionArea } from '@shared/permissions';
 import { nanoid } from 'nanoid';
-
-const DEEPSEEK_API_URL = "https://api.deepseek.com/v1/chat/completions";
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY || "";
+import { ApprovalService } from './approvalService';
+import { LlmClient, type LlmMessage, type LlmTool, type LlmToolCall } from './llmClient';
+
+// Functions that change data, with the area the member's role must be able to write
+const WRITE_FUNCTION_AREAS: Record<string, PermissionArea> = {
+  createLoan: 'loans',
+  updateLoan: 'loans',
+  settleLoan: 'loans',
+  revolveLoan: 'loans',
+  setReminder: 'loans',
+  createFacility: 'facilities',
+  updateCollateral: 'collateral',
+};
+
+// Cache invalidation flag raised by each write function
+const FUNCTION_METADATA: Record<string, keyof NonNullable<AgentResponse['metadata']>> = {
+  createLoan: 'loanCreated',
+  updateLoan: 'loanUpdated',
+  settleLoan: 'loanSettled',
+  revolveLoan: 'loanRevolved',
+  createFacility: 'facilityCreated',
+  updateCollateral: 'collateralUpdated',
+  setReminder: 'reminderCreated',
+};
+
+// Rounds in which the model may call functions; the round after the last must answer in text
+const MAX_TOOL_ROUNDS = 5;
 
 export interface AgentMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
@@ -24,10 +50,12 @@ export interface AgentResponse {
   executed?: boolean;
   data?: any;
   error?: string;
+  trace?: AgentToolExecution[];
   metadata?: {
     loanCreated?: boolean;
     loanUpdated?: boolean;
     loanSettled?: boolean;
+    loanRevolved?: boolean;
     facilityCreated?: boolean;
     facilityUpdated?: boolean;
     bankCreated?: boolean;
@@ -88,8 +116,8 @@ When user gives specific commands with data, ALWAYS follow this flow:
    - If user provides more info, update and re-confirm
 
 4️⃣ EXECUTE & REPORT:
-   - Call the appropriate function
-   - Report success or error transparently
+   - Call the appropriate function; when the user asks for several actions, call all of them (independent calls may go in the same turn) and use their results before answering
+   - Report success or error transparently, for every action
    - If error (e.g., no facility found), explain clearly what's missing
 
 CRITICAL EXAMPLES:
@@ -144,6 +172,7 @@ Important guidelines:
 When creating facilities: Ask for bank name and credit limit (minimum), use smart defaults for other fields
 When creating loans: Check facility exists (or offer to create one), confirm with user, then execute
 When settling loans: Verify loan exists, confirm settlement details, then execute
+When revolving loans: Verify loan exists, confirm the new due date and SIBOR fix, then execute - never revolve by editing loan dates
 When setting reminders: Verify loan exists, confirm reminder details, then execute`;
   }
 
@@ -225,6 +254,25 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
           }
         }
       },
+      {
+        type: "function",
+        function: {
+          name: "revolveLoan",
+          description: "Roll an active loan over into a new cycle: closes the current loan and opens a linked loan for the new period",
+          parameters: {
+            type: "object",
+            properties: {
+              loanId: { type: "string", description: "The loan ID to revolve" },
+              dueDate: { type: "string", description: "Due date of the new cycle (YYYY-MM-DD format)" },
+              revolveDate: { type: "string", description: "Rollover date (YYYY-MM-DD format), defaults to today" },
+              siborRate: { type: "number", description: "New SIBOR fix percentage, defaults to the current loan's rate" },
+              margin: { type: "number", description: "Margin over SIBOR percentage, defaults to the current loan's margin" },
+              amount: { type: "number", description: "Principal to roll over in SAR, defaults to the full outstanding principal" }
+            },
+            required: ["loanId", "dueDate"]
+          }
+        }
+      },
       {
         type: "function",
         function: {
@@ -386,7 +434,8 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
     ];
   }
 
-  async processChat(messages: AgentMessage[], userId: string, organizationId: string): Promise<AgentResponse> {
+  async processChat(messages: AgentMessage[], userId: string, organizationId: string, memberRole?: MemberRole): Promise<AgentResponse> {
+    const trace: AgentToolExecution[] = [];
     try {
       // Add system prompt if not present
       if (messages[0]?.role !== 'system') {
@@ -396,98 +445,166 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
         });
       }
 
-      const response = await fetch(DEEPSEEK_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${DEEPSEEK_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: 'deepseek-chat',
-          messages,
-          tools: this.getFunctionDefinitions(),
-          temperature: 0.7
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`DeepSeek API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const assistantMessage = data.choices[0].message;
-
-      // Check if AI wants to call a function
-      if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-        const toolCall = assistantMessage.tool_calls[0];
-        const functionName = toolCall.function.name;
-        const functionArgs = JSON.parse(toolCall.function.arguments);
-
-        // Execute the function
-        const result = await this.executeFunction(functionName, functionArgs, userId, organizationId);
-
-        // Add assistant message and tool result to conversation
-        messages.push(assistantMessage);
-        messages.push({
-          role: 'tool',
-          content: JSON.stringify(result),
-          tool_call_id: toolCall.id
+      for (let round = 1; ; round++) {
+        const completion = await LlmClient.complete(this.storage, {
+          feature: 'agent',
+          organizationId,
+          userId,
+          messages: messages as LlmMessage[],
+          tools: round <= MAX_TOOL_ROUNDS ? this.getFunctionDefinitions() as LlmTool[] : undefined,
+          temperature: 0.7,
         });
+        const assistantMessage = completion.message;
 
-        // Get final response from AI
-        const finalResponse = await fetch(DEEPSEEK_API_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${DEEPSEEK_API_KEY}`
-          },
-          body: JSON.stringify({
-            model: 'deepseek-chat',
-            messages,
-            tools: this.getFunctionDefinitions(),
-            temperature: 0.7
-          })
-        });
+        // Done once the model answers without asking for functions
+        if (!assistantMessage.tool_calls?.length || round > MAX_TOOL_ROUNDS) {
+          return this.buildResponse(assistantMessage.content ?? '', trace);
+        }
 
-        const finalData = await finalResponse.json();
-        
-        // Build metadata for cache invalidation
-        const metadata: any = {};
-        if (functionName === 'createLoan') {
-          metadata.loanCreated = true;
-        } else if (functionName === 'updateLoan') {
-          metadata.loanUpdated = true;
-        } else if (functionName === 'settleLoan') {
-          metadata.loanSettled = true;
-        } else if (functionName === 'createFacility') {
-          metadata.facilityCreated = true;
-        } else if (functionName === 'updateCollateral') {
-          metadata.collateralUpdated = true;
-        } else if (functionName === 'setReminder') {
-          metadata.reminderCreated = true;
+        // Run the requested functions and feed their results back, in the order they were asked for
+        const executions = await this.executeToolCalls(assistantMessage.tool_calls, round, userId, organizationId, memberRole);
+        trace.push(...executions);
+        messages.push(assistantMessage as AgentMessage);
+        for (const execution of executions) {
+          messages.push({
+            role: 'tool',
+            content: JSON.stringify(execution.result),
+            tool_call_id: execution.toolCallId
+          });
         }
-        
+      }
+
+    } catch (error) {
+      console.error('Agent service error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      // Functions from earlier rounds have already run, so report them instead of inviting a blind retry
+      const completed = trace
+        .filter(execution => execution.status === 'succeeded' && WRITE_FUNCTION_AREAS[execution.name])
+        .map(execution => execution.name);
+      if (trace.length > 0) {
         return {
-          message: finalData.choices[0].message.content,
-          executed: true,
-          data: result,
-          metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+          ...this.buildResponse(completed.length > 0
+            ? `I encountered an error before finishing your request. These changes were already made: ${completed.join(', ')}. Please review them before trying again.`
+            : "I encountered an error before finishing your request. No changes were made. Please try again.", trace),
+          error: errorMessage
         };
       }
 
-      // No function call, just return the message
       return {
-        message: assistantMessage.content,
-        executed: false
+        message: "I apologize, but I encountered an error processing your request. Please try again.",
+        error: errorMessage
       };
+    }
+  }
+
+  /**
+   * Execute the function calls of one round. Calls that cannot affect each other run in parallel:
+   * reads always, writes when they touch different records. Writes to the same loan, facility,
+   * bank or collateral run one after another in the order the model asked for them.
+   */
+  private async executeToolCalls(
+    toolCalls: LlmToolCall[],
+    round: number,
+    userId: string,
+    organizationId: string,
+    memberRole?: MemberRole
+  ): Promise<AgentToolExecution[]> {
+    const chains = new Map<string, LlmToolCall[]>();
+    toolCalls.forEach((toolCall, index) => {
+      const key = this.dependencyKey(toolCall) ?? `independent:${index}`;
+      chains.set(key, [...(chains.get(key) ?? []), toolCall]);
+    });
 
+    const executions = new Map<string, AgentToolExecution>();
+    await Promise.all(Array.from(chains.values()).map(async chain => {
+      for (const toolCall of chain) {
+        executions.set(toolCall.id, await this.executeToolCall(toolCall, round, userId, organizationId, memberRole));
+      }
+    }));
+    return toolCalls.map(toolCall => executions.get(toolCall.id)!);
+  }
+
+  /**
+   * Record a write function changes, or null for reads
+   */
+  private dependencyKey(toolCall: LlmToolCall): string | null {
+    if (!WRITE_FUNCTION_AREAS[toolCall.function.name]) return null;
+
+    let args: any;
+    try {
+      args = JSON.parse(toolCall.function.arguments || '{}');
+    } catch {
+      return null;
+    }
+    if (args.loanId) return `loan:${args.loanId}`;
+    if (args.collateralId) return `collateral:${args.collateralId}`;
+    if (args.facilityId) return `facility:${args.facilityId}`;
+    if (args.bankName) return `bank:${String(args.bankName).toLowerCase()}`;
+    return 'writes';
+  }
+
+  private async executeToolCall(
+    toolCall: LlmToolCall,
+    round: number,
+    userId: string,
+    organizationId: string,
+    memberRole?: MemberRole
+  ): Promise<AgentToolExecution> {
+    const started = Date.now();
+    const functionName = toolCall.function.name;
+    const execution = (status: AgentToolExecution['status'], args: Record<string, any> | null, result: any): AgentToolExecution => ({
+      round,
+      toolCallId: toolCall.id,
+      name: functionName,
+      arguments: args,
+      status,
+      result,
+      durationMs: Date.now() - started,
+    });
+
+    let functionArgs: Record<string, any>;
+    try {
+      functionArgs = JSON.parse(toolCall.function.arguments || '{}');
+    } catch {
+      return execution('failed', null, { success: false, error: 'The function arguments are not valid JSON' });
+    }
+
+    const writeArea = WRITE_FUNCTION_AREAS[functionName];
+    if (writeArea && !hasPermission(memberRole, writeArea, 'write')) {
+      return execution('denied', functionArgs, { success: false, error: `Your role does not allow changes to ${writeArea}` });
+    }
+
+    try {
+      const result = await this.executeFunction(functionName, functionArgs, userId, organizationId);
+      return execution(result?.success === false ? 'failed' : 'succeeded', functionArgs, result);
     } catch (error) {
-      console.error('Agent service error:', error);
-      return {
-        message: "I apologize, but I encountered an error processing your request. Please try again.",
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
+      console.error(`Agent function ${functionName} failed:`, error);
+      return execution('failed', functionArgs, { success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  private buildResponse(message: string, trace: AgentToolExecution[]): AgentResponse {
+    if (trace.length === 0) {
+      return { message, executed: false };
     }
+
+    // Build metadata for cache invalidation
+    const metadata: NonNullable<AgentResponse['metadata']> = {};
+    for (const execution of trace) {
+      const flag = FUNCTION_METADATA[execution.name];
+      if (flag && execution.status === 'succeeded') {
+        metadata[flag] = true;
+      }
+    }
+
+    return {
+      message,
+      executed: true,
+      data: trace.length === 1 ? trace[0].result : trace.map(execution => execution.result),
+      trace,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+    };
   }
 
   private async executeFunction(functionName: string, args: any, userId: string, organizationId: string): Promise<any> {
@@ -500,6 +617,8 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
         return await this.updateLoan(args, userId, organizationId);
       case 'settleLoan':
         return await this.settleLoan(args, userId, organizationId);
+      case 'revolveLoan':
+        return await this.revolveLoan(args, userId, organizationId);
       case 'setReminder':
         return await this.setReminder(args, userId, organizationId);
       case 'queryLoanDetails':
@@ -507,7 +626,7 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
       case 'calculateTotals':
         return await this.calculateTotals(args, organizationId);
       case 'updateCollateral':
-        return await this.updateCollateral(args, organizationId);
+        return await this.updateCollateral(args, userId, organizationId);
       case 'checkFacilityAvailability':
         return await this.checkFacilityAvailability(args, organizationId);
       case 'analyzeBankConcentration':
@@ -546,7 +665,7 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
         return { success: false, error: 'Facility not found or not accessible' };
       }
       
-      const loan = await this.storage.createLoan({
+      const loanData = {
         userId,
         organizationId,
         facilityId,
@@ -558,8 +677,20 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
         bankRate,
         referenceNumber,
         notes: purpose || 'Via AI Assistant',
-        status: 'active'
-      });
+        status: 'active' as const
+      };
+      if (await ApprovalService.requiresApproval(this.storage, organizationId, 'loan_drawdown', loanData.amount)) {
+        await ApprovalService.submit(this.storage, {
+          organizationId,
+          action: 'loan_drawdown',
+          amount: loanData.amount,
+          payload: loanData,
+          summary: `Drawdown ${referenceNumber} from ${facility.bank?.name || 'facility'}`,
+          makerId: userId,
+        });
+        return { success: true, pendingApproval: true, message: 'Loan drawdown sent for approval' };
+      }
+      const loan = await this.storage.createLoan(loanData);
       return { success: true, loanId: loan.id, message: 'Loan created successfully' };
     }
 
@@ -581,7 +712,7 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
         return { success: false, error: `No active facility found for ${bank.name}` };
       }
 
-      const loan = await this.storage.createLoan({
+      const loanData = {
         userId,
         organizationId,
         facilityId: facility.id,
@@ -593,8 +724,20 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
         bankRate,
         referenceNumber,
         notes: purpose || 'Via AI Assistant',
-        status: 'active'
-      });
+        status: 'active' as const
+      };
+      if (await ApprovalService.requiresApproval(this.storage, organizationId, 'loan_drawdown', loanData.amount)) {
+        await ApprovalService.submit(this.storage, {
+          organizationId,
+          action: 'loan_drawdown',
+          amount: loanData.amount,
+          payload: loanData,
+          summary: `Drawdown ${referenceNumber} from ${bank.name}`,
+          makerId: userId,
+        });
+        return { success: true, pendingApproval: true, bankName: bank.name, message: 'Loan drawdown sent for approval' };
+      }
+      const loan = await this.storage.createLoan(loanData);
       return { success: true, loanId: loan.id, bankName: bank.name, message: 'Loan created successfully' };
     }
 
@@ -689,14 +832,73 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
       return { success: false, error: 'Loan not found' };
     }
 
-    await this.storage.settleLoan(loanId, {
+    const settlement = {
       date: settlementDate,
       amount: settlementAmount?.toString()
-    }, userId);
+    };
+    if (await ApprovalService.requiresApproval(this.storage, organizationId, 'loan_settlement', settlement.amount ?? loan.amount)) {
+      await ApprovalService.submit(this.storage, {
+        organizationId,
+        action: 'loan_settlement',
+        loanId,
+        amount: settlement.amount ?? loan.amount,
+        payload: settlement,
+        summary: `Settle loan ${loan.referenceNumber} on ${settlementDate}`,
+        makerId: userId,
+      });
+      return { success: true, pendingApproval: true, loanId, message: 'Loan settlement sent for approval' };
+    }
+
+    await this.storage.settleLoan(loanId, settlement, userId);
 
     return { success: true, loanId, message: 'Loan settled successfully' };
   }
 
+  private async revolveLoan(args: any, userId: string, organizationId: string) {
+    const { loanId, dueDate, revolveDate, siborRate, margin, amount } = args;
+
+    const loan = await this.storage.getLoanById(loanId);
+    if (!loan || loan.organizationId !== organizationId) {
+      return { success: false, error: 'Loan not found' };
+    }
+
+    try {
+      const revolve = {
+        dueDate,
+        startDate: revolveDate || new Date().toISOString().split('T')[0],
+        siborRate: siborRate?.toString(),
+        margin: margin?.toString(),
+        amount: amount?.toString(),
+        memo: 'Revolved via AI Assistant',
+      };
+      if (await ApprovalService.revolveRequiresApproval(this.storage, organizationId, loan, revolve)) {
+        await ApprovalService.submit(this.storage, {
+          organizationId,
+          action: 'revolve',
+          loanId,
+          amount: revolve.amount ?? loan.amount,
+          payload: revolve,
+          summary: `Revolve loan ${loan.referenceNumber} on ${revolve.startDate} to ${dueDate}`,
+          makerId: userId,
+        });
+        return { success: true, pendingApproval: true, loanId, message: 'Loan revolve sent for approval' };
+      }
+
+      const { newLoan } = await this.storage.revolveLoan(loanId, revolve, userId);
+
+      return {
+        success: true,
+        loanId,
+        newLoanId: newLoan.id,
+        referenceNumber: newLoan.referenceNumber,
+        cycleNumber: newLoan.cycleNumber,
+        message: `Loan revolved into cycle ${newLoan.cycleNumber}`
+      };
+    } catch (error) {
+      return { success: false, error: `Failed to revolve loan: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  }
+
   private async setReminder(args: any, userId: string, organizationId: string) {
     const { loanId, reminderDate, daysBefore, message } = args;
     
@@ -809,7 +1011,7 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
     }
   }
 
-  private async updateCollateral(args: any, organizationId: string) {
+  private async updateCollateral(args: any, userId: string, organizationId: string) {
     const { collateralId, newValue, valuationDate } = args;
     
     const allCollateral = await this.storage.getUserCollateral(organizationId);
@@ -819,10 +1021,11 @@ When setting reminders: Verify loan exists, confirm reminder details, then execu
       return { success: false, error: 'Collateral not found' };
     }
 
-    await this.storage.updateCollateral(collateralId, organizationId, {
-      currentValue: newValue.toString(),
-      valuationDate: valuationDate || new Date().toISOString().split('T')[0]
-    });
+    await this.storage.addCollateralValuation(collateralId, organizationId, {
+      value: newValue.toString(),
+      effectiveDate: valuationDate || new Date().toISOString().split('T')[0],
+      source: 'AI assistant'
+    }, userId);
 
     return { success: true, collateralId, newValue, message: 'Collateral updated successfully' };
   }
@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Bank } from '@shared/schema';
+import { MemoryStorage } from './storage';
+import { LlmClient, MockLlmProvider } from './llmClient';
+import {
+  AgreementExtractionError,
+  AgreementExtractionService,
+  LlmAgreementModel,
+  MAX_AGREEMENT_CHARS,
+  OfflineAgreementModel,
+  type AgreementExtractionModel,
+} from './agreementExtractionService';
+
+const attachment = { id: 'att-1', fileName: 'facility-letter.pdf' };
+const banks = [
+  { id: 'bank-rb', name: 'Riyad Bank', code: 'RIBL' },
+  { id: 'bank-snb', name: 'Saudi National Bank', code: 'SNB' },
+] as Bank[];
+
+const AGREEMENT = `This facility letter is issued by Riyad Bank to the Borrower.
+The Bank makes available a revolving credit facility.
+The total facility limit is SAR 50,000,000.
+The margin is 1.75% per annum over SAIBOR.
+The tenor of the facility is 12 months.
+The effective date of this letter is dated 2025-01-15.
+A Letters of Credit sub-limit of SAR 20,000,000 applies.
+A Working Capital sub-limit of SAR 40,000,000 applies.
+The Borrower shall maintain a debt service coverage ratio of at least 1.25 times.
+An arrangement fee of 0.5% of the facility limit is payable on signing.`;
+
+// Answers with the given JSON whatever the prompt
+const scripted = (answer: unknown): AgreementExtractionModel => ({
+  complete: async () => typeof answer === 'string' ? answer : JSON.stringify(answer),
+});
+
+test('offline model reads the terms of a facility letter', async () => {
+  const draft = await AgreementExtractionService.extract(new OfflineAgreementModel(), attachment, AGREEMENT, banks);
+
+  assert.equal(draft.attachmentId, 'att-1');
+  assert.equal(draft.bankName.value, 'Riyad Bank');
+  assert.equal(draft.bankId, 'bank-rb');
+  assert.equal(draft.facilityType.value, 'revolving');
+  assert.equal(draft.creditLimit.value, '50000000.00');
+  assert.equal(draft.creditLimit.citationFound, true);
+  assert.equal(draft.margin.value, '1.75');
+  assert.equal(draft.tenorMonths.value, 12);
+  assert.equal(draft.startDate.value, '2025-01-15');
+  assert.deepEqual(draft.creditLines.map(line => [line.creditLineType.value, line.creditLimit.value]), [
+    ['letter_of_credit', '20000000.00'],
+    ['working_capital', '40000000.00'],
+  ]);
+  assert.equal(draft.covenants.length, 1);
+  assert.equal(draft.fees.length, 1);
+});
+
+test('works out the expiry from the start date and tenor and flags sub-limits over the facility limit', async () => {
+  const draft = await AgreementExtractionService.extract(new OfflineAgreementModel(), attachment, AGREEMENT, banks);
+
+  assert.equal(draft.expiryDate.value, '2026-01-15');
+  assert.ok(draft.warnings.includes('Expiry date worked out from the effective date and tenor'));
+  assert.ok(draft.warnings.some(warning => warning.startsWith('Sub-limits add up to more than the facility limit')));
+});
+
+test('caps the confidence of values whose citation is not in the agreement', async () => {
+  const draft = await AgreementExtractionService.extract(scripted({
+    bankName: { value: 'Saudi National Bank', confidence: 0.9, citation: 'issued by Saudi National Bank' },
+    creditLimit: { value: '50,000,000', confidence: 0.95, citation: 'The total facility limit is SAR 50,000,000.' },
+    margin: { value: 250, confidence: 0.9, citation: 'margin' },
+  }), attachment, AGREEMENT, banks);
+
+  assert.equal(draft.bankId, 'bank-snb');
+  assert.equal(draft.bankName.citationFound, false);
+  assert.equal(draft.bankName.confidence, 0.3);
+  assert.equal(draft.creditLimit.value, '50000000.00');
+  assert.equal(draft.creditLimit.confidence, 0.95);
+  // A margin over 100% is not a margin
+  assert.equal(draft.margin.value, null);
+  assert.equal(draft.margin.confidence, 0);
+});
+
+test('reads answers wrapped in a code fence and ignores malformed fields', async () => {
+  const draft = await AgreementExtractionService.extract(scripted('```json\n' + JSON.stringify({
+    facilityType: { value: ' Bridge ', confidence: 0.8, citation: 'revolving credit facility' },
+    startDate: { value: '15 January 2025', confidence: 0.8, citation: 'dated 2025-01-15' },
+    creditLines: 'none',
+    covenants: [null, { value: '  ', citation: 'x' }],
+  }) + '\n```'), attachment, AGREEMENT, banks);
+
+  assert.equal(draft.facilityType.value, 'bridge');
+  assert.equal(draft.startDate.value, null);
+  assert.deepEqual(draft.creditLines, []);
+  assert.deepEqual(draft.covenants, []);
+  assert.equal(draft.bankId, null);
+});
+
+test('warns when an agreement is cut to the prompt limit', async () => {
+  const longText = AGREEMENT + '\n' + 'Schedule text. '.repeat(MAX_AGREEMENT_CHARS / 10);
+  let prompted = '';
+  const draft = await AgreementExtractionService.extract({
+    complete: async (_systemPrompt, agreementText) => {
+      prompted = agreementText;
+      return '{}';
+    },
+  }, attachment, longText, banks);
+
+  assert.equal(prompted.length, MAX_AGREEMENT_CHARS);
+  assert.ok(draft.warnings.some(warning => warning.startsWith('Only the first')));
+});
+
+test('rejects agreements without text and answers that are not JSON', async () => {
+  await assert.rejects(
+    AgreementExtractionService.extract(new OfflineAgreementModel(), attachment, '[Unable to extract text from scan.pdf]', banks),
+    AgreementExtractionError
+  );
+  await assert.rejects(
+    AgreementExtractionService.extract(scripted('I could not find any terms.'), attachment, AGREEMENT, banks),
+    AgreementExtractionError
+  );
+});
+
+test('language model extraction goes through LlmClient as a JSON request', async () => {
+  const storage = new MemoryStorage();
+  await storage.setLlmSettings('org-extract', { provider: 'mock' }, 'user-1');
+  const requests: boolean[] = [];
+  LlmClient.registerProvider(new MockLlmProvider(request => {
+    requests.push(!!request.json);
+    return JSON.stringify({ creditLimit: { value: 50000000, confidence: 0.9, citation: 'The total facility limit is SAR 50,000,000.' } });
+  }));
+
+  try {
+    const model = await AgreementExtractionService.model(storage, 'org-extract', 'user-1');
+    assert.ok(model instanceof LlmAgreementModel);
+
+    const draft = await AgreementExtractionService.extract(model, attachment, AGREEMENT, banks);
+    assert.deepEqual(requests, [true]);
+    assert.equal(draft.creditLimit.value, '50000000.00');
+
+    const usage = await storage.getLlmUsageSummary('org-extract', LlmClient.monthStart());
+    assert.deepEqual(usage.map(row => [row.feature, row.calls]), [['agreement_extraction', 1]]);
+  } finally {
+    LlmClient.registerProvider(new MockLlmProvider());
+  }
+});
@@ -0,0 +1,376 @@
+import { z } from 'zod';
+import {
+  creditLineTypeZodEnum,
+  facilityTypeZodEnum,
+  type Attachment,
+  type Bank,
+  type CreditLineType,
+  type FacilityType,
+} from '@shared/schema';
+import type { ExtractedCreditLine, ExtractedField, FacilityAgreementDraft } from '@shared/types';
+import type { IStorage } from './storage';
+import { InterestService } from './interestService';
+import { LlmClient } from './llmClient';
+
+// Agreements are long; the operative terms are nearly always in the first pages and the schedules
+export const MAX_AGREEMENT_CHARS = 60000;
+
+// Confidence of a value whose citation does not occur in the agreement is capped here
+const UNCITED_CONFIDENCE = 0.3;
+
+/**
+ * Reads a facility agreement and answers with the JSON described in the prompt. Kept behind an
+ * interface so extraction can run against the offline model in tests and without an API key.
+ */
+export interface AgreementExtractionModel {
+  complete(systemPrompt: string, agreementText: string): Promise<string>;
+}
+
+export class AgreementExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgreementExtractionError';
+    Object.setPrototypeOf(this, AgreementExtractionError.prototype);
+  }
+}
+
+/**
+ * The organization's language model, through LlmClient
+ */
+export class LlmAgreementModel implements AgreementExtractionModel {
+  constructor(private storage: IStorage, private organizationId: string, private userId: string) {}
+
+  async complete(systemPrompt: string, agreementText: string): Promise<string> {
+    return await LlmClient.completeText(this.storage, {
+      feature: 'agreement_extraction',
+      organizationId: this.organizationId,
+      userId: this.userId,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: agreementText },
+      ],
+      temperature: 0,
+      json: true,
+    });
+  }
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+/**
+ * Deterministic pattern matching over the agreement text, used when no model is configured and in
+ * tests. It reads the usual phrasing of Saudi facility letters and answers in the model's format.
+ */
+export class OfflineAgreementModel implements AgreementExtractionModel {
+  async complete(_systemPrompt: string, agreementText: string): Promise<string> {
+    const sentences = agreementText
+      .split(/(?<=[.;])\s+|\n+/)
+      .map(s => s.trim())
+      .filter(Boolean);
+    const find = (pattern: RegExp) => sentences.find(s => pattern.test(s));
+    const field = (value: unknown, citation: string | undefined, confidence = 0.6) =>
+      citation && value !== null && value !== undefined ? { value, confidence, citation } : null;
+
+    const bankLine = find(/\b[A-Z][\w&'-]*(?: [A-Z][\w&'-]*)* Bank\b|\bBank [A-Z]\w+/);
+    const bankName = bankLine?.match(/\b[A-Z][\w&'-]*(?: [A-Z][\w&'-]*)* Bank\b|\bBank [A-Z]\w+/)?.[0];
+
+    const typeLine = find(/revolving|working capital|bridge|bullet|term loan|guarantee facility/i);
+    const facilityType = typeLine ? OfflineAgreementModel.facilityTypeOf(typeLine) : null;
+
+    const limitLine = find(/(facility|credit|aggregate|total|principal)\s+(limit|amount)/i);
+    const creditLimit = limitLine ? OfflineAgreementModel.amountIn(limitLine) : null;
+
+    const marginLine = find(/margin/i);
+    const margin = marginLine?.match(/(\d+(?:\.\d+)?)\s*(?:%|per\s*cent|percent)/i)?.[1];
+
+    const tenorLine = find(/\b(tenor|term|period|duration)\b[^.]*\d+\s*(?:\(\w+\)\s*)?(months?|years?)/i);
+    const tenorMatch = tenorLine?.match(/(\d+)\s*(?:\(\w+\)\s*)?(months?|years?)/i);
+    const tenorMonths = tenorMatch ? parseInt(tenorMatch[1], 10) * (/year/i.test(tenorMatch[2]) ? 12 : 1) : null;
+
+    const startLine = find(/\b(effective|commencement|start|signing)\b.*\b(date|dated|on)\b/i);
+    const expiryLine = find(/\b(expiry|expire|expiration|maturity|final repayment|termination)\b/i);
+
+    const creditLines = sentences
+      .filter(s => /sub-?\s?limit/i.test(s) && OfflineAgreementModel.amountIn(s))
+      .map(s => {
+        const name = s.match(/([A-Z][\w/ ]*?)\s+sub-?\s?limit/i)?.[1]?.replace(/^(an?|the)\s+/i, '').trim() || 'Sub-limit';
+        return {
+          name: field(name, s, 0.5),
+          creditLineType: field(OfflineAgreementModel.creditLineTypeOf(s), s, 0.5),
+          creditLimit: field(OfflineAgreementModel.amountIn(s), s),
+          interestRate: null,
+        };
+      });
+
+    return JSON.stringify({
+      bankName: field(bankName, bankLine),
+      facilityType: field(facilityType, typeLine, 0.5),
+      creditLimit: field(creditLimit, limitLine),
+      margin: field(margin, marginLine),
+      tenorMonths: field(tenorMonths, tenorLine),
+      startDate: field(startLine ? OfflineAgreementModel.dateIn(startLine) : null, startLine, 0.5),
+      expiryDate: field(expiryLine ? OfflineAgreementModel.dateIn(expiryLine) : null, expiryLine, 0.5),
+      creditLines,
+      covenants: sentences
+        .filter(s => /\b(shall (maintain|not exceed|not fall)|covenant|ratio)\b/i.test(s))
+        .map(s => field(s, s, 0.5)),
+      fees: sentences
+        .filter(s => /\bfees?\b/i.test(s) && /\d/.test(s))
+        .map(s => field(s, s, 0.5)),
+    });
+  }
+
+  private static amountIn(text: string): string | null {
+    const match = text.match(/(?:SAR|SR|USD|\$)\s*([\d,]+(?:\.\d+)?)\s*(million|m\b|billion|bn\b)?/i)
+      ?? text.match(/([\d,]+(?:\.\d+)?)\s*(million|billion)?\s*(?:Saudi Riyals|riyals|SAR)/i);
+    if (!match) return null;
+    const scale = /^b/i.test(match[2] ?? '') ? 1e9 : /^m/i.test(match[2] ?? '') ? 1e6 : 1;
+    return String(parseFloat(match[1].replace(/,/g, '')) * scale);
+  }
+
+  private static dateIn(text: string): string | null {
+    const iso = text.match(/\b(\d{4}-\d{2}-\d{2})\b/);
+    if (iso) return iso[1];
+    const long = text.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]+),?\s+(\d{4})\b/);
+    const month = long ? MONTHS.indexOf(long[2].toLowerCase()) : -1;
+    if (!long || month < 0) return null;
+    return `${long[3]}-${String(month + 1).padStart(2, '0')}-${long[1].padStart(2, '0')}`;
+  }
+
+  private static facilityTypeOf(text: string): FacilityType {
+    if (/revolving/i.test(text)) return 'revolving';
+    if (/working capital/i.test(text)) return 'working_capital';
+    if (/bridge/i.test(text)) return 'bridge';
+    if (/bullet/i.test(text)) return 'bullet';
+    if (/guarantee/i.test(text)) return 'non_cash_guarantee';
+    return 'term';
+  }
+
+  private static creditLineTypeOf(text: string): CreditLineType {
+    if (/letters? of credit|\bL\/?Cs?\b/i.test(text)) return 'letter_of_credit';
+    if (/guarantee/i.test(text)) return 'bank_guarantee';
+    if (/overdraft/i.test(text)) return 'overdraft';
+    if (/trade/i.test(text)) return 'trade_finance';
+    if (/working capital/i.test(text)) return 'working_capital';
+    if (/real estate/i.test(text)) return 'real_estate_finance';
+    if (/equipment/i.test(text)) return 'equipment_finance';
+    if (/term loan/i.test(text)) return 'term_loan';
+    return 'other';
+  }
+}
+
+// The model's answer is read leniently; every value is normalized and checked afterwards
+const rawFieldSchema = z.object({
+  value: z.unknown(),
+  confidence: z.number().optional(),
+  citation: z.string().nullable().optional(),
+}).nullable().optional().catch(null);
+
+const rawDraftSchema = z.object({
+  bankName: rawFieldSchema,
+  facilityType: rawFieldSchema,
+  creditLimit: rawFieldSchema,
+  margin: rawFieldSchema,
+  tenorMonths: rawFieldSchema,
+  startDate: rawFieldSchema,
+  expiryDate: rawFieldSchema,
+  creditLines: z.array(z.object({
+    name: rawFieldSchema,
+    creditLineType: rawFieldSchema,
+    creditLimit: rawFieldSchema,
+    interestRate: rawFieldSchema,
+  })).catch([]).default([]),
+  covenants: z.array(rawFieldSchema).catch([]).default([]),
+  fees: z.array(rawFieldSchema).catch([]).default([]),
+});
+
+type RawField = z.infer<typeof rawFieldSchema>;
+
+const SYSTEM_PROMPT = `You extract the terms of a Saudi bank facility agreement for a treasury system.
+
+Answer with one JSON object and nothing else. Every field is either null (not stated in the agreement) or
+{ "value": ..., "confidence": 0-1, "citation": "<exact passage of the agreement the value was read from>" }.
+Quote citations verbatim from the agreement, no longer than one or two sentences. Never guess a value that is not stated.
+
+{
+  "bankName": field with the lending bank's name,
+  "facilityType": field, one of ${facilityTypeZodEnum.options.join(', ')},
+  "creditLimit": field, total facility limit as a plain number in SAR (e.g. 50000000),
+  "margin": field, margin over SIBOR / SAIBOR in percent as a plain number (e.g. 1.75),
+  "tenorMonths": field, tenor of the facility in months as an integer,
+  "startDate": field, effective date as YYYY-MM-DD,
+  "expiryDate": field, expiry or final maturity date as YYYY-MM-DD,
+  "creditLines": array of sub-limits, each { "name": field, "creditLineType": field (one of ${creditLineTypeZodEnum.options.join(', ')}), "creditLimit": field (plain number in SAR), "interestRate": field (margin in percent, null when the facility margin applies) },
+  "covenants": array of fields, each value a one-line summary of a financial or general covenant,
+  "fees": array of fields, each value a one-line summary of a fee (arrangement, commitment, LC or guarantee commission, ...)
+}`;
+
+export class AgreementExtractionService {
+  /**
+   * The organization's language model when its provider is configured, otherwise the offline
+   * pattern matcher
+   */
+  static async model(storage: IStorage, organizationId: string, userId: string): Promise<AgreementExtractionModel> {
+    return await LlmClient.isAvailable(storage, organizationId)
+      ? new LlmAgreementModel(storage, organizationId, userId)
+      : new OfflineAgreementModel();
+  }
+
+  /**
+   * Parse the text of a facility agreement into a draft facility with its sub-limits, covenants and
+   * fees. Nothing is saved; the user reviews the draft and confirms it.
+   */
+  static async extract(
+    model: AgreementExtractionModel,
+    attachment: Pick<Attachment, 'id' | 'fileName'>,
+    agreementText: string,
+    banks: Bank[]
+  ): Promise<FacilityAgreementDraft> {
+    const text = agreementText.trim();
+    if (!text || /^\[(Unable to extract|Error extracting)/.test(text)) {
+      throw new AgreementExtractionError('No text could be read from the agreement');
+    }
+
+    const warnings: string[] = [];
+    const promptText = text.slice(0, MAX_AGREEMENT_CHARS);
+    if (text.length > MAX_AGREEMENT_CHARS) {
+      warnings.push(`Only the first ${MAX_AGREEMENT_CHARS.toLocaleString('en-US')} characters of the agreement were read`);
+    }
+
+    let raw: z.infer<typeof rawDraftSchema>;
+    try {
+      const answer = await model.complete(SYSTEM_PROMPT, promptText);
+      raw = rawDraftSchema.parse(JSON.parse(answer.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '')));
+    } catch (error) {
+      console.error('Error reading agreement extraction:', error);
+      throw new AgreementExtractionError('The agreement could not be read into a draft');
+    }
+
+    const haystack = this.normalize(promptText);
+    const field = <T>(rawField: RawField, parse: (value: unknown) => T | null): ExtractedField<T> =>
+      this.field(rawField, parse, haystack);
+
+    const creditLimit = field(raw.creditLimit, this.parseAmount);
+    const tenorMonths = field(raw.tenorMonths, this.parseMonths);
+    const startDate = field(raw.startDate, this.parseDate);
+    let expiryDate = field(raw.expiryDate, this.parseDate);
+
+    // An agreement that only states a tenor expires that many months after its effective date
+    if (expiryDate.value === null && startDate.value !== null && tenorMonths.value !== null) {
+      expiryDate = {
+        value: InterestService.addMonths(startDate.value, tenorMonths.value),
+        confidence: Math.min(startDate.confidence, tenorMonths.confidence),
+        citation: tenorMonths.citation,
+        citationFound: tenorMonths.citationFound,
+      };
+      warnings.push('Expiry date worked out from the effective date and tenor');
+    }
+
+    const creditLines: ExtractedCreditLine[] = raw.creditLines.map(line => ({
+      name: field(line.name, this.parseText),
+      creditLineType: field(line.creditLineType, value => this.parseEnum(creditLineTypeZodEnum, value) ?? 'other'),
+      creditLimit: field(line.creditLimit, this.parseAmount),
+      interestRate: field(line.interestRate, this.parsePercent),
+    }));
+
+    const subLimitTotal = creditLines.reduce((sum, line) => sum + parseFloat(line.creditLimit.value ?? '0'), 0);
+    if (creditLimit.value !== null && InterestService.roundAmount(subLimitTotal) > parseFloat(creditLimit.value)) {
+      warnings.push('Sub-limits add up to more than the facility limit; credit lines may not exceed it in total');
+    }
+
+    const bankName = field(raw.bankName, this.parseText);
+    const bankId = bankName.value ? this.matchBank(bankName.value, banks)?.id ?? null : null;
+    if (bankName.value && !bankId) {
+      warnings.push(`No bank matches "${bankName.value}"`);
+    }
+
+    return {
+      attachmentId: attachment.id,
+      fileName: attachment.fileName,
+      bankName,
+      bankId,
+      facilityType: field(raw.facilityType, value => this.parseEnum(facilityTypeZodEnum, value)),
+      creditLimit,
+      margin: field(raw.margin, this.parsePercent),
+      tenorMonths,
+      startDate,
+      expiryDate,
+      creditLines,
+      covenants: raw.covenants.map(c => field(c, this.parseText)).filter(c => c.value !== null),
+      fees: raw.fees.map(f => field(f, this.parseText)).filter(f => f.value !== null),
+      warnings,
+    };
+  }
+
+  /**
+   * Facility terms text recording the covenants and fees, which have no columns of their own
+   */
+  static termsFrom(covenants: string[], fees: string[], fileName: string): string {
+    const sections = [`Imported from ${fileName}`];
+    if (covenants.length > 0) sections.push(`Covenants:\n${covenants.map(c => `- ${c}`).join('\n')}`);
+    if (fees.length > 0) sections.push(`Fees:\n${fees.map(f => `- ${f}`).join('\n')}`);
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Bank whose name or code appears in the extracted name, or the other way round
+   */
+  static matchBank(name: string, banks: Bank[]): Bank | undefined {
+    const wanted = this.normalize(name).replace(/\b(the|bank|al|saudi|company|limited|ltd)\b/g, '').replace(/\s+/g, ' ').trim();
+    if (!wanted) return undefined;
+    return banks.find(bank => {
+      const candidate = this.normalize(bank.name).replace(/\b(the|bank|al|saudi|company|limited|ltd)\b/g, '').replace(/\s+/g, ' ').trim();
+      return (candidate && (candidate.includes(wanted) || wanted.includes(candidate)))
+        || this.normalize(name).split(' ').includes(bank.code.toLowerCase());
+    });
+  }
+
+  private static field<T>(raw: RawField, parse: (value: unknown) => T | null, haystack: string): ExtractedField<T> {
+    const value = raw ? parse(raw.value) : null;
+    if (!raw || value === null) {
+      return { value: null, confidence: 0, citation: null, citationFound: false };
+    }
+
+    const citation = raw.citation?.trim() || null;
+    const citationFound = !!citation && haystack.includes(this.normalize(citation));
+    const confidence = Math.min(Math.max(raw.confidence ?? 0.5, 0), 1);
+    return {
+      value,
+      confidence: citationFound ? confidence : Math.min(confidence, UNCITED_CONFIDENCE),
+      citation,
+      citationFound,
+    };
+  }
+
+  private static normalize(text: string): string {
+    return text.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+  }
+
+  private static parseText(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  }
+
+  private static parseAmount(value: unknown): string | null {
+    const amount = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^\d.]/g, ''));
+    return isFinite(amount) && amount > 0 ? amount.toFixed(2) : null;
+  }
+
+  private static parsePercent(value: unknown): string | null {
+    const percent = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^\d.]/g, ''));
+    return isFinite(percent) && percent >= 0 && percent <= 100 ? percent.toFixed(2) : null;
+  }
+
+  private static parseMonths(value: unknown): number | null {
+    const months = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+    return Number.isInteger(months) && months > 0 ? months : null;
+  }
+
+  private static parseDate(value: unknown): string | null {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) ? value : null;
+  }
+
+  private static parseEnum<T extends string>(zodEnum: z.ZodEnum<[T, ...T[]]>, value: unknown): T | null {
+    const parsed = zodEnum.safeParse(typeof value === 'string' ? value.trim().toLowerCase() : value);
+    return parsed.success ? parsed.data : null;
+  }
+}
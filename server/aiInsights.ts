@@ -1,8 +1,5 @@
 import type { IStorage } from "./storage";
-
-// Deepseek API configuration
-const DEEPSEEK_API_URL = "https://api.deepseek.com/v1/chat/completions";
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY || "default_key";
+import { LlmClient } from "./llmClient";
 
 export interface AIInsight {
   id: string;
@@ -206,10 +203,10 @@ export async function generateAIInsights(organizationId: string, storage: IStora
       });
     });
 
-    // Use Deepseek for AI-generated insights if available
-    if (process.env.DEEPSEEK_API_KEY && process.env.DEEPSEEK_API_KEY !== "default_key") {
+    // Use the organization's language model for AI-generated insights if available
+    if (await LlmClient.isAvailable(storage, organizationId)) {
       try {
-        const aiGeneratedInsights = await generateAdvancedInsights(portfolioSummary, activeLoans, userCollateral);
+        const aiGeneratedInsights = await generateAdvancedInsights(storage, organizationId, userId, portfolioSummary, activeLoans, userCollateral);
         // Replace all insights with AI-generated ones if successful
         if (aiGeneratedInsights.length > 0) {
           return ensureExactlyThreeInsights(aiGeneratedInsights, portfolioSummary);
@@ -235,6 +232,9 @@ export async function generateAIInsights(organizationId: string, storage: IStora
 }
 
 async function generateAdvancedInsights(
+  storage: IStorage,
+  organizationId: string,
+  userId: string | undefined,
   portfolioSummary: any,
   activeLoans: any[],
   userCollateral: any[]
@@ -314,45 +314,32 @@ Respond with JSON format:
 }
     `;
 
-    // Call Deepseek API using fetch
-    const response = await fetch(DEEPSEEK_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${DEEPSEEK_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages: [
-          {
-            role: "system",
-            content: "You are a loan advisor specializing in Saudi Arabian loan portfolio management. You provide data-driven insights based strictly on the borrower's current portfolio data without referencing external market conditions."
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.7,
-        max_tokens: 1500,
-      }),
+    const content = await LlmClient.completeText(storage, {
+      feature: 'insights',
+      organizationId,
+      userId,
+      messages: [
+        {
+          role: "system",
+          content: "You are a loan advisor specializing in Saudi Arabian loan portfolio management. You provide data-driven insights based strictly on the borrower's current portfolio data without referencing external market conditions."
+        },
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      json: true,
+      temperature: 0.7,
+      maxTokens: 1500,
     });
-
-    if (!response.ok) {
-      throw new Error(`Deepseek API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
     
     if (!content) {
-      throw new Error('No content received from Deepseek API');
+      throw new Error('No content received from the language model');
     }
 
     const result = JSON.parse(content || '{"insights": []}');
     
-    const formattedInsights = result.insights.map((insight: any, index: number) => ({
+    const formattedInsights = (result.insights ?? []).map((insight: any, index: number) => ({
       id: `ai-generated-${index}`,
       type: insight.type || 'opportunity',
       category: insight.category || 'Portfolio Optimization',
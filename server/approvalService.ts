@@ -0,0 +1,187 @@
+import type { ApprovalAction, ApprovalRequest, InsertApprovalRequest, InsertLoan, Loan, PaymentRequest, RevolveRequest, SettlementRequest } from '@shared/schema';
+import { hasPermission, memberRole, type PermissionArea } from '@shared/permissions';
+import { sendApprovalNotification } from './emailService';
+import type { IStorage } from './storage';
+
+export class ApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalError';
+    Object.setPrototypeOf(this, ApprovalError.prototype);
+  }
+}
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+  loan_drawdown: 'Loan drawdown',
+  loan_settlement: 'Loan settlement',
+  settlement_reversal: 'Settlement reversal',
+  payment: 'Payment',
+  revolve: 'Loan revolve',
+};
+
+// Checkers need write access to the area the action changes
+const APPROVAL_ACTION_AREAS: Record<ApprovalAction, PermissionArea> = {
+  loan_drawdown: 'loans',
+  loan_settlement: 'loans',
+  settlement_reversal: 'loans',
+  payment: 'payments',
+  revolve: 'loans',
+};
+
+export class ApprovalService {
+  static areaOf(action: ApprovalAction): PermissionArea {
+    return APPROVAL_ACTION_AREAS[action];
+  }
+
+  /**
+   * True when the organization has a threshold for the action and the amount reaches it
+   */
+  static async requiresApproval(storage: IStorage, organizationId: string, action: ApprovalAction, amount: string): Promise<boolean> {
+    const thresholds = await storage.getApprovalThresholds(organizationId);
+    const threshold = thresholds.find(t => t.action === action);
+    return !!threshold && parseFloat(amount) >= parseFloat(threshold.minAmount);
+  }
+
+  /**
+   * A revolve settles the current cycle and draws the next, so it is held when either amount reaches its threshold
+   */
+  static async revolveRequiresApproval(storage: IStorage, organizationId: string, loan: Pick<Loan, 'amount'>, revolve: RevolveRequest): Promise<boolean> {
+    return await this.requiresApproval(storage, organizationId, 'loan_settlement', loan.amount)
+      || await this.requiresApproval(storage, organizationId, 'loan_drawdown', revolve.amount ?? loan.amount);
+  }
+
+  /**
+   * Park the action as a pending request and tell the members who can approve it
+   */
+  static async submit(storage: IStorage, request: InsertApprovalRequest): Promise<ApprovalRequest> {
+    const created = await storage.createApprovalRequest(request);
+
+    this.notifyCheckers(storage, created).catch(err => console.error('Error sending approval request notifications:', err));
+
+    return created;
+  }
+
+  /**
+   * Approve a pending request and carry out the action on behalf of its maker.
+   * The request is claimed first so two checkers cannot both execute it, and put back to pending if the action fails.
+   */
+  static async approve(storage: IStorage, request: ApprovalRequest, checkerId: string, comment?: string): Promise<ApprovalRequest> {
+    if (request.makerId === checkerId) {
+      throw new ApprovalError('You cannot approve your own request');
+    }
+
+    const claimed = await storage.updateApprovalRequest(request.id, request.organizationId, {
+      status: 'approved',
+      checkerId,
+      checkerComment: comment ?? null,
+      decidedAt: new Date(),
+    }, 'pending');
+    if (!claimed) {
+      throw new ApprovalError('This request has already been decided');
+    }
+
+    let resultId: string;
+    try {
+      resultId = await this.execute(storage, claimed);
+    } catch (error) {
+      await storage.updateApprovalRequest(request.id, request.organizationId, {
+        status: 'pending',
+        checkerId: null,
+        checkerComment: null,
+        decidedAt: null,
+      }, 'approved');
+      throw error;
+    }
+
+    const approved = (await storage.updateApprovalRequest(request.id, request.organizationId, { resultId }))!;
+
+    this.notifyMaker(storage, approved).catch(err => console.error('Error sending approval decision notification:', err));
+
+    return approved;
+  }
+
+  static async reject(storage: IStorage, request: ApprovalRequest, checkerId: string, comment: string): Promise<ApprovalRequest> {
+    if (request.makerId === checkerId) {
+      throw new ApprovalError('You cannot reject your own request');
+    }
+
+    const rejected = await storage.updateApprovalRequest(request.id, request.organizationId, {
+      status: 'rejected',
+      checkerId,
+      checkerComment: comment,
+      decidedAt: new Date(),
+    }, 'pending');
+    if (!rejected) {
+      throw new ApprovalError('This request has already been decided');
+    }
+
+    this.notifyMaker(storage, rejected).catch(err => console.error('Error sending approval decision notification:', err));
+
+    return rejected;
+  }
+
+  /**
+   * Replay the parked action and return the id of the loan, transaction or payment it created
+   */
+  private static async execute(storage: IStorage, request: ApprovalRequest): Promise<string> {
+    const payload = request.payload as any;
+
+    switch (request.action as ApprovalAction) {
+      case 'loan_drawdown': {
+        const loan = await storage.createLoan(payload as InsertLoan);
+        return loan.id;
+      }
+      case 'loan_settlement': {
+        const result = await storage.settleLoan(request.loanId!, payload as SettlementRequest, request.makerId);
+        return result.loan.id;
+      }
+      case 'settlement_reversal': {
+        const loan = await storage.reverseLoanSettlement(request.loanId!, payload.reason, request.makerId);
+        return loan.id;
+      }
+      case 'payment': {
+        const result = await storage.processPayment(request.loanId!, payload as PaymentRequest, request.makerId);
+        return result.payment.id;
+      }
+      case 'revolve': {
+        const result = await storage.revolveLoan(request.loanId!, payload as RevolveRequest, request.makerId);
+        return result.newLoan.id;
+      }
+      default:
+        throw new ApprovalError(`Unknown approval action ${request.action}`);
+    }
+  }
+
+  private static async notifyCheckers(storage: IStorage, request: ApprovalRequest): Promise<void> {
+    const area = this.areaOf(request.action as ApprovalAction);
+    const members = await storage.getOrganizationMembers(request.organizationId);
+    const maker = members.find(m => m.userId === request.makerId);
+    const makerName = maker ? `${maker.user.firstName ?? ''} ${maker.user.lastName ?? ''}`.trim() || maker.user.email : 'A team member';
+
+    const checkers = members.filter(m =>
+      m.userId !== request.makerId && m.user.email && hasPermission(memberRole(m), area, 'write')
+    );
+
+    for (const checker of checkers) {
+      await sendApprovalNotification(
+        checker.user.email!,
+        'Approval Required',
+        `${makerName} submitted a ${APPROVAL_ACTION_LABELS[request.action as ApprovalAction].toLowerCase()} of SAR ${parseFloat(request.amount).toLocaleString()} for approval: ${request.summary}`,
+        request.makerComment
+      );
+    }
+  }
+
+  private static async notifyMaker(storage: IStorage, request: ApprovalRequest): Promise<void> {
+    const maker = await storage.getUser(request.makerId);
+    if (!maker?.email) return;
+
+    const decision = request.status === 'approved' ? 'approved' : 'rejected';
+    await sendApprovalNotification(
+      maker.email,
+      `Request ${decision === 'approved' ? 'Approved' : 'Rejected'}`,
+      `Your ${APPROVAL_ACTION_LABELS[request.action as ApprovalAction].toLowerCase()} request was ${decision}: ${request.summary}`,
+      request.checkerComment
+    );
+  }
+}
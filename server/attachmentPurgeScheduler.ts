@@ -0,0 +1,65 @@
+import type { IStorage } from "./storage";
+import { InterestService } from "./interestService";
+import { FileStorageService } from "./fileStorage";
+import { AttachmentRetentionService } from "./attachmentRetentionService";
+
+export class AttachmentPurgeScheduler {
+  private storage: IStorage;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Start the attachment purge scheduler
+   * Removes deleted and superseded attachment versions whose retention has run out once per day
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('🗄️  Attachment purge scheduler is already running');
+      return;
+    }
+
+    console.log('🗄️  Starting attachment purge scheduler - running every 24 hours');
+    this.isRunning = true;
+
+    // Run immediately on start
+    this.processAll();
+
+    // Then run every 24 hours (once per day)
+    this.intervalId = setInterval(() => {
+      this.processAll();
+    }, 24 * 60 * 60 * 1000); // 24 hours
+  }
+
+  /**
+   * Stop the attachment purge scheduler
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.isRunning = false;
+      console.log('🗄️  Attachment purge scheduler stopped');
+    }
+  }
+
+  /**
+   * Purge across all organizations - retention policies are system-wide
+   */
+  private async processAll(): Promise<void> {
+    try {
+      const today = InterestService.toDateString(new Date());
+      const result = await AttachmentRetentionService.purge(this.storage, FileStorageService.driver(), today);
+
+      console.log(`✅ Purged ${result.purged.length} attachment(s), ${result.retained} still retained`);
+      if (result.failed.length > 0) {
+        console.warn(`⚠️  Failed to purge ${result.failed.length} attachment(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Error in attachment purge scheduler:', error);
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import type {
+  Attachment,
+  InsertAttachment,
+  AttachmentRetentionPolicy,
+  AttachmentRetentionTrigger,
+} from '@shared/schema';
+import type { IStorage } from './storage';
+import type { FileStorageDriver } from './fileStorage';
+import { InterestService } from './interestService';
+
+type Category = Attachment['category'];
+
+export interface RetentionRule {
+  retentionYears: number;
+  trigger: AttachmentRetentionTrigger;
+}
+
+/**
+ * Default retention per category. Agreements and loan documentation are kept for ten years after
+ * the facility expires or the loan is settled; other documents for a fixed period after upload.
+ */
+export const DEFAULT_RETENTION_POLICIES: Record<Category, RetentionRule> = {
+  facility_agreement: { retentionYears: 10, trigger: 'owner_end' },
+  amendment: { retentionYears: 10, trigger: 'owner_end' },
+  facility_document: { retentionYears: 10, trigger: 'owner_end' },
+  drawdown_request: { retentionYears: 10, trigger: 'owner_end' },
+  loan_documentation: { retentionYears: 10, trigger: 'owner_end' },
+  bank_correspondence: { retentionYears: 5, trigger: 'upload' },
+  valuation_report: { retentionYears: 5, trigger: 'upload' },
+  asset_documentation: { retentionYears: 10, trigger: 'upload' },
+  compliance_document: { retentionYears: 10, trigger: 'upload' },
+  chat_attachment: { retentionYears: 1, trigger: 'upload' },
+  other: { retentionYears: 5, trigger: 'upload' },
+};
+
+export interface RetentionDecision {
+  attachmentId: string;
+  retainUntil: string | null; // Null while the owner has not ended (facility open, loan unsettled)
+  purgeable: boolean;
+}
+
+export interface PurgeResult {
+  purged: Array<{ attachmentId: string; fileName: string; category: Category; retainUntil: string }>;
+  retained: number;
+  failed: string[];
+}
+
+export class AttachmentVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentVersionError';
+    Object.setPrototypeOf(this, AttachmentVersionError.prototype);
+  }
+}
+
+export class LegalHoldError extends Error {
+  constructor(message = 'Attachment is on legal hold and cannot be deleted') {
+    super(message);
+    this.name = 'LegalHoldError';
+    Object.setPrototypeOf(this, LegalHoldError.prototype);
+  }
+}
+
+export class AttachmentRetentionService {
+  /**
+   * Effective policy of every category: the saved policy where there is one, else the default
+   */
+  static policies(saved: AttachmentRetentionPolicy[]): Record<Category, RetentionRule> {
+    const policies = { ...DEFAULT_RETENTION_POLICIES };
+    for (const policy of saved) {
+      policies[policy.category] = {
+        retentionYears: policy.retentionYears,
+        trigger: policy.trigger as AttachmentRetentionTrigger,
+      };
+    }
+    return policies;
+  }
+
+  /**
+   * Versions of an attachment share the id of the first version
+   */
+  static versionGroupOf(attachment: Pick<Attachment, 'id' | 'versionGroupId'>): string {
+    return attachment.versionGroupId ?? attachment.id;
+  }
+
+  /**
+   * Store an upload, as the next version of an existing attachment when it replaces one. Only the
+   * current, non-deleted version of an attachment of the same owner can be replaced.
+   */
+  static async saveUpload(storage: IStorage, attachment: InsertAttachment, replacesAttachmentId?: string): Promise<Attachment> {
+    if (!replacesAttachmentId) {
+      return await storage.createAttachment(attachment);
+    }
+
+    const previous = await storage.getAttachmentById(replacesAttachmentId, attachment.userId);
+    if (!previous) {
+      throw new AttachmentVersionError('The attachment to replace was not found');
+    }
+    if (previous.ownerType !== attachment.ownerType || previous.ownerId !== attachment.ownerId) {
+      throw new AttachmentVersionError('A new version must belong to the same record as the attachment it replaces');
+    }
+    if (previous.supersededAt || previous.deletedAt) {
+      throw new AttachmentVersionError('Only the current version of an attachment can be replaced');
+    }
+    return await storage.createAttachmentVersion(previous, attachment);
+  }
+
+  /**
+   * Date the attachment may be purged from. Only facilities (expiry) and loans (settlement) have an
+   * end; other owners, and owners that no longer exist, count from the upload date.
+   *
+   * @param ownerEnd end date of the owner, null while it has not ended, undefined when it has none
+   */
+  static retainUntil(attachment: Pick<Attachment, 'category' | 'createdAt'>, rule: RetentionRule, ownerEnd: string | null | undefined): string | null {
+    let start = InterestService.toDateString(attachment.createdAt ?? new Date());
+    if (rule.trigger === 'owner_end' && ownerEnd !== undefined) {
+      if (ownerEnd === null) return null;
+      start = ownerEnd;
+    }
+    return InterestService.addMonths(start, rule.retentionYears * 12);
+  }
+
+  /**
+   * Deleted or superseded versions may be purged once their retention has run out, unless the
+   * version chain is on legal hold. Current versions are never purged.
+   */
+  static decide(attachment: Attachment, rule: RetentionRule, ownerEnd: string | null | undefined, today: string): RetentionDecision {
+    const retainUntil = this.retainUntil(attachment, rule, ownerEnd);
+    const removed = !!attachment.deletedAt || !!attachment.supersededAt;
+    return {
+      attachmentId: attachment.id,
+      retainUntil,
+      purgeable: removed && !attachment.legalHold && !attachment.purgedAt && retainUntil !== null && retainUntil <= today,
+    };
+  }
+
+  /**
+   * Remove the bytes of every attachment whose retention has run out, recording a purge audit
+   * entry for each. The attachment row is kept as a tombstone.
+   */
+  static async purge(storage: IStorage, driver: FileStorageDriver, today: string): Promise<PurgeResult> {
+    const result: PurgeResult = { purged: [], retained: 0, failed: [] };
+    const policies = this.policies(await storage.getAttachmentRetentionPolicies());
+    const candidates = await storage.getPurgeCandidateAttachments();
+
+    for (const attachment of candidates) {
+      try {
+        const rule = policies[attachment.category];
+        const ownerEnd = rule.trigger === 'owner_end'
+          ? await storage.getAttachmentOwnerEndDate(attachment.ownerType, attachment.ownerId)
+          : undefined;
+        const decision = this.decide(attachment, rule, ownerEnd, today);
+        if (!decision.purgeable) {
+          result.retained++;
+          continue;
+        }
+
+        await driver.deleteObject(attachment.storageKey);
+        await storage.markAttachmentPurged(attachment.id, {
+          storageKey: attachment.storageKey,
+          checksum: attachment.checksum,
+          category: attachment.category,
+          version: attachment.version,
+          retentionYears: rule.retentionYears,
+          trigger: rule.trigger,
+          retainUntil: decision.retainUntil,
+        });
+        result.purged.push({
+          attachmentId: attachment.id,
+          fileName: attachment.fileName,
+          category: attachment.category,
+          retainUntil: decision.retainUntil!,
+        });
+      } catch (error) {
+        console.error(`❌ Error purging attachment ${attachment.id}:`, error);
+        result.failed.push(attachment.id);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BankStatementLine, InsertBank, InsertFacility } from '@shared/schema';
+import { BankStatementService, type LedgerEntry } from './bankStatementService';
+import { MemoryStorage } from './storage';
+
+const MT940 = `{1:F01RIBLSARIAXXX0000000000}{2:I940RIBLSARIXXXXN}{4:
+:20:STMT-2026-03
+:25:SA0380000000608010167519
+:28C:00042/001
+:60F:C260301SAR1500000,00
+:61:2603020302D250000,00NTRFLN-1001//FT2603020001
+Loan repayment
+:86:Repayment LN-1001
+March instalment
+:61:260303C1000000,00NTRFNONREF//FT2603030002
+:86:Drawdown
+:61:260304RC1250,00NCHGNONREF
+:62F:C260304SAR2248750,00
+-}`;
+
+let sequence = 0;
+const line = (amount: string, direction: 'debit' | 'credit', valueDate: string, extra: Partial<BankStatementLine> = {}) => ({
+  id: `line-${++sequence}`,
+  bankId: 'bank-1',
+  organizationId: 'org-1',
+  lineNumber: sequence,
+  valueDate,
+  amount,
+  direction,
+  reference: null,
+  bankReference: null,
+  description: null,
+  status: 'unmatched',
+  ...extra,
+}) as BankStatementLine;
+
+const ledgerEntry = (type: string, amount: string, date: string, extra: Partial<LedgerEntry> = {}) => ({
+  id: `tx-${++sequence}`,
+  type,
+  amount,
+  date,
+  reference: null,
+  ...extra,
+}) as LedgerEntry;
+
+test('MT940 statements keep the header balances, multi-line narratives and reversal marks', () => {
+  const statement = BankStatementService.parse('mt940', MT940);
+
+  assert.equal(statement.statementReference, 'STMT-2026-03');
+  assert.equal(statement.accountNumber, 'SA0380000000608010167519');
+  assert.deepEqual([statement.periodStart, statement.periodEnd, statement.currency], ['2026-03-01', '2026-03-04', 'SAR']);
+  assert.deepEqual([statement.openingBalance, statement.closingBalance], [1500000, 2248750]);
+
+  assert.deepEqual(statement.lines, [
+    {
+      valueDate: '2026-03-02', entryDate: '2026-03-02', amount: 250000, direction: 'debit',
+      reference: 'LN-1001', bankReference: 'FT2603020001', description: 'Loan repayment Repayment LN-1001 March instalment',
+    },
+    {
+      valueDate: '2026-03-03', entryDate: null, amount: 1000000, direction: 'credit',
+      reference: null, bankReference: 'FT2603030002', description: 'Drawdown',
+    },
+    // A reversed credit takes the money back out
+    {
+      valueDate: '2026-03-04', entryDate: null, amount: 1250, direction: 'debit',
+      reference: null, bankReference: null, description: null,
+    },
+  ]);
+  assert.throws(() => BankStatementService.parse('mt940', 'Date,Amount\n2026-03-01,100'), /Not an MT940 statement/);
+});
+
+test('CSV statements are read from the detected header or the configured layout', () => {
+  const detected = BankStatementService.parse('csv', [
+    'Value Date;Debit;Credit;Reference;Narrative',
+    '02/03/2026;"250,000.00";;LN-1001;Repayment',
+    '03/03/2026;;1000000;;Drawdown',
+    ';;;;Closing balance',
+  ].join('\n'));
+  assert.deepEqual(detected.lines.map(l => [l.valueDate, l.amount, l.direction, l.reference, l.description]), [
+    ['2026-03-02', 250000, 'debit', 'LN-1001', 'Repayment'],
+    ['2026-03-03', 1000000, 'credit', null, 'Drawdown'],
+  ]);
+  assert.deepEqual([detected.periodStart, detected.periodEnd], ['2026-03-02', '2026-03-03']);
+
+  const configured = BankStatementService.parse('csv', 'Posted|Movement|Memo\n03.02.2026|(1.250,50)|Charges', {
+    delimiter: '|', dateColumn: 'Posted', dateFormat: 'MM/DD/YYYY', amountColumn: 'Movement', descriptionColumn: 'Memo', decimalSeparator: ',',
+  });
+  assert.deepEqual(configured.lines.map(l => [l.valueDate, l.amount, l.direction]), [['2026-03-02', 1250.5, 'debit']]);
+
+  assert.throws(() => BankStatementService.parse('csv', 'When,Amount\nyesterday,100'), /no date column/);
+});
+
+test('lines auto-match a compatible entry within a few days and references break ties', () => {
+  const repayment = line('250000.00', 'debit', '2026-03-02', { reference: 'LN-1001' });
+  const drawdown = line('1000000.00', 'credit', '2026-03-03');
+  const late = line('500.00', 'debit', '2026-03-20');
+
+  const entries = [
+    ledgerEntry('repayment', '250000.00', '2026-03-01'),
+    ledgerEntry('repayment', '250000.00', '2026-03-01', { reference: 'LN-1001' }),
+    ledgerEntry('draw', '1000000.00', '2026-03-02'),
+    ledgerEntry('fee', '500.00', '2026-03-10'),
+  ];
+
+  assert.deepEqual(BankStatementService.autoMatch([repayment, drawdown, late], entries), [
+    { lineId: repayment.id, transactionId: entries[1].id },
+    { lineId: drawdown.id, transactionId: entries[2].id },
+  ]);
+  // The fee is outside the auto-match window but still offered in the workspace
+  assert.deepEqual(BankStatementService.suggest(late, entries).map(c => [c.transactionId, c.score]), [[entries[3].id, 20]]);
+});
+
+test('lines with equally good candidates are left for the workspace', () => {
+  const debit = line('250000.00', 'debit', '2026-03-02');
+  const entries = [ledgerEntry('repayment', '250000.00', '2026-03-01'), ledgerEntry('repayment', '250000.00', '2026-03-03')];
+
+  assert.deepEqual(BankStatementService.autoMatch([debit], entries), []);
+  assert.equal(BankStatementService.isCompatible(debit, ledgerEntry('draw', '250000.00', '2026-03-02')), false);
+  assert.equal(BankStatementService.isCompatible(debit, ledgerEntry('fee', '250000.01', '2026-03-02')), false);
+});
+
+test('a reopened line cannot be booked a second time', async () => {
+  const storage = new MemoryStorage();
+  const bank = await storage.createBank({ name: 'Statement Bank', code: 'STB', organizationId: 'org-1' } as InsertBank);
+  const facility = await storage.createFacility({
+    bankId: bank.id, userId: 'user-1', organizationId: 'org-1', facilityType: 'term', creditLimit: '5000000.00',
+    costOfFunding: '1.00', startDate: '2026-01-01', expiryDate: '2027-12-31',
+  } as InsertFacility);
+
+  const imported = await BankStatementService.importStatement(storage, bank, 'org-1', {
+    format: 'csv', content: 'Date,Amount,Description\n05/03/2026,-250.00,Facility charges',
+  }, 'user-1');
+  assert.deepEqual([imported.lineCount, imported.autoMatched], [1, 0]);
+
+  const [unmatched] = await storage.getBankStatementLines({ bankId: bank.id, organizationId: 'org-1' });
+  const booked = await BankStatementService.createTransactionForLine(storage, unmatched, { type: 'fee', facilityId: facility.id }, 'user-1');
+  assert.ok('status' in booked && booked.status === 'matched');
+
+  const reopened = await BankStatementService.reopenLine(storage, booked);
+  await assert.rejects(
+    BankStatementService.createTransactionForLine(storage, reopened, { type: 'fee', facilityId: facility.id }, 'user-1'),
+    /already booked as a fee of 250\.00 on 2026-03-05 - match it to that entry instead/
+  );
+  await assert.rejects(
+    BankStatementService.importStatement(storage, bank, 'org-1', { format: 'csv', content: 'Date,Amount,Description\n05/03/2026,-250.00,Facility charges\n' }, 'user-1'),
+    /already been imported/
+  );
+});
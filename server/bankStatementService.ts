@@ -0,0 +1,730 @@
+import crypto from 'crypto';
+import {
+  statementCsvLayoutSchema,
+  type Bank,
+  type BankStatement,
+  type BankStatementLine,
+  type Loan,
+  type PaymentRequest,
+  type StatementCsvLayout,
+  type StatementFormat,
+  type StatementImportRequest,
+  type StatementLineCreateTransaction,
+  type StatementLineDirection,
+  type Transaction,
+} from '@shared/schema';
+import type { BankReconciliationStatus, PendingApprovalResponse, ReconciliationCandidate, StatementImportResult } from '@shared/types';
+import { ApprovalService } from './approvalService';
+import { InterestService } from './interestService';
+import type { IStorage } from './storage';
+
+export interface ParsedStatementLine {
+  valueDate: string; // YYYY-MM-DD
+  entryDate: string | null;
+  amount: number; // Always positive
+  direction: StatementLineDirection;
+  reference: string | null;
+  bankReference: string | null;
+  description: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  accountNumber: string | null;
+  statementReference: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  currency: string | null;
+  lines: ParsedStatementLine[];
+}
+
+export type LedgerEntry = Transaction & { loan?: Loan };
+
+// Ledger entry types that move cash through the bank account, by statement direction
+const CASH_TYPES: Record<StatementLineDirection, string[]> = {
+  debit: ['repayment', 'fee'],
+  credit: ['draw'],
+};
+
+// Statement value dates may trail the booking date in the ledger by a few days
+export const AUTO_MATCH_DATE_TOLERANCE_DAYS = 3;
+const SUGGESTION_DATE_WINDOW_DAYS = 30;
+const AMOUNT_TOLERANCE = 0.005;
+
+// Header names tried when a bank has no CSV layout configured
+const CSV_HEADER_ALIASES = {
+  date: ['value date', 'valuedate', 'date', 'transaction date', 'posting date', 'booking date'],
+  amount: ['amount', 'transaction amount'],
+  debit: ['debit', 'withdrawal', 'withdrawals', 'debit amount'],
+  credit: ['credit', 'deposit', 'deposits', 'credit amount'],
+  reference: ['reference', 'ref', 'reference number', 'customer reference', 'cheque/ref'],
+  description: ['description', 'narrative', 'details', 'remarks', 'transaction details'],
+};
+
+export class BankStatementService {
+  /**
+   * Parse and store a statement, then auto-match every unmatched line of the bank against the ledger.
+   * A file that was imported before (same content) is rejected.
+   */
+  static async importStatement(storage: IStorage, bank: Bank, organizationId: string, request: StatementImportRequest, userId: string): Promise<StatementImportResult> {
+    const contentHash = this.contentHash(request.content);
+    if (await storage.getBankStatementByHash(bank.id, contentHash)) {
+      throw new Error('This statement has already been imported');
+    }
+
+    const parsed = this.parse(request.format, request.content, bank.statementCsvLayout);
+    if (parsed.lines.length === 0) {
+      throw new Error('No statement lines found');
+    }
+
+    const { statement, lines } = await storage.createBankStatement({
+      organizationId,
+      bankId: bank.id,
+      format: parsed.format,
+      fileName: request.fileName ?? null,
+      accountNumber: parsed.accountNumber,
+      statementReference: parsed.statementReference,
+      periodStart: parsed.periodStart,
+      periodEnd: parsed.periodEnd,
+      openingBalance: parsed.openingBalance?.toFixed(2) ?? null,
+      closingBalance: parsed.closingBalance?.toFixed(2) ?? null,
+      currency: parsed.currency ?? 'SAR',
+      contentHash,
+      importedBy: userId,
+    }, parsed.lines.map((line, index) => ({
+      organizationId,
+      bankId: bank.id,
+      lineNumber: index + 1,
+      valueDate: line.valueDate,
+      entryDate: line.entryDate,
+      amount: line.amount.toFixed(2),
+      direction: line.direction,
+      reference: line.reference?.slice(0, 100) ?? null,
+      bankReference: line.bankReference?.slice(0, 100) ?? null,
+      description: line.description,
+      status: 'unmatched',
+    })));
+
+    const matched = await this.runAutoMatch(storage, bank.id, organizationId, userId);
+    const lineIds = new Set(lines.map(line => line.id));
+    const autoMatched = matched.filter(match => lineIds.has(match.lineId)).length;
+
+    return {
+      statementId: statement.id,
+      lineCount: lines.length,
+      autoMatched,
+      unmatched: lines.length - autoMatched,
+    };
+  }
+
+  /**
+   * Auto-match all unmatched lines of a bank, e.g. after ledger entries were booked late
+   */
+  static async runAutoMatch(storage: IStorage, bankId: string, organizationId: string, userId: string): Promise<Array<{ lineId: string; transactionId: string }>> {
+    const lines = await storage.getBankStatementLines({ bankId, organizationId, status: 'unmatched' });
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const entries = await storage.getUnreconciledTransactions(bankId, organizationId);
+    const matches = this.autoMatch(lines, entries);
+    for (const match of matches) {
+      await storage.updateBankStatementLine(match.lineId, {
+        status: 'matched',
+        transactionId: match.transactionId,
+        matchMethod: 'auto',
+        reconciledBy: userId,
+        reconciledAt: new Date(),
+      });
+    }
+    return matches;
+  }
+
+  /**
+   * Link an unmatched line to an existing ledger entry chosen in the reconciliation workspace
+   */
+  static async matchLine(storage: IStorage, line: BankStatementLine, transactionId: string, userId: string): Promise<BankStatementLine> {
+    this.assertUnmatched(line);
+
+    const entries = await storage.getUnreconciledTransactions(line.bankId, line.organizationId);
+    const entry = entries.find(candidate => candidate.id === transactionId);
+    if (!entry) {
+      throw new Error('Transaction not found or already reconciled');
+    }
+    if (!this.isCompatible(line, entry)) {
+      throw new Error(`A ${entry.type} of ${parseFloat(entry.amount).toFixed(2)} cannot settle a ${line.direction} of ${parseFloat(line.amount).toFixed(2)}`);
+    }
+
+    return await storage.updateBankStatementLine(line.id, {
+      status: 'matched',
+      transactionId,
+      matchMethod: 'manual',
+      reconciledBy: userId,
+      reconciledAt: new Date(),
+    });
+  }
+
+  /**
+   * Book an unmatched debit as a new repayment or fee and link the line to it. A repayment from the
+   * organization's payment threshold up is sent for approval instead and the line stays unmatched until
+   * the approved payment is matched to it.
+   */
+  static async createTransactionForLine(
+    storage: IStorage,
+    line: BankStatementLine,
+    request: StatementLineCreateTransaction,
+    userId: string
+  ): Promise<BankStatementLine | PendingApprovalResponse> {
+    this.assertUnmatched(line);
+    if (line.direction !== 'debit') {
+      throw new Error('Only debits can be booked as repayments or fees');
+    }
+
+    // A line reopened after it was booked keeps its entry, which it has to be matched to instead
+    const entries = await storage.getUnreconciledTransactions(line.bankId, line.organizationId);
+    const booked = entries.find(entry => entry.idempotencyKey === this.bookingKey(line));
+    if (booked) {
+      throw new Error(`This line was already booked as a ${booked.type} of ${parseFloat(booked.amount).toFixed(2)} on ${booked.date} - match it to that entry instead`);
+    }
+
+    const reference = line.reference ?? line.bankReference ?? undefined;
+    const memo = request.memo || line.description || 'Booked from bank statement';
+    let transaction: Transaction;
+
+    if (request.type === 'repayment') {
+      const loan = await storage.getLoanById(request.loanId!);
+      if (!loan || loan.organizationId !== line.organizationId) {
+        throw new Error('Loan not found');
+      }
+      if (loan.facility.bankId !== line.bankId) {
+        throw new Error('Loan is not with the bank this statement belongs to');
+      }
+
+      const payment: PaymentRequest = {
+        amount: line.amount,
+        date: line.valueDate,
+        reference,
+        memo,
+        prepayment: request.prepayment,
+        idempotencyKey: this.bookingKey(line),
+      };
+      if (await ApprovalService.requiresApproval(storage, line.organizationId, 'payment', line.amount)) {
+        const approval = await ApprovalService.submit(storage, {
+          organizationId: line.organizationId,
+          action: 'payment',
+          loanId: loan.id,
+          amount: line.amount,
+          payload: payment,
+          summary: `Payment on loan ${loan.referenceNumber} booked from statement line ${line.lineNumber}`,
+          makerId: userId,
+        });
+        return { pendingApproval: true, approval };
+      }
+
+      const result = await storage.processPayment(loan.id, payment, userId);
+      transaction = result.transactions[0];
+    } else {
+      const facilities = await storage.getUserFacilities(line.organizationId);
+      const facility = facilities.find(candidate => candidate.id === request.facilityId);
+      if (!facility || facility.bankId !== line.bankId) {
+        throw new Error('Facility not found for this bank');
+      }
+
+      transaction = await storage.addTransaction({
+        userId,
+        facilityId: facility.id,
+        bankId: line.bankId,
+        type: 'fee',
+        amount: line.amount,
+        date: line.valueDate,
+        reference: reference ?? null,
+        memo,
+        createdBy: userId,
+        idempotencyKey: this.bookingKey(line),
+      });
+    }
+
+    return await storage.updateBankStatementLine(line.id, {
+      status: 'matched',
+      transactionId: transaction.id,
+      matchMethod: 'created',
+      reconciledBy: userId,
+      reconciledAt: new Date(),
+    });
+  }
+
+  /**
+   * Idempotency key of the ledger entry booked from a line. It stays the same when the line is
+   * reopened, so a line is never booked twice.
+   */
+  static bookingKey(line: BankStatementLine): string {
+    return `STMT:${line.id}`;
+  }
+
+  static async ignoreLine(storage: IStorage, line: BankStatementLine, reason: string | undefined, userId: string): Promise<BankStatementLine> {
+    this.assertUnmatched(line);
+    return await storage.updateBankStatementLine(line.id, {
+      status: 'ignored',
+      ignoreReason: reason || null,
+      reconciledBy: userId,
+      reconciledAt: new Date(),
+    });
+  }
+
+  /**
+   * Put a matched or ignored line back into the workspace. Ledger entries booked from the line are kept
+   * and go back to unreconciled; the line can be matched to them again but not booked a second time.
+   */
+  static async reopenLine(storage: IStorage, line: BankStatementLine): Promise<BankStatementLine> {
+    return await storage.updateBankStatementLine(line.id, {
+      status: 'unmatched',
+      transactionId: null,
+      matchMethod: null,
+      ignoreReason: null,
+      reconciledBy: null,
+      reconciledAt: null,
+    });
+  }
+
+  static async getStatus(storage: IStorage, bankId: string, organizationId: string): Promise<BankReconciliationStatus> {
+    const statements = await storage.getBankStatements(bankId, organizationId);
+    const lines = await storage.getBankStatementLines({ bankId, organizationId });
+    return this.reconciliationStatus(bankId, statements, lines);
+  }
+
+  /**
+   * Parse a statement file in the given format. CSV statements use the bank's configured layout,
+   * or a layout detected from the header row when none is configured.
+   */
+  static parse(format: StatementFormat, content: string, csvLayout?: unknown): ParsedStatement {
+    if (format === 'mt940') {
+      return this.parseMt940(content);
+    }
+
+    const layout = csvLayout ? statementCsvLayoutSchema.parse(csvLayout) : undefined;
+    return this.parseCsv(content, layout);
+  }
+
+  static contentHash(content: string): string {
+    return crypto.createHash('sha256').update(content.replace(/\r\n/g, '\n').trim()).digest('hex');
+  }
+
+  /**
+   * SWIFT MT940 customer statement. Handles multiple statements per file, multi-line :86: narratives
+   * and reversal marks (RC/RD). Only the first statement's header fields are kept.
+   */
+  static parseMt940(content: string): ParsedStatement {
+    const fields: Array<{ tag: string; value: string }> = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/^\{4:/, '').trimEnd();
+      if (!line || line === '-}' || line === '-' || line.startsWith('{')) continue;
+
+      const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (match) {
+        fields.push({ tag: match[1], value: match[2] });
+      } else if (fields.length > 0) {
+        fields[fields.length - 1].value += `\n${line}`;
+      }
+    }
+
+    if (!fields.some(field => field.tag === '61' || field.tag === '60F' || field.tag === '60M')) {
+      throw new Error('Not an MT940 statement - no balance or statement line fields found');
+    }
+
+    const statement: ParsedStatement = {
+      format: 'mt940',
+      accountNumber: null,
+      statementReference: null,
+      periodStart: null,
+      periodEnd: null,
+      openingBalance: null,
+      closingBalance: null,
+      currency: null,
+      lines: [],
+    };
+
+    let current: ParsedStatementLine | undefined;
+    for (const { tag, value } of fields) {
+      switch (tag) {
+        case '20':
+          statement.statementReference ??= value.trim();
+          break;
+        case '25':
+          statement.accountNumber ??= value.trim();
+          break;
+        case '60F':
+        case '60M': {
+          const balance = this.parseMt940Balance(value);
+          if (statement.openingBalance === null) {
+            statement.openingBalance = balance.amount;
+            statement.periodStart = balance.date;
+            statement.currency = balance.currency;
+          }
+          break;
+        }
+        case '62F':
+        case '62M': {
+          const balance = this.parseMt940Balance(value);
+          statement.closingBalance = balance.amount;
+          statement.periodEnd = balance.date;
+          break;
+        }
+        case '61':
+          current = this.parseMt940Line(value);
+          statement.lines.push(current);
+          break;
+        case '86':
+          if (current) {
+            const narrative = value.replace(/\s+/g, ' ').trim();
+            current.description = current.description ? `${current.description} ${narrative}` : narrative;
+          }
+          break;
+      }
+    }
+
+    return statement;
+  }
+
+  /**
+   * CSV statement export. Rows whose date or amount cannot be read (totals, blank rows) are skipped.
+   */
+  static parseCsv(content: string, layout?: StatementCsvLayout): ParsedStatement {
+    const delimiter = layout?.delimiter ?? this.detectDelimiter(content);
+    const rows = content
+      .split(/\r?\n/)
+      .map(line => this.splitCsvLine(line, delimiter))
+      .filter(row => row.some(cell => cell.length > 0));
+
+    const headerIndex = (layout?.headerRow ?? 1) - 1;
+    if (rows.length <= headerIndex + 1) {
+      throw new Error('CSV statement has no data rows');
+    }
+
+    const header = rows[headerIndex].map(cell => cell.toLowerCase());
+    const column = (name?: string) => (name ? header.indexOf(name.trim().toLowerCase()) : -1);
+    const detect = (aliases: string[]) => header.findIndex(cell => aliases.includes(cell));
+
+    const dateIndex = layout ? column(layout.valueDateColumn ?? layout.dateColumn) : detect(CSV_HEADER_ALIASES.date);
+    const entryDateIndex = layout?.valueDateColumn ? column(layout.dateColumn) : -1;
+    const amountIndex = layout ? column(layout.amountColumn) : detect(CSV_HEADER_ALIASES.amount);
+    const debitIndex = layout ? column(layout.debitColumn) : detect(CSV_HEADER_ALIASES.debit);
+    const creditIndex = layout ? column(layout.creditColumn) : detect(CSV_HEADER_ALIASES.credit);
+    const referenceIndex = layout ? column(layout.referenceColumn) : detect(CSV_HEADER_ALIASES.reference);
+    const descriptionIndex = layout ? column(layout.descriptionColumn) : detect(CSV_HEADER_ALIASES.description);
+
+    if (dateIndex === -1) {
+      throw new Error('CSV statement has no date column - configure the statement layout for this bank');
+    }
+    if (amountIndex === -1 && (debitIndex === -1 || creditIndex === -1)) {
+      throw new Error('CSV statement needs an amount column or debit and credit columns - configure the statement layout for this bank');
+    }
+
+    const dateFormat = layout?.dateFormat;
+    const decimalSeparator = layout?.decimalSeparator ?? '.';
+    const lines: ParsedStatementLine[] = [];
+
+    for (const row of rows.slice(headerIndex + 1)) {
+      const valueDate = this.parseDate(row[dateIndex] ?? '', dateFormat);
+      if (!valueDate) continue;
+
+      let signed: number | null;
+      if (amountIndex !== -1) {
+        signed = this.parseAmount(row[amountIndex] ?? '', decimalSeparator);
+      } else {
+        const debit = this.parseAmount(row[debitIndex] ?? '', decimalSeparator);
+        const credit = this.parseAmount(row[creditIndex] ?? '', decimalSeparator);
+        signed = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+      }
+      if (!signed) continue;
+
+      lines.push({
+        valueDate,
+        entryDate: entryDateIndex !== -1 ? this.parseDate(row[entryDateIndex] ?? '', dateFormat) : null,
+        amount: InterestService.roundAmount(Math.abs(signed)),
+        direction: signed < 0 ? 'debit' : 'credit',
+        reference: (referenceIndex !== -1 && row[referenceIndex]) || null,
+        bankReference: null,
+        description: (descriptionIndex !== -1 && row[descriptionIndex]) || null,
+      });
+    }
+
+    const dates = lines.map(line => line.valueDate).sort();
+    return {
+      format: 'csv',
+      accountNumber: null,
+      statementReference: null,
+      periodStart: dates[0] ?? null,
+      periodEnd: dates[dates.length - 1] ?? null,
+      openingBalance: null,
+      closingBalance: null,
+      currency: null,
+      lines,
+    };
+  }
+
+  /**
+   * Match unmatched statement lines to ledger entries. A line matches an entry of the same amount and
+   * cash direction dated within a few days; a shared reference breaks ties. Lines with more than one
+   * equally good candidate are left for the reconciliation workspace.
+   */
+  static autoMatch(lines: BankStatementLine[], entries: LedgerEntry[]): Array<{ lineId: string; transactionId: string }> {
+    const pairs: Array<{ lineId: string; transactionId: string; score: number }> = [];
+    for (const line of lines) {
+      if (line.status !== 'unmatched') continue;
+      for (const entry of entries) {
+        const score = this.score(line, entry, AUTO_MATCH_DATE_TOLERANCE_DAYS);
+        if (score !== null) {
+          pairs.push({ lineId: line.id, transactionId: entry.id, score });
+        }
+      }
+    }
+
+    pairs.sort((a, b) => b.score - a.score);
+    const usedLines = new Set<string>();
+    const usedEntries = new Set<string>();
+    const matches: Array<{ lineId: string; transactionId: string }> = [];
+
+    for (const pair of pairs) {
+      if (usedLines.has(pair.lineId) || usedEntries.has(pair.transactionId)) continue;
+
+      // Ambiguous pairs are left for the workspace: the line (or entry) with equally good rivals is skipped
+      const rival = (other: typeof pair) => other !== pair && other.score === pair.score;
+      if (pairs.some(other => rival(other) && other.lineId === pair.lineId && !usedEntries.has(other.transactionId))) {
+        usedLines.add(pair.lineId);
+        continue;
+      }
+      if (pairs.some(other => rival(other) && other.transactionId === pair.transactionId && !usedLines.has(other.lineId))) {
+        usedEntries.add(pair.transactionId);
+        continue;
+      }
+
+      usedLines.add(pair.lineId);
+      usedEntries.add(pair.transactionId);
+      matches.push({ lineId: pair.lineId, transactionId: pair.transactionId });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Ledger entries worth offering for a line in the reconciliation workspace, best first
+   */
+  static suggest(line: BankStatementLine, entries: LedgerEntry[], limit = 5): ReconciliationCandidate[] {
+    return entries
+      .map(entry => ({ entry, score: this.score(line, entry, SUGGESTION_DATE_WINDOW_DAYS) }))
+      .filter((candidate): candidate is { entry: LedgerEntry; score: number } => candidate.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ entry, score }) => this.toCandidate(entry, score));
+  }
+
+  static toCandidate(entry: LedgerEntry, score = 0): ReconciliationCandidate {
+    return {
+      transactionId: entry.id,
+      type: entry.type,
+      amount: parseFloat(entry.amount),
+      date: entry.date,
+      reference: entry.reference,
+      memo: entry.memo,
+      loanId: entry.loanId,
+      loanReference: entry.loan?.referenceNumber ?? null,
+      score,
+    };
+  }
+
+  /**
+   * Whether a ledger entry can settle a statement line at all
+   */
+  static isCompatible(line: Pick<BankStatementLine, 'direction' | 'amount'>, entry: Pick<Transaction, 'type' | 'amount'>): boolean {
+    return (CASH_TYPES[line.direction as StatementLineDirection] ?? []).includes(entry.type) &&
+      Math.abs(parseFloat(line.amount) - parseFloat(entry.amount)) < AMOUNT_TOLERANCE;
+  }
+
+  static reconciliationStatus(bankId: string, statements: BankStatement[], lines: BankStatementLine[]): BankReconciliationStatus {
+    const count = (status: string) => lines.filter(line => line.status === status).length;
+    const unmatchedLines = lines.filter(line => line.status === 'unmatched');
+    const lastStatementDate = statements
+      .map(statement => statement.periodEnd)
+      .concat(lines.map(line => line.valueDate))
+      .filter((date): date is string => !!date)
+      .sort()
+      .pop() ?? null;
+    const lastImportedAt = statements
+      .map(statement => statement.createdAt)
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => a.getTime() - b.getTime())
+      .pop();
+
+    return {
+      bankId,
+      status: statements.length === 0 ? 'no_statements' : unmatchedLines.length === 0 ? 'reconciled' : 'unreconciled',
+      statementCount: statements.length,
+      lastStatementDate,
+      lastImportedAt: lastImportedAt ? new Date(lastImportedAt).toISOString() : null,
+      matched: count('matched'),
+      unmatched: unmatchedLines.length,
+      ignored: count('ignored'),
+      unmatchedAmount: InterestService.roundAmount(unmatchedLines.reduce((sum, line) => sum + parseFloat(line.amount), 0)),
+    };
+  }
+
+  private static assertUnmatched(line: BankStatementLine): void {
+    if (line.status !== 'unmatched') {
+      throw new Error(`Statement line is already ${line.status}`);
+    }
+  }
+
+  /**
+   * Match score, or null when the entry cannot be the line's counterpart within the date window
+   */
+  private static score(line: BankStatementLine, entry: LedgerEntry, windowDays: number): number | null {
+    if (!this.isCompatible(line, entry)) return null;
+
+    const days = Math.abs(this.daysBetween(line.valueDate, entry.date));
+    const referenceMatch = this.referencesMatch(line, entry);
+    if (days > windowDays && !referenceMatch) return null;
+
+    return (referenceMatch ? 100 : 0) + Math.max(0, windowDays - days);
+  }
+
+  private static referencesMatch(line: BankStatementLine, entry: LedgerEntry): boolean {
+    const text = this.normalizeReference(`${line.reference ?? ''} ${line.bankReference ?? ''} ${line.description ?? ''}`);
+    return [entry.reference, entry.loan?.referenceNumber]
+      .map(reference => this.normalizeReference(reference ?? ''))
+      .some(reference => reference.length >= 4 && text.includes(reference));
+  }
+
+  private static normalizeReference(value: string): string {
+    return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
+  private static daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+  }
+
+  private static parseMt940Balance(value: string): { amount: number; date: string; currency: string } {
+    const match = value.trim().match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+    if (!match) {
+      throw new Error(`Invalid MT940 balance: ${value}`);
+    }
+    const amount = parseFloat(match[4].replace(',', '.'));
+    return {
+      amount: match[1] === 'D' ? -amount : amount,
+      date: this.mt940Date(match[2]),
+      currency: match[3],
+    };
+  }
+
+  // :61: YYMMDD[MMDD](C|D|RC|RD)[funds code]amount(N|F|S)type[customer ref][//bank ref][\nsupplementary]
+  private static parseMt940Line(value: string): ParsedStatementLine {
+    const [first, ...rest] = value.split('\n');
+    const match = first.match(/^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?([\d,]+)[NFS][A-Z0-9]{3}([^/]*)(?:\/\/(.*))?$/);
+    if (!match) {
+      throw new Error(`Invalid MT940 statement line: ${first}`);
+    }
+
+    const valueDate = this.mt940Date(match[1]);
+    let entryDate: string | null = null;
+    if (match[2]) {
+      // Entry date carries no year - take the value date's year, rolling over at year end
+      const year = parseInt(valueDate.slice(0, 4), 10);
+      const entryMonth = parseInt(match[2].slice(0, 2), 10);
+      const valueMonth = parseInt(valueDate.slice(5, 7), 10);
+      const entryYear = entryMonth - valueMonth > 6 ? year - 1 : valueMonth - entryMonth > 6 ? year + 1 : year;
+      entryDate = `${entryYear}-${match[2].slice(0, 2)}-${match[2].slice(2, 4)}`;
+    }
+
+    // A reversed credit takes money out of the account, a reversed debit puts it back
+    const mark = match[3];
+    const direction: StatementLineDirection = mark === 'D' || mark === 'RC' ? 'debit' : 'credit';
+    const reference = match[6].trim();
+    const supplementary = rest.join(' ').trim();
+
+    return {
+      valueDate,
+      entryDate,
+      amount: InterestService.roundAmount(parseFloat(match[5].replace(',', '.'))),
+      direction,
+      reference: reference && reference !== 'NONREF' ? reference : null,
+      bankReference: match[7]?.trim() || null,
+      description: supplementary || null,
+    };
+  }
+
+  private static mt940Date(value: string): string {
+    return `20${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+  }
+
+  private static detectDelimiter(content: string): string {
+    const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+    return [',', ';', '\t', '|']
+      .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }))
+      .sort((a, b) => b.count - a.count)[0].delimiter;
+  }
+
+  private static splitCsvLine(line: string, delimiter: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (line.startsWith(delimiter, i)) {
+        cells.push(cell.trim());
+        cell = '';
+        i += delimiter.length - 1;
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell.trim());
+    return cells;
+  }
+
+  private static parseDate(value: string, format?: StatementCsvLayout['dateFormat']): string | null {
+    const trimmed = value.trim().split(/[ T]/)[0];
+    let year: string, month: string, day: string;
+
+    const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const parts = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (iso && (!format || format === 'YYYY-MM-DD')) {
+      [, year, month, day] = iso;
+    } else if (parts && format === 'MM/DD/YYYY') {
+      [, month, day, year] = parts;
+    } else if (parts && format !== 'YYYY-MM-DD') {
+      // Saudi banks export day-first dates unless configured otherwise
+      [, day, month, year] = parts;
+    } else {
+      return null;
+    }
+
+    const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    const parsed = new Date(`${date}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && InterestService.toDateString(parsed) === date ? date : null;
+  }
+
+  private static parseAmount(value: string, decimalSeparator: '.' | ','): number | null {
+    let text = value.trim().replace(/\s|SAR/gi, '');
+    if (!text) return null;
+
+    const negative = /^\(.*\)$/.test(text) || text.startsWith('-') || text.endsWith('-');
+    text = text.replace(/[()+-]/g, '');
+    text = decimalSeparator === ',' ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+
+    const amount = parseFloat(text);
+    if (isNaN(amount)) return null;
+    return negative ? -amount : amount;
+  }
+}
@@ -0,0 +1,220 @@
+import type {
+  Collateral,
+  CollateralAssignment,
+  CollateralRevaluationFrequency,
+  CollateralType,
+  CollateralValuation,
+  Loan,
+  Transaction,
+} from '@shared/schema';
+import type { CollateralLtvTimeline, LtvTimelinePoint, LtvTimelineSeries, StaleCollateralValuation } from '@shared/types';
+import { InterestService } from './interestService';
+import { LoanLedgerService } from './loanLedgerService';
+
+/**
+ * Default months between revaluations. Listed shares are marked to market monthly; property and
+ * other assets are revalued once a year.
+ */
+export const DEFAULT_REVALUATION_FREQUENCY_MONTHS: Record<CollateralType, number> = {
+  real_estate: 12,
+  liquid_stocks: 1,
+  other: 12,
+};
+
+export interface LtvTimelineInput {
+  dates: string[];
+  collateral: Collateral[];
+  valuations: CollateralValuation[];
+  assignments: Array<Pick<CollateralAssignment, 'collateralId' | 'facilityId' | 'creditLineId' | 'bankId' | 'effectiveDate' | 'releaseDate'> & {
+    creditLine?: { facilityId: string };
+  }>;
+  facilities: Array<{ id: string; bankId: string; name: string; bankName: string }>;
+  loans: Array<{ loan: Loan; ledger: Transaction[] }>;
+}
+
+export class CollateralValuationService {
+  /**
+   * The organization's frequencies, falling back to the defaults for types it has not configured
+   */
+  static revaluationFrequencies(saved: CollateralRevaluationFrequency[]): Record<CollateralType, number> {
+    const frequencies = { ...DEFAULT_REVALUATION_FREQUENCY_MONTHS };
+    for (const frequency of saved) {
+      frequencies[frequency.collateralType] = frequency.frequencyMonths;
+    }
+    return frequencies;
+  }
+
+  static nextRevaluationDate(collateral: Pick<Collateral, 'valuationDate'>, frequencyMonths: number): string {
+    return InterestService.addMonths(collateral.valuationDate, frequencyMonths);
+  }
+
+  /**
+   * Active collateral due for revaluation on or before today
+   */
+  static staleValuations(
+    collateral: Collateral[],
+    frequencies: Record<CollateralType, number>,
+    today: string
+  ): StaleCollateralValuation[] {
+    return collateral
+      .filter(c => c.isActive !== false)
+      .map(c => ({ collateral: c, nextRevaluationDate: this.nextRevaluationDate(c, frequencies[c.type]) }))
+      .filter(({ nextRevaluationDate }) => nextRevaluationDate <= today)
+      .map(({ collateral: c, nextRevaluationDate }) => ({
+        collateralId: c.id,
+        name: c.name,
+        type: c.type,
+        valuationDate: c.valuationDate,
+        nextRevaluationDate,
+        daysOverdue: InterestService.dayCount(nextRevaluationDate, today, 'actual_360'),
+      }));
+  }
+
+  /**
+   * Whether a valuation becomes the collateral's current value: it must not be older than the one in place
+   */
+  static isLatest(collateral: Pick<Collateral, 'valuationDate'>, effectiveDate: string): boolean {
+    return effectiveDate >= collateral.valuationDate;
+  }
+
+  /**
+   * Value in effect on a date. Collateral valued before the history was kept has no valuation rows
+   * and counts at its current value from its valuation date.
+   */
+  static valueAsOf(collateral: Collateral, valuations: CollateralValuation[], date: string): number {
+    const inEffect = valuations
+      .filter(v => v.collateralId === collateral.id && v.effectiveDate <= date)
+      .sort((a, b) => (a.effectiveDate === b.effectiveDate
+        ? new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime()
+        : a.effectiveDate < b.effectiveDate ? -1 : 1));
+
+    if (inEffect.length > 0) return parseFloat(inEffect[inEffect.length - 1].value);
+    if (valuations.some(v => v.collateralId === collateral.id)) return 0;
+    return collateral.valuationDate <= date ? parseFloat(collateral.currentValue) : 0;
+  }
+
+  /**
+   * Value a pledge counts for after the haircut, or null when the collateral has no haircut
+   */
+  static pledgedValue(value: string | number, haircutPercent: string | null | undefined): string | null {
+    if (haircutPercent === null || haircutPercent === undefined) return null;
+    const amount = typeof value === 'string' ? parseFloat(value) : value;
+    return InterestService.roundAmount(amount * (1 - parseFloat(haircutPercent) / 100)).toFixed(2);
+  }
+
+  /**
+   * Month ends over the past months, followed by today
+   */
+  static timelineDates(today: string, months: number): string[] {
+    const [year, month] = today.split('-').map(Number);
+    const dates: string[] = [];
+    for (let i = months; i >= 1; i--) {
+      dates.push(InterestService.toDateString(new Date(Date.UTC(year, month - i, 0))));
+    }
+    dates.push(today);
+    return dates;
+  }
+
+  /**
+   * LTV per date for the portfolio, each bank and each facility. Collateral pledged to a facility or
+   * one of its credit lines counts for that facility and its bank; collateral pledged to a bank counts
+   * for the bank only. The portfolio figure uses all collateral, as the portfolio LTV does.
+   */
+  static ltvTimeline(input: LtvTimelineInput): CollateralLtvTimeline {
+    const facilityById = new Map(input.facilities.map(f => [f.id, f]));
+    const bankNames = new Map(input.facilities.map(f => [f.bankId, f.bankName]));
+
+    const portfolio: LtvTimelinePoint[] = [];
+    const banks = new Map<string, LtvTimelineSeries>();
+    const facilities = new Map<string, LtvTimelineSeries>();
+    const seriesOf = (map: Map<string, LtvTimelineSeries>, id: string, name: string, bankId: string) => {
+      if (!map.has(id)) map.set(id, { id, name, bankId, points: [] });
+      return map.get(id)!;
+    };
+
+    input.dates.forEach((date, index) => {
+      const previous = index > 0 ? input.dates[index - 1] : null;
+      const revaluedIds = new Set(
+        input.valuations
+          .filter(v => v.effectiveDate <= date && (previous === null || v.effectiveDate > previous))
+          .map(v => v.collateralId)
+      );
+      const valueOf = new Map(input.collateral.map(c => [c.id, this.valueAsOf(c, input.valuations, date)]));
+
+      const outstandingByFacility = new Map<string, number>();
+      for (const { loan, ledger } of input.loans) {
+        const outstanding = LoanLedgerService.calculateBalance(loan, ledger, date).total;
+        outstandingByFacility.set(loan.facilityId, (outstandingByFacility.get(loan.facilityId) ?? 0) + outstanding);
+      }
+
+      const bankTotals = new Map<string, { outstanding: number; collateralValue: number; revaluations: number }>();
+      const facilityTotals = new Map<string, { outstanding: number; collateralValue: number; revaluations: number }>();
+      const totalsOf = (map: typeof bankTotals, id: string) => {
+        if (!map.has(id)) map.set(id, { outstanding: 0, collateralValue: 0, revaluations: 0 });
+        return map.get(id)!;
+      };
+
+      outstandingByFacility.forEach((outstanding, facilityId) => {
+        const facility = facilityById.get(facilityId);
+        if (!facility) return;
+        totalsOf(facilityTotals, facilityId).outstanding += outstanding;
+        totalsOf(bankTotals, facility.bankId).outstanding += outstanding;
+      });
+
+      for (const assignment of input.assignments) {
+        if (assignment.effectiveDate > date || (assignment.releaseDate && assignment.releaseDate <= date)) continue;
+        const value = valueOf.get(assignment.collateralId) ?? 0;
+        const revalued = revaluedIds.has(assignment.collateralId) ? 1 : 0;
+        const facility = facilityById.get(assignment.facilityId ?? assignment.creditLine?.facilityId ?? '');
+        const bankId = facility?.bankId ?? assignment.bankId;
+
+        if (facility) {
+          const totals = totalsOf(facilityTotals, facility.id);
+          totals.collateralValue += value;
+          totals.revaluations += revalued;
+        }
+        if (bankId) {
+          const totals = totalsOf(bankTotals, bankId);
+          totals.collateralValue += value;
+          totals.revaluations += revalued;
+        }
+      }
+
+      const totalOutstanding = Array.from(outstandingByFacility.values()).reduce((sum, o) => sum + o, 0);
+      const totalCollateral = Array.from(valueOf.values()).reduce((sum, v) => sum + v, 0);
+      portfolio.push(this.point(date, totalOutstanding, totalCollateral, revaluedIds.size));
+
+      bankTotals.forEach((totals, bankId) => {
+        seriesOf(banks, bankId, bankNames.get(bankId) ?? 'Unknown bank', bankId).points
+          .push(this.point(date, totals.outstanding, totals.collateralValue, totals.revaluations));
+      });
+      facilityTotals.forEach((totals, facilityId) => {
+        const facility = facilityById.get(facilityId)!;
+        seriesOf(facilities, facilityId, facility.name, facility.bankId).points
+          .push(this.point(date, totals.outstanding, totals.collateralValue, totals.revaluations));
+      });
+    });
+
+    // Series that only start partway through are padded so every series has a point per date
+    const pad = (series: LtvTimelineSeries) => ({
+      ...series,
+      points: input.dates.map(date => series.points.find(p => p.date === date) ?? this.point(date, 0, 0, 0)),
+    });
+
+    return {
+      portfolio,
+      banks: Array.from(banks.values()).map(pad),
+      facilities: Array.from(facilities.values()).map(pad),
+    };
+  }
+
+  private static point(date: string, outstanding: number, collateralValue: number, revaluations: number): LtvTimelinePoint {
+    return {
+      date,
+      outstanding: InterestService.roundAmount(outstanding),
+      collateralValue: InterestService.roundAmount(collateralValue),
+      ltv: collateralValue > 0 ? InterestService.roundAmount((outstanding / collateralValue) * 100) : null,
+      revaluations,
+    };
+  }
+}
@@ -25,6 +25,12 @@ const configSchema = z.object({
   
   // AI configuration (optional)
   DEEPSEEK_API_KEY: z.string().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  OPENAI_BASE_URL: z.string().default('https://api.openai.com/v1'), // Any OpenAI-compatible endpoint (Azure, vLLM, Ollama, ...)
+  LLM_PROVIDER: z.enum(['openai', 'deepseek', 'mock']).default('deepseek'), // Default for organizations without their own selection
+  LLM_MODEL: z.string().optional(), // Model of the default provider, falls back to the provider's own default
+  LLM_TIMEOUT_MS: z.string().default('30000').transform(Number),
+  LLM_MAX_RETRIES: z.string().default('2').transform(Number),
   
   // Admin configuration
   ADMIN_USERNAME: z.string().default('admin'),
@@ -32,6 +38,22 @@ const configSchema = z.object({
   
   // Object storage (optional)
   PUBLIC_OBJECT_SEARCH_PATHS: z.string().optional(),
+
+  // File storage driver for attachments, documents and chat uploads
+  FILE_STORAGE_DRIVER: z.enum(['local', 's3', 'replit']).default('local'),
+  FILE_STORAGE_DIR: z.string().default('data/files'),
+  FILE_STORAGE_SIGNING_SECRET: z.string().optional(), // Signs local upload / download URLs, falls back to SESSION_SECRET
+  S3_ENDPOINT: z.string().optional(), // e.g. https://s3.me-central-1.amazonaws.com or a MinIO URL
+  S3_REGION: z.string().default('us-east-1'),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  
+  // Reference rates file-drop directory (CSV fixings are picked up from here)
+  REFERENCE_RATE_DROP_DIR: z.string().default('data/reference-rates'),
+
+  // Share price file-drop directory (CSV / JSON Tadawul closes are picked up from here)
+  SHARE_PRICE_DROP_DIR: z.string().default('data/share-prices'),
 });
 
 export type Config = z.infer<typeof configSchema>;
@@ -74,11 +96,21 @@ class ConfigManager {
       this.warnings.push('Email notifications disabled');
     }
     
-    if (!this.config.DEEPSEEK_API_KEY) {
-      console.log('ℹ️  DeepSeek API not configured - AI insights will use default mode');
+    const llmKey = { openai: this.config.OPENAI_API_KEY, deepseek: this.config.DEEPSEEK_API_KEY, mock: 'mock' }[this.config.LLM_PROVIDER];
+    if (!llmKey) {
+      console.log(`ℹ️  ${this.config.LLM_PROVIDER} API not configured - AI insights will use default mode`);
       this.warnings.push('AI insights in default mode');
     }
     
+    if (this.config.LLM_PROVIDER === 'mock' && this.config.NODE_ENV === 'production') {
+      throw new Error('The mock LLM provider cannot be used in production');
+    }
+    
+    if (this.config.FILE_STORAGE_DRIVER === 's3' &&
+        (!this.config.S3_ENDPOINT || !this.config.S3_BUCKET || !this.config.S3_ACCESS_KEY_ID || !this.config.S3_SECRET_ACCESS_KEY)) {
+      throw new Error('S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for the s3 file storage driver');
+    }
+    
     if (!this.config.SUPABASE_URL || !this.config.SUPABASE_ANON_KEY) {
       console.log('ℹ️  Supabase not configured - using Replit auth only');
       this.warnings.push('Supabase auth not configured');
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CreditLine, InsertBank, InsertCreditLine, InsertFacility, InsertLoan, Loan, Transaction } from '@shared/schema';
+import { CreditLimitError, CreditLineService } from './creditLineService';
+import { MemoryStorage } from './storage';
+
+const lineLoan = (id: string, amount: string, status = 'active', extra: Partial<Loan> = {}) => ({
+  id,
+  amount,
+  status,
+  startDate: '2026-01-15',
+  creditLineId: 'line-1',
+  ...extra,
+}) as Loan;
+
+const repayment = (loanId: string, principal: number, date: string) => ({
+  id: `repay-${loanId}-${date}`,
+  loanId,
+  type: 'repayment',
+  amount: principal.toFixed(2),
+  date,
+  allocation: { principal },
+  createdAt: new Date(`${date}T12:00:00Z`),
+}) as Transaction;
+
+test('only the outstanding principal of live loans uses the credit line', () => {
+  const loans = [
+    lineLoan('a', '1000000.00'),
+    lineLoan('b', '500000.00', 'overdue'),
+    lineLoan('c', '750000.00', 'settled'),
+    // Drawdowns booked ahead of their start date already count against the line
+    lineLoan('d', '200000.00', 'active', { startDate: '2027-01-15' }),
+  ];
+  const ledger = [repayment('a', 400000, '2026-03-01')];
+
+  assert.equal(CreditLineService.utilized(loans, ledger), 1300000);
+  assert.equal(CreditLineService.availableLimit({ creditLimit: '2000000.00' }, loans, ledger), '700000.00');
+});
+
+test('drawdowns must fit the available limit of an active line or facility', () => {
+  const line = { name: 'Working capital', isActive: true };
+
+  assert.doesNotThrow(() => CreditLineService.assertDrawFits(line, '700000.00', '700000.00'));
+  assert.throws(
+    () => CreditLineService.assertDrawFits(line, '700000.00', '700000.01'),
+    (error: Error) => error instanceof CreditLimitError &&
+      error.message === 'Drawdown of 700000.01 exceeds the available limit of 700000.00 on credit line Working capital'
+  );
+  assert.throws(() => CreditLineService.assertDrawFits({ ...line, isActive: false }, '700000.00', '1.00'), /Credit line Working capital is inactive/);
+  assert.throws(() => CreditLineService.assertFacilityDrawFits({ isActive: true }, '100.00', '200.00'), /exceeds the available facility limit of 100\.00/);
+});
+
+test('a loan edit draws the increase on the same line or its whole balance when it moves onto a line', () => {
+  const previous = lineLoan('a', '1000000.00');
+  const ledger = [repayment('a', 400000, '2026-03-01')];
+
+  assert.equal(CreditLineService.addedDraw(previous, { ...previous, amount: '1250000.00' }, ledger), 250000);
+  assert.equal(CreditLineService.addedDraw(previous, { ...previous, amount: '900000.00' }, ledger), 0);
+  assert.equal(CreditLineService.addedDraw({ ...previous, creditLineId: null }, previous, ledger), 600000);
+  assert.equal(CreditLineService.addedDraw(previous, { ...previous, amount: '1250000.00', status: 'settled' }, ledger), 0);
+});
+
+test('credit line limits cannot add up to more than the facility limit', () => {
+  const lines = [
+    { id: 'line-1', creditLimit: '3000000.00', isActive: true },
+    { id: 'line-2', creditLimit: '2000000.00', isActive: true },
+    { id: 'line-3', creditLimit: '9000000.00', isActive: false },
+  ] as CreditLine[];
+
+  assert.doesNotThrow(() => CreditLineService.assertWithinFacility({ creditLimit: '5000000.00' }, lines));
+  assert.doesNotThrow(() => CreditLineService.assertWithinFacility({ creditLimit: '5000000.00' }, lines, { id: 'line-2', creditLimit: '1500000.00' }));
+  assert.throws(
+    () => CreditLineService.assertWithinFacility({ creditLimit: '5000000.00' }, lines, { creditLimit: '1.00' }),
+    /Credit line limits total 5000001\.00, exceeding the facility limit of 5000000\.00/
+  );
+});
+
+test('loans are only booked on a credit line while they fit its limit', async () => {
+  const storage = new MemoryStorage();
+  const bank = await storage.createBank({ name: 'Line Bank', code: 'LNB', organizationId: 'org-1' } as InsertBank);
+  const facility = await storage.createFacility({
+    bankId: bank.id, userId: 'user-1', organizationId: 'org-1', facilityType: 'revolving', creditLimit: '5000000.00',
+    costOfFunding: '1.00', startDate: '2026-01-01', expiryDate: '2027-12-31',
+  } as InsertFacility);
+  const line = await storage.createCreditLine({
+    organizationId: 'org-1', facilityId: facility.id, creditLineType: 'working_capital', name: 'Working capital', creditLimit: '1500000.00', isActive: true,
+  } as InsertCreditLine);
+  const loan = (referenceNumber: string, amount: string) => ({
+    facilityId: facility.id, creditLineId: line.id, userId: 'user-1', organizationId: 'org-1', referenceNumber, amount,
+    startDate: '2026-01-15', dueDate: '2026-07-15', siborRate: '5.00', margin: '1.00', bankRate: '6.00', interestBasis: 'actual_360',
+  } as InsertLoan);
+
+  const first = await storage.createLoan(loan('CL-1', '1000000.00'));
+  await assert.rejects(storage.createLoan(loan('CL-2', '600000.00')), CreditLimitError);
+  await assert.rejects(storage.updateLoan(first.id, { amount: '1600000.00' }), /exceeds the available limit of 500000\.00/);
+
+  await storage.createLoan(loan('CL-2', '500000.00'));
+  assert.equal((await storage.getCreditLine(line.id, 'org-1'))?.availableLimit, '0.00');
+});
@@ -0,0 +1,95 @@
+import type { CreditLine, Facility, Loan, Transaction } from '@shared/schema';
+import { InterestService } from './interestService';
+import { LoanLedgerService } from './loanLedgerService';
+
+// Replaying the whole ledger counts future-dated drawdowns against the limit as soon as they are booked
+const LEDGER_END = '9999-12-31';
+
+export class CreditLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CreditLimitError';
+    Object.setPrototypeOf(this, CreditLimitError.prototype);
+  }
+}
+
+export class CreditLineService {
+  /**
+   * Outstanding principal of the credit line's active and overdue loans
+   */
+  static utilized(lineLoans: Loan[], ledger: Transaction[]): number {
+    const used = lineLoans
+      .filter(loan => loan.status === 'active' || loan.status === 'overdue')
+      .reduce((sum, loan) => {
+        const loanLedger = ledger.filter(t => t.loanId === loan.id);
+        return sum + LoanLedgerService.calculateBalance(loan, loanLedger, LEDGER_END).principal;
+      }, 0);
+    return InterestService.roundAmount(used);
+  }
+
+  static availableLimit(creditLine: Pick<CreditLine, 'creditLimit'>, lineLoans: Loan[], ledger: Transaction[]): string {
+    return (parseFloat(creditLine.creditLimit) - this.utilized(lineLoans, ledger)).toFixed(2);
+  }
+
+  /**
+   * Reject a drawdown that does not fit in the credit line's available limit
+   */
+  static assertDrawFits(creditLine: Pick<CreditLine, 'name' | 'isActive'>, availableLimit: string, amount: string): void {
+    if (creditLine.isActive === false) {
+      throw new CreditLimitError(`Credit line ${creditLine.name} is inactive`);
+    }
+    if (parseFloat(amount) > parseFloat(availableLimit)) {
+      throw new CreditLimitError(
+        `Drawdown of ${parseFloat(amount).toFixed(2)} exceeds the available limit of ${parseFloat(availableLimit).toFixed(2)} on credit line ${creditLine.name}`
+      );
+    }
+  }
+
+  /**
+   * Reject a drawdown that does not fit in what is left of the facility limit
+   */
+  static assertFacilityDrawFits(facility: Pick<Facility, 'isActive'>, availableLimit: string, amount: string): void {
+    if (facility.isActive === false) {
+      throw new CreditLimitError('Facility is inactive');
+    }
+    if (parseFloat(amount) > parseFloat(availableLimit)) {
+      throw new CreditLimitError(
+        `Drawdown of ${parseFloat(amount).toFixed(2)} exceeds the available facility limit of ${parseFloat(availableLimit).toFixed(2)}`
+      );
+    }
+  }
+
+  /**
+   * Principal a loan edit adds to its credit line: the outstanding principal when the loan moves onto
+   * the line, or the increase when its amount goes up on the same line
+   */
+  static addedDraw(previous: Loan, updated: Loan, ledger: Transaction[]): number {
+    if (!updated.creditLineId || (updated.status !== 'active' && updated.status !== 'overdue')) {
+      return 0;
+    }
+    if (previous.creditLineId !== updated.creditLineId) {
+      return LoanLedgerService.calculateBalance(updated, ledger, LEDGER_END).principal;
+    }
+    return Math.max(0, InterestService.roundAmount(parseFloat(updated.amount) - parseFloat(previous.amount)));
+  }
+
+  /**
+   * Reject credit line limits that add up to more than the facility limit.
+   * The line being created or changed is counted with its new limit; inactive lines are ignored.
+   */
+  static assertWithinFacility(
+    facility: Pick<Facility, 'creditLimit'>,
+    facilityLines: Array<Pick<CreditLine, 'id' | 'creditLimit' | 'isActive'>>,
+    change?: { id?: string; creditLimit: string }
+  ): void {
+    const total = facilityLines
+      .filter(line => line.isActive !== false && line.id !== change?.id)
+      .reduce((sum, line) => sum + parseFloat(line.creditLimit), change ? parseFloat(change.creditLimit) : 0);
+
+    if (InterestService.roundAmount(total) > parseFloat(facility.creditLimit)) {
+      throw new CreditLimitError(
+        `Credit line limits total ${total.toFixed(2)}, exceeding the facility limit of ${parseFloat(facility.creditLimit).toFixed(2)}`
+      );
+    }
+  }
+}
@@ -1,5 +1,10 @@
 // Auto-Categorized Daily Alerts System
 import { IStorage } from './storage';
+import { InstallmentService } from './installmentService';
+import { GuaranteeService, GUARANTEE_EXPIRY_REMINDER_DAYS } from './guaranteeService';
+import { CollateralValuationService } from './collateralValuationService';
+import { MarginCallService } from './marginCallService';
+import type { LoanInstallment } from '@shared/schema';
 import { MailService } from '@sendgrid/mail';
 import { config } from './config';
 
@@ -46,34 +51,62 @@ export class DailyAlertsService {
     const loans = await this.storage.getActiveLoansByUser(organizationId);
     const facilities = await this.storage.getUserFacilities(organizationId);
     const collateral = await this.storage.getUserCollateral(organizationId);
+
+    // Exposure is measured on ledger balances (principal + accrued interest + fees)
+    const balances = await this.storage.calculateLoanBalances(loans.map((l: any) => l.id));
+    const outstandingOf = (l: any) => balances[l.id]?.total ?? 0;
+    
+    // Amortizing loans are tracked per installment; loans without installments are bullet loans
+    const today = now.toISOString().split('T')[0];
+    const installments = await this.storage.getInstallmentsForLoans(loans.map((l: any) => l.id));
+    const installmentsByLoan = new Map<string, LoanInstallment[]>();
+    for (const installment of installments) {
+      installmentsByLoan.set(installment.loanId, [...(installmentsByLoan.get(installment.loanId) ?? []), installment]);
+    }
     
-    // 1. CRITICAL: Loans overdue
+    // 1. CRITICAL: Loans (bullet) and installments overdue
     const overdueLoans = loans.filter((l: any) => {
       // Only check active loans (not settled/cancelled/restructured)
-      if (l.status !== 'active') {
+      if (l.status !== 'active' || installmentsByLoan.has(l.id)) {
         return false;
       }
       const dueDate = new Date(l.dueDate);
       return dueDate < now;
     });
+    const overdueInstallments = loans
+      .filter((l: any) => l.status === 'active')
+      .flatMap((l: any) => InstallmentService.overdueInstallments(installmentsByLoan.get(l.id) ?? [], today)
+        .map(installment => ({ loan: l, installment })));
     
-    if (overdueLoans.length > 0) {
+    if (overdueLoans.length > 0 || overdueInstallments.length > 0) {
       const totalOverdue = overdueLoans.reduce((sum: number, l: any) => 
-        sum + parseFloat(l.amount.toString()), 0);
+        sum + outstandingOf(l), 0) +
+        overdueInstallments.reduce((sum, { installment }) => sum + InstallmentService.amountDue(installment), 0);
+      const overdueCount = overdueLoans.length + overdueInstallments.length;
       
       alerts.push({
         id: `overdue-${Date.now()}`,
         category: 'critical',
-        title: `${overdueLoans.length} Overdue Loan(s)`,
-        message: `You have ${overdueLoans.length} overdue loan(s) totaling SAR ${totalOverdue.toLocaleString('en-US', { minimumFractionDigits: 2 })}`,
+        title: overdueInstallments.length > 0 ? `${overdueCount} Overdue Loan(s) / Installment(s)` : `${overdueLoans.length} Overdue Loan(s)`,
+        message: `You have ${overdueCount} overdue payment(s) totaling SAR ${totalOverdue.toLocaleString('en-US', { minimumFractionDigits: 2 })}`,
         actionRequired: 'Immediate payment or renegotiation required',
-        data: overdueLoans.map((l: any) => ({
-          id: l.id,
-          referenceNumber: l.referenceNumber,
-          amount: parseFloat(l.amount),
-          dueDate: l.dueDate,
-          daysOverdue: Math.ceil((now.getTime() - new Date(l.dueDate).getTime()) / (1000 * 60 * 60 * 24))
-        }))
+        data: [
+          ...overdueLoans.map((l: any) => ({
+            id: l.id,
+            referenceNumber: l.referenceNumber,
+            amount: outstandingOf(l),
+            dueDate: l.dueDate,
+            daysOverdue: Math.ceil((now.getTime() - new Date(l.dueDate).getTime()) / (1000 * 60 * 60 * 24))
+          })),
+          ...overdueInstallments.map(({ loan, installment }) => ({
+            id: loan.id,
+            referenceNumber: `${loan.referenceNumber} #${installment.installmentNumber}`,
+            installmentId: installment.id,
+            amount: InstallmentService.amountDue(installment),
+            dueDate: installment.dueDate,
+            daysOverdue: Math.ceil((now.getTime() - new Date(installment.dueDate).getTime()) / (1000 * 60 * 60 * 24))
+          })),
+        ]
       });
     }
     
@@ -102,34 +135,51 @@ export class DailyAlertsService {
       });
     }
     
-    // 3. HIGH: Loans due within 7 days
+    // 3. HIGH: Loans and installments due within 7 days
+    const daysUntil = (date: string) => Math.ceil((new Date(date).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
     const upcomingLoans = loans.filter((l: any) => {
       // Only check active loans
-      if (l.status !== 'active') {
+      if (l.status !== 'active' || installmentsByLoan.has(l.id)) {
         return false;
       }
-      const dueDate = new Date(l.dueDate);
-      const daysUntilDue = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+      const daysUntilDue = daysUntil(l.dueDate);
       return daysUntilDue > 0 && daysUntilDue <= 7;
     });
+    const upcomingInstallments = loans
+      .filter((l: any) => l.status === 'active')
+      .flatMap((l: any) => (installmentsByLoan.get(l.id) ?? [])
+        .filter(installment => installment.status !== 'paid' && daysUntil(installment.dueDate) > 0 && daysUntil(installment.dueDate) <= 7)
+        .map(installment => ({ loan: l, installment })));
     
-    if (upcomingLoans.length > 0) {
+    if (upcomingLoans.length > 0 || upcomingInstallments.length > 0) {
       const totalDue = upcomingLoans.reduce((sum: number, l: any) => 
-        sum + parseFloat(l.amount.toString()), 0);
+        sum + outstandingOf(l), 0) +
+        upcomingInstallments.reduce((sum, { installment }) => sum + InstallmentService.amountDue(installment), 0);
+      const upcomingCount = upcomingLoans.length + upcomingInstallments.length;
       
       alerts.push({
         id: `upcoming-${Date.now()}`,
         category: 'high',
-        title: `${upcomingLoans.length} Loan(s) Due Within 7 Days`,
-        message: `${upcomingLoans.length} loan(s) totaling SAR ${totalDue.toLocaleString('en-US', { minimumFractionDigits: 2 })} due within 7 days`,
+        title: upcomingInstallments.length > 0 ? `${upcomingCount} Payment(s) Due Within 7 Days` : `${upcomingLoans.length} Loan(s) Due Within 7 Days`,
+        message: `${upcomingCount} payment(s) totaling SAR ${totalDue.toLocaleString('en-US', { minimumFractionDigits: 2 })} due within 7 days`,
         actionRequired: 'Ensure sufficient funds or arrange renewal',
-        data: upcomingLoans.map((l: any) => ({
-          id: l.id,
-          referenceNumber: l.referenceNumber,
-          amount: parseFloat(l.amount),
-          dueDate: l.dueDate,
-          daysUntilDue: Math.ceil((new Date(l.dueDate).getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
-        }))
+        data: [
+          ...upcomingLoans.map((l: any) => ({
+            id: l.id,
+            referenceNumber: l.referenceNumber,
+            amount: outstandingOf(l),
+            dueDate: l.dueDate,
+            daysUntilDue: daysUntil(l.dueDate)
+          })),
+          ...upcomingInstallments.map(({ loan, installment }) => ({
+            id: loan.id,
+            referenceNumber: `${loan.referenceNumber} #${installment.installmentNumber}`,
+            installmentId: installment.id,
+            amount: InstallmentService.amountDue(installment),
+            dueDate: installment.dueDate,
+            daysUntilDue: daysUntil(installment.dueDate)
+          })),
+        ]
       });
     }
     
@@ -137,8 +187,8 @@ export class DailyAlertsService {
     const highUtilizationFacilities = facilities.map((f: any) => {
       const facilityLoans = loans.filter((l: any) => l.facilityId === f.id);
       const outstanding = facilityLoans.reduce((sum: number, l: any) => 
-        sum + parseFloat(l.amount.toString()), 0);
-      const limit = parseFloat(f.limit.toString());
+        sum + outstandingOf(l), 0);
+      const limit = parseFloat(f.creditLimit.toString());
       
       // Guard against zero or invalid limits
       if (limit <= 0 || !isFinite(limit)) {
@@ -173,14 +223,14 @@ export class DailyAlertsService {
     }
     
     // 5. MEDIUM: Bank concentration risk (>40% to single bank)
-    const banks = await this.storage.getAllBanks();
+    const banks = await this.storage.getAllBanks(organizationId);
     const totalExposure = loans.reduce((sum: number, l: any) => 
-      sum + parseFloat(l.amount.toString()), 0);
+      sum + outstandingOf(l), 0);
     
     const bankConcentration = banks.map(bank => {
       const bankLoans = loans.filter((l: any) => l.facility?.bankId === bank.id);
       const bankExposure = bankLoans.reduce((sum: number, l: any) => 
-        sum + parseFloat(l.amount.toString()), 0);
+        sum + outstandingOf(l), 0);
       const concentration = totalExposure > 0 ? (bankExposure / totalExposure) * 100 : 0;
       
       return {
@@ -288,7 +338,7 @@ export class DailyAlertsService {
     
     if (monthlyUpcoming.length > 0) {
       const totalDue = monthlyUpcoming.reduce((sum: number, l: any) => 
-        sum + parseFloat(l.amount.toString()), 0);
+        sum + outstandingOf(l), 0);
       
       alerts.push({
         id: `monthly-upcoming-${Date.now()}`,
@@ -300,6 +350,124 @@ export class DailyAlertsService {
       });
     }
     
+    // 9. HIGH: Guarantees expiring within the reminder window
+    const guarantees = await this.storage.getUserGuarantees(organizationId);
+    const expiringGuarantees = guarantees.filter(g => {
+      const daysUntilExpiry = GuaranteeService.daysUntilExpiry(g, today);
+      return GuaranteeService.isLive(g) && daysUntilExpiry >= 0 && daysUntilExpiry <= GUARANTEE_EXPIRY_REMINDER_DAYS;
+    });
+    
+    if (expiringGuarantees.length > 0) {
+      const totalAmount = expiringGuarantees.reduce((sum, g) => sum + GuaranteeService.remainingAmount(g), 0);
+      
+      alerts.push({
+        id: `guarantees-expiring-${Date.now()}`,
+        category: 'high',
+        title: `${expiringGuarantees.length} Guarantee(s) Expiring Within ${GUARANTEE_EXPIRY_REMINDER_DAYS} Days`,
+        message: `${expiringGuarantees.length} guarantee(s) totaling SAR ${totalAmount.toLocaleString('en-US', { minimumFractionDigits: 2 })} expire within ${GUARANTEE_EXPIRY_REMINDER_DAYS} days`,
+        actionRequired: 'Renew with the bank or let the guarantee lapse',
+        data: expiringGuarantees.map(g => ({
+          id: g.id,
+          referenceNumber: g.referenceNumber,
+          beneficiaryName: g.beneficiaryName,
+          bankName: g.facility.bank?.name || 'Unknown',
+          amount: GuaranteeService.remainingAmount(g),
+          expiryDate: g.expiryDate,
+          daysUntilExpiry: GuaranteeService.daysUntilExpiry(g, today)
+        }))
+      });
+    }
+    
+    // 10. MEDIUM: Guarantee commissions due and not yet paid
+    const unpaidCommissions = (await this.storage.getUnpaidGuaranteeCommissions(organizationId))
+      .filter(c => c.dueDate <= today);
+    
+    if (unpaidCommissions.length > 0) {
+      const totalUnpaid = unpaidCommissions.reduce((sum, c) => sum + parseFloat(c.amount), 0);
+      const referenceOf = new Map(guarantees.map(g => [g.id, g.referenceNumber]));
+      
+      alerts.push({
+        id: `guarantee-commissions-${Date.now()}`,
+        category: 'medium',
+        title: `${unpaidCommissions.length} Unpaid Guarantee Commission(s)`,
+        message: `Guarantee commissions totaling SAR ${totalUnpaid.toLocaleString('en-US', { minimumFractionDigits: 2 })} are due and not marked as paid`,
+        actionRequired: 'Check the bank debits and mark the commissions as paid',
+        data: unpaidCommissions.map(c => ({
+          id: c.id,
+          guaranteeId: c.guaranteeId,
+          referenceNumber: referenceOf.get(c.guaranteeId) || 'Unknown',
+          amount: parseFloat(c.amount),
+          dueDate: c.dueDate,
+          periodStart: c.periodStart,
+          periodEnd: c.periodEnd
+        }))
+      });
+    }
+    
+    // 11. MEDIUM: Collateral valuations older than the revaluation frequency of their type
+    const revaluationFrequencies = CollateralValuationService.revaluationFrequencies(
+      await this.storage.getCollateralRevaluationFrequencies(organizationId)
+    );
+    const staleValuations = CollateralValuationService.staleValuations(collateral, revaluationFrequencies, today);
+    
+    if (staleValuations.length > 0) {
+      alerts.push({
+        id: `stale-valuations-${Date.now()}`,
+        category: 'medium',
+        title: `${staleValuations.length} Collateral Valuation(s) Due for Renewal`,
+        message: `${staleValuations.length} collateral item(s) have not been revalued within the frequency set for their type, so LTV may be overstated or understated`,
+        actionRequired: 'Obtain a new valuation and record it on the collateral',
+        data: staleValuations
+      });
+    }
+    
+    // 12. CRITICAL / HIGH: Open margin calls (LTV above the bank target), overdue ones first
+    const openMarginCalls = await MarginCallService.details(
+      this.storage,
+      organizationId,
+      await this.storage.getMarginCalls(organizationId, { status: 'open' }),
+      today
+    );
+    const marginCallData = (calls: typeof openMarginCalls) => calls.map(c => ({
+      id: c.id,
+      bankId: c.bankId,
+      bankName: c.bankName,
+      facilityName: c.facilityName,
+      currentLtv: parseFloat(c.currentLtv),
+      targetLtv: parseFloat(c.targetLtv),
+      shortfall: parseFloat(c.currentShortfall),
+      cureDeadline: c.cureDeadline,
+      daysToDeadline: c.daysToDeadline
+    }));
+    const overdueMarginCalls = openMarginCalls.filter(c => c.daysToDeadline < 0);
+    const pendingMarginCalls = openMarginCalls.filter(c => c.daysToDeadline >= 0);
+    
+    if (overdueMarginCalls.length > 0) {
+      alerts.push({
+        id: `margin-calls-overdue-${Date.now()}`,
+        category: 'critical',
+        title: `${overdueMarginCalls.length} Margin Call(s) Past Cure Deadline`,
+        message: overdueMarginCalls
+          .map(c => `${c.facilityName ?? c.bankName} LTV is ${parseFloat(c.currentLtv).toFixed(2)}% against a ${parseFloat(c.targetLtv).toFixed(2)}% target, due ${c.cureDeadline}`)
+          .join('; '),
+        actionRequired: 'Cure the call or agree a waiver with the bank and record it on the bank page',
+        data: marginCallData(overdueMarginCalls)
+      });
+    }
+    
+    if (pendingMarginCalls.length > 0) {
+      alerts.push({
+        id: `margin-calls-${Date.now()}`,
+        category: 'high',
+        title: `Margin Call: ${pendingMarginCalls.length} Bank/Facility LTV(s) Above Target`,
+        message: pendingMarginCalls
+          .map(c => `${c.facilityName ?? c.bankName} LTV is ${parseFloat(c.currentLtv).toFixed(2)}% against a ${parseFloat(c.targetLtv).toFixed(2)}% target, cure by ${c.cureDeadline}`)
+          .join('; '),
+        actionRequired: 'Pledge additional collateral, pay down or assign unencumbered collateral before the cure deadline',
+        data: marginCallData(pendingMarginCalls)
+      });
+    }
+    
     return alerts;
   }
 
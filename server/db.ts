@@ -1,10 +1,13 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonDatabase } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
+// Handle passed to db.transaction callbacks
+export type DbTransaction = Parameters<Parameters<NeonDatabase<typeof schema>['transaction']>[0]>[0];
+
 // Database health status
 let dbAvailable = false;
 let pool: Pool | null = null;
@@ -216,6 +216,163 @@ export async function sendAIAlertNotification(
   }
 }
 
+/**
+ * Tell a member about an approval request they can decide, or about the decision on their own request
+ */
+export async function sendApprovalNotification(
+  userEmail: string,
+  title: string,
+  message: string,
+  comment?: string | null
+): Promise<boolean> {
+  if (!config.has('SENDGRID_API_KEY')) {
+    console.log('Approval notification would be sent to:', userEmail);
+    console.log('Approval:', title, message);
+    return true;
+  }
+
+  try {
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #006600;">Morouna Loans - ${title}</h2>
+        
+        <p>${message}</p>
+        
+        ${comment ? `
+        <div style="background-color: #f8f9fa; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <p style="margin: 0;"><strong>Comment:</strong> ${comment}</p>
+        </div>
+        ` : ''}
+        
+        <p>Please log in to the approvals inbox to review the request.</p>
+        
+        <p>Best regards,<br>
+        Morouna Loans Team</p>
+        
+        <hr>
+        <p style="font-size: 12px; color: #666;">This is an automated notification from your Morouna Loans Platform.</p>
+      </div>
+    `;
+
+    await mailService.send({
+      to: userEmail,
+      from: FROM_EMAIL_REMINDERS,
+      subject: `Morouna Loans - ${title}`,
+      html: emailHtml,
+    });
+
+    console.log('Approval notification sent successfully to:', userEmail);
+    return true;
+  } catch (error) {
+    console.error('SendGrid approval email error:', error);
+    return false;
+  }
+}
+
+export async function sendGuaranteeExpiryReminder(
+  userEmail: string,
+  guarantee: { referenceNumber: string; beneficiaryName: string; guaranteeAmount: string; expiryDate: string },
+  daysUntilExpiry: number
+): Promise<boolean> {
+  if (!config.has('SENDGRID_API_KEY')) {
+    console.log('Guarantee expiry reminder would be sent to:', userEmail);
+    console.log('Guarantee:', guarantee.referenceNumber, 'expires', guarantee.expiryDate);
+    return true;
+  }
+
+  try {
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #006600;">Morouna Loans - Guarantee Expiring</h2>
+        
+        <p>Guarantee <strong>${guarantee.referenceNumber}</strong> in favour of ${guarantee.beneficiaryName} expires in ${daysUntilExpiry} day(s).</p>
+        
+        <div style="background-color: #f8f9fa; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <p style="margin: 0;"><strong>Amount:</strong> SAR ${parseFloat(guarantee.guaranteeAmount).toLocaleString()}</p>
+          <p style="margin: 0;"><strong>Expiry Date:</strong> ${guarantee.expiryDate}</p>
+        </div>
+        
+        <p>Renew the guarantee with the bank before that date if it is still needed; otherwise it will be marked expired.</p>
+        
+        <p>Best regards,<br>
+        Morouna Loans Team</p>
+        
+        <hr>
+        <p style="font-size: 12px; color: #666;">This is an automated notification from your Morouna Loans Platform.</p>
+      </div>
+    `;
+
+    await mailService.send({
+      to: userEmail,
+      from: FROM_EMAIL_REMINDERS,
+      subject: `Morouna Loans - Guarantee ${guarantee.referenceNumber} Expiring`,
+      html: emailHtml,
+    });
+
+    console.log('Guarantee expiry reminder sent successfully to:', userEmail);
+    return true;
+  } catch (error) {
+    console.error('SendGrid guarantee expiry email error:', error);
+    return false;
+  }
+}
+
+export async function sendMarginCallReminder(
+  userEmail: string,
+  call: { scopeName: string; currentLtv: string; targetLtv: string; currentShortfall: string; cureDeadline: string },
+  title: string,
+  daysToDeadline: number
+): Promise<boolean> {
+  if (!config.has('SENDGRID_API_KEY')) {
+    console.log(`${title} would be sent to:`, userEmail);
+    console.log('Margin call:', call.scopeName, 'cure by', call.cureDeadline);
+    return true;
+  }
+
+  try {
+    const deadline = daysToDeadline < 0
+      ? `The cure deadline of ${call.cureDeadline} passed ${-daysToDeadline} day(s) ago.`
+      : daysToDeadline === 0
+        ? `The call must be cured today (${call.cureDeadline}).`
+        : `The call must be cured by ${call.cureDeadline}, in ${daysToDeadline} day(s).`;
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #cc0000;">Morouna Loans - ${title}</h2>
+        
+        <p>The loan-to-value of <strong>${call.scopeName}</strong> is above the bank's target. ${deadline}</p>
+        
+        <div style="background-color: #f8f9fa; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <p style="margin: 0;"><strong>Current LTV:</strong> ${parseFloat(call.currentLtv).toFixed(2)}%</p>
+          <p style="margin: 0;"><strong>Target LTV:</strong> ${parseFloat(call.targetLtv).toFixed(2)}%</p>
+          <p style="margin: 0;"><strong>Collateral Shortfall:</strong> SAR ${parseFloat(call.currentShortfall).toLocaleString()}</p>
+        </div>
+        
+        <p>Pledge additional collateral, repay part of the outstanding or assign unencumbered collateral to the bank, then record the cure on the bank page.</p>
+        
+        <p>Best regards,<br>
+        Morouna Loans Team</p>
+        
+        <hr>
+        <p style="font-size: 12px; color: #666;">This is an automated notification from your Morouna Loans Platform.</p>
+      </div>
+    `;
+
+    await mailService.send({
+      to: userEmail,
+      from: FROM_EMAIL_REMINDERS,
+      subject: `Morouna Loans - ${title}: ${call.scopeName}`,
+      html: emailHtml,
+    });
+
+    console.log('Margin call reminder sent successfully to:', userEmail);
+    return true;
+  } catch (error) {
+    console.error('SendGrid margin call email error:', error);
+    return false;
+  }
+}
+
 /**
  * Send template-based reminder email using the template rendering system
  */
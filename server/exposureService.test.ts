@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CreditConversionFactor, Guarantee } from '@shared/schema';
+import { DEFAULT_CREDIT_CONVERSION_FACTORS, ExposureService } from './exposureService';
+
+const guarantee = (guaranteeType: Guarantee['guaranteeType'], guaranteeAmount: string, extra: Partial<Guarantee> = {}) => ({
+  status: 'active',
+  guaranteeType,
+  guaranteeAmount,
+  calledAmount: '0.00',
+  securityAmount: null,
+  ...extra,
+}) as Guarantee;
+
+test('organizations override the default conversion factor of the types they configure', () => {
+  const factors = ExposureService.conversionFactors([
+    { guaranteeType: 'performance_bond', factor: '75.00' } as CreditConversionFactor,
+  ]);
+
+  assert.equal(factors.performance_bond, 75);
+  assert.equal(factors.bid_bond, 50);
+  assert.equal(factors.general_bank_guarantee, 100);
+  assert.equal(DEFAULT_CREDIT_CONVERSION_FACTORS.performance_bond, 50);
+});
+
+test('exposure weights what is still in force by the conversion factors of live guarantees', () => {
+  const guarantees = [
+    guarantee('performance_bond', '2000000.00', { calledAmount: '500000.00' }),
+    guarantee('general_bank_guarantee', '1000000.00', { status: 'renewed' }),
+    guarantee('bid_bond', '800000.00', { status: 'expired' }),
+    guarantee('advance_payment_guarantee', '400000.00', { status: 'called', calledAmount: '400000.00' }),
+  ];
+
+  assert.deepEqual(ExposureService.unfundedExposure(guarantees, DEFAULT_CREDIT_CONVERSION_FACTORS), {
+    outstanding: 2500000, exposure: 1750000, cashMargin: 0, netExposure: 1750000,
+  });
+});
+
+test('cash margin only offsets the exposure of its own guarantee', () => {
+  const guarantees = [
+    // Over-secured: 600k margin against 500k converted exposure
+    guarantee('bid_bond', '1000000.00', { securityAmount: '600000.00' }),
+    guarantee('general_bank_guarantee', '1000000.00', { securityAmount: '250000.00' }),
+  ];
+
+  assert.deepEqual(ExposureService.unfundedExposure(guarantees, DEFAULT_CREDIT_CONVERSION_FACTORS), {
+    outstanding: 2000000, exposure: 1500000, cashMargin: 750000, netExposure: 750000,
+  });
+});
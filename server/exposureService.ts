@@ -0,0 +1,61 @@
+import type { CreditConversionFactor, Guarantee, GuaranteeType } from '@shared/schema';
+import { GuaranteeService } from './guaranteeService';
+
+/**
+ * Default credit conversion factors in percent. Bonds tied to a contract (bid, performance,
+ * advance payment, retention) are transaction-related contingencies at 50%; general guarantees
+ * substitute for credit and count in full.
+ */
+export const DEFAULT_CREDIT_CONVERSION_FACTORS: Record<GuaranteeType, number> = {
+  bid_bond: 50,
+  performance_bond: 50,
+  advance_payment_guarantee: 50,
+  retention_money_guarantee: 50,
+  general_bank_guarantee: 100,
+  other: 100,
+};
+
+export interface UnfundedExposure {
+  outstanding: number; // Guarantee amounts still in force - what the guarantees use of their facility limits
+  exposure: number; // Outstanding weighted by the credit conversion factors
+  cashMargin: number; // Cash security held against the guarantees
+  netExposure: number; // Exposure less cash margin
+}
+
+type GuaranteeFields = Pick<Guarantee, 'status' | 'guaranteeType' | 'guaranteeAmount' | 'calledAmount' | 'securityAmount'>;
+
+export class ExposureService {
+  /**
+   * The organization's factors, falling back to the defaults for types it has not configured
+   */
+  static conversionFactors(saved: CreditConversionFactor[]): Record<GuaranteeType, number> {
+    const factors = { ...DEFAULT_CREDIT_CONVERSION_FACTORS };
+    for (const factor of saved) {
+      factors[factor.guaranteeType] = parseFloat(factor.factor);
+    }
+    return factors;
+  }
+
+  /**
+   * Unfunded exposure of live guarantees. The cash margin of a guarantee is deducted up to its own
+   * converted exposure, so an over-secured guarantee cannot offset others.
+   */
+  static unfundedExposure(guarantees: GuaranteeFields[], factors: Record<GuaranteeType, number>): UnfundedExposure {
+    const total: UnfundedExposure = { outstanding: 0, exposure: 0, cashMargin: 0, netExposure: 0 };
+
+    for (const guarantee of guarantees) {
+      const outstanding = GuaranteeService.remainingAmount(guarantee);
+      if (outstanding <= 0) continue;
+
+      const exposure = outstanding * (factors[guarantee.guaranteeType] ?? 100) / 100;
+      const cashMargin = Math.min(parseFloat(guarantee.securityAmount || '0'), exposure);
+
+      total.outstanding += outstanding;
+      total.exposure += exposure;
+      total.cashMargin += cashMargin;
+      total.netExposure += exposure - cashMargin;
+    }
+
+    return total;
+  }
+}
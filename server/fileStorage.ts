@@ -0,0 +1,358 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from './config';
+import {
+  ObjectNotFoundError,
+  ObjectStorageService,
+  objectStorageClient,
+  parseObjectPath,
+  signObjectURL,
+} from './objectStorage';
+
+export type FileStorageDriverName = 'local' | 's3' | 'replit';
+
+export interface DownloadUrlOptions {
+  fileName: string;
+  contentType?: string;
+}
+
+/**
+ * Where uploaded bytes live. Keys are relative paths such as
+ * attachments/loan/<loanId>/2025-01/<uuid>_agreement.pdf. Signed URLs let the browser upload and
+ * download directly without the bytes passing through an authenticated API route.
+ */
+export interface FileStorageDriver {
+  readonly name: FileStorageDriverName;
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Throws ObjectNotFoundError when the key does not exist
+  getObject(key: string): Promise<Buffer>;
+  deleteObject(key: string): Promise<void>;
+  createUploadUrl(key: string, contentType: string, expiresInSec: number): Promise<string>;
+  createDownloadUrl(key: string, options: DownloadUrlOptions, expiresInSec: number): Promise<string>;
+}
+
+export class FileIntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileIntegrityError';
+    Object.setPrototypeOf(this, FileIntegrityError.prototype);
+  }
+}
+
+// How long signed upload and download URLs stay valid
+export const SIGNED_URL_TTL_SEC = 5 * 60;
+
+// Route that serves the local driver's signed URLs
+export const LOCAL_FILE_ROUTE = '/api/files';
+
+/**
+ * Files on local disk, for self-hosting and development. Upload and download URLs point at
+ * LOCAL_FILE_ROUTE and carry an HMAC-SHA256 signature over the method, key and expiry.
+ */
+export class LocalDiskStorageDriver implements FileStorageDriver {
+  readonly name = 'local' as const;
+
+  constructor(private rootDir: string, private signingSecret: string) {}
+
+  async putObject(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temporary file first so a failed upload never leaves a partial object behind
+    const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, body);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') throw new ObjectNotFoundError();
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async createUploadUrl(key: string, contentType: string, expiresInSec: number): Promise<string> {
+    return this.signedUrl('PUT', key, { contentType }, expiresInSec);
+  }
+
+  async createDownloadUrl(key: string, options: DownloadUrlOptions, expiresInSec: number): Promise<string> {
+    return this.signedUrl('GET', key, { fileName: options.fileName, contentType: options.contentType ?? '' }, expiresInSec);
+  }
+
+  /**
+   * Check a signed URL's parameters; returns false when the signature does not match or has expired
+   */
+  verify(method: 'GET' | 'PUT', key: string, params: Record<string, string | undefined>, now: number = Date.now()): boolean {
+    const expires = Number(params.expires);
+    if (!params.signature || !Number.isFinite(expires) || expires * 1000 < now) {
+      return false;
+    }
+
+    const { signature, ...signed } = params;
+    const expected = Buffer.from(this.sign(method, key, signed as Record<string, string>), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private signedUrl(method: 'GET' | 'PUT', key: string, params: Record<string, string>, expiresInSec: number): string {
+    const query: Record<string, string> = {
+      ...params,
+      expires: String(Math.floor(Date.now() / 1000) + expiresInSec),
+    };
+    const search = new URLSearchParams({ ...query, signature: this.sign(method, key, query) });
+    return `${LOCAL_FILE_ROUTE}/${key.split('/').map(encodeURIComponent).join('/')}?${search.toString()}`;
+  }
+
+  private sign(method: string, key: string, params: Record<string, string>): string {
+    const canonical = [method, key, ...Object.keys(params).sort().map(name => `${name}=${params[name] ?? ''}`)].join('\n');
+    return crypto.createHmac('sha256', this.signingSecret).update(canonical).digest('hex');
+  }
+
+  // Keys are always relative to the root directory; anything that escapes it is rejected
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new ObjectNotFoundError();
+    }
+    return filePath;
+  }
+}
+
+export interface S3StorageOptions {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * Any S3-compatible store (AWS S3, MinIO, Cloudflare R2, ...), addressed path-style. Requests are
+ * made with SigV4 pre-signed URLs, so the same signing serves the server and the browser.
+ */
+export class S3StorageDriver implements FileStorageDriver {
+  readonly name = 's3' as const;
+
+  constructor(private options: S3StorageOptions) {}
+
+  async putObject(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await fetch(this.presign('PUT', key, {}, SIGNED_URL_TTL_SEC), {
+      method: 'PUT',
+      body,
+      headers: { 'Content-Type': contentType },
+    });
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with status ${response.status}`);
+    }
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    const response = await fetch(this.presign('GET', key, {}, SIGNED_URL_TTL_SEC));
+    if (response.status === 404) {
+      throw new ObjectNotFoundError();
+    }
+    if (!response.ok) {
+      throw new Error(`S3 download failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const response = await fetch(this.presign('DELETE', key, {}, SIGNED_URL_TTL_SEC), { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with status ${response.status}`);
+    }
+  }
+
+  async createUploadUrl(key: string, _contentType: string, expiresInSec: number): Promise<string> {
+    return this.presign('PUT', key, {}, expiresInSec);
+  }
+
+  async createDownloadUrl(key: string, options: DownloadUrlOptions, expiresInSec: number): Promise<string> {
+    const params: Record<string, string> = {
+      'response-content-disposition': `attachment; filename="${options.fileName.replace(/"/g, '')}"`,
+    };
+    if (options.contentType) params['response-content-type'] = options.contentType;
+    return this.presign('GET', key, params, expiresInSec);
+  }
+
+  /**
+   * AWS Signature Version 4 query-string signing with an unsigned payload
+   */
+  presign(method: 'GET' | 'PUT' | 'DELETE', key: string, extraParams: Record<string, string>, expiresInSec: number, now: Date = new Date()): string {
+    const endpoint = new URL(this.options.endpoint);
+    const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+
+    const basePath = endpoint.pathname.replace(/\/$/, '');
+    const canonicalUri = `${basePath}/${[this.options.bucket, ...key.split('/')].map(S3StorageDriver.encode).join('/')}`;
+    const params: Record<string, string> = {
+      ...extraParams,
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.options.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expiresInSec),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = Object.keys(params)
+      .sort()
+      .map(name => `${S3StorageDriver.encode(name)}=${S3StorageDriver.encode(params[name])}`)
+      .join('&');
+
+    const canonicalRequest = [method, canonicalUri, canonicalQuery, `host:${endpoint.host}`, '', 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const hmac = (keyBytes: crypto.BinaryLike, data: string) => crypto.createHmac('sha256', keyBytes).update(data).digest();
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.options.secretAccessKey}`, dateStamp), this.options.region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return `${endpoint.protocol}//${endpoint.host}${canonicalUri}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  // RFC 3986 encoding as required by SigV4
+  private static encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+}
+
+/**
+ * Replit object storage (GCS through the Replit sidecar), under PRIVATE_OBJECT_DIR
+ */
+export class ReplitObjectStorageDriver implements FileStorageDriver {
+  readonly name = 'replit' as const;
+
+  async putObject(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.file(key).save(body, { contentType, resumable: false });
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    const file = this.file(key);
+    const [exists] = await file.exists();
+    if (!exists) throw new ObjectNotFoundError();
+    const [contents] = await file.download();
+    return contents;
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.file(key).delete({ ignoreNotFound: true });
+  }
+
+  async createUploadUrl(key: string, _contentType: string, expiresInSec: number): Promise<string> {
+    return signObjectURL({ ...this.location(key), method: 'PUT', ttlSec: expiresInSec });
+  }
+
+  async createDownloadUrl(key: string, _options: DownloadUrlOptions, expiresInSec: number): Promise<string> {
+    return signObjectURL({ ...this.location(key), method: 'GET', ttlSec: expiresInSec });
+  }
+
+  private location(key: string) {
+    const dir = new ObjectStorageService().getPrivateObjectDir().replace(/\/$/, '');
+    return parseObjectPath(`${dir}/${key}`);
+  }
+
+  private file(key: string) {
+    const { bucketName, objectName } = this.location(key);
+    return objectStorageClient.bucket(bucketName).file(objectName);
+  }
+}
+
+let activeDriver: FileStorageDriver | null = null;
+
+export class FileStorageService {
+  /**
+   * The driver selected by FILE_STORAGE_DRIVER (local disk by default)
+   */
+  static driver(): FileStorageDriver {
+    if (!activeDriver) {
+      activeDriver = this.createDriver(config.get('FILE_STORAGE_DRIVER'));
+    }
+    return activeDriver;
+  }
+
+  static createDriver(name: FileStorageDriverName): FileStorageDriver {
+    switch (name) {
+      case 's3':
+        return new S3StorageDriver({
+          endpoint: config.get('S3_ENDPOINT')!,
+          region: config.get('S3_REGION'),
+          bucket: config.get('S3_BUCKET')!,
+          accessKeyId: config.get('S3_ACCESS_KEY_ID')!,
+          secretAccessKey: config.get('S3_SECRET_ACCESS_KEY')!,
+        });
+      case 'replit':
+        return new ReplitObjectStorageDriver();
+      default: {
+        let secret = config.get('FILE_STORAGE_SIGNING_SECRET') || config.get('SESSION_SECRET');
+        if (!secret) {
+          console.warn('⚠️  FILE_STORAGE_SIGNING_SECRET not set - signed file URLs will not survive a restart');
+          secret = crypto.randomBytes(32).toString('hex');
+        }
+        return new LocalDiskStorageDriver(config.get('FILE_STORAGE_DIR'), secret);
+      }
+    }
+  }
+
+  /**
+   * Storage key of an attachment, grouped by owner and upload month
+   */
+  static attachmentKey(ownerType: string, ownerId: string, fileName: string): string {
+    const month = new Date().toISOString().slice(0, 7); // YYYY-MM format
+    const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
+    return `${this.ownerPrefix(ownerType, ownerId)}${month}/${crypto.randomUUID()}_${sanitizedFileName}`;
+  }
+
+  static ownerPrefix(ownerType: string, ownerId: string): string {
+    return `attachments/${ownerType}/${ownerId.replace(/[^a-zA-Z0-9-]/g, '_')}/`;
+  }
+
+  // SHA-256 of the bytes, as stored in attachments.checksum
+  static checksum(body: Buffer): string {
+    return crypto.createHash('sha256').update(body).digest('hex');
+  }
+
+  /**
+   * Check an upload made through a signed URL against what the client declares: the key must
+   * belong to the owner and the stored bytes must match the declared size and checksum.
+   * Returns the checksum of the stored bytes.
+   */
+  static async verifyUpload(
+    driver: FileStorageDriver,
+    upload: { ownerType: string; ownerId: string; storageKey: string; fileSize: number; checksum?: string | null }
+  ): Promise<string> {
+    if (!upload.storageKey.startsWith(this.ownerPrefix(upload.ownerType, upload.ownerId))) {
+      throw new FileIntegrityError('Storage key does not belong to this owner');
+    }
+
+    let body: Buffer;
+    try {
+      body = await driver.getObject(upload.storageKey);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        throw new FileIntegrityError('No file was uploaded for this storage key');
+      }
+      throw error;
+    }
+
+    if (body.length !== upload.fileSize) {
+      throw new FileIntegrityError(`Uploaded file is ${body.length} bytes, expected ${upload.fileSize}`);
+    }
+    const checksum = this.checksum(body);
+    if (upload.checksum && upload.checksum.toLowerCase() !== checksum) {
+      throw new FileIntegrityError('Uploaded file does not match its checksum');
+    }
+    return checksum;
+  }
+}
@@ -0,0 +1,153 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Bank, Facility, GlAccountMapping, GlEntryType, Loan, LoanPayment, Transaction } from '@shared/schema';
+import { GeneralLedgerService, type JournalSource } from './generalLedgerService';
+
+const bank = { id: 'bank-1', name: 'Riyad Bank' } as Bank;
+const facility = { id: 'facility-1', facilityType: 'term' } as Facility;
+const loan = { id: 'loan-1', referenceNumber: 'LN-1' } as Loan;
+
+let sequence = 0;
+const source = (type: Transaction['type'], amount: string, date: string, extra: Partial<JournalSource> = {}) => ({
+  id: `tx${String(++sequence).padStart(6, '0')}`,
+  type,
+  amount,
+  date,
+  bankId: bank.id,
+  facilityId: facility.id,
+  loanId: loan.id,
+  reference: null,
+  memo: null,
+  notes: null,
+  allocation: null,
+  createdAt: new Date(`${date}T12:00:00Z`),
+  bank,
+  facility,
+  loan,
+  ...extra,
+}) as JournalSource;
+
+const mapping = (entryType: GlEntryType, debitAccount: string, creditAccount: string, extra: Partial<GlAccountMapping> = {}) => ({
+  id: `map-${entryType}-${debitAccount}`,
+  entryType,
+  debitAccount,
+  creditAccount,
+  bankId: null,
+  facilityType: null,
+  description: null,
+  ...extra,
+}) as GlAccountMapping;
+
+const MAPPINGS = [
+  mapping('draw', '1000', '2100'),
+  mapping('interest_accrual', '6100', '2200'),
+  mapping('repayment_principal', '2100', '1000'),
+  mapping('repayment_interest', '2200', '1000'),
+  mapping('repayment_fees', '2300', '1000'),
+  mapping('write_off', '2100', '7900'),
+];
+
+const postings = (tx: Transaction, payments: LoanPayment[] = []) =>
+  GeneralLedgerService.postings(tx, new Map(payments.map(p => [p.transactionId as string, p])));
+
+test('repayments are split by their allocation, then by the payment row, and are otherwise all principal', () => {
+  const allocated = source('repayment', '10000.00', '2026-03-01', { allocation: { principal: 7000, interest: 2500, fees: 500 } });
+  assert.deepEqual(postings(allocated), [
+    { entryType: 'repayment_fees', amount: 500 },
+    { entryType: 'repayment_interest', amount: 2500 },
+    { entryType: 'repayment_principal', amount: 7000 },
+  ]);
+
+  const recorded = source('repayment', '10000.00', '2026-03-01');
+  const payment = { transactionId: recorded.id, interestAmount: '4000.00', feesAmount: '0.00' } as LoanPayment;
+  assert.deepEqual(postings(recorded, [payment]), [
+    { entryType: 'repayment_interest', amount: 4000 },
+    { entryType: 'repayment_principal', amount: 6000 },
+  ]);
+
+  assert.deepEqual(postings(source('repayment', '10000.00', '2026-03-01')), [{ entryType: 'repayment_principal', amount: 10000 }]);
+});
+
+test('other entries post their whole amount and entries that move no money post nothing', () => {
+  assert.deepEqual(postings(source('draw', '1000000.00', '2026-01-15')), [{ entryType: 'draw', amount: 1000000 }]);
+  assert.deepEqual(postings(source('interest', '2833.33', '2026-02-01')), [{ entryType: 'interest_accrual', amount: 2833.33 }]);
+  assert.deepEqual(postings(source('write_off', '56000.00', '2026-03-01')), [{ entryType: 'write_off', amount: 56000 }]);
+  assert.deepEqual(postings(source('limit_change', '500000.00', '2026-03-01')), []);
+});
+
+test('the most specific account mapping wins', () => {
+  const mappings = [
+    mapping('draw', '1000', '2100'),
+    mapping('draw', '1010', '2110', { facilityType: 'term' }),
+    mapping('draw', '1020', '2120', { bankId: 'bank-1' }),
+    mapping('draw', '1030', '2130', { bankId: 'bank-2', facilityType: 'term' }),
+  ];
+
+  assert.equal(GeneralLedgerService.resolveMapping(mappings, 'draw', 'bank-1', 'term')?.debitAccount, '1020');
+  assert.equal(GeneralLedgerService.resolveMapping(mappings, 'draw', 'bank-2', 'term')?.debitAccount, '1030');
+  assert.equal(GeneralLedgerService.resolveMapping(mappings, 'draw', 'bank-3', 'revolving')?.debitAccount, '1000');
+  assert.equal(GeneralLedgerService.resolveMapping(mappings, 'fee', 'bank-1', 'term'), undefined);
+});
+
+test('every journal balances and the batch totals add up', () => {
+  const sources = [
+    source('repayment', '950000.00', '2026-03-01', { allocation: { principal: 944000, interest: 6000, fees: 0 } }),
+    source('write_off', '56000.00', '2026-03-01'),
+    source('draw', '1000000.00', '2026-01-15'),
+    source('interest', '6000.00', '2026-02-28'),
+  ];
+
+  const batch = GeneralLedgerService.buildBatch(sources, [], [], MAPPINGS, '2026-01-01', '2026-03-31');
+
+  assert.deepEqual(batch.journals.map(j => [j.date, j.transactionType, j.totalDebit]), [
+    ['2026-01-15', 'draw', 1000000],
+    ['2026-02-28', 'interest', 6000],
+    ['2026-03-01', 'repayment', 950000],
+    ['2026-03-01', 'write_off', 56000],
+  ]);
+  for (const journal of batch.journals) {
+    const debit = journal.lines.reduce((sum, line) => sum + line.debit, 0);
+    const credit = journal.lines.reduce((sum, line) => sum + line.credit, 0);
+    assert.equal(debit.toFixed(2), credit.toFixed(2));
+  }
+  assert.equal(batch.totalDebit, 2012000);
+  assert.equal(batch.totalCredit, 2012000);
+  assert.deepEqual(batch.unmapped, []);
+});
+
+test('a void reverses the journal of an entry exported in an earlier period', () => {
+  const original = source('repayment', '10000.00', '2026-02-20', { allocation: { principal: 8000, interest: 2000, fees: 0 } });
+  const voids = source('void', '10000.00', '2026-03-02', { reference: original.id, memo: 'Settlement reversed' });
+
+  const [journal] = GeneralLedgerService.buildBatch([voids], [original], [], MAPPINGS, '2026-03-01', '2026-03-31').journals;
+
+  assert.equal(journal.transactionId, voids.id);
+  assert.equal(journal.reference, original.id);
+  assert.equal(journal.description, 'Settlement reversed');
+  assert.deepEqual(journal.lines.map(line => [line.account, line.debit, line.credit]), [
+    ['2200', 0, 2000],
+    ['1000', 2000, 0],
+    ['2100', 0, 8000],
+    ['1000', 8000, 0],
+  ]);
+});
+
+test('transactions missing a mapping for any of their postings are reported instead of exported', () => {
+  const repayment = source('repayment', '10000.00', '2026-03-01', { allocation: { principal: 9500, interest: 0, fees: 500 } });
+  const batch = GeneralLedgerService.buildBatch([repayment], [], [], MAPPINGS.filter(m => m.entryType !== 'repayment_fees'), '2026-03-01', '2026-03-31');
+
+  assert.deepEqual(batch.journals, []);
+  assert.deepEqual(batch.unmapped, [
+    { transactionId: repayment.id, entryType: 'repayment_fees', bankId: 'bank-1', bankName: 'Riyad Bank', facilityType: 'term' },
+  ]);
+});
+
+test('the CSV export has one row per journal line and quotes values with commas', () => {
+  const draw = source('draw', '1000000.00', '2026-01-15', { reference: 'FT-1, tranche 1' });
+  const csv = GeneralLedgerService.toCsv(GeneralLedgerService.buildBatch([draw], [], [], MAPPINGS, '2026-01-01', '2026-01-31'));
+  const rows = csv.trimEnd().split('\r\n');
+
+  assert.equal(rows.length, 3);
+  assert.ok(rows[0].startsWith('journal_id,date,line,account,debit,credit'));
+  assert.equal(rows[1], `JE-20260115-${draw.id.toUpperCase()},2026-01-15,1,1000,1000000.00,,SAR,draw,"FT-1, tranche 1",Riyad Bank,term,LN-1,draw,${draw.id}`);
+});
@@ -0,0 +1,349 @@
+import type {
+  Bank,
+  Facility,
+  GlAccountMapping,
+  GlEntryType,
+  GlExport,
+  GlExportRequest,
+  Loan,
+  LoanPayment,
+  Transaction,
+} from '@shared/schema';
+import type { GlJournal, GlJournalBatch, GlJournalLine, GlUnmappedEntry } from '@shared/types';
+import { InterestService } from './interestService';
+import type { IStorage } from './storage';
+
+export type JournalSource = Transaction & { bank: Bank; facility?: Facility; loan?: Loan };
+
+interface Posting {
+  entryType: GlEntryType;
+  amount: number;
+}
+
+export interface GlExportFile {
+  fileName: string;
+  contentType: string;
+  body: string;
+  batch: GlJournalBatch;
+  export: GlExport | null;
+}
+
+const CSV_COLUMNS = [
+  'journal_id', 'date', 'line', 'account', 'debit', 'credit', 'currency', 'description', 'reference',
+  'bank', 'facility_type', 'loan_reference', 'entry_type', 'transaction_id',
+];
+
+export class GeneralLedgerService {
+  /**
+   * Journals for the organization's ledger transactions dated within the period.
+   * Transactions already marked as exported are left out unless includeExported is set.
+   */
+  static async generate(
+    storage: IStorage,
+    organizationId: string,
+    from: string,
+    to: string,
+    includeExported = false
+  ): Promise<GlJournalBatch> {
+    const sources = await storage.getJournalTransactions(organizationId, { from, to, includeExported });
+
+    // Voids reverse the journal of the transaction named in their reference, which may sit in an earlier period
+    const inPeriod = new Set(sources.map(source => source.id));
+    const voidedIds = sources
+      .filter(source => source.type === 'void' && source.reference && !inPeriod.has(source.reference))
+      .map(source => source.reference as string);
+    const voided = voidedIds.length > 0
+      ? await storage.getJournalTransactions(organizationId, { transactionIds: voidedIds, includeExported: true })
+      : [];
+
+    const repaymentIds = [...sources, ...voided].filter(source => source.type === 'repayment').map(source => source.id);
+    const payments = repaymentIds.length > 0 ? await storage.getPaymentsByTransactionIds(repaymentIds) : [];
+    const mappings = await storage.getGlAccountMappings(organizationId);
+
+    return this.buildBatch(sources, voided, payments, mappings, from, to);
+  }
+
+  static buildBatch(
+    sources: JournalSource[],
+    voided: JournalSource[],
+    payments: LoanPayment[],
+    mappings: GlAccountMapping[],
+    from: string,
+    to: string
+  ): GlJournalBatch {
+    const paymentsByTransaction = new Map(
+      payments.filter(p => p.transactionId).map(p => [p.transactionId as string, p])
+    );
+    const byId = new Map([...voided, ...sources].map(source => [source.id, source]));
+    const journals: GlJournal[] = [];
+    const unmapped: GlUnmappedEntry[] = [];
+
+    const sorted = [...sources].sort((a, b) =>
+      a.date.localeCompare(b.date) || (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+    );
+
+    for (const source of sorted) {
+      let journal: GlJournal | null;
+
+      if (source.type === 'void') {
+        const original = source.reference ? byId.get(source.reference) : undefined;
+        if (!original || original.type === 'void') continue;
+        const reversed = this.buildJournal(original, this.postings(original, paymentsByTransaction), mappings, unmapped, source);
+        journal = reversed && this.reverse(reversed, source);
+      } else {
+        journal = this.buildJournal(source, this.postings(source, paymentsByTransaction), mappings, unmapped);
+      }
+
+      if (journal) journals.push(journal);
+    }
+
+    return {
+      from,
+      to,
+      generatedAt: new Date().toISOString(),
+      journals,
+      unmapped,
+      totalDebit: InterestService.roundAmount(journals.reduce((sum, j) => sum + j.totalDebit, 0)),
+      totalCredit: InterestService.roundAmount(journals.reduce((sum, j) => sum + j.totalCredit, 0)),
+    };
+  }
+
+  /**
+   * Split a transaction into the posting types accounts are mapped for.
+   *
+   * Repayments use their ledger allocation, falling back to the principal / interest / fees split
+   * recorded on the loan_payments row, and are taken as all principal when neither exists. Any
+   * difference between the allocation and the amount paid (settlements posted before write-offs
+   * had entries of their own) is posted to principal so the cash side always equals the amount paid.
+   * Write-offs post their whole amount as one write_off entry.
+   */
+  static postings(source: Transaction, paymentsByTransaction: Map<string, LoanPayment>): Posting[] {
+    const amount = parseFloat(source.amount);
+
+    switch (source.type) {
+      case 'draw':
+        return [{ entryType: 'draw', amount }];
+      case 'interest':
+        return [{ entryType: 'interest_accrual', amount }];
+      case 'fee':
+        return [{ entryType: 'fee', amount }];
+      case 'write_off':
+        return [{ entryType: 'write_off', amount }];
+      case 'repayment': {
+        const split = this.repaymentSplit(source, paymentsByTransaction.get(source.id));
+        const fees = InterestService.roundAmount(split.fees);
+        const interest = InterestService.roundAmount(split.interest);
+        const principal = InterestService.roundAmount(amount - fees - interest);
+        return [
+          { entryType: 'repayment_fees' as const, amount: fees },
+          { entryType: 'repayment_interest' as const, amount: interest },
+          { entryType: 'repayment_principal' as const, amount: principal },
+        ].filter(posting => posting.amount !== 0);
+      }
+      default:
+        // limit_change and other entries move no money
+        return [];
+    }
+  }
+
+  /**
+   * Most specific mapping for the entry type: bank + facility type, then bank, then facility type,
+   * then the organization default
+   */
+  static resolveMapping(
+    mappings: GlAccountMapping[],
+    entryType: GlEntryType,
+    bankId: string,
+    facilityType: string | null
+  ): GlAccountMapping | undefined {
+    const rank = (mapping: GlAccountMapping) => (mapping.bankId ? 2 : 0) + (mapping.facilityType ? 1 : 0);
+
+    return mappings
+      .filter(mapping =>
+        mapping.entryType === entryType &&
+        (!mapping.bankId || mapping.bankId === bankId) &&
+        (!mapping.facilityType || mapping.facilityType === facilityType)
+      )
+      .sort((a, b) => rank(b) - rank(a))[0];
+  }
+
+  static toCsv(batch: GlJournalBatch): string {
+    const rows = [CSV_COLUMNS.join(',')];
+    for (const journal of batch.journals) {
+      for (const line of journal.lines) {
+        rows.push([
+          journal.journalId,
+          journal.date,
+          line.lineNumber,
+          line.account,
+          line.debit ? line.debit.toFixed(2) : '',
+          line.credit ? line.credit.toFixed(2) : '',
+          journal.currency,
+          line.description,
+          journal.reference ?? '',
+          journal.bankName,
+          journal.facilityType ?? '',
+          journal.loanReference ?? '',
+          line.entryType,
+          journal.transactionId,
+        ].map(value => this.csvValue(String(value))).join(','));
+      }
+    }
+    return rows.join('\r\n') + '\r\n';
+  }
+
+  static toJournalJson(batch: GlJournalBatch, exportId: string | null): string {
+    return JSON.stringify({
+      exportId,
+      periodStart: batch.from,
+      periodEnd: batch.to,
+      generatedAt: batch.generatedAt,
+      journalCount: batch.journals.length,
+      totalDebit: batch.totalDebit,
+      totalCredit: batch.totalCredit,
+      journals: batch.journals,
+    }, null, 2);
+  }
+
+  /**
+   * Build the export file for a period. With markExported the export is recorded and its transactions
+   * are left out of later exports; every posting must then have an account mapping.
+   */
+  static async exportPeriod(
+    storage: IStorage,
+    organizationId: string,
+    request: GlExportRequest,
+    userId: string
+  ): Promise<GlExportFile> {
+    const batch = await this.generate(storage, organizationId, request.from, request.to, request.includeExported);
+
+    let exportRecord: GlExport | null = null;
+    if (request.markExported) {
+      if (batch.unmapped.length > 0) {
+        const missing = Array.from(new Set(batch.unmapped.map(entry =>
+          `${entry.entryType} (${entry.bankName}${entry.facilityType ? `, ${entry.facilityType}` : ''})`
+        )));
+        throw new Error(`Missing GL account mapping for: ${missing.join('; ')}`);
+      }
+
+      exportRecord = await storage.createGlExport({
+        organizationId,
+        periodStart: request.from,
+        periodEnd: request.to,
+        format: request.format,
+        journalCount: batch.journals.length,
+        totalDebit: batch.totalDebit.toFixed(2),
+        exportedBy: userId,
+      }, batch.journals.map(journal => journal.transactionId));
+    }
+
+    const baseName = `journals-${request.from}-to-${request.to}`;
+    if (request.format === 'csv') {
+      return { fileName: `${baseName}.csv`, contentType: 'text/csv', body: this.toCsv(batch), batch, export: exportRecord };
+    }
+    return {
+      fileName: `${baseName}.json`,
+      contentType: 'application/json',
+      body: this.toJournalJson(batch, exportRecord?.id ?? null),
+      batch,
+      export: exportRecord,
+    };
+  }
+
+  private static repaymentSplit(source: Transaction, payment: LoanPayment | undefined): { fees: number; interest: number } {
+    const allocation = source.allocation as Record<string, unknown> | null;
+    if (allocation && typeof allocation === 'object' && ('principal' in allocation || 'interest' in allocation || 'fees' in allocation)) {
+      return { fees: Number(allocation.fees ?? 0), interest: Number(allocation.interest ?? 0) };
+    }
+    if (payment) {
+      return { fees: parseFloat(payment.feesAmount ?? '0'), interest: parseFloat(payment.interestAmount ?? '0') };
+    }
+    return { fees: 0, interest: 0 };
+  }
+
+  private static buildJournal(
+    source: JournalSource,
+    postings: Posting[],
+    mappings: GlAccountMapping[],
+    unmapped: GlUnmappedEntry[],
+    reversal?: JournalSource
+  ): GlJournal | null {
+    if (postings.length === 0) return null;
+
+    const facilityType = source.facility?.facilityType ?? null;
+    const lines: GlJournalLine[] = [];
+    let complete = true;
+
+    for (const posting of postings) {
+      const mapping = this.resolveMapping(mappings, posting.entryType, source.bankId, facilityType);
+      if (!mapping) {
+        complete = false;
+        unmapped.push({
+          transactionId: (reversal ?? source).id,
+          entryType: posting.entryType,
+          bankId: source.bankId,
+          bankName: source.bank.name,
+          facilityType,
+        });
+        continue;
+      }
+
+      // A negative posting (settled below the allocated balance) swaps the sides
+      const amount = Math.abs(posting.amount);
+      const description = mapping.description || posting.entryType.replace(/_/g, ' ');
+      const [debitAccount, creditAccount] = posting.amount >= 0
+        ? [mapping.debitAccount, mapping.creditAccount]
+        : [mapping.creditAccount, mapping.debitAccount];
+      lines.push(
+        { lineNumber: 0, account: debitAccount, debit: amount, credit: 0, entryType: posting.entryType, description },
+        { lineNumber: 0, account: creditAccount, debit: 0, credit: amount, entryType: posting.entryType, description },
+      );
+    }
+
+    // Partially mapped transactions are reported as unmapped rather than exported unbalanced or incomplete
+    if (!complete) return null;
+
+    lines.forEach((line, index) => { line.lineNumber = index + 1; });
+    const total = InterestService.roundAmount(lines.reduce((sum, line) => sum + line.debit, 0));
+
+    return {
+      journalId: this.journalId(source),
+      date: source.date,
+      transactionId: source.id,
+      transactionType: source.type,
+      reference: source.reference,
+      description: source.memo || source.notes || `${source.type}${source.loan ? ` ${source.loan.referenceNumber}` : ''}`,
+      bankId: source.bankId,
+      bankName: source.bank.name,
+      facilityId: source.facility?.id ?? null,
+      facilityType,
+      loanId: source.loanId,
+      loanReference: source.loan?.referenceNumber ?? null,
+      currency: 'SAR',
+      lines,
+      totalDebit: total,
+      totalCredit: total,
+    };
+  }
+
+  private static reverse(journal: GlJournal, voidEntry: JournalSource): GlJournal {
+    return {
+      ...journal,
+      journalId: this.journalId(voidEntry),
+      date: voidEntry.date,
+      transactionId: voidEntry.id,
+      transactionType: voidEntry.type,
+      reference: journal.transactionId,
+      description: voidEntry.memo || `Reversal of ${journal.journalId}`,
+      lines: journal.lines.map(line => ({ ...line, debit: line.credit, credit: line.debit })),
+    };
+  }
+
+  private static journalId(source: Transaction): string {
+    return `JE-${source.date.replace(/-/g, '')}-${source.id.substring(0, 8).toUpperCase()}`;
+  }
+
+  private static csvValue(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
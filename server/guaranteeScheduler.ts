@@ -0,0 +1,137 @@
+import type { IStorage } from "./storage";
+import { hasPermission, memberRole } from "@shared/permissions";
+import { GuaranteeService } from "./guaranteeService";
+import { InterestService } from "./interestService";
+import { sendGuaranteeExpiryReminder } from "./emailService";
+
+export class GuaranteeScheduler {
+  private storage: IStorage;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Start the guarantee scheduler
+   * Charges commission, expires lapsed guarantees and sends expiry reminders once per day
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('📜 Guarantee scheduler is already running');
+      return;
+    }
+
+    console.log('📜 Starting guarantee scheduler - running every 24 hours');
+    this.isRunning = true;
+
+    // Run immediately on start to catch up on any missed days
+    this.processAll();
+
+    // Then run every 24 hours (once per day)
+    this.intervalId = setInterval(() => {
+      this.processAll();
+    }, 24 * 60 * 60 * 1000); // 24 hours
+  }
+
+  /**
+   * Stop the guarantee scheduler
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.isRunning = false;
+      console.log('📜 Guarantee scheduler stopped');
+    }
+  }
+
+  /**
+   * Process the guarantees of every organization up to today
+   */
+  private async processAll(): Promise<void> {
+    try {
+      const today = InterestService.toDateString(new Date());
+      console.log(`📜 Processing guarantees for ${today}`);
+
+      const { organizations } = await import('@shared/schema');
+      const { db } = await import('./db');
+
+      const allOrganizations = await db
+        .select()
+        .from(organizations);
+
+      if (allOrganizations.length === 0) {
+        console.log('✅ No organizations found');
+        return;
+      }
+
+      let commissionCount = 0;
+      let expiredCount = 0;
+      for (const org of allOrganizations) {
+        try {
+          const result = await this.processOrganization(org.id, today);
+          commissionCount += result.commissions;
+          expiredCount += result.expired;
+        } catch (error) {
+          console.error(`❌ Error processing guarantees for org ${org.id}:`, error);
+          // Continue processing other organizations even if one fails
+        }
+      }
+
+      console.log(`✅ Finished guarantee processing - ${commissionCount} commission(s) charged, ${expiredCount} guarantee(s) expired`);
+    } catch (error) {
+      console.error('❌ Error in guarantee scheduler:', error);
+    }
+  }
+
+  /**
+   * Charge commission up to today, then expire the guarantees past their expiry date
+   * and remind the organization about those expiring soon
+   */
+  private async processOrganization(organizationId: string, today: string): Promise<{ commissions: number; expired: number }> {
+    const liveGuarantees = (await this.storage.getUserGuarantees(organizationId))
+      .filter(g => GuaranteeService.isLive(g));
+
+    let commissions = 0;
+    let expired = 0;
+    for (const guarantee of liveGuarantees) {
+      try {
+        // System postings are attributed to the guarantee owner for the audit trail
+        const charged = await this.storage.accrueGuaranteeCommission(guarantee.id, today, guarantee.userId);
+        commissions += charged.length;
+
+        if (GuaranteeService.isPastExpiry(guarantee, today)) {
+          await this.storage.applyGuaranteeAction(guarantee.id, organizationId, guarantee.userId, current =>
+            GuaranteeService.expire(current, today)
+          );
+          expired++;
+        } else if (GuaranteeService.needsExpiryReminder(guarantee, today)) {
+          await this.sendExpiryReminders(organizationId, guarantee, GuaranteeService.daysUntilExpiry(guarantee, today));
+          await this.storage.markGuaranteeExpiryReminderSent(guarantee.id);
+        }
+      } catch (error) {
+        console.error(`❌ Error processing guarantee ${guarantee.id}:`, error);
+      }
+    }
+
+    return { commissions, expired };
+  }
+
+  /**
+   * Email the members who can renew or release guarantees
+   */
+  private async sendExpiryReminders(
+    organizationId: string,
+    guarantee: { referenceNumber: string; beneficiaryName: string; guaranteeAmount: string; expiryDate: string },
+    daysUntilExpiry: number
+  ): Promise<void> {
+    const members = await this.storage.getOrganizationMembers(organizationId);
+    const recipients = members.filter(m => m.user.email && hasPermission(memberRole(m), 'guarantees', 'write'));
+
+    for (const member of recipients) {
+      await sendGuaranteeExpiryReminder(member.user.email!, guarantee, daysUntilExpiry);
+    }
+  }
+}
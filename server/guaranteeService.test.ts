@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Guarantee } from '@shared/schema';
+import { GuaranteeActionError, GuaranteeService } from './guaranteeService';
+import { PeriodCloseService } from './periodCloseService';
+
+const guarantee = {
+  id: 'guarantee-1',
+  referenceNumber: 'BG-1',
+  guaranteeAmount: '1000000.00',
+  calledAmount: '0.00',
+  issueDate: '2026-01-15',
+  expiryDate: '2026-12-31',
+  status: 'active',
+  beneficiaryName: 'Ministry of Housing',
+  feeRate: '2.00',
+  commissionBasis: 'quarterly_advance',
+  commissionAccruedThrough: null,
+  renewalCount: 0,
+  expiryReminderSentAt: null,
+} as Guarantee;
+
+const partlyCalled = { ...guarantee, calledAmount: '400000.00' } as Guarantee;
+
+test('renewing extends the expiry and books the amount left in force', () => {
+  const change = GuaranteeService.renew(partlyCalled, { date: '2026-12-01', expiryDate: '2027-06-30', guaranteeAmount: '1200000.00' });
+
+  assert.deepEqual(change.updates, {
+    expiryDate: '2027-06-30',
+    guaranteeAmount: '1200000.00',
+    status: 'renewed',
+    renewalCount: 1,
+    lastRenewalDate: '2026-12-01',
+    expiryReminderSentAt: null,
+  });
+  assert.deepEqual(change.transaction, { type: 'limit_change', amount: '800000.00', memo: 'Guarantee BG-1 renewed until 2027-06-30' });
+
+  // Expired guarantees can be brought back; called ones cannot
+  assert.equal(GuaranteeService.renew({ ...guarantee, status: 'expired' } as Guarantee, { date: '2027-01-05', expiryDate: '2027-06-30' }).updates.status, 'renewed');
+  assert.throws(() => GuaranteeService.renew({ ...guarantee, status: 'called' } as Guarantee, { date: '2026-12-01', expiryDate: '2027-06-30' }), GuaranteeActionError);
+  assert.throws(() => GuaranteeService.renew(guarantee, { date: '2026-12-01', expiryDate: '2026-12-31' }), /must be after the current expiry of 2026-12-31/);
+  assert.throws(() => GuaranteeService.renew(partlyCalled, { date: '2026-12-01', expiryDate: '2027-06-30', guaranteeAmount: '400000.00' }), /must stay above the 400000\.00 already called/);
+});
+
+test('an amendment records only the fields it changes', () => {
+  const change = GuaranteeService.amend(guarantee, {
+    date: '2026-06-01', reason: 'Scope increase', guaranteeAmount: '1500000.00', beneficiaryName: 'Ministry of Housing', expiryDate: '2027-03-31',
+  });
+
+  assert.deepEqual(change.updates, { guaranteeAmount: '1500000.00', expiryDate: '2027-03-31', expiryReminderSentAt: null });
+  assert.equal(change.transaction?.amount, '1500000.00');
+  assert.deepEqual(GuaranteeService.changesOf(guarantee, change.updates), {
+    guaranteeAmount: { from: '1000000.00', to: '1500000.00' },
+    expiryDate: { from: '2026-12-31', to: '2027-03-31' },
+  });
+
+  assert.throws(() => GuaranteeService.amend(guarantee, { date: '2026-06-01', reason: 'No-op', feeRate: '2.00' }), /does not change anything/);
+  assert.throws(() => GuaranteeService.amend(guarantee, { date: '2026-06-01', reason: 'Backdate', expiryDate: '2026-05-31' }), /cannot be before the amendment date/);
+  assert.throws(() => GuaranteeService.amend({ ...guarantee, status: 'cancelled' } as Guarantee, { date: '2026-06-01', reason: 'x', terms: 'y' }), /A cancelled guarantee cannot be amended/);
+});
+
+test('calls draw on what remains and mark the guarantee called once nothing is left', () => {
+  const partial = GuaranteeService.call(guarantee, { date: '2026-05-01', amount: '400000.00' });
+  assert.deepEqual(partial.updates, { calledAmount: '400000.00', calledDate: '2026-05-01' });
+  assert.deepEqual(partial.transaction, { type: 'draw', amount: '400000.00', memo: 'Partial call on guarantee BG-1' });
+
+  const full = GuaranteeService.call(partlyCalled, { date: '2026-06-01' });
+  assert.deepEqual(full.updates, { calledAmount: '1000000.00', calledDate: '2026-06-01', status: 'called' });
+  assert.equal(full.transaction?.memo, 'Full call on guarantee BG-1');
+
+  assert.throws(() => GuaranteeService.call(partlyCalled, { date: '2026-06-01', amount: '600000.01' }), /exceeds the remaining guarantee amount of 600000\.00/);
+  assert.throws(() => GuaranteeService.call(guarantee, { date: '2026-01-14' }), /cannot be called before it was issued/);
+});
+
+test('releasing or expiring frees the amount still in force', () => {
+  const released = GuaranteeService.release(partlyCalled, { date: '2026-06-01', reason: 'Project completed' });
+  assert.equal(released.updates.status, 'cancelled');
+  assert.equal(released.amount, '600000.00');
+
+  assert.throws(() => GuaranteeService.expire(guarantee, '2026-12-31'), /has not expired yet/);
+  const expired = GuaranteeService.expire(partlyCalled, '2027-01-01');
+  assert.deepEqual([expired.effectiveDate, expired.updates.status, expired.amount], ['2026-12-31', 'expired', '600000.00']);
+  assert.equal(GuaranteeService.remainingAmount({ ...partlyCalled, status: 'expired' }), 0);
+});
+
+test('the expiry reminder is due within 30 days of expiry and only once', () => {
+  assert.equal(GuaranteeService.needsExpiryReminder(guarantee, '2026-11-30'), false);
+  assert.equal(GuaranteeService.needsExpiryReminder(guarantee, '2026-12-01'), true);
+  assert.equal(GuaranteeService.needsExpiryReminder(guarantee, '2027-01-01'), false);
+  assert.equal(GuaranteeService.needsExpiryReminder({ ...guarantee, expiryReminderSentAt: new Date('2026-12-01') }, '2026-12-02'), false);
+});
+
+const periods = (g: Guarantee, toDate: string, closeOut = false) =>
+  GuaranteeService.commissionPeriods(g, toDate, closeOut).map(p => [p.periodStart, p.periodEnd, p.dueDate, p.days, p.amount]);
+
+test('quarterly in advance commission charges each quarter from the day it starts', () => {
+  assert.deepEqual(periods(guarantee, '2026-04-15'), [
+    ['2026-01-15', '2026-04-15', '2026-01-15', 90, 5000],
+    ['2026-04-15', '2026-07-15', '2026-04-15', 91, 5055.56],
+  ]);
+
+  // Picks up where the last charge stopped; the last quarter ends the day after expiry
+  assert.deepEqual(periods({ ...partlyCalled, commissionAccruedThrough: '2026-07-15' }, '2026-10-19'), [
+    ['2026-07-15', '2026-10-15', '2026-07-15', 92, 3066.67],
+    ['2026-10-15', '2027-01-01', '2026-10-15', 78, 2600],
+  ]);
+});
+
+test('pro-rata commission charges a quarter once it has ended, or up to the date an action closes it out', () => {
+  const proRata = { ...guarantee, commissionBasis: 'pro_rata' } as Guarantee;
+
+  assert.deepEqual(periods(proRata, '2026-07-14'), [['2026-01-15', '2026-04-15', '2026-04-15', 90, 5000]]);
+  assert.deepEqual(periods(proRata, '2026-05-15', true), [
+    ['2026-01-15', '2026-04-15', '2026-04-15', 90, 5000],
+    ['2026-04-15', '2026-05-15', '2026-05-15', 30, 1666.67],
+  ]);
+  // Closing out after expiry charges the full term and nothing beyond it
+  assert.deepEqual(periods({ ...proRata, commissionAccruedThrough: '2026-10-15' }, '2027-02-01', true), [
+    ['2026-10-15', '2027-01-01', '2027-01-01', 78, 4333.33],
+  ]);
+});
+
+test('nothing is charged without a fee rate or an amount in force', () => {
+  assert.deepEqual(GuaranteeService.commissionPeriods({ ...guarantee, feeRate: '0.00' }, '2026-10-19'), []);
+  assert.deepEqual(GuaranteeService.commissionPeriods({ ...guarantee, status: 'called', calledAmount: '1000000.00' } as Guarantee, '2026-10-19'), []);
+});
+
+test('commission due in a closed month is booked on the first day of the next open month', () => {
+  const closed = ['2026-01', '2026-02', '2026-04'];
+
+  assert.equal(PeriodCloseService.firstOpenDate(closed, '2026-01-15'), '2026-03-01');
+  assert.equal(PeriodCloseService.firstOpenDate(closed, '2026-03-20'), '2026-03-20');
+  assert.equal(PeriodCloseService.firstOpenDate(closed, '2026-04-15'), '2026-05-01');
+  assert.equal(GuaranteeService.commissionIdempotencyKey(guarantee.id, { periodStart: '2026-01-15' }), 'GUARANTEE_COMMISSION:guarantee-1:2026-01-15');
+});
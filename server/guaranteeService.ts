@@ -0,0 +1,331 @@
+import type {
+  Guarantee,
+  GuaranteeAction,
+  GuaranteeAmendRequest,
+  GuaranteeCallRequest,
+  GuaranteeReleaseRequest,
+  GuaranteeRenewRequest,
+  TransactionType,
+} from '@shared/schema';
+import { InterestService } from './interestService';
+
+export class GuaranteeActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuaranteeActionError';
+    Object.setPrototypeOf(this, GuaranteeActionError.prototype);
+  }
+}
+
+/**
+ * What a lifecycle action does to a guarantee: the fields it sets and the ledger entry it books
+ */
+export interface GuaranteeActionChange {
+  action: GuaranteeAction;
+  effectiveDate: string;
+  updates: Partial<Guarantee>;
+  amount: string | null; // Amount called or released
+  reason: string | null;
+  transaction: { type: TransactionType; amount: string; memo: string } | null;
+}
+
+export interface CommissionPeriod {
+  periodStart: string; // Inclusive
+  periodEnd: string; // Exclusive - becomes the new commissionAccruedThrough
+  dueDate: string;
+  days: number;
+  baseAmount: number;
+  feeRate: number; // Annual rate in percent
+  amount: number;
+}
+
+// Commission periods run in quarters from the issue date
+const COMMISSION_PERIOD_MONTHS = 3;
+
+// Days ahead of expiry the expiry reminder goes out
+export const GUARANTEE_EXPIRY_REMINDER_DAYS = 30;
+
+// Fields the versioned history records changes of
+const TRACKED_FIELDS = [
+  'guaranteeAmount', 'calledAmount', 'expiryDate', 'status', 'beneficiaryName', 'beneficiaryDetails', 'feeRate', 'terms',
+] as const;
+
+export class GuaranteeService {
+  /**
+   * Renewed guarantees stay in force; called, cancelled and expired ones do not
+   */
+  static isLive(guarantee: Pick<Guarantee, 'status'>): boolean {
+    return guarantee.status === 'active' || guarantee.status === 'renewed';
+  }
+
+  /**
+   * Face amount less what the beneficiary has already called
+   */
+  static remainingAmount(guarantee: Pick<Guarantee, 'status' | 'guaranteeAmount' | 'calledAmount'>): number {
+    if (!this.isLive(guarantee)) return 0;
+    return InterestService.roundAmount(parseFloat(guarantee.guaranteeAmount) - parseFloat(guarantee.calledAmount || '0'));
+  }
+
+  /**
+   * Extend the expiry, optionally at a new amount or fee rate. Expired guarantees can be renewed too.
+   */
+  static renew(guarantee: Guarantee, request: GuaranteeRenewRequest): GuaranteeActionChange {
+    if (guarantee.status !== 'expired' && !this.isLive(guarantee)) {
+      throw new GuaranteeActionError(`A ${guarantee.status} guarantee cannot be renewed`);
+    }
+    if (request.expiryDate <= guarantee.expiryDate) {
+      throw new GuaranteeActionError(`The new expiry date must be after the current expiry of ${guarantee.expiryDate}`);
+    }
+    const guaranteeAmount = request.guaranteeAmount ?? guarantee.guaranteeAmount;
+    this.assertAboveCalled(guarantee, guaranteeAmount);
+
+    const updates: Partial<Guarantee> = {
+      expiryDate: request.expiryDate,
+      guaranteeAmount,
+      status: 'renewed',
+      renewalCount: (guarantee.renewalCount ?? 0) + 1,
+      lastRenewalDate: request.date,
+      expiryReminderSentAt: null,
+    };
+    if (request.feeRate !== undefined) updates.feeRate = request.feeRate;
+
+    return {
+      action: 'renew',
+      effectiveDate: request.date,
+      updates,
+      amount: null,
+      reason: request.reason ?? null,
+      transaction: {
+        type: 'limit_change',
+        amount: this.inForceAfter(guarantee, updates),
+        memo: `Guarantee ${guarantee.referenceNumber} renewed until ${request.expiryDate}`,
+      },
+    };
+  }
+
+  static amend(guarantee: Guarantee, request: GuaranteeAmendRequest): GuaranteeActionChange {
+    this.assertLive(guarantee, 'amended');
+
+    const { date, reason, ...fields } = request;
+    const updates: Partial<Guarantee> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      if (value !== undefined && value !== (guarantee as any)[field]) {
+        (updates as any)[field] = value;
+      }
+    }
+    if (Object.keys(updates).length === 0) {
+      throw new GuaranteeActionError('The amendment does not change anything');
+    }
+    if (updates.guaranteeAmount) this.assertAboveCalled(guarantee, updates.guaranteeAmount);
+    if (updates.expiryDate && updates.expiryDate < date) {
+      throw new GuaranteeActionError('The expiry date cannot be before the amendment date');
+    }
+    if (updates.expiryDate) updates.expiryReminderSentAt = null;
+
+    return {
+      action: 'amend',
+      effectiveDate: date,
+      updates,
+      amount: null,
+      reason,
+      transaction: {
+        type: 'limit_change',
+        amount: this.inForceAfter(guarantee, updates),
+        memo: `Guarantee ${guarantee.referenceNumber} amended: ${Object.keys(updates).join(', ')}`,
+      },
+    };
+  }
+
+  /**
+   * Book a partial or full call by the beneficiary. The guarantee is marked called once nothing remains.
+   */
+  static call(guarantee: Guarantee, request: GuaranteeCallRequest): GuaranteeActionChange {
+    this.assertLive(guarantee, 'called');
+
+    const remaining = this.remainingAmount(guarantee);
+    const amount = request.amount ? parseFloat(request.amount) : remaining;
+    if (amount > remaining) {
+      throw new GuaranteeActionError(
+        `The call of ${amount.toFixed(2)} exceeds the remaining guarantee amount of ${remaining.toFixed(2)}`
+      );
+    }
+    if (request.date < guarantee.issueDate) {
+      throw new GuaranteeActionError('A guarantee cannot be called before it was issued');
+    }
+
+    const calledAmount = InterestService.roundAmount(parseFloat(guarantee.calledAmount || '0') + amount).toFixed(2);
+    const fullCall = InterestService.roundAmount(remaining - amount) === 0;
+
+    return {
+      action: 'call',
+      effectiveDate: request.date,
+      updates: {
+        calledAmount,
+        calledDate: request.date,
+        ...(fullCall ? { status: 'called' as const } : {}),
+      },
+      amount: amount.toFixed(2),
+      reason: request.reason ?? null,
+      transaction: {
+        type: 'draw',
+        amount: amount.toFixed(2),
+        memo: `${fullCall ? 'Full' : 'Partial'} call on guarantee ${guarantee.referenceNumber}`,
+      },
+    };
+  }
+
+  /**
+   * Release or cancel the guarantee, freeing whatever amount was still in force
+   */
+  static release(guarantee: Guarantee, request: GuaranteeReleaseRequest): GuaranteeActionChange {
+    this.assertLive(guarantee, 'released');
+    const released = this.remainingAmount(guarantee).toFixed(2);
+
+    return {
+      action: 'release',
+      effectiveDate: request.date,
+      updates: { status: 'cancelled' },
+      amount: released,
+      reason: request.reason,
+      transaction: {
+        type: 'limit_change',
+        amount: released,
+        memo: `Guarantee ${guarantee.referenceNumber} released`,
+      },
+    };
+  }
+
+  /**
+   * Mark a guarantee expired once its expiry date has passed, freeing the amount still in force
+   */
+  static expire(guarantee: Guarantee, today: string): GuaranteeActionChange {
+    if (!this.isPastExpiry(guarantee, today)) {
+      throw new GuaranteeActionError(`Guarantee ${guarantee.referenceNumber} has not expired yet`);
+    }
+    const released = this.remainingAmount(guarantee).toFixed(2);
+
+    return {
+      action: 'expire',
+      effectiveDate: guarantee.expiryDate,
+      updates: { status: 'expired' },
+      amount: released,
+      reason: null,
+      transaction: {
+        type: 'limit_change',
+        amount: released,
+        memo: `Guarantee ${guarantee.referenceNumber} expired`,
+      },
+    };
+  }
+
+  /**
+   * A guarantee is valid through its expiry date and lapses the day after
+   */
+  static isPastExpiry(guarantee: Pick<Guarantee, 'status' | 'expiryDate'>, today: string): boolean {
+    return this.isLive(guarantee) && guarantee.expiryDate < today;
+  }
+
+  static daysUntilExpiry(guarantee: Pick<Guarantee, 'expiryDate'>, today: string): number {
+    return InterestService.dayCount(today, guarantee.expiryDate, 'actual_360');
+  }
+
+  /**
+   * Live guarantees expiring within the reminder window that have not been reminded about yet
+   */
+  static needsExpiryReminder(guarantee: Pick<Guarantee, 'status' | 'expiryDate' | 'expiryReminderSentAt'>, today: string): boolean {
+    const days = this.daysUntilExpiry(guarantee, today);
+    return this.isLive(guarantee) && !guarantee.expiryReminderSentAt && days >= 0 && days <= GUARANTEE_EXPIRY_REMINDER_DAYS;
+  }
+
+  /**
+   * Commission periods from where the last charge stopped up to toDate, on the amount still in force (Actual/360).
+   * Quarters run from the issue date and the last one ends the day after the expiry date, so the expiry day is
+   * charged. Quarterly in advance charges a quarter once it has started; pro-rata charges it once it has ended,
+   * and closeOut also charges the running quarter up to toDate, which is how actions that change the amount or
+   * end the guarantee settle the days before them. Closing out on or after the expiry date charges the full term.
+   */
+  static commissionPeriods(guarantee: Guarantee, toDate: string, closeOut = false): CommissionPeriod[] {
+    const feeRate = parseFloat(guarantee.feeRate || '0');
+    const baseAmount = this.remainingAmount(guarantee);
+    if (feeRate <= 0 || baseAmount <= 0) {
+      return [];
+    }
+
+    const inAdvance = guarantee.commissionBasis !== 'pro_rata';
+    const periods: CommissionPeriod[] = [];
+    let periodStart = guarantee.commissionAccruedThrough ?? guarantee.issueDate;
+    let quarter = 1;
+    const coverageEnd = this.coverageEnd(guarantee);
+    const closeOutDate = toDate < guarantee.expiryDate ? toDate : coverageEnd;
+
+    while (periodStart < coverageEnd) {
+      while (InterestService.addMonths(guarantee.issueDate, quarter * COMMISSION_PERIOD_MONTHS) <= periodStart) {
+        quarter++;
+      }
+      let periodEnd = InterestService.addMonths(guarantee.issueDate, quarter * COMMISSION_PERIOD_MONTHS);
+      if (periodEnd > coverageEnd) periodEnd = coverageEnd;
+
+      if (inAdvance) {
+        if (periodStart > toDate) break;
+      } else if (periodEnd > toDate) {
+        if (!closeOut || closeOutDate <= periodStart) break;
+        if (periodEnd > closeOutDate) periodEnd = closeOutDate;
+      }
+
+      periods.push({
+        periodStart,
+        periodEnd,
+        dueDate: inAdvance ? periodStart : periodEnd,
+        days: InterestService.dayCount(periodStart, periodEnd, 'actual_360'),
+        baseAmount,
+        feeRate,
+        amount: InterestService.roundAmount(InterestService.calculateInterest(baseAmount, feeRate, periodStart, periodEnd, 'actual_360')),
+      });
+      periodStart = periodEnd;
+    }
+
+    return periods;
+  }
+
+  /**
+   * Day after the expiry date, where commission stops
+   */
+  static coverageEnd(guarantee: Pick<Guarantee, 'expiryDate'>): string {
+    const [year, month, day] = guarantee.expiryDate.split('-').map(Number);
+    return InterestService.toDateString(new Date(Date.UTC(year, month - 1, day + 1)));
+  }
+
+  static commissionIdempotencyKey(guaranteeId: string, period: Pick<CommissionPeriod, 'periodStart'>): string {
+    return `GUARANTEE_COMMISSION:${guaranteeId}:${period.periodStart}`;
+  }
+
+  /**
+   * Tracked fields the action changed, as {field: {from, to}}
+   */
+  static changesOf(before: Guarantee, updates: Partial<Guarantee>): Record<string, { from: unknown; to: unknown }> {
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const field of TRACKED_FIELDS) {
+      if (field in updates && updates[field] !== before[field]) {
+        changes[field] = { from: before[field] ?? null, to: updates[field] ?? null };
+      }
+    }
+    return changes;
+  }
+
+  private static inForceAfter(guarantee: Guarantee, updates: Partial<Guarantee>): string {
+    return this.remainingAmount({ ...guarantee, ...updates }).toFixed(2);
+  }
+
+  private static assertLive(guarantee: Guarantee, verb: string): void {
+    if (!this.isLive(guarantee)) {
+      throw new GuaranteeActionError(`A ${guarantee.status} guarantee cannot be ${verb}`);
+    }
+  }
+
+  private static assertAboveCalled(guarantee: Guarantee, guaranteeAmount: string): void {
+    const called = parseFloat(guarantee.calledAmount || '0');
+    if (parseFloat(guaranteeAmount) <= called) {
+      throw new GuaranteeActionError(`The guarantee amount must stay above the ${called.toFixed(2)} already called`);
+    }
+  }
+}
@@ -1,5 +1,5 @@
-const DEEPSEEK_API_URL = "https://api.deepseek.com/v1/chat/completions";
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY || "";
+import type { IStorage } from './storage';
+import { LlmClient, type LlmMessage } from './llmClient';
 
 export interface HelpDeskResponse {
   answer: string;
@@ -7,6 +7,8 @@ export interface HelpDeskResponse {
 }
 
 export class HelpDeskService {
+  constructor(private storage: IStorage) {}
+
   private getSystemPrompt(): string {
     return `You are a friendly and knowledgeable help desk assistant for Morouna Loans, a comprehensive loan management platform for the Saudi Arabian market.
 
@@ -98,9 +100,9 @@ When answering:
 5. Always encourage using the AI Assistant for actual actions`;
   }
 
-  async processQuestion(question: string): Promise<HelpDeskResponse> {
+  async processQuestion(question: string, userId?: string, organizationId?: string): Promise<HelpDeskResponse> {
     try {
-      const messages = [
+      const messages: LlmMessage[] = [
         {
           role: 'system',
           content: this.getSystemPrompt()
@@ -111,26 +113,14 @@ When answering:
         }
       ];
 
-      const response = await fetch(DEEPSEEK_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${DEEPSEEK_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: 'deepseek-chat',
-          messages,
-          temperature: 0.7
-        })
+      const answer = await LlmClient.completeText(this.storage, {
+        feature: 'help_desk',
+        organizationId,
+        userId,
+        messages,
+        temperature: 0.7,
       });
 
-      if (!response.ok) {
-        throw new Error(`DeepSeek API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const answer = data.choices[0].message.content;
-
       return { answer };
 
     } catch (error) {
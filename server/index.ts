@@ -5,6 +5,8 @@ import { setupVite, serveStatic, log } from "./vite";
 import { config } from "./config";
 
 const app = express();
+// Signed local file uploads arrive as raw bytes, whatever their content type
+app.use('/api/files', express.raw({ type: () => true, limit: '25mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -110,6 +112,36 @@ app.use((req, res, next) => {
   const snapshotScheduler = new SnapshotScheduler(deps.storage);
   snapshotScheduler.start();
 
+  // Start interest accrual scheduler for nightly interest postings
+  const { InterestAccrualScheduler } = await import('./interestAccrualScheduler');
+  const interestAccrualScheduler = new InterestAccrualScheduler(deps.storage);
+  interestAccrualScheduler.start();
+
+  // Start reference rate scheduler for SIBOR / SAIBOR fixing files
+  const { ReferenceRateScheduler } = await import('./referenceRateScheduler');
+  const referenceRateScheduler = new ReferenceRateScheduler(deps.storage);
+  referenceRateScheduler.start();
+
+  // Start guarantee scheduler for commission charges, expiries and expiry reminders
+  const { GuaranteeScheduler } = await import('./guaranteeScheduler');
+  const guaranteeScheduler = new GuaranteeScheduler(deps.storage);
+  guaranteeScheduler.start();
+
+  // Start share price scheduler for Tadawul closing price files and mark-to-market of share collateral
+  const { SharePriceScheduler } = await import('./sharePriceScheduler');
+  const sharePriceScheduler = new SharePriceScheduler(deps.storage);
+  sharePriceScheduler.start();
+
+  // Start margin call scheduler for LTV breaches against bank targets and escalating reminders
+  const { MarginCallScheduler } = await import('./marginCallScheduler');
+  const marginCallScheduler = new MarginCallScheduler(deps.storage);
+  marginCallScheduler.start();
+
+  // Start attachment purge scheduler for versions whose retention period has run out
+  const { AttachmentPurgeScheduler } = await import('./attachmentPurgeScheduler');
+  const attachmentPurgeScheduler = new AttachmentPurgeScheduler(deps.storage);
+  attachmentPurgeScheduler.start();
+
   // Register all modular routes
   registerAllRoutes(app, deps);
 
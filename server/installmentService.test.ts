@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Loan, LoanInstallment } from '@shared/schema';
+import { InstallmentService } from './installmentService';
+
+const loan = {
+  id: 'loan-1',
+  amount: '1000000.00',
+  startDate: '2026-01-15',
+  dueDate: '2026-07-15',
+  siborRate: '5.00',
+  margin: '1.00',
+  interestBasis: 'actual_360',
+} as Loan;
+
+const installment = (installmentNumber: number, principalAmount: string, interestAmount: string, extra: Partial<LoanInstallment> = {}) => ({
+  id: `inst-${installmentNumber}`,
+  loanId: loan.id,
+  installmentNumber,
+  dueDate: `2026-0${installmentNumber + 2}-15`,
+  principalAmount,
+  interestAmount,
+  totalAmount: (parseFloat(principalAmount) + parseFloat(interestAmount)).toFixed(2),
+  paidPrincipal: '0',
+  paidInterest: '0',
+  status: 'pending',
+  paidDate: null,
+  method: 'equal_principal',
+  ...extra,
+}) as LoanInstallment;
+
+test('equal principal plans project interest on the principal still outstanding', () => {
+  const rows = InstallmentService.buildSchedule(loan, { method: 'equal_principal', frequencyMonths: 2 });
+
+  assert.deepEqual(rows.map(row => [row.installmentNumber, row.dueDate, row.principalAmount, row.interestAmount, row.totalAmount]), [
+    [1, '2026-03-15', '333333.33', '9833.33', '343166.66'],
+    [2, '2026-05-15', '333333.33', '6777.78', '340111.11'],
+    // The last installment absorbs the rounding difference
+    [3, '2026-07-15', '333333.34', '3388.89', '336722.23'],
+  ]);
+});
+
+test('annuity plans pay down more principal each period and repay the loan in full', () => {
+  const rows = InstallmentService.buildSchedule({ ...loan, dueDate: '2027-01-15' } as Loan, { method: 'annuity', frequencyMonths: 3 });
+
+  assert.deepEqual(rows.map(row => [row.dueDate, row.principalAmount, row.interestAmount]), [
+    ['2026-04-15', '244444.79', '15000.00'],
+    ['2026-07-15', '248111.46', '11459.25'],
+    ['2026-10-15', '251833.13', '7780.80'],
+    ['2027-01-15', '255610.62', '3919.36'],
+  ]);
+  assert.equal(rows.reduce((sum, row) => sum + parseFloat(row.principalAmount), 0).toFixed(2), '1000000.00');
+});
+
+test('due dates step from the anchor without month-end drift and end on the loan due date', () => {
+  assert.deepEqual(InstallmentService.dueDates('2026-01-31', '2026-12-31', 3), ['2026-04-30', '2026-07-31', '2026-10-31', '2026-12-31']);
+  assert.deepEqual(InstallmentService.dueDates('2026-01-15', '2026-07-15', 3, '2026-03-01'), ['2026-03-01', '2026-06-01', '2026-07-15']);
+  assert.throws(() => InstallmentService.dueDates('2026-01-15', '2026-07-15', 3, '2026-08-01'), /First installment must fall after the start date/);
+});
+
+test('custom plans must repay exactly the loan amount on distinct dates within the term', () => {
+  const rows = InstallmentService.buildSchedule(loan, {
+    method: 'custom',
+    frequencyMonths: 3,
+    installments: [
+      { dueDate: '2026-07-15', principalAmount: '600000.00' },
+      { dueDate: '2026-04-15', principalAmount: '400000.00' },
+    ],
+  });
+  assert.deepEqual(rows.map(row => [row.dueDate, row.principalAmount]), [['2026-04-15', '400000.00'], ['2026-07-15', '600000.00']]);
+
+  assert.throws(
+    () => InstallmentService.buildSchedule(loan, { method: 'custom', frequencyMonths: 3, installments: [{ dueDate: '2026-07-15', principalAmount: '900000.00' }] }),
+    /must add up to the loan amount \(1000000\.00\)/
+  );
+  assert.throws(
+    () => InstallmentService.buildSchedule(loan, { method: 'custom', frequencyMonths: 3, installments: [{ dueDate: '2026-08-15', principalAmount: '1000000.00' }] }),
+    /on or before the loan due date/
+  );
+});
+
+test('a payment clears interest before principal on the oldest installments first', () => {
+  const installments = [
+    installment(2, '500000.00', '5000.00'),
+    installment(1, '500000.00', '10000.00', { paidInterest: '10000.00', paidPrincipal: '100000.00', status: 'partial' }),
+  ];
+
+  const result = InstallmentService.allocatePayment(installments, { amount: '410000.00', paymentDate: '2026-04-15' });
+
+  assert.deepEqual(result.allocations, [
+    { installmentId: 'inst-1', installmentNumber: 1, principal: 400000, interest: 0 },
+    { installmentId: 'inst-2', installmentNumber: 2, principal: 5000, interest: 5000 },
+  ]);
+  assert.deepEqual(result.updates.map(update => [update.id, update.status, update.paidDate]), [
+    ['inst-1', 'paid', '2026-04-15'],
+    ['inst-2', 'partial', null],
+  ]);
+  assert.equal(result.unallocated, 0);
+});
+
+test('a split payment applies each part to its own component and reports what is left over', () => {
+  const installments = [installment(1, '500000.00', '10000.00'), installment(2, '500000.00', '5000.00')];
+
+  const result = InstallmentService.allocatePayment(installments, {
+    amount: '30000.00', principalAmount: '10000.00', interestAmount: '20000.00', paymentDate: '2026-03-15',
+  });
+
+  assert.deepEqual(result.allocations.map(a => [a.installmentNumber, a.principal, a.interest]), [[1, 10000, 10000], [2, 0, 5000]]);
+  assert.equal(result.unallocated, 5000);
+});
+
+test('overdue installments are the unpaid ones past their due date', () => {
+  const installments = [
+    installment(1, '500000.00', '10000.00', { paidInterest: '10000.00', paidPrincipal: '500000.00', status: 'paid' }),
+    installment(2, '500000.00', '5000.00', { paidInterest: '2000.00', status: 'partial' }),
+  ];
+
+  assert.deepEqual(InstallmentService.overdueInstallments(installments, '2026-04-16').map(i => i.id), ['inst-2']);
+  assert.deepEqual(InstallmentService.overdueInstallments(installments, '2026-04-15'), []);
+  assert.equal(InstallmentService.amountDue(installments[1]), 503000);
+});
@@ -0,0 +1,238 @@
+import type { InsertLoanInstallment, InstallmentScheduleRequest, InstallmentStatus, Loan, LoanInstallment } from '@shared/schema';
+import type { InstallmentAllocation } from '@shared/types';
+import { InterestService } from './interestService';
+
+export interface InstallmentUpdate {
+  id: string;
+  paidPrincipal: string;
+  paidInterest: string;
+  status: InstallmentStatus;
+  paidDate: string | null;
+}
+
+export interface InstallmentPaymentAllocation {
+  allocations: InstallmentAllocation[];
+  updates: InstallmentUpdate[];
+  unallocated: number; // Left over once every installment is paid
+}
+
+// Amounts within half a halala are treated as settled
+const TOLERANCE = 0.005;
+
+export class InstallmentService {
+  /**
+   * Build an installment plan for a loan. Interest on each installment is projected on the principal
+   * outstanding over the period at the loan's current all-in rate, using the loan's day-count basis.
+   */
+  static buildSchedule(loan: Loan, request: InstallmentScheduleRequest): InsertLoanInstallment[] {
+    const principal = parseFloat(loan.amount);
+    const rate = parseFloat(loan.siborRate) + parseFloat(loan.margin);
+    const basis = InterestService.normalizeBasis(loan.interestBasis);
+
+    let rows: Array<{ dueDate: string; principal: number }>;
+    if (request.method === 'custom') {
+      rows = this.customRows(loan, request.installments ?? []);
+    } else {
+      const dueDates = this.dueDates(loan.startDate, loan.dueDate, request.frequencyMonths, request.firstDueDate);
+      rows = request.method === 'annuity'
+        ? this.annuityRows(principal, rate, request.frequencyMonths, dueDates)
+        : this.equalPrincipalRows(principal, dueDates);
+    }
+
+    let outstanding = principal;
+    let previousDate = loan.startDate;
+    return rows.map((row, index) => {
+      const interest = InterestService.roundAmount(
+        InterestService.calculateInterest(outstanding, rate, previousDate, row.dueDate, basis)
+      );
+      outstanding = InterestService.roundAmount(outstanding - row.principal);
+      previousDate = row.dueDate;
+
+      return {
+        loanId: loan.id,
+        installmentNumber: index + 1,
+        dueDate: row.dueDate,
+        principalAmount: row.principal.toFixed(2),
+        interestAmount: interest.toFixed(2),
+        totalAmount: (row.principal + interest).toFixed(2),
+        paidPrincipal: '0',
+        paidInterest: '0',
+        status: 'pending',
+        paidDate: null,
+        method: request.method,
+      };
+    });
+  }
+
+  /**
+   * Installment due dates every frequencyMonths from the start date (or from firstDueDate).
+   * The final installment always falls on the loan due date.
+   */
+  static dueDates(startDate: string, dueDate: string, frequencyMonths: number, firstDueDate?: string): string[] {
+    const first = firstDueDate ?? InterestService.addMonths(startDate, frequencyMonths);
+    if (first <= startDate || first > dueDate) {
+      throw new Error('First installment must fall after the start date and on or before the due date');
+    }
+
+    // Step from the original anchor so month-end dates do not drift (Jan 31 -> Apr 30 -> Jul 31)
+    const anchor = firstDueDate ?? startDate;
+    const offset = firstDueDate ? 0 : 1;
+    const dates: string[] = [];
+    for (let k = offset; ; k++) {
+      const date = InterestService.addMonths(anchor, k * frequencyMonths);
+      if (date >= dueDate) break;
+      dates.push(date);
+    }
+    dates.push(dueDate);
+    return dates;
+  }
+
+  /**
+   * Spread a payment over the oldest unpaid installments. When the payment carries a principal/interest
+   * split each part is applied to the matching component; otherwise interest is cleared before principal.
+   */
+  static allocatePayment(
+    installments: LoanInstallment[],
+    payment: { amount: string; principalAmount?: string | null; interestAmount?: string | null; paymentDate: string },
+  ): InstallmentPaymentAllocation {
+    const split = payment.principalAmount != null && payment.interestAmount != null;
+    let principalPool = split ? parseFloat(payment.principalAmount!) : 0;
+    let interestPool = split ? parseFloat(payment.interestAmount!) : 0;
+    let pool = split ? 0 : parseFloat(payment.amount);
+
+    const allocations: InstallmentAllocation[] = [];
+    const updates: InstallmentUpdate[] = [];
+
+    const open = [...installments]
+      .filter(installment => installment.status !== 'paid')
+      .sort((a, b) => a.installmentNumber - b.installmentNumber);
+
+    for (const installment of open) {
+      const interestDue = this.remaining(installment.interestAmount, installment.paidInterest);
+      const principalDue = this.remaining(installment.principalAmount, installment.paidPrincipal);
+
+      let interest: number;
+      let principal: number;
+      if (split) {
+        interest = Math.min(interestPool, interestDue);
+        principal = Math.min(principalPool, principalDue);
+        interestPool = InterestService.roundAmount(interestPool - interest);
+        principalPool = InterestService.roundAmount(principalPool - principal);
+      } else {
+        interest = Math.min(pool, interestDue);
+        principal = Math.min(pool - interest, principalDue);
+        pool = InterestService.roundAmount(pool - interest - principal);
+      }
+
+      if (interest <= 0 && principal <= 0) {
+        if (split ? interestPool <= 0 && principalPool <= 0 : pool <= 0) break;
+        continue;
+      }
+
+      const paidInterest = parseFloat(installment.paidInterest) + interest;
+      const paidPrincipal = parseFloat(installment.paidPrincipal) + principal;
+      const status = this.statusFor(installment, paidPrincipal, paidInterest);
+
+      allocations.push({
+        installmentId: installment.id,
+        installmentNumber: installment.installmentNumber,
+        principal: InterestService.roundAmount(principal),
+        interest: InterestService.roundAmount(interest),
+      });
+      updates.push({
+        id: installment.id,
+        paidPrincipal: paidPrincipal.toFixed(2),
+        paidInterest: paidInterest.toFixed(2),
+        status,
+        paidDate: status === 'paid' ? payment.paymentDate : null,
+      });
+    }
+
+    return {
+      allocations,
+      updates,
+      unallocated: InterestService.roundAmount(pool + principalPool + interestPool),
+    };
+  }
+
+  /**
+   * Unpaid installments whose due date has passed
+   */
+  static overdueInstallments(installments: LoanInstallment[], asOf: string): LoanInstallment[] {
+    return installments.filter(installment => installment.status !== 'paid' && installment.dueDate < asOf);
+  }
+
+  /**
+   * Amount still owed on an installment
+   */
+  static amountDue(installment: LoanInstallment): number {
+    return InterestService.roundAmount(
+      this.remaining(installment.principalAmount, installment.paidPrincipal) +
+      this.remaining(installment.interestAmount, installment.paidInterest)
+    );
+  }
+
+  private static equalPrincipalRows(principal: number, dueDates: string[]): Array<{ dueDate: string; principal: number }> {
+    const each = InterestService.roundAmount(principal / dueDates.length);
+    return dueDates.map((dueDate, index) => ({
+      dueDate,
+      // The last installment absorbs the rounding difference
+      principal: index === dueDates.length - 1
+        ? InterestService.roundAmount(principal - each * (dueDates.length - 1))
+        : each,
+    }));
+  }
+
+  /**
+   * Level payments: the principal part of each installment is what is left of the annuity payment
+   * after interest at the nominal periodic rate (annual rate x frequency / 12)
+   */
+  private static annuityRows(principal: number, ratePercent: number, frequencyMonths: number, dueDates: string[]): Array<{ dueDate: string; principal: number }> {
+    const periodicRate = (ratePercent / 100) * (frequencyMonths / 12);
+    const n = dueDates.length;
+    const payment = periodicRate > 0
+      ? principal * periodicRate / (1 - Math.pow(1 + periodicRate, -n))
+      : principal / n;
+
+    let outstanding = principal;
+    return dueDates.map((dueDate, index) => {
+      const principalPart = index === n - 1
+        ? outstanding
+        : InterestService.roundAmount(payment - outstanding * periodicRate);
+      outstanding = InterestService.roundAmount(outstanding - principalPart);
+      return { dueDate, principal: principalPart };
+    });
+  }
+
+  private static customRows(loan: Loan, installments: NonNullable<InstallmentScheduleRequest['installments']>): Array<{ dueDate: string; principal: number }> {
+    const rows = [...installments]
+      .map(row => ({ dueDate: row.dueDate, principal: parseFloat(row.principalAmount) }))
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+    if (rows.some(row => row.dueDate <= loan.startDate || row.dueDate > loan.dueDate)) {
+      throw new Error('Installment due dates must fall after the start date and on or before the loan due date');
+    }
+    if (new Set(rows.map(row => row.dueDate)).size !== rows.length) {
+      throw new Error('Installment due dates must be unique');
+    }
+
+    const total = rows.reduce((sum, row) => sum + row.principal, 0);
+    if (Math.abs(total - parseFloat(loan.amount)) > TOLERANCE) {
+      throw new Error(`Installment principal (${total.toFixed(2)}) must add up to the loan amount (${parseFloat(loan.amount).toFixed(2)})`);
+    }
+
+    return rows;
+  }
+
+  private static statusFor(installment: LoanInstallment, paidPrincipal: number, paidInterest: number): InstallmentStatus {
+    const principalDone = paidPrincipal >= parseFloat(installment.principalAmount) - TOLERANCE;
+    const interestDone = paidInterest >= parseFloat(installment.interestAmount) - TOLERANCE;
+    if (principalDone && interestDone) return 'paid';
+    if (paidPrincipal > 0 || paidInterest > 0) return 'partial';
+    return 'pending';
+  }
+
+  private static remaining(amount: string, paid: string): number {
+    return Math.max(0, InterestService.roundAmount(parseFloat(amount) - parseFloat(paid)));
+  }
+}
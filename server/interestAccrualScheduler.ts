@@ -0,0 +1,102 @@
+import type { IStorage } from "./storage";
+import { InterestService } from "./interestService";
+
+export class InterestAccrualScheduler {
+  private storage: IStorage;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Start the interest accrual scheduler
+   * Accrues interest on all active loans once per day
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('💰 Interest accrual scheduler is already running');
+      return;
+    }
+
+    console.log('💰 Starting interest accrual scheduler - running every 24 hours');
+    this.isRunning = true;
+
+    // Run immediately on start to catch up on any missed days
+    this.accrueAll();
+
+    // Then run every 24 hours (once per day)
+    this.intervalId = setInterval(() => {
+      this.accrueAll();
+    }, 24 * 60 * 60 * 1000); // 24 hours
+  }
+
+  /**
+   * Stop the interest accrual scheduler
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.isRunning = false;
+      console.log('💰 Interest accrual scheduler stopped');
+    }
+  }
+
+  /**
+   * Accrue interest up to today for every active loan in every organization
+   */
+  private async accrueAll(): Promise<void> {
+    try {
+      const accrualDate = InterestService.toDateString(new Date());
+      console.log(`💰 Accruing interest up to ${accrualDate}`);
+
+      const { organizations } = await import('@shared/schema');
+      const { db } = await import('./db');
+
+      const allOrganizations = await db
+        .select()
+        .from(organizations);
+
+      if (allOrganizations.length === 0) {
+        console.log('✅ No organizations found');
+        return;
+      }
+
+      let postedCount = 0;
+      for (const org of allOrganizations) {
+        try {
+          postedCount += await this.accrueOrganization(org.id, accrualDate);
+        } catch (error) {
+          console.error(`❌ Error accruing interest for org ${org.id}:`, error);
+          // Continue processing other organizations even if one fails
+        }
+      }
+
+      console.log(`✅ Finished interest accrual - ${postedCount} interest transaction(s) posted`);
+    } catch (error) {
+      console.error('❌ Error in interest accrual scheduler:', error);
+    }
+  }
+
+  /**
+   * Accrue interest for all active loans of a specific organization
+   */
+  private async accrueOrganization(organizationId: string, accrualDate: string): Promise<number> {
+    const activeLoans = await this.storage.getActiveLoansByUser(organizationId);
+
+    let postedCount = 0;
+    for (const loan of activeLoans) {
+      try {
+        // System postings are attributed to the loan owner for the audit trail
+        const posted = await this.storage.accrueInterest(loan.id, accrualDate, loan.userId);
+        postedCount += posted.length;
+      } catch (error) {
+        console.error(`❌ Error accruing interest for loan ${loan.id}:`, error);
+      }
+    }
+
+    return postedCount;
+  }
+}
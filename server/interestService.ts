@@ -0,0 +1,193 @@
+import type { Loan, InterestBasis } from '@shared/schema';
+
+export interface AccrualPeriod {
+  fromDate: string; // Inclusive
+  toDate: string; // Exclusive - becomes the new lastAccrualDate
+  days: number;
+  principal: number;
+  rate: number; // All-in annual rate in percent (SIBOR + margin)
+  basis: InterestBasis;
+  amount: number;
+}
+
+export interface PrincipalChange {
+  date: string; // Principal applies from this date onward
+  principal: number;
+}
+
+export interface RateChange {
+  date: string; // Rate applies from this date onward
+  rate: number; // All-in annual rate in percent
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export class InterestService {
+  /**
+   * Normalize a stored interestBasis value, defaulting to Actual/360 (SAIBOR market convention)
+   */
+  static normalizeBasis(basis: string | null | undefined): InterestBasis {
+    if (basis === 'actual_365' || basis === '30_360') {
+      return basis;
+    }
+    return 'actual_360';
+  }
+
+  /**
+   * Number of days between two YYYY-MM-DD dates under the given day-count convention
+   */
+  static dayCount(fromDate: string, toDate: string, basis: InterestBasis): number {
+    if (basis === '30_360') {
+      const [y1, m1, d1Raw] = fromDate.split('-').map(Number);
+      const [y2, m2, d2Raw] = toDate.split('-').map(Number);
+      const d1 = Math.min(d1Raw, 30);
+      const d2 = d2Raw === 31 && d1 === 30 ? 30 : d2Raw;
+      return 360 * (y2 - y1) + 30 * (m2 - m1) + (d2 - d1);
+    }
+
+    return Math.round((this.toUtc(toDate) - this.toUtc(fromDate)) / MS_PER_DAY);
+  }
+
+  /**
+   * Year fraction for a period under the given day-count convention
+   */
+  static yearFraction(fromDate: string, toDate: string, basis: InterestBasis): number {
+    const days = this.dayCount(fromDate, toDate, basis);
+    const daysInYear = basis === 'actual_365' ? 365 : 360;
+    return days / daysInYear;
+  }
+
+  /**
+   * Simple interest on a principal for a period
+   */
+  static calculateInterest(principal: number, ratePercent: number, fromDate: string, toDate: string, basis: InterestBasis): number {
+    if (principal <= 0 || ratePercent <= 0 || toDate <= fromDate) {
+      return 0;
+    }
+    return principal * (ratePercent / 100) * this.yearFraction(fromDate, toDate, basis);
+  }
+
+  /**
+   * Build the accrual periods for a loan from its last accrual date (or start date) up to toDate.
+   * Periods are split at month ends so every posted interest row falls inside a single calendar month,
+   * and at every principal change when a principal schedule from the ledger is supplied.
+   * Floating loans pass their rate schedule so each sub-period accrues at the rate fixed for it.
+   */
+  static buildAccrualPeriods(loan: Loan, toDate: string, principalSchedule?: PrincipalChange[], rateSchedule?: RateChange[]): AccrualPeriod[] {
+    if (loan.status === 'cancelled') {
+      return [];
+    }
+
+    const fromDate = loan.lastAccrualDate || loan.startDate;
+
+    // Interest stops running once the loan has been settled
+    let endDate = toDate;
+    if (loan.status === 'settled' && loan.settledDate && loan.settledDate < endDate) {
+      endDate = loan.settledDate;
+    }
+
+    if (endDate <= fromDate) {
+      return [];
+    }
+
+    const basis = this.normalizeBasis(loan.interestBasis);
+    const schedule = principalSchedule ?? [{ date: loan.startDate, principal: parseFloat(loan.amount) }];
+    const rates = rateSchedule && rateSchedule.length > 0
+      ? rateSchedule
+      : [{ date: loan.startDate, rate: parseFloat(loan.siborRate) + parseFloat(loan.margin) }];
+
+    const periods: AccrualPeriod[] = [];
+    let cursor = fromDate;
+    while (cursor < endDate) {
+      const nextMonth = this.firstDayOfNextMonth(cursor);
+      const nextChange = schedule.find(change => change.date > cursor)?.date;
+      const nextReset = rates.find(change => change.date > cursor)?.date;
+      let periodEnd = nextMonth < endDate ? nextMonth : endDate;
+      if (nextChange && nextChange < periodEnd) {
+        periodEnd = nextChange;
+      }
+      if (nextReset && nextReset < periodEnd) {
+        periodEnd = nextReset;
+      }
+
+      const principal = this.principalOn(schedule, cursor);
+      const rate = this.rateOn(rates, cursor);
+      const amount = this.roundAmount(this.calculateInterest(principal, rate, cursor, periodEnd, basis));
+
+      periods.push({
+        fromDate: cursor,
+        toDate: periodEnd,
+        days: this.dayCount(cursor, periodEnd, basis),
+        principal,
+        rate,
+        basis,
+        amount,
+      });
+
+      cursor = periodEnd;
+    }
+
+    return periods;
+  }
+
+  /**
+   * Deterministic idempotency key for an accrual period, so re-running accrual never double-posts
+   */
+  static accrualIdempotencyKey(loanId: string, period: Pick<AccrualPeriod, 'fromDate' | 'toDate'>): string {
+    return `INTEREST:${loanId}:${period.fromDate}:${period.toDate}`;
+  }
+
+  /**
+   * Interest is only accrued up to today; a later date would book interest that has not been earned yet
+   */
+  static assertAccrualDate(toDate: string, today: string = this.toDateString(new Date())): void {
+    if (toDate > today) {
+      throw new Error(`Interest cannot be accrued past today (${today})`);
+    }
+  }
+
+  static roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  static toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  /**
+   * Add calendar months, clamping to the end of shorter months (Jan 31 + 1M = Feb 28/29)
+   */
+  static addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const daysInTarget = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+    return this.toDateString(new Date(Date.UTC(year, month - 1 + months, Math.min(day, daysInTarget))));
+  }
+
+  private static principalOn(schedule: PrincipalChange[], date: string): number {
+    let principal = 0;
+    for (const change of schedule) {
+      if (change.date > date) break;
+      principal = change.principal;
+    }
+    return principal;
+  }
+
+  private static rateOn(schedule: RateChange[], date: string): number {
+    let rate = schedule[0].rate;
+    for (const change of schedule) {
+      if (change.date > date) break;
+      rate = change.rate;
+    }
+    return rate;
+  }
+
+  private static toUtc(date: string): number {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  }
+
+  private static firstDayOfNextMonth(date: string): string {
+    const [year, month] = date.split('-').map(Number);
+    return this.toDateString(new Date(Date.UTC(year, month, 1)));
+  }
+}
@@ -0,0 +1,97 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStorage } from './storage';
+import { LlmBudgetError, LlmClient, LlmError, MockLlmProvider } from './llmClient';
+
+const ORG = 'org-llm';
+
+const mockStorage = async (monthlyTokenLimit: number | null = null) => {
+  const storage = new MemoryStorage();
+  await storage.setLlmSettings(ORG, { provider: 'mock', monthlyTokenLimit }, 'user-1');
+  return storage;
+};
+
+const request = (content: string, json = false) => ({
+  feature: 'test',
+  organizationId: ORG,
+  userId: 'user-1',
+  messages: [{ role: 'user' as const, content }],
+  json,
+});
+
+afterEach(() => {
+  LlmClient.registerProvider(new MockLlmProvider());
+});
+
+test('mock provider echoes the question, answers JSON requests with an empty object and estimates tokens', async () => {
+  const provider = new MockLlmProvider();
+
+  const text = await provider.complete('mock-1', request('What is SAIBOR?'));
+  assert.equal(text.message.content, 'Mock response to: What is SAIBOR?');
+  assert.deepEqual(text.usage, { promptTokens: 4, completionTokens: 9, totalTokens: 13 });
+
+  const json = await provider.complete('mock-1', request('Extract the terms', true));
+  assert.equal(json.message.content, '{}');
+});
+
+test('mock provider answers with a scripted message', async () => {
+  const provider = new MockLlmProvider(() => ({
+    role: 'assistant',
+    content: null,
+    tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'getLoans', arguments: '{}' } }],
+  }));
+
+  const response = await provider.complete('mock-1', request('List my loans'));
+  assert.equal(response.message.tool_calls?.[0].function.name, 'getLoans');
+});
+
+test('uses the organization provider and records the usage of each call', async () => {
+  const storage = await mockStorage();
+
+  const completion = await LlmClient.complete(storage, request('Hello'));
+  assert.equal(completion.provider, 'mock');
+  assert.equal(completion.model, 'mock-1');
+  assert.equal(completion.attempts, 1);
+
+  const [usage] = await storage.getLlmUsageSummary(ORG, LlmClient.monthStart());
+  assert.equal(usage.calls, 1);
+  assert.equal(usage.failedCalls, 0);
+  assert.equal(usage.totalTokens, completion.usage.totalTokens);
+  assert.equal(await LlmClient.tokensUsedThisMonth(storage, ORG), completion.usage.totalTokens);
+});
+
+test('retries retryable errors and gives up on the others', async () => {
+  const storage = await mockStorage();
+
+  let calls = 0;
+  LlmClient.registerProvider(new MockLlmProvider(() => {
+    if (++calls === 1) throw new LlmError('rate limited', true, 429);
+    return 'answered';
+  }));
+  const completion = await LlmClient.complete(storage, request('Hello'));
+  assert.equal(completion.message.content, 'answered');
+  assert.equal(completion.attempts, 2);
+
+  calls = 0;
+  LlmClient.registerProvider(new MockLlmProvider(() => {
+    calls++;
+    throw new LlmError('invalid request', false, 400);
+  }));
+  await assert.rejects(LlmClient.complete(storage, request('Hello')), /invalid request/);
+  assert.equal(calls, 1);
+
+  const [usage] = await storage.getLlmUsageSummary(ORG, LlmClient.monthStart());
+  assert.equal(usage.calls, 2);
+  assert.equal(usage.failedCalls, 1);
+});
+
+test('refuses calls once the monthly token limit is used up', async () => {
+  const storage = await mockStorage(10);
+  LlmClient.registerProvider(new MockLlmProvider(() => 'x'.repeat(40)));
+
+  await LlmClient.complete(storage, request('Hello'));
+  await assert.rejects(LlmClient.complete(storage, request('Hello again')), LlmBudgetError);
+
+  const [usage] = await storage.getLlmUsageSummary(ORG, LlmClient.monthStart());
+  assert.equal(usage.calls, 1);
+});
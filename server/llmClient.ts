@@ -0,0 +1,353 @@
+import type { LlmFeature, LlmProviderName } from '@shared/schema';
+import type { IStorage } from './storage';
+import { config } from './config';
+
+export interface LlmToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_call_id?: string;
+  tool_calls?: LlmToolCall[];
+}
+
+export interface LlmTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+export interface LlmCompletionRequest {
+  feature: LlmFeature;
+  organizationId?: string | null; // Selects the organization's provider and model, and is charged the tokens
+  userId?: string | null;
+  messages: LlmMessage[];
+  tools?: LlmTool[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a single JSON object as the answer
+}
+
+export interface LlmTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmProviderResponse {
+  message: LlmMessage;
+  usage: LlmTokenUsage;
+}
+
+export interface LlmCompletion extends LlmProviderResponse {
+  provider: LlmProviderName;
+  model: string;
+  attempts: number;
+}
+
+/**
+ * One chat completions API. Adapters translate the request to the provider's wire format; retries,
+ * timeouts and accounting are done once by LlmClient.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  complete(model: string, request: LlmCompletionRequest, signal: AbortSignal): Promise<LlmProviderResponse>;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public retryable = false, public status?: number) {
+    super(message);
+    this.name = 'LlmError';
+    Object.setPrototypeOf(this, LlmError.prototype);
+  }
+}
+
+export class LlmBudgetError extends LlmError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmBudgetError';
+    Object.setPrototypeOf(this, LlmBudgetError.prototype);
+  }
+}
+
+/**
+ * Any endpoint speaking the OpenAI chat completions protocol
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  constructor(
+    readonly name: LlmProviderName,
+    private baseUrl: string,
+    private apiKey: () => string | undefined,
+    readonly defaultModel: string
+  ) {}
+
+  isConfigured(): boolean {
+    const key = this.apiKey();
+    return !!key && key !== 'default_key';
+  }
+
+  async complete(model: string, request: LlmCompletionRequest, signal: AbortSignal): Promise<LlmProviderResponse> {
+    if (!this.isConfigured()) {
+      throw new LlmError(`The ${this.name} provider is not configured`);
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey()}`
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        tools: request.tools?.length ? request.tools : undefined,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LlmError(
+        `${this.name} API error: ${response.status} ${response.statusText}${detail ? ` - ${detail.slice(0, 200)}` : ''}`,
+        response.status === 429 || response.status >= 500,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    if (!message) {
+      throw new LlmError(`${this.name} API returned no message`, true);
+    }
+
+    return {
+      message: {
+        role: 'assistant',
+        content: message.content ?? null,
+        tool_calls: message.tool_calls?.length ? message.tool_calls : undefined,
+      },
+      usage: {
+        promptTokens: data.usage?.prompt_tokens ?? 0,
+        completionTokens: data.usage?.completion_tokens ?? 0,
+        totalTokens: data.usage?.total_tokens ?? (data.usage?.prompt_tokens ?? 0) + (data.usage?.completion_tokens ?? 0),
+      },
+    };
+  }
+}
+
+export class DeepSeekProvider extends OpenAICompatibleProvider {
+  constructor() {
+    super('deepseek', 'https://api.deepseek.com/v1', () => config.get('DEEPSEEK_API_KEY'), 'deepseek-chat');
+  }
+}
+
+export type MockResponder = (request: LlmCompletionRequest) => string | LlmMessage;
+
+/**
+ * Deterministic local provider for tests and development. By default it answers JSON requests with
+ * an empty object and echoes the last user message otherwise; tests pass their own responder.
+ * Tokens are estimated at four characters per token.
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly name = 'mock' as const;
+  readonly defaultModel = 'mock-1';
+
+  constructor(private responder?: MockResponder) {}
+
+  isConfigured(): boolean {
+    return !config.isProduction();
+  }
+
+  async complete(_model: string, request: LlmCompletionRequest): Promise<LlmProviderResponse> {
+    const answer = this.responder ? this.responder(request) : MockLlmProvider.defaultAnswer(request);
+    const message: LlmMessage = typeof answer === 'string' ? { role: 'assistant', content: answer } : answer;
+
+    const promptTokens = MockLlmProvider.estimateTokens(request.messages.map(m => m.content ?? '').join('\n'));
+    const completionTokens = MockLlmProvider.estimateTokens((message.content ?? '') + JSON.stringify(message.tool_calls ?? []));
+    return { message, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } };
+  }
+
+  private static defaultAnswer(request: LlmCompletionRequest): string {
+    if (request.json) return '{}';
+    const question = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    return `Mock response to: ${question.slice(0, 200)}`;
+  }
+
+  private static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
+
+interface ResolvedModel {
+  provider: LlmProvider;
+  model: string;
+  monthlyTokenLimit: number | null;
+}
+
+const BACKOFF_MS = 500;
+
+/**
+ * Every AI feature calls a language model through here. The organization's saved selection picks the
+ * provider and model (falling back to LLM_PROVIDER / LLM_MODEL), calls are retried with backoff on
+ * rate limits, server errors and timeouts, and every call is recorded against the organization.
+ */
+export class LlmClient {
+  private static providers: Record<LlmProviderName, LlmProvider> = {
+    openai: new OpenAICompatibleProvider('openai', config.get('OPENAI_BASE_URL'), () => config.get('OPENAI_API_KEY'), 'gpt-4o-mini'),
+    deepseek: new DeepSeekProvider(),
+    mock: new MockLlmProvider(),
+  };
+
+  /**
+   * Replace the adapter of a provider, e.g. a scripted MockLlmProvider in tests
+   */
+  static registerProvider(provider: LlmProvider): void {
+    this.providers[provider.name] = provider;
+  }
+
+  static provider(name: LlmProviderName): LlmProvider {
+    return this.providers[name];
+  }
+
+  /**
+   * Providers an organization can choose from, with whether the server holds credentials for them
+   */
+  static providerOptions(): Array<{ name: LlmProviderName; defaultModel: string; configured: boolean }> {
+    return Object.values(this.providers).map(provider => ({
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      configured: provider.isConfigured(),
+    }));
+  }
+
+  /**
+   * Provider and model used by organizations without their own selection
+   */
+  static defaultSelection(): { provider: LlmProviderName; model: string } {
+    const provider = config.get('LLM_PROVIDER');
+    return { provider, model: config.get('LLM_MODEL') || this.providers[provider].defaultModel };
+  }
+
+  static async resolve(storage: IStorage, organizationId?: string | null): Promise<ResolvedModel> {
+    const settings = organizationId ? await storage.getLlmSettings(organizationId) : undefined;
+    const name = (settings?.provider as LlmProviderName | undefined) ?? config.get('LLM_PROVIDER');
+    const provider = this.providers[name];
+    const configuredModel = name === config.get('LLM_PROVIDER') ? config.get('LLM_MODEL') : undefined;
+    return {
+      provider,
+      model: settings?.model || configuredModel || provider.defaultModel,
+      monthlyTokenLimit: settings?.monthlyTokenLimit ?? null,
+    };
+  }
+
+  /**
+   * Whether the organization's provider can be called, so features can fall back to their default
+   * behaviour instead of failing
+   */
+  static async isAvailable(storage: IStorage, organizationId?: string | null): Promise<boolean> {
+    const { provider } = await this.resolve(storage, organizationId);
+    return provider.isConfigured();
+  }
+
+  static monthStart(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+
+  static async tokensUsedThisMonth(storage: IStorage, organizationId: string): Promise<number> {
+    const summary = await storage.getLlmUsageSummary(organizationId, this.monthStart());
+    return summary.reduce((sum, row) => sum + row.totalTokens, 0);
+  }
+
+  static async complete(storage: IStorage, request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const { provider, model, monthlyTokenLimit } = await this.resolve(storage, request.organizationId);
+    if (!provider.isConfigured()) {
+      throw new LlmError(`The ${provider.name} provider is not configured`);
+    }
+    if (request.organizationId && monthlyTokenLimit !== null) {
+      const used = await this.tokensUsedThisMonth(storage, request.organizationId);
+      if (used >= monthlyTokenLimit) {
+        throw new LlmBudgetError(`The monthly AI token limit of ${monthlyTokenLimit.toLocaleString()} tokens has been reached`);
+      }
+    }
+
+    const maxAttempts = Math.max(1, config.get('LLM_MAX_RETRIES') + 1);
+    const timeoutMs = config.get('LLM_TIMEOUT_MS');
+    const started = Date.now();
+    let attempts = 0;
+    let lastError: unknown;
+
+    while (attempts < maxAttempts) {
+      attempts++;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await provider.complete(model, request, controller.signal);
+        await this.record(storage, request, provider.name, model, response.usage, attempts, started, true);
+        return { ...response, provider: provider.name, model, attempts };
+      } catch (error) {
+        lastError = controller.signal.aborted
+          ? new LlmError(`${provider.name} did not answer within ${timeoutMs} ms`, true)
+          : error instanceof LlmError ? error : new LlmError(error instanceof Error ? error.message : String(error), true);
+        if (!(lastError as LlmError).retryable || attempts >= maxAttempts) break;
+        await new Promise(resolve => setTimeout(resolve, BACKOFF_MS * 2 ** (attempts - 1)));
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    await this.record(storage, request, provider.name, model, { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, attempts, started, false);
+    throw lastError;
+  }
+
+  /**
+   * Text of the answer, for callers that do not use tools
+   */
+  static async completeText(storage: IStorage, request: LlmCompletionRequest): Promise<string> {
+    const completion = await this.complete(storage, request);
+    return completion.message.content ?? '';
+  }
+
+  private static async record(
+    storage: IStorage,
+    request: LlmCompletionRequest,
+    provider: LlmProviderName,
+    model: string,
+    usage: LlmTokenUsage,
+    attempts: number,
+    started: number,
+    succeeded: boolean
+  ): Promise<void> {
+    try {
+      await storage.recordLlmUsage({
+        organizationId: request.organizationId ?? null,
+        userId: request.userId ?? null,
+        feature: request.feature,
+        provider,
+        model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+        attempts,
+        latencyMs: Date.now() - started,
+        succeeded,
+      });
+    } catch (error) {
+      console.error('Error recording LLM usage:', error);
+    }
+  }
+}
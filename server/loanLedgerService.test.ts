@@ -0,0 +1,179 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Loan, Transaction } from '@shared/schema';
+import { InterestService } from './interestService';
+import { LoanLedgerError, LoanLedgerService } from './loanLedgerService';
+
+const loan = {
+  id: 'loan-1',
+  userId: 'user-1',
+  facilityId: 'facility-1',
+  referenceNumber: 'LN-1',
+  amount: '1000000.00',
+  startDate: '2026-01-15',
+  dueDate: '2026-12-15',
+  siborRate: '5.00',
+  margin: '1.00',
+  bankRate: '6.00',
+  interestBasis: 'actual_360',
+  lastAccrualDate: null,
+  status: 'active',
+  settledDate: null,
+  createdAt: new Date('2026-01-15T08:00:00Z'),
+} as Loan;
+
+let sequence = 0;
+const entry = (type: Transaction['type'], amount: number, date: string, extra: Partial<Transaction> = {}): Transaction => ({
+  id: `tx-${++sequence}`,
+  userId: 'user-1',
+  loanId: loan.id,
+  facilityId: loan.facilityId,
+  bankId: 'bank-1',
+  type,
+  amount: amount.toFixed(2),
+  date,
+  reference: null,
+  memo: null,
+  allocation: null,
+  createdBy: 'user-1',
+  idempotencyKey: null,
+  notes: null,
+  createdAt: new Date(`${date}T12:00:00Z`),
+  ...extra,
+});
+
+const draw = () => entry('draw', 1000000, '2026-01-15', { idempotencyKey: `DRAW:${loan.id}`, allocation: { principal: 1000000 } });
+
+test('a loan without draw postings starts from its face amount on the start date', () => {
+  assert.equal(LoanLedgerService.calculateBalance(loan, [], '2026-01-14').total, 0);
+  assert.deepEqual(LoanLedgerService.calculateBalance(loan, [], '2026-01-15'), {
+    asOf: '2026-01-15', principal: 1000000, interest: 0, fees: 0, total: 1000000,
+  });
+});
+
+test('repayments without an allocation pay fees, then interest, then principal', () => {
+  const ledger = [
+    draw(),
+    entry('interest', 5000, '2026-02-01'),
+    entry('fee', 250, '2026-02-01'),
+    entry('repayment', 105250, '2026-02-01'),
+  ];
+
+  assert.deepEqual(LoanLedgerService.calculateBalance(loan, ledger, '2026-02-01'), {
+    asOf: '2026-02-01', principal: 900000, interest: 0, fees: 0, total: 900000,
+  });
+  // Entries after asOf are left out
+  assert.equal(LoanLedgerService.calculateBalance(loan, ledger, '2026-01-31').total, 1000000);
+});
+
+test('charges are applied before a repayment on the same day whatever order they were posted in', () => {
+  const repayment = entry('repayment', 3000, '2026-02-01', { createdAt: new Date('2026-02-01T08:00:00Z') });
+  const interest = entry('interest', 3000, '2026-02-01', { createdAt: new Date('2026-02-01T18:00:00Z') });
+
+  const balance = LoanLedgerService.calculateBalance(loan, [draw(), repayment, interest], '2026-02-01');
+  assert.equal(balance.interest, 0);
+  assert.equal(balance.principal, 1000000);
+});
+
+test('allocated repayments, settlements and voids move the components they name', () => {
+  const allocated = entry('repayment', 250000, '2026-03-01', { allocation: { principal: 250000, interest: 0, fees: 0 } });
+  const voided = entry('repayment', 100000, '2026-03-02');
+  const voids = entry('void', 100000, '2026-03-03', { reference: voided.id });
+  const ledger = [draw(), entry('interest', 4000, '2026-02-28'), allocated, voided, voids];
+
+  assert.deepEqual(LoanLedgerService.calculateBalance(loan, ledger, '2026-03-02'), {
+    asOf: '2026-03-02', principal: 654000, interest: 0, fees: 0, total: 654000,
+  });
+  // The void takes effect from its own date
+  assert.equal(LoanLedgerService.calculateBalance(loan, ledger, '2026-03-03').total, 754000);
+
+  const settled = [...ledger, entry('repayment', 1, '2026-03-04', { allocation: { settlement: 1 } })];
+  assert.equal(LoanLedgerService.calculateBalance(loan, settled, '2026-03-04').total, 0);
+});
+
+test('principal schedule holds the principal after each day of postings', () => {
+  const ledger = [
+    draw(),
+    entry('repayment', 400000, '2026-02-10', { allocation: { principal: 400000 } }),
+    entry('interest', 2500, '2026-02-10'),
+    entry('draw', 50000, '2026-03-05'),
+  ];
+
+  assert.deepEqual(LoanLedgerService.principalSchedule(loan, ledger, '2026-12-31'), [
+    { date: '2026-01-15', principal: 1000000 },
+    { date: '2026-02-10', principal: 600000 },
+    { date: '2026-03-05', principal: 650000 },
+  ]);
+});
+
+test('interest accrues on the drawn balance, split at month ends and principal changes', () => {
+  const ledger = [draw(), entry('repayment', 400000, '2026-02-10', { allocation: { principal: 400000 } })];
+  const schedule = LoanLedgerService.principalSchedule(loan, ledger, '2026-03-01');
+  const periods = InterestService.buildAccrualPeriods(loan, '2026-03-01', schedule);
+
+  assert.deepEqual(periods.map(p => [p.fromDate, p.toDate, p.days, p.principal, p.amount]), [
+    ['2026-01-15', '2026-02-01', 17, 1000000, 2833.33],
+    ['2026-02-01', '2026-02-10', 9, 1000000, 1500],
+    ['2026-02-10', '2026-03-01', 19, 600000, 1900],
+  ]);
+});
+
+test('a settlement for less than the balance pays charges first and writes off the rest', () => {
+  const balance = { asOf: '2026-03-01', principal: 1000000, interest: 6000, fees: 500, total: 1006500 };
+
+  assert.deepEqual(LoanLedgerService.settlementSplit(balance, 950000), {
+    paid: { principal: 943500, interest: 6000, fees: 500 },
+    writtenOff: { principal: 56500, interest: 0, fees: 0 },
+  });
+  assert.deepEqual(LoanLedgerService.settlementSplit(balance, 3000), {
+    paid: { principal: 0, interest: 2500, fees: 500 },
+    writtenOff: { principal: 1000000, interest: 3500, fees: 0 },
+  });
+});
+
+test('write-offs clear the balance without counting as paid', () => {
+  const ledger = [
+    draw(),
+    entry('interest', 6000, '2026-03-01'),
+    entry('repayment', 950000, '2026-03-01', { allocation: { principal: 944000, interest: 6000, fees: 0 } }),
+    entry('write_off', 56000, '2026-03-01', { allocation: { principal: 56000, interest: 0, fees: 0 } }),
+  ];
+
+  assert.equal(LoanLedgerService.calculateBalance(loan, ledger, '2026-03-01').total, 0);
+  assert.deepEqual(LoanLedgerService.movements(loan, ledger, '2026-03-01'), {
+    drawn: 1000000,
+    interestCharged: 6000,
+    feesCharged: 0,
+    repaid: 950000,
+    principalPaid: 944000,
+    interestPaid: 6000,
+    feesPaid: 0,
+    writtenOff: 56000,
+  });
+});
+
+test('reversing a settlement voids the entries it posted and no others', () => {
+  const settledLoan = { ...loan, status: 'settled', settledDate: '2026-03-01' } as Loan;
+  const repayment = entry('repayment', 950000, '2026-03-01', { idempotencyKey: `SETTLE:${loan.id}:2026-03-01` });
+  const writeOff = entry('write_off', 50000, '2026-03-01', { idempotencyKey: `WRITEOFF:${loan.id}:2026-03-01` });
+  const earlier = entry('repayment', 1000, '2026-02-01', { idempotencyKey: `SETTLE:${loan.id}:2026-02-01` });
+
+  assert.deepEqual(LoanLedgerService.settlementEntries(settledLoan, [draw(), earlier, repayment, writeOff]), [repayment, writeOff]);
+  assert.deepEqual(
+    LoanLedgerService.settlementEntries(settledLoan, [draw(), repayment, writeOff, entry('void', 50000, '2026-03-01', { reference: writeOff.id })]),
+    [repayment]
+  );
+});
+
+test('the draw follows edits of the amount and start date until anything else is posted', () => {
+  const drawEntry = draw();
+  const edited = { ...loan, amount: '1200000.00' } as Loan;
+
+  assert.equal(LoanLedgerService.drawToRewrite(loan, { ...loan, dueDate: '2027-01-15' } as Loan, [drawEntry], new Set()), undefined);
+  assert.equal(LoanLedgerService.drawToRewrite(loan, edited, [drawEntry], new Set()), drawEntry);
+  assert.throws(
+    () => LoanLedgerService.drawToRewrite(loan, edited, [drawEntry, entry('interest', 100, '2026-02-01')], new Set()),
+    LoanLedgerError
+  );
+  assert.throws(() => LoanLedgerService.drawToRewrite(loan, edited, [drawEntry], new Set([drawEntry.id])), /exported to the GL/);
+});
@@ -0,0 +1,299 @@
+import type { Loan, Transaction } from '@shared/schema';
+import type { LoanBalance } from '@shared/types';
+import { InterestService, type PrincipalChange } from './interestService';
+
+interface LedgerComponents {
+  principal: number;
+  interest: number;
+  fees: number;
+}
+
+/** What a settlement pays of each balance component and what it writes off */
+export interface SettlementSplit {
+  paid: LedgerComponents;
+  writtenOff: LedgerComponents;
+}
+
+/** Ledger totals of a loan as replayed, with paid and written-off amounts per component */
+export interface LedgerMovements {
+  drawn: number;
+  interestCharged: number;
+  feesCharged: number;
+  repaid: number;
+  principalPaid: number;
+  interestPaid: number;
+  feesPaid: number;
+  writtenOff: number;
+}
+
+// Same-day ordering: charges are posted before the repayments that pay them
+const TYPE_ORDER: Record<string, number> = {
+  draw: 0,
+  interest: 1,
+  fee: 1,
+  repayment: 2,
+  write_off: 2,
+};
+
+export class LoanLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoanLedgerError';
+    Object.setPrototypeOf(this, LoanLedgerError.prototype);
+  }
+}
+
+export class LoanLedgerService {
+  /**
+   * Replay a loan's transactions up to and including asOf and return the outstanding balance.
+   *
+   * - draw: increases principal. Loans without any draw posting use loan.amount drawn on startDate.
+   * - interest / fee: increase accrued interest / fees.
+   * - repayment: reduces components per its allocation ({ principal, interest, fees }).
+   *   A settlement allocation clears the balance in full; without an allocation the payment
+   *   is applied fees first, then interest, then principal.
+   * - write_off: reduces components per its allocation without any cash being paid.
+   * - void: cancels the transaction whose id is in its reference.
+   */
+  static calculateBalance(loan: Loan, ledger: Transaction[], asOf: string): LoanBalance {
+    const balance: LedgerComponents = { principal: 0, interest: 0, fees: 0 };
+
+    this.replay(loan, ledger, asOf, (entry) => this.applyEntry(balance, entry));
+
+    const principal = InterestService.roundAmount(Math.max(0, balance.principal));
+    const interest = InterestService.roundAmount(Math.max(0, balance.interest));
+    const fees = InterestService.roundAmount(Math.max(0, balance.fees));
+
+    return {
+      asOf,
+      principal,
+      interest,
+      fees,
+      total: InterestService.roundAmount(principal + interest + fees),
+    };
+  }
+
+  /**
+   * Outstanding principal over time, used to accrue interest on the actual drawn balance.
+   * Each entry holds the principal after all postings on that date.
+   */
+  static principalSchedule(loan: Loan, ledger: Transaction[], asOf: string): PrincipalChange[] {
+    const balance: LedgerComponents = { principal: 0, interest: 0, fees: 0 };
+    const schedule: PrincipalChange[] = [];
+
+    this.replay(loan, ledger, asOf, (entry) => {
+      this.applyEntry(balance, entry);
+      const principal = Math.max(0, balance.principal);
+      const last = schedule[schedule.length - 1];
+
+      if (last && last.date === entry.date) {
+        last.principal = principal;
+      } else if (!last || last.principal !== principal) {
+        schedule.push({ date: entry.date, principal });
+      }
+    });
+
+    return schedule;
+  }
+
+  /**
+   * Draws, charges and what repayments and write-offs took off each component, replayed up to
+   * and including asOf so voided entries and settlements count the same way they do in the balance.
+   */
+  static movements(loan: Loan, ledger: Transaction[], asOf: string): LedgerMovements {
+    const balance: LedgerComponents = { principal: 0, interest: 0, fees: 0 };
+    const movements: LedgerMovements = {
+      drawn: 0,
+      interestCharged: 0,
+      feesCharged: 0,
+      repaid: 0,
+      principalPaid: 0,
+      interestPaid: 0,
+      feesPaid: 0,
+      writtenOff: 0,
+    };
+
+    this.replay(loan, ledger, asOf, (entry) => {
+      const before = { ...balance };
+      this.applyEntry(balance, entry);
+      const amount = parseFloat(entry.amount);
+
+      switch (entry.type) {
+        case 'draw':
+          movements.drawn += amount;
+          break;
+        case 'interest':
+          movements.interestCharged += amount;
+          break;
+        case 'fee':
+          movements.feesCharged += amount;
+          break;
+        case 'repayment':
+          movements.repaid += amount;
+          movements.principalPaid += before.principal - balance.principal;
+          movements.interestPaid += before.interest - balance.interest;
+          movements.feesPaid += before.fees - balance.fees;
+          break;
+        case 'write_off':
+          movements.writtenOff += amount;
+          break;
+      }
+    });
+
+    for (const key of Object.keys(movements) as (keyof LedgerMovements)[]) {
+      movements[key] = InterestService.roundAmount(movements[key]);
+    }
+    return movements;
+  }
+
+  /**
+   * Split a settlement for the given amount over the balance it settles. The amount pays fees,
+   * then interest, then principal (anything over the balance goes to principal); whatever of the
+   * balance it leaves unpaid is written off.
+   */
+  static settlementSplit(balance: LoanBalance, amount: number): SettlementSplit {
+    let remaining = amount;
+    const fees = Math.min(remaining, balance.fees);
+    remaining -= fees;
+    const interest = Math.min(remaining, balance.interest);
+    remaining -= interest;
+    const principal = InterestService.roundAmount(remaining);
+
+    return {
+      paid: { principal, interest: InterestService.roundAmount(interest), fees: InterestService.roundAmount(fees) },
+      writtenOff: {
+        principal: InterestService.roundAmount(Math.max(0, balance.principal - principal)),
+        interest: InterestService.roundAmount(balance.interest - interest),
+        fees: InterestService.roundAmount(balance.fees - fees),
+      },
+    };
+  }
+
+  /**
+   * The repayment and write-off a settlement posted, which reversing the settlement voids.
+   * Entries that are already voided are left out.
+   */
+  static settlementEntries(loan: Loan, ledger: Transaction[]): Transaction[] {
+    const keys = [`SETTLE:${loan.id}:${loan.settledDate}`, `WRITEOFF:${loan.id}:${loan.settledDate}`];
+    const voidedIds = new Set(ledger.filter(t => t.type === 'void').map(t => t.reference));
+    return ledger.filter(t => t.idempotencyKey !== null && keys.includes(t.idempotencyKey) && !voidedIds.has(t.id));
+  }
+
+  /**
+   * The draw posting an edit of the loan's amount or start date has to rewrite, or undefined when
+   * neither changes or the loan has no draw posting (its opening draw follows the loan row).
+   * Interest, repayments and GL exports were worked out from the old draw, so once there are any
+   * the amount and start date are fixed.
+   */
+  static drawToRewrite(previous: Loan, updated: Loan, ledger: Transaction[], exportedIds: Set<string>): Transaction | undefined {
+    if (parseFloat(previous.amount) === parseFloat(updated.amount) && previous.startDate === updated.startDate) {
+      return undefined;
+    }
+
+    const draw = ledger.find(t => t.idempotencyKey === `DRAW:${previous.id}`);
+    if (ledger.some(t => t !== draw)) {
+      throw new LoanLedgerError('The amount and start date cannot be changed once the loan has interest, repayments or other postings');
+    }
+    if (draw && exportedIds.has(draw.id)) {
+      throw new LoanLedgerError('The amount and start date cannot be changed once the drawdown has been exported to the GL');
+    }
+    return draw;
+  }
+
+  private static replay(loan: Loan, ledger: Transaction[], asOf: string, apply: (entry: Transaction) => void): void {
+    const voidedIds = new Set(
+      ledger
+        .filter(t => t.type === 'void' && t.date <= asOf && t.reference)
+        .map(t => t.reference as string)
+    );
+
+    const entries = ledger
+      .filter(t => t.type !== 'void' && t.date <= asOf && !voidedIds.has(t.id))
+      .sort((a, b) => {
+        if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+        const orderDiff = (TYPE_ORDER[a.type] ?? 3) - (TYPE_ORDER[b.type] ?? 3);
+        if (orderDiff !== 0) return orderDiff;
+        return new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime();
+      });
+
+    // Loans created before draws were posted to the ledger start from their face amount
+    const hasDraws = ledger.some(t => t.type === 'draw');
+    if (!hasDraws && loan.startDate <= asOf) {
+      apply(this.openingDraw(loan));
+    }
+
+    entries.forEach(apply);
+  }
+
+  private static applyEntry(balance: LedgerComponents, entry: Transaction): void {
+    const amount = parseFloat(entry.amount);
+
+    switch (entry.type) {
+      case 'draw':
+        balance.principal += amount;
+        break;
+      case 'interest':
+        balance.interest += amount;
+        break;
+      case 'fee':
+        balance.fees += amount;
+        break;
+      case 'repayment':
+      case 'write_off':
+        this.applyRepayment(balance, amount, entry.allocation as Record<string, unknown> | null);
+        break;
+      default:
+        // limit_change and other entries do not move the loan balance
+        break;
+    }
+  }
+
+  private static applyRepayment(balance: LedgerComponents, amount: number, allocation: Record<string, unknown> | null): void {
+    if (allocation && typeof allocation === 'object') {
+      if ('settlement' in allocation) {
+        balance.principal = 0;
+        balance.interest = 0;
+        balance.fees = 0;
+        return;
+      }
+
+      if ('principal' in allocation || 'interest' in allocation || 'fees' in allocation) {
+        balance.principal -= Number(allocation.principal ?? 0);
+        balance.interest -= Number(allocation.interest ?? 0);
+        balance.fees -= Number(allocation.fees ?? 0);
+        return;
+      }
+    }
+
+    let remaining = amount;
+    const toFees = Math.min(remaining, Math.max(0, balance.fees));
+    balance.fees -= toFees;
+    remaining -= toFees;
+
+    const toInterest = Math.min(remaining, Math.max(0, balance.interest));
+    balance.interest -= toInterest;
+    remaining -= toInterest;
+
+    balance.principal -= remaining;
+  }
+
+  private static openingDraw(loan: Loan): Transaction {
+    return {
+      id: `opening-${loan.id}`,
+      userId: loan.userId,
+      loanId: loan.id,
+      facilityId: loan.facilityId,
+      bankId: '',
+      type: 'draw',
+      amount: loan.amount,
+      date: loan.startDate,
+      reference: loan.referenceNumber,
+      memo: null,
+      allocation: null,
+      createdBy: loan.userId,
+      idempotencyKey: null,
+      notes: null,
+      createdAt: loan.createdAt,
+    };
+  }
+}
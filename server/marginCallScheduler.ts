@@ -0,0 +1,117 @@
+import type { IStorage } from "./storage";
+import { hasPermission, memberRole } from "@shared/permissions";
+import { InterestService } from "./interestService";
+import { MarginCallService, MARGIN_CALL_REMINDER_LEVELS } from "./marginCallService";
+import { sendMarginCallReminder } from "./emailService";
+
+export class MarginCallScheduler {
+  private storage: IStorage;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Start the margin call scheduler
+   * Opens and cures margin calls on the day's LTV and sends escalating reminders once per day
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('📉 Margin call scheduler is already running');
+      return;
+    }
+
+    console.log('📉 Starting margin call scheduler - running every 24 hours');
+    this.isRunning = true;
+
+    // Run immediately on start to catch breaches that arose while the server was down
+    this.processAll();
+
+    // Then run every 24 hours (once per day)
+    this.intervalId = setInterval(() => {
+      this.processAll();
+    }, 24 * 60 * 60 * 1000); // 24 hours
+  }
+
+  /**
+   * Stop the margin call scheduler
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.isRunning = false;
+      console.log('📉 Margin call scheduler stopped');
+    }
+  }
+
+  /**
+   * Check the LTV of every organization's banks and facilities and remind on open calls
+   */
+  private async processAll(): Promise<void> {
+    try {
+      const today = InterestService.toDateString(new Date());
+      const { organizations } = await import('@shared/schema');
+      const { db } = await import('./db');
+
+      const allOrganizations = await db
+        .select()
+        .from(organizations);
+
+      let openedCount = 0;
+      let curedCount = 0;
+      for (const org of allOrganizations) {
+        try {
+          const result = await MarginCallService.check(this.storage, org.id, today);
+          openedCount += result.opened.length;
+          curedCount += result.cured.length;
+          await this.sendReminders(org.id, today);
+        } catch (error) {
+          console.error(`❌ Error checking margin calls for org ${org.id}:`, error);
+          // Continue processing other organizations even if one fails
+        }
+      }
+
+      console.log(`✅ Margin calls checked: ${openedCount} opened, ${curedCount} cured`);
+    } catch (error) {
+      console.error('❌ Error in margin call scheduler:', error);
+    }
+  }
+
+  /**
+   * Email the members who manage collateral at each new reminder level; overdue calls are
+   * escalated to the members who manage the organization as well
+   */
+  private async sendReminders(organizationId: string, today: string): Promise<void> {
+    const openCalls = await this.storage.getMarginCalls(organizationId, { status: 'open' });
+    const due = MarginCallService.remindersDue(openCalls, today);
+    if (due.length === 0) return;
+
+    const members = await this.storage.getOrganizationMembers(organizationId);
+    const details = await MarginCallService.details(this.storage, organizationId, due.map(d => d.call), today);
+
+    for (const { call, level } of due) {
+      const detail = details.find(d => d.id === call.id)!;
+      const recipients = members.filter(m => m.user.email && (
+        hasPermission(memberRole(m), 'collateral', 'write')
+        || (level === 4 && hasPermission(memberRole(m), 'organization', 'write'))
+      ));
+
+      for (const member of recipients) {
+        await sendMarginCallReminder(member.user.email!, {
+          scopeName: detail.facilityName ?? detail.bankName,
+          currentLtv: call.currentLtv,
+          targetLtv: call.targetLtv,
+          currentShortfall: call.currentShortfall,
+          cureDeadline: call.cureDeadline,
+        }, MARGIN_CALL_REMINDER_LEVELS[level], detail.daysToDeadline);
+      }
+      await this.storage.updateMarginCall(call.id, organizationId, {
+        reminderLevel: level,
+        lastReminderDate: today,
+      });
+    }
+  }
+}
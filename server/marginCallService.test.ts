@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Collateral, MarginCall } from '@shared/schema';
+import { MarginCallService, type MarginCallInput } from './marginCallService';
+
+const collateral = (currentValue: string, isActive = true) => ({ currentValue, isActive });
+
+const input: MarginCallInput = {
+  banks: [
+    { id: 'bank-1', name: 'Riyad Bank', targetLtv: '70.00' },
+    { id: 'bank-2', name: 'Saudi National Bank', targetLtv: null },
+  ],
+  facilities: [
+    { id: 'fac-a', bankId: 'bank-1', name: 'Riyad Bank - term' },
+    { id: 'fac-b', bankId: 'bank-1', name: 'Riyad Bank - revolving' },
+    { id: 'fac-c', bankId: 'bank-2', name: 'SNB - term' },
+    { id: 'fac-d', bankId: 'bank-2', name: 'SNB - revolving' },
+  ],
+  outstandingByFacility: new Map([['fac-a', 800000], ['fac-b', 300000], ['fac-c', 500000]]),
+  assignments: [
+    { bankId: null, facilityId: 'fac-a', pledgedValue: null, advanceRate: '60.00', collateral: collateral('1000000.00') },
+    // Listed shares pledged to a credit line count at their value after the haircut
+    { bankId: null, facilityId: null, pledgedValue: '400000.00', advanceRate: null, collateral: collateral('500000.00'), creditLine: { facilityId: 'fac-b' } },
+    { bankId: null, facilityId: 'fac-c', pledgedValue: null, advanceRate: null, collateral: collateral('9000000.00', false) },
+    { bankId: 'bank-2', facilityId: null, pledgedValue: null, advanceRate: null, collateral: collateral('1000000.00') },
+  ],
+};
+
+let sequence = 0;
+const call = (bankId: string, facilityId: string | null, cureDeadline: string, extra: Partial<MarginCall> = {}) => ({
+  id: `call-${++sequence}`,
+  organizationId: 'org-1',
+  bankId,
+  facilityId,
+  status: 'open',
+  openedDate: '2026-03-05',
+  cureDeadline,
+  reminderLevel: 1,
+  ...extra,
+}) as MarginCall;
+
+test('LTV is measured per bank and per facility against the lending value of the pledges', () => {
+  const scopes = MarginCallService.ltvScopes(input);
+
+  assert.deepEqual(scopes.map(s => [s.scope, s.facilityId ?? s.bankId, s.ltv, s.targetLtv, s.pledgedValue, s.shortfall, s.paydown, s.breached]), [
+    ['bank', 'bank-1', 78.57, 70, 1400000, 171428.57, 120000, true],
+    ['bank', 'bank-2', 50, 70, 1000000, 0, 0, false],
+    ['facility', 'fac-a', 80, 60, 1000000, 333333.33, 200000, true],
+    ['facility', 'fac-b', 75, 70, 400000, 28571.43, 20000, true],
+    // Unsecured lending cannot breach; a facility with neither lending nor pledges is left out
+    ['facility', 'fac-c', null, 70, 0, 714285.71, 500000, false],
+  ]);
+  assert.deepEqual(MarginCallService.detectBreaches(input).map(s => s.facilityId ?? s.bankId), ['bank-1', 'fac-a', 'fac-b']);
+});
+
+test('a call can be cured by topping up, paying down or pledging the largest unencumbered collateral first', () => {
+  const open = call('bank-1', null, '2026-03-10', {
+    currentShortfall: '171428.57', outstanding: '1100000.00', pledgedValue: '1400000.00', targetLtv: '70.00',
+  });
+  const cures = MarginCallService.cures(open, [
+    { id: 'villa', name: 'Villa', value: 100000 },
+    { id: 'shares', name: 'Shares', value: 150000 },
+    { id: 'land', name: 'Land', value: 50000 },
+  ]);
+
+  assert.deepEqual(cures.map(c => [c.type, c.amount]), [
+    ['top_up', 171428.57],
+    ['paydown', 120000],
+    ['reassignment', 150000],
+    ['reassignment', 100000],
+  ]);
+  assert.equal(cures[0].description, 'Pledge additional collateral worth SAR 171,428.57 after haircuts');
+});
+
+test('only active collateral that secures nothing counts as unencumbered, after its haircut', () => {
+  const items = [
+    { id: 'c1', name: 'Shares', currentValue: '1000000.00', haircutPercent: '20.00', isActive: true },
+    { id: 'c2', name: 'Land', currentValue: '500000.00', haircutPercent: null, isActive: true },
+    { id: 'c3', name: 'Villa', currentValue: '300000.00', haircutPercent: null, isActive: true },
+    { id: 'c4', name: 'Sold', currentValue: '100000.00', haircutPercent: null, isActive: false },
+  ] as Collateral[];
+
+  assert.deepEqual(MarginCallService.unencumberedCollateral(items, [{ collateralId: 'c3' }]), [
+    { id: 'c1', name: 'Shares', value: 800000 },
+    { id: 'c2', name: 'Land', value: 500000 },
+  ]);
+});
+
+test('reminders escalate towards the cure deadline and are sent once per level', () => {
+  const open = call('bank-1', null, '2026-03-10');
+
+  assert.deepEqual(['2026-03-05', '2026-03-08', '2026-03-10', '2026-03-11'].map(today => MarginCallService.reminderLevel(open, today)), [1, 2, 3, 4]);
+  assert.deepEqual(MarginCallService.remindersDue([open, call('bank-2', null, '2026-03-10', { reminderLevel: 2 })], '2026-03-08').map(r => [r.call.id, r.level]), [
+    [open.id, 2],
+  ]);
+  assert.deepEqual(MarginCallService.remindersDue([{ ...open, status: 'cured' }], '2026-03-11'), []);
+});
+
+test('of several open calls on the same bank or facility the one due first is kept', () => {
+  const later = call('bank-1', null, '2026-03-10');
+  const earlier = call('bank-1', null, '2026-03-08', { openedDate: '2026-03-03' });
+  const facilityCall = call('bank-1', 'fac-a', '2026-03-12');
+  const cured = call('bank-1', null, '2026-03-01', { status: 'cured' });
+
+  assert.deepEqual(MarginCallService.duplicateOpenCalls([later, facilityCall, earlier, cured]), [{ duplicate: later, kept: earlier }]);
+});
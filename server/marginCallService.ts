@@ -0,0 +1,393 @@
+import type { Collateral, CollateralAssignment, InsertMarginCall, MarginCall, MarginCallResolveRequest } from '@shared/schema';
+import type { MarginCallCure, MarginCallDetail } from '@shared/types';
+import type { IStorage } from './storage';
+import { CollateralValuationService } from './collateralValuationService';
+import { InterestService } from './interestService';
+
+// Calendar days the organization has to cure a breach once the call is opened
+export const MARGIN_CALL_CURE_DAYS = 5;
+
+// Target LTV of banks that have none set (matches the banks.target_ltv column default)
+const DEFAULT_TARGET_LTV = 70;
+
+/**
+ * Reminder levels, escalating as the cure deadline approaches. Level 4 is also sent to the owner.
+ */
+export const MARGIN_CALL_REMINDER_LEVELS: Record<number, string> = {
+  1: 'Margin call opened',
+  2: 'Margin call reminder',
+  3: 'Margin call final notice',
+  4: 'Margin call overdue',
+};
+
+export interface MarginCallInput {
+  banks: Array<{ id: string; name: string; targetLtv: string | null }>;
+  facilities: Array<{ id: string; bankId: string; name: string }>;
+  outstandingByFacility: Map<string, number>;
+  assignments: Array<Pick<CollateralAssignment, 'bankId' | 'facilityId' | 'pledgedValue' | 'advanceRate'> & {
+    collateral: Pick<Collateral, 'currentValue' | 'isActive'>;
+    creditLine?: { facilityId: string };
+  }>;
+}
+
+/**
+ * LTV of a bank or facility on the collateral pledged to it
+ */
+export interface LtvScope {
+  scope: 'bank' | 'facility';
+  bankId: string;
+  facilityId: string | null;
+  name: string;
+  targetLtv: number;
+  ltv: number | null; // Null when nothing is pledged
+  outstanding: number;
+  pledgedValue: number;
+  shortfall: number; // Additional pledged value needed to bring LTV back to target
+  paydown: number; // Repayment that brings LTV back to target
+  breached: boolean;
+}
+
+export interface MarginCallCheckResult {
+  opened: MarginCall[];
+  cured: MarginCall[];
+}
+
+export class MarginCallError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MarginCallError';
+    Object.setPrototypeOf(this, MarginCallError.prototype);
+  }
+}
+
+export class MarginCallService {
+  /**
+   * LTV of every bank and facility with outstanding or pledged collateral. Pledges count at their
+   * pledged value where one is set (listed shares after the haircut), otherwise at the collateral's
+   * current value. A bank's target is its targetLtv over everything pledged to it; a facility's is
+   * the advance rates of the pledges to it or its credit lines, falling back to the bank's target.
+   */
+  static ltvScopes(input: MarginCallInput): LtvScope[] {
+    const bankById = new Map(input.banks.map(b => [b.id, b]));
+    const facilityById = new Map(input.facilities.map(f => [f.id, f]));
+    const bankTarget = (bankId: string) => parseFloat(bankById.get(bankId)?.targetLtv ?? String(DEFAULT_TARGET_LTV));
+
+    const pledges = new Map<string, { pledged: number; lendable: number }>();
+    const pledge = (key: string, value: number, advanceRate: number) => {
+      const totals = pledges.get(key) ?? { pledged: 0, lendable: 0 };
+      totals.pledged += value;
+      totals.lendable += value * advanceRate / 100;
+      pledges.set(key, totals);
+    };
+
+    for (const assignment of input.assignments) {
+      if (assignment.collateral.isActive === false) continue;
+      const facility = facilityById.get(assignment.facilityId ?? assignment.creditLine?.facilityId ?? '');
+      const bankId = facility?.bankId ?? assignment.bankId;
+      if (!bankId) continue;
+
+      const value = parseFloat(assignment.pledgedValue ?? assignment.collateral.currentValue);
+      pledge(`bank:${bankId}`, value, bankTarget(bankId));
+      if (facility) {
+        const advanceRate = assignment.advanceRate !== null ? parseFloat(assignment.advanceRate) : bankTarget(bankId);
+        pledge(`facility:${facility.id}`, value, advanceRate);
+      }
+    }
+
+    const outstandingByBank = new Map<string, number>();
+    input.outstandingByFacility.forEach((outstanding, facilityId) => {
+      const facility = facilityById.get(facilityId);
+      if (facility) outstandingByBank.set(facility.bankId, (outstandingByBank.get(facility.bankId) ?? 0) + outstanding);
+    });
+
+    const scopes: LtvScope[] = [];
+    for (const bank of input.banks) {
+      scopes.push(this.scope('bank', bank.id, null, bank.name, bankTarget(bank.id),
+        outstandingByBank.get(bank.id) ?? 0, pledges.get(`bank:${bank.id}`)));
+    }
+    for (const facility of input.facilities) {
+      scopes.push(this.scope('facility', facility.bankId, facility.id, facility.name, bankTarget(facility.bankId),
+        input.outstandingByFacility.get(facility.id) ?? 0, pledges.get(`facility:${facility.id}`)));
+    }
+    return scopes.filter(s => s.outstanding > 0 || s.pledgedValue > 0);
+  }
+
+  static detectBreaches(input: MarginCallInput): LtvScope[] {
+    return this.ltvScopes(input).filter(s => s.breached);
+  }
+
+  /**
+   * Ways to cure an open call: pledge more, repay, or pledge collateral that secures nothing yet,
+   * largest first until the shortfall is covered
+   */
+  static cures(call: MarginCall, unencumbered: Array<{ id: string; name: string; value: number }>): MarginCallCure[] {
+    const shortfall = parseFloat(call.currentShortfall);
+    const outstanding = parseFloat(call.outstanding);
+    const paydown = InterestService.roundAmount(outstanding - parseFloat(call.pledgedValue) * parseFloat(call.targetLtv) / 100);
+
+    const cures: MarginCallCure[] = [
+      { type: 'top_up', amount: shortfall, description: `Pledge additional collateral worth SAR ${this.format(shortfall)} after haircuts` },
+      { type: 'paydown', amount: paydown, description: `Repay SAR ${this.format(paydown)} of the outstanding` },
+    ];
+
+    let covered = 0;
+    for (const item of [...unencumbered].sort((a, b) => b.value - a.value)) {
+      if (covered >= shortfall) break;
+      covered += item.value;
+      cures.push({
+        type: 'reassignment',
+        amount: item.value,
+        collateralId: item.id,
+        description: `Assign ${item.name} (counts SAR ${this.format(item.value)}), which secures nothing yet`,
+      });
+    }
+    return cures;
+  }
+
+  /**
+   * Active collateral without an active assignment, at the value it would count for once pledged
+   */
+  static unencumberedCollateral(
+    collateral: Collateral[],
+    assignments: Array<Pick<CollateralAssignment, 'collateralId'>>
+  ): Array<{ id: string; name: string; value: number }> {
+    const pledged = new Set(assignments.map(a => a.collateralId));
+    return collateral
+      .filter(c => c.isActive !== false && !pledged.has(c.id))
+      .map(c => ({
+        id: c.id,
+        name: c.name,
+        value: parseFloat(CollateralValuationService.pledgedValue(c.currentValue, c.haircutPercent) ?? c.currentValue),
+      }));
+  }
+
+  /**
+   * Reminder level a call has reached: a notice when opened, a reminder two days before the
+   * deadline, a final notice on the deadline and an escalation once it has passed
+   */
+  static reminderLevel(call: Pick<MarginCall, 'cureDeadline'>, today: string): number {
+    const daysLeft = InterestService.dayCount(today, call.cureDeadline, 'actual_360');
+    if (daysLeft < 0) return 4;
+    if (daysLeft === 0) return 3;
+    if (daysLeft <= 2) return 2;
+    return 1;
+  }
+
+  /**
+   * Open calls whose reminder level has risen since the last reminder was sent
+   */
+  static remindersDue(calls: MarginCall[], today: string): Array<{ call: MarginCall; level: number }> {
+    return calls
+      .filter(call => call.status === 'open')
+      .map(call => ({ call, level: this.reminderLevel(call, today) }))
+      .filter(({ call, level }) => level > call.reminderLevel);
+  }
+
+  /**
+   * Current LTV of every bank and facility of the organization, with its unencumbered collateral
+   */
+  static async evaluate(storage: IStorage, organizationId: string): Promise<{ scopes: LtvScope[]; unencumbered: Array<{ id: string; name: string; value: number }> }> {
+    const facilities = await storage.getUserFacilities(organizationId);
+    const loans = await storage.getActiveLoansByUser(organizationId);
+    const balances = await storage.calculateLoanBalances(loans.map(l => l.id));
+    const assignments = await storage.getUserCollateralAssignments(organizationId);
+    const collateral = await storage.getUserCollateral(organizationId);
+
+    const outstandingByFacility = new Map<string, number>();
+    for (const loan of loans) {
+      outstandingByFacility.set(loan.facilityId, (outstandingByFacility.get(loan.facilityId) ?? 0) + (balances[loan.id]?.total ?? 0));
+    }
+    const banks = new Map(facilities.map(f => [f.bank.id, f.bank]));
+
+    return {
+      scopes: this.ltvScopes({
+        banks: Array.from(banks.values()),
+        facilities: facilities.map(f => ({ id: f.id, bankId: f.bankId, name: `${f.bank.name} - ${f.facilityType.replace(/_/g, ' ')}` })),
+        outstandingByFacility,
+        assignments,
+      }),
+      unencumbered: this.unencumberedCollateral(collateral, assignments),
+    };
+  }
+
+  /**
+   * Open a call for every new breach, refresh the figures of open calls and close the ones whose
+   * LTV is back within target (or whose outstanding has been repaid)
+   */
+  static async check(storage: IStorage, organizationId: string, today: string): Promise<MarginCallCheckResult> {
+    const { scopes } = await this.evaluate(storage, organizationId);
+    const openCalls = await storage.getMarginCalls(organizationId, { status: 'open' });
+    const scopeOf = (bankId: string, facilityId: string | null) =>
+      scopes.find(s => s.bankId === bankId && s.facilityId === facilityId);
+
+    const result: MarginCallCheckResult = { opened: [], cured: [] };
+
+    for (const call of openCalls) {
+      const scope = scopeOf(call.bankId, call.facilityId);
+      if (!scope || scope.outstanding === 0 || (scope.ltv !== null && !scope.breached)) {
+        const cured = await storage.updateMarginCall(call.id, organizationId, {
+          status: 'cured',
+          resolution: 'ltv_restored',
+          resolvedAt: new Date(),
+          lastCheckedDate: today,
+          ...(scope ? this.figures(scope) : { currentShortfall: '0.00' }),
+        }, 'open');
+        if (cured) result.cured.push(cured);
+        continue;
+      }
+      await storage.updateMarginCall(call.id, organizationId, { lastCheckedDate: today, ...this.figures(scope) }, 'open');
+    }
+
+    for (const breach of scopes.filter(s => s.breached)) {
+      if (openCalls.some(c => c.bankId === breach.bankId && c.facilityId === breach.facilityId)) continue;
+
+      const call: InsertMarginCall = {
+        organizationId,
+        bankId: breach.bankId,
+        facilityId: breach.facilityId,
+        openedDate: today,
+        cureDeadline: this.addDays(today, MARGIN_CALL_CURE_DAYS),
+        targetLtv: breach.targetLtv.toFixed(2),
+        openingLtv: (breach.ltv ?? 0).toFixed(2),
+        shortfallAmount: breach.shortfall.toFixed(2),
+        lastCheckedDate: today,
+        ...this.figures(breach),
+      };
+      result.opened.push(await storage.createMarginCall(call));
+    }
+
+    return result;
+  }
+
+  /**
+   * Open calls on a bank or facility that already has one, as left behind by merging two banks.
+   * The call with the earliest cure deadline stays open and each duplicate is paired with it.
+   */
+  static duplicateOpenCalls(calls: MarginCall[]): Array<{ duplicate: MarginCall; kept: MarginCall }> {
+    const keptByScope = new Map<string, MarginCall>();
+    const duplicates: Array<{ duplicate: MarginCall; kept: MarginCall }> = [];
+
+    const open = calls
+      .filter(c => c.status === 'open')
+      .sort((a, b) => a.cureDeadline.localeCompare(b.cureDeadline) || a.openedDate.localeCompare(b.openedDate));
+    for (const call of open) {
+      const key = `${call.bankId}:${call.facilityId ?? ''}`;
+      const kept = keptByScope.get(key);
+      if (kept) {
+        duplicates.push({ duplicate: call, kept });
+      } else {
+        keptByScope.set(key, call);
+      }
+    }
+    return duplicates;
+  }
+
+  /**
+   * Close an open call by hand. A top-up, paydown or reassignment must have brought the LTV back
+   * within target; a waiver agreed with the bank closes the call as it stands.
+   */
+  static async resolve(
+    storage: IStorage,
+    call: MarginCall,
+    request: MarginCallResolveRequest,
+    userId: string,
+    today: string
+  ): Promise<MarginCall> {
+    if (call.status !== 'open') {
+      throw new MarginCallError(`Margin call is already ${call.status}`);
+    }
+
+    const { scopes } = await this.evaluate(storage, call.organizationId);
+    const scope = scopes.find(s => s.bankId === call.bankId && s.facilityId === call.facilityId);
+    if (request.resolution !== 'waived' && scope?.breached) {
+      throw new MarginCallError(
+        `LTV is still ${scope.ltv?.toFixed(2)}% against a target of ${scope.targetLtv.toFixed(2)}% - SAR ${this.format(scope.shortfall)} of collateral is still short`
+      );
+    }
+
+    const resolved = await storage.updateMarginCall(call.id, call.organizationId, {
+      status: request.resolution === 'waived' ? 'waived' : 'cured',
+      resolution: request.resolution,
+      resolutionNotes: request.notes ?? null,
+      resolvedBy: userId,
+      resolvedAt: new Date(),
+      lastCheckedDate: today,
+      ...(scope ? this.figures(scope) : {}),
+    }, 'open');
+    if (!resolved) {
+      throw new MarginCallError('Margin call was closed in the meantime');
+    }
+    return resolved;
+  }
+
+  /**
+   * Calls with the names, days to deadline and, while open, the suggested cures
+   */
+  static async details(storage: IStorage, organizationId: string, calls: MarginCall[], today: string): Promise<MarginCallDetail[]> {
+    const facilities = await storage.getUserFacilities(organizationId);
+    const facilityById = new Map(facilities.map(f => [f.id, f]));
+    const bankNames = new Map(facilities.map(f => [f.bank.id, f.bank.name]));
+    const unencumbered = calls.some(c => c.status === 'open')
+      ? (await this.evaluate(storage, organizationId)).unencumbered
+      : [];
+
+    return calls.map(call => {
+      const facility = call.facilityId ? facilityById.get(call.facilityId) : undefined;
+      return {
+        ...call,
+        bankName: bankNames.get(call.bankId) ?? 'Unknown bank',
+        facilityName: facility ? `${facility.bank.name} - ${facility.facilityType.replace(/_/g, ' ')}` : null,
+        daysToDeadline: InterestService.dayCount(today, call.cureDeadline, 'actual_360'),
+        cures: call.status === 'open' ? this.cures(call, unencumbered) : [],
+      };
+    });
+  }
+
+  private static scope(
+    scope: LtvScope['scope'],
+    bankId: string,
+    facilityId: string | null,
+    name: string,
+    bankTargetLtv: number,
+    outstanding: number,
+    pledges?: { pledged: number; lendable: number }
+  ): LtvScope {
+    const pledged = pledges?.pledged ?? 0;
+    const lendable = pledges?.lendable ?? 0;
+    const targetLtv = pledged > 0 ? (lendable / pledged) * 100 : bankTargetLtv;
+    const paydown = Math.max(0, outstanding - lendable);
+
+    return {
+      scope,
+      bankId,
+      facilityId,
+      name,
+      targetLtv: InterestService.roundAmount(targetLtv),
+      ltv: pledged > 0 ? InterestService.roundAmount((outstanding / pledged) * 100) : null,
+      outstanding: InterestService.roundAmount(outstanding),
+      pledgedValue: InterestService.roundAmount(pledged),
+      shortfall: targetLtv > 0 ? InterestService.roundAmount(paydown / (targetLtv / 100)) : 0,
+      paydown: InterestService.roundAmount(paydown),
+      // Unsecured lending and pledges without any lending value cannot be cured by a margin call
+      breached: pledged > 0 && lendable > 0 && outstanding > lendable,
+    };
+  }
+
+  private static figures(scope: LtvScope): Pick<MarginCall, 'currentLtv' | 'outstanding' | 'pledgedValue' | 'currentShortfall'> {
+    return {
+      currentLtv: (scope.ltv ?? 0).toFixed(2),
+      outstanding: scope.outstanding.toFixed(2),
+      pledgedValue: scope.pledgedValue.toFixed(2),
+      currentShortfall: scope.shortfall.toFixed(2),
+    };
+  }
+
+  private static format(amount: number): string {
+    return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+
+  private static addDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return InterestService.toDateString(new Date(Date.UTC(year, month - 1, day + days)));
+  }
+}
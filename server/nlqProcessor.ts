@@ -84,7 +84,7 @@ export class NLQProcessor {
 
   private async handleBankExposureQuery(query: string, organizationId: string): Promise<QueryResult> {
     const loans = await this.storage.getActiveLoansByUser(organizationId);
-    const banks = await this.storage.getAllBanks();
+    const banks = await this.storage.getAllBanks(organizationId);
     
     const bankName = this.extractBankName(query);
     
@@ -240,7 +240,7 @@ export class ObjectStorageService {
   }
 }
 
-function parseObjectPath(path: string): {
+export function parseObjectPath(path: string): {
   bucketName: string;
   objectName: string;
 } {
@@ -261,7 +261,7 @@ function parseObjectPath(path: string): {
   };
 }
 
-async function signObjectURL({
+export async function signObjectURL({
   bucketName,
   objectName,
   method,
@@ -1,5 +1,7 @@
 import type { Request, Response, NextFunction } from "express";
 import { storage } from "./storage";
+import { ATTACHMENT_OWNER_AREAS, hasPermission, memberRole, type PermissionAccess, type PermissionArea } from "@shared/permissions";
+import { attachmentOwnerTypeZodEnum } from "@shared/schema";
 
 /**
  * Middleware that attaches organization context to authenticated requests
@@ -9,6 +11,7 @@ import { storage } from "./storage";
  * - organizationId: The user's organization ID
  * - organizationName: The organization name
  * - isOrgOwner: Whether the user is the organization owner
+ * - memberRole: The user's role in the organization
  */
 export async function attachOrganizationContext(
   req: Request,
@@ -40,6 +43,7 @@ export async function attachOrganizationContext(
     (req as any).organizationId = organization.id;
     (req as any).organizationName = organization.name;
     (req as any).isOrgOwner = currentMember?.isOwner || false;
+    (req as any).memberRole = currentMember ? memberRole(currentMember) : undefined;
 
     next();
   } catch (error) {
@@ -90,3 +94,43 @@ export function requireOrgOwner(
 
   next();
 }
+
+/**
+ * Middleware that requires the user's role to grant access to an area.
+ * GET requests need read access, everything else needs write access unless given explicitly.
+ * Must be used AFTER attachOrganizationContext
+ */
+export function requirePermission(area: PermissionArea, access?: PermissionAccess) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const required = access ?? (req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write');
+
+    if (!hasPermission((req as any).memberRole, area, required)) {
+      return res.status(403).json({
+        success: false,
+        message: `Your role does not allow ${required} access to ${area}`
+      });
+    }
+
+    next();
+  };
+}
+
+/**
+ * Middleware that requires access to the area of the record an attachment belongs to.
+ * ownerTypeOf reads the owner type from the request or from the stored attachment; requests
+ * without a valid owner type are passed on for the route to reject as invalid or not found.
+ * Must be used AFTER attachOrganizationContext
+ */
+export function requireAttachmentPermission(ownerTypeOf: (req: any) => unknown | Promise<unknown>) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const ownerType = attachmentOwnerTypeZodEnum.safeParse(await ownerTypeOf(req));
+      if (!ownerType.success) {
+        return next();
+      }
+      requirePermission(ATTACHMENT_OWNER_AREAS[ownerType.data])(req, res, next);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
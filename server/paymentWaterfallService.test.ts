@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InsertBank, InsertFacility, InsertLoan, Loan, LoanInstallment } from '@shared/schema';
+import { DEFAULT_PAYMENT_WATERFALL, PaymentWaterfallService, type AmountsDue } from './paymentWaterfallService';
+import { MemoryStorage } from './storage';
+
+const loan = { dueDate: '2026-04-15' } as Loan;
+const balance = { asOf: '2026-04-01', principal: 1000000, interest: 12000, fees: 100, total: 1012100 };
+
+const installment = (installmentNumber: number, dueDate: string, principalAmount: string, interestAmount: string, extra: Partial<LoanInstallment> = {}) => ({
+  id: `inst-${installmentNumber}`,
+  installmentNumber,
+  dueDate,
+  principalAmount,
+  interestAmount,
+  paidPrincipal: '0',
+  paidInterest: '0',
+  status: 'pending',
+  ...extra,
+}) as LoanInstallment;
+
+const due: AmountsDue = { fees: 100, overdueInterest: 9000, currentInterest: 3000, principalDue: 333333.33, principalOutstanding: 1000000 };
+
+test('facilities without a valid order of all four buckets use the default waterfall', () => {
+  const principalFirst = ['principal', 'fees', 'overdue_interest', 'current_interest'];
+
+  assert.deepEqual(PaymentWaterfallService.orderFor(undefined), DEFAULT_PAYMENT_WATERFALL);
+  assert.deepEqual(PaymentWaterfallService.orderFor({ paymentWaterfall: principalFirst }), principalFirst);
+  assert.deepEqual(PaymentWaterfallService.orderFor({ paymentWaterfall: ['fees', 'fees', 'principal', 'current_interest'] }), DEFAULT_PAYMENT_WATERFALL);
+  assert.deepEqual(PaymentWaterfallService.orderFor({ paymentWaterfall: ['fees', 'principal'] }), DEFAULT_PAYMENT_WATERFALL);
+});
+
+test('a bullet loan owes its principal from the due date and its interest is overdue after it', () => {
+  assert.deepEqual(PaymentWaterfallService.amountsDue(loan, balance, [], '2026-04-01'), {
+    fees: 100, overdueInterest: 0, currentInterest: 12000, principalDue: 0, principalOutstanding: 1000000,
+  });
+  assert.deepEqual(PaymentWaterfallService.amountsDue(loan, balance, [], '2026-04-15'), {
+    fees: 100, overdueInterest: 0, currentInterest: 12000, principalDue: 1000000, principalOutstanding: 1000000,
+  });
+  assert.equal(PaymentWaterfallService.amountsDue(loan, balance, [], '2026-04-16').overdueInterest, 12000);
+});
+
+test('an amortising loan owes what is left of the installments that have fallen due', () => {
+  const installments = [
+    installment(1, '2026-02-15', '333333.33', '5000.00', { paidPrincipal: '333333.33', paidInterest: '5000.00', status: 'paid' }),
+    installment(2, '2026-03-15', '333333.33', '9833.33', { paidInterest: '833.33', status: 'partial' }),
+    installment(3, '2026-05-15', '333333.34', '3388.89'),
+  ];
+
+  assert.deepEqual(PaymentWaterfallService.amountsDue(loan, balance, installments, '2026-04-01'), {
+    fees: 100, overdueInterest: 9000, currentInterest: 3000, principalDue: 333333.33, principalOutstanding: 1000000,
+  });
+  // Overdue interest never exceeds the interest actually on the ledger
+  assert.equal(PaymentWaterfallService.amountsDue(loan, { ...balance, interest: 4000 }, installments, '2026-04-01').overdueInterest, 4000);
+});
+
+test('a payment fills the buckets in waterfall order', () => {
+  assert.deepEqual(PaymentWaterfallService.allocate(10000, due, DEFAULT_PAYMENT_WATERFALL), {
+    fees: 100, overdueInterest: 9000, currentInterest: 900, interest: 9900, principal: 0, prepayment: 0, total: 10000,
+  });
+  assert.deepEqual(PaymentWaterfallService.allocate(10000, due, ['principal', 'fees', 'overdue_interest', 'current_interest']), {
+    fees: 0, overdueInterest: 0, currentInterest: 0, interest: 0, principal: 10000, prepayment: 0, total: 10000,
+  });
+});
+
+test('money beyond the amount due only repays principal early when flagged as a prepayment', () => {
+  assert.throws(
+    () => PaymentWaterfallService.allocate(400000, due, DEFAULT_PAYMENT_WATERFALL),
+    /Payment exceeds the amount due \(345433\.33\)/
+  );
+
+  const allocation = PaymentWaterfallService.allocate(400000, due, DEFAULT_PAYMENT_WATERFALL, true);
+  assert.equal(allocation.principal, 387900);
+  assert.equal(allocation.prepayment, 54566.67);
+  assert.equal(allocation.total, 400000);
+
+  assert.throws(
+    () => PaymentWaterfallService.allocate(1100000, due, DEFAULT_PAYMENT_WATERFALL, true),
+    /Payment exceeds the outstanding balance \(1012100\.00\)/
+  );
+});
+
+test('a rejected payment leaves no interest accrued for it on the ledger', async () => {
+  const storage = new MemoryStorage();
+  const bank = await storage.createBank({ name: 'Waterfall Bank', code: 'WFB', organizationId: 'org-1' } as InsertBank);
+  const facility = await storage.createFacility({
+    bankId: bank.id, userId: 'user-1', organizationId: 'org-1', facilityType: 'term', creditLimit: '5000000.00',
+    costOfFunding: '1.00', startDate: '2026-01-01', expiryDate: '2027-12-31',
+  } as InsertFacility);
+  const created = await storage.createLoan({
+    facilityId: facility.id, userId: 'user-1', organizationId: 'org-1', referenceNumber: 'WF-1', amount: '1000000.00',
+    startDate: '2026-01-15', dueDate: '2026-04-15', siborRate: '5.00', margin: '1.00', bankRate: '6.00', interestBasis: 'actual_360',
+  } as InsertLoan);
+
+  await assert.rejects(
+    storage.processPayment(created.id, { amount: '20000.00', date: '2026-03-01' }, 'user-1'),
+    /Payment exceeds the amount due \(7500\.00\)/
+  );
+  assert.ok(!(await storage.getLoanById(created.id))?.lastAccrualDate);
+  assert.equal((await storage.calculateLoanBalance(created.id, '2026-03-01')).interest, 0);
+
+  const { payment } = await storage.processPayment(created.id, { amount: '5000.00', date: '2026-03-01' }, 'user-1');
+  assert.equal(payment.interestAmount, '5000.00');
+  assert.equal((await storage.calculateLoanBalance(created.id, '2026-03-01')).interest, 2500);
+});
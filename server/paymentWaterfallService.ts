@@ -0,0 +1,109 @@
+import { waterfallBucketZodEnum, type Facility, type Loan, type LoanInstallment, type WaterfallBucket } from '@shared/schema';
+import type { LoanBalance, PaymentAllocation } from '@shared/types';
+import { InterestService } from './interestService';
+
+export const DEFAULT_PAYMENT_WATERFALL: WaterfallBucket[] = ['fees', 'overdue_interest', 'current_interest', 'principal'];
+
+/**
+ * What a payment can be applied to on a given date. Principal only counts as due once its
+ * installment (or, for bullet loans, the loan) has fallen due - anything more is a prepayment.
+ */
+export interface AmountsDue {
+  fees: number;
+  overdueInterest: number;
+  currentInterest: number;
+  principalDue: number;
+  principalOutstanding: number;
+}
+
+export class PaymentWaterfallService {
+  /**
+   * The facility's configured allocation order, falling back to the default when unset or invalid
+   */
+  static orderFor(facility: Pick<Facility, 'paymentWaterfall'> | undefined): WaterfallBucket[] {
+    const parsed = waterfallBucketZodEnum.array().safeParse(facility?.paymentWaterfall);
+    if (!parsed.success || new Set(parsed.data).size !== DEFAULT_PAYMENT_WATERFALL.length) {
+      return DEFAULT_PAYMENT_WATERFALL;
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Split the ledger balance into the waterfall buckets as of the payment date.
+   * Interest counts as overdue when it belongs to an installment (or bullet loan) past its due date.
+   */
+  static amountsDue(loan: Pick<Loan, 'dueDate'>, balance: LoanBalance, installments: LoanInstallment[], asOf: string): AmountsDue {
+    let overdueInterest: number;
+    let principalDue: number;
+
+    if (installments.length > 0) {
+      const unpaid = installments.filter(installment => installment.status !== 'paid');
+      overdueInterest = unpaid
+        .filter(installment => installment.dueDate < asOf)
+        .reduce((sum, installment) => sum + parseFloat(installment.interestAmount) - parseFloat(installment.paidInterest), 0);
+      principalDue = unpaid
+        .filter(installment => installment.dueDate <= asOf)
+        .reduce((sum, installment) => sum + parseFloat(installment.principalAmount) - parseFloat(installment.paidPrincipal), 0);
+    } else {
+      overdueInterest = loan.dueDate < asOf ? balance.interest : 0;
+      principalDue = loan.dueDate <= asOf ? balance.principal : 0;
+    }
+
+    overdueInterest = InterestService.roundAmount(Math.min(Math.max(overdueInterest, 0), balance.interest));
+    return {
+      fees: balance.fees,
+      overdueInterest,
+      currentInterest: InterestService.roundAmount(balance.interest - overdueInterest),
+      principalDue: InterestService.roundAmount(Math.min(Math.max(principalDue, 0), balance.principal)),
+      principalOutstanding: balance.principal,
+    };
+  }
+
+  /**
+   * Apply a payment to the buckets in waterfall order. Money left once everything due is paid goes to
+   * principal only when the payment is flagged as a prepayment; otherwise the payment is rejected.
+   */
+  static allocate(amount: number, due: AmountsDue, order: WaterfallBucket[], prepayment = false): PaymentAllocation {
+    let remaining = InterestService.roundAmount(amount);
+    const take = (available: number) => {
+      const applied = InterestService.roundAmount(Math.min(remaining, Math.max(available, 0)));
+      remaining = InterestService.roundAmount(remaining - applied);
+      return applied;
+    };
+
+    const applied: Record<WaterfallBucket, number> = { fees: 0, overdue_interest: 0, current_interest: 0, principal: 0 };
+    for (const bucket of order) {
+      applied[bucket] = take(
+        bucket === 'fees' ? due.fees :
+        bucket === 'overdue_interest' ? due.overdueInterest :
+        bucket === 'current_interest' ? due.currentInterest :
+        due.principalDue
+      );
+    }
+
+    let prepaid = 0;
+    if (remaining > 0) {
+      const totalDue = due.fees + due.overdueInterest + due.currentInterest + due.principalDue;
+      if (!prepayment) {
+        throw new Error(`Payment exceeds the amount due (${totalDue.toFixed(2)}). Flag it as a prepayment to repay principal early`);
+      }
+      prepaid = take(due.principalOutstanding - due.principalDue);
+      if (remaining > 0) {
+        const outstanding = totalDue + due.principalOutstanding - due.principalDue;
+        throw new Error(`Payment exceeds the outstanding balance (${outstanding.toFixed(2)})`);
+      }
+    }
+
+    const interest = InterestService.roundAmount(applied.overdue_interest + applied.current_interest);
+    const principal = InterestService.roundAmount(applied.principal + prepaid);
+    return {
+      fees: applied.fees,
+      overdueInterest: applied.overdue_interest,
+      currentInterest: applied.current_interest,
+      interest,
+      principal,
+      prepayment: prepaid,
+      total: InterestService.roundAmount(applied.fees + interest + principal),
+    };
+  }
+}
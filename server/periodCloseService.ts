@@ -0,0 +1,117 @@
+import type { AccountingPeriod, InsertLoan, Loan, PortfolioSnapshot } from '@shared/schema';
+import { InterestService } from './interestService';
+import { buildPortfolioSnapshot } from './snapshotScheduler';
+import type { IStorage } from './storage';
+
+export class PeriodClosedError extends Error {
+  constructor(public readonly period: string, date: string) {
+    super(`Accounting period ${period} is closed - changes dated ${date} need an owner to reopen it first`);
+    this.name = 'PeriodClosedError';
+    Object.setPrototypeOf(this, PeriodClosedError.prototype);
+  }
+}
+
+export class PeriodCloseService {
+  static periodOf(date: string): string {
+    return date.substring(0, 7);
+  }
+
+  /**
+   * Last calendar day of a YYYY-MM period
+   */
+  static periodEnd(period: string): string {
+    const [year, month] = period.split('-').map(Number);
+    return InterestService.toDateString(new Date(Date.UTC(year, month, 0)));
+  }
+
+  /**
+   * Throw PeriodClosedError for the first date that falls in a closed period
+   */
+  static assertOpen(closedPeriods: string[], dates: Array<string | null | undefined>): void {
+    const closed = new Set(closedPeriods);
+    for (const date of dates) {
+      if (date && closed.has(this.periodOf(date))) {
+        throw new PeriodClosedError(this.periodOf(date), date);
+      }
+    }
+  }
+
+  /**
+   * The date itself when its period is open, otherwise the first day of the next period that is.
+   * Scheduled charges that fell due in a month closed before they were posted are caught up there.
+   */
+  static firstOpenDate(closedPeriods: string[], date: string): string {
+    const closed = new Set(closedPeriods);
+    let open = date;
+    while (closed.has(this.periodOf(open))) {
+      open = InterestService.addMonths(`${this.periodOf(open)}-01`, 1);
+    }
+    return open;
+  }
+
+  /**
+   * Dates an update to a loan takes effect on:
+   * - amount: the drawdown on the start date
+   * - startDate: both the old and the new start date
+   * - settledDate / settledAmount / status: the old and new settlement date
+   * Rate, term and descriptive fields only affect accruals from here on and are not period-bound.
+   */
+  static loanUpdateDates(loan: Loan, updates: Partial<InsertLoan>): Array<string | null | undefined> {
+    const dates: Array<string | null | undefined> = [];
+
+    if (updates.amount !== undefined && updates.amount !== loan.amount) {
+      dates.push(loan.startDate, updates.startDate);
+    }
+    if (updates.startDate !== undefined && updates.startDate !== loan.startDate) {
+      dates.push(loan.startDate, updates.startDate);
+    }
+    const settlementChanged =
+      (updates.settledDate !== undefined && updates.settledDate !== loan.settledDate) ||
+      (updates.settledAmount !== undefined && updates.settledAmount !== loan.settledAmount) ||
+      (updates.status !== undefined && updates.status !== loan.status && (updates.status === 'settled' || loan.status === 'settled'));
+    if (settlementChanged) {
+      dates.push(loan.settledDate, updates.settledDate);
+    }
+
+    return dates;
+  }
+
+  /**
+   * Close a finished month: freeze the month-end portfolio snapshot as the official figure
+   * and reject further changes dated in it
+   */
+  static async close(
+    storage: IStorage,
+    organizationId: string,
+    period: string,
+    userId: string
+  ): Promise<{ period: AccountingPeriod; snapshot: PortfolioSnapshot }> {
+    const periodEnd = this.periodEnd(period);
+    if (periodEnd >= InterestService.toDateString(new Date())) {
+      throw new Error(`Accounting period ${period} has not ended yet`);
+    }
+
+    const existing = (await storage.getAccountingPeriods(organizationId)).find(p => p.period === period);
+    if (existing?.status === 'closed') {
+      throw new Error(`Accounting period ${period} is already closed`);
+    }
+
+    const snapshot = await buildPortfolioSnapshot(storage, organizationId, periodEnd);
+    return await storage.closeAccountingPeriod(organizationId, period, userId, snapshot);
+  }
+
+  static async reopen(
+    storage: IStorage,
+    organizationId: string,
+    period: string,
+    reason: string,
+    userId: string
+  ): Promise<AccountingPeriod> {
+    const existing = (await storage.getAccountingPeriods(organizationId)).find(p => p.period === period);
+    if (!existing || existing.status !== 'closed') {
+      throw new Error(`Accounting period ${period} is not closed`);
+    }
+
+    return await storage.reopenAccountingPeriod(organizationId, period, reason, userId);
+  }
+}
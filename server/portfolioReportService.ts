@@ -15,7 +15,7 @@ export class PortfolioReportService {
 
   async generateReport(options: PortfolioReportOptions): Promise<Buffer> {
     // Fetch all portfolio data
-    const [activeLoans, settledLoans, cancelledLoans, facilities, banks, collateral, guarantees] = await Promise.all([
+    const [loans, settledLoans, cancelledLoans, facilities, banks, collateral, guarantees] = await Promise.all([
       this.storage.getActiveLoansByUser(options.organizationId),
       this.storage.getSettledLoansByUser(options.organizationId),
       this.storage.getCancelledLoansByUser(options.organizationId),
@@ -25,17 +25,21 @@ export class PortfolioReportService {
       this.storage.getUserGuarantees(options.organizationId),
     ]);
 
+    // Outstanding balances come from the transactions ledger, not the original drawdown amount
+    const balances = await this.storage.calculateLoanBalances(loans.map((loan: any) => loan.id));
+    const activeLoans = loans.map((loan: any) => ({ ...loan, outstanding: balances[loan.id]?.total ?? 0 }));
+
     // Calculate metrics with safe BigInt/Decimal handling
-    const totalOutstanding = activeLoans.reduce((sum: number, loan: any) => sum + Number(loan.amount?.toString() ?? 0), 0);
+    const totalOutstanding = activeLoans.reduce((sum: number, loan: any) => sum + loan.outstanding, 0);
     const totalSettled = settledLoans.reduce((sum: number, loan: any) => sum + Number(loan.amount?.toString() ?? 0), 0);
     const overdueLoans = activeLoans.filter((loan: any) => new Date(loan.dueDate) < new Date());
-    const totalOverdue = overdueLoans.reduce((sum: number, loan: any) => sum + Number(loan.amount?.toString() ?? 0), 0);
+    const totalOverdue = overdueLoans.reduce((sum: number, loan: any) => sum + loan.outstanding, 0);
 
     // Calculate weighted average rate
     let totalWeightedRate = 0;
     let totalAmount = 0;
     activeLoans.forEach((loan: any) => {
-      const amount = Number(loan.amount?.toString() ?? 0);
+      const amount = loan.outstanding;
       const rate = Number(loan.siborRate?.toString() ?? 0) + Number(loan.margin?.toString() ?? 0);
       totalWeightedRate += amount * rate;
       totalAmount += amount;
@@ -48,7 +52,7 @@ export class PortfolioReportService {
       if (!bankExposures[loan.bankName]) {
         bankExposures[loan.bankName] = 0;
       }
-      bankExposures[loan.bankName] += Number(loan.amount?.toString() ?? 0);
+      bankExposures[loan.bankName] += loan.outstanding;
     });
 
     const reportData = {
@@ -193,7 +197,7 @@ export class PortfolioReportService {
 
       const facilityData = data.facilities.map((fac: any) => {
         const facLoans = data.activeLoans.filter((l: any) => l.facilityId === fac.id);
-        const utilization = facLoans.reduce((sum: number, l: any) => sum + Number(l.amount?.toString() ?? 0), 0);
+        const utilization = facLoans.reduce((sum: number, l: any) => sum + l.outstanding, 0);
         const rawLimit = fac.creditLimit ?? fac.limit;
         const limit = rawLimit ? Number(rawLimit.toString()) : 0;
         const utilizationPct = limit > 0 ? ((utilization / limit) * 100).toFixed(1) : '0.0';
@@ -359,7 +363,7 @@ export class PortfolioReportService {
         ['Bank', 'Facility Type', 'Credit Limit', 'Utilized', 'Available', 'Utilization %', 'Start Date', 'Expiry Date'],
         ...data.facilities.map((fac: any) => {
           const facLoans = data.activeLoans.filter((l: any) => l.facilityId === fac.id);
-          const utilization = facLoans.reduce((sum: number, l: any) => sum + Number(l.amount?.toString() ?? 0), 0);
+          const utilization = facLoans.reduce((sum: number, l: any) => sum + l.outstanding, 0);
           const rawLimit = fac.creditLimit ?? fac.limit;
           const limit = rawLimit ? Number(rawLimit.toString()) : 0;
           const available = limit - utilization;
@@ -479,7 +483,7 @@ export class PortfolioReportService {
       lines.push('----------');
       data.facilities.forEach((fac: any) => {
         const facLoans = data.activeLoans.filter((l: any) => l.facilityId === fac.id);
-        const utilization = facLoans.reduce((sum: number, l: any) => sum + Number(l.amount?.toString() ?? 0), 0);
+        const utilization = facLoans.reduce((sum: number, l: any) => sum + l.outstanding, 0);
         const rawLimit = fac.creditLimit ?? fac.limit;
         const limit = rawLimit ? Number(rawLimit.toString()) : 0;
         const utilizationPct = limit > 0 ? ((utilization / limit) * 100).toFixed(1) : '0.0';
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Loan, LoanRatePeriod, ReferenceRate } from '@shared/schema';
+import { InterestService } from './interestService';
+import { RateResetService } from './rateResetService';
+
+const loan = {
+  id: 'loan-1',
+  userId: 'user-1',
+  organizationId: 'org-1',
+  facilityId: 'facility-1',
+  referenceNumber: 'LN-1',
+  amount: '1000000.00',
+  startDate: '2026-01-15',
+  dueDate: '2027-01-15',
+  siborRate: '5.00',
+  siborTermMonths: 3,
+  margin: '1.00',
+  bankRate: '6.00',
+  interestBasis: 'actual_360',
+  lastAccrualDate: null,
+  status: 'active',
+  settledDate: null,
+} as Loan;
+
+const fixing = (tenor: string, fixingDate: string, rate: string) => ({ id: `${tenor}:${fixingDate}`, tenor, fixingDate, rate }) as ReferenceRate;
+
+const FIXINGS = [
+  fixing('3M', '2026-01-13', '5.0000'),
+  fixing('3M', '2026-04-13', '5.4000'),
+  fixing('6M', '2026-07-13', '5.9000'),
+];
+
+// Latest fixing of the tenor published on or before asOf
+const lookup = async (tenor: string, asOf: string) =>
+  FIXINGS.filter(rate => rate.tenor === tenor && rate.fixingDate <= asOf).at(-1);
+
+const stored = (periods: Awaited<ReturnType<typeof RateResetService.planPeriods>>) =>
+  periods.map((period, i) => ({ id: `period-${i}`, ...period }) as LoanRatePeriod);
+
+test('a floating loan resets every SIBOR term strictly before its due date', () => {
+  assert.deepEqual(RateResetService.resetDates(loan), ['2026-04-15', '2026-07-15', '2026-10-15']);
+  assert.deepEqual(RateResetService.resetDates({ ...loan, startDate: '2026-01-31', dueDate: '2026-07-31' }), ['2026-04-30']);
+  assert.deepEqual(RateResetService.resetDates({ ...loan, siborTermMonths: null }), []);
+});
+
+test('each passed reset takes the fresh fixing or carries the previous rate forward', async () => {
+  const periods = await RateResetService.planPeriods(loan, [], '2026-10-19', lookup);
+
+  assert.deepEqual(periods.map(p => [p.periodStart, p.periodEnd, p.source, p.fixingDate, p.siborRate, p.bankRate]), [
+    ['2026-01-15', '2026-04-15', 'initial', null, '5.00', '6.00'],
+    ['2026-04-15', '2026-07-15', 'reset', '2026-04-13', '5.40', '6.40'],
+    // Only a 6M fixing was published since the last reset
+    ['2026-07-15', '2026-10-15', 'carried_forward', null, '5.40', '6.40'],
+    ['2026-10-15', '2027-01-15', 'carried_forward', null, '5.40', '6.40'],
+  ]);
+});
+
+test('stored periods are not planned again and resets after asOf wait', async () => {
+  const first = stored(await RateResetService.planPeriods(loan, [], '2026-05-01', lookup));
+  assert.deepEqual(first.map(p => p.periodStart), ['2026-01-15', '2026-04-15']);
+
+  const next = await RateResetService.planPeriods(loan, first, '2026-07-15', lookup);
+  assert.deepEqual(next.map(p => [p.periodStart, p.source, p.siborRate]), [['2026-07-15', 'carried_forward', '5.40']]);
+});
+
+test('interest accrues at the old rate up to the reset and at the new rate from it', async () => {
+  const periods = stored(await RateResetService.planPeriods(loan, [], '2026-04-20', lookup));
+  const accrual = InterestService.buildAccrualPeriods(
+    { ...loan, lastAccrualDate: '2026-04-01' } as Loan,
+    '2026-04-20',
+    undefined,
+    RateResetService.rateSchedule(periods)
+  );
+
+  assert.deepEqual(accrual.map(p => [p.fromDate, p.toDate, p.rate, p.amount]), [
+    ['2026-04-01', '2026-04-15', 6, 2333.33],
+    ['2026-04-15', '2026-04-20', 6.4, 888.89],
+  ]);
+});
+
+test('a revolved cycle needs a fixing published since the old cycle started', async () => {
+  const revolved = await RateResetService.revolveFixing(loan, 3, '2026-04-15', lookup);
+  assert.equal(revolved.fixingDate, '2026-04-13');
+
+  await assert.rejects(
+    RateResetService.revolveFixing({ startDate: '2026-04-15' }, 3, '2026-07-15', lookup),
+    /No 3M SIBOR fixing has been published since 2026-04-15/
+  );
+});
+
+test('the reset reminder goes out five days ahead unless that day has passed', () => {
+  const reminder = RateResetService.buildReminder(loan, '2026-07-15', '2026-07-01');
+  assert.equal(reminder?.title, 'Rate Reset on 2026-07-15');
+  assert.equal(reminder?.type, 'rate_reset');
+  assert.deepEqual(reminder?.reminderDate, new Date('2026-07-10'));
+
+  assert.equal(RateResetService.buildReminder(loan, '2026-07-15', '2026-07-10'), undefined);
+  assert.equal(RateResetService.buildReminder({ ...loan, organizationId: null }, '2026-07-15', '2026-07-01'), undefined);
+});
@@ -0,0 +1,198 @@
+import type { InsertLoanRatePeriod, InsertLoanReminder, Loan, LoanRatePeriod, ReferenceRate } from '@shared/schema';
+import type { RateResetScheduleEntry } from '@shared/types';
+import { InterestService, type RateChange } from './interestService';
+import { ReferenceRateService } from './referenceRateService';
+
+// How many days before a reset the borrower is warned about the upcoming fixing
+export const RATE_RESET_REMINDER_DAYS = 5;
+
+type FixingLookup = (tenor: string, asOf: string) => Promise<ReferenceRate | undefined>;
+
+export class RateResetService {
+  /**
+   * Reset dates of a floating loan: every SIBOR term from the start date, strictly before the due date.
+   * Loans without a SIBOR term are priced once and never reset.
+   */
+  static resetDates(loan: Pick<Loan, 'startDate' | 'dueDate' | 'siborTermMonths'>): string[] {
+    const termMonths = loan.siborTermMonths;
+    if (!termMonths || termMonths <= 0) {
+      return [];
+    }
+
+    const dates: string[] = [];
+    for (let k = 1; ; k++) {
+      const date = InterestService.addMonths(loan.startDate, k * termMonths);
+      if (date >= loan.dueDate) break;
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  /**
+   * Rate periods that should exist for a loan up to asOf but have not been stored yet.
+   * The first call seeds the initial period from the rate the loan was booked at; every reset date
+   * that has passed then gets the fixing in force on that date, or carries the previous rate forward
+   * when no new fixing has been published since the previous reset.
+   */
+  static async planPeriods(loan: Loan, existing: LoanRatePeriod[], asOf: string, lookupFixing: FixingLookup): Promise<InsertLoanRatePeriod[]> {
+    const resets = this.resetDates(loan);
+    const boundaries = [loan.startDate, ...resets, loan.dueDate];
+    const stored = new Set(existing.map(period => period.periodStart));
+    const tenor = ReferenceRateService.tenorForTermMonths(loan.siborTermMonths);
+    const margin = parseFloat(loan.margin);
+
+    const planned: InsertLoanRatePeriod[] = [];
+    let previous: { siborRate: string } | undefined = existing[existing.length - 1];
+
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const periodStart = boundaries[i];
+      const periodEnd = boundaries[i + 1];
+      if (periodStart > asOf) break;
+      if (stored.has(periodStart)) {
+        previous = existing.find(period => period.periodStart === periodStart);
+        continue;
+      }
+
+      let period: InsertLoanRatePeriod;
+      if (i === 0) {
+        period = this.buildPeriod(loan.id, periodStart, periodEnd, loan.siborRate, margin, 'initial');
+      } else {
+        // A fixing published before the previous reset is stale - the market has not re-fixed since
+        const latest = await lookupFixing(tenor, periodStart);
+        const fixing = latest && latest.fixingDate > boundaries[i - 1] ? latest : undefined;
+        period = fixing
+          ? this.buildPeriod(loan.id, periodStart, periodEnd, fixing.rate, margin, 'reset', tenor, fixing.fixingDate)
+          : this.buildPeriod(loan.id, periodStart, periodEnd, previous?.siborRate ?? loan.siborRate, margin, 'carried_forward', tenor);
+      }
+
+      planned.push(period);
+      previous = period;
+    }
+
+    return planned;
+  }
+
+  /**
+   * SIBOR fix a revolved cycle is priced at: the latest fixing of its tenor published on or before the
+   * revolve date. As with resets, a fixing from before the old cycle started is stale, and revolving
+   * without a current fixing is rejected rather than carrying the old rate into the new cycle.
+   */
+  static async revolveFixing(
+    oldLoan: Pick<Loan, 'startDate'>,
+    termMonths: number | null | undefined,
+    revolveDate: string,
+    lookupFixing: FixingLookup
+  ): Promise<ReferenceRate> {
+    const tenor = ReferenceRateService.tenorForTermMonths(termMonths);
+    const fixing = await lookupFixing(tenor, revolveDate);
+    if (!fixing || fixing.fixingDate <= oldLoan.startDate) {
+      throw new Error(`No ${tenor} SIBOR fixing has been published since ${oldLoan.startDate} - load the fixing for ${revolveDate} or enter the SIBOR rate`);
+    }
+    return fixing;
+  }
+
+  /**
+   * Rate schedule for InterestService.buildAccrualPeriods
+   */
+  static rateSchedule(periods: LoanRatePeriod[]): RateChange[] {
+    return [...periods]
+      .sort((a, b) => a.periodStart.localeCompare(b.periodStart))
+      .map(period => ({ date: period.periodStart, rate: parseFloat(period.bankRate) }));
+  }
+
+  /**
+   * Full reset schedule for display: stored rate periods followed by the resets still to come
+   */
+  static buildSchedule(loan: Loan, periods: LoanRatePeriod[]): RateResetScheduleEntry[] {
+    const sorted = [...periods].sort((a, b) => a.periodStart.localeCompare(b.periodStart));
+    const entries: RateResetScheduleEntry[] = sorted.map(period => ({
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      fixingDate: period.fixingDate,
+      tenor: period.tenor,
+      siborRate: parseFloat(period.siborRate),
+      margin: parseFloat(period.margin),
+      bankRate: parseFloat(period.bankRate),
+      source: period.source,
+      status: 'fixed',
+    }));
+
+    const stored = new Set(sorted.map(period => period.periodStart));
+    const tenor = ReferenceRateService.tenorForTermMonths(loan.siborTermMonths);
+    const boundaries = [loan.startDate, ...this.resetDates(loan), loan.dueDate];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      if (stored.has(boundaries[i])) continue;
+      entries.push({
+        periodStart: boundaries[i],
+        periodEnd: boundaries[i + 1],
+        fixingDate: null,
+        tenor: i === 0 ? null : tenor,
+        siborRate: null,
+        margin: parseFloat(loan.margin),
+        bankRate: null,
+        source: i === 0 ? 'initial' : 'reset',
+        status: 'projected',
+      });
+    }
+
+    return entries.sort((a, b) => a.periodStart.localeCompare(b.periodStart));
+  }
+
+  /**
+   * Reminder warning the borrower ahead of the next fixing, or undefined when it is too late to warn
+   */
+  static buildReminder(loan: Loan, resetDate: string, today: string): InsertLoanReminder | undefined {
+    if (!loan.organizationId) {
+      return undefined;
+    }
+
+    const reminderDate = this.addDays(resetDate, -RATE_RESET_REMINDER_DAYS);
+    if (reminderDate <= today) {
+      return undefined;
+    }
+
+    const tenor = ReferenceRateService.tenorForTermMonths(loan.siborTermMonths);
+    return {
+      loanId: loan.id,
+      organizationId: loan.organizationId,
+      userId: loan.userId,
+      type: 'rate_reset',
+      title: `Rate Reset on ${resetDate}`,
+      message: `Loan ${loan.referenceNumber} reprices on ${resetDate} at the ${tenor} SIBOR fixing plus ${parseFloat(loan.margin).toFixed(2)}% margin`,
+      reminderDate: new Date(reminderDate),
+      emailEnabled: true,
+      calendarEnabled: false,
+      status: 'pending',
+      isActive: true,
+    };
+  }
+
+  private static addDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return InterestService.toDateString(new Date(Date.UTC(year, month - 1, day + days)));
+  }
+
+  private static buildPeriod(
+    loanId: string,
+    periodStart: string,
+    periodEnd: string,
+    siborRate: string,
+    margin: number,
+    source: InsertLoanRatePeriod['source'],
+    tenor?: string,
+    fixingDate?: string,
+  ): InsertLoanRatePeriod {
+    const sibor = parseFloat(siborRate);
+    return {
+      loanId,
+      periodStart,
+      periodEnd,
+      tenor: tenor ?? null,
+      fixingDate: fixingDate ?? null,
+      siborRate: sibor.toFixed(2),
+      margin: margin.toFixed(2),
+      bankRate: (sibor + margin).toFixed(2),
+      source,
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import type { IStorage } from "./storage";
+import { config } from "./config";
+import { FileDropReferenceRateProvider, ReferenceRateService } from "./referenceRateService";
+
+export class ReferenceRateScheduler {
+  private storage: IStorage;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Start the reference rate scheduler
+   * Picks up SIBOR / SAIBOR fixing files from the drop directory every hour
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('📈 Reference rate scheduler is already running');
+      return;
+    }
+
+    console.log('📈 Starting reference rate scheduler - checking drop directory every hour');
+    this.isRunning = true;
+
+    // Run immediately on start to pick up files dropped while the server was down
+    this.importDroppedFiles();
+
+    // Then check every hour
+    this.intervalId = setInterval(() => {
+      this.importDroppedFiles();
+    }, 60 * 60 * 1000); // 1 hour
+  }
+
+  /**
+   * Stop the reference rate scheduler
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.isRunning = false;
+      console.log('📈 Reference rate scheduler stopped');
+    }
+  }
+
+  /**
+   * Import every CSV file currently in the drop directory
+   */
+  private async importDroppedFiles(): Promise<void> {
+    try {
+      const provider = new FileDropReferenceRateProvider(config.get('REFERENCE_RATE_DROP_DIR'));
+      const result = await ReferenceRateService.importFrom(provider, this.storage, 'system');
+
+      if (result.imported.length === 0 && result.errors.length === 0) {
+        return;
+      }
+
+      console.log(`✅ Imported ${result.imported.length} reference rate fixing(s) from drop directory`);
+      result.errors.forEach(error => console.warn(`⚠️  Skipped reference rate data - ${error}`));
+    } catch (error) {
+      console.error('❌ Error importing reference rate files:', error);
+    }
+  }
+}
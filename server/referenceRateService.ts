@@ -0,0 +1,260 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  insertReferenceRateSchema,
+  referenceRateTenorZodEnum,
+  type InsertReferenceRate,
+  type ReferenceRate,
+  type ReferenceRateSource,
+  type ReferenceRateTenor,
+} from '@shared/schema';
+import type { SiborRate } from '@shared/types';
+import type { IStorage } from './storage';
+
+export interface ReferenceRateFixing {
+  tenor: string;
+  fixingDate: string; // YYYY-MM-DD
+  rate: string; // Annual rate in percent
+}
+
+/**
+ * A source of reference rate fixings. Providers only read fixings - validation
+ * and persistence are handled by ReferenceRateService.importFrom.
+ */
+export interface ReferenceRateProvider {
+  readonly source: ReferenceRateSource;
+  fetchFixings(): Promise<ReferenceRateFixing[]>;
+  // Called after the fixings were stored, e.g. to archive a processed file
+  acknowledge?(): Promise<void>;
+  // Problems that did not stop the import, e.g. a file that could not be read
+  readErrors?(): string[];
+}
+
+export interface ReferenceRateImportResult {
+  source: ReferenceRateSource;
+  imported: ReferenceRate[];
+  errors: string[];
+}
+
+/**
+ * Fixings uploaded as CSV text. Accepts either one fixing per row
+ * (tenor,fixing_date,rate) or one date per row with a column per tenor (date,1M,3M,6M,12M).
+ */
+export class CsvReferenceRateProvider implements ReferenceRateProvider {
+  readonly source: ReferenceRateSource = 'csv_upload';
+
+  constructor(private csv: string) {}
+
+  async fetchFixings(): Promise<ReferenceRateFixing[]> {
+    return ReferenceRateService.parseCsv(this.csv);
+  }
+}
+
+/**
+ * Fixings keyed in by an administrator in the admin portal
+ */
+export class ManualReferenceRateProvider implements ReferenceRateProvider {
+  readonly source: ReferenceRateSource = 'manual';
+
+  constructor(private fixings: ReferenceRateFixing[]) {}
+
+  async fetchFixings(): Promise<ReferenceRateFixing[]> {
+    return this.fixings;
+  }
+}
+
+/**
+ * CSV files dropped into a directory (e.g. by a market data feed or SFTP job).
+ * Processed files are moved into a "processed" sub-directory and files that cannot be parsed
+ * into "rejected", so one bad file neither blocks the others nor fails every later import.
+ * Locally the feed can be stubbed by copying a CSV into the directory.
+ */
+export class FileDropReferenceRateProvider implements ReferenceRateProvider {
+  readonly source: ReferenceRateSource = 'file_drop';
+  private pendingFiles: string[] = [];
+  private errors: string[] = [];
+
+  constructor(private directory: string) {}
+
+  async fetchFixings(): Promise<ReferenceRateFixing[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    this.pendingFiles = [];
+    this.errors = [];
+
+    const fixings: ReferenceRateFixing[] = [];
+    for (const file of entries.filter(name => name.toLowerCase().endsWith('.csv')).sort()) {
+      try {
+        const csv = await fs.readFile(path.join(this.directory, file), 'utf8');
+        fixings.push(...ReferenceRateService.parseCsv(csv));
+        this.pendingFiles.push(file);
+      } catch (error) {
+        this.errors.push(`${file}: ${error instanceof Error ? error.message : String(error)} - moved to rejected`);
+        await this.moveTo('rejected', file);
+      }
+    }
+    return fixings;
+  }
+
+  readErrors(): string[] {
+    return this.errors;
+  }
+
+  async acknowledge(): Promise<void> {
+    if (this.pendingFiles.length === 0) {
+      return;
+    }
+
+    for (const file of this.pendingFiles) {
+      await this.moveTo('processed', file);
+    }
+    this.pendingFiles = [];
+  }
+
+  private async moveTo(subdirectory: string, file: string): Promise<void> {
+    const target = path.join(this.directory, subdirectory);
+    await fs.mkdir(target, { recursive: true });
+    await fs.rename(path.join(this.directory, file), path.join(target, file));
+  }
+}
+
+export class ReferenceRateService {
+  /**
+   * Validate and store all fixings from a provider. Invalid rows are reported and skipped.
+   */
+  static async importFrom(provider: ReferenceRateProvider, storage: IStorage, createdBy: string): Promise<ReferenceRateImportResult> {
+    const fixings = await provider.fetchFixings();
+    const errors: string[] = [...(provider.readErrors?.() ?? [])];
+    const valid: InsertReferenceRate[] = [];
+
+    fixings.forEach((fixing, index) => {
+      const parsed = insertReferenceRateSchema.safeParse({
+        tenor: this.normalizeTenor(fixing.tenor) ?? fixing.tenor,
+        fixingDate: fixing.fixingDate,
+        rate: fixing.rate,
+        source: provider.source,
+        createdBy,
+      });
+
+      if (parsed.success) {
+        valid.push(parsed.data);
+      } else {
+        const issues = parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ');
+        errors.push(`Row ${index + 1}: ${issues}`);
+      }
+    });
+
+    const imported = await storage.upsertReferenceRates(valid);
+    if (provider.acknowledge) {
+      await provider.acknowledge();
+    }
+
+    return { source: provider.source, imported, errors };
+  }
+
+  /**
+   * Current fixing for a SIBOR term, with the change against the fixing one month earlier
+   */
+  static async getFixingSummary(storage: IStorage, termMonths?: number | null, asOf?: string): Promise<SiborRate | undefined> {
+    const tenor = this.tenorForTermMonths(termMonths);
+    const current = await storage.getLatestReferenceRate(tenor, asOf);
+    if (!current) {
+      return undefined;
+    }
+
+    const previous = await storage.getLatestReferenceRate(tenor, this.oneMonthBefore(current.fixingDate));
+    const rate = parseFloat(current.rate);
+
+    return {
+      rate,
+      monthlyChange: previous ? Math.round((rate - parseFloat(previous.rate)) * 10000) / 10000 : 0,
+      lastUpdated: (current.updatedAt ?? current.createdAt ?? new Date()).toISOString(),
+      tenor,
+      fixingDate: current.fixingDate,
+    };
+  }
+
+  /**
+   * Published tenor used for a loan's SIBOR term - the shortest tenor covering the term
+   */
+  static tenorForTermMonths(termMonths?: number | null): ReferenceRateTenor {
+    if (!termMonths || termMonths <= 0) return '3M';
+    if (termMonths <= 1) return '1M';
+    if (termMonths <= 3) return '3M';
+    if (termMonths <= 6) return '6M';
+    return '12M';
+  }
+
+  /**
+   * Normalize tenor labels such as "3m", "3 Months" or "3M SAIBOR" to a published tenor
+   */
+  static normalizeTenor(value: string): ReferenceRateTenor | undefined {
+    const match = value.trim().match(/^(\d+)\s*m/i);
+    if (!match) return undefined;
+    const parsed = referenceRateTenorZodEnum.safeParse(`${parseInt(match[1], 10)}M`);
+    return parsed.success ? parsed.data : undefined;
+  }
+
+  static parseCsv(csv: string): ReferenceRateFixing[] {
+    const rows = csv
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'))
+      .map(line => line.split(',').map(cell => cell.trim().replace(/^"|"$/g, '')));
+
+    if (rows.length < 2) {
+      return [];
+    }
+
+    const header = rows[0].map(cell => cell.toLowerCase().replace(/[\s_]/g, ''));
+    const dateIndex = header.findIndex(cell => cell === 'fixingdate' || cell === 'date');
+    const tenorIndex = header.indexOf('tenor');
+    const rateIndex = header.indexOf('rate');
+
+    if (dateIndex === -1) {
+      throw new Error('CSV must have a fixing_date (or date) column');
+    }
+
+    // Long format: tenor,fixing_date,rate
+    if (tenorIndex !== -1 && rateIndex !== -1) {
+      return rows.slice(1).map(row => ({
+        tenor: row[tenorIndex] ?? '',
+        fixingDate: row[dateIndex] ?? '',
+        rate: row[rateIndex] ?? '',
+      }));
+    }
+
+    // Wide format: date,1M,3M,6M,12M
+    const tenorColumns = rows[0]
+      .map((cell, index) => ({ tenor: this.normalizeTenor(cell), index }))
+      .filter((column): column is { tenor: ReferenceRateTenor; index: number } => column.tenor !== undefined);
+
+    if (tenorColumns.length === 0) {
+      throw new Error('CSV must have tenor and rate columns, or one column per tenor (1M, 3M, 6M, 12M)');
+    }
+
+    return rows.slice(1).flatMap(row =>
+      tenorColumns
+        .filter(column => row[column.index])
+        .map(column => ({
+          tenor: column.tenor,
+          fixingDate: row[dateIndex] ?? '',
+          rate: row[column.index],
+        }))
+    );
+  }
+
+  private static oneMonthBefore(date: string): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const daysInPreviousMonth = new Date(Date.UTC(year, month - 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month - 2, Math.min(day, daysInPreviousMonth))).toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InsertBank, InsertFacility, InsertLoan } from '@shared/schema';
+import { MemoryStorage } from './storage';
+
+const ORG = 'org-revolve';
+
+const setup = async (facility: Partial<InsertFacility> = {}) => {
+  const storage = new MemoryStorage();
+  const bank = await storage.createBank({ name: 'Revolve Bank', code: 'RVB', organizationId: ORG } as InsertBank);
+  const created = await storage.createFacility({
+    bankId: bank.id,
+    userId: 'user-1',
+    organizationId: ORG,
+    facilityType: 'revolving',
+    creditLimit: '5000000.00',
+    costOfFunding: '1.00',
+    startDate: '2026-01-01',
+    expiryDate: '2027-12-31',
+    ...facility,
+  } as InsertFacility);
+  const loan = await storage.createLoan({
+    facilityId: created.id,
+    userId: 'user-1',
+    organizationId: ORG,
+    referenceNumber: 'RV-100',
+    amount: '1000000.00',
+    startDate: '2026-01-15',
+    dueDate: '2026-04-15',
+    siborRate: '5.00',
+    margin: '1.00',
+    bankRate: '6.00',
+    interestBasis: 'actual_360',
+  } as InsertLoan);
+  return { storage, loan };
+};
+
+test('revolving pays off the cycle with its interest and draws the principal into a linked cycle', async () => {
+  const { storage, loan } = await setup();
+
+  const { oldLoan, newLoan, transactions } = await storage.revolveLoan(loan.id, {
+    startDate: '2026-04-15',
+    dueDate: '2026-07-15',
+    siborRate: '5.50',
+  }, 'user-1');
+
+  assert.equal(oldLoan.status, 'settled');
+  assert.equal(oldLoan.settledDate, '2026-04-15');
+  assert.equal(oldLoan.settledAmount, '1015000.00');
+
+  assert.equal(newLoan.parentLoanId, loan.id);
+  assert.equal(newLoan.cycleNumber, 2);
+  assert.equal(newLoan.referenceNumber, 'RV-100-R2');
+  assert.equal(newLoan.amount, '1000000.00');
+  assert.equal(newLoan.bankRate, '6.50');
+
+  const [rollover, draw] = transactions;
+  assert.equal(rollover.type, 'repayment');
+  assert.equal(rollover.amount, '1015000.00');
+  assert.equal(draw.type, 'draw');
+  assert.equal(draw.loanId, newLoan.id);
+
+  assert.equal((await storage.calculateLoanBalance(loan.id, '2026-04-15')).total, 0);
+  assert.equal((await storage.calculateLoanBalance(newLoan.id, '2026-04-15')).principal, 1000000);
+});
+
+test('the next cycle numbers on from the chain', async () => {
+  const { storage, loan } = await setup();
+
+  const second = await storage.revolveLoan(loan.id, { startDate: '2026-04-15', dueDate: '2026-07-15', siborRate: '5.00' }, 'user-1');
+  const third = await storage.revolveLoan(second.newLoan.id, { startDate: '2026-07-15', dueDate: '2026-10-15', siborRate: '5.00' }, 'user-1');
+
+  assert.equal(third.newLoan.cycleNumber, 3);
+  assert.equal(third.newLoan.referenceNumber, 'RV-100-R3');
+  assert.equal(third.newLoan.parentLoanId, second.newLoan.id);
+});
+
+test('a revolve past the maximum revolving period counted from the first cycle is rejected', async () => {
+  const { storage, loan } = await setup({ enableRevolvingTracking: true, maxRevolvingPeriod: 180 });
+
+  await assert.rejects(
+    storage.revolveLoan(loan.id, { startDate: '2026-04-15', dueDate: '2026-08-15', siborRate: '5.00' }, 'user-1'),
+    /exceeding the facility's maximum revolving period of 180 days/
+  );
+  assert.equal((await storage.getLoanById(loan.id))?.status, 'active');
+});
+
+test('only active loans with principal outstanding revolve', async () => {
+  const { storage, loan } = await setup();
+  await storage.revolveLoan(loan.id, { startDate: '2026-04-15', dueDate: '2026-07-15', siborRate: '5.00' }, 'user-1');
+
+  await assert.rejects(
+    storage.revolveLoan(loan.id, { startDate: '2026-04-16', dueDate: '2026-07-15', siborRate: '5.00' }, 'user-1'),
+    /Only active loans can be revolved/
+  );
+  await assert.rejects(
+    (await setup()).storage.revolveLoan('missing', { dueDate: '2026-07-15' }, 'user-1'),
+    /Loan not found/
+  );
+});
@@ -0,0 +1,49 @@
+import type { Express } from "express";
+import type { AppDependencies } from "../types";
+import { isAuthenticated } from "../replitAuth";
+import { attachOrganizationContext, requireOrganization, requireOrgOwner, requirePermission } from "../organizationMiddleware";
+import { PeriodCloseService } from "../periodCloseService";
+import { accountingPeriodCloseSchema, accountingPeriodReopenSchema } from "@shared/schema";
+
+export function registerAccountingPeriodRoutes(app: Express, deps: AppDependencies) {
+  const { storage } = deps;
+
+  app.get('/api/accounting-periods', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
+    try {
+      res.json(await storage.getAccountingPeriods(req.organizationId));
+    } catch (error) {
+      console.error("Error fetching accounting periods:", error);
+      res.status(500).json({ message: "Failed to fetch accounting periods" });
+    }
+  });
+
+  // Close a finished month and freeze its month-end portfolio snapshot
+  app.post('/api/accounting-periods/close', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
+    try {
+      const { period } = accountingPeriodCloseSchema.parse(req.body);
+      const result = await PeriodCloseService.close(storage, req.organizationId, period, req.user.claims.sub);
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error closing accounting period:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid period", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Failed to close accounting period" });
+    }
+  });
+
+  // Only owners can reopen a closed month, and must say why
+  app.post('/api/accounting-periods/:period/reopen', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), requireOrgOwner, async (req: any, res) => {
+    try {
+      const { period } = accountingPeriodCloseSchema.parse({ period: req.params.period });
+      const { reason } = accountingPeriodReopenSchema.parse(req.body);
+      res.json(await PeriodCloseService.reopen(storage, req.organizationId, period, reason, req.user.claims.sub));
+    } catch (error: any) {
+      console.error("Error reopening accounting period:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid reopen request", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Failed to reopen accounting period" });
+    }
+  });
+}
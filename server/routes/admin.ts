@@ -1,10 +1,33 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import crypto from "crypto";
+import { z } from "zod";
 import {
   insertReminderTemplateSchema,
   updateReminderTemplateSchema,
+  attachmentRetentionPoliciesRequestSchema,
 } from "@shared/schema";
+import {
+  CsvReferenceRateProvider,
+  ManualReferenceRateProvider,
+  ReferenceRateService,
+} from "../referenceRateService";
+import {
+  CsvSharePriceProvider,
+  JsonSharePriceProvider,
+  SharePriceService,
+} from "../sharePriceService";
+import { AttachmentRetentionService, DEFAULT_RETENTION_POLICIES } from "../attachmentRetentionService";
+import { FileStorageService } from "../fileStorage";
+import { InterestService } from "../interestService";
+
+const manualFixingsSchema = z.object({
+  fixings: z.array(z.object({
+    tenor: z.string(),
+    fixingDate: z.string(),
+    rate: z.union([z.string(), z.number()]).transform(String),
+  })).min(1, "At least one fixing is required"),
+});
 
 // Admin session storage (in production, use proper session store)
 // Using global to persist sessions during development hot reloads
@@ -641,6 +664,153 @@ export function registerAdminRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
+  // Reference rate (SIBOR / SAIBOR) management
+  app.get('/api/admin/reference-rates', isAdminAuthenticated, async (req: any, res) => {
+    try {
+      const { tenor, from, to } = req.query as { tenor?: string; from?: string; to?: string };
+      const rates = await storage.getReferenceRates({ tenor, from, to });
+      res.json(rates);
+    } catch (error) {
+      console.error("Error fetching reference rates:", error);
+      res.status(500).json({ message: "Failed to fetch reference rates" });
+    }
+  });
+
+  app.post('/api/admin/reference-rates', isAdminAuthenticated, async (req: any, res) => {
+    try {
+      const { fixings } = manualFixingsSchema.parse(req.body);
+      const result = await ReferenceRateService.importFrom(
+        new ManualReferenceRateProvider(fixings),
+        storage,
+        req.adminUser.username
+      );
+
+      if (result.imported.length === 0) {
+        return res.status(400).json({ message: "No valid fixings to save", errors: result.errors });
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fixings", errors: error.errors });
+      }
+      console.error("Error saving reference rates:", error);
+      res.status(500).json({ message: "Failed to save reference rates" });
+    }
+  });
+
+  // CSV upload - the admin portal reads the file and posts its contents
+  app.post('/api/admin/reference-rates/import', isAdminAuthenticated, async (req: any, res) => {
+    try {
+      const { csv } = req.body;
+      if (!csv || typeof csv !== 'string') {
+        return res.status(400).json({ message: "CSV content is required" });
+      }
+
+      const result = await ReferenceRateService.importFrom(
+        new CsvReferenceRateProvider(csv),
+        storage,
+        req.adminUser.username
+      );
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error importing reference rates:", error);
+      res.status(400).json({ message: error.message || "Failed to import reference rates" });
+    }
+  });
+
+  app.delete('/api/admin/reference-rates/:rateId', isAdminAuthenticated, async (req: any, res) => {
+    try {
+      await storage.deleteReferenceRate(req.params.rateId);
+      res.json({ message: "Reference rate deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting reference rate:", error);
+      res.status(500).json({ message: "Failed to delete reference rate" });
+    }
+  });
+
+  // Share prices (Tadawul closes) used to mark listed-share collateral to market
+  app.get('/api/admin/share-prices', isAdminAuthenticated, async (req: any, res) => {
+    try {
+      const { ticker, from, to } = req.query as { ticker?: string; from?: string; to?: string };
+      const prices = await storage.getSharePrices({
+        ticker: ticker ? SharePriceService.normalizeTicker(ticker) : undefined,
+        from,
+        to,
+      });
+      res.json(prices);
+    } catch (error) {
+      console.error("Error fetching share prices:", error);
+      res.status(500).json({ message: "Failed to fetch share prices" });
+    }
+  });
+
+  // CSV or JSON upload - the admin portal reads the file and posts its contents
+  app.post('/api/admin/share-prices/import', isAdminAuthenticated, async (req: any, res) => {
+    try {
+      const { content, format } = req.body;
+      if (!content || typeof content !== 'string') {
+        return res.status(400).json({ message: "File content is required" });
+      }
+      if (format !== 'csv' && format !== 'json') {
+        return res.status(400).json({ message: "Format must be csv or json" });
+      }
+
+      const provider = format === 'json' ? new JsonSharePriceProvider(content) : new CsvSharePriceProvider(content);
+      const result = await SharePriceService.importFrom(provider, storage, req.adminUser.username);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error importing share prices:", error);
+      res.status(400).json({ message: error.message || "Failed to import share prices" });
+    }
+  });
+
+  app.delete('/api/admin/share-prices/:priceId', isAdminAuthenticated, async (req: any, res) => {
+    try {
+      await storage.deleteSharePrice(req.params.priceId);
+      res.json({ message: "Share price deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting share price:", error);
+      res.status(500).json({ message: "Failed to delete share price" });
+    }
+  });
+
+  // Attachment retention: policies per category and the purge of expired versions
+  app.get('/api/admin/attachment-retention-policies', isAdminAuthenticated, async (req: any, res) => {
+    try {
+      const policies = await storage.getAttachmentRetentionPolicies();
+      res.json({ defaults: DEFAULT_RETENTION_POLICIES, policies });
+    } catch (error) {
+      console.error("Error fetching attachment retention policies:", error);
+      res.status(500).json({ message: "Failed to fetch retention policies" });
+    }
+  });
+
+  app.put('/api/admin/attachment-retention-policies', isAdminAuthenticated, async (req: any, res) => {
+    try {
+      const policies = attachmentRetentionPoliciesRequestSchema.parse(req.body);
+      const saved = await storage.setAttachmentRetentionPolicies(policies, req.adminUser.username);
+      res.json({ defaults: DEFAULT_RETENTION_POLICIES, policies: saved });
+    } catch (error: any) {
+      console.error("Error saving attachment retention policies:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid retention policies", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save retention policies" });
+    }
+  });
+
+  app.post('/api/admin/attachment-retention/purge', isAdminAuthenticated, async (req: any, res) => {
+    try {
+      const today = InterestService.toDateString(new Date());
+      const result = await AttachmentRetentionService.purge(storage, FileStorageService.driver(), today);
+      res.json(result);
+    } catch (error) {
+      console.error("Error purging attachments:", error);
+      res.status(500).json({ message: "Failed to purge attachments" });
+    }
+  });
+
   // Test endpoint: Create sample alert (development only)
   app.post('/api/admin/test/create-alert', isAdminAuthenticated, async (req: any, res) => {
     try {
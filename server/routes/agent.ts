@@ -19,7 +19,7 @@ export function registerAgentRoutes(app: Express, deps: AppDependencies) {
         return res.status(400).json({ message: "Messages array is required" });
       }
 
-      const response = await agentService.processChat(messages, userId, organizationId);
+      const response = await agentService.processChat(messages, userId, organizationId, req.memberRole);
       res.json(response);
     } catch (error) {
       console.error("Error processing agent chat:", error);
@@ -1,13 +1,14 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
 import { NLQProcessor } from "../nlqProcessor";
 import { DailyAlertsService } from "../dailyAlerts";
 import { generateAIInsights } from "../aiInsights";
-import { insertAiInsightConfigSchema } from "@shared/schema";
+import { insertAiInsightConfigSchema, llmSettingsRequestSchema } from "@shared/schema";
 import { PortfolioReportService } from "../portfolioReportService";
 import { nanoid } from "nanoid";
+import { LlmClient, LlmBudgetError, type LlmMessage, type LlmTool } from "../llmClient";
 
 export function registerAiRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
@@ -17,15 +18,13 @@ export function registerAiRoutes(app: Express, deps: AppDependencies) {
     try {
       const { message, conversationHistory = [] } = req.body;
       const organizationId = req.organizationId;
+      const userId = req.user.claims.sub;
       
       if (!message || typeof message !== 'string') {
         return res.status(400).json({ message: "Message is required" });
       }
 
-      const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY;
-      const DEEPSEEK_API_URL = 'https://api.deepseek.com/v1/chat/completions';
-
-      if (!DEEPSEEK_API_KEY) {
+      if (!(await LlmClient.isAvailable(storage, organizationId))) {
         return res.status(500).json({ message: "AI service not configured" });
       }
 
@@ -35,7 +34,7 @@ export function registerAiRoutes(app: Express, deps: AppDependencies) {
         storage.getSettledLoansByUser(organizationId),
         storage.getCancelledLoansByUser(organizationId),
         storage.getUserFacilities(organizationId),
-        storage.getAllBanks(),
+        storage.getAllBanks(organizationId),
         storage.getUserCollateral(organizationId),
         storage.getUserGuarantees(organizationId),
       ]);
@@ -242,7 +241,7 @@ GROWTH TRENDS:
 `;
 
       // Prepare messages for AI
-      const messages = [
+      const messages: LlmMessage[] = [
         {
           role: 'system',
           content: `You are a data-driven AI Portfolio Assistant for Morouna Loans (Saudi Arabian loan management system).
@@ -287,7 +286,7 @@ Report Types Available:
       ];
 
       // Function definitions for AI
-      const tools = [
+      const tools: LlmTool[] = [
         {
           type: "function",
           function: {
@@ -313,30 +312,17 @@ Report Types Available:
         }
       ];
 
-      // Call DeepSeek AI with tools
-      const response = await fetch(DEEPSEEK_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${DEEPSEEK_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: 'deepseek-chat',
-          messages,
-          tools,
-          temperature: 0.7,
-          max_tokens: 1000
-        })
+      // Call the language model with tools
+      const completion = await LlmClient.complete(storage, {
+        feature: 'portfolio_chat',
+        organizationId,
+        userId,
+        messages,
+        tools,
+        temperature: 0.7,
+        maxTokens: 1000,
       });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('DeepSeek API error:', errorText);
-        return res.status(500).json({ message: "AI service error" });
-      }
-
-      const data = await response.json();
-      const assistantMessage = data.choices[0].message;
+      const assistantMessage = completion.message;
 
       // Check if AI wants to call a function
       if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
@@ -376,24 +362,16 @@ Report Types Available:
           });
 
           // Get final response from AI
-          const finalResponse = await fetch(DEEPSEEK_API_URL, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${DEEPSEEK_API_KEY}`
-            },
-            body: JSON.stringify({
-              model: 'deepseek-chat',
-              messages,
-              tools,
-              temperature: 0.7,
-              max_tokens: 1000
-            })
+          const finalMessage = await LlmClient.completeText(storage, {
+            feature: 'portfolio_chat',
+            organizationId,
+            userId,
+            messages,
+            tools,
+            temperature: 0.7,
+            maxTokens: 1000,
           });
 
-          const finalData = await finalResponse.json();
-          const finalMessage = finalData.choices[0].message.content;
-
           // Return BOTH the AI message AND the report data
           return res.json({ 
             response: finalMessage,
@@ -410,6 +388,9 @@ Report Types Available:
       const aiResponse = assistantMessage.content;
       res.json({ response: aiResponse });
     } catch (error) {
+      if (error instanceof LlmBudgetError) {
+        return res.status(429).json({ message: error.message });
+      }
       console.error("Error processing AI chat:", error);
       res.status(500).json({ 
         message: "Failed to process chat request",
@@ -858,4 +839,52 @@ Report Types Available:
       res.status(400).json({ message: "Failed to update AI config" });
     }
   });
+
+  // Language model selection and token budget of the organization
+  app.get('/api/ai/llm-settings', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+    try {
+      const settings = await storage.getLlmSettings(req.organizationId);
+      res.json({ settings: settings ?? null, defaults: LlmClient.defaultSelection(), providers: LlmClient.providerOptions() });
+    } catch (error) {
+      console.error("Error fetching LLM settings:", error);
+      res.status(500).json({ message: "Failed to fetch AI model settings" });
+    }
+  });
+
+  app.put('/api/ai/llm-settings', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('organization'), async (req: any, res) => {
+    try {
+      const request = llmSettingsRequestSchema.parse(req.body);
+      if (!LlmClient.provider(request.provider).isConfigured()) {
+        return res.status(409).json({ message: `The ${request.provider} provider is not available on this server` });
+      }
+      const settings = await storage.setLlmSettings(req.organizationId, request, req.user.claims.sub);
+      res.json({ settings, defaults: LlmClient.defaultSelection(), providers: LlmClient.providerOptions() });
+    } catch (error: any) {
+      console.error("Error updating LLM settings:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid AI model settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update AI model settings" });
+    }
+  });
+
+  // Tokens used this calendar month (UTC) per feature and model
+  app.get('/api/ai/llm-usage', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+    try {
+      const since = LlmClient.monthStart();
+      const [summary, settings] = await Promise.all([
+        storage.getLlmUsageSummary(req.organizationId, since),
+        storage.getLlmSettings(req.organizationId),
+      ]);
+      res.json({
+        since: since.toISOString(),
+        monthlyTokenLimit: settings?.monthlyTokenLimit ?? null,
+        totalTokens: summary.reduce((sum, row) => sum + row.totalTokens, 0),
+        summary,
+      });
+    } catch (error) {
+      console.error("Error fetching LLM usage:", error);
+      res.status(500).json({ message: "Failed to fetch AI usage" });
+    }
+  });
 }
@@ -1,13 +1,13 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
 
 export function registerAnalyticsRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
   // Year-over-year analytics endpoint
-  app.get('/api/analytics/year-over-year', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/analytics/year-over-year', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { from, to, groupBy = 'month' } = req.query;
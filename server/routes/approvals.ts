@@ -0,0 +1,136 @@
+import type { Express } from "express";
+import type { AppDependencies } from "../types";
+import { isAuthenticated } from "../replitAuth";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
+import { ApprovalService, ApprovalError } from "../approvalService";
+import { PeriodClosedError } from "../periodCloseService";
+import { CreditLimitError } from "../creditLineService";
+import { hasPermission } from "@shared/permissions";
+import {
+  approvalDecisionSchema,
+  approvalRejectSchema,
+  approvalStatusZodEnum,
+  approvalThresholdsRequestSchema,
+  type ApprovalAction,
+} from "@shared/schema";
+
+export function registerApprovalRoutes(app: Express, deps: AppDependencies) {
+  const { storage } = deps;
+
+  // Approvals inbox - pending requests first, with who made and decided them
+  app.get('/api/approvals', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const userId = req.user.claims.sub;
+      const status = req.query.status ? approvalStatusZodEnum.parse(req.query.status) : undefined;
+
+      const [requests, members] = await Promise.all([
+        storage.getApprovalRequests(organizationId, status),
+        storage.getOrganizationMembers(organizationId),
+      ]);
+
+      const nameOf = (memberUserId: string | null) => {
+        if (!memberUserId) return null;
+        const member = members.find(m => m.userId === memberUserId);
+        if (!member) return null;
+        return `${member.user.firstName ?? ''} ${member.user.lastName ?? ''}`.trim() || member.user.email;
+      };
+
+      res.json(requests.map(request => ({
+        ...request,
+        makerName: nameOf(request.makerId),
+        checkerName: nameOf(request.checkerId),
+        canDecide: request.status === 'pending'
+          && request.makerId !== userId
+          && hasPermission(req.memberRole, ApprovalService.areaOf(request.action as ApprovalAction), 'write'),
+      })));
+    } catch (error: any) {
+      console.error("Error fetching approval requests:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid status filter" });
+      }
+      res.status(500).json({ message: "Failed to fetch approval requests" });
+    }
+  });
+
+  app.get('/api/approvals/thresholds', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
+    try {
+      res.json(await storage.getApprovalThresholds(req.organizationId));
+    } catch (error) {
+      console.error("Error fetching approval thresholds:", error);
+      res.status(500).json({ message: "Failed to fetch approval thresholds" });
+    }
+  });
+
+  // Set the amount from which each action needs a checker; null switches approval off for the action
+  app.put('/api/approvals/thresholds', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('organization'), async (req: any, res) => {
+    try {
+      const thresholds = approvalThresholdsRequestSchema.parse(req.body);
+      res.json(await storage.setApprovalThresholds(req.organizationId, thresholds, req.user.claims.sub));
+    } catch (error: any) {
+      console.error("Error updating approval thresholds:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid approval thresholds", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update approval thresholds" });
+    }
+  });
+
+  app.post('/api/approvals/:id/approve', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { comment } = approvalDecisionSchema.parse(req.body);
+
+      const request = await storage.getApprovalRequest(req.params.id, req.organizationId);
+      if (!request) {
+        return res.status(404).json({ message: "Approval request not found" });
+      }
+      if (request.makerId === userId) {
+        return res.status(403).json({ message: "You cannot approve your own request" });
+      }
+      if (!hasPermission(req.memberRole, ApprovalService.areaOf(request.action as ApprovalAction), 'write')) {
+        return res.status(403).json({ message: "Your role does not allow this action" });
+      }
+
+      res.json(await ApprovalService.approve(storage, request, userId, comment));
+    } catch (error: any) {
+      console.error("Error approving request:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid approval", errors: error.errors });
+      }
+      if (error instanceof ApprovalError || error instanceof PeriodClosedError || error instanceof CreditLimitError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: error.message || "Failed to approve request" });
+    }
+  });
+
+  app.post('/api/approvals/:id/reject', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { comment } = approvalRejectSchema.parse(req.body);
+
+      const request = await storage.getApprovalRequest(req.params.id, req.organizationId);
+      if (!request) {
+        return res.status(404).json({ message: "Approval request not found" });
+      }
+      if (request.makerId === userId) {
+        return res.status(403).json({ message: "You cannot reject your own request" });
+      }
+      if (!hasPermission(req.memberRole, ApprovalService.areaOf(request.action as ApprovalAction), 'write')) {
+        return res.status(403).json({ message: "Your role does not allow this action" });
+      }
+
+      res.json(await ApprovalService.reject(storage, request, userId, comment));
+    } catch (error: any) {
+      console.error("Error rejecting request:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "A comment is required to reject", errors: error.errors });
+      }
+      if (error instanceof ApprovalError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reject request" });
+    }
+  });
+}
@@ -1,37 +1,52 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
+import { attachOrganizationContext, requireAttachmentPermission, requireOrganization, requirePermission } from "../organizationMiddleware";
 import {
   insertAttachmentSchema,
   insertAttachmentAuditSchema,
   attachmentUploadIntentSchema,
   updateAttachmentMetaSchema,
   attachmentOwnerTypeZodEnum,
+  attachmentVersionRequestSchema,
+  attachmentLegalHoldRequestSchema,
 } from "@shared/schema";
 import { z } from "zod";
-import crypto from "crypto";
+import { FileStorageService, FileIntegrityError, SIGNED_URL_TTL_SEC } from "../fileStorage";
+import { AttachmentRetentionService, AttachmentVersionError, LegalHoldError } from "../attachmentRetentionService";
 
 export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
-  app.post('/api/attachments/upload-intent', isAuthenticated, async (req: any, res) => {
+  // Looked up across every version so deleted and superseded ones are covered as well
+  const ownerTypeOfAttachment = async (req: any) =>
+    (await storage.getAttachmentVersions(req.params.attachmentId, req.user.claims.sub))[0]?.ownerType;
+  const byAttachment = [isAuthenticated, attachOrganizationContext, requireOrganization, requireAttachmentPermission(ownerTypeOfAttachment)];
+  // Legal holds are placed and released by organization owners, on any member's attachment
+  const byHoldOwner = [isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('organization')];
+
+  // Every version of the attachment, or none when it was not uploaded by a member of the caller's organization
+  const organizationAttachmentChain = async (req: any) => {
+    const versions = await storage.getAttachmentChain(req.params.attachmentId);
+    const original = versions[versions.length - 1];
+    if (!original) return [];
+    const members = await storage.getOrganizationMembers(req.organizationId);
+    return members.some(member => member.userId === original.userId) ? versions : [];
+  };
+
+  app.post('/api/attachments/upload-intent', isAuthenticated, attachOrganizationContext, requireOrganization, requireAttachmentPermission(req => req.body?.ownerType), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const uploadData = attachmentUploadIntentSchema.parse(req.body);
       
-      // Generate storage key
-      const timestamp = new Date().toISOString().slice(0, 7); // YYYY-MM format
-      const fileId = crypto.randomUUID();
-      const sanitizedFileName = uploadData.fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
-      const storageKey = `attachments/${uploadData.ownerType}/${uploadData.ownerId}/${timestamp}/${fileId}_${sanitizedFileName}`;
-      
-      // For now, we'll return a mock signed URL since object storage integration will be added later
-      const signedUrl = `${process.env.PUBLIC_OBJECT_SEARCH_PATHS || '/storage'}/${storageKey}`;
+      // The client PUTs the bytes to the signed URL, then registers the attachment with the key
+      const storageKey = FileStorageService.attachmentKey(uploadData.ownerType, uploadData.ownerId, uploadData.fileName);
+      const uploadUrl = await FileStorageService.driver().createUploadUrl(storageKey, uploadData.contentType, SIGNED_URL_TTL_SEC);
       
       res.json({
         storageKey,
-        uploadUrl: signedUrl,
-        expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString(), // 5 minutes
+        uploadUrl,
+        expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SEC * 1000).toISOString(),
       });
     } catch (error) {
       console.error('Error creating upload intent:', error);
@@ -39,7 +54,7 @@ export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.post('/api/attachments', isAuthenticated, async (req: any, res) => {
+  app.post('/api/attachments', isAuthenticated, attachOrganizationContext, requireOrganization, requireAttachmentPermission(req => req.body?.ownerType), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const attachmentData = insertAttachmentSchema.parse({
@@ -47,8 +62,11 @@ export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
         userId,
         uploadedBy: userId,
       });
+      const { replacesAttachmentId } = attachmentVersionRequestSchema.parse(req.body);
       
-      const attachment = await storage.createAttachment(attachmentData);
+      // The stored bytes must be what the client says it uploaded
+      const checksum = await FileStorageService.verifyUpload(FileStorageService.driver(), attachmentData);
+      const attachment = await AttachmentRetentionService.saveUpload(storage, { ...attachmentData, checksum }, replacesAttachmentId);
       
       // Log audit trail
       await storage.createAttachmentAudit({
@@ -57,17 +75,23 @@ export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
         action: 'upload',
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
-        metadata: { fileName: attachment.fileName, fileSize: attachment.fileSize },
+        metadata: { fileName: attachment.fileName, fileSize: attachment.fileSize, version: attachment.version, replacesAttachmentId },
       });
       
       res.status(201).json(attachment);
     } catch (error) {
       console.error('Error creating attachment:', error);
+      if (error instanceof FileIntegrityError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof AttachmentVersionError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(400).json({ message: 'Failed to create attachment' });
     }
   });
 
-  app.get('/api/attachments', isAuthenticated, async (req: any, res) => {
+  app.get('/api/attachments', isAuthenticated, attachOrganizationContext, requireOrganization, requireAttachmentPermission(req => req.query.ownerType), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       
@@ -75,14 +99,16 @@ export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
       const querySchema = z.object({
         ownerType: attachmentOwnerTypeZodEnum,
         ownerId: z.string().min(1),
+        includeDeleted: z.enum(['true', 'false']).optional(),
       });
       
-      const { ownerType, ownerId } = querySchema.parse(req.query);
+      const { ownerType, ownerId, includeDeleted } = querySchema.parse(req.query);
       
       const attachments = await storage.getAttachmentsByOwner(
         ownerType,
         ownerId,
-        userId
+        userId,
+        { includeDeleted: includeDeleted === 'true' }
       );
       
       res.json(attachments);
@@ -96,7 +122,7 @@ export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/attachments/:attachmentId/download', isAuthenticated, async (req: any, res) => {
+  app.get('/api/attachments/:attachmentId/download', ...byAttachment, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { attachmentId } = req.params;
@@ -105,9 +131,14 @@ export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
       if (!attachment) {
         return res.status(404).json({ message: 'Attachment not found' });
       }
+      if (attachment.purgedAt) {
+        return res.status(410).json({ message: 'This version was purged under the retention policy' });
+      }
       
-      // Generate signed download URL (mock for now)
-      const downloadUrl = `${process.env.PUBLIC_OBJECT_SEARCH_PATHS || '/storage'}/${attachment.storageKey}`;
+      const downloadUrl = await FileStorageService.driver().createDownloadUrl(attachment.storageKey, {
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+      }, SIGNED_URL_TTL_SEC);
       
       // Log audit trail
       await storage.createAttachmentAudit({
@@ -121,7 +152,7 @@ export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
       
       res.json({
         downloadUrl,
-        expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString(), // 5 minutes
+        expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SEC * 1000).toISOString(),
         fileName: attachment.fileName,
         contentType: attachment.contentType,
       });
@@ -131,7 +162,7 @@ export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.patch('/api/attachments/:attachmentId', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/attachments/:attachmentId', ...byAttachment, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { attachmentId } = req.params;
@@ -156,7 +187,7 @@ export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.delete('/api/attachments/:attachmentId', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/attachments/:attachmentId', ...byAttachment, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { attachmentId } = req.params;
@@ -176,11 +207,126 @@ export function registerAttachmentsRoutes(app: Express, deps: AppDependencies) {
       res.status(204).send();
     } catch (error) {
       console.error('Error deleting attachment:', error);
+      if (error instanceof LegalHoldError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: 'Failed to delete attachment' });
     }
   });
 
-  app.get('/api/attachments/:attachmentId/audit', isAuthenticated, async (req: any, res) => {
+  app.get('/api/attachments/:attachmentId/versions', ...byAttachment, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const versions = await storage.getAttachmentVersions(req.params.attachmentId, userId);
+      if (versions.length === 0) {
+        return res.status(404).json({ message: 'Attachment not found' });
+      }
+      
+      res.json(versions);
+    } catch (error) {
+      console.error('Error fetching attachment versions:', error);
+      res.status(500).json({ message: 'Failed to fetch attachment versions' });
+    }
+  });
+
+  app.post('/api/attachments/:attachmentId/restore', ...byAttachment, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { attachmentId } = req.params;
+      
+      // Deleted attachments can be restored until the purge job removes their bytes
+      const attachment = await storage.restoreAttachment(attachmentId, userId);
+      if (!attachment) {
+        return res.status(404).json({ message: 'No deleted attachment to restore' });
+      }
+      
+      await storage.createAttachmentAudit({
+        attachmentId,
+        userId,
+        action: 'restore',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        metadata: { fileName: attachment.fileName },
+      });
+      
+      res.json(attachment);
+    } catch (error) {
+      console.error('Error restoring attachment:', error);
+      res.status(500).json({ message: 'Failed to restore attachment' });
+    }
+  });
+
+  // A legal hold covers every version of the attachment and blocks deletion and purging
+  app.post('/api/attachments/:attachmentId/legal-hold', ...byHoldOwner, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { attachmentId } = req.params;
+      const { reason } = attachmentLegalHoldRequestSchema.parse(req.body);
+      
+      if ((await organizationAttachmentChain(req)).length === 0) {
+        return res.status(404).json({ message: 'Attachment not found' });
+      }
+      
+      const versions = await storage.setAttachmentLegalHold(attachmentId, userId, reason);
+      if (versions.length === 0) {
+        return res.status(404).json({ message: 'Attachment not found' });
+      }
+      
+      await storage.createAttachmentAudit({
+        attachmentId,
+        userId,
+        action: 'legal_hold',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        metadata: { reason, versions: versions.length },
+      });
+      
+      res.json(versions);
+    } catch (error) {
+      console.error('Error placing legal hold:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid legal hold', errors: error.errors });
+      }
+      res.status(500).json({ message: 'Failed to place legal hold' });
+    }
+  });
+
+  app.delete('/api/attachments/:attachmentId/legal-hold', ...byHoldOwner, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { attachmentId } = req.params;
+      
+      const chain = await organizationAttachmentChain(req);
+      if (chain.length === 0) {
+        return res.status(404).json({ message: 'Attachment not found' });
+      }
+      // Whoever the hold covers cannot lift it themselves
+      if (chain.some(version => version.userId === userId)) {
+        return res.status(403).json({ message: 'A legal hold on your own attachment has to be released by another owner' });
+      }
+      
+      const versions = await storage.setAttachmentLegalHold(attachmentId, userId, null);
+      if (versions.length === 0) {
+        return res.status(404).json({ message: 'Attachment not found' });
+      }
+      
+      await storage.createAttachmentAudit({
+        attachmentId,
+        userId,
+        action: 'release_hold',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        metadata: { versions: versions.length },
+      });
+      
+      res.json(versions);
+    } catch (error) {
+      console.error('Error releasing legal hold:', error);
+      res.status(500).json({ message: 'Failed to release legal hold' });
+    }
+  });
+
+  app.get('/api/attachments/:attachmentId/audit', ...byAttachment, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { attachmentId } = req.params;
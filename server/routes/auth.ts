@@ -1,6 +1,7 @@
 import type { Express } from "express";
 import { isAuthenticated } from "../replitAuth";
 import type { AppDependencies } from "../types";
+import { memberRole } from "@shared/permissions";
 
 export function registerAuthRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
@@ -33,6 +34,7 @@ export function registerAuthRoutes(app: Express, deps: AppDependencies) {
           organizationId: userOrg.id,
           organizationName: userOrg.name,
           isOwner: currentMember?.isOwner || false,
+          role: currentMember ? memberRole(currentMember) : undefined,
         };
       }
       
@@ -7,6 +7,7 @@ import {
   insertAiInsightConfigSchema,
   insertDailyAlertsPreferencesSchema 
 } from "@shared/schema";
+import { memberRole } from "@shared/permissions";
 
 // Profile update schema (only firstName and lastName can be updated)
 const profileUpdateSchema = z.object({
@@ -58,7 +59,8 @@ export function registerAuthRoutes(app: Express, storage: IStorage) {
         ...user,
         organizationId: organization.id,
         organizationName: organization.name,
-        isOwner: membership.isOwner
+        isOwner: membership.isOwner,
+        role: memberRole(membership)
       });
     } catch (error) {
       console.error("Error fetching user:", error);
@@ -1,15 +1,18 @@
 import type { Express } from "express";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
+import { attachOrganizationContext, requireOrganization, requireOrgOwner, requirePermission } from "../organizationMiddleware";
 import type { AppDependencies } from "../types";
 import {
   insertBankContactSchema,
+  bankRequestSchema,
+  bankUpdateSchema,
+  bankMergeSchema,
 } from "@shared/schema";
 
 export function registerBanksRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
-  app.get('/api/banks', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/banks', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const banks = await storage.getAllBanks(organizationId);
@@ -20,7 +23,7 @@ export function registerBanksRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/banks/:bankId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/banks/:bankId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { bankId } = req.params;
@@ -38,7 +41,111 @@ export function registerBanksRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/banks/:bankId/contacts', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  // Custom banks (foreign or non-listed lenders) belong to the organization that adds them
+  app.post('/api/banks', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const bankData = bankRequestSchema.parse(req.body);
+
+      if (await storage.getBankByCode(bankData.code, organizationId)) {
+        return res.status(409).json({ message: `A bank with code ${bankData.code} already exists` });
+      }
+
+      const bank = await storage.createBank({ ...bankData, organizationId, isActive: true });
+      res.json(bank);
+    } catch (error: any) {
+      console.error("Error creating bank:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid bank", errors: error.errors });
+      }
+      res.status(400).json({ message: "Failed to create bank" });
+    }
+  });
+
+  app.put('/api/banks/:bankId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const { bankId } = req.params;
+
+      const existing = await storage.getBank(bankId);
+      if (!existing || (existing.organizationId && existing.organizationId !== organizationId)) {
+        return res.status(404).json({ message: "Bank not found" });
+      }
+      if (!existing.organizationId) {
+        return res.status(403).json({ message: "Listed banks are shared by all organizations and cannot be edited" });
+      }
+
+      const updates = bankUpdateSchema.parse(req.body);
+      if (updates.code && updates.code !== existing.code) {
+        const clash = await storage.getBankByCode(updates.code, organizationId);
+        if (clash && clash.id !== bankId) {
+          return res.status(409).json({ message: `A bank with code ${updates.code} already exists` });
+        }
+      }
+
+      res.json(await storage.updateBank(bankId, organizationId, updates));
+    } catch (error: any) {
+      console.error("Error updating bank:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid bank", errors: error.errors });
+      }
+      res.status(400).json({ message: "Failed to update bank" });
+    }
+  });
+
+  app.post('/api/banks/:bankId/archive', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const { bankId } = req.params;
+
+      const existing = await storage.getBank(bankId);
+      if (!existing || (existing.organizationId && existing.organizationId !== organizationId)) {
+        return res.status(404).json({ message: "Bank not found" });
+      }
+      if (!existing.organizationId) {
+        return res.status(403).json({ message: "Listed banks are shared by all organizations and cannot be archived" });
+      }
+
+      res.json(await storage.archiveBank(bankId, organizationId, req.user.claims.sub));
+    } catch (error: any) {
+      console.error("Error archiving bank:", error);
+      res.status(400).json({ message: error.message || "Failed to archive bank" });
+    }
+  });
+
+  // Merge a duplicate custom bank into another bank: its facilities, contacts, attachments and transactions move over
+  app.post('/api/banks/:bankId/merge', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), requireOrgOwner, async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const { bankId } = req.params;
+      const { targetBankId } = bankMergeSchema.parse(req.body);
+
+      if (targetBankId === bankId) {
+        return res.status(400).json({ message: "A bank cannot be merged into itself" });
+      }
+
+      const [source, target] = await Promise.all([storage.getBank(bankId), storage.getBank(targetBankId)]);
+      if (!source || (source.organizationId && source.organizationId !== organizationId)) {
+        return res.status(404).json({ message: "Bank not found" });
+      }
+      if (!source.organizationId) {
+        return res.status(403).json({ message: "Listed banks are shared by all organizations and cannot be merged away" });
+      }
+      if (!target || !target.isActive || (target.organizationId && target.organizationId !== organizationId)) {
+        return res.status(404).json({ message: "Target bank not found" });
+      }
+
+      res.json(await storage.mergeBanks(bankId, targetBankId, organizationId, req.user.claims.sub));
+    } catch (error: any) {
+      console.error("Error merging banks:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid merge request", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Failed to merge banks" });
+    }
+  });
+
+  app.get('/api/banks/:bankId/contacts', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { bankId } = req.params;
@@ -50,7 +157,7 @@ export function registerBanksRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.post('/api/banks/:bankId/contacts', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/banks/:bankId/contacts', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const userId = req.user.claims.sub;
@@ -79,7 +186,7 @@ export function registerBanksRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.put('/api/bank-contacts/:contactId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.put('/api/bank-contacts/:contactId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { contactId } = req.params;
@@ -96,7 +203,7 @@ export function registerBanksRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.delete('/api/bank-contacts/:contactId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.delete('/api/bank-contacts/:contactId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { contactId } = req.params;
@@ -108,7 +215,7 @@ export function registerBanksRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.put('/api/bank-contacts/:contactId/set-primary', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.put('/api/bank-contacts/:contactId/set-primary', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { contactId } = req.params;
@@ -122,7 +229,7 @@ export function registerBanksRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/banks/:bankId/performance', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/banks/:bankId/performance', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { bankId } = req.params;
@@ -135,7 +242,7 @@ export function registerBanksRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/banks/:bankId/analytics', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/banks/:bankId/analytics', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { bankId } = req.params;
@@ -278,7 +385,8 @@ export function registerBanksRoutes(app: Express, deps: AppDependencies) {
         { oldPattern: 'Saudi National Bank', newName: 'Saudi National Bank', newCode: 'SNB' },
       ];
 
-      const allBanks = await storage.getAllBanks();
+      // Only the listed (global) banks are renamed; organizations' own banks keep their names
+      const allBanks = (await storage.getAllBanks()).filter(bank => !bank.organizationId);
       
       for (const bank of allBanks) {
         const migration = bankMigrations.find(m => 
@@ -5,8 +5,14 @@ import { attachOrganizationContext, requireOrganization } from "../organizationM
 import { insertChatConversationSchema, insertChatMessageSchema } from "@shared/schema";
 import multer from "multer";
 import path from "path";
+import { FileStorageService } from "../fileStorage";
+import { extractTextFromFile, getMaxFileSize } from "../fileExtractor";
 
-const upload = multer({ dest: 'uploads/' });
+// Files are buffered in memory and written through the configured file storage driver
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: getMaxFileSize() }
+});
 
 export function registerChatRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
@@ -184,14 +190,26 @@ export function registerChatRoutes(app: Express, deps: AppDependencies) {
         return res.status(404).json({ message: "Conversation not found" });
       }
       
-      const fileName = req.file.originalname;
-      
-      // For now, return basic file info without text extraction
-      // Text extraction can be added later if needed
-      res.json({ 
-        message: "File upload functionality is not yet implemented",
-        fileName
+      const storageKey = FileStorageService.attachmentKey('chat_message', conversationId, req.file.originalname);
+      await FileStorageService.driver().putObject(storageKey, req.file.buffer, req.file.mimetype);
+      
+      const attachment = await storage.createAttachment({
+        ownerType: 'chat_message',
+        ownerId: conversationId,
+        fileName: req.file.originalname,
+        contentType: req.file.mimetype,
+        fileSize: req.file.size,
+        storageKey,
+        checksum: FileStorageService.checksum(req.file.buffer),
+        userId,
+        uploadedBy: userId,
+        category: 'chat_attachment' as any, // Chat-only category, not offered in attachmentCategoryZodEnum
       });
+      
+      // The extracted text is sent along with the next message as context
+      const extractedText = await extractTextFromFile(req.file.buffer, req.file.mimetype, req.file.originalname);
+      
+      res.json({ attachment, extractedText });
     } catch (error) {
       console.error("Error uploading file:", error);
       res.status(500).json({ message: "Failed to upload file" });
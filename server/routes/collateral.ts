@@ -1,13 +1,21 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
-import { insertCollateralSchema, insertCollateralAssignmentSchema } from "@shared/schema";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
+import {
+  insertCollateralSchema,
+  insertCollateralAssignmentSchema,
+  collateralValuationRequestSchema,
+  collateralRevaluationFrequenciesRequestSchema,
+} from "@shared/schema";
+import { CollateralValuationService, DEFAULT_REVALUATION_FREQUENCY_MONTHS } from "../collateralValuationService";
+import { SharePriceService } from "../sharePriceService";
+import { InterestService } from "../interestService";
 
 export function registerCollateralRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
-  app.get('/api/collateral', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/collateral', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const collateral = await storage.getUserCollateral(organizationId);
@@ -18,7 +26,92 @@ export function registerCollateralRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/collateral/:id', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  // LTV per month end from the loan ledgers and the valuations in effect; registered before /:id
+  app.get('/api/collateral/ltv-timeline', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const months = Math.min(Math.max(parseInt(req.query.months as string) || 12, 1), 36);
+      const today = InterestService.toDateString(new Date());
+
+      const [collateralList, valuations, assignments, facilities, activeLoans, settledLoans] = await Promise.all([
+        storage.getUserCollateral(organizationId),
+        storage.getOrganizationCollateralValuations(organizationId),
+        storage.getUserCollateralAssignments(organizationId),
+        storage.getUserFacilities(organizationId),
+        storage.getActiveLoansByUser(organizationId),
+        storage.getSettledLoansByUser(organizationId),
+      ]);
+      const loansWithLedger = await Promise.all([...activeLoans, ...settledLoans].map(async loan => ({
+        loan,
+        ledger: await storage.getLoanLedger(loan.id),
+      })));
+
+      res.json(CollateralValuationService.ltvTimeline({
+        dates: CollateralValuationService.timelineDates(today, months),
+        collateral: collateralList,
+        valuations,
+        assignments,
+        facilities: facilities.map(f => ({
+          id: f.id,
+          bankId: f.bankId,
+          name: `${f.bank.name} - ${f.facilityType.replace(/_/g, ' ')}`,
+          bankName: f.bank.name,
+        })),
+        loans: loansWithLedger,
+      }));
+    } catch (error) {
+      console.error("Error building LTV timeline:", error);
+      res.status(500).json({ message: "Failed to build LTV timeline" });
+    }
+  });
+
+  app.get('/api/collateral/revaluations-due', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const frequencies = CollateralValuationService.revaluationFrequencies(await storage.getCollateralRevaluationFrequencies(organizationId));
+      const collateralList = await storage.getUserCollateral(organizationId);
+      res.json(CollateralValuationService.staleValuations(collateralList, frequencies, InterestService.toDateString(new Date())));
+    } catch (error) {
+      console.error("Error fetching revaluations due:", error);
+      res.status(500).json({ message: "Failed to fetch revaluations due" });
+    }
+  });
+
+  app.get('/api/collateral/revaluation-frequencies', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
+    try {
+      const frequencies = await storage.getCollateralRevaluationFrequencies(req.organizationId);
+      res.json({ defaults: DEFAULT_REVALUATION_FREQUENCY_MONTHS, frequencies });
+    } catch (error) {
+      console.error("Error fetching revaluation frequencies:", error);
+      res.status(500).json({ message: "Failed to fetch revaluation frequencies" });
+    }
+  });
+
+  app.put('/api/collateral/revaluation-frequencies', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('organization'), async (req: any, res) => {
+    try {
+      const request = collateralRevaluationFrequenciesRequestSchema.parse(req.body);
+      const frequencies = await storage.setCollateralRevaluationFrequencies(req.organizationId, request, req.user.claims.sub);
+      res.json({ defaults: DEFAULT_REVALUATION_FREQUENCY_MONTHS, frequencies });
+    } catch (error: any) {
+      console.error("Error updating revaluation frequencies:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid revaluation frequencies", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update revaluation frequencies" });
+    }
+  });
+
+  // Revalue listed shares at the latest imported closing prices instead of waiting for the daily run
+  app.post('/api/collateral/mark-to-market', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
+    try {
+      res.json(await SharePriceService.markToMarket(storage, req.organizationId, InterestService.toDateString(new Date())));
+    } catch (error) {
+      console.error("Error marking collateral to market:", error);
+      res.status(500).json({ message: "Failed to mark collateral to market" });
+    }
+  });
+
+  app.get('/api/collateral/:id', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const collateralId = req.params.id;
@@ -37,7 +130,7 @@ export function registerCollateralRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.post('/api/collateral', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/collateral', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const userId = req.user.claims.sub;
@@ -91,6 +184,12 @@ export function registerCollateralRoutes(app: Express, deps: AppDependencies) {
         } else {
           assignmentData.bankId = bankId;
         }
+
+        // Listed shares with a haircut are pledged at their value after the haircut
+        const pledgedValue = CollateralValuationService.pledgedValue(collateral.currentValue, collateral.haircutPercent);
+        if (pledgedValue !== null) {
+          assignmentData.pledgedValue = pledgedValue;
+        }
         
         await storage.createCollateralAssignment(assignmentData);
         
@@ -125,12 +224,12 @@ export function registerCollateralRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.put('/api/collateral/:id', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.put('/api/collateral/:id', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const collateralId = req.params.id;
       const updates = req.body;
-      const collateral = await storage.updateCollateral(collateralId, organizationId, updates);
+      const collateral = await storage.updateCollateral(collateralId, organizationId, updates, req.user.claims.sub);
       res.json(collateral);
     } catch (error) {
       console.error("Error updating collateral:", error);
@@ -138,7 +237,50 @@ export function registerCollateralRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.delete('/api/collateral/:id', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/collateral/:id/valuations', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
+    try {
+      const collateralList = await storage.getUserCollateral(req.organizationId);
+      if (!collateralList.some((c: any) => c.id === req.params.id)) {
+        return res.status(404).json({ message: "Collateral not found" });
+      }
+      res.json(await storage.getCollateralValuations(req.params.id));
+    } catch (error) {
+      console.error("Error fetching collateral valuations:", error);
+      res.status(500).json({ message: "Failed to fetch collateral valuations" });
+    }
+  });
+
+  app.post('/api/collateral/:id/valuations', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const userId = req.user.claims.sub;
+      const collateralId = req.params.id;
+      const valuation = collateralValuationRequestSchema.parse(req.body);
+
+      const collateralList = await storage.getUserCollateral(organizationId);
+      if (!collateralList.some((c: any) => c.id === collateralId)) {
+        return res.status(404).json({ message: "Collateral not found" });
+      }
+
+      // The valuation report has to be uploaded as an attachment of this collateral first
+      if (valuation.reportAttachmentId) {
+        const report = await storage.getAttachmentById(valuation.reportAttachmentId, userId);
+        if (!report || report.ownerType !== 'collateral' || report.ownerId !== collateralId) {
+          return res.status(400).json({ message: "Valuation report not found among this collateral's attachments" });
+        }
+      }
+
+      res.status(201).json(await storage.addCollateralValuation(collateralId, organizationId, valuation, userId));
+    } catch (error: any) {
+      console.error("Error adding collateral valuation:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid valuation", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add collateral valuation" });
+    }
+  });
+
+  app.delete('/api/collateral/:id', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const collateralId = req.params.id;
@@ -150,7 +292,7 @@ export function registerCollateralRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/collateral-assignments', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/collateral-assignments', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const assignments = await storage.getUserCollateralAssignments(organizationId);
@@ -161,7 +303,7 @@ export function registerCollateralRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.post('/api/collateral-assignments', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/collateral-assignments', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const assignmentData = insertCollateralAssignmentSchema.parse({ ...req.body, organizationId });
@@ -204,7 +346,7 @@ export function registerCollateralRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.put('/api/collateral-assignments/:id', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.put('/api/collateral-assignments/:id', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
     try {
       const assignmentId = req.params.id;
       const organizationId = req.organizationId;
@@ -245,7 +387,7 @@ export function registerCollateralRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.delete('/api/collateral-assignments/:id', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.delete('/api/collateral-assignments/:id', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
     try {
       const assignmentId = req.params.id;
       const organizationId = req.organizationId;
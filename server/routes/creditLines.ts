@@ -0,0 +1,141 @@
+import type { Express } from "express";
+import type { AppDependencies } from "../types";
+import { isAuthenticated } from "../replitAuth";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
+import { CreditLineService, CreditLimitError } from "../creditLineService";
+import { insertCreditLineSchema } from "@shared/schema";
+
+const creditLineUpdateSchema = insertCreditLineSchema
+  .omit({ organizationId: true, facilityId: true, userId: true })
+  .partial();
+
+export function registerCreditLineRoutes(app: Express, deps: AppDependencies) {
+  const { storage } = deps;
+
+  // All active credit lines of the organization, used by the loan and collateral forms
+  app.get('/api/credit-lines', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      res.json(await storage.getUserCreditLines(req.organizationId));
+    } catch (error) {
+      console.error("Error fetching credit lines:", error);
+      res.status(500).json({ message: "Failed to fetch credit lines" });
+    }
+  });
+
+  app.get('/api/facilities/:facilityId/credit-lines', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      const creditLines = await storage.getUserCreditLines(req.organizationId);
+      res.json(creditLines.filter(cl => cl.facilityId === req.params.facilityId));
+    } catch (error) {
+      console.error("Error fetching facility credit lines:", error);
+      res.status(500).json({ message: "Failed to fetch credit lines" });
+    }
+  });
+
+  app.get('/api/facilities/:facilityId/credit-lines/:creditLineId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      const creditLine = await storage.getCreditLine(req.params.creditLineId, req.organizationId);
+      if (!creditLine || creditLine.facilityId !== req.params.facilityId) {
+        return res.status(404).json({ message: "Credit line not found" });
+      }
+      res.json(creditLine);
+    } catch (error) {
+      console.error("Error fetching credit line:", error);
+      res.status(500).json({ message: "Failed to fetch credit line" });
+    }
+  });
+
+  app.post('/api/facilities/:facilityId/credit-lines', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const { facilityId } = req.params;
+
+      const userFacilities = await storage.getUserFacilities(organizationId);
+      const facility = userFacilities.find((f: any) => f.id === facilityId);
+      if (!facility) {
+        return res.status(404).json({ message: "Facility not found or access denied" });
+      }
+
+      const creditLineData = insertCreditLineSchema.parse({
+        ...req.body,
+        organizationId,
+        facilityId,
+        userId: req.user.claims.sub,
+        isActive: true,
+      });
+
+      const facilityLines = (await storage.getUserCreditLines(organizationId)).filter(cl => cl.facilityId === facilityId);
+      CreditLineService.assertWithinFacility(facility, facilityLines, { creditLimit: creditLineData.creditLimit });
+
+      res.json(await storage.createCreditLine(creditLineData));
+    } catch (error: any) {
+      console.error("Error creating credit line:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid credit line", errors: error.errors });
+      }
+      if (error instanceof CreditLimitError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Failed to create credit line" });
+    }
+  });
+
+  app.put('/api/facilities/:facilityId/credit-lines/:creditLineId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const { facilityId, creditLineId } = req.params;
+
+      const existing = await storage.getCreditLine(creditLineId, organizationId);
+      if (!existing || existing.facilityId !== facilityId) {
+        return res.status(404).json({ message: "Credit line not found" });
+      }
+
+      const updates = creditLineUpdateSchema.parse(req.body);
+
+      if (updates.creditLimit !== undefined || updates.isActive === true) {
+        const facility = await storage.getFacilityWithBank(facilityId);
+        if (!facility) {
+          return res.status(404).json({ message: "Facility not found" });
+        }
+        const facilityLines = (await storage.getUserCreditLines(organizationId)).filter(cl => cl.facilityId === facilityId);
+        CreditLineService.assertWithinFacility(facility, facilityLines, {
+          id: creditLineId,
+          creditLimit: updates.creditLimit ?? existing.creditLimit,
+        });
+      }
+
+      res.json(await storage.updateCreditLine(creditLineId, organizationId, updates));
+    } catch (error: any) {
+      console.error("Error updating credit line:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid credit line", errors: error.errors });
+      }
+      if (error instanceof CreditLimitError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Failed to update credit line" });
+    }
+  });
+
+  // Lines that loans still reference are deactivated, so only lines without outstanding loans can go
+  app.delete('/api/facilities/:facilityId/credit-lines/:creditLineId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const { facilityId, creditLineId } = req.params;
+
+      const existing = await storage.getCreditLine(creditLineId, organizationId);
+      if (!existing || existing.facilityId !== facilityId) {
+        return res.status(404).json({ message: "Credit line not found" });
+      }
+
+      await storage.deleteCreditLine(creditLineId, organizationId);
+      res.json({ message: "Credit line deleted successfully" });
+    } catch (error: any) {
+      console.error("Error deleting credit line:", error);
+      if (error instanceof CreditLimitError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete credit line" });
+    }
+  });
+}
@@ -38,6 +38,8 @@ export function registerDashboardRoutes(app: Express, deps: AppDependencies) {
         filteredLoans = filteredLoans.filter((loan: any) => typeFacilityIds.includes(loan.facilityId));
       }
       
+      const balances = await storage.calculateLoanBalances(filteredLoans.map((loan: any) => loan.id));
+      
       const now = new Date();
       const months: any[] = [];
       for (let i = 0; i < 12; i++) {
@@ -59,7 +61,7 @@ export function registerDashboardRoutes(app: Express, deps: AppDependencies) {
         const monthData = months.find(m => m.monthKey === monthKey);
         if (monthData) {
           monthData.count += 1;
-          monthData.amount += parseFloat(loan.amount.toString());
+          monthData.amount += balances[loan.id]?.total ?? 0;
         }
       });
       
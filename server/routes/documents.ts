@@ -1,13 +1,13 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
+import { attachOrganizationContext, requireAttachmentPermission, requireOrganization } from "../organizationMiddleware";
 import multer from "multer";
-import { ObjectStorageService } from "../objectStorage";
-import { ObjectAccessGroupType, ObjectPermission } from "../objectAcl";
-import { ObjectNotFoundError } from "../objectStorage";
+import { FileStorageService } from "../fileStorage";
+import { AttachmentRetentionService, AttachmentVersionError, LegalHoldError } from "../attachmentRetentionService";
+import { attachmentCategoryZodEnum, attachmentOwnerTypeZodEnum } from "@shared/schema";
 
-// Configure multer for memory storage (temporary)
+// Files are buffered in memory and written through the configured file storage driver
 const upload = multer({ 
   storage: multer.memoryStorage(),
   limits: { fileSize: 25 * 1024 * 1024 } // 25MB limit
@@ -16,67 +16,46 @@ const upload = multer({
 export function registerDocumentsRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
-  // Upload document endpoint (connects existing DocumentUpload component to object storage)
-  app.post("/api/documents/upload", isAuthenticated, attachOrganizationContext, requireOrganization, upload.single('file'), async (req: any, res) => {
+  // Upload document endpoint (used by the DocumentUpload component)
+  app.post("/api/documents/upload", isAuthenticated, attachOrganizationContext, requireOrganization, upload.single('file'), requireAttachmentPermission(req => req.body?.entityType), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file provided" });
       }
 
-      const { entityType, entityId, category, description } = req.body;
+      const { entityId, category, description, replacesAttachmentId } = req.body;
       const userId = req.user?.claims?.sub;
-      const organizationId = req.organizationId;
+      const ownerType = attachmentOwnerTypeZodEnum.safeParse(req.body.entityType);
 
-      if (!organizationId) {
-        return res.status(400).json({ error: "Organization context required" });
+      if (!ownerType.success || !entityId) {
+        return res.status(400).json({ error: "A valid entityType and entityId are required" });
       }
 
-      // Get upload URL from object storage
-      const objectStorageService = new ObjectStorageService();
-      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
-
-      // Upload file to object storage using the presigned URL
-      const uploadResponse = await fetch(uploadURL, {
-        method: 'PUT',
-        body: req.file.buffer,
-        headers: {
-          'Content-Type': req.file.mimetype,
-        },
-      });
-
-      if (!uploadResponse.ok) {
-        throw new Error('Failed to upload file to storage');
-      }
-
-      // Set ACL policy for the uploaded file
-      const objectPath = await objectStorageService.trySetObjectEntityAclPolicy(
-        uploadURL,
-        {
-          owner: userId!,
-          visibility: "private",
-          aclRules: [
-            {
-              group: {
-                type: ObjectAccessGroupType.ORGANIZATION_MEMBER,
-                id: organizationId,
-              },
-              permission: ObjectPermission.READ,
-            },
-          ],
-        },
-      );
+      const storageKey = FileStorageService.attachmentKey(ownerType.data, entityId, req.file.originalname);
+      await FileStorageService.driver().putObject(storageKey, req.file.buffer, req.file.mimetype);
 
-      // Create attachment record in database
-      const attachment = await storage.createAttachment({
-        ownerType: entityType as any,
+      const parsedCategory = attachmentCategoryZodEnum.safeParse(category);
+      const attachment = await AttachmentRetentionService.saveUpload(storage, {
+        ownerType: ownerType.data,
         ownerId: entityId,
         fileName: req.file.originalname,
-        fileType: req.file.mimetype,
+        contentType: req.file.mimetype,
         fileSize: req.file.size,
-        fileUrl: objectPath, // Store the object storage path
+        storageKey,
+        checksum: FileStorageService.checksum(req.file.buffer),
         userId: userId!,
-        category: category || 'other',
+        uploadedBy: userId!,
+        category: parsedCategory.success ? parsedCategory.data : 'other',
         description: description || null,
+      }, replacesAttachmentId || undefined);
+
+      await storage.createAttachmentAudit({
+        attachmentId: attachment.id,
+        userId: userId!,
+        action: 'upload',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        metadata: { fileName: attachment.fileName, fileSize: attachment.fileSize, version: attachment.version },
       });
 
       res.status(200).json({
@@ -87,6 +66,9 @@ export function registerDocumentsRoutes(app: Express, deps: AppDependencies) {
 
     } catch (error) {
       console.error("Error uploading document:", error);
+      if (error instanceof AttachmentVersionError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(500).json({ 
         error: "Failed to upload document",
         message: error instanceof Error ? error.message : "Unknown error"
@@ -95,7 +77,7 @@ export function registerDocumentsRoutes(app: Express, deps: AppDependencies) {
   });
 
   // Get documents for entity
-  app.get("/api/documents/:entityType/:entityId", isAuthenticated, async (req, res) => {
+  app.get("/api/documents/:entityType/:entityId", isAuthenticated, attachOrganizationContext, requireOrganization, requireAttachmentPermission(req => req.params.entityType), async (req, res) => {
     try {
       const { entityType, entityId } = req.params;
       const userId = req.user?.claims?.sub;
@@ -114,7 +96,7 @@ export function registerDocumentsRoutes(app: Express, deps: AppDependencies) {
   });
 
   // Delete document
-  app.delete("/api/documents/:documentId", isAuthenticated, async (req, res) => {
+  app.delete("/api/documents/:documentId", isAuthenticated, attachOrganizationContext, requireOrganization, requireAttachmentPermission(async req => (await storage.getAttachmentVersions(req.params.documentId, req.user.claims.sub))[0]?.ownerType), async (req, res) => {
     try {
       const { documentId } = req.params;
       const userId = req.user?.claims?.sub;
@@ -124,6 +106,9 @@ export function registerDocumentsRoutes(app: Express, deps: AppDependencies) {
       res.json({ success: true, message: "Document deleted successfully" });
     } catch (error) {
       console.error("Error deleting document:", error);
+      if (error instanceof LegalHoldError) {
+        return res.status(409).json({ error: "Document is on legal hold and cannot be deleted" });
+      }
       res.status(500).json({ error: "Failed to delete document" });
     }
   });
@@ -1,8 +1,9 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
 import { insertFacilitySchema } from "@shared/schema";
+import { CreditLineService, CreditLimitError } from "../creditLineService";
 
 async function initializeSampleFacilities(storage: any, organizationId: string) {
   try {
@@ -23,7 +24,7 @@ async function initializeSampleFacilities(storage: any, organizationId: string)
 export function registerFacilitiesRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
-  app.get('/api/facilities', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/facilities', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       
@@ -37,7 +38,7 @@ export function registerFacilitiesRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.post('/api/facilities', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/facilities', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const userId = req.user.claims.sub;
@@ -69,7 +70,7 @@ export function registerFacilitiesRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/facilities/:facilityId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/facilities/:facilityId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { facilityId } = req.params;
@@ -91,7 +92,7 @@ export function registerFacilitiesRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/facilities/:facilityId/revolving-usage', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/facilities/:facilityId/revolving-usage', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { facilityId } = req.params;
@@ -189,7 +190,7 @@ export function registerFacilitiesRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.put('/api/facilities/:facilityId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.put('/api/facilities/:facilityId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { facilityId } = req.params;
@@ -209,16 +210,25 @@ export function registerFacilitiesRoutes(app: Express, deps: AppDependencies) {
       
       const facilityUpdateSchema = insertFacilitySchema.omit({ organizationId: true }).partial();
       const validatedData = facilityUpdateSchema.parse(updateData);
+
+      // The facility limit has to keep covering the limits already given out to its credit lines
+      if (validatedData.creditLimit !== undefined) {
+        const facilityLines = (await storage.getUserCreditLines(organizationId)).filter(cl => cl.facilityId === facilityId);
+        CreditLineService.assertWithinFacility({ creditLimit: validatedData.creditLimit }, facilityLines);
+      }
       
       const updatedFacility = await storage.updateFacility(facilityId, organizationId, validatedData);
       res.json(updatedFacility);
     } catch (error) {
       console.error("Error updating facility:", error);
+      if (error instanceof CreditLimitError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(400).json({ message: "Failed to update facility" });
     }
   });
 
-  app.delete('/api/facilities/:facilityId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.delete('/api/facilities/:facilityId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { facilityId } = req.params;
@@ -0,0 +1,115 @@
+import type { Express } from "express";
+import type { AppDependencies } from "../types";
+import { isAuthenticated } from "../replitAuth";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
+import { facilityAgreementImportSchema, insertCreditLineSchema, insertFacilitySchema } from "@shared/schema";
+import { FileStorageService } from "../fileStorage";
+import { ObjectNotFoundError } from "../objectStorage";
+import { extractTextFromFile } from "../fileExtractor";
+import { AgreementExtractionService, AgreementExtractionError } from "../agreementExtractionService";
+import { CreditLineService, CreditLimitError } from "../creditLineService";
+import { LlmBudgetError } from "../llmClient";
+
+// Import from agreement: an uploaded facility_agreement attachment is read into a draft, which the
+// user reviews and confirms before the facility and its credit lines are created
+export function registerFacilityAgreementRoutes(app: Express, deps: AppDependencies) {
+  const { storage } = deps;
+
+  const agreementOf = async (attachmentId: string, userId: string) => {
+    const attachment = await storage.getAttachmentById(attachmentId, userId);
+    return attachment?.category === 'facility_agreement' && !attachment.purgedAt ? attachment : undefined;
+  };
+
+  app.post('/api/facility-agreements/:attachmentId/extract', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const attachment = await agreementOf(req.params.attachmentId, userId);
+      if (!attachment) {
+        return res.status(404).json({ message: "Facility agreement not found" });
+      }
+
+      const content = await FileStorageService.driver().getObject(attachment.storageKey);
+      const text = await extractTextFromFile(content, attachment.contentType, attachment.fileName);
+      const banks = await storage.getAllBanks(req.organizationId);
+
+      const model = await AgreementExtractionService.model(storage, req.organizationId, userId);
+      const draft = await AgreementExtractionService.extract(model, attachment, text, banks);
+      res.json(draft);
+    } catch (error) {
+      console.error("Error extracting facility agreement:", error);
+      if (error instanceof AgreementExtractionError) {
+        return res.status(422).json({ message: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "The agreement file is missing from storage" });
+      }
+      if (error instanceof LlmBudgetError) {
+        return res.status(429).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to read facility agreement" });
+    }
+  });
+
+  app.post('/api/facility-agreements/:attachmentId/import', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('facilities'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const userId = req.user.claims.sub;
+      const attachment = await agreementOf(req.params.attachmentId, userId);
+      if (!attachment) {
+        return res.status(404).json({ message: "Facility agreement not found" });
+      }
+
+      const confirmed = facilityAgreementImportSchema.parse(req.body);
+      const bank = await storage.getBank(confirmed.bankId);
+      if (!bank || (bank.organizationId && bank.organizationId !== organizationId)) {
+        return res.status(404).json({ message: "Bank not found" });
+      }
+
+      const facilityData = insertFacilitySchema.parse({
+        ...confirmed.facility,
+        terms: AgreementExtractionService.termsFrom(confirmed.covenants, confirmed.fees, attachment.fileName),
+        bankId: bank.id,
+        organizationId,
+        userId,
+        isActive: true,
+      });
+      const lineData = confirmed.creditLines.map(line => insertCreditLineSchema.omit({ facilityId: true }).parse({
+        ...line,
+        organizationId,
+        userId,
+        startDate: facilityData.startDate,
+        expiryDate: facilityData.expiryDate ?? undefined,
+        isActive: true,
+      }));
+      // Everything is checked before anything is written, and the facility and its lines are written
+      // in one go, so a bad sub-limit or a failed insert does not leave half an import
+      CreditLineService.assertWithinFacility(facilityData, lineData.map((line, index) => ({
+        id: String(index),
+        creditLimit: line.creditLimit,
+        isActive: true,
+      })));
+
+      const { facility, creditLines } = await storage.createFacilityWithCreditLines(facilityData, lineData);
+
+      await storage.createAttachmentAudit({
+        attachmentId: attachment.id,
+        userId,
+        action: 'update_meta',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        metadata: { importedFacilityId: facility.id, creditLines: creditLines.length },
+      });
+
+      res.status(201).json({ facility, creditLines });
+    } catch (error: any) {
+      console.error("Error importing facility agreement:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid facility", errors: error.errors });
+      }
+      if (error instanceof CreditLimitError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to import facility agreement" });
+    }
+  });
+}
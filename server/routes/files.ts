@@ -0,0 +1,66 @@
+import type { Express } from "express";
+import { FileStorageService, LocalDiskStorageDriver, LOCAL_FILE_ROUTE } from "../fileStorage";
+import { ObjectNotFoundError } from "../objectStorage";
+
+// Signed upload and download URLs of the local disk driver. The signature is the authorization,
+// so these routes are not behind isAuthenticated (the other drivers hand out their own URLs).
+export function registerFileRoutes(app: Express) {
+  const localDriver = () => {
+    const driver = FileStorageService.driver();
+    return driver instanceof LocalDiskStorageDriver ? driver : null;
+  };
+  const keyOf = (req: any) => decodeURIComponent(req.params.key as string);
+
+  app.put(`${LOCAL_FILE_ROUTE}/:key(*)`, async (req: any, res) => {
+    try {
+      const driver = localDriver();
+      if (!driver) {
+        return res.sendStatus(404);
+      }
+
+      const key = keyOf(req);
+      if (!driver.verify('PUT', key, req.query)) {
+        return res.status(403).json({ message: "Upload URL is invalid or has expired" });
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ message: "No file content" });
+      }
+
+      await driver.putObject(key, req.body);
+      res.status(200).json({ storageKey: key, size: req.body.length });
+    } catch (error) {
+      console.error("Error storing uploaded file:", error);
+      res.status(500).json({ message: "Failed to store file" });
+    }
+  });
+
+  app.get(`${LOCAL_FILE_ROUTE}/:key(*)`, async (req: any, res) => {
+    try {
+      const driver = localDriver();
+      if (!driver) {
+        return res.sendStatus(404);
+      }
+
+      const key = keyOf(req);
+      if (!driver.verify('GET', key, req.query)) {
+        return res.status(403).json({ message: "Download URL is invalid or has expired" });
+      }
+
+      const body = await driver.getObject(key);
+      const fileName = String(req.query.fileName || key.split('/').pop()).replace(/"/g, '');
+      res.set({
+        "Content-Type": req.query.contentType || "application/octet-stream",
+        "Content-Length": String(body.length),
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "private, max-age=300",
+      });
+      res.send(body);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.sendStatus(404);
+      }
+      console.error("Error serving file:", error);
+      res.status(500).json({ message: "Failed to read file" });
+    }
+  });
+}
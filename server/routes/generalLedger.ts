@@ -0,0 +1,121 @@
+import type { Express } from "express";
+import type { AppDependencies } from "../types";
+import { isAuthenticated } from "../replitAuth";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
+import { GeneralLedgerService } from "../generalLedgerService";
+import { hasPermission } from "@shared/permissions";
+import {
+  glExportRequestSchema,
+  glJournalQuerySchema,
+  insertGlAccountMappingSchema,
+} from "@shared/schema";
+
+export function registerGeneralLedgerRoutes(app: Express, deps: AppDependencies) {
+  const { storage } = deps;
+
+  // Chart-of-accounts mapping
+  app.get('/api/gl/account-mappings', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
+    try {
+      res.json(await storage.getGlAccountMappings(req.organizationId));
+    } catch (error) {
+      console.error("Error fetching GL account mappings:", error);
+      res.status(500).json({ message: "Failed to fetch GL account mappings" });
+    }
+  });
+
+  // Create or replace the mapping for an entry type, bank and facility type
+  app.post('/api/gl/account-mappings', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const mapping = insertGlAccountMappingSchema.parse(req.body);
+
+      if (mapping.bankId) {
+        const banks = await storage.getAllBanks(organizationId);
+        if (!banks.some(b => b.id === mapping.bankId)) {
+          return res.status(404).json({ message: "Bank not found" });
+        }
+      }
+
+      res.json(await storage.upsertGlAccountMapping(organizationId, mapping));
+    } catch (error: any) {
+      console.error("Error saving GL account mapping:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid account mapping", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save GL account mapping" });
+    }
+  });
+
+  app.delete('/api/gl/account-mappings/:id', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
+    try {
+      await storage.deleteGlAccountMapping(req.params.id, req.organizationId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting GL account mapping:", error);
+      res.status(500).json({ message: "Failed to delete GL account mapping" });
+    }
+  });
+
+  // Journal preview for a period, including postings that still need an account mapping
+  app.get('/api/gl/journals', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
+    try {
+      const query = glJournalQuerySchema.parse({
+        from: req.query.from,
+        to: req.query.to,
+        includeExported: req.query.includeExported === 'true',
+      });
+      res.json(await GeneralLedgerService.generate(storage, req.organizationId, query.from, query.to, query.includeExported));
+    } catch (error: any) {
+      console.error("Error generating journals:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid journal period", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to generate journals" });
+    }
+  });
+
+  // Download journals as CSV or journal JSON, optionally marking them as exported
+  app.post('/api/gl/exports', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports', 'read'), async (req: any, res) => {
+    try {
+      const request = glExportRequestSchema.parse(req.body);
+      // Previewing journals only needs read access, recording the export changes what later exports pick up
+      if (request.markExported && !hasPermission(req.memberRole, 'reports', 'write')) {
+        return res.status(403).json({ message: "Your role does not allow marking journals as exported" });
+      }
+      const file = await GeneralLedgerService.exportPeriod(storage, req.organizationId, request, req.user.claims.sub);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      if (file.export) {
+        res.setHeader('X-GL-Export-Id', file.export.id);
+      }
+      res.send(file.body);
+    } catch (error: any) {
+      console.error("Error exporting journals:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid export request", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Failed to export journals" });
+    }
+  });
+
+  app.get('/api/gl/exports', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
+    try {
+      res.json(await storage.getGlExports(req.organizationId));
+    } catch (error) {
+      console.error("Error fetching GL exports:", error);
+      res.status(500).json({ message: "Failed to fetch GL exports" });
+    }
+  });
+
+  // Undo a marked export (e.g. the ERP rejected the file) so its transactions are exported again
+  app.delete('/api/gl/exports/:id', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
+    try {
+      await storage.deleteGlExport(req.params.id, req.organizationId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting GL export:", error);
+      res.status(500).json({ message: "Failed to delete GL export" });
+    }
+  });
+}
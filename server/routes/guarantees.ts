@@ -1,13 +1,34 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
-import { insertGuaranteeSchema, updateGuaranteeSchema } from "@shared/schema";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
+import { GuaranteeService, GuaranteeActionError, type GuaranteeActionChange } from "../guaranteeService";
+import { PeriodClosedError } from "../periodCloseService";
+import { DEFAULT_CREDIT_CONVERSION_FACTORS } from "../exposureService";
+import {
+  insertGuaranteeSchema,
+  updateGuaranteeSchema,
+  guaranteeRenewSchema,
+  guaranteeAmendSchema,
+  guaranteeCallSchema,
+  guaranteeReleaseSchema,
+  guaranteeCommissionPaymentSchema,
+  creditConversionFactorsRequestSchema,
+  type Guarantee,
+} from "@shared/schema";
+
+// Lifecycle actions by route segment, each validating its own request body
+const LIFECYCLE_ACTIONS: Record<string, (guarantee: Guarantee, body: unknown) => GuaranteeActionChange> = {
+  renew: (guarantee, body) => GuaranteeService.renew(guarantee, guaranteeRenewSchema.parse(body)),
+  amend: (guarantee, body) => GuaranteeService.amend(guarantee, guaranteeAmendSchema.parse(body)),
+  call: (guarantee, body) => GuaranteeService.call(guarantee, guaranteeCallSchema.parse(body)),
+  release: (guarantee, body) => GuaranteeService.release(guarantee, guaranteeReleaseSchema.parse(body)),
+};
 
 export function registerGuaranteesRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
-  app.get('/api/guarantees', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/guarantees', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const guarantees = await storage.getUserGuarantees(organizationId);
@@ -18,7 +39,32 @@ export function registerGuaranteesRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/guarantees/:guaranteeId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  // Credit conversion factors weighing guarantees in exposure; registered before /:guaranteeId
+  app.get('/api/guarantees/conversion-factors', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
+    try {
+      const factors = await storage.getCreditConversionFactors(req.organizationId);
+      res.json({ defaults: DEFAULT_CREDIT_CONVERSION_FACTORS, factors });
+    } catch (error) {
+      console.error("Error fetching credit conversion factors:", error);
+      res.status(500).json({ message: "Failed to fetch credit conversion factors" });
+    }
+  });
+
+  app.put('/api/guarantees/conversion-factors', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('organization'), async (req: any, res) => {
+    try {
+      const request = creditConversionFactorsRequestSchema.parse(req.body);
+      const factors = await storage.setCreditConversionFactors(req.organizationId, request, req.user.claims.sub);
+      res.json({ defaults: DEFAULT_CREDIT_CONVERSION_FACTORS, factors });
+    } catch (error: any) {
+      console.error("Error updating credit conversion factors:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid credit conversion factors", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update credit conversion factors" });
+    }
+  });
+
+  app.get('/api/guarantees/:guaranteeId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { guaranteeId } = req.params;
@@ -35,7 +81,7 @@ export function registerGuaranteesRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.post('/api/guarantees', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/guarantees', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const userId = req.user?.claims?.sub;
@@ -75,7 +121,7 @@ export function registerGuaranteesRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.put('/api/guarantees/:guaranteeId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.put('/api/guarantees/:guaranteeId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { guaranteeId } = req.params;
@@ -99,7 +145,7 @@ export function registerGuaranteesRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.delete('/api/guarantees/:guaranteeId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.delete('/api/guarantees/:guaranteeId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { guaranteeId } = req.params;
@@ -118,7 +164,97 @@ export function registerGuaranteesRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/facilities/:facilityId/guarantees', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  // Versioned history of renewals, amendments, calls and releases, oldest first
+  app.get('/api/guarantees/:guaranteeId/history', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
+    try {
+      const guarantee = await storage.getGuaranteeById(req.params.guaranteeId);
+      if (!guarantee || guarantee.organizationId !== req.organizationId) {
+        return res.status(404).json({ message: "Guarantee not found" });
+      }
+
+      res.json(await storage.getGuaranteeVersions(guarantee.id));
+    } catch (error) {
+      console.error("Error fetching guarantee history:", error);
+      res.status(500).json({ message: "Failed to fetch guarantee history" });
+    }
+  });
+
+  // Commission charged per period by the guarantee scheduler and on lifecycle actions
+  app.get('/api/guarantees/:guaranteeId/commissions', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
+    try {
+      const guarantee = await storage.getGuaranteeById(req.params.guaranteeId);
+      if (!guarantee || guarantee.organizationId !== req.organizationId) {
+        return res.status(404).json({ message: "Guarantee not found" });
+      }
+
+      res.json(await storage.getGuaranteeCommissions(guarantee.id));
+    } catch (error) {
+      console.error("Error fetching guarantee commissions:", error);
+      res.status(500).json({ message: "Failed to fetch guarantee commissions" });
+    }
+  });
+
+  app.post('/api/guarantees/:guaranteeId/commissions/:commissionId/pay', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const { guaranteeId, commissionId } = req.params;
+
+      const guarantee = await storage.getGuaranteeById(guaranteeId);
+      if (!guarantee || guarantee.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Guarantee not found" });
+      }
+      const commissions = await storage.getGuaranteeCommissions(guaranteeId);
+      if (!commissions.some(c => c.id === commissionId)) {
+        return res.status(404).json({ message: "Commission not found" });
+      }
+
+      const { date } = guaranteeCommissionPaymentSchema.parse(req.body);
+      const commission = await storage.markGuaranteeCommissionPaid(commissionId, organizationId, date, req.user.claims.sub);
+      if (!commission) {
+        return res.status(409).json({ message: "This commission is already marked as paid" });
+      }
+
+      res.json(commission);
+    } catch (error: any) {
+      console.error("Error marking guarantee commission paid:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors?.[0]?.message || "Invalid request", errors: error.errors });
+      }
+      if (error instanceof PeriodClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to mark commission as paid" });
+    }
+  });
+
+  // Renew, amend, call and release - each writes a guarantee version and its ledger entry
+  for (const [action, plan] of Object.entries(LIFECYCLE_ACTIONS)) {
+    app.post(`/api/guarantees/:guaranteeId/${action}`, isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
+      try {
+        const organizationId = req.organizationId;
+        const { guaranteeId } = req.params;
+
+        const existing = await storage.getGuaranteeById(guaranteeId);
+        if (!existing || existing.organizationId !== organizationId) {
+          return res.status(404).json({ message: "Guarantee not found" });
+        }
+
+        const result = await storage.applyGuaranteeAction(guaranteeId, organizationId, req.user.claims.sub, guarantee => plan(guarantee, req.body));
+        res.json(result);
+      } catch (error: any) {
+        console.error(`Error applying guarantee ${action}:`, error);
+        if (error.name === 'ZodError') {
+          return res.status(400).json({ message: error.errors?.[0]?.message || "Invalid request", errors: error.errors });
+        }
+        if (error instanceof GuaranteeActionError || error instanceof PeriodClosedError) {
+          return res.status(409).json({ message: error.message });
+        }
+        res.status(500).json({ message: `Failed to ${action} guarantee` });
+      }
+    });
+  }
+
+  app.get('/api/facilities/:facilityId/guarantees', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { facilityId } = req.params;
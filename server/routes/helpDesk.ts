@@ -1,12 +1,14 @@
 import type { Express } from "express";
+import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
+import { attachOrganizationContext } from "../organizationMiddleware";
 import { HelpDeskService } from "../helpDeskService";
 
-export function registerHelpDeskRoutes(app: Express) {
-  const helpDeskService = new HelpDeskService();
+export function registerHelpDeskRoutes(app: Express, deps: AppDependencies) {
+  const helpDeskService = new HelpDeskService(deps.storage);
 
   // Process help desk questions (no conversation history)
-  app.post('/api/help/chat', isAuthenticated, async (req: any, res) => {
+  app.post('/api/help/chat', isAuthenticated, attachOrganizationContext, async (req: any, res) => {
     try {
       const { question } = req.body;
 
@@ -14,7 +16,7 @@ export function registerHelpDeskRoutes(app: Express) {
         return res.status(400).json({ answer: "Question is required" });
       }
 
-      const response = await helpDeskService.processQuestion(question);
+      const response = await helpDeskService.processQuestion(question, req.user.claims.sub, req.organizationId);
       res.json(response);
     } catch (error) {
       console.error("Error processing help desk question:", error);
@@ -17,24 +17,33 @@ import { registerHelpDeskRoutes } from "./helpDesk";
 import { registerOrganizationRoutes } from "./organization";
 import { registerReportsRoutes } from "./reports";
 import { registerObjectStorageRoutes } from "./objectStorage";
+import { registerFileRoutes } from "./files";
 import { registerDocumentsRoutes } from "./documents";
 import { registerTestEmailRoutes } from "./test-emails";
 import { registerChatRoutes } from "./chat";
 import { registerPaymentRoutes } from "./payments";
 import { registerSnapshotRoutes } from "./snapshots";
 import { registerAnalyticsRoutes } from "./analytics";
+import { registerReconciliationRoutes } from "./reconciliation";
+import { registerGeneralLedgerRoutes } from "./generalLedger";
+import { registerAccountingPeriodRoutes } from "./accountingPeriods";
+import { registerCreditLineRoutes } from "./creditLines";
+import { registerApprovalRoutes } from "./approvals";
+import { registerMarginCallRoutes } from "./marginCalls";
+import { registerFacilityAgreementRoutes } from "./facilityAgreements";
 
 export function registerAllRoutes(app: Express, deps: AppDependencies) {
   registerAuthRoutes(app, deps);
   registerBanksRoutes(app, deps);
   registerDashboardRoutes(app, deps);
   registerFacilitiesRoutes(app, deps);
+  registerCreditLineRoutes(app, deps);
   registerCollateralRoutes(app, deps);
   registerLoansRoutes(app, deps);
   registerAdminRoutes(app, deps);
   registerAiRoutes(app, deps);
   registerAgentRoutes(app, deps);
-  registerHelpDeskRoutes(app);
+  registerHelpDeskRoutes(app, deps);
   registerChatRoutes(app, deps);
   registerRemindersRoutes(app, deps);
   registerGuaranteesRoutes(app, deps);
@@ -44,9 +53,16 @@ export function registerAllRoutes(app: Express, deps: AppDependencies) {
   registerOrganizationRoutes(app, deps);
   registerReportsRoutes(app, deps);
   registerObjectStorageRoutes(app, deps);
+  registerFileRoutes(app);
   registerPaymentRoutes(app, deps);
   registerSnapshotRoutes(app, deps);
   registerAnalyticsRoutes(app, deps);
+  registerReconciliationRoutes(app, deps);
+  registerGeneralLedgerRoutes(app, deps);
+  registerAccountingPeriodRoutes(app, deps);
+  registerApprovalRoutes(app, deps);
+  registerMarginCallRoutes(app, deps);
+  registerFacilityAgreementRoutes(app, deps);
   
   // Only register test endpoints in development
   if (process.env.NODE_ENV !== 'production') {
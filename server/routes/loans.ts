@@ -1,14 +1,23 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
 import { 
   insertLoanSchema, 
   paymentRequestSchema,
   settlementRequestSchema,
-  revolveRequestSchema
+  revolveRequestSchema,
+  installmentScheduleRequestSchema
 } from "@shared/schema";
 import { sendTemplateReminderEmail } from "../emailService";
+import { InterestService } from "../interestService";
+import { RateResetService } from "../rateResetService";
+import { InstallmentService } from "../installmentService";
+import { PaymentWaterfallService } from "../paymentWaterfallService";
+import { PeriodClosedError } from "../periodCloseService";
+import { CreditLimitError } from "../creditLineService";
+import { LoanLedgerError } from "../loanLedgerService";
+import { ApprovalService } from "../approvalService";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import xlsx from "xlsx";
@@ -16,7 +25,7 @@ import xlsx from "xlsx";
 export function registerLoansRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
-  app.get('/api/loans', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/loans', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const status = req.query.status as string;
@@ -37,7 +46,7 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.post('/api/loans', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/loans', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const userId = req.user.claims.sub;
@@ -102,6 +111,20 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
       }
       
       const finalLoanData = { ...loanData, creditLineId: finalCreditLineId };
+
+      if (await ApprovalService.requiresApproval(storage, organizationId, 'loan_drawdown', finalLoanData.amount)) {
+        const approval = await ApprovalService.submit(storage, {
+          organizationId,
+          action: 'loan_drawdown',
+          amount: finalLoanData.amount,
+          payload: finalLoanData,
+          summary: `Drawdown ${finalLoanData.referenceNumber} from ${facility.bank?.name || 'facility'}`,
+          makerId: userId,
+          makerComment: req.body.approvalComment,
+        });
+        return res.status(202).json({ pendingApproval: true, approval });
+      }
+
       const loan = await storage.createLoan(finalLoanData);
 
       // Send immediate loan confirmation email with calendar invite if requested (fire-and-forget)
@@ -224,12 +247,15 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
           });
         }
       }
+      if (error instanceof CreditLimitError || error instanceof PeriodClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
       
       res.status(400).json({ message: "Failed to create loan" });
     }
   });
 
-  app.get('/api/loans/:id', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/loans/:id', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const organizationId = req.organizationId;
@@ -240,29 +266,18 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
       }
       
       // Calculate accrued interest (to date) and projected total interest
-      const calculateInterest = (amount: number, rate: number, startDate: Date, endDate: Date, basis: string = 'actual_365') => {
-        const daysDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-        const daysInYear = basis === 'actual_360' ? 360 : 365;
-        
-        if (daysDiff > 0 && rate > 0) {
-          return (amount * rate / 100) * (daysDiff / daysInYear);
-        }
-        return 0;
-      };
-      
       const loanAmount = parseFloat(loan.amount);
       const totalRate = parseFloat(loan.siborRate) + parseFloat(loan.margin);
-      const startDate = new Date(loan.startDate);
-      const dueDate = new Date(loan.dueDate);
-      const today = new Date();
+      const basis = InterestService.normalizeBasis(loan.interestBasis);
+      const today = InterestService.toDateString(new Date());
       
       // Accrued interest: from start date to today (for active loans only)
       const accruedInterest = loan.status === 'active' 
-        ? calculateInterest(loanAmount, totalRate, startDate, today, loan.interestBasis || 'actual_365')
+        ? InterestService.calculateInterest(loanAmount, totalRate, loan.startDate, today, basis)
         : 0;
       
       // Projected total interest: from start date to due date (full tenor)
-      const projectedTotalInterest = calculateInterest(loanAmount, totalRate, startDate, dueDate, loan.interestBasis || 'actual_365');
+      const projectedTotalInterest = InterestService.calculateInterest(loanAmount, totalRate, loan.startDate, loan.dueDate, basis);
       
       res.json({
         ...loan,
@@ -275,7 +290,7 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/loans/:id/revolving-usage', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/loans/:id/revolving-usage', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const organizationId = req.organizationId;
@@ -346,7 +361,7 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.patch('/api/loans/:id', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.patch('/api/loans/:id', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const organizationId = req.organizationId;
@@ -358,63 +373,91 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
       res.json(updatedLoan);
     } catch (error) {
       console.error("Error updating loan:", error);
+      if (error instanceof PeriodClosedError || error instanceof CreditLimitError || error instanceof LoanLedgerError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(400).json({ message: "Failed to update loan" });
     }
   });
 
-  // Simple revolve endpoint - updates loan in-place with new dates and SIBOR
-  app.put('/api/loans/:id/revolve', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/loans/:id/repayments', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const organizationId = req.organizationId;
-      const { startDate, dueDate, siborRate, bankRate, memo } = req.body;
+      const userId = req.user.claims.sub;
+      const paymentData = paymentRequestSchema.parse(req.body);
       
-      // Verify loan belongs to organization
+      // Verify loan belongs to organization before processing payment
       const loan = await storage.getLoanById(loanId);
       if (!loan || loan.organizationId !== organizationId) {
         return res.status(404).json({ message: "Loan not found" });
       }
       
-      // Update loan with new revolving period details
-      const updateData = {
-        startDate,
-        dueDate,
-        siborRate,
-        bankRate,
-      };
-      
-      const reason = memo || `Loan revolved - New period: ${startDate} to ${dueDate}`;
-      const updatedLoan = await storage.updateLoan(loanId, updateData, organizationId, reason);
+      if (await ApprovalService.requiresApproval(storage, organizationId, 'payment', paymentData.amount)) {
+        const approval = await ApprovalService.submit(storage, {
+          organizationId,
+          action: 'payment',
+          loanId,
+          amount: paymentData.amount,
+          payload: paymentData,
+          summary: `Payment on loan ${loan.referenceNumber} dated ${paymentData.date}`,
+          makerId: userId,
+          makerComment: req.body.approvalComment,
+        });
+        return res.status(202).json({ pendingApproval: true, approval });
+      }
       
-      res.json(updatedLoan);
-    } catch (error) {
-      console.error("Error revolving loan:", error);
-      res.status(400).json({ message: "Failed to revolve loan" });
+      const result = await storage.processPayment(loanId, paymentData, userId);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error processing payment:", error);
+      if (error instanceof PeriodClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: error.message || "Failed to process payment" });
     }
   });
 
-  app.post('/api/loans/:id/repayments', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  // Preview how a payment would be split by the facility's waterfall, without posting it
+  app.get('/api/loans/:id/payment-allocation', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const organizationId = req.organizationId;
-      const userId = req.user.claims.sub;
-      const paymentData = paymentRequestSchema.parse(req.body);
+      const amount = parseFloat(req.query.amount as string);
+      const date = (req.query.date as string) || InterestService.toDateString(new Date());
+      const prepayment = req.query.prepayment === 'true';
+      
+      if (isNaN(Date.parse(date))) {
+        return res.status(400).json({ message: "date must be a valid date" });
+      }
       
-      // Verify loan belongs to organization before processing payment
       const loan = await storage.getLoanById(loanId);
       if (!loan || loan.organizationId !== organizationId) {
         return res.status(404).json({ message: "Loan not found" });
       }
       
-      const result = await storage.processPayment(loanId, paymentData, userId);
-      res.json(result);
+      const balance = await storage.calculateLoanBalance(loanId, date);
+      const installments = await storage.getLoanInstallments(loanId);
+      const due = PaymentWaterfallService.amountsDue(loan, balance, installments, date);
+      const order = PaymentWaterfallService.orderFor(loan.facility);
+      
+      if (isNaN(amount) || amount <= 0) {
+        return res.json({ due, order, allocation: null });
+      }
+      
+      try {
+        const allocation = PaymentWaterfallService.allocate(amount, due, order, prepayment);
+        res.json({ due, order, allocation });
+      } catch (allocationError: any) {
+        res.json({ due, order, allocation: null, error: allocationError.message });
+      }
     } catch (error) {
-      console.error("Error processing payment:", error);
-      res.status(400).json({ message: "Failed to process payment" });
+      console.error("Error previewing payment allocation:", error);
+      res.status(500).json({ message: "Failed to preview payment allocation" });
     }
   });
 
-  app.post('/api/loans/:id/settle', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/loans/:id/settle', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const organizationId = req.organizationId;
@@ -427,15 +470,33 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
         return res.status(404).json({ message: "Loan not found" });
       }
       
+      const settlementAmount = settlementData.amount ?? loan.amount;
+      if (await ApprovalService.requiresApproval(storage, organizationId, 'loan_settlement', settlementAmount)) {
+        const approval = await ApprovalService.submit(storage, {
+          organizationId,
+          action: 'loan_settlement',
+          loanId,
+          amount: settlementAmount,
+          payload: settlementData,
+          summary: `Settle loan ${loan.referenceNumber} on ${settlementData.date}`,
+          makerId: userId,
+          makerComment: req.body.approvalComment,
+        });
+        return res.status(202).json({ pendingApproval: true, approval });
+      }
+      
       const result = await storage.settleLoan(loanId, settlementData, userId);
       res.json(result);
     } catch (error) {
       console.error("Error settling loan:", error);
+      if (error instanceof PeriodClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(400).json({ message: "Failed to settle loan" });
     }
   });
 
-  app.post('/api/loans/:id/reverse-settlement', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/loans/:id/reverse-settlement', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const organizationId = req.organizationId;
@@ -448,15 +509,32 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
         return res.status(404).json({ message: "Loan not found" });
       }
       
+      if (await ApprovalService.requiresApproval(storage, organizationId, 'settlement_reversal', loan.amount)) {
+        const approval = await ApprovalService.submit(storage, {
+          organizationId,
+          action: 'settlement_reversal',
+          loanId,
+          amount: loan.amount,
+          payload: { reason },
+          summary: `Reverse settlement of loan ${loan.referenceNumber}`,
+          makerId: userId,
+          makerComment: req.body.approvalComment,
+        });
+        return res.status(202).json({ pendingApproval: true, approval });
+      }
+      
       const reversedLoan = await storage.reverseLoanSettlement(loanId, reason, userId);
       res.json(reversedLoan);
     } catch (error: any) {
       console.error("Error reversing settlement:", error);
+      if (error instanceof PeriodClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(400).json({ message: error.message || "Failed to reverse settlement" });
     }
   });
 
-  app.post('/api/loans/:id/revolve', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/loans/:id/revolve', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const organizationId = req.organizationId;
@@ -468,16 +546,32 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
       if (!loan || loan.organizationId !== organizationId) {
         return res.status(404).json({ message: "Loan not found" });
       }
+
+      if (await ApprovalService.revolveRequiresApproval(storage, organizationId, loan, revolveData)) {
+        // Fix the rollover date now so the approved revolve does not move to the day it is approved
+        const revolveDate = revolveData.startDate || InterestService.toDateString(new Date());
+        const approval = await ApprovalService.submit(storage, {
+          organizationId,
+          action: 'revolve',
+          loanId,
+          amount: revolveData.amount ?? loan.amount,
+          payload: { ...revolveData, startDate: revolveDate },
+          summary: `Revolve loan ${loan.referenceNumber} on ${revolveDate} to ${revolveData.dueDate}`,
+          makerId: userId,
+          makerComment: req.body.approvalComment,
+        });
+        return res.status(202).json({ pendingApproval: true, approval });
+      }
       
       const result = await storage.revolveLoan(loanId, revolveData, userId);
       res.json(result);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error revolving loan:", error);
-      res.status(400).json({ message: "Failed to revolve loan" });
+      res.status(400).json({ message: error.message || "Failed to revolve loan" });
     }
   });
 
-  app.get('/api/loans/:id/ledger', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/loans/:id/ledger', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const transactions = await storage.getLoanLedger(loanId);
@@ -488,10 +582,22 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/loans/:id/balance', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/loans/:id/balance', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
-      const balance = await storage.calculateLoanBalance(loanId);
+      const organizationId = req.organizationId;
+      const asOf = req.query.asOf as string | undefined;
+      
+      if (asOf && isNaN(Date.parse(asOf))) {
+        return res.status(400).json({ message: "asOf must be a valid date" });
+      }
+      
+      const loan = await storage.getLoanById(loanId);
+      if (!loan || loan.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+      
+      const balance = await storage.calculateLoanBalance(loanId, asOf);
       res.json(balance);
     } catch (error) {
       console.error("Error calculating loan balance:", error);
@@ -499,7 +605,90 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.delete('/api/loans/:id', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/loans/:id/rate-schedule', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
+    try {
+      const loanId = req.params.id;
+      const organizationId = req.organizationId;
+      
+      const loan = await storage.getLoanById(loanId);
+      if (!loan || loan.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+      
+      const periods = await storage.getLoanRatePeriods(loanId);
+      res.json(RateResetService.buildSchedule(loan, periods));
+    } catch (error) {
+      console.error("Error fetching rate schedule:", error);
+      res.status(500).json({ message: "Failed to fetch rate schedule" });
+    }
+  });
+
+  app.get('/api/loans/:id/installments', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
+    try {
+      const loanId = req.params.id;
+      const organizationId = req.organizationId;
+      
+      const loan = await storage.getLoanById(loanId);
+      if (!loan || loan.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+      
+      const installments = await storage.getLoanInstallments(loanId);
+      res.json(installments);
+    } catch (error) {
+      console.error("Error fetching installments:", error);
+      res.status(500).json({ message: "Failed to fetch installments" });
+    }
+  });
+
+  // Generate (or regenerate) the loan's installment plan
+  app.post('/api/loans/:id/installments', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
+    try {
+      const loanId = req.params.id;
+      const organizationId = req.organizationId;
+      
+      const loan = await storage.getLoanById(loanId);
+      if (!loan || loan.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+      
+      if (loan.status !== 'active') {
+        return res.status(400).json({ message: "Installment plans can only be set up for active loans" });
+      }
+      
+      const scheduleRequest = installmentScheduleRequestSchema.parse(req.body);
+      const schedule = InstallmentService.buildSchedule(loan, scheduleRequest);
+      const installments = await storage.replaceLoanInstallments(loanId, schedule);
+      res.json(installments);
+    } catch (error: any) {
+      console.error("Error generating installment schedule:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid schedule request", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Failed to generate installment schedule" });
+    }
+  });
+
+  // Remove the installment plan - the loan is repaid as a bullet again
+  app.delete('/api/loans/:id/installments', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
+    try {
+      const loanId = req.params.id;
+      const organizationId = req.organizationId;
+      
+      const loan = await storage.getLoanById(loanId);
+      if (!loan || loan.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+      
+      await storage.replaceLoanInstallments(loanId, []);
+      res.json({ message: "Installment schedule removed" });
+    } catch (error: any) {
+      console.error("Error removing installment schedule:", error);
+      res.status(400).json({ message: error.message || "Failed to remove installment schedule" });
+    }
+  });
+
+  app.delete('/api/loans/:id', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const organizationId = req.organizationId;
@@ -513,7 +702,7 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.post('/api/loans/:id/permanent-delete', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/loans/:id/permanent-delete', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const loanId = req.params.id;
       const organizationId = req.organizationId;
@@ -542,7 +731,7 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
   };
 
   // Export loans to PDF
-  app.get('/api/loans/export/pdf', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/loans/export/pdf', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const status = req.query.status as string;
@@ -697,7 +886,7 @@ export function registerLoansRoutes(app: Express, deps: AppDependencies) {
   });
 
   // Export loans to Excel
-  app.get('/api/loans/export/excel', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/loans/export/excel', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const status = req.query.status as string;
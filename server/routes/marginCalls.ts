@@ -0,0 +1,61 @@
+import type { Express } from "express";
+import type { AppDependencies } from "../types";
+import { isAuthenticated } from "../replitAuth";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
+import { MarginCallService, MarginCallError } from "../marginCallService";
+import { InterestService } from "../interestService";
+import { marginCallResolveRequestSchema, marginCallStatusZodEnum } from "@shared/schema";
+
+export function registerMarginCallRoutes(app: Express, deps: AppDependencies) {
+  const { storage } = deps;
+
+  // Margin calls, optionally of one bank, with the suggested cures of the open ones
+  app.get('/api/margin-calls', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const status = req.query.status ? marginCallStatusZodEnum.parse(req.query.status) : undefined;
+      const bankId = typeof req.query.bankId === 'string' ? req.query.bankId : undefined;
+
+      const calls = await storage.getMarginCalls(organizationId, { bankId, status });
+      res.json(await MarginCallService.details(storage, organizationId, calls, InterestService.toDateString(new Date())));
+    } catch (error: any) {
+      console.error("Error fetching margin calls:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid status filter" });
+      }
+      res.status(500).json({ message: "Failed to fetch margin calls" });
+    }
+  });
+
+  // Run the daily breach check now, e.g. after pledging collateral or a repayment
+  app.post('/api/margin-calls/check', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
+    try {
+      res.json(await MarginCallService.check(storage, req.organizationId, InterestService.toDateString(new Date())));
+    } catch (error) {
+      console.error("Error checking margin calls:", error);
+      res.status(500).json({ message: "Failed to check margin calls" });
+    }
+  });
+
+  app.post('/api/margin-calls/:id/resolve', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req: any, res) => {
+    try {
+      const request = marginCallResolveRequestSchema.parse(req.body);
+
+      const call = await storage.getMarginCall(req.params.id, req.organizationId);
+      if (!call) {
+        return res.status(404).json({ message: "Margin call not found" });
+      }
+
+      res.json(await MarginCallService.resolve(storage, call, request, req.user.claims.sub, InterestService.toDateString(new Date())));
+    } catch (error: any) {
+      console.error("Error resolving margin call:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid resolution", errors: error.errors });
+      }
+      if (error instanceof MarginCallError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to resolve margin call" });
+    }
+  });
+}
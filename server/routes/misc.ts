@@ -3,6 +3,9 @@ import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
 import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
 import { sendLoanDueNotification } from "../emailService";
+import { LoanLedgerService } from "../loanLedgerService";
+import { InterestService } from "../interestService";
+import { ReferenceRateService } from "../referenceRateService";
 import { transactionTypeZodEnum } from "@shared/schema";
 import { z } from "zod";
 import { MailService } from '@sendgrid/mail';
@@ -10,24 +13,43 @@ import { MailService } from '@sendgrid/mail';
 export function registerMiscRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
-  // SIBOR rate (simulated for MVP) - Public endpoint
+  // SIBOR / SAIBOR fixing for a term (defaults to 3M) - Public endpoint
   app.get('/api/sibor-rate', async (req, res) => {
     try {
-      // In production, this would fetch from a real financial data API
-      const currentRate = 5.75; // Current SIBOR rate
-      const monthlyChange = 0.25; // Monthly change
-      
-      res.json({
-        rate: currentRate,
-        monthlyChange,
-        lastUpdated: new Date().toISOString(),
-      });
+      const termMonths = req.query.termMonths ? parseInt(req.query.termMonths as string, 10) : undefined;
+      const asOf = req.query.asOf as string | undefined;
+
+      if (termMonths !== undefined && (isNaN(termMonths) || termMonths <= 0)) {
+        return res.status(400).json({ message: "termMonths must be a positive number" });
+      }
+      if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+        return res.status(400).json({ message: "asOf must be a YYYY-MM-DD date" });
+      }
+
+      const fixing = await ReferenceRateService.getFixingSummary(storage, termMonths, asOf);
+      if (!fixing) {
+        return res.status(404).json({ message: "No SIBOR fixing available for this tenor" });
+      }
+
+      res.json(fixing);
     } catch (error) {
       console.error("Error fetching SIBOR rate:", error);
       res.status(500).json({ message: "Failed to fetch SIBOR rate" });
     }
   });
 
+  // Reference rate history for charts and rate lookups
+  app.get('/api/reference-rates', isAuthenticated, async (req: any, res) => {
+    try {
+      const { tenor, from, to } = req.query as { tenor?: string; from?: string; to?: string };
+      const rates = await storage.getReferenceRates({ tenor, from, to });
+      res.json(rates);
+    } catch (error) {
+      console.error("Error fetching reference rates:", error);
+      res.status(500).json({ message: "Failed to fetch reference rates" });
+    }
+  });
+
   // Email notifications
   app.post('/api/notifications/due-loans', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
     try {
@@ -200,53 +222,26 @@ export function registerMiscRoutes(app: Express, deps: AppDependencies) {
           // Get loan transactions to calculate settlement progress
           const transactions = await storage.getLoanLedger(loan.id);
           
-          // Calculate totals with principal vs interest breakdown
-          const totalDrawn = transactions
-            .filter(t => t.type === 'draw')
-            .reduce((sum, t) => sum + parseFloat(t.amount), 0);
-          
-          // Break down repayments into principal vs interest
-          const repaymentTransactions = transactions.filter(t => t.type === 'repayment');
-          let principalPaid = 0;
-          let interestPaidFromRepayments = 0;
-          let totalRepaid = 0;
-          
-          repaymentTransactions.forEach(t => {
-            const amount = parseFloat(t.amount);
-            totalRepaid += amount;
-            
-            // Check if allocation data exists
-            if (t.allocation && typeof t.allocation === 'object') {
-              const allocation = t.allocation as any;
-              principalPaid += parseFloat(allocation.principal || 0);
-              interestPaidFromRepayments += parseFloat(allocation.interest || 0);
-            } else {
-              // If no allocation data, treat as principal payment for now
-              principalPaid += amount;
-            }
-          });
-          
-          // Separate interest and fee transactions
-          const interestCharges = transactions
-            .filter(t => t.type === 'interest')
-            .reduce((sum, t) => sum + parseFloat(t.amount), 0);
-          
-          const feeCharges = transactions
-            .filter(t => t.type === 'fee')
-            .reduce((sum, t) => sum + parseFloat(t.amount), 0);
-          
-          // Total interest paid (from repayment allocations + separate interest transactions)
-          const totalInterestPaid = interestPaidFromRepayments;
-          
+          // Replay the ledger so voided entries, settlements and write-offs count as they do in the balance
+          const asOf = InterestService.toDateString(new Date());
+          const movements = LoanLedgerService.movements(loan, transactions, asOf);
+          const totalDrawn = movements.drawn;
+          const totalRepaid = movements.repaid;
+          const principalPaid = movements.principalPaid;
+          const totalInterestPaid = movements.interestPaid;
+          const interestCharges = movements.interestCharged;
+          const feeCharges = movements.feesCharged;
+
           // Total charges (interest + fees)
           const totalCharges = interestCharges + feeCharges;
-          
-          const outstandingBalance = totalDrawn + totalCharges - totalRepaid;
-          const settlementProgress = totalDrawn > 0 ? (totalRepaid / (totalDrawn + totalCharges)) * 100 : 0;
-          
+
+          const outstandingBalance = LoanLedgerService.calculateBalance(loan, transactions, asOf).total;
+          // Settled share of everything drawn and charged: paid off or written off
+          const settlementProgress = totalDrawn > 0 ? ((totalDrawn + totalCharges - outstandingBalance) / (totalDrawn + totalCharges)) * 100 : 0;
+
           // Calculate principal and interest progress
           const principalProgress = totalDrawn > 0 ? (principalPaid / totalDrawn) * 100 : 0;
-          const interestProgress = totalCharges > 0 ? (totalInterestPaid / totalCharges) * 100 : 0;
+          const interestProgress = totalCharges > 0 ? ((totalInterestPaid + movements.feesPaid) / totalCharges) * 100 : 0;
           
           // Determine settlement status
           let settlementStatus = loan.status;
@@ -289,7 +284,9 @@ export function registerMiscRoutes(app: Express, deps: AppDependencies) {
               interestPaid: totalInterestPaid,
               interestRemaining: Math.max(0, interestCharges - totalInterestPaid),
               feesOwed: feeCharges,
-              feesRemaining: Math.max(0, feeCharges)
+              feesPaid: movements.feesPaid,
+              feesRemaining: Math.max(0, feeCharges - movements.feesPaid),
+              writtenOff: movements.writtenOff
             }
           };
         })
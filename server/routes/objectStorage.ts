@@ -7,6 +7,11 @@ import {
 } from "../objectStorage";
 import { ObjectPermission, ObjectAccessGroupType } from "../objectAcl";
 import { isAuthenticated } from "../replitAuth";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
+import { hasPermission, type PermissionArea } from "@shared/permissions";
+
+// Areas whose records carry uploaded documents
+const DOCUMENT_AREAS: PermissionArea[] = ['loans', 'collateral', 'guarantees'];
 
 // Organization-scoped protected file uploading
 export function registerObjectStorageRoutes(app: Express, deps: AppDependencies) {
@@ -41,7 +46,12 @@ export function registerObjectStorageRoutes(app: Express, deps: AppDependencies)
   });
 
   // Endpoint for getting the upload URL for an object entity
-  app.post("/api/objects/upload", isAuthenticated, async (req, res) => {
+  app.post("/api/objects/upload", isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+    // The upload URL is not tied to a record yet, so any role that can add documents somewhere may ask for one
+    if (!DOCUMENT_AREAS.some(area => hasPermission(req.memberRole, area, 'write'))) {
+      return res.status(403).json({ error: "Your role does not allow uploading documents" });
+    }
+
     try {
       const objectStorageService = new ObjectStorageService();
       const uploadURL = await objectStorageService.getObjectEntityUploadURL();
@@ -53,7 +63,7 @@ export function registerObjectStorageRoutes(app: Express, deps: AppDependencies)
   });
 
   // Endpoint for setting ACL policy after upload (loan documents)
-  app.put("/api/objects/loan-documents", isAuthenticated, async (req, res) => {
+  app.put("/api/objects/loan-documents", isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req, res) => {
     if (!req.body.documentURL) {
       return res.status(400).json({ error: "documentURL is required" });
     }
@@ -96,7 +106,7 @@ export function registerObjectStorageRoutes(app: Express, deps: AppDependencies)
   });
 
   // Endpoint for setting ACL policy after upload (collateral photos/documents)
-  app.put("/api/objects/collateral-documents", isAuthenticated, async (req, res) => {
+  app.put("/api/objects/collateral-documents", isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('collateral'), async (req, res) => {
     if (!req.body.documentURL) {
       return res.status(400).json({ error: "documentURL is required" });
     }
@@ -139,7 +149,7 @@ export function registerObjectStorageRoutes(app: Express, deps: AppDependencies)
   });
 
   // Endpoint for setting ACL policy after upload (guarantee documents)
-  app.put("/api/objects/guarantee-documents", isAuthenticated, async (req, res) => {
+  app.put("/api/objects/guarantee-documents", isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('guarantees'), async (req, res) => {
     if (!req.body.documentURL) {
       return res.status(400).json({ error: "documentURL is required" });
     }
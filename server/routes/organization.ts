@@ -3,7 +3,9 @@ import type { AppDependencies } from "../types";
 import { nanoid } from "nanoid";
 import { storage } from "../storage";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization, requireOrgOwner } from "../organizationMiddleware";
+import { attachOrganizationContext, requireOrganization, requireOrgOwner, requirePermission } from "../organizationMiddleware";
+import { memberRole } from "@shared/permissions";
+import { memberRoleUpdateSchema } from "@shared/schema";
 import { config } from "../config";
 import { mailService, FROM_EMAIL } from "../emailService";
 import { EmailTemplateService, EmailTemplateType } from "../emailTemplates/templates";
@@ -339,7 +341,7 @@ export function registerOrganizationRoutes(app: Express, deps: AppDependencies)
   });
 
   // Get organization members
-  app.get('/api/organization/members', isAuthenticated, async (req, res) => {
+  app.get('/api/organization/members', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('organization'), async (req, res) => {
     try {
       const userId = (req as any).user.claims.sub;
 
@@ -361,6 +363,7 @@ export function registerOrganizationRoutes(app: Express, deps: AppDependencies)
         id: member.id,
         userId: member.userId,
         isOwner: member.isOwner,
+        role: memberRole(member),
         isCurrentUser: member.userId === userId,
         joinedAt: member.joinedAt,
         user: {
@@ -463,6 +466,53 @@ export function registerOrganizationRoutes(app: Express, deps: AppDependencies)
     }
   });
 
+  // Change a member's role (owner only)
+  app.put('/api/organization/members/:userId/role', isAuthenticated, attachOrganizationContext, requireOrganization, requireOrgOwner, async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const targetUserId = req.params.userId;
+      const { role } = memberRoleUpdateSchema.parse(req.body);
+
+      const members = await storage.getOrganizationMembers(organizationId);
+      const targetMember = members.find(m => m.userId === targetUserId);
+
+      if (!targetMember) {
+        return res.status(404).json({ 
+          success: false, 
+          message: "User is not a member of this organization" 
+        });
+      }
+
+      if (targetMember.isOwner) {
+        return res.status(400).json({ 
+          success: false, 
+          message: "The organization owner's role cannot be changed" 
+        });
+      }
+
+      const updated = await storage.updateMemberRole(targetUserId, organizationId, role, req.user.claims.sub);
+
+      res.json({ 
+        success: true, 
+        member: { userId: updated.userId, role: memberRole(updated) }
+      });
+
+    } catch (error: any) {
+      console.error("Update member role error:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ 
+          success: false, 
+          message: "Invalid role", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ 
+        success: false, 
+        message: error.message || "Failed to update member role" 
+      });
+    }
+  });
+
   // Get pending invitations (owner only)
   app.get('/api/organization/invitations', isAuthenticated, async (req, res) => {
     try {
@@ -1,23 +1,21 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
-import { insertLoanPaymentSchema } from "@shared/schema";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
+import { loanPaymentRequestSchema } from "@shared/schema";
+import { PeriodClosedError } from "../periodCloseService";
+import { ApprovalService } from "../approvalService";
 
 export function registerPaymentRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
-  // Record a new payment
-  app.post('/api/payments', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  // Record a new payment - split across fees, interest and principal by the facility's waterfall
+  app.post('/api/payments', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const userId = req.user.claims.sub;
       
-      const paymentData = insertLoanPaymentSchema.parse({ 
-        ...req.body, 
-        organizationId, 
-        createdBy: userId 
-      });
+      const paymentData = loanPaymentRequestSchema.parse(req.body);
       
       // Verify loan belongs to organization
       const loan = await storage.getLoanById(paymentData.loanId);
@@ -25,16 +23,46 @@ export function registerPaymentRoutes(app: Express, deps: AppDependencies) {
         return res.status(403).json({ message: "Loan not found or access denied" });
       }
       
-      const payment = await storage.recordPayment(paymentData);
-      res.json(payment);
-    } catch (error) {
+      const payment = {
+        amount: paymentData.amount,
+        date: paymentData.paymentDate,
+        reference: paymentData.referenceNumber,
+        memo: paymentData.notes,
+        paymentMethod: paymentData.paymentMethod,
+        prepayment: paymentData.prepayment,
+      };
+
+      // Payments from the organization's threshold up wait for a second member to approve them
+      if (await ApprovalService.requiresApproval(storage, organizationId, 'payment', payment.amount)) {
+        const approval = await ApprovalService.submit(storage, {
+          organizationId,
+          action: 'payment',
+          loanId: paymentData.loanId,
+          amount: payment.amount,
+          payload: payment,
+          summary: `Payment on loan ${loan.referenceNumber} dated ${payment.date}`,
+          makerId: userId,
+          makerComment: req.body.approvalComment,
+        });
+        return res.status(202).json({ pendingApproval: true, approval });
+      }
+
+      const result = await storage.processPayment(paymentData.loanId, payment, userId);
+      res.json(result.payment);
+    } catch (error: any) {
       console.error("Error recording payment:", error);
-      res.status(500).json({ message: "Failed to record payment" });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
+      }
+      if (error instanceof PeriodClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: error.message || "Failed to record payment" });
     }
   });
 
   // Get payment history for a specific loan
-  app.get('/api/payments/loan/:loanId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/payments/loan/:loanId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { loanId } = req.params;
@@ -54,7 +82,7 @@ export function registerPaymentRoutes(app: Express, deps: AppDependencies) {
   });
 
   // Get payment history with filters
-  app.get('/api/payments/history', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/payments/history', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { from, to, loanId, limit, offset } = req.query;
@@ -76,7 +104,7 @@ export function registerPaymentRoutes(app: Express, deps: AppDependencies) {
   });
 
   // Get payment summary for a specific loan
-  app.get('/api/payments/summary/:loanId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/payments/summary/:loanId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { loanId } = req.params;
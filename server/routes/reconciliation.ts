@@ -0,0 +1,211 @@
+import type { Express } from "express";
+import type { AppDependencies } from "../types";
+import { isAuthenticated } from "../replitAuth";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
+import { BankStatementService } from "../bankStatementService";
+import {
+  statementCsvLayoutSchema,
+  statementImportRequestSchema,
+  statementLineCreateTransactionSchema,
+  statementLineIgnoreSchema,
+  statementLineMatchSchema,
+} from "@shared/schema";
+
+export function registerReconciliationRoutes(app: Express, deps: AppDependencies) {
+  const { storage } = deps;
+
+  const findBank = async (bankId: string, organizationId: string) => {
+    const banks = await storage.getAllBanks(organizationId);
+    return banks.find(b => b.id === bankId);
+  };
+
+  // Reconciliation status of every bank in the organization
+  app.get('/api/reconciliation/status', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const banks = await storage.getAllBanks(organizationId);
+      const statuses = await Promise.all(banks.map(bank => BankStatementService.getStatus(storage, bank.id, organizationId)));
+      res.json(statuses);
+    } catch (error) {
+      console.error("Error fetching reconciliation status:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation status" });
+    }
+  });
+
+  app.get('/api/banks/:bankId/reconciliation/status', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const bank = await findBank(req.params.bankId, organizationId);
+      if (!bank) {
+        return res.status(404).json({ message: "Bank not found" });
+      }
+
+      res.json(await BankStatementService.getStatus(storage, bank.id, organizationId));
+    } catch (error) {
+      console.error("Error fetching bank reconciliation status:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation status" });
+    }
+  });
+
+  // Reconciliation workspace: statements, lines and suggested ledger matches for unmatched lines
+  app.get('/api/banks/:bankId/reconciliation', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const bank = await findBank(req.params.bankId, organizationId);
+      if (!bank) {
+        return res.status(404).json({ message: "Bank not found" });
+      }
+
+      const statements = await storage.getBankStatements(bank.id, organizationId);
+      const lines = await storage.getBankStatementLines({
+        bankId: bank.id,
+        organizationId,
+        statementId: req.query.statementId as string | undefined,
+        status: req.query.status as string | undefined,
+      });
+      const entries = await storage.getUnreconciledTransactions(bank.id, organizationId);
+
+      const suggestions: Record<string, ReturnType<typeof BankStatementService.suggest>> = {};
+      for (const line of lines.filter(l => l.status === 'unmatched')) {
+        suggestions[line.id] = BankStatementService.suggest(line, entries);
+      }
+
+      res.json({
+        bank,
+        status: await BankStatementService.getStatus(storage, bank.id, organizationId),
+        statements,
+        lines,
+        suggestions,
+        candidates: entries.map(entry => BankStatementService.toCandidate(entry)),
+      });
+    } catch (error) {
+      console.error("Error fetching reconciliation workspace:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation workspace" });
+    }
+  });
+
+  // Import an MT940 or CSV statement - the client reads the file and posts its contents
+  app.post('/api/banks/:bankId/statements', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const userId = req.user.claims.sub;
+      const bank = await findBank(req.params.bankId, organizationId);
+      if (!bank) {
+        return res.status(404).json({ message: "Bank not found" });
+      }
+
+      const request = statementImportRequestSchema.parse(req.body);
+      const result = await BankStatementService.importStatement(storage, bank, organizationId, request, userId);
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error importing bank statement:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid statement data", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Failed to import bank statement" });
+    }
+  });
+
+  app.post('/api/banks/:bankId/reconciliation/auto-match', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const userId = req.user.claims.sub;
+      const bank = await findBank(req.params.bankId, organizationId);
+      if (!bank) {
+        return res.status(404).json({ message: "Bank not found" });
+      }
+
+      const matches = await BankStatementService.runAutoMatch(storage, bank.id, organizationId, userId);
+      res.json({ matched: matches.length });
+    } catch (error) {
+      console.error("Error auto-matching statement lines:", error);
+      res.status(500).json({ message: "Failed to auto-match statement lines" });
+    }
+  });
+
+  // CSV column layout for the bank's statements; send null to go back to header detection
+  app.put('/api/banks/:bankId/statement-layout', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
+    try {
+      const organizationId = req.organizationId;
+      const bank = await findBank(req.params.bankId, organizationId);
+      if (!bank) {
+        return res.status(404).json({ message: "Bank not found" });
+      }
+
+      const layout = req.body?.layout ? statementCsvLayoutSchema.parse(req.body.layout) : null;
+      res.json(await storage.updateBankStatementLayout(bank.id, layout));
+    } catch (error: any) {
+      console.error("Error updating statement layout:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid statement layout", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update statement layout" });
+    }
+  });
+
+  app.post('/api/statement-lines/:lineId/match', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
+    try {
+      const line = await storage.getBankStatementLine(req.params.lineId, req.organizationId);
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+
+      const { transactionId } = statementLineMatchSchema.parse(req.body);
+      res.json(await BankStatementService.matchLine(storage, line, transactionId, req.user.claims.sub));
+    } catch (error: any) {
+      console.error("Error matching statement line:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid match data", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Failed to match statement line" });
+    }
+  });
+
+  app.post('/api/statement-lines/:lineId/create-transaction', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
+    try {
+      const line = await storage.getBankStatementLine(req.params.lineId, req.organizationId);
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+
+      const request = statementLineCreateTransactionSchema.parse(req.body);
+      const result = await BankStatementService.createTransactionForLine(storage, line, request, req.user.claims.sub);
+      res.status('pendingApproval' in result ? 202 : 200).json(result);
+    } catch (error: any) {
+      console.error("Error booking statement line:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid transaction data", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Failed to book statement line" });
+    }
+  });
+
+  app.post('/api/statement-lines/:lineId/ignore', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
+    try {
+      const line = await storage.getBankStatementLine(req.params.lineId, req.organizationId);
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+
+      const { reason } = statementLineIgnoreSchema.parse(req.body ?? {});
+      res.json(await BankStatementService.ignoreLine(storage, line, reason, req.user.claims.sub));
+    } catch (error: any) {
+      console.error("Error ignoring statement line:", error);
+      res.status(400).json({ message: error.message || "Failed to ignore statement line" });
+    }
+  });
+
+  app.post('/api/statement-lines/:lineId/reopen', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('payments'), async (req: any, res) => {
+    try {
+      const line = await storage.getBankStatementLine(req.params.lineId, req.organizationId);
+      if (!line) {
+        return res.status(404).json({ message: "Statement line not found" });
+      }
+
+      res.json(await BankStatementService.reopenLine(storage, line));
+    } catch (error: any) {
+      console.error("Error reopening statement line:", error);
+      res.status(400).json({ message: error.message || "Failed to reopen statement line" });
+    }
+  });
+}
@@ -1,7 +1,7 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
 import { sendTemplateReminderEmail } from "../emailService";
 import { CalendarService } from "../calendarService";
 import {
@@ -14,7 +14,7 @@ export function registerRemindersRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
   // Loan Reminder routes
-  app.get('/api/loans/:loanId/reminders', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/loans/:loanId/reminders', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const organizationId = req.organizationId;
@@ -34,7 +34,7 @@ export function registerRemindersRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.post('/api/loans/:loanId/reminders', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/loans/:loanId/reminders', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const organizationId = req.organizationId;
@@ -110,7 +110,7 @@ export function registerRemindersRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.put('/api/reminders/:reminderId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.put('/api/reminders/:reminderId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const userId = req.user.claims.sub;
@@ -137,7 +137,7 @@ export function registerRemindersRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.delete('/api/reminders/:reminderId', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.delete('/api/reminders/:reminderId', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const userId = req.user.claims.sub;
@@ -206,7 +206,7 @@ export function registerRemindersRoutes(app: Express, deps: AppDependencies) {
   });
 
   // Calendar invite endpoints
-  app.get('/api/reminders/:reminderId/calendar', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/reminders/:reminderId/calendar', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const organizationId = req.organizationId;
@@ -245,7 +245,7 @@ export function registerRemindersRoutes(app: Express, deps: AppDependencies) {
     }
   });
 
-  app.get('/api/loans/:loanId/reminders/calendar', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/loans/:loanId/reminders/calendar', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('loans'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const organizationId = req.organizationId;
@@ -1,16 +1,18 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import xlsx from "xlsx";
+import { GuaranteeService } from "../guaranteeService";
+import { ExposureService } from "../exposureService";
 
 export function registerReportsRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
   // Facility Summary Report  
-  app.get('/api/reports/facility-summary', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/reports/facility-summary', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const organizationId = req.organizationId;
@@ -115,7 +117,7 @@ export function registerReportsRoutes(app: Express, deps: AppDependencies) {
   });
 
   // Bank Exposures Report
-  app.get('/api/reports/bank-exposures', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/reports/bank-exposures', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const organizationId = req.organizationId;
@@ -131,6 +133,8 @@ export function registerReportsRoutes(app: Express, deps: AppDependencies) {
       const facilities = await storage.getUserFacilities(organizationId);
       const allBanks = await storage.getAllBanks();
       const loans = await storage.getActiveLoansByUser(organizationId);
+      const liveGuarantees = (await storage.getUserGuarantees(organizationId)).filter(g => GuaranteeService.isLive(g));
+      const conversionFactors = ExposureService.conversionFactors(await storage.getCreditConversionFactors(organizationId));
       
       // Filter to ensure only organization data
       const orgFacilities = facilities.filter((f: any) => f.organizationId === organizationId);
@@ -151,17 +155,27 @@ export function registerReportsRoutes(app: Express, deps: AppDependencies) {
         const balances = await Promise.all(balancePromises);
         const totalOutstanding = balances.reduce((sum: number, balance: any) => sum + balance.total, 0);
         
+        // Guarantees use up their facility limits next to the loans; exposure weighs them by credit conversion factor
+        const unfunded = ExposureService.unfundedExposure(
+          liveGuarantees.filter(g => bankFacilities.some((f: any) => f.id === g.facilityId)),
+          conversionFactors
+        );
+        const totalUtilized = totalOutstanding + unfunded.outstanding;
+        
         return {
           bankName: bank.name,
           totalFacilities: bankFacilities.length,
           totalLimit,
           totalOutstanding,
-          utilization: totalLimit > 0 ? ((totalOutstanding / totalLimit) * 100).toFixed(2) : '0',
+          guaranteesOutstanding: unfunded.outstanding,
+          totalUtilized,
+          netExposure: totalOutstanding + unfunded.netExposure,
+          utilization: totalLimit > 0 ? ((totalUtilized / totalLimit) * 100).toFixed(2) : '0',
           activeLoans: bankLoans.length
         };
       }));
       
-      const filteredExposures = bankExposures.filter((exposure: any) => exposure.totalLimit > 0 || exposure.totalOutstanding > 0);
+      const filteredExposures = bankExposures.filter((exposure: any) => exposure.totalLimit > 0 || exposure.totalUtilized > 0);
 
       if (format === 'pdf') {
         const doc = new jsPDF();
@@ -178,12 +192,15 @@ export function registerReportsRoutes(app: Express, deps: AppDependencies) {
         // Table
         autoTable(doc, {
           startY: startDate && endDate ? 40 : 35,
-          head: [['Bank', 'Facilities', 'Total Limit (SAR)', 'Outstanding (SAR)', 'Utilization %', 'Active Loans']],
+          head: [['Bank', 'Facilities', 'Total Limit (SAR)', 'Loans (SAR)', 'Guarantees (SAR)', 'Utilized (SAR)', 'Net Exposure (SAR)', 'Utilization %', 'Active Loans']],
           body: filteredExposures.map((row: any) => [
             row.bankName,
             row.totalFacilities,
             row.totalLimit.toLocaleString(),
             row.totalOutstanding.toLocaleString(),
+            row.guaranteesOutstanding.toLocaleString(),
+            row.totalUtilized.toLocaleString(),
+            row.netExposure.toLocaleString(),
             row.utilization,
             row.activeLoans
           ]),
@@ -202,7 +219,10 @@ export function registerReportsRoutes(app: Express, deps: AppDependencies) {
           'Bank': row.bankName,
           'Total Facilities': row.totalFacilities,
           'Total Limit (SAR)': row.totalLimit,
-          'Outstanding (SAR)': row.totalOutstanding,
+          'Loans (SAR)': row.totalOutstanding,
+          'Guarantees (SAR)': row.guaranteesOutstanding,
+          'Utilized (SAR)': row.totalUtilized,
+          'Net Exposure (SAR)': row.netExposure,
           'Utilization %': row.utilization,
           'Active Loans': row.activeLoans
         })));
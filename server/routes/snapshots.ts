@@ -1,13 +1,13 @@
 import type { Express } from "express";
 import type { AppDependencies } from "../types";
 import { isAuthenticated } from "../replitAuth";
-import { attachOrganizationContext, requireOrganization } from "../organizationMiddleware";
+import { attachOrganizationContext, requireOrganization, requirePermission } from "../organizationMiddleware";
 
 export function registerSnapshotRoutes(app: Express, deps: AppDependencies) {
   const { storage } = deps;
 
   // Capture a manual portfolio snapshot
-  app.post('/api/snapshots/capture', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.post('/api/snapshots/capture', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const snapshotDate = req.body.snapshotDate || new Date().toISOString().split('T')[0];
@@ -116,7 +116,7 @@ export function registerSnapshotRoutes(app: Express, deps: AppDependencies) {
   });
 
   // Get snapshot by specific date
-  app.get('/api/snapshots/date/:date', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/snapshots/date/:date', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { date } = req.params;
@@ -134,7 +134,7 @@ export function registerSnapshotRoutes(app: Express, deps: AppDependencies) {
   });
 
   // Get snapshots in a date range
-  app.get('/api/snapshots/range', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/snapshots/range', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       const { from, to } = req.query;
@@ -152,7 +152,7 @@ export function registerSnapshotRoutes(app: Express, deps: AppDependencies) {
   });
 
   // Get latest snapshot
-  app.get('/api/snapshots/latest', isAuthenticated, attachOrganizationContext, requireOrganization, async (req: any, res) => {
+  app.get('/api/snapshots/latest', isAuthenticated, attachOrganizationContext, requireOrganization, requirePermission('reports'), async (req: any, res) => {
     try {
       const organizationId = req.organizationId;
       
@@ -0,0 +1,102 @@
+import type { IStorage } from "./storage";
+import { config } from "./config";
+import { InterestService } from "./interestService";
+import { FileDropSharePriceProvider, SharePriceService } from "./sharePriceService";
+
+export class SharePriceScheduler {
+  private storage: IStorage;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Start the share price scheduler
+   * Imports dropped closing price files and marks listed-share collateral to market once per day
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('💹 Share price scheduler is already running');
+      return;
+    }
+
+    console.log('💹 Starting share price scheduler - running every 24 hours');
+    this.isRunning = true;
+
+    // Run immediately on start to pick up prices published while the server was down
+    this.processAll();
+
+    // Then run every 24 hours (once per day)
+    this.intervalId = setInterval(() => {
+      this.processAll();
+    }, 24 * 60 * 60 * 1000); // 24 hours
+  }
+
+  /**
+   * Stop the share price scheduler
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.isRunning = false;
+      console.log('💹 Share price scheduler stopped');
+    }
+  }
+
+  /**
+   * Import the files in the drop directory, then revalue every organization's share collateral
+   */
+  private async processAll(): Promise<void> {
+    try {
+      await this.importDroppedFiles();
+
+      const today = InterestService.toDateString(new Date());
+      const { organizations } = await import('@shared/schema');
+      const { db } = await import('./db');
+
+      const allOrganizations = await db
+        .select()
+        .from(organizations);
+
+      let revaluedCount = 0;
+      for (const org of allOrganizations) {
+        try {
+          const result = await SharePriceService.markToMarket(this.storage, org.id, today);
+          revaluedCount += result.revalued.length;
+          if (result.missingPrices.length > 0) {
+            console.warn(`⚠️  No closing price for ${result.missingPrices.join(', ')} (org ${org.id})`);
+          }
+        } catch (error) {
+          console.error(`❌ Error marking collateral to market for org ${org.id}:`, error);
+          // Continue processing other organizations even if one fails
+        }
+      }
+
+      console.log(`✅ Marked ${revaluedCount} share collateral item(s) to market`);
+    } catch (error) {
+      console.error('❌ Error in share price scheduler:', error);
+    }
+  }
+
+  /**
+   * Import every CSV or JSON file currently in the drop directory
+   */
+  private async importDroppedFiles(): Promise<void> {
+    try {
+      const provider = new FileDropSharePriceProvider(config.get('SHARE_PRICE_DROP_DIR'));
+      const result = await SharePriceService.importFrom(provider, this.storage, 'system');
+
+      if (result.imported.length === 0 && result.errors.length === 0) {
+        return;
+      }
+
+      console.log(`✅ Imported ${result.imported.length} share price(s) from drop directory`);
+      result.errors.forEach(error => console.warn(`⚠️  Skipped share price data - ${error}`));
+    } catch (error) {
+      console.error('❌ Error importing share price files:', error);
+    }
+  }
+}
@@ -0,0 +1,279 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  insertSharePriceSchema,
+  type InsertSharePrice,
+  type SharePrice,
+  type SharePriceSource,
+} from '@shared/schema';
+import type { IStorage } from './storage';
+import { InterestService } from './interestService';
+
+export interface SharePriceQuote {
+  ticker: string;
+  priceDate: string; // YYYY-MM-DD
+  closePrice: string; // SAR per share
+}
+
+/**
+ * A source of closing prices. Providers only read prices - validation and persistence
+ * are handled by SharePriceService.importFrom.
+ */
+export interface SharePriceProvider {
+  readonly source: SharePriceSource;
+  fetchPrices(): Promise<SharePriceQuote[]>;
+  // Called after the prices were stored, e.g. to archive a processed file
+  acknowledge?(): Promise<void>;
+  // Problems that did not stop the import, e.g. a file that could not be read
+  readErrors?(): string[];
+}
+
+export interface SharePriceImportResult {
+  source: SharePriceSource;
+  imported: SharePrice[];
+  errors: string[];
+}
+
+export interface MarkToMarketResult {
+  revalued: Array<{ collateralId: string; name: string; ticker: string; priceDate: string; value: string }>;
+  missingPrices: string[]; // Tickers held as collateral without an imported close
+}
+
+// Valuation source recorded for market prices
+export const MARKET_PRICE_SOURCE = 'Tadawul close';
+
+/**
+ * Closing prices uploaded as CSV text. Accepts either one price per row
+ * (ticker,date,close) or one date per row with a column per ticker (date,2222,1120,...).
+ */
+export class CsvSharePriceProvider implements SharePriceProvider {
+  readonly source: SharePriceSource = 'csv_upload';
+
+  constructor(private csv: string) {}
+
+  async fetchPrices(): Promise<SharePriceQuote[]> {
+    return SharePriceService.parseCsv(this.csv);
+  }
+}
+
+/**
+ * Closing prices uploaded as JSON: an array of { ticker, date, close } objects, or { prices: [...] }
+ */
+export class JsonSharePriceProvider implements SharePriceProvider {
+  readonly source: SharePriceSource = 'json_upload';
+
+  constructor(private json: string) {}
+
+  async fetchPrices(): Promise<SharePriceQuote[]> {
+    return SharePriceService.parseJson(this.json);
+  }
+}
+
+/**
+ * CSV or JSON price files dropped into a directory (e.g. an end-of-day export from a market data
+ * vendor). Processed files are moved into a "processed" sub-directory and files that cannot be
+ * parsed into "rejected".
+ */
+export class FileDropSharePriceProvider implements SharePriceProvider {
+  readonly source: SharePriceSource = 'file_drop';
+  private pendingFiles: string[] = [];
+  private errors: string[] = [];
+
+  constructor(private directory: string) {}
+
+  async fetchPrices(): Promise<SharePriceQuote[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    this.pendingFiles = [];
+    this.errors = [];
+
+    const prices: SharePriceQuote[] = [];
+    for (const file of entries.filter(name => /\.(csv|json)$/i.test(name)).sort()) {
+      try {
+        const content = await fs.readFile(path.join(this.directory, file), 'utf8');
+        prices.push(...(file.toLowerCase().endsWith('.json')
+          ? SharePriceService.parseJson(content)
+          : SharePriceService.parseCsv(content)));
+        this.pendingFiles.push(file);
+      } catch (error) {
+        this.errors.push(`${file}: ${error instanceof Error ? error.message : String(error)} - moved to rejected`);
+        await this.moveTo('rejected', file);
+      }
+    }
+    return prices;
+  }
+
+  readErrors(): string[] {
+    return this.errors;
+  }
+
+  async acknowledge(): Promise<void> {
+    if (this.pendingFiles.length === 0) {
+      return;
+    }
+
+    for (const file of this.pendingFiles) {
+      await this.moveTo('processed', file);
+    }
+    this.pendingFiles = [];
+  }
+
+  private async moveTo(subdirectory: string, file: string): Promise<void> {
+    const target = path.join(this.directory, subdirectory);
+    await fs.mkdir(target, { recursive: true });
+    await fs.rename(path.join(this.directory, file), path.join(target, file));
+  }
+}
+
+export class SharePriceService {
+  /**
+   * Validate and store all prices from a provider. Invalid rows are reported and skipped.
+   */
+  static async importFrom(provider: SharePriceProvider, storage: IStorage, createdBy: string): Promise<SharePriceImportResult> {
+    const prices = await provider.fetchPrices();
+    const errors: string[] = [...(provider.readErrors?.() ?? [])];
+    const valid: InsertSharePrice[] = [];
+
+    prices.forEach((price, index) => {
+      const parsed = insertSharePriceSchema.safeParse({
+        ticker: this.normalizeTicker(price.ticker),
+        priceDate: price.priceDate,
+        closePrice: price.closePrice,
+        source: provider.source,
+        createdBy,
+      });
+
+      if (parsed.success) {
+        valid.push(parsed.data);
+      } else {
+        const issues = parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ');
+        errors.push(`Row ${index + 1}: ${issues}`);
+      }
+    });
+
+    const imported = await storage.upsertSharePrices(valid);
+    if (provider.acknowledge) {
+      await provider.acknowledge();
+    }
+
+    return { source: provider.source, imported, errors };
+  }
+
+  /**
+   * Revalue the organization's listed-share collateral at the latest close on or before today.
+   * Each new close is recorded as a valuation, so the value, pledged value and LTV history follow
+   * the market. A valuation entered after the last close is left in place.
+   */
+  static async markToMarket(storage: IStorage, organizationId: string, today: string): Promise<MarkToMarketResult> {
+    const result: MarkToMarketResult = { revalued: [], missingPrices: [] };
+    const holdings = (await storage.getUserCollateral(organizationId))
+      .filter(c => c.type === 'liquid_stocks' && c.ticker && c.shareCount);
+
+    for (const holding of holdings) {
+      const ticker = this.normalizeTicker(holding.ticker!);
+      const price = await storage.getLatestSharePrice(ticker, today);
+      if (!price) {
+        if (!result.missingPrices.includes(ticker)) result.missingPrices.push(ticker);
+        continue;
+      }
+      if (price.priceDate < holding.valuationDate) continue;
+
+      const value = InterestService.roundAmount(holding.shareCount! * parseFloat(price.closePrice)).toFixed(2);
+      if (price.priceDate === holding.valuationDate && parseFloat(value) === parseFloat(holding.currentValue)) continue;
+
+      await storage.addCollateralValuation(holding.id, organizationId, {
+        value,
+        effectiveDate: price.priceDate,
+        source: MARKET_PRICE_SOURCE,
+        notes: `${holding.shareCount} shares of ${ticker} at SAR ${parseFloat(price.closePrice)}`,
+      }, holding.userId);
+      result.revalued.push({ collateralId: holding.id, name: holding.name, ticker, priceDate: price.priceDate, value });
+    }
+
+    return result;
+  }
+
+  /**
+   * Normalize symbols such as " 2222.SR " to the bare Tadawul symbol
+   */
+  static normalizeTicker(value: string): string {
+    return value.trim().toUpperCase().replace(/\.(SR|SE)$/, '');
+  }
+
+  static parseCsv(csv: string): SharePriceQuote[] {
+    const rows = csv
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'))
+      .map(line => line.split(',').map(cell => cell.trim().replace(/^"|"$/g, '')));
+
+    if (rows.length < 2) {
+      return [];
+    }
+
+    const header = rows[0].map(cell => cell.toLowerCase().replace(/[\s_]/g, ''));
+    const dateIndex = header.findIndex(cell => cell === 'pricedate' || cell === 'date');
+    const tickerIndex = header.findIndex(cell => cell === 'ticker' || cell === 'symbol');
+    const closeIndex = header.findIndex(cell => cell === 'close' || cell === 'closeprice' || cell === 'price');
+
+    if (dateIndex === -1) {
+      throw new Error('CSV must have a date (or price_date) column');
+    }
+
+    // Long format: ticker,date,close
+    if (tickerIndex !== -1 && closeIndex !== -1) {
+      return rows.slice(1).map(row => ({
+        ticker: row[tickerIndex] ?? '',
+        priceDate: row[dateIndex] ?? '',
+        closePrice: row[closeIndex] ?? '',
+      }));
+    }
+
+    // Wide format: date,2222,1120,...
+    const tickerColumns = rows[0]
+      .map((cell, index) => ({ ticker: cell, index }))
+      .filter(column => column.index !== dateIndex && column.ticker.length > 0);
+
+    if (tickerColumns.length === 0) {
+      throw new Error('CSV must have ticker and close columns, or one column per ticker');
+    }
+
+    return rows.slice(1).flatMap(row =>
+      tickerColumns
+        .filter(column => row[column.index])
+        .map(column => ({
+          ticker: column.ticker,
+          priceDate: row[dateIndex] ?? '',
+          closePrice: row[column.index],
+        }))
+    );
+  }
+
+  static parseJson(json: string): SharePriceQuote[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+
+    const rows = Array.isArray(parsed) ? parsed : parsed?.prices;
+    if (!Array.isArray(rows)) {
+      throw new Error('JSON must be an array of prices or an object with a prices array');
+    }
+
+    return rows.map((row: any) => ({
+      ticker: String(row?.ticker ?? row?.symbol ?? ''),
+      priceDate: String(row?.priceDate ?? row?.date ?? ''),
+      closePrice: String(row?.closePrice ?? row?.close ?? row?.price ?? ''),
+    }));
+  }
+}
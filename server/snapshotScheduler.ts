@@ -1,3 +1,4 @@
+import type { InsertPortfolioSnapshot } from "@shared/schema";
 import type { IStorage } from "./storage";
 
 export class SnapshotScheduler {
@@ -95,95 +96,7 @@ export class SnapshotScheduler {
         return;
       }
 
-      // Get all active loans
-      const activeLoans = await this.storage.getActiveLoansByUser(organizationId);
-      
-      // Calculate portfolio metrics
-      const totalOutstanding = activeLoans.reduce((sum, loan) => 
-        sum + Number(loan.amount?.toString() || 0), 0
-      );
-      
-      const activeLoansCount = activeLoans.length;
-      
-      // Get all facilities to calculate total credit limit
-      const facilities = await this.storage.getUserFacilities(organizationId);
-      const totalCreditLimit = facilities.reduce((sum, facility) => 
-        sum + Number(facility.creditLimit?.toString() || 0), 0
-      );
-      
-      // Calculate LTV
-      const collateralAssignments = await this.storage.getUserCollateralAssignments(organizationId);
-      const totalCollateralValue = collateralAssignments.reduce((sum: number, assignment: any) => {
-        const collateral = assignment.collateral;
-        return sum + Number(collateral?.currentValue?.toString() || 0);
-      }, 0);
-      
-      const portfolioLtv = totalCollateralValue > 0 
-        ? ((totalOutstanding / totalCollateralValue) * 100).toFixed(2) 
-        : "0";
-      
-      // Group loans by bank for bank exposures
-      const bankExposures: Record<string, any> = {};
-      for (const loan of activeLoans) {
-        const facility = facilities.find(f => f.id === loan.facilityId);
-        if (facility && facility.bank) {
-          const bankId = facility.bank.id;
-          const bankName = facility.bank.name;
-          
-          if (!bankExposures[bankId]) {
-            bankExposures[bankId] = {
-              bankId,
-              bankName,
-              totalExposure: 0,
-              loanCount: 0,
-              facilities: []
-            };
-          }
-          
-          bankExposures[bankId].totalExposure += Number(loan.amount?.toString() || 0);
-          bankExposures[bankId].loanCount += 1;
-          
-          const facilityExists = bankExposures[bankId].facilities.find(
-            (f: any) => f.facilityId === facility.id
-          );
-          if (!facilityExists) {
-            bankExposures[bankId].facilities.push({
-              facilityId: facility.id,
-              facilityType: facility.facilityType,
-              exposure: Number(loan.amount?.toString() || 0)
-            });
-          } else {
-            facilityExists.exposure += Number(loan.amount?.toString() || 0);
-          }
-        }
-      }
-      
-      // Additional metrics
-      const metrics = {
-        avgLoanSize: activeLoansCount > 0 ? totalOutstanding / activeLoansCount : 0,
-        maxLoanSize: activeLoans.length > 0 
-          ? Math.max(...activeLoans.map(l => Number(l.amount?.toString() || 0))) 
-          : 0,
-        minLoanSize: activeLoans.length > 0 
-          ? Math.min(...activeLoans.map(l => Number(l.amount?.toString() || 0))) 
-          : 0,
-        utilizationRate: totalCreditLimit > 0 
-          ? ((totalOutstanding / totalCreditLimit) * 100).toFixed(2) 
-          : "0",
-        bankCount: Object.keys(bankExposures).length,
-        facilityCount: facilities.length
-      };
-      
-      await this.storage.createPortfolioSnapshot({
-        organizationId,
-        snapshotDate,
-        totalOutstanding: totalOutstanding.toString(),
-        totalCreditLimit: totalCreditLimit.toString(),
-        portfolioLtv,
-        activeLoansCount,
-        bankExposuresJson: bankExposures,
-        metricsJson: metrics
-      });
+      await this.storage.createPortfolioSnapshot(await buildPortfolioSnapshot(this.storage, organizationId, snapshotDate));
       
       console.log(`✅ Snapshot created for org ${organizationId} on ${snapshotDate}`);
     } catch (error) {
@@ -192,3 +105,107 @@ export class SnapshotScheduler {
     }
   }
 }
+
+/**
+ * Portfolio figures for an organization as of the snapshot date: loans drawn by then and not yet
+ * settled, valued at their ledger balance on that date. Shared by the daily capture and period close.
+ */
+export async function buildPortfolioSnapshot(
+  storage: IStorage,
+  organizationId: string,
+  snapshotDate: string
+): Promise<InsertPortfolioSnapshot> {
+  // Loans settled after the snapshot date were still outstanding on it
+  const settledLater = (await storage.getSettledLoansByUser(organizationId))
+    .filter(loan => !!loan.settledDate && loan.settledDate > snapshotDate);
+  const activeLoans = [...await storage.getActiveLoansByUser(organizationId), ...settledLater]
+    .filter(loan => loan.startDate <= snapshotDate);
+  
+  // Calculate portfolio metrics from ledger balances
+  const balances = await storage.calculateLoanBalances(activeLoans.map(loan => loan.id), snapshotDate);
+  const totalOutstanding = activeLoans.reduce((sum, loan) => 
+    sum + (balances[loan.id]?.total ?? 0), 0
+  );
+  
+  const activeLoansCount = activeLoans.length;
+  
+  // Get all facilities to calculate total credit limit
+  const facilities = await storage.getUserFacilities(organizationId);
+  const totalCreditLimit = facilities.reduce((sum, facility) => 
+    sum + Number(facility.creditLimit?.toString() || 0), 0
+  );
+  
+  // Calculate LTV
+  const collateralAssignments = await storage.getUserCollateralAssignments(organizationId);
+  const totalCollateralValue = collateralAssignments.reduce((sum: number, assignment: any) => {
+    const collateral = assignment.collateral;
+    return sum + Number(collateral?.currentValue?.toString() || 0);
+  }, 0);
+  
+  const portfolioLtv = totalCollateralValue > 0 
+    ? ((totalOutstanding / totalCollateralValue) * 100).toFixed(2) 
+    : "0";
+  
+  // Group loans by bank for bank exposures
+  const bankExposures: Record<string, any> = {};
+  for (const loan of activeLoans) {
+    const facility = facilities.find(f => f.id === loan.facilityId);
+    if (facility && facility.bank) {
+      const bankId = facility.bank.id;
+      const bankName = facility.bank.name;
+      
+      if (!bankExposures[bankId]) {
+        bankExposures[bankId] = {
+          bankId,
+          bankName,
+          totalExposure: 0,
+          loanCount: 0,
+          facilities: []
+        };
+      }
+      
+      bankExposures[bankId].totalExposure += (balances[loan.id]?.total ?? 0);
+      bankExposures[bankId].loanCount += 1;
+      
+      const facilityExists = bankExposures[bankId].facilities.find(
+        (f: any) => f.facilityId === facility.id
+      );
+      if (!facilityExists) {
+        bankExposures[bankId].facilities.push({
+          facilityId: facility.id,
+          facilityType: facility.facilityType,
+          exposure: (balances[loan.id]?.total ?? 0)
+        });
+      } else {
+        facilityExists.exposure += (balances[loan.id]?.total ?? 0);
+      }
+    }
+  }
+  
+  // Additional metrics
+  const metrics = {
+    avgLoanSize: activeLoansCount > 0 ? totalOutstanding / activeLoansCount : 0,
+    maxLoanSize: activeLoans.length > 0 
+      ? Math.max(...activeLoans.map(l => Number(l.amount?.toString() || 0))) 
+      : 0,
+    minLoanSize: activeLoans.length > 0 
+      ? Math.min(...activeLoans.map(l => Number(l.amount?.toString() || 0))) 
+      : 0,
+    utilizationRate: totalCreditLimit > 0 
+      ? ((totalOutstanding / totalCreditLimit) * 100).toFixed(2) 
+      : "0",
+    bankCount: Object.keys(bankExposures).length,
+    facilityCount: facilities.length
+  };
+  
+  return {
+    organizationId,
+    snapshotDate,
+    totalOutstanding: totalOutstanding.toString(),
+    totalCreditLimit: totalCreditLimit.toString(),
+    portfolioLtv,
+    activeLoansCount,
+    bankExposuresJson: bankExposures,
+    metricsJson: metrics
+  };
+}
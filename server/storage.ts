@@ -10,12 +10,18 @@ import {
   documents,
   attachments,
   attachmentAudit,
+  attachmentRetentionPolicies,
   loanReminders,
   reminderTemplates,
   userReminderSettings,
   userPreferences,
   dailyAlertsPreferences,
   guarantees,
+  guaranteeVersions,
+  guaranteeCommissions,
+  creditConversionFactors,
+  collateralValuations,
+  collateralRevaluationFrequencies,
   aiInsightConfig,
   exposureSnapshots,
   transactions,
@@ -24,6 +30,21 @@ import {
   chatMessages,
   loanPayments,
   portfolioSnapshots,
+  referenceRates,
+  sharePrices,
+  loanRatePeriods,
+  loanInstallments,
+  bankStatements,
+  bankStatementLines,
+  glAccountMappings,
+  glExports,
+  glExportEntries,
+  accountingPeriods,
+  approvalThresholds,
+  approvalRequests,
+  marginCalls,
+  llmSettings,
+  llmUsage,
   type User,
   type UpsertUser,
   type Bank,
@@ -46,6 +67,14 @@ import {
   type Guarantee,
   type InsertGuarantee,
   type UpdateGuarantee,
+  type GuaranteeVersion,
+  type GuaranteeCommission,
+  type CreditConversionFactor,
+  type CreditConversionFactorsRequest,
+  type CollateralValuation,
+  type CollateralValuationRequest,
+  type CollateralRevaluationFrequency,
+  type CollateralRevaluationFrequenciesRequest,
   type AiInsightConfig,
   type InsertAiInsightConfig,
   type ExposureSnapshot,
@@ -66,6 +95,8 @@ import {
   type InsertAttachmentAudit,
   type AttachmentOwnerType,
   type AttachmentCategory,
+  type AttachmentRetentionPolicy,
+  type AttachmentRetentionPoliciesRequest,
   type ReminderTemplate,
   type InsertReminderTemplate,
   type UpdateReminderTemplate,
@@ -81,9 +112,36 @@ import {
   type ChatMessage,
   type InsertChatMessage,
   type LoanPayment,
-  type InsertLoanPayment,
   type PortfolioSnapshot,
   type InsertPortfolioSnapshot,
+  type ReferenceRate,
+  type InsertReferenceRate,
+  type SharePrice,
+  type InsertSharePrice,
+  type LoanRatePeriod,
+  type LoanInstallment,
+  type InsertLoanInstallment,
+  type BankStatement,
+  type InsertBankStatement,
+  type BankStatementLine,
+  type InsertBankStatementLine,
+  type StatementCsvLayout,
+  type GlAccountMapping,
+  type InsertGlAccountMapping,
+  type GlExport,
+  type AccountingPeriod,
+  type ApprovalThreshold,
+  type ApprovalRequest,
+  type InsertApprovalRequest,
+  type ApprovalStatus,
+  type ApprovalThresholdsRequest,
+  type MarginCall,
+  type InsertMarginCall,
+  type LlmSettings,
+  type LlmSettingsRequest,
+  type InsertLlmUsage,
+  type LlmUsage,
+  type MarginCallStatus,
   organizations,
   organizationMembers,
   organizationInvitations,
@@ -91,10 +149,24 @@ import {
   type InsertOrganization,
   type OrganizationMember,
   type InsertOrganizationMember,
+  type MemberRole,
   type OrganizationInvitation,
   type InsertOrganizationInvitation,
 } from "@shared/schema";
-import { db } from "./db";
+import type { BankMergeResult, LlmUsageSummary, LoanBalance, PortfolioSummary } from "@shared/types";
+import { db, type DbTransaction } from "./db";
+import { InterestService } from "./interestService";
+import { LoanLedgerService } from "./loanLedgerService";
+import { RateResetService } from "./rateResetService";
+import { InstallmentService } from "./installmentService";
+import { PaymentWaterfallService } from "./paymentWaterfallService";
+import { PeriodCloseService } from "./periodCloseService";
+import { CreditLineService, CreditLimitError } from "./creditLineService";
+import { GuaranteeService, type GuaranteeActionChange, type CommissionPeriod } from "./guaranteeService";
+import { ExposureService } from "./exposureService";
+import { CollateralValuationService } from "./collateralValuationService";
+import { MarginCallService } from "./marginCallService";
+import { LegalHoldError } from "./attachmentRetentionService";
 import { eq, and, or, desc, asc, sql, gte, lte, isNull, isNotNull, ne, inArray } from "drizzle-orm";
 
 // Interface for storage operations
@@ -106,6 +178,11 @@ export interface IStorage {
   // Bank operations
   getAllBanks(organizationId?: string): Promise<Bank[]>;
   createBank(bank: InsertBank): Promise<Bank>;
+  getBank(bankId: string): Promise<Bank | undefined>;
+  getBankByCode(code: string, organizationId: string): Promise<Bank | undefined>;
+  updateBank(bankId: string, organizationId: string, bank: Partial<InsertBank>): Promise<Bank>;
+  archiveBank(bankId: string, organizationId: string, userId: string): Promise<Bank>;
+  mergeBanks(sourceBankId: string, targetBankId: string, organizationId: string, userId: string): Promise<BankMergeResult>;
   
   // Bank Contact operations
   getBankContacts(bankId: string, organizationId: string): Promise<Array<BankContact & { bank: Bank }>>;
@@ -118,14 +195,21 @@ export interface IStorage {
   getUserFacilities(organizationId: string): Promise<Array<Facility & { bank: Bank }>>;
   getFacilityWithBank(facilityId: string): Promise<(Facility & { bank: Bank }) | undefined>;
   createFacility(facility: InsertFacility): Promise<Facility>;
+  // Writes the facility and its credit lines together, or none of them
+  createFacilityWithCreditLines(facility: InsertFacility, creditLines: Omit<InsertCreditLine, 'facilityId'>[]): Promise<{ facility: Facility; creditLines: CreditLine[] }>;
   updateFacility(facilityId: string, organizationId: string, facility: Partial<InsertFacility>): Promise<Facility>;
   deleteFacility(facilityId: string, organizationId: string): Promise<void>;
   
   // Collateral operations
   getUserCollateral(organizationId: string): Promise<Collateral[]>;
   createCollateral(collateral: InsertCollateral): Promise<Collateral>;
-  updateCollateral(collateralId: string, organizationId: string, collateral: Partial<InsertCollateral>): Promise<Collateral>;
+  updateCollateral(collateralId: string, organizationId: string, collateral: Partial<InsertCollateral>, userId?: string): Promise<Collateral>;
   deleteCollateral(collateralId: string, organizationId: string): Promise<void>;
+  getCollateralValuations(collateralId: string): Promise<CollateralValuation[]>;
+  getOrganizationCollateralValuations(organizationId: string): Promise<CollateralValuation[]>;
+  addCollateralValuation(collateralId: string, organizationId: string, valuation: CollateralValuationRequest, userId: string): Promise<CollateralValuation>;
+  getCollateralRevaluationFrequencies(organizationId: string): Promise<CollateralRevaluationFrequency[]>;
+  setCollateralRevaluationFrequencies(organizationId: string, frequencies: CollateralRevaluationFrequenciesRequest, userId: string): Promise<CollateralRevaluationFrequency[]>;
   
   // Collateral Assignment operations
   getUserCollateralAssignments(organizationId: string): Promise<Array<CollateralAssignment & { 
@@ -141,6 +225,8 @@ export interface IStorage {
   getUserCreditLines(organizationId: string): Promise<Array<CreditLine & { facility: Facility & { bank: Bank } }>>;
   createCreditLine(creditLine: InsertCreditLine): Promise<CreditLine>;
   updateCreditLine(creditLineId: string, organizationId: string, creditLine: Partial<InsertCreditLine>): Promise<CreditLine>;
+  getCreditLine(creditLineId: string, organizationId: string): Promise<CreditLine | undefined>;
+  deleteCreditLine(creditLineId: string, organizationId: string): Promise<void>;
   
   // Loan operations
   getUserLoans(organizationId: string): Promise<Loan[]>;
@@ -154,16 +240,21 @@ export interface IStorage {
   permanentlyDeleteLoan(loanId: string, organizationId: string): Promise<void>;
   
   // Payment and settlement operations
-  processPayment(loanId: string, payment: PaymentRequest, userId: string): Promise<{ loan: Loan; transactions: Transaction[] }>;
+  processPayment(loanId: string, payment: PaymentRequest, userId: string): Promise<{ loan: Loan; transactions: Transaction[]; payment: LoanPayment }>;
   settleLoan(loanId: string, settlement: SettlementRequest, userId: string): Promise<{ loan: Loan; transactions: Transaction[] }>;
   reverseLoanSettlement(loanId: string, reason: string, userId: string): Promise<Loan>;
   revolveLoan(loanId: string, revolve: RevolveRequest, userId: string): Promise<{ oldLoan: Loan; newLoan: Loan; transactions: Transaction[] }>;
   
   // Ledger operations
   getLoanLedger(loanId: string): Promise<Transaction[]>;
-  calculateLoanBalance(loanId: string): Promise<{ principal: number; interest: number; fees: number; total: number }>;
+  calculateLoanBalance(loanId: string, asOf?: string): Promise<LoanBalance>;
+  calculateLoanBalances(loanIds: string[], asOf?: string): Promise<Record<string, LoanBalance>>;
   accrueInterest(loanId: string, toDate: string, userId: string): Promise<Transaction[]>;
   
+  // Floating rate reset operations
+  getLoanRatePeriods(loanId: string): Promise<LoanRatePeriod[]>;
+  applyRateResets(loanId: string, asOf: string, userId: string): Promise<LoanRatePeriod[]>;
+  
   // Document operations
   createDocument(document: InsertDocument): Promise<Document>;
   getLoanDocuments(loanId: string): Promise<Document[]>;
@@ -203,26 +294,27 @@ export interface IStorage {
   createGuarantee(guarantee: InsertGuarantee): Promise<Guarantee>;
   updateGuarantee(guaranteeId: string, organizationId: string, guarantee: Partial<UpdateGuarantee>): Promise<Guarantee>;
   deleteGuarantee(guaranteeId: string, organizationId: string): Promise<void>;
+  getGuaranteeVersions(guaranteeId: string): Promise<GuaranteeVersion[]>;
+  applyGuaranteeAction(
+    guaranteeId: string,
+    organizationId: string,
+    userId: string,
+    plan: (guarantee: Guarantee) => GuaranteeActionChange
+  ): Promise<{ guarantee: Guarantee; version: GuaranteeVersion; transaction: Transaction | null }>;
+  accrueGuaranteeCommission(guaranteeId: string, toDate: string, userId: string): Promise<GuaranteeCommission[]>;
+  getGuaranteeCommissions(guaranteeId: string): Promise<GuaranteeCommission[]>;
+  getUnpaidGuaranteeCommissions(organizationId: string): Promise<GuaranteeCommission[]>;
+  markGuaranteeCommissionPaid(commissionId: string, organizationId: string, paidDate: string, userId: string): Promise<GuaranteeCommission | undefined>;
+  markGuaranteeExpiryReminderSent(guaranteeId: string): Promise<void>;
+  getCreditConversionFactors(organizationId: string): Promise<CreditConversionFactor[]>;
+  setCreditConversionFactors(organizationId: string, factors: CreditConversionFactorsRequest, userId: string): Promise<CreditConversionFactor[]>;
   
   // AI Insight Config operations
   getUserAiConfig(userId: string): Promise<AiInsightConfig | undefined>;
   upsertAiConfig(config: InsertAiInsightConfig): Promise<AiInsightConfig>;
   
   // Dashboard analytics
-  getUserPortfolioSummary(userId: string): Promise<{
-    totalOutstanding: number;
-    totalCreditLimit: number;
-    availableCredit: number;
-    portfolioLtv: number;
-    activeLoansCount: number;
-    bankExposures: Array<{
-      bankId: string;
-      bankName: string;
-      outstanding: number;
-      creditLimit: number;
-      utilization: number;
-    }>;
-  }>;
+  getUserPortfolioSummary(userId: string): Promise<PortfolioSummary>;
 
   // Exposure Snapshot operations
   listExposureSnapshots(filters: {
@@ -280,12 +372,27 @@ export interface IStorage {
   }>;
   
   // Attachment operations
-  getAttachmentsByOwner(ownerType: AttachmentOwnerType, ownerId: string, userId: string): Promise<Attachment[]>;
+  getAttachmentsByOwner(ownerType: AttachmentOwnerType, ownerId: string, userId: string, options?: { includeDeleted?: boolean }): Promise<Attachment[]>;
   createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  createAttachmentVersion(previous: Attachment, attachment: InsertAttachment): Promise<Attachment>;
+  getAttachmentVersions(attachmentId: string, userId: string): Promise<Attachment[]>;
   updateAttachmentMetadata(attachmentId: string, metadata: Partial<Pick<InsertAttachment, 'category' | 'tags' | 'description'>>, userId: string): Promise<Attachment>;
+  // Throws LegalHoldError when any version of the attachment is on legal hold
   deleteAttachment(attachmentId: string, userId: string): Promise<void>;
+  restoreAttachment(attachmentId: string, userId: string): Promise<Attachment | undefined>;
+  // Every version of an attachment, whoever uploaded it; callers check the uploader belongs to their organization
+  getAttachmentChain(attachmentId: string): Promise<Attachment[]>;
+  setAttachmentLegalHold(attachmentId: string, userId: string, reason: string | null): Promise<Attachment[]>;
   getAttachmentById(attachmentId: string, userId: string): Promise<Attachment | undefined>;
   
+  // Attachment retention operations
+  getAttachmentRetentionPolicies(): Promise<AttachmentRetentionPolicy[]>;
+  setAttachmentRetentionPolicies(policies: AttachmentRetentionPoliciesRequest, updatedBy: string): Promise<AttachmentRetentionPolicy[]>;
+  getPurgeCandidateAttachments(): Promise<Attachment[]>;
+  // Facility expiry or loan settlement date; null while it has not ended, undefined for other or missing owners
+  getAttachmentOwnerEndDate(ownerType: Attachment['ownerType'], ownerId: string): Promise<string | null | undefined>;
+  markAttachmentPurged(attachmentId: string, details: Record<string, unknown>): Promise<void>;
+  
   // Attachment audit operations
   createAttachmentAudit(audit: InsertAttachmentAudit): Promise<AttachmentAudit>;
   getAttachmentAuditTrail(attachmentId: string): Promise<AttachmentAudit[]>;
@@ -313,6 +420,7 @@ export interface IStorage {
   getOrganizationMembers(organizationId: string): Promise<Array<OrganizationMember & { user: User }>>;
   getOrganizationMembership(userId: string): Promise<OrganizationMember | undefined>;
   isUserInOrganization(userId: string, organizationId: string): Promise<boolean>;
+  updateMemberRole(memberUserId: string, organizationId: string, role: MemberRole, userId: string): Promise<OrganizationMember>;
   
   // Organization Invitation operations
   createInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation>;
@@ -320,8 +428,12 @@ export interface IStorage {
   deleteInvitation(invitationId: string): Promise<void>;
   getOrganizationInvitations(organizationId: string): Promise<OrganizationInvitation[]>;
   
+  // Installment schedule operations
+  getLoanInstallments(loanId: string): Promise<LoanInstallment[]>;
+  getInstallmentsForLoans(loanIds: string[]): Promise<LoanInstallment[]>;
+  replaceLoanInstallments(loanId: string, installments: InsertLoanInstallment[]): Promise<LoanInstallment[]>;
+  
   // Loan Payment operations
-  recordPayment(payment: InsertLoanPayment): Promise<LoanPayment>;
   getPaymentsByLoan(loanId: string): Promise<LoanPayment[]>;
   getPaymentHistory(organizationId: string, filters?: {
     from?: string;
@@ -342,6 +454,69 @@ export interface IStorage {
   getSnapshotByDate(organizationId: string, date: string): Promise<PortfolioSnapshot | undefined>;
   getSnapshotsInRange(organizationId: string, from: string, to: string): Promise<PortfolioSnapshot[]>;
   getLatestSnapshot(organizationId: string): Promise<PortfolioSnapshot | undefined>;
+  
+  // Reference rate (SIBOR / SAIBOR) operations
+  getReferenceRates(filters?: { tenor?: string; from?: string; to?: string }): Promise<ReferenceRate[]>;
+  getLatestReferenceRate(tenor: string, asOf?: string): Promise<ReferenceRate | undefined>;
+  upsertReferenceRates(rates: InsertReferenceRate[]): Promise<ReferenceRate[]>;
+  deleteReferenceRate(rateId: string): Promise<void>;
+
+  // Share price (Tadawul closing price) operations
+  getSharePrices(filters?: { ticker?: string; from?: string; to?: string }): Promise<SharePrice[]>;
+  getLatestSharePrice(ticker: string, asOf?: string): Promise<SharePrice | undefined>;
+  upsertSharePrices(prices: InsertSharePrice[]): Promise<SharePrice[]>;
+  deleteSharePrice(priceId: string): Promise<void>;
+  
+  // Bank statement reconciliation operations
+  updateBankStatementLayout(bankId: string, layout: StatementCsvLayout | null): Promise<Bank>;
+  getBankStatements(bankId: string, organizationId: string): Promise<BankStatement[]>;
+  getBankStatementByHash(bankId: string, contentHash: string): Promise<BankStatement | undefined>;
+  createBankStatement(statement: InsertBankStatement, lines: Omit<InsertBankStatementLine, 'statementId'>[]): Promise<{ statement: BankStatement; lines: BankStatementLine[] }>;
+  getBankStatementLines(filters: { bankId: string; organizationId: string; statementId?: string; status?: string }): Promise<BankStatementLine[]>;
+  getBankStatementLine(lineId: string, organizationId: string): Promise<BankStatementLine | undefined>;
+  updateBankStatementLine(lineId: string, updates: Partial<InsertBankStatementLine>): Promise<BankStatementLine>;
+  getUnreconciledTransactions(bankId: string, organizationId: string): Promise<Array<Transaction & { loan?: Loan }>>;
+  
+  // General ledger export operations
+  getGlAccountMappings(organizationId: string): Promise<GlAccountMapping[]>;
+  upsertGlAccountMapping(organizationId: string, mapping: InsertGlAccountMapping): Promise<GlAccountMapping>;
+  deleteGlAccountMapping(mappingId: string, organizationId: string): Promise<void>;
+  getJournalTransactions(organizationId: string, filters: {
+    from?: string;
+    to?: string;
+    transactionIds?: string[];
+    includeExported?: boolean;
+  }): Promise<Array<Transaction & { bank: Bank; facility?: Facility; loan?: Loan }>>;
+  getPaymentsByTransactionIds(transactionIds: string[]): Promise<LoanPayment[]>;
+  getGlExports(organizationId: string): Promise<GlExport[]>;
+  createGlExport(exportRecord: Omit<GlExport, 'id' | 'createdAt'>, transactionIds: string[]): Promise<GlExport>;
+  deleteGlExport(exportId: string, organizationId: string): Promise<void>;
+  
+  // Accounting period operations
+  getAccountingPeriods(organizationId: string): Promise<AccountingPeriod[]>;
+  getClosedPeriods(organizationId: string): Promise<string[]>;
+  closeAccountingPeriod(organizationId: string, period: string, userId: string, snapshot: InsertPortfolioSnapshot): Promise<{ period: AccountingPeriod; snapshot: PortfolioSnapshot }>;
+  reopenAccountingPeriod(organizationId: string, period: string, reason: string, userId: string): Promise<AccountingPeriod>;
+  
+  // Approval operations
+  getApprovalThresholds(organizationId: string): Promise<ApprovalThreshold[]>;
+  setApprovalThresholds(organizationId: string, thresholds: ApprovalThresholdsRequest, userId: string): Promise<ApprovalThreshold[]>;
+  getApprovalRequests(organizationId: string, status?: ApprovalStatus): Promise<ApprovalRequest[]>;
+  getApprovalRequest(requestId: string, organizationId: string): Promise<ApprovalRequest | undefined>;
+  createApprovalRequest(request: InsertApprovalRequest): Promise<ApprovalRequest>;
+  updateApprovalRequest(requestId: string, organizationId: string, updates: Partial<ApprovalRequest>, expectedStatus?: ApprovalStatus): Promise<ApprovalRequest | undefined>;
+  
+  // Margin call operations
+  getMarginCalls(organizationId: string, filters?: { bankId?: string; status?: MarginCallStatus }): Promise<MarginCall[]>;
+  getMarginCall(callId: string, organizationId: string): Promise<MarginCall | undefined>;
+  createMarginCall(call: InsertMarginCall): Promise<MarginCall>;
+  updateMarginCall(callId: string, organizationId: string, updates: Partial<MarginCall>, expectedStatus?: MarginCallStatus): Promise<MarginCall | undefined>;
+  
+  // Language model operations
+  getLlmSettings(organizationId: string): Promise<LlmSettings | undefined>;
+  setLlmSettings(organizationId: string, settings: LlmSettingsRequest, userId: string): Promise<LlmSettings>;
+  recordLlmUsage(usage: InsertLlmUsage): Promise<void>;
+  getLlmUsageSummary(organizationId: string, since: Date): Promise<LlmUsageSummary[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -388,6 +563,225 @@ export class DatabaseStorage implements IStorage {
     return newBank;
   }
 
+  async getBank(bankId: string): Promise<Bank | undefined> {
+    const [bank] = await db.select().from(banks).where(eq(banks.id, bankId)).limit(1);
+    return bank;
+  }
+
+  // Codes are unique among the organization's own banks (archived ones included) and the global banks
+  async getBankByCode(code: string, organizationId: string): Promise<Bank | undefined> {
+    const [bank] = await db
+      .select()
+      .from(banks)
+      .where(and(
+        eq(banks.code, code),
+        or(isNull(banks.organizationId), eq(banks.organizationId, organizationId))
+      ))
+      .limit(1);
+    return bank;
+  }
+
+  async updateBank(bankId: string, organizationId: string, bank: Partial<InsertBank>): Promise<Bank> {
+    const [updatedBank] = await db
+      .update(banks)
+      .set(bank)
+      .where(and(eq(banks.id, bankId), eq(banks.organizationId, organizationId)))
+      .returning();
+    if (!updatedBank) {
+      throw new Error('Bank not found');
+    }
+    return updatedBank;
+  }
+
+  async archiveBank(bankId: string, organizationId: string, userId: string): Promise<Bank> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [activeFacility] = await tx
+        .select({ id: facilities.id })
+        .from(facilities)
+        .where(and(eq(facilities.bankId, bankId), eq(facilities.isActive, true)))
+        .limit(1);
+      if (activeFacility) {
+        throw new Error('Bank still has active facilities - close them or merge the bank into another one first');
+      }
+
+      const [archivedBank] = await tx
+        .update(banks)
+        .set({ isActive: false, archivedAt: new Date() })
+        .where(and(eq(banks.id, bankId), eq(banks.organizationId, organizationId)))
+        .returning();
+      if (!archivedBank) {
+        throw new Error('Bank not found');
+      }
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'bank',
+        entityId: bankId,
+        action: 'archive',
+        before: { isActive: true },
+        after: { isActive: false },
+      });
+
+      return archivedBank;
+    });
+  }
+
+  /**
+   * Re-point everything recorded against a duplicate bank to the bank it is merged into, then archive the duplicate.
+   * Account mappings the target already has for the same posting are dropped, and bank-level exposure
+   * snapshots on the same date are added together.
+   */
+  async mergeBanks(sourceBankId: string, targetBankId: string, organizationId: string, userId: string): Promise<BankMergeResult> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [source] = await tx
+        .select()
+        .from(banks)
+        .where(and(eq(banks.id, sourceBankId), eq(banks.organizationId, organizationId)))
+        .limit(1);
+      const [target] = await tx.select().from(banks).where(eq(banks.id, targetBankId)).limit(1);
+      if (!source || !target || (target.organizationId && target.organizationId !== organizationId)) {
+        throw new Error('Bank not found');
+      }
+
+      const sourceStatements: BankStatement[] = await tx.select().from(bankStatements).where(eq(bankStatements.bankId, sourceBankId));
+      if (sourceStatements.length > 0) {
+        const [duplicate] = await tx
+          .select()
+          .from(bankStatements)
+          .where(and(
+            eq(bankStatements.bankId, targetBankId),
+            inArray(bankStatements.contentHash, sourceStatements.map(st => st.contentHash))
+          ))
+          .limit(1);
+        if (duplicate) {
+          throw new Error(`Statement ${duplicate.fileName} was imported for both banks - delete one copy before merging`);
+        }
+      }
+
+      // A duplicate bank's primary contact stops being primary when the target already has one
+      const [targetPrimary] = await tx
+        .select({ id: bankContacts.id })
+        .from(bankContacts)
+        .where(and(eq(bankContacts.bankId, targetBankId), eq(bankContacts.organizationId, organizationId), eq(bankContacts.isPrimary, true)))
+        .limit(1);
+      if (targetPrimary) {
+        await tx.update(bankContacts).set({ isPrimary: false }).where(eq(bankContacts.bankId, sourceBankId));
+      }
+
+      const targetMappings: GlAccountMapping[] = await tx
+        .select()
+        .from(glAccountMappings)
+        .where(and(eq(glAccountMappings.organizationId, organizationId), eq(glAccountMappings.bankId, targetBankId)));
+      const sourceMappings: GlAccountMapping[] = await tx
+        .select()
+        .from(glAccountMappings)
+        .where(eq(glAccountMappings.bankId, sourceBankId));
+      const shadowed = sourceMappings.filter(m => targetMappings.some(t => t.entryType === m.entryType && t.facilityType === m.facilityType));
+      if (shadowed.length > 0) {
+        await tx.delete(glAccountMappings).where(inArray(glAccountMappings.id, shadowed.map(m => m.id)));
+      }
+
+      const sourceTotals: ExposureSnapshot[] = await tx
+        .select()
+        .from(exposureSnapshots)
+        .where(and(eq(exposureSnapshots.bankId, sourceBankId), isNull(exposureSnapshots.facilityId)));
+      for (const total of sourceTotals) {
+        const [targetTotal] = await tx
+          .select()
+          .from(exposureSnapshots)
+          .where(and(
+            eq(exposureSnapshots.bankId, targetBankId),
+            isNull(exposureSnapshots.facilityId),
+            eq(exposureSnapshots.userId, total.userId),
+            eq(exposureSnapshots.date, total.date)
+          ))
+          .limit(1);
+        if (targetTotal) {
+          await tx
+            .update(exposureSnapshots)
+            .set({
+              outstanding: (parseFloat(targetTotal.outstanding) + parseFloat(total.outstanding)).toFixed(2),
+              creditLimit: (parseFloat(targetTotal.creditLimit) + parseFloat(total.creditLimit)).toFixed(2),
+            })
+            .where(eq(exposureSnapshots.id, targetTotal.id));
+          await tx.delete(exposureSnapshots).where(eq(exposureSnapshots.id, total.id));
+        }
+      }
+      await tx.update(exposureSnapshots).set({ bankId: targetBankId }).where(eq(exposureSnapshots.bankId, sourceBankId));
+
+      const movedFacilities = await tx.update(facilities).set({ bankId: targetBankId }).where(eq(facilities.bankId, sourceBankId)).returning({ id: facilities.id });
+      const movedContacts = await tx.update(bankContacts).set({ bankId: targetBankId }).where(eq(bankContacts.bankId, sourceBankId)).returning({ id: bankContacts.id });
+      const movedAttachments = await tx.update(attachments).set({ bankId: targetBankId }).where(eq(attachments.bankId, sourceBankId)).returning({ id: attachments.id });
+      await tx
+        .update(attachments)
+        .set({ ownerId: targetBankId })
+        .where(and(eq(attachments.ownerType, 'bank'), eq(attachments.ownerId, sourceBankId)));
+      const movedTransactions = await tx.update(transactions).set({ bankId: targetBankId }).where(eq(transactions.bankId, sourceBankId)).returning({ id: transactions.id });
+      const movedAssignments = await tx.update(collateralAssignments).set({ bankId: targetBankId }).where(eq(collateralAssignments.bankId, sourceBankId)).returning({ id: collateralAssignments.id });
+      await tx.update(bankStatements).set({ bankId: targetBankId }).where(eq(bankStatements.bankId, sourceBankId));
+      await tx.update(bankStatementLines).set({ bankId: targetBankId }).where(eq(bankStatementLines.bankId, sourceBankId));
+      const movedMappings = await tx.update(glAccountMappings).set({ bankId: targetBankId }).where(eq(glAccountMappings.bankId, sourceBankId)).returning({ id: glAccountMappings.id });
+      const movedCalls = await tx.update(marginCalls).set({ bankId: targetBankId, updatedAt: new Date() }).where(eq(marginCalls.bankId, sourceBankId)).returning({ id: marginCalls.id });
+
+      // Both banks may have had an open bank-level call; only the one due first stays open
+      const targetCalls: MarginCall[] = await tx
+        .select()
+        .from(marginCalls)
+        .where(and(eq(marginCalls.organizationId, organizationId), eq(marginCalls.bankId, targetBankId), eq(marginCalls.status, 'open')));
+      const duplicateCalls = MarginCallService.duplicateOpenCalls(targetCalls);
+      for (const { duplicate, kept } of duplicateCalls) {
+        await tx
+          .update(marginCalls)
+          .set({
+            status: 'waived',
+            resolution: 'waived',
+            resolutionNotes: `Closed as a duplicate of the call opened ${kept.openedDate} when ${source.name} was merged into ${target.name}`,
+            resolvedBy: userId,
+            resolvedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(marginCalls.id, duplicate.id));
+      }
+
+      await tx
+        .update(banks)
+        .set({
+          isActive: false,
+          archivedAt: new Date(),
+          mergedIntoId: targetBankId,
+        })
+        .where(eq(banks.id, sourceBankId));
+      // Keep the duplicate's CSV statement layout when the target has none (global banks are shared, so left alone)
+      if (!target.statementCsvLayout && source.statementCsvLayout && target.organizationId) {
+        await tx.update(banks).set({ statementCsvLayout: source.statementCsvLayout }).where(eq(banks.id, targetBankId));
+      }
+
+      const result: BankMergeResult = {
+        sourceBankId,
+        targetBankId,
+        facilities: movedFacilities.length,
+        contacts: movedContacts.length,
+        attachments: movedAttachments.length,
+        transactions: movedTransactions.length,
+        collateralAssignments: movedAssignments.length,
+        statements: sourceStatements.length,
+        accountMappings: movedMappings.length,
+        marginCalls: movedCalls.length,
+      };
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'bank',
+        entityId: sourceBankId,
+        action: 'merge',
+        before: { name: source.name, code: source.code, isActive: source.isActive },
+        after: { ...result, mergedInto: target.name, mappingsDropped: shadowed.length, marginCallsClosed: duplicateCalls.length },
+      });
+
+      return result;
+    });
+  }
+
   // Bank Contact operations
   async getBankContacts(bankId: string, organizationId: string): Promise<Array<BankContact & { bank: Bank }>> {
     return await db
@@ -505,6 +899,17 @@ export class DatabaseStorage implements IStorage {
     return newFacility;
   }
 
+  async createFacilityWithCreditLines(facility: InsertFacility, lines: Omit<InsertCreditLine, 'facilityId'>[]): Promise<{ facility: Facility; creditLines: CreditLine[] }> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [newFacility] = await tx.insert(facilities).values(facility).returning();
+      const newCreditLines: CreditLine[] = lines.length === 0 ? [] : await tx
+        .insert(creditLines)
+        .values(lines.map(line => ({ ...line, facilityId: newFacility.id, availableLimit: line.creditLimit })))
+        .returning();
+      return { facility: newFacility, creditLines: newCreditLines };
+    });
+  }
+
   async updateFacility(facilityId: string, organizationId: string, facility: Partial<InsertFacility>): Promise<Facility> {
     const [updatedFacility] = await db
       .update(facilities)
@@ -550,20 +955,70 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCreditLine(creditLine: InsertCreditLine): Promise<CreditLine> {
-    const [newCreditLine] = await db.insert(creditLines).values(creditLine).returning();
+    // A new line has nothing drawn against it yet
+    const [newCreditLine] = await db
+      .insert(creditLines)
+      .values({ ...creditLine, availableLimit: creditLine.creditLimit })
+      .returning();
     return newCreditLine;
   }
 
   async updateCreditLine(creditLineId: string, organizationId: string, creditLine: Partial<InsertCreditLine>): Promise<CreditLine> {
-    const [updatedCreditLine] = await db
-      .update(creditLines)
-      .set(creditLine)
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [updatedCreditLine] = await tx
+        .update(creditLines)
+        .set(creditLine)
+        .where(and(
+          eq(creditLines.id, creditLineId),
+          eq(creditLines.organizationId, organizationId)
+        ))
+        .returning();
+      if (!updatedCreditLine) {
+        throw new Error('Credit line not found');
+      }
+
+      // A changed limit moves the headroom by the same amount, but may not drop below what is drawn
+      const availableLimit = await this.creditLineAvailableLimit(tx, updatedCreditLine);
+      if (parseFloat(availableLimit) < 0) {
+        throw new CreditLimitError(`Credit limit is below the ${(parseFloat(updatedCreditLine.creditLimit) - parseFloat(availableLimit)).toFixed(2)} already drawn on this credit line`);
+      }
+
+      const [refreshed] = await tx
+        .update(creditLines)
+        .set({ availableLimit })
+        .where(eq(creditLines.id, creditLineId))
+        .returning();
+      return refreshed;
+    });
+  }
+
+  async getCreditLine(creditLineId: string, organizationId: string): Promise<CreditLine | undefined> {
+    const [creditLine] = await db
+      .select()
+      .from(creditLines)
+      .where(and(eq(creditLines.id, creditLineId), eq(creditLines.organizationId, organizationId)))
+      .limit(1);
+    return creditLine;
+  }
+
+  async deleteCreditLine(creditLineId: string, organizationId: string): Promise<void> {
+    const [openLoan] = await db
+      .select({ id: loans.id })
+      .from(loans)
       .where(and(
-        eq(creditLines.id, creditLineId),
-        eq(creditLines.organizationId, organizationId)
+        eq(loans.creditLineId, creditLineId),
+        inArray(loans.status, ['active', 'overdue'])
       ))
-      .returning();
-    return updatedCreditLine;
+      .limit(1);
+    if (openLoan) {
+      throw new CreditLimitError('Credit line still has outstanding loans - settle them before removing it');
+    }
+
+    // Settled and cancelled loans keep referencing the line, so it is deactivated rather than removed
+    await db
+      .update(creditLines)
+      .set({ isActive: false })
+      .where(and(eq(creditLines.id, creditLineId), eq(creditLines.organizationId, organizationId)));
   }
 
   // Collateral operations
@@ -576,20 +1031,66 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCollateral(collateralData: InsertCollateral): Promise<Collateral> {
-    const [newCollateral] = await db.insert(collateral).values(collateralData).returning();
-    return newCollateral;
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [newCollateral] = await tx.insert(collateral).values(collateralData).returning();
+
+      // The value it is created with is the first entry of its valuation history
+      await tx.insert(collateralValuations).values({
+        collateralId: newCollateral.id,
+        organizationId: newCollateral.organizationId,
+        value: newCollateral.currentValue,
+        effectiveDate: newCollateral.valuationDate,
+        source: newCollateral.valuationSource,
+        createdBy: newCollateral.userId,
+      });
+
+      return newCollateral;
+    });
   }
 
-  async updateCollateral(collateralId: string, organizationId: string, collateralData: Partial<InsertCollateral>): Promise<Collateral> {
-    const [updatedCollateral] = await db
-      .update(collateral)
-      .set(collateralData)
-      .where(and(
-        eq(collateral.id, collateralId),
-        eq(collateral.organizationId, organizationId)
-      ))
-      .returning();
-    return updatedCollateral;
+  async updateCollateral(collateralId: string, organizationId: string, collateralData: Partial<InsertCollateral>, userId?: string): Promise<Collateral> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [existing] = await tx
+        .select()
+        .from(collateral)
+        .where(and(eq(collateral.id, collateralId), eq(collateral.organizationId, organizationId)));
+
+      const [updatedCollateral] = await tx
+        .update(collateral)
+        .set(collateralData)
+        .where(and(
+          eq(collateral.id, collateralId),
+          eq(collateral.organizationId, organizationId)
+        ))
+        .returning();
+
+      // Editing the value or its date records a valuation instead of losing the previous one
+      if (existing && updatedCollateral && (
+        updatedCollateral.currentValue !== existing.currentValue || updatedCollateral.valuationDate !== existing.valuationDate
+      )) {
+        await tx.insert(collateralValuations).values({
+          collateralId,
+          organizationId,
+          value: updatedCollateral.currentValue,
+          effectiveDate: updatedCollateral.valuationDate,
+          source: updatedCollateral.valuationSource,
+          createdBy: userId ?? existing.userId,
+        });
+      }
+
+      // Collateral with a haircut is pledged at its value after the haircut
+      const pledgedValue = CollateralValuationService.pledgedValue(updatedCollateral?.currentValue ?? '0', updatedCollateral?.haircutPercent);
+      if (existing && pledgedValue !== null && (
+        updatedCollateral.currentValue !== existing.currentValue || updatedCollateral.haircutPercent !== existing.haircutPercent
+      )) {
+        await tx
+          .update(collateralAssignments)
+          .set({ pledgedValue })
+          .where(and(eq(collateralAssignments.collateralId, collateralId), eq(collateralAssignments.isActive, true)));
+      }
+
+      return updatedCollateral;
+    });
   }
 
   async deleteCollateral(collateralId: string, organizationId: string): Promise<void> {
@@ -605,6 +1106,122 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  async getCollateralValuations(collateralId: string): Promise<CollateralValuation[]> {
+    return await db
+      .select()
+      .from(collateralValuations)
+      .where(eq(collateralValuations.collateralId, collateralId))
+      .orderBy(desc(collateralValuations.effectiveDate), desc(collateralValuations.createdAt));
+  }
+
+  async getOrganizationCollateralValuations(organizationId: string): Promise<CollateralValuation[]> {
+    return await db
+      .select()
+      .from(collateralValuations)
+      .where(eq(collateralValuations.organizationId, organizationId))
+      .orderBy(asc(collateralValuations.effectiveDate));
+  }
+
+  async addCollateralValuation(collateralId: string, organizationId: string, valuation: CollateralValuationRequest, userId: string): Promise<CollateralValuation> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [existing] = await tx
+        .select()
+        .from(collateral)
+        .where(and(eq(collateral.id, collateralId), eq(collateral.organizationId, organizationId)));
+      if (!existing) {
+        throw new Error('Collateral not found');
+      }
+
+      const [created] = await tx
+        .insert(collateralValuations)
+        .values({
+          collateralId,
+          organizationId,
+          value: valuation.value,
+          effectiveDate: valuation.effectiveDate,
+          source: valuation.source,
+          valuerName: valuation.valuerName ?? null,
+          reportAttachmentId: valuation.reportAttachmentId ?? null,
+          notes: valuation.notes ?? null,
+          createdBy: userId,
+        })
+        .returning();
+
+      // A backdated valuation only fills in the history
+      if (CollateralValuationService.isLatest(existing, valuation.effectiveDate)) {
+        await tx
+          .update(collateral)
+          .set({ currentValue: valuation.value, valuationDate: valuation.effectiveDate, valuationSource: valuation.source })
+          .where(eq(collateral.id, collateralId));
+
+        // Collateral with a haircut is pledged at its value after the haircut
+        const pledgedValue = CollateralValuationService.pledgedValue(valuation.value, existing.haircutPercent);
+        if (pledgedValue !== null) {
+          await tx
+            .update(collateralAssignments)
+            .set({ pledgedValue })
+            .where(and(eq(collateralAssignments.collateralId, collateralId), eq(collateralAssignments.isActive, true)));
+        }
+      }
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'collateral',
+        entityId: collateralId,
+        action: 'revalue',
+        before: { currentValue: existing.currentValue, valuationDate: existing.valuationDate },
+        after: valuation,
+      });
+
+      return created;
+    });
+  }
+
+  async getCollateralRevaluationFrequencies(organizationId: string): Promise<CollateralRevaluationFrequency[]> {
+    return await db
+      .select()
+      .from(collateralRevaluationFrequencies)
+      .where(eq(collateralRevaluationFrequencies.organizationId, organizationId));
+  }
+
+  async setCollateralRevaluationFrequencies(organizationId: string, frequencies: CollateralRevaluationFrequenciesRequest, userId: string): Promise<CollateralRevaluationFrequency[]> {
+    const before = await this.getCollateralRevaluationFrequencies(organizationId);
+
+    await db.transaction(async (tx: DbTransaction) => {
+      for (const [type, frequencyMonths] of Object.entries(frequencies)) {
+        if (frequencyMonths === undefined) continue;
+        const collateralType = type as CollateralRevaluationFrequency['collateralType'];
+        if (frequencyMonths === null) {
+          await tx
+            .delete(collateralRevaluationFrequencies)
+            .where(and(
+              eq(collateralRevaluationFrequencies.organizationId, organizationId),
+              eq(collateralRevaluationFrequencies.collateralType, collateralType)
+            ));
+          continue;
+        }
+        await tx
+          .insert(collateralRevaluationFrequencies)
+          .values({ organizationId, collateralType, frequencyMonths, updatedBy: userId, updatedAt: new Date() })
+          .onConflictDoUpdate({
+            target: [collateralRevaluationFrequencies.organizationId, collateralRevaluationFrequencies.collateralType],
+            set: { frequencyMonths, updatedBy: userId, updatedAt: new Date() },
+          });
+      }
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'collateral_revaluation_frequencies',
+        entityId: organizationId,
+        action: 'update',
+        before: Object.fromEntries(before.map(f => [f.collateralType, f.frequencyMonths])),
+        after: frequencies,
+      });
+    });
+
+    return await this.getCollateralRevaluationFrequencies(organizationId);
+  }
+
   // Collateral Assignment operations
   async getUserCollateralAssignments(organizationId: string): Promise<Array<CollateralAssignment & { 
     collateral: Collateral; 
@@ -729,8 +1346,55 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createLoan(loan: InsertLoan): Promise<Loan> {
-    const [newLoan] = await db.insert(loans).values(loan).returning();
-    return newLoan;
+    // The drawdown is booked on the start date
+    if (loan.organizationId) {
+      PeriodCloseService.assertOpen(await this.getClosedPeriods(loan.organizationId), [loan.startDate]);
+    }
+
+    return await db.transaction(async (tx: DbTransaction) => {
+      if (loan.creditLineId) {
+        const [creditLine] = await tx
+          .select()
+          .from(creditLines)
+          .where(eq(creditLines.id, loan.creditLineId))
+          .limit(1);
+        if (!creditLine || creditLine.organizationId !== loan.organizationId) {
+          throw new Error('Credit line not found for loan');
+        }
+        CreditLineService.assertDrawFits(creditLine, await this.creditLineAvailableLimit(tx, creditLine), loan.amount);
+      }
+
+      const [newLoan] = await tx.insert(loans).values(loan).returning();
+
+      const [facility] = await tx
+        .select()
+        .from(facilities)
+        .where(eq(facilities.id, newLoan.facilityId))
+        .limit(1);
+
+      if (!facility) {
+        throw new Error('Facility not found for loan');
+      }
+
+      // Post the drawdown so the loan balance can be replayed from the ledger
+      await tx.insert(transactions).values({
+        userId: newLoan.userId,
+        loanId: newLoan.id,
+        facilityId: newLoan.facilityId,
+        bankId: facility.bankId,
+        type: 'draw',
+        amount: newLoan.amount,
+        date: newLoan.startDate,
+        memo: 'Loan drawdown',
+        reference: newLoan.referenceNumber,
+        createdBy: newLoan.userId,
+        idempotencyKey: `DRAW:${newLoan.id}`,
+        allocation: { principal: parseFloat(newLoan.amount) },
+      });
+      await this.refreshCreditLineLimit(tx, newLoan.creditLineId);
+
+      return newLoan;
+    });
   }
 
   async getLoanById(loanId: string): Promise<(Loan & { facility: Facility & { bank: Bank } }) | undefined> {
@@ -755,52 +1419,147 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateLoan(loanId: string, loan: Partial<InsertLoan>): Promise<Loan> {
-    const [updatedLoan] = await db
-      .update(loans)
-      .set(loan)
-      .where(eq(loans.id, loanId))
-      .returning();
-    return updatedLoan;
+    await this.assertLoanPeriodsOpen(loanId, existing => PeriodCloseService.loanUpdateDates(existing, loan));
+
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [previous] = await tx.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+      if (previous) {
+        const ledger = await tx.select().from(transactions).where(eq(transactions.loanId, loanId));
+        const merged: Loan = { ...previous, ...loan };
+        const exported = await tx
+          .select({ transactionId: glExportEntries.transactionId })
+          .from(glExportEntries)
+          .innerJoin(transactions, eq(glExportEntries.transactionId, transactions.id))
+          .where(eq(transactions.loanId, loanId));
+        const draw = LoanLedgerService.drawToRewrite(previous, merged, ledger, new Set(exported.map(row => row.transactionId)));
+
+        const addedDraw = CreditLineService.addedDraw(previous, merged, ledger);
+        if (addedDraw > 0) {
+          const [creditLine] = await tx
+            .select()
+            .from(creditLines)
+            .where(eq(creditLines.id, merged.creditLineId!))
+            .limit(1);
+          if (!creditLine || creditLine.organizationId !== previous.organizationId) {
+            throw new Error('Credit line not found for loan');
+          }
+          CreditLineService.assertDrawFits(creditLine, await this.creditLineAvailableLimit(tx, creditLine), addedDraw.toFixed(2));
+        }
+
+        // The draw follows the edited amount and start date so the ledger replays to the loan row
+        if (draw) {
+          await tx
+            .update(transactions)
+            .set({ amount: merged.amount, date: merged.startDate })
+            .where(eq(transactions.id, draw.id));
+        }
+      }
+
+      const [updatedLoan] = await tx
+        .update(loans)
+        .set(loan)
+        .where(eq(loans.id, loanId))
+        .returning();
+
+      // Amount, status or a move to another line changes what is drawn on the credit lines
+      await this.refreshCreditLineLimit(tx, updatedLoan?.creditLineId);
+      if (previous?.creditLineId !== updatedLoan?.creditLineId) {
+        await this.refreshCreditLineLimit(tx, previous?.creditLineId);
+      }
+      return updatedLoan;
+    });
   }
 
   async settleLoan(loanId: string, settlement: SettlementRequest, userId: string): Promise<{ loan: Loan; transactions: Transaction[] }> {
-    return await db.transaction(async (tx) => {
-      // Get facility to find bank ID first
+    await this.assertLoanPeriodsOpen(loanId, () => [settlement.date]);
+    InterestService.assertAccrualDate(settlement.date);
+
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [current] = await tx
+        .select()
+        .from(loans)
+        .where(eq(loans.id, loanId))
+        .limit(1);
+
+      if (!current) {
+        throw new Error('Loan not found');
+      }
+
+      if (current.status !== 'active') {
+        throw new Error('Only active loans can be settled');
+      }
+
       const [facility] = await tx
         .select()
         .from(facilities)
-        .where(eq(facilities.id, (
-          await tx.select({ facilityId: loans.facilityId })
-            .from(loans)
-            .where(eq(loans.id, loanId))
-            .limit(1)
-        )[0].facilityId))
+        .where(eq(facilities.id, current.facilityId))
         .limit(1);
 
       if (!facility) {
         throw new Error('Facility not found for loan');
       }
 
-      // Create settlement transaction first (with all required fields)
+      // Bring interest up to the settlement date so the payoff includes it
+      await this.accrueInterestIn(tx, loanId, settlement.date, userId);
+
+      // Settle the full ledger balance as of the settlement date unless an amount is given
+      const [loan] = await tx
+        .select()
+        .from(loans)
+        .where(eq(loans.id, loanId))
+        .limit(1);
+      const ledger = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.loanId, loanId));
+      const balance = LoanLedgerService.calculateBalance(loan, ledger, settlement.date);
+      const settlementAmount = settlement.amount ? parseFloat(settlement.amount) : balance.total;
+      const split = LoanLedgerService.settlementSplit(balance, settlementAmount);
+      const reference = `SETTLE-${loanId.substring(0, 8).toUpperCase()}`;
+
+      // The repayment carries only what is paid; the rest of the balance is written off on its own entry
       const settlementTransaction: InsertTransaction = {
         userId,
         loanId,
         facilityId: facility.id,
         bankId: facility.bankId,
         type: 'repayment',
-        amount: (settlement.amount || 0).toString(),
+        amount: settlementAmount.toFixed(2),
         date: settlement.date,
         memo: settlement.memo || 'Loan settlement',
-        reference: `SETTLE-${loanId.substring(0, 8).toUpperCase()}`,
+        reference,
         createdBy: userId,
         idempotencyKey: `SETTLE:${loanId}:${settlement.date}`,
-        allocation: { settlement: parseFloat((settlement.amount || 0).toString()) },
+        allocation: split.paid,
       };
 
       const [transaction] = await tx
         .insert(transactions)
         .values(settlementTransaction)
         .returning();
+      const posted = [transaction];
+
+      const writtenOff = InterestService.roundAmount(split.writtenOff.principal + split.writtenOff.interest + split.writtenOff.fees);
+      if (writtenOff > 0) {
+        const [writeOff] = await tx
+          .insert(transactions)
+          .values({
+            userId,
+            loanId,
+            facilityId: facility.id,
+            bankId: facility.bankId,
+            type: 'write_off',
+            amount: writtenOff.toFixed(2),
+            date: settlement.date,
+            memo: 'Settlement shortfall written off',
+            reference,
+            createdBy: userId,
+            idempotencyKey: `WRITEOFF:${loanId}:${settlement.date}`,
+            allocation: split.writtenOff,
+          })
+          .returning();
+        posted.push(writeOff);
+      }
 
       // Then update loan status
       const [settledLoan] = await tx
@@ -808,17 +1567,21 @@ export class DatabaseStorage implements IStorage {
         .set({
           status: 'settled',
           settledDate: settlement.date,
-          settledAmount: (settlement.amount || 0).toString(),
+          settledAmount: settlementAmount.toFixed(2),
         })
         .where(eq(loans.id, loanId))
         .returning();
+      await this.refreshCreditLineLimit(tx, settledLoan.creditLineId);
 
-      return { loan: settledLoan, transactions: [transaction] };
+      return { loan: settledLoan, transactions: posted };
     });
   }
 
   async reverseLoanSettlement(loanId: string, reason: string, userId: string): Promise<Loan> {
-    return await db.transaction(async (tx) => {
+    // Reversing reopens the loan as of its settlement date
+    await this.assertLoanPeriodsOpen(loanId, loan => [loan.settledDate]);
+
+    return await db.transaction(async (tx: DbTransaction) => {
       // Get loan to verify it's settled
       const [loan] = await tx
         .select()
@@ -834,18 +1597,36 @@ export class DatabaseStorage implements IStorage {
         throw new Error('Loan is not settled - cannot reverse settlement');
       }
 
+      // Void what the settlement posted so the ledger replays to the balance it settled
+      const ledger = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.loanId, loanId));
+      for (const entry of LoanLedgerService.settlementEntries(loan, ledger)) {
+        await tx.insert(transactions).values({
+          userId,
+          loanId,
+          facilityId: entry.facilityId,
+          bankId: entry.bankId,
+          type: 'void',
+          amount: entry.amount,
+          date: entry.date,
+          memo: 'Settlement reversed',
+          reference: entry.id,
+          createdBy: userId,
+          idempotencyKey: `VOID:${entry.id}`,
+        });
+      }
+
       // Create audit log for the reversal
       await tx.insert(auditLogs).values({
         userId,
         entityType: 'loan',
         entityId: loanId,
         action: 'settlement_reversed',
-        changes: {
-          previousStatus: 'settled',
-          previousSettledDate: loan.settledDate,
-          previousSettledAmount: loan.settledAmount,
-          reversalReason: reason,
-        },
+        before: { status: 'settled', settledDate: loan.settledDate, settledAmount: loan.settledAmount },
+        after: { status: 'active' },
+        reason,
       });
 
       // Update loan: revert to active, record reversal details
@@ -862,6 +1643,7 @@ export class DatabaseStorage implements IStorage {
         })
         .where(eq(loans.id, loanId))
         .returning();
+      await this.refreshCreditLineLimit(tx, reversedLoan.creditLineId);
 
       return reversedLoan;
     });
@@ -874,13 +1656,16 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Loan not found or access denied');
     }
 
-    await db
-      .update(loans)
-      .set({
-        status: 'cancelled',
-        updatedAt: new Date()
-      })
-      .where(and(eq(loans.id, loanId), eq(loans.organizationId, organizationId)));
+    await db.transaction(async (tx: DbTransaction) => {
+      await tx
+        .update(loans)
+        .set({
+          status: 'cancelled',
+          updatedAt: new Date()
+        })
+        .where(and(eq(loans.id, loanId), eq(loans.organizationId, organizationId)));
+      await this.refreshCreditLineLimit(tx, loan.creditLineId);
+    });
   }
 
   async permanentlyDeleteLoan(loanId: string, organizationId: string): Promise<void> {
@@ -900,30 +1685,47 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(loans.id, loanId), eq(loans.organizationId, organizationId)));
   }
 
-  async calculateLoanBalance(loanId: string): Promise<{ principal: number; interest: number; fees: number; total: number }> {
-    const loan = await db
+  async calculateLoanBalance(loanId: string, asOf?: string): Promise<LoanBalance> {
+    const [loan] = await db
       .select()
       .from(loans)
       .where(eq(loans.id, loanId))
       .limit(1);
 
-    if (loan.length === 0) {
+    if (!loan) {
       throw new Error('Loan not found');
     }
 
-    // For now, return simple balance calculation based on loan amount
-    // This can be enhanced later with transaction tracking
-    const principal = Number(loan[0].amount);
-    const interest = 0; // TODO: Calculate based on SIBOR + margin
-    const fees = 0; // TODO: Calculate any applicable fees
-    const total = principal + interest + fees;
+    const ledger = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.loanId, loanId));
+
+    return LoanLedgerService.calculateBalance(loan, ledger, asOf || InterestService.toDateString(new Date()));
+  }
+
+  async calculateLoanBalances(loanIds: string[], asOf?: string): Promise<Record<string, LoanBalance>> {
+    if (loanIds.length === 0) {
+      return {};
+    }
+
+    const balanceDate = asOf || InterestService.toDateString(new Date());
+    const loanRows: Loan[] = await db
+      .select()
+      .from(loans)
+      .where(inArray(loans.id, loanIds));
+
+    const ledgerRows: Transaction[] = await db
+      .select()
+      .from(transactions)
+      .where(inArray(transactions.loanId, loanIds));
 
-    return {
-      principal,
-      interest,
-      fees,
-      total
-    };
+    const balances: Record<string, LoanBalance> = {};
+    for (const loan of loanRows) {
+      const ledger = ledgerRows.filter(t => t.loanId === loan.id);
+      balances[loan.id] = LoanLedgerService.calculateBalance(loan, ledger, balanceDate);
+    }
+    return balances;
   }
 
   private formatFacilityType(facilityType: string): string {
@@ -954,29 +1756,64 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async processPayment(loanId: string, payment: PaymentRequest, userId: string): Promise<{ loan: Loan; transactions: Transaction[] }> {
-    return await db.transaction(async (tx) => {
+  async processPayment(loanId: string, payment: PaymentRequest, userId: string): Promise<{ loan: Loan; transactions: Transaction[]; payment: LoanPayment }> {
+    await this.assertLoanPeriodsOpen(loanId, () => [payment.date]);
+    InterestService.assertAccrualDate(payment.date);
+
+    return await db.transaction(async (tx: DbTransaction) => {
       // Get loan and facility information
-      const [loan] = await tx
+      const [current] = await tx
         .select()
         .from(loans)
         .where(eq(loans.id, loanId))
         .limit(1);
 
-      if (!loan) {
+      if (!current) {
         throw new Error('Loan not found');
       }
 
+      if (current.status !== 'active') {
+        throw new Error('Payments can only be recorded against active loans');
+      }
+
       const [facility] = await tx
         .select()
         .from(facilities)
-        .where(eq(facilities.id, loan.facilityId))
+        .where(eq(facilities.id, current.facilityId))
         .limit(1);
 
       if (!facility) {
         throw new Error('Facility not found for loan');
       }
 
+      // Interest up to the payment date has to be on the ledger before the waterfall splits the payment
+      await this.accrueInterestIn(tx, loanId, payment.date, userId);
+      const [loan] = await tx
+        .select()
+        .from(loans)
+        .where(eq(loans.id, loanId))
+        .limit(1);
+
+      const ledger = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.loanId, loanId));
+
+      const installments: LoanInstallment[] = await tx
+        .select()
+        .from(loanInstallments)
+        .where(eq(loanInstallments.loanId, loanId));
+
+      // Split the payment on the server using the facility's waterfall
+      const balance = LoanLedgerService.calculateBalance(loan, ledger, payment.date);
+      const due = PaymentWaterfallService.amountsDue(loan, balance, installments, payment.date);
+      const allocation = PaymentWaterfallService.allocate(
+        parseFloat(payment.amount),
+        due,
+        PaymentWaterfallService.orderFor(facility),
+        payment.prepayment,
+      );
+
       // Create payment transaction
       const paymentTransaction: InsertTransaction = {
         userId,
@@ -990,7 +1827,7 @@ export class DatabaseStorage implements IStorage {
         reference: payment.reference || null,
         createdBy: userId,
         idempotencyKey: payment.idempotencyKey || `PAY:${loanId}:${payment.date}:${Date.now()}`,
-        allocation: payment.allocation || null,
+        allocation,
       };
 
       const [transaction] = await tx
@@ -998,24 +1835,451 @@ export class DatabaseStorage implements IStorage {
         .values(paymentTransaction)
         .returning();
 
-      return { loan, transactions: [transaction] };
+      const principalAmount = allocation.principal.toFixed(2);
+      const interestAmount = allocation.interest.toFixed(2);
+      const { allocations, updates } = InstallmentService.allocatePayment(installments, {
+        amount: payment.amount,
+        principalAmount,
+        interestAmount,
+        paymentDate: payment.date,
+      });
+      for (const update of updates) {
+        await tx
+          .update(loanInstallments)
+          .set({
+            paidPrincipal: update.paidPrincipal,
+            paidInterest: update.paidInterest,
+            status: update.status,
+            paidDate: update.paidDate,
+            updatedAt: new Date(),
+          })
+          .where(eq(loanInstallments.id, update.id));
+      }
+
+      const [loanPayment] = await tx
+        .insert(loanPayments)
+        .values({
+          organizationId: loan.organizationId!,
+          loanId,
+          paymentDate: payment.date,
+          amount: payment.amount.toString(),
+          principalAmount,
+          interestAmount,
+          feesAmount: allocation.fees.toFixed(2),
+          transactionId: transaction.id,
+          paymentMethod: payment.paymentMethod || 'bank_transfer',
+          referenceNumber: payment.reference || null,
+          notes: payment.memo || null,
+          installmentAllocations: allocations.length > 0 ? allocations : null,
+          createdBy: userId,
+        })
+        .returning();
+      await this.refreshCreditLineLimit(tx, loan.creditLineId);
+
+      return { loan, transactions: [transaction], payment: loanPayment };
     });
   }
 
   async revolveLoan(loanId: string, revolve: RevolveRequest, userId: string): Promise<{ oldLoan: Loan; newLoan: Loan; transactions: Transaction[] }> {
-    // Simple implementation - mark old loan as settled and create new loan
-    const oldLoan = await this.getLoanById(loanId);
-    if (!oldLoan) throw new Error('Loan not found');
-    
-    // For now, return a simple revolve (this can be enhanced later)
-    const newLoan = { ...oldLoan, id: 'new-' + loanId };
-    return { oldLoan, newLoan, transactions: [] };
+    const revolveDate = revolve.startDate || InterestService.toDateString(new Date());
+
+    await this.assertLoanPeriodsOpen(loanId, () => [revolveDate]);
+    InterestService.assertAccrualDate(revolveDate);
+
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [current] = await tx
+        .select()
+        .from(loans)
+        .where(eq(loans.id, loanId))
+        .limit(1);
+
+      if (!current) {
+        throw new Error('Loan not found');
+      }
+
+      if (current.status !== 'active') {
+        throw new Error('Only active loans can be revolved');
+      }
+
+      if (revolve.dueDate <= revolveDate) {
+        throw new Error('Due date must be after the revolve date');
+      }
+
+      const [facility] = await tx
+        .select()
+        .from(facilities)
+        .where(eq(facilities.id, current.facilityId))
+        .limit(1);
+
+      if (!facility) {
+        throw new Error('Facility not found for loan');
+      }
+
+      // The revolving period covers the whole cycle chain, from the first cycle's start to the new due date
+      if (facility.enableRevolvingTracking && facility.maxRevolvingPeriod) {
+        let firstCycle: Loan = current;
+        while (firstCycle.parentLoanId) {
+          const [parent] = await tx
+            .select()
+            .from(loans)
+            .where(eq(loans.id, firstCycle.parentLoanId))
+            .limit(1);
+          if (!parent) break;
+          firstCycle = parent;
+        }
+
+        const daysUsed = InterestService.dayCount(firstCycle.startDate, revolve.dueDate, 'actual_365');
+        if (daysUsed > facility.maxRevolvingPeriod) {
+          throw new Error(`Revolving to ${revolve.dueDate} would use ${daysUsed} days, exceeding the facility's maximum revolving period of ${facility.maxRevolvingPeriod} days`);
+        }
+      }
+
+      // Bring interest on the current cycle up to the rollover date so it is paid off with it
+      await this.accrueInterestIn(tx, loanId, revolveDate, userId);
+      const [oldLoan] = await tx
+        .select()
+        .from(loans)
+        .where(eq(loans.id, loanId))
+        .limit(1);
+
+      const ledger = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.loanId, loanId));
+      const balance = LoanLedgerService.calculateBalance(oldLoan, ledger, revolveDate);
+      const rolledPrincipal = revolve.amount ? parseFloat(revolve.amount) : balance.principal;
+
+      if (rolledPrincipal <= 0) {
+        throw new Error('Loan has no outstanding principal to revolve');
+      }
+
+      // Rolling over more than is outstanding draws new money, which has to fit in the credit line or facility
+      const addedDraw = InterestService.roundAmount(rolledPrincipal - balance.principal);
+      if (addedDraw > 0) {
+        const [creditLine] = oldLoan.creditLineId
+          ? await tx.select().from(creditLines).where(eq(creditLines.id, oldLoan.creditLineId)).limit(1)
+          : [];
+        if (creditLine) {
+          CreditLineService.assertDrawFits(creditLine, await this.creditLineAvailableLimit(tx, creditLine), addedDraw.toFixed(2));
+        } else {
+          CreditLineService.assertFacilityDrawFits(facility, await this.facilityAvailableLimit(tx, facility), addedDraw.toFixed(2));
+        }
+      }
+
+      const siborTermMonths = revolve.siborTermMonths ?? oldLoan.siborTermMonths;
+      const siborRate = revolve.siborRate
+        ?? (await RateResetService.revolveFixing(oldLoan, siborTermMonths, revolveDate, (tenor, date) => this.getLatestReferenceRate(tenor, date))).rate;
+      const margin = revolve.margin ?? oldLoan.margin;
+      const cycleNumber = (oldLoan.cycleNumber || 1) + 1;
+
+      const [newLoan] = await tx
+        .insert(loans)
+        .values({
+          organizationId: oldLoan.organizationId,
+          facilityId: oldLoan.facilityId,
+          creditLineId: oldLoan.creditLineId,
+          userId: oldLoan.userId,
+          parentLoanId: oldLoan.id,
+          cycleNumber,
+          referenceNumber: `${oldLoan.referenceNumber.replace(/-R\d+$/, '')}-R${cycleNumber}`,
+          amount: rolledPrincipal.toFixed(2),
+          startDate: revolveDate,
+          dueDate: revolve.dueDate,
+          siborRate,
+          siborTerm: revolve.siborTermMonths ? `${revolve.siborTermMonths} Months SIBOR` : oldLoan.siborTerm,
+          siborTermMonths,
+          margin,
+          bankRate: (parseFloat(siborRate) + parseFloat(margin)).toFixed(2),
+          interestBasis: oldLoan.interestBasis,
+          notes: revolve.memo || oldLoan.notes,
+          status: 'active',
+        })
+        .returning();
+
+      // Close the current cycle: principal rolls into the new loan, interest and fees are paid off
+      const [rolloverTransaction] = await tx
+        .insert(transactions)
+        .values({
+          userId,
+          loanId,
+          facilityId: facility.id,
+          bankId: facility.bankId,
+          type: 'repayment',
+          amount: balance.total.toFixed(2),
+          date: revolveDate,
+          memo: revolve.memo || `Rolled over into cycle ${cycleNumber}`,
+          reference: newLoan.referenceNumber,
+          createdBy: userId,
+          idempotencyKey: `REVOLVE:${loanId}`,
+          allocation: {
+            fees: balance.fees,
+            interest: balance.interest,
+            principal: balance.principal,
+            settlement: balance.total,
+            rolledPrincipal,
+            rolledToLoanId: newLoan.id,
+          },
+        } as InsertTransaction)
+        .returning();
+
+      const [drawTransaction] = await tx
+        .insert(transactions)
+        .values({
+          userId,
+          loanId: newLoan.id,
+          facilityId: facility.id,
+          bankId: facility.bankId,
+          type: 'draw',
+          amount: newLoan.amount,
+          date: revolveDate,
+          memo: `Rollover from ${oldLoan.referenceNumber}`,
+          reference: newLoan.referenceNumber,
+          createdBy: userId,
+          idempotencyKey: `DRAW:${newLoan.id}`,
+          allocation: { principal: rolledPrincipal },
+        } as InsertTransaction)
+        .returning();
+
+      const [settledLoan] = await tx
+        .update(loans)
+        .set({
+          status: 'settled',
+          settledDate: revolveDate,
+          settledAmount: balance.total.toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(loans.id, loanId))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'loan',
+        entityId: loanId,
+        action: 'revolve',
+        before: {
+          status: oldLoan.status,
+          cycleNumber: oldLoan.cycleNumber,
+          dueDate: oldLoan.dueDate,
+          siborRate: oldLoan.siborRate,
+          margin: oldLoan.margin,
+          outstanding: balance,
+        },
+        after: {
+          newLoanId: newLoan.id,
+          cycleNumber,
+          amount: newLoan.amount,
+          startDate: newLoan.startDate,
+          dueDate: newLoan.dueDate,
+          siborRate: newLoan.siborRate,
+          margin: newLoan.margin,
+          bankRate: newLoan.bankRate,
+        },
+        reason: revolve.memo || null,
+      });
+      await this.refreshCreditLineLimit(tx, newLoan.creditLineId);
+
+      return { oldLoan: settledLoan, newLoan, transactions: [rolloverTransaction, drawTransaction] };
+    });
   }
 
   async accrueInterest(loanId: string, toDate: string, userId: string): Promise<Transaction[]> {
-    // Simple implementation - return empty array for now
-    // This can be enhanced with actual interest calculation logic
-    return [];
+    const accrued = await db.transaction(async (tx: DbTransaction) => this.accrueInterestIn(tx, loanId, toDate, userId));
+
+    const [loan] = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+    if (loan.status === 'active') {
+      await this.scheduleRateResetReminder(loan, toDate);
+    }
+    return accrued;
+  }
+
+  /**
+   * Reprice and accrue a loan up to toDate within the caller's transaction, so a payment, settlement
+   * or revolve that is then rejected leaves neither the interest nor lastAccrualDate behind
+   */
+  private async accrueInterestIn(tx: DbTransaction, loanId: string, toDate: string, userId: string): Promise<Transaction[]> {
+    InterestService.assertAccrualDate(toDate);
+
+    // Reprice floating loans first so each sub-period accrues at the rate fixed for it
+    const ratePeriods = await this.applyRateResetsIn(tx, loanId, toDate, userId);
+    const rateSchedule = RateResetService.rateSchedule(ratePeriods);
+
+    const [loan] = await tx
+      .select()
+      .from(loans)
+      .where(eq(loans.id, loanId))
+      .limit(1);
+
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+
+    const ledger = await tx
+      .select()
+      .from(transactions)
+      .where(eq(transactions.loanId, loanId));
+
+    const principalSchedule = LoanLedgerService.principalSchedule(loan, ledger, toDate);
+    const periods = InterestService.buildAccrualPeriods(loan, toDate, principalSchedule, rateSchedule);
+    if (periods.length === 0) {
+      return [];
+    }
+
+    // Each period is booked on its end date; catching up into a closed month waits until it is reopened
+    if (loan.organizationId) {
+      const postedKeys = new Set(ledger.map((t: Transaction) => t.idempotencyKey));
+      PeriodCloseService.assertOpen(
+        await this.getClosedPeriods(loan.organizationId),
+        periods
+          .filter(period => period.amount > 0 && !postedKeys.has(InterestService.accrualIdempotencyKey(loanId, period)))
+          .map(period => period.toDate)
+      );
+    }
+
+    const [facility] = await tx
+      .select()
+      .from(facilities)
+      .where(eq(facilities.id, loan.facilityId))
+      .limit(1);
+
+    if (!facility) {
+      throw new Error('Facility not found for loan');
+    }
+
+    const interestTransactions: InsertTransaction[] = periods
+      .filter(period => period.amount > 0)
+      .map(period => ({
+        userId,
+        loanId,
+        facilityId: loan.facilityId,
+        bankId: facility.bankId,
+        type: 'interest' as const,
+        amount: period.amount.toFixed(2),
+        date: period.toDate,
+        memo: `Interest accrual ${period.fromDate} to ${period.toDate}`,
+        reference: `INT-${loanId.substring(0, 8).toUpperCase()}`,
+        createdBy: userId,
+        idempotencyKey: InterestService.accrualIdempotencyKey(loanId, period),
+        allocation: { interest: period.amount },
+        notes: `${period.days} days at ${period.rate.toFixed(2)}% (${period.basis}) on ${period.principal.toFixed(2)}`,
+      }));
+
+    // Periods already posted by an earlier run are skipped via the idempotency key
+    const inserted = interestTransactions.length > 0
+      ? await tx
+          .insert(transactions)
+          .values(interestTransactions)
+          .onConflictDoNothing({ target: transactions.idempotencyKey })
+          .returning()
+      : [];
+
+    await tx
+      .update(loans)
+      .set({
+        lastAccrualDate: periods[periods.length - 1].toDate,
+        updatedAt: new Date(),
+      })
+      .where(eq(loans.id, loanId));
+
+    return inserted;
+  }
+
+  // Floating rate reset operations
+  async getLoanRatePeriods(loanId: string): Promise<LoanRatePeriod[]> {
+    return await db
+      .select()
+      .from(loanRatePeriods)
+      .where(eq(loanRatePeriods.loanId, loanId))
+      .orderBy(asc(loanRatePeriods.periodStart));
+  }
+
+  async applyRateResets(loanId: string, asOf: string, userId: string): Promise<LoanRatePeriod[]> {
+    const periods = await db.transaction(async (tx: DbTransaction) => this.applyRateResetsIn(tx, loanId, asOf, userId));
+
+    const [loan] = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+    if (loan.status === 'active') {
+      await this.scheduleRateResetReminder(loan, asOf);
+    }
+    return periods;
+  }
+
+  private async applyRateResetsIn(tx: DbTransaction, loanId: string, asOf: string, userId: string): Promise<LoanRatePeriod[]> {
+    const [loan] = await tx.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+    if (!loan) {
+      throw new Error('Loan not found');
+    }
+
+    const ratePeriodsOf = () => tx
+      .select()
+      .from(loanRatePeriods)
+      .where(eq(loanRatePeriods.loanId, loanId))
+      .orderBy(asc(loanRatePeriods.periodStart));
+
+    const existing: LoanRatePeriod[] = await ratePeriodsOf();
+    if (loan.status !== 'active') {
+      return existing;
+    }
+
+    const planned = await RateResetService.planPeriods(loan, existing, asOf, (tenor, date) => this.getLatestReferenceRate(tenor, date));
+    if (planned.length === 0) {
+      return existing;
+    }
+
+    // A concurrent run may have stored the same reset - the unique period start keeps it single
+    const inserted: LoanRatePeriod[] = await tx
+      .insert(loanRatePeriods)
+      .values(planned)
+      .onConflictDoNothing({ target: [loanRatePeriods.loanId, loanRatePeriods.periodStart] })
+      .returning();
+
+    const resets = inserted.filter(period => period.source !== 'initial');
+    if (resets.length > 0) {
+      const current = resets[resets.length - 1];
+      await tx
+        .update(loans)
+        .set({
+          siborRate: current.siborRate,
+          bankRate: current.bankRate,
+          updatedAt: new Date(),
+        })
+        .where(eq(loans.id, loanId));
+
+      let previous = { siborRate: loan.siborRate, bankRate: loan.bankRate };
+      for (const period of resets) {
+        await tx.insert(auditLogs).values({
+          userId,
+          entityType: 'loan',
+          entityId: loanId,
+          action: 'rate_reset',
+          before: previous,
+          after: {
+            siborRate: period.siborRate,
+            bankRate: period.bankRate,
+            periodStart: period.periodStart,
+            periodEnd: period.periodEnd,
+            tenor: period.tenor,
+            fixingDate: period.fixingDate,
+            source: period.source,
+          },
+          reason: period.source === 'carried_forward' ? 'No fixing published - previous rate carried forward' : null,
+        });
+        previous = { siborRate: period.siborRate, bankRate: period.bankRate };
+      }
+    }
+
+    return await ratePeriodsOf();
+  }
+
+  private async scheduleRateResetReminder(loan: Loan, asOf: string): Promise<void> {
+    const nextReset = RateResetService.resetDates(loan).find(date => date > asOf);
+    if (!nextReset) return;
+
+    const reminder = RateResetService.buildReminder(loan, nextReset, asOf);
+    if (!reminder) return;
+
+    const existing = await this.getLoanReminders(loan.id);
+    if (existing.some(r => r.type === 'rate_reset' && r.title === reminder.title)) return;
+
+    await this.createLoanReminder(reminder);
   }
 
   // Document operations
@@ -1237,8 +2501,10 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select({
         id: guarantees.id,
+        organizationId: guarantees.organizationId,
         facilityId: guarantees.facilityId,
         userId: guarantees.userId,
+        guaranteeType: guarantees.guaranteeType,
         referenceNumber: guarantees.referenceNumber,
         beneficiaryName: guarantees.beneficiaryName,
         beneficiaryDetails: guarantees.beneficiaryDetails,
@@ -1257,6 +2523,9 @@ export class DatabaseStorage implements IStorage {
         lastRenewalDate: guarantees.lastRenewalDate,
         calledDate: guarantees.calledDate,
         calledAmount: guarantees.calledAmount,
+        commissionBasis: guarantees.commissionBasis,
+        commissionAccruedThrough: guarantees.commissionAccruedThrough,
+        expiryReminderSentAt: guarantees.expiryReminderSentAt,
         isActive: guarantees.isActive,
         createdAt: guarantees.createdAt,
         updatedAt: guarantees.updatedAt,
@@ -1331,6 +2600,229 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  async getGuaranteeVersions(guaranteeId: string): Promise<GuaranteeVersion[]> {
+    return await db
+      .select()
+      .from(guaranteeVersions)
+      .where(eq(guaranteeVersions.guaranteeId, guaranteeId))
+      .orderBy(asc(guaranteeVersions.version));
+  }
+
+  async applyGuaranteeAction(
+    guaranteeId: string,
+    organizationId: string,
+    userId: string,
+    plan: (guarantee: Guarantee) => GuaranteeActionChange
+  ): Promise<{ guarantee: Guarantee; version: GuaranteeVersion; transaction: Transaction | null }> {
+    const closedPeriods = await this.getClosedPeriods(organizationId);
+
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [existing] = await tx
+        .select()
+        .from(guarantees)
+        .where(and(eq(guarantees.id, guaranteeId), eq(guarantees.organizationId, organizationId), eq(guarantees.isActive, true)));
+      if (!existing) {
+        throw new Error('Guarantee not found');
+      }
+
+      const change = plan(existing);
+      PeriodCloseService.assertOpen(closedPeriods, [change.effectiveDate]);
+
+      // Settle commission on the old terms up to the action date
+      await this.postGuaranteeCommission(tx, existing, GuaranteeService.commissionPeriods(existing, change.effectiveDate, true), userId);
+
+      const [guarantee] = await tx
+        .update(guarantees)
+        .set({ ...change.updates, updatedAt: new Date() })
+        .where(eq(guarantees.id, guaranteeId))
+        .returning();
+
+      let transaction: Transaction | null = null;
+      if (change.transaction) {
+        const [facility] = await tx.select().from(facilities).where(eq(facilities.id, existing.facilityId));
+        [transaction] = await tx
+          .insert(transactions)
+          .values({
+            userId,
+            facilityId: existing.facilityId,
+            bankId: facility.bankId,
+            type: change.transaction.type,
+            amount: change.transaction.amount,
+            date: change.effectiveDate,
+            reference: existing.referenceNumber,
+            memo: change.transaction.memo,
+            createdBy: userId,
+          })
+          .returning();
+      }
+
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${guaranteeVersions.version}), 0)` })
+        .from(guaranteeVersions)
+        .where(eq(guaranteeVersions.guaranteeId, guaranteeId));
+      const changes = GuaranteeService.changesOf(existing, change.updates);
+
+      const [version] = await tx
+        .insert(guaranteeVersions)
+        .values({
+          guaranteeId,
+          organizationId,
+          version: Number(latest) + 1,
+          action: change.action,
+          effectiveDate: change.effectiveDate,
+          amount: change.amount,
+          guaranteeAmount: guarantee.guaranteeAmount,
+          calledAmount: guarantee.calledAmount ?? '0.00',
+          expiryDate: guarantee.expiryDate,
+          status: guarantee.status ?? 'active',
+          changes,
+          transactionId: transaction?.id ?? null,
+          reason: change.reason,
+          createdBy: userId,
+        })
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'guarantee',
+        entityId: guaranteeId,
+        action: change.action,
+        before: Object.fromEntries(Object.entries(changes).map(([field, c]) => [field, c.from])),
+        after: Object.fromEntries(Object.entries(changes).map(([field, c]) => [field, c.to])),
+        reason: change.reason,
+      });
+
+      return { guarantee, version, transaction };
+    });
+  }
+
+  async accrueGuaranteeCommission(guaranteeId: string, toDate: string, userId: string): Promise<GuaranteeCommission[]> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [guarantee] = await tx
+        .select()
+        .from(guarantees)
+        .where(and(eq(guarantees.id, guaranteeId), eq(guarantees.isActive, true)));
+      if (!guarantee) {
+        throw new Error('Guarantee not found');
+      }
+
+      return await this.postGuaranteeCommission(tx, guarantee, GuaranteeService.commissionPeriods(guarantee, toDate), userId);
+    });
+  }
+
+  /**
+   * Book each commission period as a fee transaction and advance commissionAccruedThrough.
+   * Periods already posted by an earlier run are skipped via the idempotency key, and a period that
+   * fell due in a closed month is booked on the first open day after it.
+   */
+  private async postGuaranteeCommission(tx: DbTransaction, guarantee: Guarantee, periods: CommissionPeriod[], userId: string): Promise<GuaranteeCommission[]> {
+    if (periods.length === 0) {
+      return [];
+    }
+
+    const closedPeriods = guarantee.organizationId ? await this.getClosedPeriods(guarantee.organizationId) : [];
+    const [facility] = await tx.select().from(facilities).where(eq(facilities.id, guarantee.facilityId));
+    const posted: GuaranteeCommission[] = [];
+
+    for (const period of periods.filter(p => p.amount > 0)) {
+      const [transaction] = await tx
+        .insert(transactions)
+        .values({
+          userId,
+          facilityId: guarantee.facilityId,
+          bankId: facility.bankId,
+          type: 'fee',
+          amount: period.amount.toFixed(2),
+          date: PeriodCloseService.firstOpenDate(closedPeriods, period.dueDate),
+          reference: guarantee.referenceNumber,
+          memo: `Guarantee commission ${period.periodStart} to ${period.periodEnd}`,
+          createdBy: userId,
+          idempotencyKey: GuaranteeService.commissionIdempotencyKey(guarantee.id, period),
+          allocation: { fees: period.amount },
+          notes: `${period.days} days at ${period.feeRate.toFixed(2)}% on ${period.baseAmount.toFixed(2)}`,
+        })
+        .onConflictDoNothing({ target: transactions.idempotencyKey })
+        .returning();
+      if (!transaction) continue;
+
+      const [commission] = await tx
+        .insert(guaranteeCommissions)
+        .values({
+          guaranteeId: guarantee.id,
+          organizationId: guarantee.organizationId,
+          periodStart: period.periodStart,
+          periodEnd: period.periodEnd,
+          dueDate: period.dueDate,
+          baseAmount: period.baseAmount.toFixed(2),
+          feeRate: period.feeRate.toFixed(2),
+          amount: period.amount.toFixed(2),
+          transactionId: transaction.id,
+        })
+        .returning();
+      posted.push(commission);
+    }
+
+    await tx
+      .update(guarantees)
+      .set({ commissionAccruedThrough: periods[periods.length - 1].periodEnd, updatedAt: new Date() })
+      .where(eq(guarantees.id, guarantee.id));
+
+    return posted;
+  }
+
+  async getGuaranteeCommissions(guaranteeId: string): Promise<GuaranteeCommission[]> {
+    return await db
+      .select()
+      .from(guaranteeCommissions)
+      .where(eq(guaranteeCommissions.guaranteeId, guaranteeId))
+      .orderBy(asc(guaranteeCommissions.periodStart));
+  }
+
+  async getUnpaidGuaranteeCommissions(organizationId: string): Promise<GuaranteeCommission[]> {
+    return await db
+      .select()
+      .from(guaranteeCommissions)
+      .where(and(eq(guaranteeCommissions.organizationId, organizationId), eq(guaranteeCommissions.status, 'unpaid')))
+      .orderBy(asc(guaranteeCommissions.dueDate));
+  }
+
+  async markGuaranteeCommissionPaid(commissionId: string, organizationId: string, paidDate: string, userId: string): Promise<GuaranteeCommission | undefined> {
+    PeriodCloseService.assertOpen(await this.getClosedPeriods(organizationId), [paidDate]);
+
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [commission] = await tx
+        .update(guaranteeCommissions)
+        .set({ status: 'paid', paidDate })
+        .where(and(
+          eq(guaranteeCommissions.id, commissionId),
+          eq(guaranteeCommissions.organizationId, organizationId),
+          eq(guaranteeCommissions.status, 'unpaid')
+        ))
+        .returning();
+      if (!commission) {
+        return undefined;
+      }
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'guarantee_commission',
+        entityId: commissionId,
+        action: 'pay',
+        before: { status: 'unpaid' },
+        after: { status: 'paid', paidDate },
+      });
+
+      return commission;
+    });
+  }
+
+  async markGuaranteeExpiryReminderSent(guaranteeId: string): Promise<void> {
+    await db
+      .update(guarantees)
+      .set({ expiryReminderSentAt: new Date() })
+      .where(eq(guarantees.id, guaranteeId));
+  }
+
   // AI Insight Config operations
   async getUserAiConfig(userId: string): Promise<AiInsightConfig | undefined> {
     const [config] = await db
@@ -1357,24 +2849,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Dashboard analytics
-  async getUserPortfolioSummary(organizationId: string): Promise<{
-    totalOutstanding: number;
-    totalCreditLimit: number;
-    availableCredit: number;
-    portfolioLtv: number;
-    portfolioFacilityLtv: number;
-    portfolioOutstandingLtv: number;
-    activeLoansCount: number;
-    bankExposures: Array<{
-      bankId: string;
-      bankName: string;
-      outstanding: number;
-      creditLimit: number;
-      utilization: number;
-      facilityLtv: number;
-      outstandingLtv: number;
-    }>;
-  }> {
+  async getUserPortfolioSummary(organizationId: string): Promise<PortfolioSummary> {
     // Get active loans with facilities and banks
     const activeLoans = await this.getActiveLoansByUser(organizationId);
     
@@ -1385,10 +2860,20 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(banks, eq(facilities.bankId, banks.id))
       .where(and(eq(facilities.organizationId, organizationId), eq(facilities.isActive, true)));
 
+    // Outstanding comes from the transactions ledger, not the original drawdown amount
+    const balances = await this.calculateLoanBalances(activeLoans.map(loan => loan.id));
+    const outstandingOf = (loanId: string) => balances[loanId]?.total ?? 0;
+
+    // Unfunded utilization comes from live guarantees, weighted by the organization's credit conversion factors
+    const liveGuarantees = (await this.getUserGuarantees(organizationId)).filter(g => GuaranteeService.isLive(g));
+    const conversionFactors = ExposureService.conversionFactors(await this.getCreditConversionFactors(organizationId));
+    const unfunded = ExposureService.unfundedExposure(liveGuarantees, conversionFactors);
+
     // Calculate totals
-    const totalOutstanding = activeLoans.reduce((sum, loan) => sum + parseFloat(loan.amount), 0);
+    const totalOutstanding = activeLoans.reduce((sum, loan) => sum + outstandingOf(loan.id), 0);
+    const totalUtilized = totalOutstanding + unfunded.outstanding;
     const totalCreditLimit = userFacilities.reduce((sum, facility) => sum + parseFloat(facility.facilities.creditLimit), 0);
-    const availableCredit = Math.max(0, totalCreditLimit - totalOutstanding);
+    const availableCredit = Math.max(0, totalCreditLimit - totalUtilized);
 
     // Get total collateral value for LTV calculation (portfolio-level)
     const userCollateralList = await this.getUserCollateral(organizationId);
@@ -1423,7 +2908,7 @@ export class DatabaseStorage implements IStorage {
     activeLoans.forEach(loan => {
       const bankId = loan.facility.bank.id;
       const bankName = loan.facility.bank.name;
-      const amount = parseFloat(loan.amount);
+      const amount = outstandingOf(loan.id);
 
       const existing = bankExposuresMap.get(bankId);
       if (existing) {
@@ -1481,9 +2966,19 @@ export class DatabaseStorage implements IStorage {
 
     const bankExposures = Array.from(bankExposuresMap.values()).map(exposure => {
       const bankCollateralValue = bankCollateralMap.get(exposure.bankId) || 0;
+      const bankUnfunded = ExposureService.unfundedExposure(
+        liveGuarantees.filter(g => g.facility.bankId === exposure.bankId),
+        conversionFactors
+      );
+      const utilized = exposure.outstanding + bankUnfunded.outstanding;
       return {
         ...exposure,
-        utilization: exposure.creditLimit > 0 ? (exposure.outstanding / exposure.creditLimit) * 100 : 0,
+        guaranteesOutstanding: bankUnfunded.outstanding,
+        utilized,
+        exposure: exposure.outstanding + bankUnfunded.exposure,
+        cashMargin: bankUnfunded.cashMargin,
+        netExposure: exposure.outstanding + bankUnfunded.netExposure,
+        utilization: exposure.creditLimit > 0 ? (utilized / exposure.creditLimit) * 100 : 0,
         facilityLtv: exposure.creditLimit > 0 ? (bankCollateralValue / exposure.creditLimit) * 100 : 0,
         outstandingLtv: exposure.outstanding > 0 ? (bankCollateralValue / exposure.outstanding) * 100 : 0,
       };
@@ -1491,6 +2986,11 @@ export class DatabaseStorage implements IStorage {
 
     return {
       totalOutstanding,
+      totalGuaranteesOutstanding: unfunded.outstanding,
+      totalUtilized,
+      totalExposure: totalOutstanding + unfunded.exposure,
+      totalCashMargin: unfunded.cashMargin,
+      totalNetExposure: totalOutstanding + unfunded.netExposure,
       totalCreditLimit,
       availableCredit,
       portfolioLtv,
@@ -1649,6 +3149,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async addTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    await this.assertTransactionPeriodOpen(transaction);
     const [result] = await db.insert(transactions).values(transaction).returning();
     return result;
   }
@@ -1733,7 +3234,7 @@ export class DatabaseStorage implements IStorage {
 
         averageRateByFacility.push({
           facilityId: facility.id,
-          facilityName: facility.name || this.formatFacilityType(facility.facilityType),
+          facilityName: this.formatFacilityType(facility.facilityType),
           avgAllInRate,
           loanCount: facilityLoans.length
         });
@@ -1821,7 +3322,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Attachment operations
-  async getAttachmentsByOwner(ownerType: AttachmentOwnerType, ownerId: string, userId: string): Promise<Attachment[]> {
+  async getAttachmentsByOwner(ownerType: AttachmentOwnerType, ownerId: string, userId: string, options?: { includeDeleted?: boolean }): Promise<Attachment[]> {
+    // Current versions only; deleted ones can be listed (for restore) until they are purged
     return await db
       .select()
       .from(attachments)
@@ -1829,7 +3331,8 @@ export class DatabaseStorage implements IStorage {
         eq(attachments.ownerType, ownerType),
         eq(attachments.ownerId, ownerId),
         eq(attachments.userId, userId),
-        isNull(attachments.deletedAt)
+        isNull(attachments.supersededAt),
+        options?.includeDeleted ? isNull(attachments.purgedAt) : isNull(attachments.deletedAt)
       ))
       .orderBy(desc(attachments.createdAt));
   }
@@ -1839,13 +3342,56 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async updateAttachmentMetadata(
-    attachmentId: string, 
-    metadata: Partial<Pick<InsertAttachment, 'category' | 'tags' | 'description'>>, 
-    userId: string
-  ): Promise<Attachment> {
-    const result = await db
-      .update(attachments)
+  async createAttachmentVersion(previous: Attachment, attachment: InsertAttachment): Promise<Attachment> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [superseded] = await tx
+        .update(attachments)
+        .set({ supersededAt: new Date() })
+        .where(and(eq(attachments.id, previous.id), isNull(attachments.supersededAt)))
+        .returning();
+      if (!superseded) {
+        throw new Error('Attachment already has a newer version');
+      }
+
+      const [result] = await tx.insert(attachments).values({
+        ...attachment,
+        versionGroupId: previous.versionGroupId ?? previous.id,
+        version: previous.version + 1,
+        // A new version joins the hold of its chain
+        legalHold: previous.legalHold,
+        legalHoldReason: previous.legalHoldReason,
+        legalHoldBy: previous.legalHoldBy,
+        legalHoldAt: previous.legalHoldAt,
+      }).returning();
+      return result;
+    });
+  }
+
+  async getAttachmentVersions(attachmentId: string, userId: string): Promise<Attachment[]> {
+    const [attachment] = await db
+      .select()
+      .from(attachments)
+      .where(and(eq(attachments.id, attachmentId), eq(attachments.userId, userId)));
+    if (!attachment) return [];
+
+    const groupId = attachment.versionGroupId ?? attachment.id;
+    return await db
+      .select()
+      .from(attachments)
+      .where(and(
+        or(eq(attachments.id, groupId), eq(attachments.versionGroupId, groupId)),
+        eq(attachments.userId, userId)
+      ))
+      .orderBy(desc(attachments.version));
+  }
+
+  async updateAttachmentMetadata(
+    attachmentId: string, 
+    metadata: Partial<Pick<InsertAttachment, 'category' | 'tags' | 'description'>>, 
+    userId: string
+  ): Promise<Attachment> {
+    const result = await db
+      .update(attachments)
       .set(metadata)
       .where(and(
         eq(attachments.id, attachmentId),
@@ -1862,15 +3408,61 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteAttachment(attachmentId: string, userId: string): Promise<void> {
+    const versions = await this.getAttachmentVersions(attachmentId, userId);
+    if (versions.some(version => version.legalHold)) {
+      throw new LegalHoldError();
+    }
+
     await db
       .update(attachments)
       .set({ deletedAt: new Date() })
       .where(and(
         eq(attachments.id, attachmentId),
-        eq(attachments.userId, userId)
+        eq(attachments.userId, userId),
+        eq(attachments.legalHold, false)
       ));
   }
 
+  async restoreAttachment(attachmentId: string, userId: string): Promise<Attachment | undefined> {
+    const [result] = await db
+      .update(attachments)
+      .set({ deletedAt: null })
+      .where(and(
+        eq(attachments.id, attachmentId),
+        eq(attachments.userId, userId),
+        isNotNull(attachments.deletedAt),
+        isNull(attachments.purgedAt)
+      ))
+      .returning();
+    return result;
+  }
+
+  async getAttachmentChain(attachmentId: string): Promise<Attachment[]> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, attachmentId));
+    if (!attachment) return [];
+
+    const groupId = attachment.versionGroupId ?? attachment.id;
+    return await db
+      .select()
+      .from(attachments)
+      .where(or(eq(attachments.id, groupId), eq(attachments.versionGroupId, groupId)))
+      .orderBy(desc(attachments.version));
+  }
+
+  async setAttachmentLegalHold(attachmentId: string, userId: string, reason: string | null): Promise<Attachment[]> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, attachmentId));
+    if (!attachment) return [];
+
+    const groupId = attachment.versionGroupId ?? attachment.id;
+    return await db
+      .update(attachments)
+      .set(reason !== null
+        ? { legalHold: true, legalHoldReason: reason, legalHoldBy: userId, legalHoldAt: new Date() }
+        : { legalHold: false, legalHoldReason: null, legalHoldBy: null, legalHoldAt: null })
+      .where(or(eq(attachments.id, groupId), eq(attachments.versionGroupId, groupId)))
+      .returning();
+  }
+
   async getAttachmentById(attachmentId: string, userId: string): Promise<Attachment | undefined> {
     const [result] = await db
       .select()
@@ -1898,6 +3490,76 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(attachmentAudit.createdAt));
   }
 
+  // Attachment retention operations
+  async getAttachmentRetentionPolicies(): Promise<AttachmentRetentionPolicy[]> {
+    return await db.select().from(attachmentRetentionPolicies).orderBy(asc(attachmentRetentionPolicies.category));
+  }
+
+  async setAttachmentRetentionPolicies(policies: AttachmentRetentionPoliciesRequest, updatedBy: string): Promise<AttachmentRetentionPolicy[]> {
+    await db.transaction(async (tx: DbTransaction) => {
+      for (const [key, policy] of Object.entries(policies)) {
+        if (policy === undefined) continue;
+        const category = key as AttachmentRetentionPolicy['category'];
+        if (policy === null) {
+          await tx
+            .delete(attachmentRetentionPolicies)
+            .where(eq(attachmentRetentionPolicies.category, category));
+          continue;
+        }
+        await tx
+          .insert(attachmentRetentionPolicies)
+          .values({ category, ...policy, updatedBy, updatedAt: new Date() })
+          .onConflictDoUpdate({
+            target: attachmentRetentionPolicies.category,
+            set: { ...policy, updatedBy, updatedAt: new Date() },
+          });
+      }
+    });
+
+    return await this.getAttachmentRetentionPolicies();
+  }
+
+  async getPurgeCandidateAttachments(): Promise<Attachment[]> {
+    return await db
+      .select()
+      .from(attachments)
+      .where(and(
+        isNull(attachments.purgedAt),
+        eq(attachments.legalHold, false),
+        or(isNotNull(attachments.deletedAt), isNotNull(attachments.supersededAt))
+      ));
+  }
+
+  async getAttachmentOwnerEndDate(ownerType: Attachment['ownerType'], ownerId: string): Promise<string | null | undefined> {
+    if (ownerType === 'facility') {
+      const [facility] = await db.select().from(facilities).where(eq(facilities.id, ownerId));
+      return facility ? facility.expiryDate : undefined;
+    }
+    if (ownerType === 'loan') {
+      const [loan] = await db.select().from(loans).where(eq(loans.id, ownerId));
+      return loan ? loan.settledDate : undefined;
+    }
+    return undefined;
+  }
+
+  async markAttachmentPurged(attachmentId: string, details: Record<string, unknown>): Promise<void> {
+    await db.transaction(async (tx: DbTransaction) => {
+      const [purged] = await tx
+        .update(attachments)
+        .set({ purgedAt: new Date() })
+        .where(eq(attachments.id, attachmentId))
+        .returning();
+
+      // System purges are attributed to the attachment's owner
+      await tx.insert(attachmentAudit).values({
+        attachmentId,
+        userId: purged.userId,
+        action: 'purge',
+        metadata: details,
+      });
+    });
+  }
+
   // Chat Conversation operations
   async getUserConversations(userId: string, organizationId?: string): Promise<ChatConversation[]> {
     const conditions = [
@@ -2014,7 +3676,7 @@ export class DatabaseStorage implements IStorage {
   async addMember(member: InsertOrganizationMember): Promise<OrganizationMember> {
     const [result] = await db
       .insert(organizationMembers)
-      .values(member)
+      .values({ ...member, role: member.role ?? (member.isOwner ? 'owner' : 'treasury_manager') })
       .returning();
     return result;
   }
@@ -2037,6 +3699,7 @@ export class DatabaseStorage implements IStorage {
         userId: organizationMembers.userId,
         organizationId: organizationMembers.organizationId,
         isOwner: organizationMembers.isOwner,
+        role: organizationMembers.role,
         joinedAt: organizationMembers.joinedAt,
         user: users,
       })
@@ -2049,6 +3712,7 @@ export class DatabaseStorage implements IStorage {
       userId: r.userId,
       organizationId: r.organizationId,
       isOwner: r.isOwner,
+      role: r.role,
       joinedAt: r.joinedAt,
       user: r.user,
     }));
@@ -2075,6 +3739,35 @@ export class DatabaseStorage implements IStorage {
     return !!result;
   }
 
+  async updateMemberRole(memberUserId: string, organizationId: string, role: MemberRole, userId: string): Promise<OrganizationMember> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [existing] = await tx
+        .select()
+        .from(organizationMembers)
+        .where(and(eq(organizationMembers.userId, memberUserId), eq(organizationMembers.organizationId, organizationId)));
+      if (!existing) {
+        throw new Error("Member not found");
+      }
+
+      const [updated] = await tx
+        .update(organizationMembers)
+        .set({ role })
+        .where(eq(organizationMembers.id, existing.id))
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'organization_member',
+        entityId: existing.id,
+        action: 'update',
+        before: { role: existing.role },
+        after: { role },
+      });
+
+      return updated;
+    });
+  }
+
   // Organization Invitation operations
   async createInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
     const [result] = await db
@@ -2106,15 +3799,51 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(organizationInvitations.createdAt));
   }
   
-  // Loan Payment operations
-  async recordPayment(payment: InsertLoanPayment): Promise<LoanPayment> {
-    const [result] = await db
-      .insert(loanPayments)
-      .values(payment)
-      .returning();
-    return result;
+  // Installment schedule operations
+  async getLoanInstallments(loanId: string): Promise<LoanInstallment[]> {
+    return await db
+      .select()
+      .from(loanInstallments)
+      .where(eq(loanInstallments.loanId, loanId))
+      .orderBy(asc(loanInstallments.installmentNumber));
   }
-  
+
+  async getInstallmentsForLoans(loanIds: string[]): Promise<LoanInstallment[]> {
+    if (loanIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(loanInstallments)
+      .where(inArray(loanInstallments.loanId, loanIds))
+      .orderBy(asc(loanInstallments.dueDate));
+  }
+
+  async replaceLoanInstallments(loanId: string, installments: InsertLoanInstallment[]): Promise<LoanInstallment[]> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const existing: LoanInstallment[] = await tx
+        .select()
+        .from(loanInstallments)
+        .where(eq(loanInstallments.loanId, loanId));
+
+      // Payments already allocated to the plan would be orphaned by a new one
+      if (existing.some(installment => installment.status !== 'pending')) {
+        throw new Error('Cannot replace an installment schedule that already has payments allocated');
+      }
+
+      await tx.delete(loanInstallments).where(eq(loanInstallments.loanId, loanId));
+      if (installments.length === 0) {
+        return [];
+      }
+
+      return await tx
+        .insert(loanInstallments)
+        .values(installments)
+        .returning();
+    });
+  }
+
+  // Loan Payment operations
   async getPaymentsByLoan(loanId: string): Promise<LoanPayment[]> {
     return await db
       .select()
@@ -2226,118 +3955,843 @@ export class DatabaseStorage implements IStorage {
       .limit(1);
     return result;
   }
-}
 
-// In-memory storage fallback implementation
-export class MemoryStorage implements IStorage {
-  private users = new Map<string, User>();
-  private banks = new Map<string, Bank>();
-  private bankContacts = new Map<string, BankContact>();
-  private facilities = new Map<string, Facility>();
-  private creditLines = new Map<string, CreditLine>();
-  private collateral = new Map<string, Collateral>();
-  private collateralAssignments = new Map<string, CollateralAssignment>();
-  private loans = new Map<string, Loan>();
-  private documents = new Map<string, Document>();
-  private loanReminders = new Map<string, LoanReminder>();
-  private reminderTemplates = new Map<string, ReminderTemplate>();
-  private userReminderSettings = new Map<string, UserReminderSettings>();
-  private userPreferences = new Map<string, UserPreferences>();
-  private guarantees = new Map<string, Guarantee>();
-  private aiConfigs = new Map<string, AiInsightConfig>();
-  private dailyAlertsPrefs = new Map<string, DailyAlertsPreferences>();
-  private exposureSnapshots = new Map<string, ExposureSnapshot>();
-  private transactions = new Map<string, Transaction>();
-  private attachments = new Map<string, Attachment>();
-  private attachmentAudits = new Map<string, AttachmentAudit>();
-  private chatConversations = new Map<string, ChatConversation>();
-  private chatMessages = new Map<string, ChatMessage>();
-  private loanPayments = new Map<string, LoanPayment>();
-  private portfolioSnapshots = new Map<string, PortfolioSnapshot>();
-  private organizations = new Map<string, Organization>();
-  private organizationMembers = new Map<string, OrganizationMember>();
-  private organizationInvitations = new Map<string, OrganizationInvitation>();
+  // Reference rate operations
+  async getReferenceRates(filters?: { tenor?: string; from?: string; to?: string }): Promise<ReferenceRate[]> {
+    const conditions = [];
+    if (filters?.tenor) conditions.push(eq(referenceRates.tenor, filters.tenor));
+    if (filters?.from) conditions.push(gte(referenceRates.fixingDate, filters.from));
+    if (filters?.to) conditions.push(lte(referenceRates.fixingDate, filters.to));
 
-  constructor() {
-    // Initialize with default Saudi banks
-    this.initializeDefaultBanks();
-    // Initialize with default reminder templates
-    this.initializeDefaultTemplates();
+    return await db
+      .select()
+      .from(referenceRates)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(referenceRates.fixingDate), asc(referenceRates.tenor));
   }
 
-  private initializeDefaultBanks() {
-    const defaultBanks = [
-      { id: 'ANB', code: 'ANB', name: 'Arab National Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
-      { id: 'RJH', code: 'RJH', name: 'Al Rajhi Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
-      { id: 'INMA', code: 'INMA', name: 'Alinma Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
-      { id: 'ALB', code: 'ALB', name: 'Bank Albilad', isActive: true, createdAt: new Date(), updatedAt: new Date() },
-      { id: 'BJA', code: 'BJA', name: 'Bank AlJazira', isActive: true, createdAt: new Date(), updatedAt: new Date() },
-      { id: 'BSF', code: 'BSF', name: 'Banque Saudi Fransi', isActive: true, createdAt: new Date(), updatedAt: new Date() },
-      { id: 'RIB', code: 'RIB', name: 'Riyad Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
-      { id: 'SAB', code: 'SAB', name: 'Saudi Awwal Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
-      { id: 'SAIB', code: 'SAIB', name: 'Saudi Investment Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
-      { id: 'SNB', code: 'SNB', name: 'Saudi National Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() }
-    ];
-
-    defaultBanks.forEach(bank => this.banks.set(bank.id, bank));
+  async getLatestReferenceRate(tenor: string, asOf?: string): Promise<ReferenceRate | undefined> {
+    const [result] = await db
+      .select()
+      .from(referenceRates)
+      .where(and(
+        eq(referenceRates.tenor, tenor),
+        lte(referenceRates.fixingDate, asOf || new Date().toISOString().split('T')[0])
+      ))
+      .orderBy(desc(referenceRates.fixingDate))
+      .limit(1);
+    return result;
   }
 
-  private initializeDefaultTemplates() {
-    const defaultTemplates: ReminderTemplate[] = [
-      {
-        id: 'tpl_due_date_standard',
-        type: 'due_date',
-        name: 'Standard Due Date Alert',
-        subject: 'Loan Payment Due - {loanReference}',
-        emailTemplate: `Dear Valued Customer,
+  async upsertReferenceRates(rates: InsertReferenceRate[]): Promise<ReferenceRate[]> {
+    if (rates.length === 0) {
+      return [];
+    }
 
-This is a friendly reminder that your loan payment is approaching its due date.
+    // A re-published fixing replaces the earlier value for the same tenor and date
+    return await db
+      .insert(referenceRates)
+      .values(rates)
+      .onConflictDoUpdate({
+        target: [referenceRates.tenor, referenceRates.fixingDate],
+        set: {
+          rate: sql`excluded.rate`,
+          source: sql`excluded.source`,
+          createdBy: sql`excluded.created_by`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+  }
 
-Loan Details:
-- Reference: {loanReference}
-- Bank: {bankName}
-- Amount Due: {amount} SAR
-- Due Date: {dueDate}
+  async deleteReferenceRate(rateId: string): Promise<void> {
+    await db.delete(referenceRates).where(eq(referenceRates.id, rateId));
+  }
 
-Please ensure timely payment to avoid any penalties or disruptions to your credit facility.
+  // Share price operations
+  async getSharePrices(filters?: { ticker?: string; from?: string; to?: string }): Promise<SharePrice[]> {
+    const conditions = [];
+    if (filters?.ticker) conditions.push(eq(sharePrices.ticker, filters.ticker));
+    if (filters?.from) conditions.push(gte(sharePrices.priceDate, filters.from));
+    if (filters?.to) conditions.push(lte(sharePrices.priceDate, filters.to));
 
-If you have already made the payment, please disregard this message.
+    return await db
+      .select()
+      .from(sharePrices)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(sharePrices.priceDate), asc(sharePrices.ticker));
+  }
 
-Best regards,
-Saudi Loan Management Team`,
-        calendarTemplate: `Loan Payment Due - {loanReference}
+  async getLatestSharePrice(ticker: string, asOf?: string): Promise<SharePrice | undefined> {
+    const [result] = await db
+      .select()
+      .from(sharePrices)
+      .where(and(
+        eq(sharePrices.ticker, ticker),
+        lte(sharePrices.priceDate, asOf || new Date().toISOString().split('T')[0])
+      ))
+      .orderBy(desc(sharePrices.priceDate))
+      .limit(1);
+    return result;
+  }
 
-Amount: {amount} SAR
-Due Date: {dueDate}
-Bank: {bankName}
+  async upsertSharePrices(prices: InsertSharePrice[]): Promise<SharePrice[]> {
+    if (prices.length === 0) {
+      return [];
+    }
 
-Reference: {loanReference}`,
-        variables: ['{loanReference}', '{amount}', '{dueDate}', '{bankName}'],
-        isActive: true,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      },
-      {
-        id: 'tpl_payment_urgent',
-        type: 'payment',
-        name: 'Urgent Payment Reminder',
-        subject: 'Urgent: Loan Payment Overdue - {loanReference}',
-        emailTemplate: `Dear Valued Customer,
+    // A corrected close replaces the earlier one for the same ticker and date
+    return await db
+      .insert(sharePrices)
+      .values(prices)
+      .onConflictDoUpdate({
+        target: [sharePrices.ticker, sharePrices.priceDate],
+        set: {
+          closePrice: sql`excluded.close_price`,
+          source: sql`excluded.source`,
+          createdBy: sql`excluded.created_by`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+  }
 
-This is an urgent reminder regarding your loan payment.
+  async deleteSharePrice(priceId: string): Promise<void> {
+    await db.delete(sharePrices).where(eq(sharePrices.id, priceId));
+  }
 
-Loan Details:
-- Reference: {loanReference}
-- Bank: {bankName}
-- Outstanding Amount: {amount} SAR
-- Original Due Date: {dueDate}
+  // Bank statement reconciliation operations
+  async updateBankStatementLayout(bankId: string, layout: StatementCsvLayout | null): Promise<Bank> {
+    const [result] = await db
+      .update(banks)
+      .set({ statementCsvLayout: layout })
+      .where(eq(banks.id, bankId))
+      .returning();
+    if (!result) throw new Error('Bank not found');
+    return result;
+  }
 
-Your payment is now overdue. Please arrange immediate payment to avoid:
-- Late payment penalties
-- Negative impact on your credit rating
-- Potential legal action
+  async getBankStatements(bankId: string, organizationId: string): Promise<BankStatement[]> {
+    return await db
+      .select()
+      .from(bankStatements)
+      .where(and(eq(bankStatements.bankId, bankId), eq(bankStatements.organizationId, organizationId)))
+      .orderBy(desc(bankStatements.createdAt));
+  }
 
-If you need assistance with payment arrangements, please contact us immediately.
+  async getBankStatementByHash(bankId: string, contentHash: string): Promise<BankStatement | undefined> {
+    const [result] = await db
+      .select()
+      .from(bankStatements)
+      .where(and(eq(bankStatements.bankId, bankId), eq(bankStatements.contentHash, contentHash)));
+    return result;
+  }
+
+  async createBankStatement(statement: InsertBankStatement, lines: Omit<InsertBankStatementLine, 'statementId'>[]): Promise<{ statement: BankStatement; lines: BankStatementLine[] }> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [created] = await tx.insert(bankStatements).values(statement).returning();
+      const createdLines = lines.length > 0
+        ? await tx
+            .insert(bankStatementLines)
+            .values(lines.map(line => ({ ...line, statementId: created.id })))
+            .returning()
+        : [];
+      return { statement: created, lines: createdLines };
+    });
+  }
+
+  async getBankStatementLines(filters: { bankId: string; organizationId: string; statementId?: string; status?: string }): Promise<BankStatementLine[]> {
+    const conditions = [
+      eq(bankStatementLines.bankId, filters.bankId),
+      eq(bankStatementLines.organizationId, filters.organizationId),
+    ];
+    if (filters.statementId) conditions.push(eq(bankStatementLines.statementId, filters.statementId));
+    if (filters.status) conditions.push(eq(bankStatementLines.status, filters.status));
+
+    return await db
+      .select()
+      .from(bankStatementLines)
+      .where(and(...conditions))
+      .orderBy(asc(bankStatementLines.valueDate), asc(bankStatementLines.lineNumber));
+  }
+
+  async getBankStatementLine(lineId: string, organizationId: string): Promise<BankStatementLine | undefined> {
+    const [result] = await db
+      .select()
+      .from(bankStatementLines)
+      .where(and(eq(bankStatementLines.id, lineId), eq(bankStatementLines.organizationId, organizationId)));
+    return result;
+  }
+
+  async updateBankStatementLine(lineId: string, updates: Partial<InsertBankStatementLine>): Promise<BankStatementLine> {
+    const [result] = await db
+      .update(bankStatementLines)
+      .set(updates)
+      .where(eq(bankStatementLines.id, lineId))
+      .returning();
+    if (!result) throw new Error('Statement line not found');
+    return result;
+  }
+
+  async getUnreconciledTransactions(bankId: string, organizationId: string): Promise<Array<Transaction & { loan?: Loan }>> {
+    // Cash movements of the bank not yet linked to a statement line
+    const results = await db
+      .select()
+      .from(transactions)
+      .leftJoin(loans, eq(transactions.loanId, loans.id))
+      .leftJoin(facilities, eq(transactions.facilityId, facilities.id))
+      .leftJoin(bankStatementLines, eq(bankStatementLines.transactionId, transactions.id))
+      .where(and(
+        eq(transactions.bankId, bankId),
+        inArray(transactions.type, ['draw', 'repayment', 'fee']),
+        isNull(bankStatementLines.id),
+        or(eq(loans.organizationId, organizationId), eq(facilities.organizationId, organizationId))
+      ))
+      .orderBy(asc(transactions.date));
+
+    return results.map((result: any) => ({
+      ...result.transactions,
+      loan: result.loans || undefined,
+    }));
+  }
+
+  // General ledger export operations
+  async getGlAccountMappings(organizationId: string): Promise<GlAccountMapping[]> {
+    return await db
+      .select()
+      .from(glAccountMappings)
+      .where(eq(glAccountMappings.organizationId, organizationId))
+      .orderBy(asc(glAccountMappings.entryType), asc(glAccountMappings.createdAt));
+  }
+
+  async upsertGlAccountMapping(organizationId: string, mapping: InsertGlAccountMapping): Promise<GlAccountMapping> {
+    // One mapping per entry type, bank and facility type (null meaning any)
+    const [existing] = await db
+      .select()
+      .from(glAccountMappings)
+      .where(and(
+        eq(glAccountMappings.organizationId, organizationId),
+        eq(glAccountMappings.entryType, mapping.entryType),
+        mapping.bankId ? eq(glAccountMappings.bankId, mapping.bankId) : isNull(glAccountMappings.bankId),
+        mapping.facilityType ? eq(glAccountMappings.facilityType, mapping.facilityType) : isNull(glAccountMappings.facilityType)
+      ));
+
+    if (existing) {
+      const [updated] = await db
+        .update(glAccountMappings)
+        .set({
+          debitAccount: mapping.debitAccount,
+          creditAccount: mapping.creditAccount,
+          description: mapping.description ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(glAccountMappings.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(glAccountMappings)
+      .values({
+        ...mapping,
+        bankId: mapping.bankId ?? null,
+        facilityType: mapping.facilityType ?? null,
+        organizationId,
+      })
+      .returning();
+    return created;
+  }
+
+  async deleteGlAccountMapping(mappingId: string, organizationId: string): Promise<void> {
+    await db
+      .delete(glAccountMappings)
+      .where(and(eq(glAccountMappings.id, mappingId), eq(glAccountMappings.organizationId, organizationId)));
+  }
+
+  async getJournalTransactions(organizationId: string, filters: {
+    from?: string;
+    to?: string;
+    transactionIds?: string[];
+    includeExported?: boolean;
+  }): Promise<Array<Transaction & { bank: Bank; facility?: Facility; loan?: Loan }>> {
+    // Loan entries take the loan's facility when the transaction has none of its own
+    const conditions = [
+      or(eq(loans.organizationId, organizationId), eq(facilities.organizationId, organizationId)),
+    ];
+    if (filters.from) conditions.push(gte(transactions.date, filters.from));
+    if (filters.to) conditions.push(lte(transactions.date, filters.to));
+    if (filters.transactionIds) {
+      if (filters.transactionIds.length === 0) return [];
+      conditions.push(inArray(transactions.id, filters.transactionIds));
+    }
+    if (!filters.includeExported) conditions.push(isNull(glExportEntries.id));
+
+    const results = await db
+      .select()
+      .from(transactions)
+      .innerJoin(banks, eq(transactions.bankId, banks.id))
+      .leftJoin(loans, eq(transactions.loanId, loans.id))
+      .leftJoin(facilities, or(
+        eq(transactions.facilityId, facilities.id),
+        and(isNull(transactions.facilityId), eq(loans.facilityId, facilities.id))
+      ))
+      .leftJoin(glExportEntries, eq(glExportEntries.transactionId, transactions.id))
+      .where(and(...conditions))
+      .orderBy(asc(transactions.date), asc(transactions.createdAt));
+
+    return results.map((result: any) => ({
+      ...result.transactions,
+      bank: result.banks,
+      facility: result.facilities || undefined,
+      loan: result.loans || undefined,
+    }));
+  }
+
+  async getPaymentsByTransactionIds(transactionIds: string[]): Promise<LoanPayment[]> {
+    if (transactionIds.length === 0) return [];
+    return await db
+      .select()
+      .from(loanPayments)
+      .where(inArray(loanPayments.transactionId, transactionIds));
+  }
+
+  async getGlExports(organizationId: string): Promise<GlExport[]> {
+    return await db
+      .select()
+      .from(glExports)
+      .where(eq(glExports.organizationId, organizationId))
+      .orderBy(desc(glExports.createdAt));
+  }
+
+  async createGlExport(exportRecord: Omit<GlExport, 'id' | 'createdAt'>, transactionIds: string[]): Promise<GlExport> {
+    // The unique transaction constraint rejects the whole export if any transaction was exported concurrently
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [created] = await tx.insert(glExports).values(exportRecord).returning();
+      if (transactionIds.length > 0) {
+        await tx
+          .insert(glExportEntries)
+          .values(transactionIds.map(transactionId => ({ exportId: created.id, transactionId })));
+      }
+      return created;
+    });
+  }
+
+  async deleteGlExport(exportId: string, organizationId: string): Promise<void> {
+    // Entries cascade, releasing the transactions for the next export
+    await db
+      .delete(glExports)
+      .where(and(eq(glExports.id, exportId), eq(glExports.organizationId, organizationId)));
+  }
+
+  // Accounting period operations
+  async getAccountingPeriods(organizationId: string): Promise<AccountingPeriod[]> {
+    return await db
+      .select()
+      .from(accountingPeriods)
+      .where(eq(accountingPeriods.organizationId, organizationId))
+      .orderBy(desc(accountingPeriods.period));
+  }
+
+  async getClosedPeriods(organizationId: string): Promise<string[]> {
+    const results = await db
+      .select({ period: accountingPeriods.period })
+      .from(accountingPeriods)
+      .where(and(eq(accountingPeriods.organizationId, organizationId), eq(accountingPeriods.status, 'closed')));
+    return results.map((result: { period: string }) => result.period);
+  }
+
+  async closeAccountingPeriod(organizationId: string, period: string, userId: string, snapshot: InsertPortfolioSnapshot): Promise<{ period: AccountingPeriod; snapshot: PortfolioSnapshot }> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      // The month-end row may already exist from the daily capture - the close replaces its figures
+      const [officialSnapshot] = await tx
+        .insert(portfolioSnapshots)
+        .values({ ...snapshot, isOfficial: true })
+        .onConflictDoUpdate({
+          target: [portfolioSnapshots.organizationId, portfolioSnapshots.snapshotDate],
+          set: { ...snapshot, isOfficial: true, createdAt: new Date() },
+        })
+        .returning();
+
+      const closedAt = new Date();
+      const [closed] = await tx
+        .insert(accountingPeriods)
+        .values({ organizationId, period, status: 'closed', snapshotId: officialSnapshot.id, closedBy: userId, closedAt })
+        .onConflictDoUpdate({
+          target: [accountingPeriods.organizationId, accountingPeriods.period],
+          set: { status: 'closed', snapshotId: officialSnapshot.id, closedBy: userId, closedAt },
+        })
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'accounting_period',
+        entityId: closed.id,
+        action: 'close',
+        after: { period, snapshotId: officialSnapshot.id, totalOutstanding: officialSnapshot.totalOutstanding },
+      });
+
+      return { period: closed, snapshot: officialSnapshot };
+    });
+  }
+
+  async reopenAccountingPeriod(organizationId: string, period: string, reason: string, userId: string): Promise<AccountingPeriod> {
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [existing] = await tx
+        .select()
+        .from(accountingPeriods)
+        .where(and(eq(accountingPeriods.organizationId, organizationId), eq(accountingPeriods.period, period)));
+      if (!existing) throw new Error('Accounting period not found');
+
+      const [reopened] = await tx
+        .update(accountingPeriods)
+        .set({ status: 'open', reopenedBy: userId, reopenedAt: new Date(), reopenReason: reason })
+        .where(eq(accountingPeriods.id, existing.id))
+        .returning();
+
+      // The month-end figure is no longer final until the period is closed again
+      if (existing.snapshotId) {
+        await tx
+          .update(portfolioSnapshots)
+          .set({ isOfficial: false })
+          .where(eq(portfolioSnapshots.id, existing.snapshotId));
+      }
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'accounting_period',
+        entityId: existing.id,
+        action: 'reopen',
+        before: { period, status: existing.status, closedBy: existing.closedBy, closedAt: existing.closedAt },
+        after: { period, status: 'open' },
+        reason,
+      });
+
+      return reopened;
+    });
+  }
+
+  async getApprovalThresholds(organizationId: string): Promise<ApprovalThreshold[]> {
+    return await db
+      .select()
+      .from(approvalThresholds)
+      .where(eq(approvalThresholds.organizationId, organizationId));
+  }
+
+  async setApprovalThresholds(organizationId: string, thresholds: ApprovalThresholdsRequest, userId: string): Promise<ApprovalThreshold[]> {
+    const before = await this.getApprovalThresholds(organizationId);
+
+    await db.transaction(async (tx: DbTransaction) => {
+      for (const [action, minAmount] of Object.entries(thresholds)) {
+        if (minAmount === undefined) continue;
+        if (minAmount === null) {
+          await tx
+            .delete(approvalThresholds)
+            .where(and(eq(approvalThresholds.organizationId, organizationId), eq(approvalThresholds.action, action)));
+          continue;
+        }
+        await tx
+          .insert(approvalThresholds)
+          .values({ organizationId, action, minAmount, updatedBy: userId, updatedAt: new Date() })
+          .onConflictDoUpdate({
+            target: [approvalThresholds.organizationId, approvalThresholds.action],
+            set: { minAmount, updatedBy: userId, updatedAt: new Date() },
+          });
+      }
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'approval_thresholds',
+        entityId: organizationId,
+        action: 'update',
+        before: Object.fromEntries(before.map(t => [t.action, t.minAmount])),
+        after: thresholds,
+      });
+    });
+
+    return await this.getApprovalThresholds(organizationId);
+  }
+
+  async getCreditConversionFactors(organizationId: string): Promise<CreditConversionFactor[]> {
+    return await db
+      .select()
+      .from(creditConversionFactors)
+      .where(eq(creditConversionFactors.organizationId, organizationId));
+  }
+
+  async setCreditConversionFactors(organizationId: string, factors: CreditConversionFactorsRequest, userId: string): Promise<CreditConversionFactor[]> {
+    const before = await this.getCreditConversionFactors(organizationId);
+
+    await db.transaction(async (tx: DbTransaction) => {
+      for (const [type, factor] of Object.entries(factors)) {
+        if (factor === undefined) continue;
+        const guaranteeType = type as CreditConversionFactor['guaranteeType'];
+        if (factor === null) {
+          await tx
+            .delete(creditConversionFactors)
+            .where(and(eq(creditConversionFactors.organizationId, organizationId), eq(creditConversionFactors.guaranteeType, guaranteeType)));
+          continue;
+        }
+        await tx
+          .insert(creditConversionFactors)
+          .values({ organizationId, guaranteeType, factor, updatedBy: userId, updatedAt: new Date() })
+          .onConflictDoUpdate({
+            target: [creditConversionFactors.organizationId, creditConversionFactors.guaranteeType],
+            set: { factor, updatedBy: userId, updatedAt: new Date() },
+          });
+      }
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'credit_conversion_factors',
+        entityId: organizationId,
+        action: 'update',
+        before: Object.fromEntries(before.map(f => [f.guaranteeType, f.factor])),
+        after: factors,
+      });
+    });
+
+    return await this.getCreditConversionFactors(organizationId);
+  }
+
+  async getApprovalRequests(organizationId: string, status?: ApprovalStatus): Promise<ApprovalRequest[]> {
+    const conditions = [eq(approvalRequests.organizationId, organizationId)];
+    if (status) conditions.push(eq(approvalRequests.status, status));
+    return await db
+      .select()
+      .from(approvalRequests)
+      .where(and(...conditions))
+      .orderBy(desc(approvalRequests.createdAt));
+  }
+
+  async getApprovalRequest(requestId: string, organizationId: string): Promise<ApprovalRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(approvalRequests)
+      .where(and(eq(approvalRequests.id, requestId), eq(approvalRequests.organizationId, organizationId)));
+    return request;
+  }
+
+  async createApprovalRequest(request: InsertApprovalRequest): Promise<ApprovalRequest> {
+    const [created] = await db.insert(approvalRequests).values(request).returning();
+    return created;
+  }
+
+  async updateApprovalRequest(requestId: string, organizationId: string, updates: Partial<ApprovalRequest>, expectedStatus?: ApprovalStatus): Promise<ApprovalRequest | undefined> {
+    const conditions = [eq(approvalRequests.id, requestId), eq(approvalRequests.organizationId, organizationId)];
+    // Only one checker can move a request out of pending
+    if (expectedStatus) conditions.push(eq(approvalRequests.status, expectedStatus));
+    const [updated] = await db
+      .update(approvalRequests)
+      .set(updates)
+      .where(and(...conditions))
+      .returning();
+
+    // A request is decided once it is rejected, or approved and carried out
+    if (updated?.checkerId && (updates.resultId || updates.status === 'rejected')) {
+      await db.insert(auditLogs).values({
+        userId: updated.checkerId,
+        entityType: 'approval_request',
+        entityId: requestId,
+        action: updated.status === 'approved' ? 'approve' : 'reject',
+        before: { status: 'pending' },
+        after: { status: updated.status, resultId: updated.resultId },
+        reason: updated.checkerComment,
+      });
+    }
+
+    return updated;
+  }
+
+  // Margin call operations
+  async getMarginCalls(organizationId: string, filters?: { bankId?: string; status?: MarginCallStatus }): Promise<MarginCall[]> {
+    const conditions = [eq(marginCalls.organizationId, organizationId)];
+    if (filters?.bankId) conditions.push(eq(marginCalls.bankId, filters.bankId));
+    if (filters?.status) conditions.push(eq(marginCalls.status, filters.status));
+    return await db
+      .select()
+      .from(marginCalls)
+      .where(and(...conditions))
+      .orderBy(desc(marginCalls.openedDate), desc(marginCalls.createdAt));
+  }
+
+  async getMarginCall(callId: string, organizationId: string): Promise<MarginCall | undefined> {
+    const [call] = await db
+      .select()
+      .from(marginCalls)
+      .where(and(eq(marginCalls.id, callId), eq(marginCalls.organizationId, organizationId)));
+    return call;
+  }
+
+  async createMarginCall(call: InsertMarginCall): Promise<MarginCall> {
+    const [created] = await db.insert(marginCalls).values(call).returning();
+    return created;
+  }
+
+  async updateMarginCall(callId: string, organizationId: string, updates: Partial<MarginCall>, expectedStatus?: MarginCallStatus): Promise<MarginCall | undefined> {
+    const conditions = [eq(marginCalls.id, callId), eq(marginCalls.organizationId, organizationId)];
+    // Only one user (or the daily check) can close an open call
+    if (expectedStatus) conditions.push(eq(marginCalls.status, expectedStatus));
+    const [updated] = await db
+      .update(marginCalls)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+
+    // Calls closed by a user are audited; the daily check closes calls whose LTV is back within target
+    if (updated?.resolvedBy && updates.status && updates.status !== 'open') {
+      await db.insert(auditLogs).values({
+        userId: updated.resolvedBy,
+        entityType: 'margin_call',
+        entityId: callId,
+        action: 'resolve',
+        before: { status: 'open' },
+        after: { status: updated.status, resolution: updated.resolution, currentLtv: updated.currentLtv },
+        reason: updated.resolutionNotes,
+      });
+    }
+
+    return updated;
+  }
+
+  // Language model operations
+  async getLlmSettings(organizationId: string): Promise<LlmSettings | undefined> {
+    const [settings] = await db.select().from(llmSettings).where(eq(llmSettings.organizationId, organizationId));
+    return settings;
+  }
+
+  async setLlmSettings(organizationId: string, settings: LlmSettingsRequest, userId: string): Promise<LlmSettings> {
+    const before = await this.getLlmSettings(organizationId);
+    const values = {
+      provider: settings.provider,
+      model: settings.model ?? null,
+      monthlyTokenLimit: settings.monthlyTokenLimit ?? null,
+      updatedBy: userId,
+      updatedAt: new Date(),
+    };
+
+    return await db.transaction(async (tx: DbTransaction) => {
+      const [saved] = await tx
+        .insert(llmSettings)
+        .values({ organizationId, ...values })
+        .onConflictDoUpdate({ target: llmSettings.organizationId, set: values })
+        .returning();
+
+      await tx.insert(auditLogs).values({
+        userId,
+        entityType: 'llm_settings',
+        entityId: organizationId,
+        action: before ? 'update' : 'create',
+        before: before ? { provider: before.provider, model: before.model, monthlyTokenLimit: before.monthlyTokenLimit } : null,
+        after: { provider: saved.provider, model: saved.model, monthlyTokenLimit: saved.monthlyTokenLimit },
+      });
+
+      return saved;
+    });
+  }
+
+  async recordLlmUsage(usage: InsertLlmUsage): Promise<void> {
+    await db.insert(llmUsage).values(usage);
+  }
+
+  async getLlmUsageSummary(organizationId: string, since: Date): Promise<LlmUsageSummary[]> {
+    return await db
+      .select({
+        feature: llmUsage.feature,
+        provider: llmUsage.provider,
+        model: llmUsage.model,
+        calls: sql<number>`count(*)::int`,
+        failedCalls: sql<number>`(count(*) filter (where not ${llmUsage.succeeded}))::int`,
+        promptTokens: sql<number>`coalesce(sum(${llmUsage.promptTokens}), 0)::int`,
+        completionTokens: sql<number>`coalesce(sum(${llmUsage.completionTokens}), 0)::int`,
+        totalTokens: sql<number>`coalesce(sum(${llmUsage.totalTokens}), 0)::int`,
+      })
+      .from(llmUsage)
+      .where(and(eq(llmUsage.organizationId, organizationId), gte(llmUsage.createdAt, since)))
+      .groupBy(llmUsage.feature, llmUsage.provider, llmUsage.model)
+      .orderBy(llmUsage.feature);
+  }
+
+  private async assertLoanPeriodsOpen(loanId: string, datesFor: (loan: Loan) => Array<string | null | undefined>): Promise<void> {
+    const [loan] = await db.select().from(loans).where(eq(loans.id, loanId)).limit(1);
+    if (!loan?.organizationId) return;
+    PeriodCloseService.assertOpen(await this.getClosedPeriods(loan.organizationId), datesFor(loan));
+  }
+
+  /**
+   * Reject a ledger entry dated in a closed month of the organization owning its loan or facility
+   */
+  private async assertTransactionPeriodOpen(transaction: Pick<InsertTransaction, 'loanId' | 'facilityId' | 'date'>): Promise<void> {
+    const [owner] = transaction.loanId
+      ? await db.select({ organizationId: loans.organizationId }).from(loans).where(eq(loans.id, transaction.loanId)).limit(1)
+      : transaction.facilityId
+        ? await db.select({ organizationId: facilities.organizationId }).from(facilities).where(eq(facilities.id, transaction.facilityId)).limit(1)
+        : [];
+    if (!owner?.organizationId) return;
+    PeriodCloseService.assertOpen(await this.getClosedPeriods(owner.organizationId), [transaction.date]);
+  }
+
+  private async creditLineAvailableLimit(tx: DbTransaction, creditLine: CreditLine): Promise<string> {
+    const lineLoans: Loan[] = await tx.select().from(loans).where(eq(loans.creditLineId, creditLine.id));
+    const ledger: Transaction[] = lineLoans.length > 0
+      ? await tx.select().from(transactions).where(inArray(transactions.loanId, lineLoans.map(l => l.id)))
+      : [];
+    return CreditLineService.availableLimit(creditLine, lineLoans, ledger);
+  }
+
+  private async facilityAvailableLimit(tx: DbTransaction, facility: Facility): Promise<string> {
+    const facilityLoans: Loan[] = await tx.select().from(loans).where(eq(loans.facilityId, facility.id));
+    const ledger: Transaction[] = facilityLoans.length > 0
+      ? await tx.select().from(transactions).where(inArray(transactions.loanId, facilityLoans.map(l => l.id)))
+      : [];
+    return CreditLineService.availableLimit(facility, facilityLoans, ledger);
+  }
+
+  /**
+   * Recompute a credit line's available limit from its loans' ledgers after a draw, repayment or settlement
+   */
+  private async refreshCreditLineLimit(tx: DbTransaction, creditLineId: string | null | undefined): Promise<void> {
+    if (!creditLineId) return;
+    const [creditLine] = await tx.select().from(creditLines).where(eq(creditLines.id, creditLineId)).limit(1);
+    if (!creditLine) return;
+
+    await tx
+      .update(creditLines)
+      .set({ availableLimit: await this.creditLineAvailableLimit(tx, creditLine) })
+      .where(eq(creditLines.id, creditLineId));
+  }
+}
+
+// In-memory storage fallback implementation
+export class MemoryStorage implements IStorage {
+  private users = new Map<string, User>();
+  private banks = new Map<string, Bank>();
+  private bankContacts = new Map<string, BankContact>();
+  private facilities = new Map<string, Facility>();
+  private creditLines = new Map<string, CreditLine>();
+  private collateral = new Map<string, Collateral>();
+  private collateralAssignments = new Map<string, CollateralAssignment>();
+  private loans = new Map<string, Loan>();
+  private documents = new Map<string, Document>();
+  private loanReminders = new Map<string, LoanReminder>();
+  private reminderTemplates = new Map<string, ReminderTemplate>();
+  private userReminderSettings = new Map<string, UserReminderSettings>();
+  private userPreferences = new Map<string, UserPreferences>();
+  private guarantees = new Map<string, Guarantee>();
+  private guaranteeVersions = new Map<string, GuaranteeVersion>();
+  private guaranteeCommissions = new Map<string, GuaranteeCommission>();
+  private aiConfigs = new Map<string, AiInsightConfig>();
+  private dailyAlertsPrefs = new Map<string, DailyAlertsPreferences>();
+  private exposureSnapshots = new Map<string, ExposureSnapshot>();
+  private transactions = new Map<string, Transaction>();
+  private attachments = new Map<string, Attachment>();
+  private attachmentAudits = new Map<string, AttachmentAudit>();
+  private attachmentRetentionPolicies = new Map<string, AttachmentRetentionPolicy>(); // keyed by category
+  private chatConversations = new Map<string, ChatConversation>();
+  private chatMessages = new Map<string, ChatMessage>();
+  private loanPayments = new Map<string, LoanPayment>();
+  private portfolioSnapshots = new Map<string, PortfolioSnapshot>();
+  private referenceRates = new Map<string, ReferenceRate>();
+  private sharePrices = new Map<string, SharePrice>();
+  private loanRatePeriods = new Map<string, LoanRatePeriod>();
+  private loanInstallments = new Map<string, LoanInstallment>();
+  private bankStatements = new Map<string, BankStatement>();
+  private bankStatementLines = new Map<string, BankStatementLine>();
+  private glAccountMappings = new Map<string, GlAccountMapping>();
+  private glExports = new Map<string, GlExport>();
+  private glExportEntries = new Map<string, { exportId: string; transactionId: string }>(); // keyed by transactionId
+  private accountingPeriods = new Map<string, AccountingPeriod>();
+  private approvalThresholds = new Map<string, ApprovalThreshold>();
+  private creditConversionFactors = new Map<string, CreditConversionFactor>();
+  private collateralValuations = new Map<string, CollateralValuation>();
+  private collateralRevaluationFrequencies = new Map<string, CollateralRevaluationFrequency>();
+  private approvalRequests = new Map<string, ApprovalRequest>();
+  private marginCalls = new Map<string, MarginCall>();
+  private llmSettings = new Map<string, LlmSettings>(); // keyed by organizationId
+  private llmUsage = new Map<string, LlmUsage>();
+  private organizations = new Map<string, Organization>();
+  private organizationMembers = new Map<string, OrganizationMember>();
+  private organizationInvitations = new Map<string, OrganizationInvitation>();
+
+  constructor() {
+    // Initialize with default Saudi banks
+    this.initializeDefaultBanks();
+    // Initialize with default reminder templates
+    this.initializeDefaultTemplates();
+  }
+
+  private initializeDefaultBanks() {
+    const defaultBanks = [
+      { id: 'ANB', code: 'ANB', name: 'Arab National Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'RJH', code: 'RJH', name: 'Al Rajhi Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'INMA', code: 'INMA', name: 'Alinma Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'ALB', code: 'ALB', name: 'Bank Albilad', isActive: true, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'BJA', code: 'BJA', name: 'Bank AlJazira', isActive: true, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'BSF', code: 'BSF', name: 'Banque Saudi Fransi', isActive: true, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'RIB', code: 'RIB', name: 'Riyad Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'SAB', code: 'SAB', name: 'Saudi Awwal Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'SAIB', code: 'SAIB', name: 'Saudi Investment Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'SNB', code: 'SNB', name: 'Saudi National Bank', isActive: true, createdAt: new Date(), updatedAt: new Date() }
+    ];
+
+    defaultBanks.forEach(bank => this.banks.set(bank.id, bank));
+  }
+
+  private initializeDefaultTemplates() {
+    const defaultTemplates: ReminderTemplate[] = [
+      {
+        id: 'tpl_due_date_standard',
+        type: 'due_date',
+        name: 'Standard Due Date Alert',
+        subject: 'Loan Payment Due - {loanReference}',
+        emailTemplate: `Dear Valued Customer,
+
+This is a friendly reminder that your loan payment is approaching its due date.
+
+Loan Details:
+- Reference: {loanReference}
+- Bank: {bankName}
+- Amount Due: {amount} SAR
+- Due Date: {dueDate}
+
+Please ensure timely payment to avoid any penalties or disruptions to your credit facility.
+
+If you have already made the payment, please disregard this message.
+
+Best regards,
+Saudi Loan Management Team`,
+        calendarTemplate: `Loan Payment Due - {loanReference}
+
+Amount: {amount} SAR
+Due Date: {dueDate}
+Bank: {bankName}
+
+Reference: {loanReference}`,
+        variables: ['{loanReference}', '{amount}', '{dueDate}', '{bankName}'],
+        isActive: true,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      },
+      {
+        id: 'tpl_payment_urgent',
+        type: 'payment',
+        name: 'Urgent Payment Reminder',
+        subject: 'Urgent: Loan Payment Overdue - {loanReference}',
+        emailTemplate: `Dear Valued Customer,
+
+This is an urgent reminder regarding your loan payment.
+
+Loan Details:
+- Reference: {loanReference}
+- Bank: {bankName}
+- Outstanding Amount: {amount} SAR
+- Original Due Date: {dueDate}
+
+Your payment is now overdue. Please arrange immediate payment to avoid:
+- Late payment penalties
+- Negative impact on your credit rating
+- Potential legal action
+
+If you need assistance with payment arrangements, please contact us immediately.
 
 Best regards,
 Saudi Loan Management Team`,
@@ -2447,6 +4901,35 @@ Reference: {loanReference}`,
     return Math.random().toString(36).substr(2, 9);
   }
 
+  /**
+   * Stands in for db.transaction around postings that accrue interest before they can be validated:
+   * the loan maps are put back as they were when fn throws
+   */
+  private async withRollback<T>(fn: () => Promise<T>): Promise<T> {
+    const saved = {
+      loans: new Map(this.loans),
+      transactions: new Map(this.transactions),
+      loanRatePeriods: new Map(this.loanRatePeriods),
+      loanReminders: new Map(this.loanReminders),
+      loanInstallments: new Map(this.loanInstallments),
+      loanPayments: new Map(this.loanPayments),
+      creditLines: new Map(this.creditLines),
+    };
+
+    try {
+      return await fn();
+    } catch (error) {
+      this.loans = saved.loans;
+      this.transactions = saved.transactions;
+      this.loanRatePeriods = saved.loanRatePeriods;
+      this.loanReminders = saved.loanReminders;
+      this.loanInstallments = saved.loanInstallments;
+      this.loanPayments = saved.loanPayments;
+      this.creditLines = saved.creditLines;
+      throw error;
+    }
+  }
+
   // User operations
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
@@ -2466,7 +4949,8 @@ Reference: {loanReference}`,
   // Bank operations
   async getAllBanks(organizationId?: string): Promise<Bank[]> {
     return Array.from(this.banks.values())
-      .filter(bank => bank.isActive && (!organizationId || bank.organizationId === organizationId));
+      .filter(bank => bank.isActive && (!organizationId || !bank.organizationId || bank.organizationId === organizationId))
+      .sort((a, b) => a.name.localeCompare(b.name));
   }
 
   async createBank(bank: InsertBank): Promise<Bank> {
@@ -2474,12 +4958,163 @@ Reference: {loanReference}`,
       ...bank,
       id: bank.id || this.generateId(),
       createdAt: new Date(),
-      updatedAt: new Date(),
     };
     this.banks.set(newBank.id, newBank);
     return newBank;
   }
 
+  async getBank(bankId: string): Promise<Bank | undefined> {
+    return this.banks.get(bankId);
+  }
+
+  async getBankByCode(code: string, organizationId: string): Promise<Bank | undefined> {
+    return Array.from(this.banks.values()).find(bank =>
+      bank.code === code && (!bank.organizationId || bank.organizationId === organizationId)
+    );
+  }
+
+  async updateBank(bankId: string, organizationId: string, bank: Partial<InsertBank>): Promise<Bank> {
+    const existing = this.banks.get(bankId);
+    if (!existing || existing.organizationId !== organizationId) {
+      throw new Error('Bank not found');
+    }
+
+    const updated: Bank = { ...existing, ...bank };
+    this.banks.set(bankId, updated);
+    return updated;
+  }
+
+  async archiveBank(bankId: string, organizationId: string, userId: string): Promise<Bank> {
+    const existing = this.banks.get(bankId);
+    if (!existing || existing.organizationId !== organizationId) {
+      throw new Error('Bank not found');
+    }
+    if (Array.from(this.facilities.values()).some(f => f.bankId === bankId && f.isActive)) {
+      throw new Error('Bank still has active facilities - close them or merge the bank into another one first');
+    }
+
+    const archived: Bank = { ...existing, isActive: false, archivedAt: new Date() };
+    this.banks.set(bankId, archived);
+    await this.createAuditLog({
+      userId,
+      entityType: 'bank',
+      entityId: bankId,
+      action: 'archive',
+      before: { isActive: true },
+      after: { isActive: false },
+    });
+    return archived;
+  }
+
+  async mergeBanks(sourceBankId: string, targetBankId: string, organizationId: string, userId: string): Promise<BankMergeResult> {
+    const source = this.banks.get(sourceBankId);
+    const target = this.banks.get(targetBankId);
+    if (!source || source.organizationId !== organizationId || !target || (target.organizationId && target.organizationId !== organizationId)) {
+      throw new Error('Bank not found');
+    }
+
+    const sourceStatements = Array.from(this.bankStatements.values()).filter(st => st.bankId === sourceBankId);
+    const duplicate = Array.from(this.bankStatements.values()).find(st =>
+      st.bankId === targetBankId && sourceStatements.some(src => src.contentHash === st.contentHash)
+    );
+    if (duplicate) {
+      throw new Error(`Statement ${duplicate.fileName} was imported for both banks - delete one copy before merging`);
+    }
+
+    const targetHasPrimary = Array.from(this.bankContacts.values()).some(c =>
+      c.bankId === targetBankId && c.organizationId === organizationId && c.isPrimary
+    );
+    const targetMappings = Array.from(this.glAccountMappings.values()).filter(m =>
+      m.organizationId === organizationId && m.bankId === targetBankId
+    );
+
+    // Re-point every row of the map that references the duplicate and count them
+    const repoint = <T extends { bankId: string | null }>(rows: Map<string, T>, extra: (row: T) => Partial<T> = () => ({})) => {
+      let moved = 0;
+      rows.forEach((row, id) => {
+        if (row.bankId === sourceBankId) {
+          rows.set(id, { ...row, bankId: targetBankId, ...extra(row) });
+          moved++;
+        }
+      });
+      return moved;
+    };
+
+    let droppedMappings = 0;
+    Array.from(this.glAccountMappings.values())
+      .filter(m => m.bankId === sourceBankId && targetMappings.some(t => t.entryType === m.entryType && t.facilityType === m.facilityType))
+      .forEach(m => { this.glAccountMappings.delete(m.id); droppedMappings++; });
+
+    Array.from(this.exposureSnapshots.values())
+      .filter(snap => snap.bankId === sourceBankId && !snap.facilityId)
+      .forEach(total => {
+        const targetTotal = Array.from(this.exposureSnapshots.values()).find(snap =>
+          snap.bankId === targetBankId && !snap.facilityId && snap.userId === total.userId && snap.date === total.date
+        );
+        if (targetTotal) {
+          this.exposureSnapshots.set(targetTotal.id, {
+            ...targetTotal,
+            outstanding: (parseFloat(targetTotal.outstanding) + parseFloat(total.outstanding)).toFixed(2),
+            creditLimit: (parseFloat(targetTotal.creditLimit) + parseFloat(total.creditLimit)).toFixed(2),
+          });
+          this.exposureSnapshots.delete(total.id);
+        }
+      });
+    repoint(this.exposureSnapshots);
+
+    this.attachments.forEach((attachment, id) => {
+      if (attachment.ownerType === 'bank' && attachment.ownerId === sourceBankId) {
+        this.attachments.set(id, { ...attachment, ownerId: targetBankId });
+      }
+    });
+
+    const result: BankMergeResult = {
+      sourceBankId,
+      targetBankId,
+      facilities: repoint(this.facilities),
+      contacts: repoint(this.bankContacts, () => (targetHasPrimary ? { isPrimary: false } : {})),
+      attachments: repoint(this.attachments),
+      transactions: repoint(this.transactions),
+      collateralAssignments: repoint(this.collateralAssignments),
+      statements: repoint(this.bankStatements),
+      accountMappings: repoint(this.glAccountMappings),
+      marginCalls: repoint(this.marginCalls, () => ({ updatedAt: new Date() })),
+    };
+    repoint(this.bankStatementLines);
+
+    // Both banks may have had an open bank-level call; only the one due first stays open
+    const duplicateCalls = MarginCallService.duplicateOpenCalls(
+      Array.from(this.marginCalls.values()).filter(c => c.organizationId === organizationId && c.bankId === targetBankId)
+    );
+    for (const { duplicate, kept } of duplicateCalls) {
+      this.marginCalls.set(duplicate.id, {
+        ...duplicate,
+        status: 'waived',
+        resolution: 'waived',
+        resolutionNotes: `Closed as a duplicate of the call opened ${kept.openedDate} when ${source.name} was merged into ${target.name}`,
+        resolvedBy: userId,
+        resolvedAt: new Date(),
+        updatedAt: new Date(),
+      });
+    }
+
+    this.banks.set(sourceBankId, { ...source, isActive: false, archivedAt: new Date(), mergedIntoId: targetBankId });
+    if (!target.statementCsvLayout && source.statementCsvLayout && target.organizationId) {
+      this.banks.set(targetBankId, { ...target, statementCsvLayout: source.statementCsvLayout });
+    }
+
+    await this.createAuditLog({
+      userId,
+      entityType: 'bank',
+      entityId: sourceBankId,
+      action: 'merge',
+      before: { name: source.name, code: source.code, isActive: source.isActive },
+      after: { ...result, mergedInto: target.name, mappingsDropped: droppedMappings, marginCallsClosed: duplicateCalls.length },
+    });
+
+    return result;
+  }
+
   // Bank Contact operations
   async getBankContacts(bankId: string, organizationId: string): Promise<Array<BankContact & { bank: Bank }>> {
     const bank = this.banks.get(bankId);
@@ -2586,14 +5221,23 @@ Reference: {loanReference}`,
       ...facility,
       id: this.generateId(),
       isActive: facility.isActive ?? true, // Ensure isActive is set to true by default
+      initialDrawdownDate: null,
       createdAt: new Date(),
-      updatedAt: new Date(),
     };
     this.facilities.set(newFacility.id, newFacility);
     console.log(`✅ Created facility: ${newFacility.facilityType} for bank ${newFacility.bankId} (ID: ${newFacility.id})`);
     return newFacility;
   }
 
+  async createFacilityWithCreditLines(facility: InsertFacility, lines: Omit<InsertCreditLine, 'facilityId'>[]): Promise<{ facility: Facility; creditLines: CreditLine[] }> {
+    const newFacility = await this.createFacility(facility);
+    const newCreditLines: CreditLine[] = [];
+    for (const line of lines) {
+      newCreditLines.push(await this.createCreditLine({ ...line, facilityId: newFacility.id }));
+    }
+    return { facility: newFacility, creditLines: newCreditLines };
+  }
+
   async updateFacility(facilityId: string, organizationId: string, facility: Partial<InsertFacility>): Promise<Facility> {
     const existing = this.facilities.get(facilityId);
     if (!existing || existing.organizationId !== organizationId) {
@@ -2603,7 +5247,6 @@ Reference: {loanReference}`,
     const updated: Facility = {
       ...existing,
       ...facility,
-      updatedAt: new Date(),
     };
     this.facilities.set(facilityId, updated);
     return updated;
@@ -2629,13 +5272,13 @@ Reference: {loanReference}`,
       ...collateral,
       id: this.generateId(),
       createdAt: new Date(),
-      updatedAt: new Date(),
     };
     this.collateral.set(newCollateral.id, newCollateral);
+    this.recordCollateralValuation(newCollateral, newCollateral.userId);
     return newCollateral;
   }
 
-  async updateCollateral(collateralId: string, organizationId: string, collateral: Partial<InsertCollateral>): Promise<Collateral> {
+  async updateCollateral(collateralId: string, organizationId: string, collateral: Partial<InsertCollateral>, userId?: string): Promise<Collateral> {
     const existing = this.collateral.get(collateralId);
     if (!existing || existing.organizationId !== organizationId) {
       throw new Error('Collateral not found');
@@ -2644,12 +5287,46 @@ Reference: {loanReference}`,
     const updated: Collateral = {
       ...existing,
       ...collateral,
-      updatedAt: new Date(),
     };
     this.collateral.set(collateralId, updated);
+    if (updated.currentValue !== existing.currentValue || updated.valuationDate !== existing.valuationDate) {
+      this.recordCollateralValuation(updated, userId ?? existing.userId);
+    }
+    if (updated.currentValue !== existing.currentValue || updated.haircutPercent !== existing.haircutPercent) {
+      this.refreshPledgedValue(updated);
+    }
     return updated;
   }
 
+  // Collateral with a haircut is pledged at its value after the haircut
+  private refreshPledgedValue(item: Collateral): void {
+    const pledgedValue = CollateralValuationService.pledgedValue(item.currentValue, item.haircutPercent);
+    if (pledgedValue === null) return;
+    this.collateralAssignments.forEach((assignment, id) => {
+      if (assignment.collateralId === item.id && assignment.isActive !== false) {
+        this.collateralAssignments.set(id, { ...assignment, pledgedValue });
+      }
+    });
+  }
+
+  private recordCollateralValuation(item: Collateral, userId: string): CollateralValuation {
+    const valuation: CollateralValuation = {
+      id: this.generateId(),
+      collateralId: item.id,
+      organizationId: item.organizationId,
+      value: item.currentValue,
+      effectiveDate: item.valuationDate,
+      source: item.valuationSource ?? null,
+      valuerName: null,
+      reportAttachmentId: null,
+      notes: null,
+      createdBy: userId,
+      createdAt: new Date(),
+    };
+    this.collateralValuations.set(valuation.id, valuation);
+    return valuation;
+  }
+
   async deleteCollateral(collateralId: string, organizationId: string): Promise<void> {
     const existing = this.collateral.get(collateralId);
     if (existing && existing.organizationId === organizationId) {
@@ -2658,6 +5335,100 @@ Reference: {loanReference}`,
     }
   }
 
+  async getCollateralValuations(collateralId: string): Promise<CollateralValuation[]> {
+    return Array.from(this.collateralValuations.values())
+      .filter(v => v.collateralId === collateralId)
+      .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getOrganizationCollateralValuations(organizationId: string): Promise<CollateralValuation[]> {
+    return Array.from(this.collateralValuations.values())
+      .filter(v => v.organizationId === organizationId)
+      .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  }
+
+  async addCollateralValuation(collateralId: string, organizationId: string, valuation: CollateralValuationRequest, userId: string): Promise<CollateralValuation> {
+    const existing = this.collateral.get(collateralId);
+    if (!existing || existing.organizationId !== organizationId) {
+      throw new Error('Collateral not found');
+    }
+
+    const created: CollateralValuation = {
+      id: this.generateId(),
+      collateralId,
+      organizationId,
+      value: valuation.value,
+      effectiveDate: valuation.effectiveDate,
+      source: valuation.source,
+      valuerName: valuation.valuerName ?? null,
+      reportAttachmentId: valuation.reportAttachmentId ?? null,
+      notes: valuation.notes ?? null,
+      createdBy: userId,
+      createdAt: new Date(),
+    };
+    this.collateralValuations.set(created.id, created);
+
+    // A backdated valuation only fills in the history
+    if (CollateralValuationService.isLatest(existing, valuation.effectiveDate)) {
+      const revalued: Collateral = {
+        ...existing,
+        currentValue: valuation.value,
+        valuationDate: valuation.effectiveDate,
+        valuationSource: valuation.source,
+      };
+      this.collateral.set(collateralId, revalued);
+      this.refreshPledgedValue(revalued);
+    }
+
+    await this.createAuditLog({
+      userId,
+      entityType: 'collateral',
+      entityId: collateralId,
+      action: 'revalue',
+      before: { currentValue: existing.currentValue, valuationDate: existing.valuationDate },
+      after: valuation,
+    });
+
+    return created;
+  }
+
+  async getCollateralRevaluationFrequencies(organizationId: string): Promise<CollateralRevaluationFrequency[]> {
+    return Array.from(this.collateralRevaluationFrequencies.values()).filter(f => f.organizationId === organizationId);
+  }
+
+  async setCollateralRevaluationFrequencies(organizationId: string, frequencies: CollateralRevaluationFrequenciesRequest, userId: string): Promise<CollateralRevaluationFrequency[]> {
+    const before = await this.getCollateralRevaluationFrequencies(organizationId);
+
+    for (const [collateralType, frequencyMonths] of Object.entries(frequencies)) {
+      if (frequencyMonths === undefined) continue;
+      const existing = before.find(f => f.collateralType === collateralType);
+      if (frequencyMonths === null) {
+        if (existing) this.collateralRevaluationFrequencies.delete(existing.id);
+        continue;
+      }
+      const frequency: CollateralRevaluationFrequency = {
+        id: existing?.id ?? this.generateId(),
+        organizationId,
+        collateralType: collateralType as CollateralRevaluationFrequency['collateralType'],
+        frequencyMonths,
+        updatedBy: userId,
+        updatedAt: new Date(),
+      };
+      this.collateralRevaluationFrequencies.set(frequency.id, frequency);
+    }
+
+    await this.createAuditLog({
+      userId,
+      entityType: 'collateral_revaluation_frequencies',
+      entityId: organizationId,
+      action: 'update',
+      before: Object.fromEntries(before.map(f => [f.collateralType, f.frequencyMonths])),
+      after: frequencies,
+    });
+
+    return await this.getCollateralRevaluationFrequencies(organizationId);
+  }
+
   // Collateral Assignment operations (simplified in-memory implementation)
   async getUserCollateralAssignments(organizationId: string): Promise<Array<CollateralAssignment & { 
     collateral: Collateral; 
@@ -2700,15 +5471,22 @@ Reference: {loanReference}`,
   }
 
   async getUserCreditLines(organizationId: string): Promise<Array<CreditLine & { facility: Facility & { bank: Bank } }>> {
-    return [];
+    return Array.from(this.creditLines.values())
+      .filter(cl => cl.organizationId === organizationId && cl.isActive !== false)
+      .flatMap(cl => {
+        const facility = this.facilities.get(cl.facilityId);
+        const bank = facility ? this.banks.get(facility.bankId) : undefined;
+        return facility && bank ? [{ ...cl, facility: { ...facility, bank } }] : [];
+      })
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
   }
 
   async createCreditLine(creditLine: InsertCreditLine): Promise<CreditLine> {
     const newCreditLine: CreditLine = {
       ...creditLine,
+      availableLimit: creditLine.creditLimit,
       id: this.generateId(),
       createdAt: new Date(),
-      updatedAt: new Date(),
     };
     this.creditLines.set(newCreditLine.id, newCreditLine);
     return newCreditLine;
@@ -2723,12 +5501,34 @@ Reference: {loanReference}`,
     const updated: CreditLine = {
       ...existing,
       ...creditLine,
-      updatedAt: new Date(),
     };
+    updated.availableLimit = this.creditLineAvailableLimit(updated);
+    if (parseFloat(updated.availableLimit) < 0) {
+      throw new CreditLimitError(`Credit limit is below the ${(parseFloat(updated.creditLimit) - parseFloat(updated.availableLimit)).toFixed(2)} already drawn on this credit line`);
+    }
     this.creditLines.set(creditLineId, updated);
     return updated;
   }
 
+  async getCreditLine(creditLineId: string, organizationId: string): Promise<CreditLine | undefined> {
+    const creditLine = this.creditLines.get(creditLineId);
+    return creditLine && creditLine.organizationId === organizationId ? creditLine : undefined;
+  }
+
+  async deleteCreditLine(creditLineId: string, organizationId: string): Promise<void> {
+    const existing = this.creditLines.get(creditLineId);
+    if (!existing || existing.organizationId !== organizationId) return;
+
+    const hasOpenLoans = Array.from(this.loans.values()).some(loan =>
+      loan.creditLineId === creditLineId && (loan.status === 'active' || loan.status === 'overdue')
+    );
+    if (hasOpenLoans) {
+      throw new CreditLimitError('Credit line still has outstanding loans - settle them before removing it');
+    }
+
+    this.creditLines.set(creditLineId, { ...existing, isActive: false });
+  }
+
   async getUserLoans(organizationId: string): Promise<Loan[]> {
     return Array.from(this.loans.values()).filter(loan => loan.organizationId === organizationId);
   }
@@ -2812,6 +5612,17 @@ Reference: {loanReference}`,
   }
 
   async createLoan(loan: InsertLoan): Promise<Loan> {
+    // The drawdown is booked on the start date
+    if (loan.organizationId) {
+      PeriodCloseService.assertOpen(await this.getClosedPeriods(loan.organizationId), [loan.startDate]);
+    }
+
+    if (loan.creditLineId) {
+      const creditLine = this.creditLines.get(loan.creditLineId);
+      if (!creditLine || creditLine.organizationId !== loan.organizationId) throw new Error('Credit line not found for loan');
+      CreditLineService.assertDrawFits(creditLine, this.creditLineAvailableLimit(creditLine), loan.amount);
+    }
+
     const newLoan: Loan = {
       ...loan,
       id: this.generateId(),
@@ -2819,21 +5630,62 @@ Reference: {loanReference}`,
       updatedAt: new Date(),
       status: loan.status || 'active', // Ensure status is set
       siborTerm: loan.siborTerm || null, // Handle new siborTerm field
+      cycleNumber: 1,
+      isDeleted: false,
     };
     this.loans.set(newLoan.id, newLoan);
+
+    // Post the drawdown so the loan balance can be replayed from the ledger
+    const drawTransaction: Transaction = {
+      id: this.generateId(),
+      userId: newLoan.userId,
+      loanId: newLoan.id,
+      facilityId: newLoan.facilityId,
+      bankId: this.facilities.get(newLoan.facilityId)?.bankId || '',
+      type: 'draw',
+      amount: newLoan.amount,
+      date: newLoan.startDate,
+      memo: 'Loan drawdown',
+      reference: newLoan.referenceNumber,
+      createdBy: newLoan.userId,
+      createdAt: new Date(),
+      notes: null,
+      allocation: { principal: parseFloat(newLoan.amount) },
+      idempotencyKey: `DRAW:${newLoan.id}`,
+    };
+    this.transactions.set(drawTransaction.id, drawTransaction);
+    this.refreshCreditLineLimit(newLoan.creditLineId);
+
     return newLoan;
   }
 
   async updateLoan(loanId: string, loan: Partial<InsertLoan>): Promise<Loan> {
     const existing = this.loans.get(loanId);
     if (!existing) throw new Error('Loan not found');
+    await this.assertLoanPeriodsOpen(existing, PeriodCloseService.loanUpdateDates(existing, loan));
 
     const updated: Loan = {
       ...existing,
       ...loan,
       updatedAt: new Date(),
     };
+    const ledger = Array.from(this.transactions.values()).filter(t => t.loanId === loanId);
+    const draw = LoanLedgerService.drawToRewrite(existing, updated, ledger, new Set(this.glExportEntries.keys()));
+    const addedDraw = CreditLineService.addedDraw(existing, updated, ledger);
+    if (addedDraw > 0) {
+      const creditLine = this.creditLines.get(updated.creditLineId!);
+      if (!creditLine || creditLine.organizationId !== existing.organizationId) throw new Error('Credit line not found for loan');
+      CreditLineService.assertDrawFits(creditLine, this.creditLineAvailableLimit(creditLine), addedDraw.toFixed(2));
+    }
+    // The draw follows the edited amount and start date so the ledger replays to the loan row
+    if (draw) {
+      this.transactions.set(draw.id, { ...draw, amount: updated.amount, date: updated.startDate });
+    }
     this.loans.set(loanId, updated);
+    this.refreshCreditLineLimit(updated.creditLineId);
+    if (existing.creditLineId !== updated.creditLineId) {
+      this.refreshCreditLineLimit(existing.creditLineId);
+    }
     return updated;
   }
 
@@ -2844,6 +5696,7 @@ Reference: {loanReference}`,
       loan.status = 'cancelled';
       loan.updatedAt = new Date();
       this.loans.set(loanId, loan);
+      this.refreshCreditLineLimit(loan.creditLineId);
     } else {
       throw new Error('Loan not found or access denied');
     }
@@ -2868,7 +5721,6 @@ Reference: {loanReference}`,
       ...document,
       id: this.generateId(),
       createdAt: new Date(),
-      updatedAt: new Date(),
     };
     this.documents.set(newDocument.id, newDocument);
     return newDocument;
@@ -2962,24 +5814,7 @@ Reference: {loanReference}`,
     return newPrefs;
   }
 
-  async getUserPortfolioSummary(userId: string): Promise<{
-    totalOutstanding: number;
-    totalCreditLimit: number;
-    availableCredit: number;
-    portfolioLtv: number;
-    portfolioFacilityLtv: number;
-    portfolioOutstandingLtv: number;
-    activeLoansCount: number;
-    bankExposures: Array<{
-      bankId: string;
-      bankName: string;
-      outstanding: number;
-      creditLimit: number;
-      utilization: number;
-      facilityLtv: number;
-      outstandingLtv: number;
-    }>;
-  }> {
+  async getUserPortfolioSummary(userId: string): Promise<PortfolioSummary> {
     // Get user facilities
     const userFacilities = Array.from(this.facilities.values()).filter(f => f.userId === userId);
     
@@ -3000,11 +5835,23 @@ Reference: {loanReference}`,
     
     // Calculate totals
     const totalCreditLimit = userFacilities.reduce((sum, f) => sum + Number(f.creditLimit || 0), 0);
+    const balances = await this.calculateLoanBalances(
+      userLoans.filter(loan => loan.status === 'active').map(loan => loan.id)
+    );
+    const outstandingOf = (loanId: string) => balances[loanId]?.total ?? 0;
     const totalOutstanding = userLoans
       .filter(loan => loan.status === 'active')
-      .reduce((sum, loan) => sum + Number(loan.amount || 0), 0);
+      .reduce((sum, loan) => sum + outstandingOf(loan.id), 0);
     const activeLoansCount = userLoans.filter(loan => loan.status === 'active').length;
     
+    // Unfunded utilization from live guarantees on the user's facilities
+    const liveGuarantees = Array.from(this.guarantees.values()).filter(g =>
+      g.isActive && GuaranteeService.isLive(g) && userFacilities.some(f => f.id === g.facilityId)
+    );
+    const conversionFactors = ExposureService.conversionFactors(await this.getCreditConversionFactors(userId));
+    const unfunded = ExposureService.unfundedExposure(liveGuarantees, conversionFactors);
+    const totalUtilized = totalOutstanding + unfunded.outstanding;
+    
     // Get total collateral value for LTV calculation (portfolio-level)
     const userCollateralList = Array.from(this.collateral.values()).filter(c => c.userId === userId);
     const totalCollateralValue = userCollateralList.reduce((sum, col) => sum + Number(col.currentValue || 0), 0);
@@ -3042,7 +5889,7 @@ Reference: {loanReference}`,
         if (facility) {
           const existing = bankGroups.get(facility.bankId);
           if (existing) {
-            existing.outstanding += Number(loan.amount || 0);
+            existing.outstanding += outstandingOf(loan.id);
             bankGroups.set(facility.bankId, existing);
           }
         }
@@ -3089,9 +5936,19 @@ Reference: {loanReference}`,
     // Create bank exposures array with utilization and LTV metrics
     const bankExposures = Array.from(bankGroups.values()).map(bank => {
       const bankCollateralValue = bankCollateralMap.get(bank.bankId) || 0;
+      const bankUnfunded = ExposureService.unfundedExposure(
+        liveGuarantees.filter(g => this.facilities.get(g.facilityId)?.bankId === bank.bankId),
+        conversionFactors
+      );
+      const utilized = bank.outstanding + bankUnfunded.outstanding;
       return {
         ...bank,
-        utilization: bank.creditLimit > 0 ? (bank.outstanding / bank.creditLimit) * 100 : 0,
+        guaranteesOutstanding: bankUnfunded.outstanding,
+        utilized,
+        exposure: bank.outstanding + bankUnfunded.exposure,
+        cashMargin: bankUnfunded.cashMargin,
+        netExposure: bank.outstanding + bankUnfunded.netExposure,
+        utilization: bank.creditLimit > 0 ? (utilized / bank.creditLimit) * 100 : 0,
         facilityLtv: bank.creditLimit > 0 ? (bankCollateralValue / bank.creditLimit) * 100 : 0,
         outstandingLtv: bank.outstanding > 0 ? (bankCollateralValue / bank.outstanding) * 100 : 0,
       };
@@ -3099,8 +5956,13 @@ Reference: {loanReference}`,
     
     return {
       totalOutstanding,
+      totalGuaranteesOutstanding: unfunded.outstanding,
+      totalUtilized,
+      totalExposure: totalOutstanding + unfunded.exposure,
+      totalCashMargin: unfunded.cashMargin,
+      totalNetExposure: totalOutstanding + unfunded.netExposure,
       totalCreditLimit,
-      availableCredit: totalCreditLimit - totalOutstanding,
+      availableCredit: totalCreditLimit - totalUtilized,
       portfolioLtv,
       portfolioFacilityLtv,
       portfolioOutstandingLtv,
@@ -3150,6 +6012,11 @@ Reference: {loanReference}`,
   }
 
   async addTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    const owner = transaction.loanId ? this.loans.get(transaction.loanId) : transaction.facilityId ? this.facilities.get(transaction.facilityId) : undefined;
+    if (owner?.organizationId) {
+      PeriodCloseService.assertOpen(await this.getClosedPeriods(owner.organizationId), [transaction.date]);
+    }
+
     const newTransaction: Transaction = {
       ...transaction,
       id: this.generateId(),
@@ -3218,7 +6085,7 @@ Reference: {loanReference}`,
 
         for (const loan of facilityLoans) {
           const outstanding = parseFloat(loan.amount);
-          const allInRate = parseFloat(loan.siborRate) + parseFloat(loan.marginRate);
+          const allInRate = parseFloat(loan.siborRate) + parseFloat(loan.margin);
           
           totalWeightedRate += allInRate * outstanding;
           totalOutstanding += outstanding;
@@ -3230,7 +6097,7 @@ Reference: {loanReference}`,
 
         averageRateByFacility.push({
           facilityId: facility.id,
-          facilityName: facility.name || this.formatFacilityType(facility.facilityType),
+          facilityName: this.formatFacilityType(facility.facilityType),
           avgAllInRate,
           loanCount: facilityLoans.length
         });
@@ -3357,70 +6224,163 @@ Reference: {loanReference}`,
     return [];
   }
 
-  async processPayment(loanId: string, payment: PaymentRequest, userId: string): Promise<{ loan: Loan; transactions: Transaction[] }> {
-    const loan = this.loans.get(loanId);
-    if (!loan) throw new Error('Loan not found');
+  async processPayment(loanId: string, payment: PaymentRequest, userId: string): Promise<{ loan: Loan; transactions: Transaction[]; payment: LoanPayment }> {
+    if (!this.loans.has(loanId)) throw new Error('Loan not found');
+    await this.assertLoanPeriodsOpen(this.loans.get(loanId)!, [payment.date]);
 
-    // Simple payment processing for memory storage
-    const paymentTransaction: Transaction = {
-      id: this.generateId(),
-      userId,
-      loanId,
-      facilityId: loan.facilityId,
-      bankId: '', // We'll need to get this from facility
-      type: 'repayment',
-      amount: payment.amount,
-      date: payment.date,
-      memo: payment.memo || 'Payment processed',
-      createdBy: userId,
-      createdAt: new Date(),
-      reference: null,
-      notes: null,
-      allocation: null,
-      idempotencyKey: payment.idempotencyKey || null,
-    };
+    InterestService.assertAccrualDate(payment.date);
+    if (this.loans.get(loanId)!.status !== 'active') throw new Error('Payments can only be recorded against active loans');
 
-    this.transactions.set(paymentTransaction.id, paymentTransaction);
+    return await this.withRollback(async () => {
+      // Interest up to the payment date has to be on the ledger before the waterfall splits the payment
+      await this.accrueInterest(loanId, payment.date, userId);
+      const loan = this.loans.get(loanId)!;
 
-    return { loan, transactions: [paymentTransaction] };
+      const facility = this.facilities.get(loan.facilityId);
+      const ledger = Array.from(this.transactions.values()).filter(t => t.loanId === loanId);
+      const installments = await this.getLoanInstallments(loanId);
+
+      const balance = LoanLedgerService.calculateBalance(loan, ledger, payment.date);
+      const due = PaymentWaterfallService.amountsDue(loan, balance, installments, payment.date);
+      const allocation = PaymentWaterfallService.allocate(
+        parseFloat(payment.amount),
+        due,
+        PaymentWaterfallService.orderFor(facility),
+        payment.prepayment,
+      );
+
+      const paymentTransaction: Transaction = {
+        id: this.generateId(),
+        userId,
+        loanId,
+        facilityId: loan.facilityId,
+        bankId: facility?.bankId || '',
+        type: 'repayment',
+        amount: payment.amount,
+        date: payment.date,
+        memo: payment.memo || 'Payment processed',
+        createdBy: userId,
+        createdAt: new Date(),
+        reference: payment.reference || null,
+        notes: null,
+        allocation,
+        idempotencyKey: payment.idempotencyKey || `PAY:${loanId}:${payment.date}:${Date.now()}`,
+      };
+      this.transactions.set(paymentTransaction.id, paymentTransaction);
+
+      const principalAmount = allocation.principal.toFixed(2);
+      const interestAmount = allocation.interest.toFixed(2);
+      const { allocations, updates } = InstallmentService.allocatePayment(installments, {
+        amount: payment.amount,
+        principalAmount,
+        interestAmount,
+        paymentDate: payment.date,
+      });
+      for (const update of updates) {
+        const installment = this.loanInstallments.get(update.id)!;
+        this.loanInstallments.set(update.id, { ...installment, ...update, updatedAt: new Date() });
+      }
+
+      const loanPayment: LoanPayment = {
+        id: this.generateId(),
+        organizationId: loan.organizationId || '',
+        loanId,
+        paymentDate: payment.date,
+        amount: payment.amount,
+        principalAmount,
+        interestAmount,
+        feesAmount: allocation.fees.toFixed(2),
+        transactionId: paymentTransaction.id,
+        paymentMethod: payment.paymentMethod || 'bank_transfer',
+        referenceNumber: payment.reference || null,
+        notes: payment.memo || null,
+        installmentAllocations: allocations.length > 0 ? allocations : null,
+        createdBy: userId,
+        createdAt: new Date(),
+      };
+      this.loanPayments.set(loanPayment.id, loanPayment);
+      this.refreshCreditLineLimit(loan.creditLineId);
+
+      return { loan, transactions: [paymentTransaction], payment: loanPayment };
+    });
   }
 
   async settleLoan(loanId: string, settlement: SettlementRequest, userId: string): Promise<{ loan: Loan; transactions: Transaction[] }> {
-    const loan = this.loans.get(loanId);
-    if (!loan) throw new Error('Loan not found');
+    if (!this.loans.has(loanId)) throw new Error('Loan not found');
+    await this.assertLoanPeriodsOpen(this.loans.get(loanId)!, [settlement.date]);
 
-    // Update loan status to settled
-    const updatedLoan: Loan = {
-      ...loan,
-      status: 'settled',
-      settledDate: settlement.date,
-      settledAmount: settlement.amount || loan.amount,
-      updatedAt: new Date(),
-    };
+    InterestService.assertAccrualDate(settlement.date);
+    if (this.loans.get(loanId)!.status !== 'active') throw new Error('Only active loans can be settled');
+
+    return await this.withRollback(async () => {
+      // Bring interest up to the settlement date so the payoff includes it
+      await this.accrueInterest(loanId, settlement.date, userId);
+      const loan = this.loans.get(loanId)!;
+
+      // Settle the full ledger balance as of the settlement date unless an amount is given
+      const balance = await this.calculateLoanBalance(loanId, settlement.date);
+      const settlementAmount = settlement.amount || balance.total.toFixed(2);
+      const split = LoanLedgerService.settlementSplit(balance, parseFloat(settlementAmount));
+      const bankId = this.facilities.get(loan.facilityId)?.bankId || '';
+
+      // Update loan status to settled
+      const updatedLoan: Loan = {
+        ...loan,
+        status: 'settled',
+        settledDate: settlement.date,
+        settledAmount: settlementAmount,
+        updatedAt: new Date(),
+      };
     
-    this.loans.set(loanId, updatedLoan);
-
-    const settlementTransaction: Transaction = {
-      id: this.generateId(),
-      userId,
-      loanId,
-      facilityId: loan.facilityId,
-      bankId: '',
-      type: 'repayment',
-      amount: settlement.amount || loan.amount,
-      date: settlement.date,
-      memo: settlement.memo || 'Loan settled',
-      createdBy: userId,
-      createdAt: new Date(),
-      reference: null,
-      notes: null,
-      allocation: null,
-      idempotencyKey: null,
-    };
+      this.loans.set(loanId, updatedLoan);
 
-    this.transactions.set(settlementTransaction.id, settlementTransaction);
+      // The repayment carries only what is paid; the rest of the balance is written off on its own entry
+      const settlementTransaction: Transaction = {
+        id: this.generateId(),
+        userId,
+        loanId,
+        facilityId: loan.facilityId,
+        bankId,
+        type: 'repayment',
+        amount: settlementAmount,
+        date: settlement.date,
+        memo: settlement.memo || 'Loan settled',
+        createdBy: userId,
+        createdAt: new Date(),
+        reference: null,
+        notes: null,
+        allocation: split.paid,
+        idempotencyKey: `SETTLE:${loanId}:${settlement.date}`,
+      };
+      this.transactions.set(settlementTransaction.id, settlementTransaction);
+      const posted = [settlementTransaction];
+
+      const writtenOff = InterestService.roundAmount(split.writtenOff.principal + split.writtenOff.interest + split.writtenOff.fees);
+      if (writtenOff > 0) {
+        const writeOff: Transaction = {
+          id: this.generateId(),
+          userId,
+          loanId,
+          facilityId: loan.facilityId,
+          bankId,
+          type: 'write_off',
+          amount: writtenOff.toFixed(2),
+          date: settlement.date,
+          memo: 'Settlement shortfall written off',
+          createdBy: userId,
+          createdAt: new Date(),
+          reference: null,
+          notes: null,
+          allocation: split.writtenOff,
+          idempotencyKey: `WRITEOFF:${loanId}:${settlement.date}`,
+        };
+        this.transactions.set(writeOff.id, writeOff);
+        posted.push(writeOff);
+      }
+      this.refreshCreditLineLimit(updatedLoan.creditLineId);
 
-    return { loan: updatedLoan, transactions: [settlementTransaction] };
+      return { loan: updatedLoan, transactions: posted };
+    });
   }
 
   async reverseLoanSettlement(loanId: string, reason: string, userId: string): Promise<Loan> {
@@ -3431,6 +6391,32 @@ Reference: {loanReference}`,
       throw new Error('Loan is not settled - cannot reverse settlement');
     }
 
+    // Reversing reopens the loan as of its settlement date
+    await this.assertLoanPeriodsOpen(loan, [loan.settledDate]);
+
+    // Void what the settlement posted so the ledger replays to the balance it settled
+    const ledger = Array.from(this.transactions.values()).filter(t => t.loanId === loanId);
+    for (const entry of LoanLedgerService.settlementEntries(loan, ledger)) {
+      const voidEntry: Transaction = {
+        id: this.generateId(),
+        userId,
+        loanId,
+        facilityId: entry.facilityId,
+        bankId: entry.bankId,
+        type: 'void',
+        amount: entry.amount,
+        date: entry.date,
+        memo: 'Settlement reversed',
+        createdBy: userId,
+        createdAt: new Date(),
+        reference: entry.id,
+        notes: null,
+        allocation: null,
+        idempotencyKey: `VOID:${entry.id}`,
+      };
+      this.transactions.set(voidEntry.id, voidEntry);
+    }
+
     // Create audit log
     console.log(`🔍 AUDIT: settlement_reversed on loan:${loanId} by ${userId} - Reason: ${reason}`);
 
@@ -3447,73 +6433,206 @@ Reference: {loanReference}`,
     };
 
     this.loans.set(loanId, reversedLoan);
+    this.refreshCreditLineLimit(reversedLoan.creditLineId);
 
     return reversedLoan;
   }
 
   async revolveLoan(loanId: string, revolve: RevolveRequest, userId: string): Promise<{ oldLoan: Loan; newLoan: Loan; transactions: Transaction[] }> {
-    const oldLoan = this.loans.get(loanId);
-    if (!oldLoan) throw new Error('Loan not found');
-
-    // Mark old loan as settled
-    const settledLoan: Loan = {
-      ...oldLoan,
-      status: 'settled',
-      settledDate: new Date().toISOString().split('T')[0],
-      updatedAt: new Date(),
-    };
-    this.loans.set(loanId, settledLoan);
+    if (!this.loans.has(loanId)) throw new Error('Loan not found');
 
-    // Create new loan with updated terms
-    const newLoan: Loan = {
-      ...oldLoan,
-      id: this.generateId(),
-      parentLoanId: loanId,
-      cycleNumber: (oldLoan.cycleNumber || 1) + 1,
-      dueDate: revolve.dueDate,
-      siborTermMonths: revolve.siborTermMonths,
-      margin: revolve.margin,
-      status: 'active',
-      settledDate: null,
-      settledAmount: null,
-      lastAccrualDate: new Date().toISOString().split('T')[0],
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    this.loans.set(newLoan.id, newLoan);
+    const revolveDate = revolve.startDate || InterestService.toDateString(new Date());
+    await this.assertLoanPeriodsOpen(this.loans.get(loanId)!, [revolveDate]);
+
+    InterestService.assertAccrualDate(revolveDate);
+    const current = this.loans.get(loanId)!;
+
+    if (current.status !== 'active') {
+      throw new Error('Only active loans can be revolved');
+    }
+
+    if (revolve.dueDate <= revolveDate) {
+      throw new Error('Due date must be after the revolve date');
+    }
+
+    const facility = this.facilities.get(current.facilityId);
+
+    // The revolving period covers the whole cycle chain, from the first cycle's start to the new due date
+    if (facility?.enableRevolvingTracking && facility.maxRevolvingPeriod) {
+      let firstCycle = current;
+      while (firstCycle.parentLoanId && this.loans.has(firstCycle.parentLoanId)) {
+        firstCycle = this.loans.get(firstCycle.parentLoanId)!;
+      }
+
+      const daysUsed = InterestService.dayCount(firstCycle.startDate, revolve.dueDate, 'actual_365');
+      if (daysUsed > facility.maxRevolvingPeriod) {
+        throw new Error(`Revolving to ${revolve.dueDate} would use ${daysUsed} days, exceeding the facility's maximum revolving period of ${facility.maxRevolvingPeriod} days`);
+      }
+    }
+
+    return await this.withRollback(async () => {
+      // Bring interest on the current cycle up to the rollover date so it is paid off with it
+      await this.accrueInterest(loanId, revolveDate, userId);
+      const oldLoan = this.loans.get(loanId)!;
+
+      const balance = await this.calculateLoanBalance(loanId, revolveDate);
+      const rolledPrincipal = revolve.amount ? parseFloat(revolve.amount) : balance.principal;
+
+      if (rolledPrincipal <= 0) {
+        throw new Error('Loan has no outstanding principal to revolve');
+      }
+
+      // Rolling over more than is outstanding draws new money, which has to fit in the credit line or facility
+      const addedDraw = InterestService.roundAmount(rolledPrincipal - balance.principal);
+      if (addedDraw > 0) {
+        const creditLine = oldLoan.creditLineId ? this.creditLines.get(oldLoan.creditLineId) : undefined;
+        if (creditLine) {
+          CreditLineService.assertDrawFits(creditLine, this.creditLineAvailableLimit(creditLine), addedDraw.toFixed(2));
+        } else if (facility) {
+          CreditLineService.assertFacilityDrawFits(facility, this.facilityAvailableLimit(facility), addedDraw.toFixed(2));
+        }
+      }
+
+      const siborTermMonths = revolve.siborTermMonths ?? oldLoan.siborTermMonths;
+      const siborRate = revolve.siborRate
+        ?? (await RateResetService.revolveFixing(oldLoan, siborTermMonths, revolveDate, (tenor, date) => this.getLatestReferenceRate(tenor, date))).rate;
+      const margin = revolve.margin ?? oldLoan.margin;
+      const cycleNumber = (oldLoan.cycleNumber || 1) + 1;
+
+      const newLoan: Loan = {
+        ...oldLoan,
+        id: this.generateId(),
+        parentLoanId: oldLoan.id,
+        cycleNumber,
+        referenceNumber: `${oldLoan.referenceNumber.replace(/-R\d+$/, '')}-R${cycleNumber}`,
+        amount: rolledPrincipal.toFixed(2),
+        startDate: revolveDate,
+        dueDate: revolve.dueDate,
+        chargesDueDate: null,
+        siborRate,
+        siborTerm: revolve.siborTermMonths ? `${revolve.siborTermMonths} Months SIBOR` : oldLoan.siborTerm,
+        siborTermMonths,
+        margin,
+        bankRate: (parseFloat(siborRate) + parseFloat(margin)).toFixed(2),
+        lastAccrualDate: null,
+        notes: revolve.memo || oldLoan.notes,
+        status: 'active',
+        settledDate: null,
+        settledAmount: null,
+        reversedAt: null,
+        reversalReason: null,
+        reversedBy: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      this.loans.set(newLoan.id, newLoan);
+
+      // Close the current cycle: principal rolls into the new loan, interest and fees are paid off
+      const rolloverTransaction: Transaction = {
+        id: this.generateId(),
+        userId,
+        loanId,
+        facilityId: oldLoan.facilityId,
+        bankId: facility?.bankId || '',
+        type: 'repayment',
+        amount: balance.total.toFixed(2),
+        date: revolveDate,
+        memo: revolve.memo || `Rolled over into cycle ${cycleNumber}`,
+        reference: newLoan.referenceNumber,
+        createdBy: userId,
+        createdAt: new Date(),
+        notes: null,
+        allocation: {
+          fees: balance.fees,
+          interest: balance.interest,
+          principal: balance.principal,
+          settlement: balance.total,
+          rolledPrincipal,
+          rolledToLoanId: newLoan.id,
+        },
+        idempotencyKey: `REVOLVE:${loanId}`,
+      };
+      this.transactions.set(rolloverTransaction.id, rolloverTransaction);
+
+      const drawTransaction: Transaction = {
+        id: this.generateId(),
+        userId,
+        loanId: newLoan.id,
+        facilityId: newLoan.facilityId,
+        bankId: facility?.bankId || '',
+        type: 'draw',
+        amount: newLoan.amount,
+        date: revolveDate,
+        memo: `Rollover from ${oldLoan.referenceNumber}`,
+        reference: newLoan.referenceNumber,
+        createdBy: userId,
+        createdAt: new Date(),
+        notes: null,
+        allocation: { principal: rolledPrincipal },
+        idempotencyKey: `DRAW:${newLoan.id}`,
+      };
+      this.transactions.set(drawTransaction.id, drawTransaction);
+
+      const settledLoan: Loan = {
+        ...oldLoan,
+        status: 'settled',
+        settledDate: revolveDate,
+        settledAmount: balance.total.toFixed(2),
+        updatedAt: new Date(),
+      };
+      this.loans.set(loanId, settledLoan);
+
+      await this.createAuditLog({
+        userId,
+        entityType: 'loan',
+        entityId: loanId,
+        action: 'revolve',
+        before: {
+          status: oldLoan.status,
+          cycleNumber: oldLoan.cycleNumber,
+          dueDate: oldLoan.dueDate,
+          siborRate: oldLoan.siborRate,
+          margin: oldLoan.margin,
+          outstanding: balance,
+        },
+        after: {
+          newLoanId: newLoan.id,
+          cycleNumber,
+          amount: newLoan.amount,
+          startDate: newLoan.startDate,
+          dueDate: newLoan.dueDate,
+          siborRate: newLoan.siborRate,
+          margin: newLoan.margin,
+          bankRate: newLoan.bankRate,
+        },
+        reason: revolve.memo || null,
+      });
+      this.refreshCreditLineLimit(newLoan.creditLineId);
 
-    return { oldLoan: settledLoan, newLoan, transactions: [] };
+      return { oldLoan: settledLoan, newLoan, transactions: [rolloverTransaction, drawTransaction] };
+    });
   }
 
   async getLoanLedger(loanId: string): Promise<Transaction[]> {
     return Array.from(this.transactions.values()).filter(t => t.loanId === loanId);
   }
 
-  async calculateLoanBalance(loanId: string): Promise<{ principal: number; interest: number; fees: number; total: number }> {
+  async calculateLoanBalance(loanId: string, asOf?: string): Promise<LoanBalance> {
     const loan = this.loans.get(loanId);
     if (!loan) throw new Error('Loan not found');
 
-    const loanTransactions = Array.from(this.transactions.values()).filter(t => t.loanId === loanId);
-    
-    let principal = Number(loan.amount);
-    let interest = 0;
-    let fees = 0;
+    const ledger = Array.from(this.transactions.values()).filter(t => t.loanId === loanId);
+    return LoanLedgerService.calculateBalance(loan, ledger, asOf || InterestService.toDateString(new Date()));
+  }
 
-    // Simple balance calculation for memory storage
-    loanTransactions.forEach(transaction => {
-      const amount = Number(transaction.amount);
-      if (transaction.type === 'repayment') {
-        principal -= amount;
-      } else if (transaction.type === 'interest') {
-        interest += amount;
-      } else if (transaction.type === 'fee') {
-        fees += amount;
+  async calculateLoanBalances(loanIds: string[], asOf?: string): Promise<Record<string, LoanBalance>> {
+    const balances: Record<string, LoanBalance> = {};
+    for (const loanId of loanIds) {
+      if (this.loans.has(loanId)) {
+        balances[loanId] = await this.calculateLoanBalance(loanId, asOf);
       }
-    });
-
-    const total = Math.max(0, principal + interest + fees);
-
-    return { principal: Math.max(0, principal), interest, fees, total };
+    }
+    return balances;
   }
 
   private formatFacilityType(facilityType: string): string {
@@ -3535,18 +6654,130 @@ Reference: {loanReference}`,
   }
 
   async accrueInterest(loanId: string, toDate: string, userId: string): Promise<Transaction[]> {
-    // Simple interest accrual for memory storage
-    return [];
+    if (!this.loans.has(loanId)) throw new Error('Loan not found');
+    InterestService.assertAccrualDate(toDate);
+
+    const ratePeriods = await this.applyRateResets(loanId, toDate, userId);
+    const loan = this.loans.get(loanId)!;
+
+    const ledger = Array.from(this.transactions.values()).filter(t => t.loanId === loanId);
+    const principalSchedule = LoanLedgerService.principalSchedule(loan, ledger, toDate);
+    const periods = InterestService.buildAccrualPeriods(loan, toDate, principalSchedule, RateResetService.rateSchedule(ratePeriods));
+    if (periods.length === 0) return [];
+
+    const facility = this.facilities.get(loan.facilityId);
+    const existingKeys = new Set(Array.from(this.transactions.values()).map(t => t.idempotencyKey));
+
+    // Each period is booked on its end date; catching up into a closed month waits until it is reopened
+    await this.assertLoanPeriodsOpen(loan, periods
+      .filter(period => period.amount > 0 && !existingKeys.has(InterestService.accrualIdempotencyKey(loanId, period)))
+      .map(period => period.toDate));
+
+    const accrued: Transaction[] = [];
+    for (const period of periods) {
+      const idempotencyKey = InterestService.accrualIdempotencyKey(loanId, period);
+      if (period.amount <= 0 || existingKeys.has(idempotencyKey)) continue;
+
+      const interestTransaction: Transaction = {
+        id: this.generateId(),
+        userId,
+        loanId,
+        facilityId: loan.facilityId,
+        bankId: facility?.bankId || '',
+        type: 'interest',
+        amount: period.amount.toFixed(2),
+        date: period.toDate,
+        memo: `Interest accrual ${period.fromDate} to ${period.toDate}`,
+        reference: `INT-${loanId.substring(0, 8).toUpperCase()}`,
+        createdBy: userId,
+        createdAt: new Date(),
+        notes: `${period.days} days at ${period.rate.toFixed(2)}% (${period.basis}) on ${period.principal.toFixed(2)}`,
+        allocation: { interest: period.amount },
+        idempotencyKey,
+      };
+      this.transactions.set(interestTransaction.id, interestTransaction);
+      accrued.push(interestTransaction);
+    }
+
+    this.loans.set(loanId, {
+      ...loan,
+      lastAccrualDate: periods[periods.length - 1].toDate,
+      updatedAt: new Date(),
+    });
+
+    return accrued;
+  }
+
+  // Floating rate reset operations
+  async getLoanRatePeriods(loanId: string): Promise<LoanRatePeriod[]> {
+    return Array.from(this.loanRatePeriods.values())
+      .filter(period => period.loanId === loanId)
+      .sort((a, b) => a.periodStart.localeCompare(b.periodStart));
+  }
+
+  async applyRateResets(loanId: string, asOf: string, userId: string): Promise<LoanRatePeriod[]> {
+    const loan = this.loans.get(loanId);
+    if (!loan) throw new Error('Loan not found');
+
+    const existing = await this.getLoanRatePeriods(loanId);
+    if (loan.status !== 'active') return existing;
+
+    const planned = await RateResetService.planPeriods(loan, existing, asOf, (tenor, date) => this.getLatestReferenceRate(tenor, date));
+    let previous = { siborRate: loan.siborRate, bankRate: loan.bankRate };
+    for (const period of planned) {
+      const newPeriod: LoanRatePeriod = {
+        ...period,
+        id: this.generateId(),
+        tenor: period.tenor ?? null,
+        fixingDate: period.fixingDate ?? null,
+        createdAt: new Date(),
+      };
+      this.loanRatePeriods.set(newPeriod.id, newPeriod);
+      if (newPeriod.source === 'initial') continue;
+
+      await this.createAuditLog({
+        userId,
+        entityType: 'loan',
+        entityId: loanId,
+        action: 'rate_reset',
+        before: previous,
+        after: {
+          siborRate: newPeriod.siborRate,
+          bankRate: newPeriod.bankRate,
+          periodStart: newPeriod.periodStart,
+          periodEnd: newPeriod.periodEnd,
+          tenor: newPeriod.tenor,
+          fixingDate: newPeriod.fixingDate,
+          source: newPeriod.source,
+        },
+        reason: newPeriod.source === 'carried_forward' ? 'No fixing published - previous rate carried forward' : null,
+      });
+      previous = { siborRate: newPeriod.siborRate, bankRate: newPeriod.bankRate };
+      this.loans.set(loanId, { ...this.loans.get(loanId)!, ...previous, updatedAt: new Date() });
+    }
+
+    const nextReset = RateResetService.resetDates(loan).find(date => date > asOf);
+    const reminder = nextReset ? RateResetService.buildReminder(loan, nextReset, asOf) : undefined;
+    if (reminder) {
+      const reminders = await this.getLoanReminders(loanId);
+      if (!reminders.some(r => r.type === 'rate_reset' && r.title === reminder.title)) {
+        await this.createLoanReminder(reminder);
+      }
+    }
+
+    return await this.getLoanRatePeriods(loanId);
   }
 
   // Attachment operations
-  async getAttachmentsByOwner(ownerType: AttachmentOwnerType, ownerId: string, userId: string): Promise<Attachment[]> {
+  async getAttachmentsByOwner(ownerType: AttachmentOwnerType, ownerId: string, userId: string, options?: { includeDeleted?: boolean }): Promise<Attachment[]> {
+    // Current versions only; deleted ones can be listed (for restore) until they are purged
     return Array.from(this.attachments.values())
       .filter(attachment => 
         attachment.ownerType === ownerType &&
         attachment.ownerId === ownerId &&
         attachment.userId === userId &&
-        !attachment.deletedAt
+        !attachment.supersededAt &&
+        (options?.includeDeleted ? !attachment.purgedAt : !attachment.deletedAt)
       )
       .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
   }
@@ -3555,13 +6786,57 @@ Reference: {loanReference}`,
     const newAttachment: Attachment = {
       ...attachment,
       id: this.generateId(),
+      bankId: attachment.bankId ?? null,
+      tags: attachment.tags ?? null,
+      description: attachment.description ?? null,
+      checksum: attachment.checksum ?? null,
+      versionGroupId: null,
+      version: 1,
+      supersededAt: null,
+      legalHold: false,
+      legalHoldReason: null,
+      legalHoldBy: null,
+      legalHoldAt: null,
       createdAt: new Date(),
       deletedAt: null,
+      purgedAt: null,
     };
     this.attachments.set(newAttachment.id, newAttachment);
     return newAttachment;
   }
 
+  async createAttachmentVersion(previous: Attachment, attachment: InsertAttachment): Promise<Attachment> {
+    const current = this.attachments.get(previous.id);
+    if (!current || current.supersededAt) {
+      throw new Error('Attachment already has a newer version');
+    }
+    this.attachments.set(current.id, { ...current, supersededAt: new Date() });
+
+    const created = await this.createAttachment(attachment);
+    const version: Attachment = {
+      ...created,
+      versionGroupId: current.versionGroupId ?? current.id,
+      version: current.version + 1,
+      // A new version joins the hold of its chain
+      legalHold: current.legalHold,
+      legalHoldReason: current.legalHoldReason,
+      legalHoldBy: current.legalHoldBy,
+      legalHoldAt: current.legalHoldAt,
+    };
+    this.attachments.set(version.id, version);
+    return version;
+  }
+
+  async getAttachmentVersions(attachmentId: string, userId: string): Promise<Attachment[]> {
+    const attachment = this.attachments.get(attachmentId);
+    if (!attachment || attachment.userId !== userId) return [];
+
+    const groupId = attachment.versionGroupId ?? attachment.id;
+    return Array.from(this.attachments.values())
+      .filter(a => (a.id === groupId || a.versionGroupId === groupId) && a.userId === userId)
+      .sort((a, b) => b.version - a.version);
+  }
+
   async updateAttachmentMetadata(
     attachmentId: string, 
     metadata: Partial<Pick<InsertAttachment, 'category' | 'tags' | 'description'>>, 
@@ -3582,11 +6857,46 @@ Reference: {loanReference}`,
     if (!attachment || attachment.userId !== userId) {
       return; // Silent fail for consistency with database behavior
     }
+    if ((await this.getAttachmentVersions(attachmentId, userId)).some(version => version.legalHold)) {
+      throw new LegalHoldError();
+    }
     
     const deletedAttachment = { ...attachment, deletedAt: new Date() };
     this.attachments.set(attachmentId, deletedAttachment);
   }
 
+  async restoreAttachment(attachmentId: string, userId: string): Promise<Attachment | undefined> {
+    const attachment = this.attachments.get(attachmentId);
+    if (!attachment || attachment.userId !== userId || !attachment.deletedAt || attachment.purgedAt) {
+      return undefined;
+    }
+    
+    const restored = { ...attachment, deletedAt: null };
+    this.attachments.set(attachmentId, restored);
+    return restored;
+  }
+
+  async getAttachmentChain(attachmentId: string): Promise<Attachment[]> {
+    const attachment = this.attachments.get(attachmentId);
+    if (!attachment) return [];
+
+    const groupId = attachment.versionGroupId ?? attachment.id;
+    return Array.from(this.attachments.values())
+      .filter(a => a.id === groupId || a.versionGroupId === groupId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async setAttachmentLegalHold(attachmentId: string, userId: string, reason: string | null): Promise<Attachment[]> {
+    const versions = await this.getAttachmentChain(attachmentId);
+    return versions.map(version => {
+      const updated: Attachment = reason !== null
+        ? { ...version, legalHold: true, legalHoldReason: reason, legalHoldBy: userId, legalHoldAt: new Date() }
+        : { ...version, legalHold: false, legalHoldReason: null, legalHoldBy: null, legalHoldAt: null };
+      this.attachments.set(version.id, updated);
+      return updated;
+    });
+  }
+
   async getAttachmentById(attachmentId: string, userId: string): Promise<Attachment | undefined> {
     const attachment = this.attachments.get(attachmentId);
     if (!attachment || attachment.userId !== userId || attachment.deletedAt) {
@@ -3612,6 +6922,63 @@ Reference: {loanReference}`,
       .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
   }
 
+  // Attachment retention operations
+  async getAttachmentRetentionPolicies(): Promise<AttachmentRetentionPolicy[]> {
+    return Array.from(this.attachmentRetentionPolicies.values())
+      .sort((a, b) => a.category.localeCompare(b.category));
+  }
+
+  async setAttachmentRetentionPolicies(policies: AttachmentRetentionPoliciesRequest, updatedBy: string): Promise<AttachmentRetentionPolicy[]> {
+    for (const [category, policy] of Object.entries(policies)) {
+      if (policy === undefined) continue;
+      if (policy === null) {
+        this.attachmentRetentionPolicies.delete(category);
+        continue;
+      }
+      const existing = this.attachmentRetentionPolicies.get(category);
+      this.attachmentRetentionPolicies.set(category, {
+        id: existing?.id ?? this.generateId(),
+        category: category as AttachmentRetentionPolicy['category'],
+        ...policy,
+        updatedBy,
+        updatedAt: new Date(),
+      });
+    }
+
+    return await this.getAttachmentRetentionPolicies();
+  }
+
+  async getPurgeCandidateAttachments(): Promise<Attachment[]> {
+    return Array.from(this.attachments.values())
+      .filter(a => !a.purgedAt && !a.legalHold && (a.deletedAt || a.supersededAt));
+  }
+
+  async getAttachmentOwnerEndDate(ownerType: Attachment['ownerType'], ownerId: string): Promise<string | null | undefined> {
+    if (ownerType === 'facility') {
+      const facility = this.facilities.get(ownerId);
+      return facility ? facility.expiryDate : undefined;
+    }
+    if (ownerType === 'loan') {
+      const loan = this.loans.get(ownerId);
+      return loan ? loan.settledDate : undefined;
+    }
+    return undefined;
+  }
+
+  async markAttachmentPurged(attachmentId: string, details: Record<string, unknown>): Promise<void> {
+    const attachment = this.attachments.get(attachmentId);
+    if (!attachment) return;
+    this.attachments.set(attachmentId, { ...attachment, purgedAt: new Date() });
+
+    // System purges are attributed to the attachment's owner
+    await this.createAttachmentAudit({
+      attachmentId,
+      userId: attachment.userId,
+      action: 'purge',
+      metadata: details,
+    });
+  }
+
   // Chat Conversation operations
   async getUserConversations(userId: string, organizationId?: string): Promise<ChatConversation[]> {
     return Array.from(this.chatConversations.values())
@@ -3794,55 +7161,237 @@ Reference: {loanReference}`,
       compactView: preferences.compactView ?? existing?.compactView ?? false,
       createdAt: existing?.createdAt || new Date(),
       updatedAt: new Date(),
-    };
-    this.userPreferences.set(newPreferences.id, newPreferences);
-    return newPreferences;
-  }
+    };
+    this.userPreferences.set(newPreferences.id, newPreferences);
+    return newPreferences;
+  }
+
+  // Guarantee operations
+  async getUserGuarantees(organizationId: string): Promise<Array<Guarantee & { facility: Facility & { bank: Bank } }>> {
+    return [];
+  }
+
+  async getFacilityGuarantees(facilityId: string): Promise<Guarantee[]> {
+    return Array.from(this.guarantees.values()).filter(g => g.facilityId === facilityId && g.isActive);
+  }
+
+  async getGuaranteeById(guaranteeId: string): Promise<Guarantee | undefined> {
+    return this.guarantees.get(guaranteeId);
+  }
+
+  async createGuarantee(guarantee: InsertGuarantee): Promise<Guarantee> {
+    const newGuarantee: Guarantee = {
+      ...guarantee,
+      id: this.generateId(),
+      commissionAccruedThrough: null,
+      expiryReminderSentAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.guarantees.set(newGuarantee.id, newGuarantee);
+    return newGuarantee;
+  }
+
+  async updateGuarantee(guaranteeId: string, organizationId: string, guarantee: Partial<UpdateGuarantee>): Promise<Guarantee> {
+    const existing = this.guarantees.get(guaranteeId);
+    if (!existing || existing.organizationId !== organizationId) {
+      throw new Error('Guarantee not found');
+    }
+
+    const updated: Guarantee = {
+      ...existing,
+      ...guarantee,
+      updatedAt: new Date(),
+    };
+    this.guarantees.set(guaranteeId, updated);
+    return updated;
+  }
+
+  async deleteGuarantee(guaranteeId: string, organizationId: string): Promise<void> {
+    const existing = this.guarantees.get(guaranteeId);
+    if (existing && existing.organizationId === organizationId) {
+      existing.isActive = false;
+      existing.updatedAt = new Date();
+    }
+  }
+
+  async getGuaranteeVersions(guaranteeId: string): Promise<GuaranteeVersion[]> {
+    return Array.from(this.guaranteeVersions.values())
+      .filter(v => v.guaranteeId === guaranteeId)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  async applyGuaranteeAction(
+    guaranteeId: string,
+    organizationId: string,
+    userId: string,
+    plan: (guarantee: Guarantee) => GuaranteeActionChange
+  ): Promise<{ guarantee: Guarantee; version: GuaranteeVersion; transaction: Transaction | null }> {
+    const existing = this.guarantees.get(guaranteeId);
+    if (!existing || existing.organizationId !== organizationId || !existing.isActive) {
+      throw new Error('Guarantee not found');
+    }
+
+    const change = plan(existing);
+    PeriodCloseService.assertOpen(await this.getClosedPeriods(organizationId), [change.effectiveDate]);
+
+    // Settle commission on the old terms up to the action date
+    await this.postGuaranteeCommission(existing, GuaranteeService.commissionPeriods(existing, change.effectiveDate, true), userId);
+
+    const guarantee: Guarantee = { ...this.guarantees.get(guaranteeId)!, ...change.updates, updatedAt: new Date() };
+    this.guarantees.set(guaranteeId, guarantee);
+
+    let transaction: Transaction | null = null;
+    if (change.transaction) {
+      transaction = await this.addTransaction({
+        userId,
+        facilityId: existing.facilityId,
+        bankId: this.facilities.get(existing.facilityId)?.bankId || '',
+        type: change.transaction.type,
+        amount: change.transaction.amount,
+        date: change.effectiveDate,
+        reference: existing.referenceNumber,
+        memo: change.transaction.memo,
+        createdBy: userId,
+      });
+    }
+
+    const versions = await this.getGuaranteeVersions(guaranteeId);
+    const changes = GuaranteeService.changesOf(existing, change.updates);
+    const version: GuaranteeVersion = {
+      id: this.generateId(),
+      guaranteeId,
+      organizationId,
+      version: (versions[versions.length - 1]?.version ?? 0) + 1,
+      action: change.action,
+      effectiveDate: change.effectiveDate,
+      amount: change.amount,
+      guaranteeAmount: guarantee.guaranteeAmount,
+      calledAmount: guarantee.calledAmount ?? '0.00',
+      expiryDate: guarantee.expiryDate,
+      status: guarantee.status!,
+      changes,
+      transactionId: transaction?.id ?? null,
+      reason: change.reason,
+      createdBy: userId,
+      createdAt: new Date(),
+    };
+    this.guaranteeVersions.set(version.id, version);
+
+    await this.createAuditLog({
+      userId,
+      entityType: 'guarantee',
+      entityId: guaranteeId,
+      action: change.action,
+      before: Object.fromEntries(Object.entries(changes).map(([field, c]) => [field, c.from])),
+      after: Object.fromEntries(Object.entries(changes).map(([field, c]) => [field, c.to])),
+      reason: change.reason,
+    });
+
+    return { guarantee, version, transaction };
+  }
+
+  async accrueGuaranteeCommission(guaranteeId: string, toDate: string, userId: string): Promise<GuaranteeCommission[]> {
+    const guarantee = this.guarantees.get(guaranteeId);
+    if (!guarantee || !guarantee.isActive) throw new Error('Guarantee not found');
+
+    return this.postGuaranteeCommission(guarantee, GuaranteeService.commissionPeriods(guarantee, toDate), userId);
+  }
+
+  private async postGuaranteeCommission(guarantee: Guarantee, periods: CommissionPeriod[], userId: string): Promise<GuaranteeCommission[]> {
+    if (periods.length === 0) return [];
+
+    const facility = this.facilities.get(guarantee.facilityId);
+    const existingKeys = new Set(Array.from(this.transactions.values()).map(t => t.idempotencyKey));
+    const closedPeriods = guarantee.organizationId ? await this.getClosedPeriods(guarantee.organizationId) : [];
+
+    const posted: GuaranteeCommission[] = [];
+    for (const period of periods) {
+      const idempotencyKey = GuaranteeService.commissionIdempotencyKey(guarantee.id, period);
+      if (period.amount <= 0 || existingKeys.has(idempotencyKey)) continue;
+
+      const transaction = await this.addTransaction({
+        userId,
+        facilityId: guarantee.facilityId,
+        bankId: facility?.bankId || '',
+        type: 'fee',
+        amount: period.amount.toFixed(2),
+        date: PeriodCloseService.firstOpenDate(closedPeriods, period.dueDate),
+        reference: guarantee.referenceNumber,
+        memo: `Guarantee commission ${period.periodStart} to ${period.periodEnd}`,
+        createdBy: userId,
+        idempotencyKey,
+        allocation: { fees: period.amount },
+        notes: `${period.days} days at ${period.feeRate.toFixed(2)}% on ${period.baseAmount.toFixed(2)}`,
+      });
+
+      const commission: GuaranteeCommission = {
+        id: this.generateId(),
+        guaranteeId: guarantee.id,
+        organizationId: guarantee.organizationId,
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
+        dueDate: period.dueDate,
+        baseAmount: period.baseAmount.toFixed(2),
+        feeRate: period.feeRate.toFixed(2),
+        amount: period.amount.toFixed(2),
+        status: 'unpaid',
+        paidDate: null,
+        transactionId: transaction.id,
+        createdAt: new Date(),
+      };
+      this.guaranteeCommissions.set(commission.id, commission);
+      posted.push(commission);
+    }
+
+    this.guarantees.set(guarantee.id, {
+      ...guarantee,
+      commissionAccruedThrough: periods[periods.length - 1].periodEnd,
+      updatedAt: new Date(),
+    });
 
-  // Guarantee operations
-  async getUserGuarantees(organizationId: string): Promise<Array<Guarantee & { facility: Facility & { bank: Bank } }>> {
-    return [];
+    return posted;
   }
 
-  async getFacilityGuarantees(facilityId: string): Promise<Guarantee[]> {
-    return Array.from(this.guarantees.values()).filter(g => g.facilityId === facilityId && g.isActive);
+  async getGuaranteeCommissions(guaranteeId: string): Promise<GuaranteeCommission[]> {
+    return Array.from(this.guaranteeCommissions.values())
+      .filter(c => c.guaranteeId === guaranteeId)
+      .sort((a, b) => a.periodStart.localeCompare(b.periodStart));
   }
 
-  async getGuaranteeById(guaranteeId: string): Promise<Guarantee | undefined> {
-    return this.guarantees.get(guaranteeId);
+  async getUnpaidGuaranteeCommissions(organizationId: string): Promise<GuaranteeCommission[]> {
+    return Array.from(this.guaranteeCommissions.values())
+      .filter(c => c.organizationId === organizationId && c.status === 'unpaid')
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
   }
 
-  async createGuarantee(guarantee: InsertGuarantee): Promise<Guarantee> {
-    const newGuarantee: Guarantee = {
-      ...guarantee,
-      id: this.generateId(),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    this.guarantees.set(newGuarantee.id, newGuarantee);
-    return newGuarantee;
-  }
+  async markGuaranteeCommissionPaid(commissionId: string, organizationId: string, paidDate: string, userId: string): Promise<GuaranteeCommission | undefined> {
+    PeriodCloseService.assertOpen(await this.getClosedPeriods(organizationId), [paidDate]);
 
-  async updateGuarantee(guaranteeId: string, organizationId: string, guarantee: Partial<UpdateGuarantee>): Promise<Guarantee> {
-    const existing = this.guarantees.get(guaranteeId);
-    if (!existing || existing.organizationId !== organizationId) {
-      throw new Error('Guarantee not found');
+    const commission = this.guaranteeCommissions.get(commissionId);
+    if (!commission || commission.organizationId !== organizationId || commission.status !== 'unpaid') {
+      return undefined;
     }
 
-    const updated: Guarantee = {
-      ...existing,
-      ...guarantee,
-      updatedAt: new Date(),
-    };
-    this.guarantees.set(guaranteeId, updated);
-    return updated;
+    const paid: GuaranteeCommission = { ...commission, status: 'paid', paidDate };
+    this.guaranteeCommissions.set(commissionId, paid);
+
+    await this.createAuditLog({
+      userId,
+      entityType: 'guarantee_commission',
+      entityId: commissionId,
+      action: 'pay',
+      before: { status: 'unpaid' },
+      after: { status: 'paid', paidDate },
+    });
+
+    return paid;
   }
 
-  async deleteGuarantee(guaranteeId: string, organizationId: string): Promise<void> {
-    const existing = this.guarantees.get(guaranteeId);
-    if (existing && existing.organizationId === organizationId) {
-      existing.isActive = false;
-      existing.updatedAt = new Date();
+  async markGuaranteeExpiryReminderSent(guaranteeId: string): Promise<void> {
+    const guarantee = this.guarantees.get(guaranteeId);
+    if (guarantee) {
+      this.guarantees.set(guaranteeId, { ...guarantee, expiryReminderSentAt: new Date() });
     }
   }
 
@@ -3888,6 +7437,7 @@ Reference: {loanReference}`,
     const newMember: OrganizationMember = {
       ...member,
       id: this.generateId(),
+      role: member.role ?? (member.isOwner ? 'owner' : 'treasury_manager'),
       joinedAt: new Date(),
     };
     this.organizationMembers.set(newMember.id, newMember);
@@ -3924,6 +7474,26 @@ Reference: {loanReference}`,
       .some(m => m.userId === userId && m.organizationId === organizationId);
   }
 
+  async updateMemberRole(memberUserId: string, organizationId: string, role: MemberRole, userId: string): Promise<OrganizationMember> {
+    const existing = Array.from(this.organizationMembers.values())
+      .find(m => m.userId === memberUserId && m.organizationId === organizationId);
+    if (!existing) {
+      throw new Error("Member not found");
+    }
+
+    const updated: OrganizationMember = { ...existing, role };
+    this.organizationMembers.set(existing.id, updated);
+    await this.createAuditLog({
+      userId,
+      entityType: 'organization_member',
+      entityId: existing.id,
+      action: 'update',
+      before: { role: existing.role },
+      after: { role },
+    });
+    return updated;
+  }
+
   // Organization Invitation operations
   async createInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
     const newInvitation: OrganizationInvitation = {
@@ -3950,17 +7520,44 @@ Reference: {loanReference}`,
       .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
   }
   
-  // Loan Payment operations
-  async recordPayment(payment: InsertLoanPayment): Promise<LoanPayment> {
-    const newPayment: LoanPayment = {
-      ...payment,
-      id: this.generateId(),
-      createdAt: new Date(),
-    };
-    this.loanPayments.set(newPayment.id, newPayment);
-    return newPayment;
+  // Installment schedule operations
+  async getLoanInstallments(loanId: string): Promise<LoanInstallment[]> {
+    return Array.from(this.loanInstallments.values())
+      .filter(installment => installment.loanId === loanId)
+      .sort((a, b) => a.installmentNumber - b.installmentNumber);
   }
-  
+
+  async getInstallmentsForLoans(loanIds: string[]): Promise<LoanInstallment[]> {
+    const ids = new Set(loanIds);
+    return Array.from(this.loanInstallments.values())
+      .filter(installment => ids.has(installment.loanId))
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  }
+
+  async replaceLoanInstallments(loanId: string, installments: InsertLoanInstallment[]): Promise<LoanInstallment[]> {
+    const existing = await this.getLoanInstallments(loanId);
+    if (existing.some(installment => installment.status !== 'pending')) {
+      throw new Error('Cannot replace an installment schedule that already has payments allocated');
+    }
+
+    existing.forEach(installment => this.loanInstallments.delete(installment.id));
+    return installments.map(installment => {
+      const newInstallment: LoanInstallment = {
+        paidPrincipal: '0',
+        paidInterest: '0',
+        status: 'pending',
+        paidDate: null,
+        ...installment,
+        id: this.generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      this.loanInstallments.set(newInstallment.id, newInstallment);
+      return newInstallment;
+    });
+  }
+
+  // Loan Payment operations
   async getPaymentsByLoan(loanId: string): Promise<LoanPayment[]> {
     return Array.from(this.loanPayments.values())
       .filter(p => p.loanId === loanId)
@@ -4022,6 +7619,7 @@ Reference: {loanReference}`,
   async createPortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot> {
     const newSnapshot: PortfolioSnapshot = {
       ...snapshot,
+      isOfficial: snapshot.isOfficial ?? false,
       id: this.generateId(),
       createdAt: new Date(),
     };
@@ -4051,6 +7649,641 @@ Reference: {loanReference}`,
     
     return snapshots[0];
   }
+
+  // Reference rate operations
+  async getReferenceRates(filters?: { tenor?: string; from?: string; to?: string }): Promise<ReferenceRate[]> {
+    return Array.from(this.referenceRates.values())
+      .filter(r => !filters?.tenor || r.tenor === filters.tenor)
+      .filter(r => !filters?.from || r.fixingDate >= filters.from)
+      .filter(r => !filters?.to || r.fixingDate <= filters.to)
+      .sort((a, b) => b.fixingDate.localeCompare(a.fixingDate) || a.tenor.localeCompare(b.tenor));
+  }
+
+  async getLatestReferenceRate(tenor: string, asOf?: string): Promise<ReferenceRate | undefined> {
+    const rates = await this.getReferenceRates({ tenor, to: asOf || new Date().toISOString().split('T')[0] });
+    return rates[0];
+  }
+
+  async upsertReferenceRates(rates: InsertReferenceRate[]): Promise<ReferenceRate[]> {
+    return rates.map(rate => {
+      const existing = Array.from(this.referenceRates.values())
+        .find(r => r.tenor === rate.tenor && r.fixingDate === rate.fixingDate);
+
+      const saved: ReferenceRate = {
+        id: existing?.id || this.generateId(),
+        tenor: rate.tenor,
+        fixingDate: rate.fixingDate,
+        rate: rate.rate,
+        source: rate.source,
+        createdBy: rate.createdBy || null,
+        createdAt: existing?.createdAt || new Date(),
+        updatedAt: new Date(),
+      };
+      this.referenceRates.set(saved.id, saved);
+      return saved;
+    });
+  }
+
+  async deleteReferenceRate(rateId: string): Promise<void> {
+    this.referenceRates.delete(rateId);
+  }
+
+  // Share price operations
+  async getSharePrices(filters?: { ticker?: string; from?: string; to?: string }): Promise<SharePrice[]> {
+    return Array.from(this.sharePrices.values())
+      .filter(p => !filters?.ticker || p.ticker === filters.ticker)
+      .filter(p => !filters?.from || p.priceDate >= filters.from)
+      .filter(p => !filters?.to || p.priceDate <= filters.to)
+      .sort((a, b) => b.priceDate.localeCompare(a.priceDate) || a.ticker.localeCompare(b.ticker));
+  }
+
+  async getLatestSharePrice(ticker: string, asOf?: string): Promise<SharePrice | undefined> {
+    const prices = await this.getSharePrices({ ticker, to: asOf || new Date().toISOString().split('T')[0] });
+    return prices[0];
+  }
+
+  async upsertSharePrices(prices: InsertSharePrice[]): Promise<SharePrice[]> {
+    return prices.map(price => {
+      const existing = Array.from(this.sharePrices.values())
+        .find(p => p.ticker === price.ticker && p.priceDate === price.priceDate);
+
+      const saved: SharePrice = {
+        id: existing?.id || this.generateId(),
+        ticker: price.ticker,
+        priceDate: price.priceDate,
+        closePrice: price.closePrice,
+        source: price.source,
+        createdBy: price.createdBy || null,
+        createdAt: existing?.createdAt || new Date(),
+        updatedAt: new Date(),
+      };
+      this.sharePrices.set(saved.id, saved);
+      return saved;
+    });
+  }
+
+  async deleteSharePrice(priceId: string): Promise<void> {
+    this.sharePrices.delete(priceId);
+  }
+
+  // Bank statement reconciliation operations
+  async updateBankStatementLayout(bankId: string, layout: StatementCsvLayout | null): Promise<Bank> {
+    const bank = this.banks.get(bankId);
+    if (!bank) throw new Error('Bank not found');
+    const updated: Bank = { ...bank, statementCsvLayout: layout };
+    this.banks.set(bankId, updated);
+    return updated;
+  }
+
+  async getBankStatements(bankId: string, organizationId: string): Promise<BankStatement[]> {
+    return Array.from(this.bankStatements.values())
+      .filter(s => s.bankId === bankId && s.organizationId === organizationId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async getBankStatementByHash(bankId: string, contentHash: string): Promise<BankStatement | undefined> {
+    return Array.from(this.bankStatements.values()).find(s => s.bankId === bankId && s.contentHash === contentHash);
+  }
+
+  async createBankStatement(statement: InsertBankStatement, lines: Omit<InsertBankStatementLine, 'statementId'>[]): Promise<{ statement: BankStatement; lines: BankStatementLine[] }> {
+    if (await this.getBankStatementByHash(statement.bankId, statement.contentHash)) {
+      throw new Error('This statement has already been imported');
+    }
+
+    const created: BankStatement = {
+      id: this.generateId(),
+      organizationId: statement.organizationId,
+      bankId: statement.bankId,
+      format: statement.format,
+      fileName: statement.fileName ?? null,
+      accountNumber: statement.accountNumber ?? null,
+      statementReference: statement.statementReference ?? null,
+      periodStart: statement.periodStart ?? null,
+      periodEnd: statement.periodEnd ?? null,
+      openingBalance: statement.openingBalance ?? null,
+      closingBalance: statement.closingBalance ?? null,
+      currency: statement.currency ?? 'SAR',
+      contentHash: statement.contentHash,
+      importedBy: statement.importedBy ?? null,
+      createdAt: new Date(),
+    };
+    this.bankStatements.set(created.id, created);
+
+    const createdLines = lines.map(line => {
+      const saved: BankStatementLine = {
+        id: this.generateId(),
+        statementId: created.id,
+        organizationId: line.organizationId,
+        bankId: line.bankId,
+        lineNumber: line.lineNumber,
+        valueDate: line.valueDate,
+        entryDate: line.entryDate ?? null,
+        amount: line.amount,
+        direction: line.direction,
+        reference: line.reference ?? null,
+        bankReference: line.bankReference ?? null,
+        description: line.description ?? null,
+        status: line.status ?? 'unmatched',
+        transactionId: line.transactionId ?? null,
+        matchMethod: line.matchMethod ?? null,
+        ignoreReason: line.ignoreReason ?? null,
+        reconciledBy: line.reconciledBy ?? null,
+        reconciledAt: line.reconciledAt ?? null,
+        createdAt: new Date(),
+      };
+      this.bankStatementLines.set(saved.id, saved);
+      return saved;
+    });
+
+    return { statement: created, lines: createdLines };
+  }
+
+  async getBankStatementLines(filters: { bankId: string; organizationId: string; statementId?: string; status?: string }): Promise<BankStatementLine[]> {
+    return Array.from(this.bankStatementLines.values())
+      .filter(l => l.bankId === filters.bankId && l.organizationId === filters.organizationId)
+      .filter(l => !filters.statementId || l.statementId === filters.statementId)
+      .filter(l => !filters.status || l.status === filters.status)
+      .sort((a, b) => a.valueDate.localeCompare(b.valueDate) || a.lineNumber - b.lineNumber);
+  }
+
+  async getBankStatementLine(lineId: string, organizationId: string): Promise<BankStatementLine | undefined> {
+    const line = this.bankStatementLines.get(lineId);
+    return line && line.organizationId === organizationId ? line : undefined;
+  }
+
+  async updateBankStatementLine(lineId: string, updates: Partial<InsertBankStatementLine>): Promise<BankStatementLine> {
+    const line = this.bankStatementLines.get(lineId);
+    if (!line) throw new Error('Statement line not found');
+    if (updates.transactionId && Array.from(this.bankStatementLines.values())
+      .some(l => l.id !== lineId && l.transactionId === updates.transactionId)) {
+      throw new Error('Transaction is already matched to another statement line');
+    }
+
+    const updated: BankStatementLine = { ...line, ...updates } as BankStatementLine;
+    this.bankStatementLines.set(lineId, updated);
+    return updated;
+  }
+
+  async getUnreconciledTransactions(bankId: string, organizationId: string): Promise<Array<Transaction & { loan?: Loan }>> {
+    const linked = new Set(Array.from(this.bankStatementLines.values()).map(l => l.transactionId).filter(Boolean));
+    return Array.from(this.transactions.values())
+      .filter(t => t.bankId === bankId && ['draw', 'repayment', 'fee'].includes(t.type) && !linked.has(t.id))
+      .map(t => ({ ...t, loan: t.loanId ? this.loans.get(t.loanId) : undefined }))
+      .filter(t => t.loan?.organizationId === organizationId ||
+        (!!t.facilityId && this.facilities.get(t.facilityId)?.organizationId === organizationId))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // General ledger export operations
+  async getGlAccountMappings(organizationId: string): Promise<GlAccountMapping[]> {
+    return Array.from(this.glAccountMappings.values())
+      .filter(m => m.organizationId === organizationId)
+      .sort((a, b) => a.entryType.localeCompare(b.entryType));
+  }
+
+  async upsertGlAccountMapping(organizationId: string, mapping: InsertGlAccountMapping): Promise<GlAccountMapping> {
+    const existing = Array.from(this.glAccountMappings.values()).find(m =>
+      m.organizationId === organizationId &&
+      m.entryType === mapping.entryType &&
+      m.bankId === (mapping.bankId ?? null) &&
+      m.facilityType === (mapping.facilityType ?? null)
+    );
+
+    const now = new Date();
+    const saved: GlAccountMapping = {
+      id: existing?.id ?? this.generateId(),
+      organizationId,
+      bankId: mapping.bankId ?? null,
+      facilityType: mapping.facilityType ?? null,
+      entryType: mapping.entryType,
+      debitAccount: mapping.debitAccount,
+      creditAccount: mapping.creditAccount,
+      description: mapping.description ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.glAccountMappings.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteGlAccountMapping(mappingId: string, organizationId: string): Promise<void> {
+    if (this.glAccountMappings.get(mappingId)?.organizationId === organizationId) {
+      this.glAccountMappings.delete(mappingId);
+    }
+  }
+
+  async getJournalTransactions(organizationId: string, filters: {
+    from?: string;
+    to?: string;
+    transactionIds?: string[];
+    includeExported?: boolean;
+  }): Promise<Array<Transaction & { bank: Bank; facility?: Facility; loan?: Loan }>> {
+    const ids = filters.transactionIds ? new Set(filters.transactionIds) : null;
+
+    return Array.from(this.transactions.values())
+      .filter(t => (!filters.from || t.date >= filters.from) && (!filters.to || t.date <= filters.to))
+      .filter(t => !ids || ids.has(t.id))
+      .filter(t => filters.includeExported || !this.glExportEntries.has(t.id))
+      .map(t => {
+        const loan = t.loanId ? this.loans.get(t.loanId) : undefined;
+        const facilityId = t.facilityId ?? loan?.facilityId;
+        return {
+          ...t,
+          bank: this.banks.get(t.bankId)!,
+          facility: facilityId ? this.facilities.get(facilityId) : undefined,
+          loan,
+        };
+      })
+      .filter(t => !!t.bank && (t.loan?.organizationId === organizationId || t.facility?.organizationId === organizationId))
+      .sort((a, b) => a.date.localeCompare(b.date) || (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async getPaymentsByTransactionIds(transactionIds: string[]): Promise<LoanPayment[]> {
+    const ids = new Set(transactionIds);
+    return Array.from(this.loanPayments.values()).filter(p => !!p.transactionId && ids.has(p.transactionId));
+  }
+
+  async getGlExports(organizationId: string): Promise<GlExport[]> {
+    return Array.from(this.glExports.values())
+      .filter(e => e.organizationId === organizationId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async createGlExport(exportRecord: Omit<GlExport, 'id' | 'createdAt'>, transactionIds: string[]): Promise<GlExport> {
+    if (transactionIds.some(id => this.glExportEntries.has(id))) {
+      throw new Error('Some transactions in this period have already been exported');
+    }
+
+    const created: GlExport = { ...exportRecord, id: this.generateId(), createdAt: new Date() };
+    this.glExports.set(created.id, created);
+    for (const transactionId of transactionIds) {
+      this.glExportEntries.set(transactionId, { exportId: created.id, transactionId });
+    }
+    return created;
+  }
+
+  async deleteGlExport(exportId: string, organizationId: string): Promise<void> {
+    if (this.glExports.get(exportId)?.organizationId !== organizationId) return;
+    this.glExports.delete(exportId);
+    for (const [transactionId, entry] of Array.from(this.glExportEntries.entries())) {
+      if (entry.exportId === exportId) this.glExportEntries.delete(transactionId);
+    }
+  }
+
+  // Accounting period operations
+  async getAccountingPeriods(organizationId: string): Promise<AccountingPeriod[]> {
+    return Array.from(this.accountingPeriods.values())
+      .filter(p => p.organizationId === organizationId)
+      .sort((a, b) => b.period.localeCompare(a.period));
+  }
+
+  async getClosedPeriods(organizationId: string): Promise<string[]> {
+    return (await this.getAccountingPeriods(organizationId))
+      .filter(p => p.status === 'closed')
+      .map(p => p.period);
+  }
+
+  async closeAccountingPeriod(organizationId: string, period: string, userId: string, snapshot: InsertPortfolioSnapshot): Promise<{ period: AccountingPeriod; snapshot: PortfolioSnapshot }> {
+    // The month-end row may already exist from the daily capture - the close replaces its figures
+    const existingSnapshot = await this.getSnapshotByDate(organizationId, snapshot.snapshotDate);
+    const officialSnapshot: PortfolioSnapshot = {
+      ...snapshot,
+      id: existingSnapshot?.id ?? this.generateId(),
+      isOfficial: true,
+      createdAt: new Date(),
+    } as PortfolioSnapshot;
+    this.portfolioSnapshots.set(officialSnapshot.id, officialSnapshot);
+
+    const existing = (await this.getAccountingPeriods(organizationId)).find(p => p.period === period);
+    const closed: AccountingPeriod = {
+      id: existing?.id ?? this.generateId(),
+      organizationId,
+      period,
+      status: 'closed',
+      snapshotId: officialSnapshot.id,
+      closedBy: userId,
+      closedAt: new Date(),
+      reopenedBy: existing?.reopenedBy ?? null,
+      reopenedAt: existing?.reopenedAt ?? null,
+      reopenReason: existing?.reopenReason ?? null,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.accountingPeriods.set(closed.id, closed);
+
+    await this.createAuditLog({
+      userId,
+      entityType: 'accounting_period',
+      entityId: closed.id,
+      action: 'close',
+      after: { period, snapshotId: officialSnapshot.id, totalOutstanding: officialSnapshot.totalOutstanding },
+    });
+
+    return { period: closed, snapshot: officialSnapshot };
+  }
+
+  async reopenAccountingPeriod(organizationId: string, period: string, reason: string, userId: string): Promise<AccountingPeriod> {
+    const existing = (await this.getAccountingPeriods(organizationId)).find(p => p.period === period);
+    if (!existing) throw new Error('Accounting period not found');
+
+    const reopened: AccountingPeriod = {
+      ...existing,
+      status: 'open',
+      reopenedBy: userId,
+      reopenedAt: new Date(),
+      reopenReason: reason,
+    };
+    this.accountingPeriods.set(reopened.id, reopened);
+
+    // The month-end figure is no longer final until the period is closed again
+    const snapshot = existing.snapshotId ? this.portfolioSnapshots.get(existing.snapshotId) : undefined;
+    if (snapshot) {
+      this.portfolioSnapshots.set(snapshot.id, { ...snapshot, isOfficial: false });
+    }
+
+    await this.createAuditLog({
+      userId,
+      entityType: 'accounting_period',
+      entityId: existing.id,
+      action: 'reopen',
+      before: { period, status: existing.status, closedBy: existing.closedBy, closedAt: existing.closedAt },
+      after: { period, status: 'open' },
+      reason,
+    });
+
+    return reopened;
+  }
+
+  async getApprovalThresholds(organizationId: string): Promise<ApprovalThreshold[]> {
+    return Array.from(this.approvalThresholds.values()).filter(t => t.organizationId === organizationId);
+  }
+
+  async setApprovalThresholds(organizationId: string, thresholds: ApprovalThresholdsRequest, userId: string): Promise<ApprovalThreshold[]> {
+    const before = await this.getApprovalThresholds(organizationId);
+
+    for (const [action, minAmount] of Object.entries(thresholds)) {
+      if (minAmount === undefined) continue;
+      const existing = before.find(t => t.action === action);
+      if (minAmount === null) {
+        if (existing) this.approvalThresholds.delete(existing.id);
+        continue;
+      }
+      const threshold: ApprovalThreshold = {
+        id: existing?.id ?? this.generateId(),
+        organizationId,
+        action,
+        minAmount,
+        updatedBy: userId,
+        updatedAt: new Date(),
+      };
+      this.approvalThresholds.set(threshold.id, threshold);
+    }
+
+    await this.createAuditLog({
+      userId,
+      entityType: 'approval_thresholds',
+      entityId: organizationId,
+      action: 'update',
+      before: Object.fromEntries(before.map(t => [t.action, t.minAmount])),
+      after: thresholds,
+    });
+
+    return await this.getApprovalThresholds(organizationId);
+  }
+
+  async getCreditConversionFactors(organizationId: string): Promise<CreditConversionFactor[]> {
+    return Array.from(this.creditConversionFactors.values()).filter(f => f.organizationId === organizationId);
+  }
+
+  async setCreditConversionFactors(organizationId: string, factors: CreditConversionFactorsRequest, userId: string): Promise<CreditConversionFactor[]> {
+    const before = await this.getCreditConversionFactors(organizationId);
+
+    for (const [guaranteeType, factor] of Object.entries(factors)) {
+      if (factor === undefined) continue;
+      const existing = before.find(f => f.guaranteeType === guaranteeType);
+      if (factor === null) {
+        if (existing) this.creditConversionFactors.delete(existing.id);
+        continue;
+      }
+      const conversionFactor: CreditConversionFactor = {
+        id: existing?.id ?? this.generateId(),
+        organizationId,
+        guaranteeType: guaranteeType as CreditConversionFactor['guaranteeType'],
+        factor,
+        updatedBy: userId,
+        updatedAt: new Date(),
+      };
+      this.creditConversionFactors.set(conversionFactor.id, conversionFactor);
+    }
+
+    await this.createAuditLog({
+      userId,
+      entityType: 'credit_conversion_factors',
+      entityId: organizationId,
+      action: 'update',
+      before: Object.fromEntries(before.map(f => [f.guaranteeType, f.factor])),
+      after: factors,
+    });
+
+    return await this.getCreditConversionFactors(organizationId);
+  }
+
+  async getApprovalRequests(organizationId: string, status?: ApprovalStatus): Promise<ApprovalRequest[]> {
+    return Array.from(this.approvalRequests.values())
+      .filter(r => r.organizationId === organizationId && (!status || r.status === status))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getApprovalRequest(requestId: string, organizationId: string): Promise<ApprovalRequest | undefined> {
+    const request = this.approvalRequests.get(requestId);
+    return request?.organizationId === organizationId ? request : undefined;
+  }
+
+  async createApprovalRequest(request: InsertApprovalRequest): Promise<ApprovalRequest> {
+    const created: ApprovalRequest = {
+      ...request,
+      id: this.generateId(),
+      status: 'pending',
+      loanId: request.loanId ?? null,
+      makerComment: request.makerComment ?? null,
+      checkerId: null,
+      checkerComment: null,
+      resultId: null,
+      createdAt: new Date(),
+      decidedAt: null,
+    };
+    this.approvalRequests.set(created.id, created);
+    return created;
+  }
+
+  async updateApprovalRequest(requestId: string, organizationId: string, updates: Partial<ApprovalRequest>, expectedStatus?: ApprovalStatus): Promise<ApprovalRequest | undefined> {
+    const existing = await this.getApprovalRequest(requestId, organizationId);
+    if (!existing || (expectedStatus && existing.status !== expectedStatus)) return undefined;
+    const updated: ApprovalRequest = { ...existing, ...updates };
+    this.approvalRequests.set(requestId, updated);
+
+    // A request is decided once it is rejected, or approved and carried out
+    if (updated.checkerId && (updates.resultId || updates.status === 'rejected')) {
+      await this.createAuditLog({
+        userId: updated.checkerId,
+        entityType: 'approval_request',
+        entityId: requestId,
+        action: updated.status === 'approved' ? 'approve' : 'reject',
+        before: { status: 'pending' },
+        after: { status: updated.status, resultId: updated.resultId },
+        reason: updated.checkerComment,
+      });
+    }
+
+    return updated;
+  }
+
+  // Margin call operations
+  async getMarginCalls(organizationId: string, filters?: { bankId?: string; status?: MarginCallStatus }): Promise<MarginCall[]> {
+    return Array.from(this.marginCalls.values())
+      .filter(c => c.organizationId === organizationId
+        && (!filters?.bankId || c.bankId === filters.bankId)
+        && (!filters?.status || c.status === filters.status))
+      .sort((a, b) => b.openedDate.localeCompare(a.openedDate) || (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getMarginCall(callId: string, organizationId: string): Promise<MarginCall | undefined> {
+    const call = this.marginCalls.get(callId);
+    return call?.organizationId === organizationId ? call : undefined;
+  }
+
+  async createMarginCall(call: InsertMarginCall): Promise<MarginCall> {
+    const created: MarginCall = {
+      ...call,
+      id: this.generateId(),
+      facilityId: call.facilityId ?? null,
+      status: 'open',
+      reminderLevel: 0,
+      lastReminderDate: null,
+      resolution: null,
+      resolutionNotes: null,
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.marginCalls.set(created.id, created);
+    return created;
+  }
+
+  async updateMarginCall(callId: string, organizationId: string, updates: Partial<MarginCall>, expectedStatus?: MarginCallStatus): Promise<MarginCall | undefined> {
+    const existing = await this.getMarginCall(callId, organizationId);
+    if (!existing || (expectedStatus && existing.status !== expectedStatus)) return undefined;
+    const updated: MarginCall = { ...existing, ...updates, updatedAt: new Date() };
+    this.marginCalls.set(callId, updated);
+
+    // Calls closed by a user are audited; the daily check closes calls whose LTV is back within target
+    if (updated.resolvedBy && updates.status && updates.status !== 'open') {
+      await this.createAuditLog({
+        userId: updated.resolvedBy,
+        entityType: 'margin_call',
+        entityId: callId,
+        action: 'resolve',
+        before: { status: 'open' },
+        after: { status: updated.status, resolution: updated.resolution, currentLtv: updated.currentLtv },
+        reason: updated.resolutionNotes,
+      });
+    }
+
+    return updated;
+  }
+
+  // Language model operations
+  async getLlmSettings(organizationId: string): Promise<LlmSettings | undefined> {
+    return this.llmSettings.get(organizationId);
+  }
+
+  async setLlmSettings(organizationId: string, settings: LlmSettingsRequest, userId: string): Promise<LlmSettings> {
+    const before = this.llmSettings.get(organizationId);
+    const saved: LlmSettings = {
+      id: before?.id ?? this.generateId(),
+      organizationId,
+      provider: settings.provider,
+      model: settings.model ?? null,
+      monthlyTokenLimit: settings.monthlyTokenLimit ?? null,
+      updatedBy: userId,
+      updatedAt: new Date(),
+    };
+    this.llmSettings.set(organizationId, saved);
+
+    await this.createAuditLog({
+      userId,
+      entityType: 'llm_settings',
+      entityId: organizationId,
+      action: before ? 'update' : 'create',
+      before: before ? { provider: before.provider, model: before.model, monthlyTokenLimit: before.monthlyTokenLimit } : null,
+      after: { provider: saved.provider, model: saved.model, monthlyTokenLimit: saved.monthlyTokenLimit },
+    });
+
+    return saved;
+  }
+
+  async recordLlmUsage(usage: InsertLlmUsage): Promise<void> {
+    const id = this.generateId();
+    this.llmUsage.set(id, {
+      id,
+      organizationId: usage.organizationId ?? null,
+      userId: usage.userId ?? null,
+      feature: usage.feature,
+      provider: usage.provider,
+      model: usage.model,
+      promptTokens: usage.promptTokens ?? 0,
+      completionTokens: usage.completionTokens ?? 0,
+      totalTokens: usage.totalTokens ?? 0,
+      attempts: usage.attempts ?? 1,
+      latencyMs: usage.latencyMs ?? 0,
+      succeeded: usage.succeeded ?? true,
+      createdAt: new Date(),
+    });
+  }
+
+  async getLlmUsageSummary(organizationId: string, since: Date): Promise<LlmUsageSummary[]> {
+    const summaries = new Map<string, LlmUsageSummary>();
+    for (const usage of Array.from(this.llmUsage.values())) {
+      if (usage.organizationId !== organizationId || (usage.createdAt?.getTime() ?? 0) < since.getTime()) continue;
+      const key = `${usage.feature}|${usage.provider}|${usage.model}`;
+      const summary = summaries.get(key) ?? {
+        feature: usage.feature, provider: usage.provider, model: usage.model,
+        calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0,
+      };
+      summary.calls++;
+      if (!usage.succeeded) summary.failedCalls++;
+      summary.promptTokens += usage.promptTokens;
+      summary.completionTokens += usage.completionTokens;
+      summary.totalTokens += usage.totalTokens;
+      summaries.set(key, summary);
+    }
+    return Array.from(summaries.values()).sort((a, b) => a.feature.localeCompare(b.feature));
+  }
+
+  private async assertLoanPeriodsOpen(loan: Loan, dates: Array<string | null | undefined>): Promise<void> {
+    if (!loan.organizationId) return;
+    PeriodCloseService.assertOpen(await this.getClosedPeriods(loan.organizationId), dates);
+  }
+
+  private creditLineAvailableLimit(creditLine: CreditLine): string {
+    const lineLoans = Array.from(this.loans.values()).filter(loan => loan.creditLineId === creditLine.id);
+    const loanIds = new Set(lineLoans.map(loan => loan.id));
+    const ledger = Array.from(this.transactions.values()).filter(t => t.loanId && loanIds.has(t.loanId));
+    return CreditLineService.availableLimit(creditLine, lineLoans, ledger);
+  }
+
+  private facilityAvailableLimit(facility: Facility): string {
+    const facilityLoans = Array.from(this.loans.values()).filter(loan => loan.facilityId === facility.id);
+    const loanIds = new Set(facilityLoans.map(loan => loan.id));
+    const ledger = Array.from(this.transactions.values()).filter(t => t.loanId && loanIds.has(t.loanId));
+    return CreditLineService.availableLimit(facility, facilityLoans, ledger);
+  }
+
+  private refreshCreditLineLimit(creditLineId: string | null | undefined): void {
+    const creditLine = creditLineId ? this.creditLines.get(creditLineId) : undefined;
+    if (!creditLine) return;
+    this.creditLines.set(creditLine.id, { ...creditLine, availableLimit: this.creditLineAvailableLimit(creditLine) });
+  }
 }
 
 // Storage factory based on database availability
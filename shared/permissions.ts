@@ -0,0 +1,85 @@
+import type { AttachmentOwnerType, MemberRole, OrganizationMember } from "./schema";
+
+// Route groups that permissions are granted on
+export type PermissionArea =
+  | 'loans'
+  | 'payments'
+  | 'facilities'
+  | 'collateral'
+  | 'guarantees'
+  | 'reports'
+  | 'organization';
+
+export type PermissionAccess = 'read' | 'write';
+
+type AreaAccess = PermissionAccess | 'none';
+
+/**
+ * What each member role may do per area. Write implies read.
+ */
+export const ROLE_PERMISSIONS: Record<MemberRole, Record<PermissionArea, AreaAccess>> = {
+  owner: {
+    loans: 'write',
+    payments: 'write',
+    facilities: 'write',
+    collateral: 'write',
+    guarantees: 'write',
+    reports: 'write',
+    organization: 'write',
+  },
+  treasury_manager: {
+    loans: 'write',
+    payments: 'write',
+    facilities: 'write',
+    collateral: 'write',
+    guarantees: 'write',
+    reports: 'write',
+    organization: 'read',
+  },
+  analyst: {
+    loans: 'read',
+    payments: 'read',
+    facilities: 'read',
+    collateral: 'read',
+    guarantees: 'read',
+    reports: 'read',
+    organization: 'none',
+  },
+  auditor: {
+    loans: 'read',
+    payments: 'read',
+    facilities: 'read',
+    collateral: 'read',
+    guarantees: 'read',
+    reports: 'read',
+    organization: 'read',
+  },
+};
+
+// Attachments are read and changed with the access of the record they belong to
+export const ATTACHMENT_OWNER_AREAS: Record<AttachmentOwnerType, PermissionArea> = {
+  bank: 'facilities',
+  facility: 'facilities',
+  loan: 'loans',
+  collateral: 'collateral',
+};
+
+export const MEMBER_ROLE_LABELS: Record<MemberRole, string> = {
+  owner: 'Owner',
+  treasury_manager: 'Treasury Manager',
+  analyst: 'Analyst',
+  auditor: 'Auditor',
+};
+
+/**
+ * Effective role of a member. Owners are flagged by isOwner, whatever their role column says.
+ */
+export function memberRole(member: Pick<OrganizationMember, 'isOwner' | 'role'>): MemberRole {
+  return member.isOwner ? 'owner' : member.role;
+}
+
+export function hasPermission(role: MemberRole | undefined, area: PermissionArea, access: PermissionAccess): boolean {
+  if (!role) return false;
+  const granted = ROLE_PERMISSIONS[role][area];
+  return granted === 'write' || (granted === 'read' && access === 'read');
+}
@@ -26,7 +26,8 @@ export const transactionTypeEnum = pgEnum('transaction_type', [
   'interest',
   'limit_change',
   'void',
-  'other'
+  'other',
+  'write_off'
 ]);
 
 export const facilityTypeEnum = pgEnum('facility_type', [
@@ -96,14 +97,19 @@ export const auditActionEnum = pgEnum('audit_action', [
   'download',
   'delete',
   'update_meta',
-  'view'
+  'view',
+  'restore',
+  'legal_hold',
+  'release_hold',
+  'purge'
 ]);
 
 export const reminderTypeEnum = pgEnum('reminder_type', [
   'due_date',
   'payment',
   'review',
-  'custom'
+  'custom',
+  'rate_reset'
 ]);
 
 export const reminderStatusEnum = pgEnum('reminder_status', [
@@ -188,6 +194,13 @@ export const paymentMethodEnum = pgEnum('payment_method', [
   'other'
 ]);
 
+export const memberRoleEnum = pgEnum('member_role', [
+  'owner',
+  'treasury_manager',
+  'analyst',
+  'auditor'
+]);
+
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
 export const sessions = pgTable(
@@ -231,6 +244,7 @@ export const organizationMembers = pgTable("organization_members", {
   userId: varchar("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
   organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
   isOwner: boolean("is_owner").default(false),
+  role: memberRoleEnum("role").notNull().default('treasury_manager'),
   joinedAt: timestamp("joined_at").defaultNow(),
 }, (table) => [
   index("idx_org_members_user").on(table.userId),
@@ -278,12 +292,16 @@ export const banks = pgTable("banks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }),
   name: varchar("name", { length: 100 }).notNull(),
-  code: varchar("code", { length: 10 }).notNull().unique(), // Keep global unique during migration
+  code: varchar("code", { length: 10 }).notNull(), // Unique per organization; seeded global banks have no organization
   targetLtv: decimal("target_ltv", { precision: 5, scale: 2 }).default('70.00'),
+  statementCsvLayout: jsonb("statement_csv_layout"), // Column layout of the bank's CSV statements, null = detect from headers
   isActive: boolean("is_active").default(true),
+  archivedAt: timestamp("archived_at"),
+  mergedIntoId: varchar("merged_into_id"), // Bank this duplicate was merged into before it was archived
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_banks_org").on(table.organizationId),
+  unique("unique_bank_org_code").on(table.organizationId, table.code),
 ]);
 
 // Bank Contacts (Account Managers)
@@ -327,6 +345,7 @@ export const facilities = pgTable("facilities", {
   enableRevolvingTracking: boolean("enable_revolving_tracking").default(false),
   maxRevolvingPeriod: integer("max_revolving_period"), // Maximum days (e.g., 360)
   initialDrawdownDate: date("initial_drawdown_date"), // Set on first loan drawdown
+  paymentWaterfall: jsonb("payment_waterfall"), // Allocation order for repayments, null = default (fees, overdue interest, current interest, principal)
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_facilities_org").on(table.organizationId),
@@ -368,11 +387,16 @@ export const collateral = pgTable("collateral", {
   currentValue: decimal("current_value", { precision: 15, scale: 2 }).notNull(),
   valuationDate: date("valuation_date").notNull(),
   valuationSource: varchar("valuation_source", { length: 100 }),
+  // Listed shares are marked to market from imported closing prices: value = shareCount x close
+  ticker: varchar("ticker", { length: 20 }),
+  shareCount: integer("share_count"),
+  haircutPercent: decimal("haircut_percent", { precision: 5, scale: 2 }), // Deducted from the value to give the pledged value
   notes: text("notes"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_collateral_org").on(table.organizationId),
+  index("idx_collateral_ticker").on(table.ticker),
   index("idx_collateral_user").on(table.userId),
 ]);
 
@@ -420,7 +444,7 @@ export const loans = pgTable("loans", {
   margin: decimal("margin", { precision: 5, scale: 2 }).notNull(), // Margin over SIBOR
   bankRate: decimal("bank_rate", { precision: 5, scale: 2 }).notNull(),
   lastAccrualDate: date("last_accrual_date"), // Track last interest accrual
-  interestBasis: varchar("interest_basis", { length: 20 }).default('actual_360'), // Actual/360 or Actual/365
+  interestBasis: varchar("interest_basis", { length: 20 }).default('actual_360'), // actual_360, actual_365 or 30_360
   notes: text("notes"),
   status: loanStatusEnum("status").default('active'),
   settledDate: date("settled_date"),
@@ -553,9 +577,12 @@ export const loanPayments = pgTable("loan_payments", {
   amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
   principalAmount: decimal("principal_amount", { precision: 15, scale: 2 }),
   interestAmount: decimal("interest_amount", { precision: 15, scale: 2 }),
+  feesAmount: decimal("fees_amount", { precision: 15, scale: 2 }),
+  transactionId: varchar("transaction_id").references(() => transactions.id), // Ledger repayment posted for this payment
   paymentMethod: paymentMethodEnum("payment_method").notNull(),
   referenceNumber: varchar("reference_number", { length: 100 }),
   notes: text("notes"),
+  installmentAllocations: jsonb("installment_allocations"), // [{ installmentId, installmentNumber, principal, interest }]
   createdBy: varchar("created_by").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
@@ -565,6 +592,28 @@ export const loanPayments = pgTable("loan_payments", {
   index("idx_loan_payments_created_by").on(table.createdBy),
 ]);
 
+// Loan Installments - amortizing repayment schedule for term loans (loans without rows are bullet loans)
+export const loanInstallments = pgTable("loan_installments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  loanId: varchar("loan_id").references(() => loans.id, { onDelete: 'cascade' }).notNull(),
+  installmentNumber: integer("installment_number").notNull(),
+  dueDate: date("due_date").notNull(),
+  principalAmount: decimal("principal_amount", { precision: 15, scale: 2 }).notNull(),
+  interestAmount: decimal("interest_amount", { precision: 15, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 15, scale: 2 }).notNull(),
+  paidPrincipal: decimal("paid_principal", { precision: 15, scale: 2 }).notNull().default('0'),
+  paidInterest: decimal("paid_interest", { precision: 15, scale: 2 }).notNull().default('0'),
+  status: varchar("status", { length: 20 }).notNull().default('pending'), // pending, partial, paid
+  paidDate: date("paid_date"), // Date the installment was fully paid
+  method: varchar("method", { length: 20 }).notNull(), // equal_principal, annuity, custom
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("unique_loan_installment_number").on(table.loanId, table.installmentNumber),
+  index("idx_loan_installments_loan").on(table.loanId),
+  index("idx_loan_installments_due_date").on(table.dueDate),
+]);
+
 // Portfolio Snapshots - Point-in-time portfolio state for historical analysis
 export const portfolioSnapshots = pgTable("portfolio_snapshots", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -576,6 +625,7 @@ export const portfolioSnapshots = pgTable("portfolio_snapshots", {
   activeLoansCount: integer("active_loans_count").notNull(),
   bankExposuresJson: jsonb("bank_exposures_json"), // Store bank-wise exposures
   metricsJson: jsonb("metrics_json"), // Store additional calculated metrics
+  isOfficial: boolean("is_official").default(false), // Month-end figure frozen by a period close
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_portfolio_snapshots_org").on(table.organizationId),
@@ -599,15 +649,37 @@ export const attachments = pgTable("attachments", {
   description: text("description"),
   checksum: varchar("checksum", { length: 64 }),
   uploadedBy: varchar("uploaded_by").references(() => users.id).notNull(),
+  // Version chain: every version shares the id of the first one; null on a first version
+  versionGroupId: varchar("version_group_id"),
+  version: integer("version").notNull().default(1),
+  supersededAt: timestamp("superseded_at"), // Set when a newer version is uploaded
+  // Legal hold applies to the whole version chain and blocks deletion and purging
+  legalHold: boolean("legal_hold").notNull().default(false),
+  legalHoldReason: text("legal_hold_reason"),
+  legalHoldBy: varchar("legal_hold_by").references(() => users.id),
+  legalHoldAt: timestamp("legal_hold_at"),
   deletedAt: timestamp("deleted_at"),
+  purgedAt: timestamp("purged_at"), // Bytes removed by the retention purge; the row stays for the audit trail
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_attachments_owner").on(table.ownerType, table.ownerId),
   index("idx_attachments_bank").on(table.bankId),
   index("idx_attachments_user").on(table.userId),
   index("idx_attachments_category").on(table.category),
+  index("idx_attachments_version_group").on(table.versionGroupId),
 ]);
 
+// How long attachments of a category are kept once deleted or superseded. Categories without a
+// row use AttachmentRetentionService's defaults.
+export const attachmentRetentionPolicies = pgTable("attachment_retention_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  category: attachmentCategoryEnum("category").notNull().unique(),
+  retentionYears: integer("retention_years").notNull(),
+  trigger: varchar("trigger", { length: 20 }).notNull(), // upload, owner_end (facility expiry / loan settlement)
+  updatedBy: varchar("updated_by", { length: 100 }), // Admin username
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Attachment Audit Trail for Saudi Banking Compliance
 export const attachmentAudit = pgTable("attachment_audit", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -796,6 +868,9 @@ export const guarantees = pgTable("guarantees", {
   lastRenewalDate: date("last_renewal_date"),
   calledDate: date("called_date"),
   calledAmount: decimal("called_amount", { precision: 15, scale: 2 }),
+  commissionBasis: varchar("commission_basis", { length: 20 }).default('quarterly_advance'), // quarterly_advance, pro_rata
+  commissionAccruedThrough: date("commission_accrued_through"), // Commission is charged up to (not including) this date
+  expiryReminderSentAt: timestamp("expiry_reminder_sent_at"), // Cleared when the expiry date moves
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -808,6 +883,343 @@ export const guarantees = pgTable("guarantees", {
   index("idx_guarantees_reference").on(table.referenceNumber),
 ]);
 
+// Reference rate fixings (SIBOR / SAIBOR) by tenor and fixing date
+export const referenceRates = pgTable("reference_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenor: varchar("tenor", { length: 10 }).notNull(), // 1M, 3M, 6M, 12M
+  fixingDate: date("fixing_date").notNull(),
+  rate: decimal("rate", { precision: 7, scale: 4 }).notNull(), // Annual rate in percent
+  source: varchar("source", { length: 20 }).notNull(), // csv_upload, manual, file_drop
+  createdBy: varchar("created_by"), // Admin username or system
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("unique_reference_rate_fixing").on(table.tenor, table.fixingDate),
+  index("idx_reference_rates_fixing_date").on(table.fixingDate),
+]);
+
+// Closing prices of listed shares (Tadawul) by ticker and price date
+export const sharePrices = pgTable("share_prices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticker: varchar("ticker", { length: 20 }).notNull(), // Tadawul symbol, e.g. 2222
+  priceDate: date("price_date").notNull(),
+  closePrice: decimal("close_price", { precision: 15, scale: 4 }).notNull(), // SAR per share
+  source: varchar("source", { length: 20 }).notNull(), // csv_upload, json_upload, file_drop
+  createdBy: varchar("created_by"), // Admin username or system
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("unique_share_price").on(table.ticker, table.priceDate),
+  index("idx_share_prices_price_date").on(table.priceDate),
+]);
+
+// Interest rate periods for floating loans - one row per SIBOR reset
+export const loanRatePeriods = pgTable("loan_rate_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  loanId: varchar("loan_id").references(() => loans.id, { onDelete: "cascade" }).notNull(),
+  periodStart: date("period_start").notNull(), // Reset date - rate applies from this date
+  periodEnd: date("period_end").notNull(), // Next reset date or the loan due date (exclusive)
+  tenor: varchar("tenor", { length: 10 }), // 1M, 3M, 6M, 12M
+  fixingDate: date("fixing_date"), // Reference rate fixing used, null when carried forward
+  siborRate: decimal("sibor_rate", { precision: 5, scale: 2 }).notNull(),
+  margin: decimal("margin", { precision: 5, scale: 2 }).notNull(),
+  bankRate: decimal("bank_rate", { precision: 5, scale: 2 }).notNull(),
+  source: varchar("source", { length: 20 }).notNull(), // initial, reset, carried_forward
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("unique_loan_rate_period_start").on(table.loanId, table.periodStart),
+  index("idx_loan_rate_periods_loan").on(table.loanId),
+]);
+
+// Imported bank statements (MT940 or CSV) - one row per uploaded file
+export const bankStatements = pgTable("bank_statements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
+  bankId: varchar("bank_id").references(() => banks.id).notNull(),
+  format: varchar("format", { length: 10 }).notNull(), // mt940, csv
+  fileName: varchar("file_name", { length: 255 }),
+  accountNumber: varchar("account_number", { length: 50 }),
+  statementReference: varchar("statement_reference", { length: 50 }), // MT940 :20: / :28C:
+  periodStart: date("period_start"),
+  periodEnd: date("period_end"),
+  openingBalance: decimal("opening_balance", { precision: 15, scale: 2 }),
+  closingBalance: decimal("closing_balance", { precision: 15, scale: 2 }),
+  currency: varchar("currency", { length: 3 }).default('SAR'),
+  contentHash: varchar("content_hash", { length: 64 }).notNull(), // SHA-256 of the file, rejects re-imports
+  importedBy: varchar("imported_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("unique_bank_statement_content").on(table.bankId, table.contentHash),
+  index("idx_bank_statements_org_bank").on(table.organizationId, table.bankId),
+]);
+
+// Statement lines and how each was reconciled against the transactions ledger
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  statementId: varchar("statement_id").references(() => bankStatements.id, { onDelete: 'cascade' }).notNull(),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
+  bankId: varchar("bank_id").references(() => banks.id).notNull(),
+  lineNumber: integer("line_number").notNull(),
+  valueDate: date("value_date").notNull(),
+  entryDate: date("entry_date"),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(), // Always positive, see direction
+  direction: varchar("direction", { length: 10 }).notNull(), // debit (money out), credit (money in)
+  reference: varchar("reference", { length: 100 }), // Customer reference
+  bankReference: varchar("bank_reference", { length: 100 }),
+  description: text("description"),
+  status: varchar("status", { length: 20 }).notNull().default('unmatched'), // unmatched, matched, ignored
+  transactionId: varchar("transaction_id").references(() => transactions.id, { onDelete: 'set null' }),
+  matchMethod: varchar("match_method", { length: 20 }), // auto, manual, created
+  ignoreReason: text("ignore_reason"),
+  reconciledBy: varchar("reconciled_by").references(() => users.id),
+  reconciledAt: timestamp("reconciled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("unique_statement_line_number").on(table.statementId, table.lineNumber),
+  unique("unique_statement_line_transaction").on(table.transactionId),
+  index("idx_statement_lines_bank_status").on(table.bankId, table.status),
+]);
+
+// Accounting months closed by finance. Loan edits, payments, settlements, settlement reversals, revolves,
+// interest and commission accruals and other ledger entries dated in a closed month are rejected until
+// an owner reopens it.
+export const accountingPeriods = pgTable("accounting_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
+  period: varchar("period", { length: 7 }).notNull(), // YYYY-MM
+  status: varchar("status", { length: 10 }).notNull().default('closed'), // closed, open (reopened)
+  snapshotId: varchar("snapshot_id").references(() => portfolioSnapshots.id, { onDelete: 'set null' }), // Official month-end snapshot
+  closedBy: varchar("closed_by").references(() => users.id).notNull(),
+  closedAt: timestamp("closed_at").notNull(),
+  reopenedBy: varchar("reopened_by").references(() => users.id),
+  reopenedAt: timestamp("reopened_at"),
+  reopenReason: text("reopen_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("unique_accounting_period").on(table.organizationId, table.period),
+]);
+
+// Chart-of-accounts mapping for journal export. bankId / facilityType left null apply to any bank / facility type;
+// the most specific row wins (bank + facility type, then bank, then facility type, then the organization default).
+export const glAccountMappings = pgTable("gl_account_mappings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
+  bankId: varchar("bank_id").references(() => banks.id),
+  facilityType: facilityTypeEnum("facility_type"),
+  entryType: varchar("entry_type", { length: 30 }).notNull(), // draw, interest_accrual, fee, repayment_principal, repayment_interest, repayment_fees, write_off
+  debitAccount: varchar("debit_account", { length: 50 }).notNull(),
+  creditAccount: varchar("credit_account", { length: 50 }).notNull(),
+  description: varchar("description", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_gl_account_mappings_org").on(table.organizationId, table.entryType),
+]);
+
+// Journal exports marked as posted to the ERP
+export const glExports = pgTable("gl_exports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  format: varchar("format", { length: 10 }).notNull(), // csv, json
+  journalCount: integer("journal_count").notNull(),
+  totalDebit: decimal("total_debit", { precision: 15, scale: 2 }).notNull(),
+  exportedBy: varchar("exported_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_gl_exports_org_period").on(table.organizationId, table.periodStart),
+]);
+
+// Transactions included in a marked export - a transaction is posted at most once
+export const glExportEntries = pgTable("gl_export_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  exportId: varchar("export_id").references(() => glExports.id, { onDelete: 'cascade' }).notNull(),
+  transactionId: varchar("transaction_id").references(() => transactions.id, { onDelete: 'cascade' }).notNull(),
+}, (table) => [
+  unique("unique_gl_export_transaction").on(table.transactionId),
+  index("idx_gl_export_entries_export").on(table.exportId),
+]);
+
+// Amount from which an action needs a second member's approval. No row means the action is never held.
+export const approvalThresholds = pgTable("approval_thresholds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
+  action: varchar("action", { length: 30 }).notNull(), // loan_drawdown, loan_settlement, settlement_reversal, payment
+  minAmount: decimal("min_amount", { precision: 15, scale: 2 }).notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("unique_approval_threshold").on(table.organizationId, table.action),
+]);
+
+// Maker-checker requests. The validated request body is kept in payload and replayed once a checker approves.
+export const approvalRequests = pgTable("approval_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
+  action: varchar("action", { length: 30 }).notNull(), // loan_drawdown, loan_settlement, settlement_reversal, payment, revolve
+  status: varchar("status", { length: 10 }).notNull().default('pending'), // pending, approved, rejected
+  loanId: varchar("loan_id").references(() => loans.id, { onDelete: 'cascade' }), // Null for drawdowns until approved
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  payload: jsonb("payload").notNull(),
+  summary: varchar("summary", { length: 255 }).notNull(),
+  makerId: varchar("maker_id").references(() => users.id).notNull(),
+  makerComment: text("maker_comment"),
+  checkerId: varchar("checker_id").references(() => users.id),
+  checkerComment: text("checker_comment"),
+  resultId: varchar("result_id"), // Loan or payment created on approval (the new cycle for a revolve)
+  createdAt: timestamp("created_at").defaultNow(),
+  decidedAt: timestamp("decided_at"),
+}, (table) => [
+  index("idx_approval_requests_org_status").on(table.organizationId, table.status),
+]);
+
+// One row per guarantee lifecycle action, holding the guarantee's terms after the action
+export const guaranteeVersions = pgTable("guarantee_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  guaranteeId: varchar("guarantee_id").references(() => guarantees.id, { onDelete: 'cascade' }).notNull(),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }),
+  version: integer("version").notNull(),
+  action: varchar("action", { length: 20 }).notNull(), // renew, amend, call, release, expire
+  effectiveDate: date("effective_date").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }), // Amount called or released by the action
+  guaranteeAmount: decimal("guarantee_amount", { precision: 15, scale: 2 }).notNull(),
+  calledAmount: decimal("called_amount", { precision: 15, scale: 2 }).notNull().default('0.00'),
+  expiryDate: date("expiry_date").notNull(),
+  status: guaranteeStatusEnum("status").notNull(),
+  changes: jsonb("changes"), // {"expiryDate": {"from": "2025-06-30", "to": "2026-06-30"}}
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("unique_guarantee_version").on(table.guaranteeId, table.version),
+  index("idx_guarantee_versions_guarantee").on(table.guaranteeId),
+]);
+
+// Commission charged on a guarantee per period, booked as a fee transaction against its facility
+export const guaranteeCommissions = pgTable("guarantee_commissions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  guaranteeId: varchar("guarantee_id").references(() => guarantees.id, { onDelete: 'cascade' }).notNull(),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }),
+  periodStart: date("period_start").notNull(), // Inclusive
+  periodEnd: date("period_end").notNull(), // Exclusive
+  dueDate: date("due_date").notNull(), // Period start when charged in advance, period end when pro-rata
+  baseAmount: decimal("base_amount", { precision: 15, scale: 2 }).notNull(), // Guarantee amount still in force
+  feeRate: decimal("fee_rate", { precision: 5, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  status: varchar("status", { length: 10 }).notNull().default('unpaid'), // unpaid, paid
+  paidDate: date("paid_date"),
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("unique_guarantee_commission_period").on(table.guaranteeId, table.periodStart),
+  index("idx_guarantee_commissions_org_status").on(table.organizationId, table.status),
+]);
+
+// Credit conversion factor per guarantee type, overriding the default used to weigh unfunded exposure
+export const creditConversionFactors = pgTable("credit_conversion_factors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
+  guaranteeType: guaranteeTypeEnum("guarantee_type").notNull(),
+  factor: decimal("factor", { precision: 5, scale: 2 }).notNull(), // Percent of the guarantee amount counted as exposure
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("unique_credit_conversion_factor").on(table.organizationId, table.guaranteeType),
+]);
+
+// Every valuation of a collateral item; collateral.currentValue mirrors the one with the latest effective date
+export const collateralValuations = pgTable("collateral_valuations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  collateralId: varchar("collateral_id").references(() => collateral.id, { onDelete: 'cascade' }).notNull(),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }),
+  value: decimal("value", { precision: 15, scale: 2 }).notNull(),
+  effectiveDate: date("effective_date").notNull(),
+  source: varchar("source", { length: 100 }), // e.g. independent valuer, bank valuation, market price
+  valuerName: varchar("valuer_name", { length: 200 }),
+  reportAttachmentId: varchar("report_attachment_id").references(() => attachments.id),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_collateral_valuations_collateral_date").on(table.collateralId, table.effectiveDate),
+  index("idx_collateral_valuations_org").on(table.organizationId),
+]);
+
+// Margin calls opened when the LTV of a bank or facility on pledged collateral breaches its target
+export const marginCalls = pgTable("margin_calls", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
+  bankId: varchar("bank_id").references(() => banks.id, { onDelete: 'cascade' }).notNull(),
+  facilityId: varchar("facility_id").references(() => facilities.id, { onDelete: 'cascade' }), // Null for bank-level calls
+  status: varchar("status", { length: 10 }).notNull().default('open'), // open, cured, waived
+  openedDate: date("opened_date").notNull(),
+  cureDeadline: date("cure_deadline").notNull(),
+  targetLtv: decimal("target_ltv", { precision: 5, scale: 2 }).notNull(),
+  openingLtv: decimal("opening_ltv", { precision: 9, scale: 2 }).notNull(),
+  shortfallAmount: decimal("shortfall_amount", { precision: 15, scale: 2 }).notNull(), // Collateral top-up needed when opened
+  // Figures as of the last check, refreshed daily while the call is open
+  currentLtv: decimal("current_ltv", { precision: 9, scale: 2 }).notNull(),
+  outstanding: decimal("outstanding", { precision: 15, scale: 2 }).notNull(),
+  pledgedValue: decimal("pledged_value", { precision: 15, scale: 2 }).notNull(),
+  currentShortfall: decimal("current_shortfall", { precision: 15, scale: 2 }).notNull(),
+  lastCheckedDate: date("last_checked_date").notNull(),
+  reminderLevel: integer("reminder_level").notNull().default(0), // 0 none, 1 notice, 2 reminder, 3 final notice, 4 overdue escalation
+  lastReminderDate: date("last_reminder_date"),
+  resolution: varchar("resolution", { length: 20 }), // top_up, paydown, reassignment, ltv_restored, waived
+  resolutionNotes: text("resolution_notes"),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_margin_calls_org_status").on(table.organizationId, table.status),
+  index("idx_margin_calls_bank").on(table.bankId),
+]);
+
+// How often each collateral type must be revalued, overriding the default frequency
+export const collateralRevaluationFrequencies = pgTable("collateral_revaluation_frequencies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull(),
+  collateralType: collateralTypeEnum("collateral_type").notNull(),
+  frequencyMonths: integer("frequency_months").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("unique_collateral_revaluation_frequency").on(table.organizationId, table.collateralType),
+]);
+
+// Language model used for the organization's AI features; without a row the server default applies
+export const llmSettings = pgTable("llm_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }).notNull().unique(),
+  provider: varchar("provider", { length: 20 }).notNull(), // openai, deepseek, mock
+  model: varchar("model", { length: 100 }), // Null = the provider's default model
+  monthlyTokenLimit: integer("monthly_token_limit"), // Null = unlimited
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Tokens used by every language model call, for accounting per organization
+export const llmUsage = pgTable("llm_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }), // Null for calls outside an organization
+  userId: varchar("user_id").references(() => users.id),
+  feature: varchar("feature", { length: 40 }).notNull(), // agent, portfolio_chat, insights, help_desk, agreement_extraction
+  provider: varchar("provider", { length: 20 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  attempts: integer("attempts").notNull().default(1),
+  latencyMs: integer("latency_ms").notNull().default(0),
+  succeeded: boolean("succeeded").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_llm_usage_org_created").on(table.organizationId, table.createdAt),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many, one }) => ({
   facilities: many(facilities),
@@ -996,6 +1408,61 @@ export const loanPaymentsRelations = relations(loanPayments, ({ one }) => ({
   }),
 }));
 
+export const loanInstallmentsRelations = relations(loanInstallments, ({ one }) => ({
+  loan: one(loans, {
+    fields: [loanInstallments.loanId],
+    references: [loans.id],
+  }),
+}));
+
+export const bankStatementsRelations = relations(bankStatements, ({ one, many }) => ({
+  bank: one(banks, {
+    fields: [bankStatements.bankId],
+    references: [banks.id],
+  }),
+  lines: many(bankStatementLines),
+}));
+
+export const bankStatementLinesRelations = relations(bankStatementLines, ({ one }) => ({
+  statement: one(bankStatements, {
+    fields: [bankStatementLines.statementId],
+    references: [bankStatements.id],
+  }),
+  transaction: one(transactions, {
+    fields: [bankStatementLines.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
+export const accountingPeriodsRelations = relations(accountingPeriods, ({ one }) => ({
+  snapshot: one(portfolioSnapshots, {
+    fields: [accountingPeriods.snapshotId],
+    references: [portfolioSnapshots.id],
+  }),
+}));
+
+export const glAccountMappingsRelations = relations(glAccountMappings, ({ one }) => ({
+  bank: one(banks, {
+    fields: [glAccountMappings.bankId],
+    references: [banks.id],
+  }),
+}));
+
+export const glExportsRelations = relations(glExports, ({ many }) => ({
+  entries: many(glExportEntries),
+}));
+
+export const glExportEntriesRelations = relations(glExportEntries, ({ one }) => ({
+  export: one(glExports, {
+    fields: [glExportEntries.exportId],
+    references: [glExports.id],
+  }),
+  transaction: one(transactions, {
+    fields: [glExportEntries.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
 // Portfolio Snapshot Relations
 export const portfolioSnapshotsRelations = relations(portfolioSnapshots, ({ one }) => ({
   organization: one(organizations, {
@@ -1066,7 +1533,9 @@ export const loanTypeZodEnum = z.enum(['working_capital', 'term_loan', 'trade_fi
 export const repaymentStructureZodEnum = z.enum(['bullet', 'installments', 'revolving', 'quarterly', 'semi_annual', 'annual', 'on_demand']);
 export const collateralTypeZodEnum = z.enum(['real_estate', 'liquid_stocks', 'other']);
 export const loanStatusZodEnum = z.enum(['active', 'settled', 'overdue']);
+export const interestBasisZodEnum = z.enum(['actual_360', 'actual_365', '30_360']);
 export const messageRoleZodEnum = z.enum(['user', 'assistant', 'system']);
+export const memberRoleZodEnum = z.enum(['owner', 'treasury_manager', 'analyst', 'auditor']);
 export const attachmentOwnerTypeZodEnum = z.enum(['bank', 'facility', 'loan', 'collateral']);
 export const attachmentCategoryZodEnum = z.enum([
   'facility_agreement',
@@ -1080,9 +1549,33 @@ export const attachmentCategoryZodEnum = z.enum([
   'compliance_document',
   'other'
 ]);
-export const auditActionZodEnum = z.enum(['upload', 'download', 'delete', 'update_meta', 'view']);
-export const reminderTypeZodEnum = z.enum(['due_date', 'payment', 'review', 'custom']);
+export const auditActionZodEnum = z.enum(['upload', 'download', 'delete', 'update_meta', 'view', 'restore', 'legal_hold', 'release_hold', 'purge']);
+export const attachmentRetentionTriggerZodEnum = z.enum(['upload', 'owner_end']);
+export const reminderTypeZodEnum = z.enum(['due_date', 'payment', 'review', 'custom', 'rate_reset']);
 export const reminderStatusZodEnum = z.enum(['pending', 'sent', 'failed']);
+export const referenceRateTenorZodEnum = z.enum(['1M', '3M', '6M', '12M']);
+export const referenceRateSourceZodEnum = z.enum(['csv_upload', 'manual', 'file_drop']);
+export const sharePriceSourceZodEnum = z.enum(['csv_upload', 'json_upload', 'file_drop']);
+export const loanRatePeriodSourceZodEnum = z.enum(['initial', 'reset', 'carried_forward']);
+export const installmentMethodZodEnum = z.enum(['equal_principal', 'annuity', 'custom']);
+export const installmentStatusZodEnum = z.enum(['pending', 'partial', 'paid']);
+export const paymentMethodZodEnum = z.enum(['bank_transfer', 'wire_transfer', 'check', 'cash', 'direct_debit', 'other']);
+export const waterfallBucketZodEnum = z.enum(['fees', 'overdue_interest', 'current_interest', 'principal']);
+export const statementFormatZodEnum = z.enum(['mt940', 'csv']);
+export const statementLineDirectionZodEnum = z.enum(['debit', 'credit']);
+export const statementLineStatusZodEnum = z.enum(['unmatched', 'matched', 'ignored']);
+export const statementMatchMethodZodEnum = z.enum(['auto', 'manual', 'created']);
+export const glEntryTypeZodEnum = z.enum(['draw', 'interest_accrual', 'fee', 'repayment_principal', 'repayment_interest', 'repayment_fees', 'write_off']);
+export const glExportFormatZodEnum = z.enum(['csv', 'json']);
+export const accountingPeriodStatusZodEnum = z.enum(['open', 'closed']);
+// A revolve has no threshold of its own: it pays off one cycle and draws the next, so it is held by the
+// settlement or the drawdown threshold
+export const approvalActionZodEnum = z.enum(['loan_drawdown', 'loan_settlement', 'settlement_reversal', 'payment', 'revolve']);
+export const approvalStatusZodEnum = z.enum(['pending', 'approved', 'rejected']);
+export const marginCallStatusZodEnum = z.enum(['open', 'cured', 'waived']);
+export const marginCallResolutionZodEnum = z.enum(['top_up', 'paydown', 'reassignment', 'ltv_restored', 'waived']);
+export const guaranteeActionZodEnum = z.enum(['renew', 'amend', 'call', 'release', 'expire']);
+export const guaranteeCommissionBasisZodEnum = z.enum(['quarterly_advance', 'pro_rata']);
 
 // Helper function to validate decimal strings
 const decimalString = (precision: number, scale: number) => 
@@ -1137,6 +1630,11 @@ export const insertFacilitySchema = createInsertSchema(facilities)
     expiryDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date").optional().nullable(),
     enableRevolvingTracking: z.boolean().optional(),
     maxRevolvingPeriod: z.number().int().positive("Maximum period must be positive").optional().nullable(),
+    paymentWaterfall: z.array(waterfallBucketZodEnum)
+      .refine((order) => order.length === waterfallBucketZodEnum.options.length && new Set(order).size === order.length,
+        "Waterfall must list each of fees, overdue_interest, current_interest and principal once")
+      .optional()
+      .nullable(),
   });
 
 export const insertCreditLineSchema = createInsertSchema(creditLines)
@@ -1175,6 +1673,13 @@ export const insertCollateralSchema = createInsertSchema(collateral)
     type: collateralTypeZodEnum,
     currentValue: positiveDecimalString(15, 2),
     valuationDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date"),
+    ticker: z.string().trim().toUpperCase().regex(/^[A-Z0-9.]{1,20}$/, "Must be a Tadawul symbol, e.g. 2222").nullable().optional(),
+    shareCount: z.number().int().positive("Share count must be positive").nullable().optional(),
+    haircutPercent: z.string()
+      .refine((val) => !isNaN(Number(val)), "Must be a valid number")
+      .refine((val) => Number(val) >= 0 && Number(val) < 100, "Must be at least 0% and below 100%")
+      .nullable()
+      .optional(),
   });
 
 export const insertLoanSchema = createInsertSchema(loans)
@@ -1202,6 +1707,7 @@ export const insertLoanSchema = createInsertSchema(loans)
     startDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date"),
     dueDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date"),
     siborTermMonths: z.number().int().positive().optional(),
+    interestBasis: interestBasisZodEnum.optional(),
     lastAccrualDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date").optional(),
   });
 
@@ -1321,7 +1827,19 @@ export const insertPortfolioSnapshotSchema = createInsertSchema(portfolioSnapsho
 
 // Attachment Insert Schemas
 export const insertAttachmentSchema = createInsertSchema(attachments)
-  .omit({ id: true, createdAt: true, deletedAt: true })
+  .omit({
+    id: true,
+    createdAt: true,
+    deletedAt: true,
+    versionGroupId: true,
+    version: true,
+    supersededAt: true,
+    legalHold: true,
+    legalHoldReason: true,
+    legalHoldBy: true,
+    legalHoldAt: true,
+    purgedAt: true,
+  })
   .extend({
     fileName: z.string().min(1, "File name is required").max(255),
     contentType: z.string().min(1, "Content type is required"),
@@ -1360,20 +1878,71 @@ export const updateAttachmentMetaSchema = z.object({
   description: z.string().max(1000).optional(),
 });
 
+// Uploading a new version of an existing attachment keeps the earlier ones in its version chain
+export const attachmentVersionRequestSchema = z.object({
+  replacesAttachmentId: z.string().min(1).optional(),
+});
+
+export const attachmentLegalHoldRequestSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(1000),
+});
+
+const attachmentRetentionPolicySchema = z.object({
+  retentionYears: z.number().int().min(1, "Must be at least 1 year").max(50, "Must be at most 50 years"),
+  trigger: attachmentRetentionTriggerZodEnum,
+});
+
+// Retention per category; null falls back to the default policy
+export const attachmentRetentionPoliciesRequestSchema = z.record(
+  z.enum(attachmentCategoryEnum.enumValues),
+  attachmentRetentionPolicySchema.nullable()
+);
+
+// Facility and credit lines confirmed by the user from a draft extracted from a facility agreement
+export const facilityAgreementImportSchema = z.object({
+  bankId: z.string().min(1, "Bank is required"),
+  facility: insertFacilitySchema.pick({
+    facilityType: true,
+    creditLimit: true,
+    costOfFunding: true,
+    startDate: true,
+    expiryDate: true,
+  }),
+  creditLines: z.array(insertCreditLineSchema.pick({
+    creditLineType: true,
+    name: true,
+    creditLimit: true,
+    interestRate: true,
+    description: true,
+  })).default([]),
+  // Kept in the facility terms
+  covenants: z.array(z.string().trim().min(1)).default([]),
+  fees: z.array(z.string().trim().min(1)).default([]),
+});
+
 // Payment request schemas
+// The split between fees, interest and principal is always worked out on the server (see PaymentWaterfallService)
 export const paymentRequestSchema = z.object({
   amount: positiveDecimalString(15, 2),
   date: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date"),
   reference: z.string().optional(),
   memo: z.string().optional(),
-  allocation: z.object({
-    interest: z.number().min(0),
-    principal: z.number().min(0),
-    fees: z.number().min(0)
-  }).optional(),
+  paymentMethod: paymentMethodZodEnum.optional(),
+  prepayment: z.boolean().optional(), // Allow paying principal that is not yet due
   idempotencyKey: z.string().optional(),
 });
 
+// Payment recorded from the payments screens - mapped onto processPayment
+export const loanPaymentRequestSchema = z.object({
+  loanId: z.string().min(1, "Loan is required"),
+  paymentDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date"),
+  amount: positiveDecimalString(15, 2),
+  paymentMethod: paymentMethodZodEnum,
+  referenceNumber: z.string().max(100).optional(),
+  notes: z.string().optional(),
+  prepayment: z.boolean().optional(),
+});
+
 export const settlementRequestSchema = z.object({
   date: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date"),
   amount: positiveDecimalString(15, 2).optional(), // If not provided, settle full outstanding
@@ -1381,13 +1950,20 @@ export const settlementRequestSchema = z.object({
 });
 
 export const revolveRequestSchema = z.object({
-  newTerm: z.number().int().positive("Term must be positive"),
-  siborTermMonths: z.number().int().positive("SIBOR term must be positive"),
+  newTerm: z.number().int().positive("Term must be positive").optional(),
+  startDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date").optional(), // Rollover date, defaults to today
+  dueDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date"),
+  siborRate: z.string()
+    .refine((val) => !isNaN(Number(val)), "Must be a valid number")
+    .refine((val) => Number(val) >= 0, "Must be non-negative")
+    .optional(), // New SIBOR fix, defaults to the latest fixing of the term on the revolve date
+  siborTermMonths: z.number().int().positive("SIBOR term must be positive").optional(),
   margin: z.string()
     .refine((val) => !isNaN(Number(val)), "Must be a valid number")
     .refine((val) => Number(val) >= 0, "Must be non-negative")
-    .refine((val) => Number(val) <= 20, "Must be 20% or less"),
-  dueDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date"),
+    .refine((val) => Number(val) <= 20, "Must be 20% or less")
+    .optional(), // Defaults to the parent loan's margin
+  amount: positiveDecimalString(15, 2).optional(), // Principal rolled into the new cycle, defaults to outstanding principal
   memo: z.string().optional(),
 });
 
@@ -1421,6 +1997,8 @@ export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type PaymentRequest = z.infer<typeof paymentRequestSchema>;
+export type LoanPaymentRequest = z.infer<typeof loanPaymentRequestSchema>;
+export type WaterfallBucket = z.infer<typeof waterfallBucketZodEnum>;
 export type SettlementRequest = z.infer<typeof settlementRequestSchema>;
 export type RevolveRequest = z.infer<typeof revolveRequestSchema>;
 
@@ -1428,10 +2006,12 @@ export type RevolveRequest = z.infer<typeof revolveRequestSchema>;
 export type TransactionType = z.infer<typeof transactionTypeZodEnum>;
 export type FacilityType = z.infer<typeof facilityTypeZodEnum>;
 export type CreditLineType = z.infer<typeof creditLineTypeZodEnum>;
+export type FacilityAgreementImportRequest = z.infer<typeof facilityAgreementImportSchema>;
 export type LoanType = z.infer<typeof loanTypeZodEnum>;
 export type RepaymentStructure = z.infer<typeof repaymentStructureZodEnum>;
 export type CollateralType = z.infer<typeof collateralTypeZodEnum>;
 export type LoanStatus = z.infer<typeof loanStatusZodEnum>;
+export type InterestBasis = z.infer<typeof interestBasisZodEnum>;
 export type Attachment = typeof attachments.$inferSelect;
 export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
 export type AttachmentAudit = typeof attachmentAudit.$inferSelect;
@@ -1439,6 +2019,9 @@ export type InsertAttachmentAudit = z.infer<typeof insertAttachmentAuditSchema>;
 export type AttachmentOwnerType = z.infer<typeof attachmentOwnerTypeZodEnum>;
 export type AttachmentCategory = z.infer<typeof attachmentCategoryZodEnum>;
 export type AuditAction = z.infer<typeof auditActionZodEnum>;
+export type AttachmentRetentionPolicy = typeof attachmentRetentionPolicies.$inferSelect;
+export type AttachmentRetentionTrigger = z.infer<typeof attachmentRetentionTriggerZodEnum>;
+export type AttachmentRetentionPoliciesRequest = z.infer<typeof attachmentRetentionPoliciesRequestSchema>;
 export type ReminderType = z.infer<typeof reminderTypeZodEnum>;
 export type ReminderStatus = z.infer<typeof reminderStatusZodEnum>;
 
@@ -1490,10 +2073,13 @@ export type UserReminderSettings = typeof userReminderSettings.$inferSelect;
 // Guarantee Schemas
 export const insertGuaranteeSchema = createInsertSchema(guarantees).omit({
   id: true,
+  commissionAccruedThrough: true,
+  expiryReminderSentAt: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
   guaranteeType: guaranteeTypeZodEnum,
+  commissionBasis: guaranteeCommissionBasisZodEnum.optional(),
 });
 
 export const updateGuaranteeSchema = insertGuaranteeSchema.partial().extend({
@@ -1586,6 +2172,14 @@ export const insertOrganizationMemberSchema = createInsertSchema(organizationMem
 
 export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
 export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type MemberRole = z.infer<typeof memberRoleZodEnum>;
+
+// The owner role follows isOwner, so only the other roles can be assigned from the members page
+export const memberRoleUpdateSchema = z.object({
+  role: memberRoleZodEnum.exclude(['owner']),
+});
+
+export type MemberRoleUpdate = z.infer<typeof memberRoleUpdateSchema>;
 
 // Organization Invitation Schemas
 export const insertOrganizationInvitationSchema = createInsertSchema(organizationInvitations).omit({
@@ -1618,3 +2212,428 @@ export const updateSystemAlertSchema = insertSystemAlertSchema.partial().extend(
 export type InsertSystemAlert = z.infer<typeof insertSystemAlertSchema>;
 export type UpdateSystemAlert = z.infer<typeof updateSystemAlertSchema>;
 export type SystemAlert = typeof systemAlerts.$inferSelect;
+
+// Reference Rate Schemas
+export const insertReferenceRateSchema = createInsertSchema(referenceRates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  tenor: referenceRateTenorZodEnum,
+  fixingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a YYYY-MM-DD date"),
+  rate: z.string()
+    .refine((val) => !isNaN(Number(val)), "Must be a valid number")
+    .refine((val) => Number(val) >= 0 && Number(val) <= 100, "Must be between 0 and 100"),
+  source: referenceRateSourceZodEnum,
+});
+
+export type InsertReferenceRate = z.infer<typeof insertReferenceRateSchema>;
+export type ReferenceRate = typeof referenceRates.$inferSelect;
+export type ReferenceRateTenor = z.infer<typeof referenceRateTenorZodEnum>;
+export type ReferenceRateSource = z.infer<typeof referenceRateSourceZodEnum>;
+
+// Share Price Schemas
+export const insertSharePriceSchema = createInsertSchema(sharePrices).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  ticker: z.string().regex(/^[A-Z0-9.]{1,20}$/, "Must be a Tadawul symbol, e.g. 2222"),
+  priceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a YYYY-MM-DD date"),
+  closePrice: positiveDecimalString(15, 4),
+  source: sharePriceSourceZodEnum,
+});
+
+export type InsertSharePrice = z.infer<typeof insertSharePriceSchema>;
+export type SharePrice = typeof sharePrices.$inferSelect;
+export type SharePriceSource = z.infer<typeof sharePriceSourceZodEnum>;
+
+// Loan Rate Period Schemas
+export const insertLoanRatePeriodSchema = createInsertSchema(loanRatePeriods).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  source: loanRatePeriodSourceZodEnum,
+});
+
+export type InsertLoanRatePeriod = z.infer<typeof insertLoanRatePeriodSchema>;
+export type LoanRatePeriod = typeof loanRatePeriods.$inferSelect;
+export type LoanRatePeriodSource = z.infer<typeof loanRatePeriodSourceZodEnum>;
+
+// Loan Installment Schemas
+export const insertLoanInstallmentSchema = createInsertSchema(loanInstallments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  method: installmentMethodZodEnum,
+  status: installmentStatusZodEnum.optional(),
+});
+
+// Request to (re)generate a loan's installment plan
+export const installmentScheduleRequestSchema = z.object({
+  method: installmentMethodZodEnum,
+  frequencyMonths: z.number().int().min(1).max(12).default(3),
+  firstDueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a YYYY-MM-DD date").optional(),
+  // Custom plans list each installment's due date and principal; interest is projected from the loan rate
+  installments: z.array(z.object({
+    dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a YYYY-MM-DD date"),
+    principalAmount: positiveDecimalString(15, 2),
+  })).optional(),
+}).refine(
+  (data) => data.method !== 'custom' || (data.installments && data.installments.length > 0),
+  { message: "Custom plans need at least one installment", path: ["installments"] }
+);
+
+export type InsertLoanInstallment = z.infer<typeof insertLoanInstallmentSchema>;
+export type LoanInstallment = typeof loanInstallments.$inferSelect;
+export type InstallmentMethod = z.infer<typeof installmentMethodZodEnum>;
+export type InstallmentStatus = z.infer<typeof installmentStatusZodEnum>;
+export type InstallmentScheduleRequest = z.infer<typeof installmentScheduleRequestSchema>;
+
+// Bank Statement Schemas
+export const insertBankStatementSchema = createInsertSchema(bankStatements).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  format: statementFormatZodEnum,
+});
+
+export const insertBankStatementLineSchema = createInsertSchema(bankStatementLines).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  direction: statementLineDirectionZodEnum,
+  status: statementLineStatusZodEnum.optional(),
+  matchMethod: statementMatchMethodZodEnum.nullable().optional(),
+});
+
+// Column layout of a bank's CSV statement export. Columns are matched on header text, case-insensitive.
+// Amounts come either from one signed amount column or from separate debit and credit columns.
+export const statementCsvLayoutSchema = z.object({
+  delimiter: z.string().min(1).max(2).default(','),
+  headerRow: z.number().int().min(1).default(1), // 1-based row holding the column headers
+  dateColumn: z.string().min(1),
+  dateFormat: z.enum(['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD-MM-YYYY', 'DD.MM.YYYY']).default('DD/MM/YYYY'),
+  valueDateColumn: z.string().optional(),
+  amountColumn: z.string().optional(), // Signed: negative amounts are debits
+  debitColumn: z.string().optional(),
+  creditColumn: z.string().optional(),
+  referenceColumn: z.string().optional(),
+  descriptionColumn: z.string().optional(),
+  decimalSeparator: z.enum(['.', ',']).default('.'),
+}).refine(
+  (data) => !!data.amountColumn || (!!data.debitColumn && !!data.creditColumn),
+  { message: "Set an amount column, or both debit and credit columns", path: ["amountColumn"] }
+);
+
+export const statementImportRequestSchema = z.object({
+  format: statementFormatZodEnum,
+  content: z.string().min(1, "Statement content is required"),
+  fileName: z.string().max(255).optional(),
+});
+
+export const statementLineMatchSchema = z.object({
+  transactionId: z.string().min(1, "Transaction is required"),
+});
+
+// Book an unmatched line as a new ledger entry. Repayments go through the loan's payment waterfall;
+// fees debited by the bank are booked against the facility.
+export const statementLineCreateTransactionSchema = z.object({
+  type: z.enum(['repayment', 'fee']),
+  loanId: z.string().optional(),
+  facilityId: z.string().optional(),
+  prepayment: z.boolean().optional(),
+  memo: z.string().optional(),
+}).refine(
+  (data) => data.type !== 'repayment' || !!data.loanId,
+  { message: "Repayments must be booked against a loan", path: ["loanId"] }
+).refine(
+  (data) => data.type !== 'fee' || !!data.facilityId,
+  { message: "Fees must be booked against a facility", path: ["facilityId"] }
+);
+
+export const statementLineIgnoreSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export type InsertBankStatement = z.infer<typeof insertBankStatementSchema>;
+export type BankStatement = typeof bankStatements.$inferSelect;
+export type InsertBankStatementLine = z.infer<typeof insertBankStatementLineSchema>;
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+export type StatementFormat = z.infer<typeof statementFormatZodEnum>;
+export type StatementLineDirection = z.infer<typeof statementLineDirectionZodEnum>;
+export type StatementLineStatus = z.infer<typeof statementLineStatusZodEnum>;
+export type StatementCsvLayout = z.infer<typeof statementCsvLayoutSchema>;
+export type StatementImportRequest = z.infer<typeof statementImportRequestSchema>;
+export type StatementLineCreateTransaction = z.infer<typeof statementLineCreateTransactionSchema>;
+
+// General Ledger Export Schemas
+export const insertGlAccountMappingSchema = createInsertSchema(glAccountMappings).omit({
+  id: true,
+  organizationId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  bankId: z.string().nullable().optional(),
+  facilityType: facilityTypeZodEnum.nullable().optional(),
+  entryType: glEntryTypeZodEnum,
+  debitAccount: z.string().trim().min(1, "Debit account is required").max(50),
+  creditAccount: z.string().trim().min(1, "Credit account is required").max(50),
+});
+
+export const glJournalQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "From date must be YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "To date must be YYYY-MM-DD"),
+  includeExported: z.boolean().optional(), // Also return transactions already marked as exported
+}).refine(
+  (data) => data.from <= data.to,
+  { message: "From date must be on or before the to date", path: ["to"] }
+);
+
+export const glExportRequestSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "From date must be YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "To date must be YYYY-MM-DD"),
+  format: glExportFormatZodEnum,
+  includeExported: z.boolean().optional(),
+  markExported: z.boolean().optional(), // Record the export so its transactions are left out of later exports
+}).refine(
+  (data) => data.from <= data.to,
+  { message: "From date must be on or before the to date", path: ["to"] }
+).refine(
+  (data) => !(data.markExported && data.includeExported),
+  { message: "Transactions that were already exported cannot be marked again", path: ["markExported"] }
+);
+
+export type GlAccountMapping = typeof glAccountMappings.$inferSelect;
+export type InsertGlAccountMapping = z.infer<typeof insertGlAccountMappingSchema>;
+export type GlExport = typeof glExports.$inferSelect;
+export type GlExportEntry = typeof glExportEntries.$inferSelect;
+export type GlEntryType = z.infer<typeof glEntryTypeZodEnum>;
+export type GlExportFormat = z.infer<typeof glExportFormatZodEnum>;
+export type GlJournalQuery = z.infer<typeof glJournalQuerySchema>;
+export type GlExportRequest = z.infer<typeof glExportRequestSchema>;
+
+// Accounting Period Schemas
+export const accountingPeriodCloseSchema = z.object({
+  period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be YYYY-MM"),
+});
+
+export const accountingPeriodReopenSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to reopen a closed period").max(1000),
+});
+
+export type AccountingPeriod = typeof accountingPeriods.$inferSelect;
+export type AccountingPeriodStatus = z.infer<typeof accountingPeriodStatusZodEnum>;
+
+// Bank Management Schemas
+export const bankRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9]{2,10}$/, "Code must be 2 to 10 letters or digits"),
+  targetLtv: z.string()
+    .refine((val) => !isNaN(Number(val)), "Must be a valid number")
+    .refine((val) => Number(val) > 0 && Number(val) <= 100, "Must be between 0 and 100%")
+    .optional(),
+});
+
+export const bankUpdateSchema = bankRequestSchema.partial();
+
+export const bankMergeSchema = z.object({
+  targetBankId: z.string().min(1, "Select the bank to merge into"),
+});
+
+export type BankRequest = z.infer<typeof bankRequestSchema>;
+export type BankMergeRequest = z.infer<typeof bankMergeSchema>;
+
+// Approval Schemas
+export const insertApprovalRequestSchema = createInsertSchema(approvalRequests).omit({
+  id: true,
+  status: true,
+  checkerId: true,
+  checkerComment: true,
+  resultId: true,
+  createdAt: true,
+  decidedAt: true,
+});
+
+// Thresholds per action; null removes the threshold so the action takes effect immediately again
+export const approvalThresholdsRequestSchema = z.object({
+  loan_drawdown: decimalString(15, 2).nullable().optional(),
+  loan_settlement: decimalString(15, 2).nullable().optional(),
+  settlement_reversal: decimalString(15, 2).nullable().optional(),
+  payment: decimalString(15, 2).nullable().optional(),
+});
+
+export const approvalDecisionSchema = z.object({
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export const approvalRejectSchema = z.object({
+  comment: z.string().trim().min(1, "A comment is required to reject a request").max(1000),
+});
+
+export type ApprovalThreshold = typeof approvalThresholds.$inferSelect;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+export type InsertApprovalRequest = z.infer<typeof insertApprovalRequestSchema>;
+export type ApprovalAction = z.infer<typeof approvalActionZodEnum>;
+export type ApprovalStatus = z.infer<typeof approvalStatusZodEnum>;
+export type ApprovalThresholdsRequest = z.infer<typeof approvalThresholdsRequestSchema>;
+
+// Guarantee Lifecycle Schemas
+const guaranteeActionDate = z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date");
+
+export const guaranteeRenewSchema = z.object({
+  date: guaranteeActionDate, // Renewal date
+  expiryDate: guaranteeActionDate,
+  guaranteeAmount: positiveDecimalString(15, 2).optional(), // Keeps the current amount when left out
+  feeRate: decimalString(5, 2).optional(),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export const guaranteeAmendSchema = z.object({
+  date: guaranteeActionDate, // Date the amendment takes effect
+  guaranteeAmount: positiveDecimalString(15, 2).optional(),
+  expiryDate: guaranteeActionDate.optional(),
+  beneficiaryName: z.string().trim().min(1).max(200).optional(),
+  beneficiaryDetails: z.string().optional(),
+  feeRate: decimalString(5, 2).optional(),
+  terms: z.string().optional(),
+  reason: z.string().trim().min(1, "A reason is required to amend a guarantee").max(1000),
+});
+
+export const guaranteeCallSchema = z.object({
+  date: guaranteeActionDate,
+  amount: positiveDecimalString(15, 2).optional(), // Calls the whole remaining amount when left out
+  reason: z.string().trim().max(1000).optional(),
+});
+
+export const guaranteeReleaseSchema = z.object({
+  date: guaranteeActionDate,
+  reason: z.string().trim().min(1, "A reason is required to release a guarantee").max(1000),
+});
+
+export const guaranteeCommissionPaymentSchema = z.object({
+  date: guaranteeActionDate, // Date the bank debited the commission
+});
+
+export const insertGuaranteeVersionSchema = createInsertSchema(guaranteeVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGuaranteeCommissionSchema = createInsertSchema(guaranteeCommissions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type GuaranteeVersion = typeof guaranteeVersions.$inferSelect;
+export type InsertGuaranteeVersion = z.infer<typeof insertGuaranteeVersionSchema>;
+export type GuaranteeAction = z.infer<typeof guaranteeActionZodEnum>;
+export type GuaranteeRenewRequest = z.infer<typeof guaranteeRenewSchema>;
+export type GuaranteeAmendRequest = z.infer<typeof guaranteeAmendSchema>;
+export type GuaranteeCallRequest = z.infer<typeof guaranteeCallSchema>;
+export type GuaranteeReleaseRequest = z.infer<typeof guaranteeReleaseSchema>;
+export type GuaranteeCommission = typeof guaranteeCommissions.$inferSelect;
+export type InsertGuaranteeCommission = z.infer<typeof insertGuaranteeCommissionSchema>;
+export type GuaranteeCommissionBasis = z.infer<typeof guaranteeCommissionBasisZodEnum>;
+export type GuaranteeCommissionPaymentRequest = z.infer<typeof guaranteeCommissionPaymentSchema>;
+
+// Exposure Schemas
+const conversionFactor = decimalString(5, 2).refine((val) => Number(val) <= 100, "Must be at most 100%");
+
+// Factors per guarantee type in percent; null falls back to the default factor
+export const creditConversionFactorsRequestSchema = z.object({
+  bid_bond: conversionFactor.nullable().optional(),
+  performance_bond: conversionFactor.nullable().optional(),
+  advance_payment_guarantee: conversionFactor.nullable().optional(),
+  general_bank_guarantee: conversionFactor.nullable().optional(),
+  retention_money_guarantee: conversionFactor.nullable().optional(),
+  other: conversionFactor.nullable().optional(),
+});
+
+export type CreditConversionFactor = typeof creditConversionFactors.$inferSelect;
+export type CreditConversionFactorsRequest = z.infer<typeof creditConversionFactorsRequestSchema>;
+
+// Collateral Valuation Schemas
+const valuationDate = z.string().refine((val) => !isNaN(Date.parse(val)), "Must be a valid date");
+
+export const collateralValuationRequestSchema = z.object({
+  value: positiveDecimalString(15, 2),
+  effectiveDate: valuationDate,
+  source: z.string().trim().min(1, "Source is required").max(100),
+  valuerName: z.string().trim().max(200).optional(),
+  reportAttachmentId: z.string().optional(), // Valuation report uploaded as a collateral attachment
+  notes: z.string().max(2000).optional(),
+});
+
+const revaluationMonths = z.number().int().min(1, "Must be at least 1 month").max(120, "Must be at most 120 months");
+
+// Months between revaluations per collateral type; null falls back to the default frequency
+export const collateralRevaluationFrequenciesRequestSchema = z.object({
+  real_estate: revaluationMonths.nullable().optional(),
+  liquid_stocks: revaluationMonths.nullable().optional(),
+  other: revaluationMonths.nullable().optional(),
+});
+
+export const insertCollateralValuationSchema = createInsertSchema(collateralValuations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type CollateralValuation = typeof collateralValuations.$inferSelect;
+export type InsertCollateralValuation = z.infer<typeof insertCollateralValuationSchema>;
+export type CollateralValuationRequest = z.infer<typeof collateralValuationRequestSchema>;
+export type CollateralRevaluationFrequency = typeof collateralRevaluationFrequencies.$inferSelect;
+export type CollateralRevaluationFrequenciesRequest = z.infer<typeof collateralRevaluationFrequenciesRequestSchema>;
+
+// Margin Call Schemas
+export const insertMarginCallSchema = createInsertSchema(marginCalls).omit({
+  id: true,
+  status: true,
+  reminderLevel: true,
+  lastReminderDate: true,
+  resolution: true,
+  resolutionNotes: true,
+  resolvedBy: true,
+  resolvedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Closing a call by hand; anything but a waiver requires the LTV to be back within target
+export const marginCallResolveRequestSchema = z.object({
+  resolution: z.enum(['top_up', 'paydown', 'reassignment', 'waived']),
+  notes: z.string().trim().max(2000).optional(),
+}).refine(
+  (data) => data.resolution !== 'waived' || !!data.notes,
+  { message: "Record who at the bank agreed to waive the call", path: ["notes"] }
+);
+
+export type MarginCall = typeof marginCalls.$inferSelect;
+export type InsertMarginCall = z.infer<typeof insertMarginCallSchema>;
+export type MarginCallStatus = z.infer<typeof marginCallStatusZodEnum>;
+export type MarginCallResolution = z.infer<typeof marginCallResolutionZodEnum>;
+export type MarginCallResolveRequest = z.infer<typeof marginCallResolveRequestSchema>;
+
+// Language model schemas
+export const llmProviderZodEnum = z.enum(['openai', 'deepseek', 'mock']);
+export const llmFeatureZodEnum = z.enum(['agent', 'portfolio_chat', 'insights', 'help_desk', 'agreement_extraction']);
+
+export const insertLlmUsageSchema = createInsertSchema(llmUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Null model = the provider's default; null limit = unlimited
+export const llmSettingsRequestSchema = z.object({
+  provider: llmProviderZodEnum,
+  model: z.string().trim().min(1).max(100).nullable().optional(),
+  monthlyTokenLimit: z.number().int().positive("Must be a positive number of tokens").nullable().optional(),
+});
+
+export type LlmSettings = typeof llmSettings.$inferSelect;
+export type LlmSettingsRequest = z.infer<typeof llmSettingsRequestSchema>;
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = z.infer<typeof insertLlmUsageSchema>;
+export type LlmProviderName = z.infer<typeof llmProviderZodEnum>;
+export type LlmFeature = z.infer<typeof llmFeatureZodEnum>;
@@ -1,6 +1,13 @@
 // API Response Types for Frontend
+import type { ApprovalRequest, MarginCall, FacilityType, CreditLineType } from "./schema";
+
 export interface PortfolioSummary {
-  totalOutstanding: number;
+  totalOutstanding: number;  // Funded - loan balances
+  totalGuaranteesOutstanding: number;  // Unfunded - guarantee amounts still in force
+  totalUtilized: number;  // Funded + unfunded, counted against the facility limits
+  totalExposure: number;  // Funded + unfunded weighted by credit conversion factor
+  totalCashMargin: number;
+  totalNetExposure: number;  // Exposure less cash margin
   totalCreditLimit: number;
   availableCredit: number;
   portfolioLtv: number;
@@ -13,17 +20,154 @@ export interface PortfolioSummary {
 export interface BankExposure {
   bankId: string;
   bankName: string;
-  outstanding: number;
+  outstanding: number;  // Funded - loan balances
+  guaranteesOutstanding: number;  // Unfunded - guarantee amounts still in force
+  utilized: number;  // outstanding + guaranteesOutstanding
+  exposure: number;  // Funded + unfunded weighted by credit conversion factor
+  cashMargin: number;
+  netExposure: number;  // Exposure less cash margin
   creditLimit: number;
-  utilization: number;
+  utilization: number;  // utilized / creditLimit
   facilityLtv: number;  // Collateral Value / Total Facility Limits
   outstandingLtv: number;  // Collateral Value / Outstanding Loans
 }
 
+export interface LoanBalance {
+  asOf: string;
+  principal: number;  // Outstanding principal (draws less principal repaid)
+  interest: number;  // Accrued interest not yet paid
+  fees: number;  // Fees charged not yet paid
+  total: number;
+}
+
+export interface PaymentAllocation {
+  fees: number;
+  overdueInterest: number;
+  currentInterest: number;
+  interest: number;  // overdueInterest + currentInterest
+  principal: number;  // Includes any prepayment
+  prepayment: number;  // Principal paid ahead of its due date
+  total: number;
+}
+
+export interface InstallmentAllocation {
+  installmentId: string;
+  installmentNumber: number;
+  principal: number;
+  interest: number;
+}
+
+export interface RateResetScheduleEntry {
+  periodStart: string;
+  periodEnd: string;
+  fixingDate: string | null;  // Reference rate fixing used, null when carried forward or not yet fixed
+  tenor: string | null;
+  siborRate: number | null;  // null for projected periods
+  margin: number;
+  bankRate: number | null;
+  source: string;  // initial, reset or carried_forward
+  status: 'fixed' | 'projected';
+}
+
+export interface BankReconciliationStatus {
+  bankId: string;
+  status: 'no_statements' | 'reconciled' | 'unreconciled';
+  statementCount: number;
+  lastStatementDate: string | null;  // Latest period end (or value date) across imported statements
+  lastImportedAt: string | null;
+  matched: number;
+  unmatched: number;
+  ignored: number;
+  unmatchedAmount: number;  // Sum of unmatched line amounts, debits and credits alike
+}
+
+export interface StatementImportResult {
+  statementId: string;
+  lineCount: number;
+  autoMatched: number;
+  unmatched: number;
+}
+
+// Ledger entry offered as a match for a statement line
+export interface ReconciliationCandidate {
+  transactionId: string;
+  type: string;
+  amount: number;
+  date: string;
+  reference: string | null;
+  memo: string | null;
+  loanId: string | null;
+  loanReference: string | null;
+  score: number;  // Higher is a better match
+}
+
+export interface GlJournalLine {
+  lineNumber: number;
+  account: string;
+  debit: number;
+  credit: number;
+  entryType: string;  // Mapping entry type the line was posted from (draw, repayment_interest, ...)
+  description: string;
+}
+
+// Balanced journal for one ledger transaction
+export interface GlJournal {
+  journalId: string;
+  date: string;
+  transactionId: string;
+  transactionType: string;
+  reference: string | null;
+  description: string;
+  bankId: string;
+  bankName: string;
+  facilityId: string | null;
+  facilityType: string | null;
+  loanId: string | null;
+  loanReference: string | null;
+  currency: string;
+  lines: GlJournalLine[];
+  totalDebit: number;
+  totalCredit: number;
+}
+
+export interface GlUnmappedEntry {
+  transactionId: string;
+  entryType: string;
+  bankId: string;
+  bankName: string;
+  facilityType: string | null;
+}
+
+export interface GlJournalBatch {
+  from: string;
+  to: string;
+  generatedAt: string;
+  journals: GlJournal[];
+  unmapped: GlUnmappedEntry[];  // Postings with no account mapping - these transactions have no journal
+  totalDebit: number;
+  totalCredit: number;
+}
+
+// Rows re-pointed from a duplicate bank to the bank it was merged into
+export interface BankMergeResult {
+  sourceBankId: string;
+  targetBankId: string;
+  facilities: number;
+  contacts: number;
+  attachments: number;
+  transactions: number;
+  collateralAssignments: number;
+  statements: number;
+  accountMappings: number;
+  marginCalls: number;
+}
+
 export interface SiborRate {
   rate: number;
   monthlyChange: number;
   lastUpdated: string;
+  tenor: string;  // Published tenor the fixing is for (1M, 3M, 6M, 12M)
+  fixingDate: string;
 }
 
 export interface LoanWithDetails {
@@ -119,4 +263,118 @@ export interface AIInsight {
   impact: 'high' | 'medium' | 'low';
   recommendation: string;
   timestamp: string;
-}
\ No newline at end of file
+}
+
+// Approval request as listed in the approvals inbox
+export interface ApprovalInboxItem extends ApprovalRequest {
+  makerName: string | null;
+  checkerName: string | null;
+  canDecide: boolean;  // Pending, made by someone else and the viewer's role can write the area
+}
+
+// Sent with 202 instead of the result when an action waits for a second member to approve it
+export interface PendingApprovalResponse {
+  pendingApproval: true;
+  approval: ApprovalRequest;
+}
+
+// LTV at one date, from the loan ledgers and the collateral valuations in effect on that date
+export interface LtvTimelinePoint {
+  date: string;
+  outstanding: number;
+  collateralValue: number;
+  ltv: number | null;  // Outstanding / collateral value in percent, null without collateral
+  revaluations: number;  // Valuations that took effect since the previous point
+}
+
+export interface LtvTimelineSeries {
+  id: string;  // Bank or facility id
+  name: string;
+  bankId: string;
+  points: LtvTimelinePoint[];
+}
+
+export interface CollateralLtvTimeline {
+  portfolio: LtvTimelinePoint[];
+  banks: LtvTimelineSeries[];
+  facilities: LtvTimelineSeries[];
+}
+
+// Collateral whose latest valuation is older than the revaluation frequency of its type
+export interface StaleCollateralValuation {
+  collateralId: string;
+  name: string;
+  type: string;
+  valuationDate: string;
+  nextRevaluationDate: string;
+  daysOverdue: number;
+}
+
+export interface MarginCallCure {
+  type: 'top_up' | 'paydown' | 'reassignment';
+  amount: number;
+  collateralId?: string; // Unencumbered collateral suggested for re-assignment
+  description: string;
+}
+
+export interface MarginCallDetail extends MarginCall {
+  bankName: string;
+  facilityName: string | null;
+  daysToDeadline: number; // Negative once the cure deadline has passed
+  cures: MarginCallCure[]; // Only for open calls
+}
+
+// A value read from a facility agreement, for the user to review before anything is saved
+export interface ExtractedField<T> {
+  value: T | null;
+  confidence: number; // 0-1
+  citation: string | null; // Passage of the agreement the value was read from
+  citationFound: boolean; // False when the passage does not occur in the agreement text
+}
+
+export interface ExtractedCreditLine {
+  name: ExtractedField<string>;
+  creditLineType: ExtractedField<CreditLineType>;
+  creditLimit: ExtractedField<string>;
+  interestRate: ExtractedField<string>; // Margin over SIBOR when it differs from the facility's
+}
+
+export interface FacilityAgreementDraft {
+  attachmentId: string;
+  fileName: string;
+  bankName: ExtractedField<string>;
+  bankId: string | null; // Bank matched by name
+  facilityType: ExtractedField<FacilityType>;
+  creditLimit: ExtractedField<string>;
+  margin: ExtractedField<string>; // Margin over SIBOR in %
+  tenorMonths: ExtractedField<number>;
+  startDate: ExtractedField<string>;
+  expiryDate: ExtractedField<string>;
+  creditLines: ExtractedCreditLine[];
+  covenants: ExtractedField<string>[];
+  fees: ExtractedField<string>[];
+  warnings: string[];
+}
+
+// Language model calls and tokens of one feature and model over a period
+export interface LlmUsageSummary {
+  feature: string;
+  provider: string;
+  model: string;
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// One function the AI agent executed while answering a message
+export interface AgentToolExecution {
+  round: number; // Reasoning round the model asked for it in, from 1
+  toolCallId: string;
+  name: string;
+  arguments: Record<string, any> | null; // Null when the model sent arguments that are not valid JSON
+  status: 'succeeded' | 'failed' | 'denied';
+  result: any;
+  durationMs: number;
+}